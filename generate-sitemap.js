@@ -14,6 +14,7 @@ async function generateSitemap() {
     { loc: `${baseUrl}/`, lastmod: new Date().toISOString().split('T')[0], changefreq: 'daily', priority: '1.0' },
     { loc: `${baseUrl}/products`, lastmod: new Date().toISOString().split('T')[0], changefreq: 'daily', priority: '0.9' },
     { loc: `${baseUrl}/collections`, lastmod: new Date().toISOString().split('T')[0], changefreq: 'daily', priority: '0.9' },
+    { loc: `${baseUrl}/brands`, lastmod: new Date().toISOString().split('T')[0], changefreq: 'weekly', priority: '0.8' },
     { loc: `${baseUrl}/contact`, lastmod: new Date().toISOString().split('T')[0], changefreq: 'monthly', priority: '0.8' },
     { loc: `${baseUrl}/faq`, lastmod: new Date().toISOString().split('T')[0], changefreq: 'monthly', priority: '0.7' },
     { loc: `${baseUrl}/privacy-policy`, lastmod: new Date().toISOString().split('T')[0], changefreq: 'yearly', priority: '0.5' },
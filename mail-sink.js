@@ -0,0 +1,136 @@
+// Local stand-in for the Resend API and the SMS gateway, for trying
+// transactional emails and texts without sending any. Run this with:
+// node mail-sink.js
+//
+// Point the edge functions at it with EMAIL_SINK_URL and, with
+// SMS_PROVIDER=fake, SMS_SINK_URL (from a local Supabase stack those are
+// http://host.docker.internal:1080/emails and .../sms), then open
+// http://localhost:1080 to read what was sent. Set MAIL_SINK_FAIL=1 to
+// answer every send with an error and watch the retries.
+
+import http from 'http';
+import { randomUUID } from 'crypto';
+
+const port = Number(process.env.MAIL_SINK_PORT || 1080);
+const failEverything = process.env.MAIL_SINK_FAIL === '1';
+const messages = [];
+const texts = [];
+
+const escapeHtml = (value) =>
+  String(value).replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const send = (res, status, body, type = 'application/json') => {
+  res.writeHead(status, { 'Content-Type': type });
+  res.end(type === 'application/json' ? JSON.stringify(body) : body);
+};
+
+const inboxPage = () => `<!DOCTYPE html>
+<html>
+  <head><meta charset="utf-8"><title>Mail sink (${messages.length})</title></head>
+  <body style="font-family: sans-serif; max-width: 900px; margin: 20px auto;">
+    <h1>Mail sink</h1>
+    <p>${messages.length} message(s). <a href="/messages">JSON</a></p>
+    <table style="width: 100%; border-collapse: collapse;">
+      ${messages.slice().reverse().map((message) => `
+        <tr>
+          <td style="padding: 6px; border-bottom: 1px solid #ddd;">${escapeHtml(message.received_at)}</td>
+          <td style="padding: 6px; border-bottom: 1px solid #ddd;">${escapeHtml(message.to.join(', '))}</td>
+          <td style="padding: 6px; border-bottom: 1px solid #ddd;"><a href="/messages/${message.id}">${escapeHtml(message.subject)}</a></td>
+        </tr>`).join('')}
+    </table>
+    <h1>SMS</h1>
+    <p>${texts.length} text(s). <a href="/texts">JSON</a></p>
+    <table style="width: 100%; border-collapse: collapse;">
+      ${texts.slice().reverse().map((text) => `
+        <tr>
+          <td style="padding: 6px; border-bottom: 1px solid #ddd;">${escapeHtml(text.received_at)}</td>
+          <td style="padding: 6px; border-bottom: 1px solid #ddd;">${escapeHtml(text.to)}</td>
+          <td style="padding: 6px; border-bottom: 1px solid #ddd;">${escapeHtml(text.message)}</td>
+        </tr>`).join('')}
+    </table>
+  </body>
+</html>`;
+
+const server = http.createServer((req, res) => {
+  if (req.method === 'GET' && req.url === '/') {
+    return send(res, 200, inboxPage(), 'text/html');
+  }
+
+  if (req.method === 'GET' && req.url === '/messages') {
+    return send(res, 200, messages);
+  }
+
+  if (req.method === 'GET' && req.url.startsWith('/messages/')) {
+    const message = messages.find((m) => m.id === req.url.slice('/messages/'.length));
+    return message
+      ? send(res, 200, message.html, 'text/html')
+      : send(res, 404, { message: 'Not found' });
+  }
+
+  if (req.method === 'GET' && req.url === '/texts') {
+    return send(res, 200, texts);
+  }
+
+  if (req.method === 'DELETE' && req.url === '/messages') {
+    messages.length = 0;
+    texts.length = 0;
+    return send(res, 200, { deleted: true });
+  }
+
+  if (req.method !== 'POST') {
+    return send(res, 405, { message: 'Method not allowed' });
+  }
+
+  let body = '';
+  req.on('data', (chunk) => { body += chunk; });
+  req.on('end', () => {
+    if (failEverything) {
+      return send(res, 503, { message: 'Mail sink is set to fail (MAIL_SINK_FAIL=1)' });
+    }
+
+    let payload;
+    try {
+      payload = JSON.parse(body);
+    } catch {
+      return send(res, 400, { message: 'Body must be JSON' });
+    }
+
+    if (req.url === '/sms') {
+      if (!payload.to || !payload.message) {
+        return send(res, 422, { message: 'to and message are required' });
+      }
+
+      const text = {
+        id: randomUUID(),
+        to: String(payload.to),
+        message: String(payload.message),
+        received_at: new Date().toISOString(),
+      };
+      texts.push(text);
+      console.log(`📱 ${text.to}: ${text.message}`);
+
+      return send(res, 200, { id: text.id });
+    }
+
+    if (!payload.to || !payload.subject || !payload.html) {
+      return send(res, 422, { message: 'to, subject and html are required' });
+    }
+
+    const message = {
+      id: randomUUID(),
+      from: payload.from,
+      to: Array.isArray(payload.to) ? payload.to : [payload.to],
+      subject: payload.subject,
+      html: payload.html,
+      received_at: new Date().toISOString(),
+    };
+    messages.push(message);
+    console.log(`📨 ${message.to.join(', ')}: ${message.subject}`);
+
+    send(res, 200, { id: message.id });
+  });
+});
+
+server.listen(port, () => {
+  console.log(`Mail sink listening on http://localhost:${port}`);
+});
@@ -5,6 +5,7 @@ import { useEffect } from 'react';
 import { useAuth } from './hooks/useAuth';
 import { useCartStore } from './stores/cartStore';
 import { useWishlistStore } from './stores/wishlistStore';
+import { useSizePreferenceStore } from './stores/sizePreferenceStore';
 import { usePageTitle } from './hooks/usePageTitle';
 import Header from './components/layout/Header';
 import Footer from './components/layout/Footer';
@@ -17,6 +18,8 @@ import CollectionsPage from './pages/CollectionsPage';
 import ProductsPage from './pages/ProductsPage';
 import ProductDetailPage from './pages/ProductDetailPage';
 import CollectionDetailPage from './pages/CollectionDetailPage';
+import BrandsPage from './pages/BrandsPage';
+import BrandDetailPage from './pages/BrandDetailPage';
 import CheckoutPage from './pages/CheckoutPage';
 import WishlistPage from './pages/WishlistPage';
 import PaymentSuccessPage from './pages/PaymentSuccessPage';
@@ -24,18 +27,28 @@ import PaymentCancelPage from './pages/PaymentCancelPage';
 import ThankYouPage from './pages/ThankYouPage';
 import OrderDashboard from './pages/OrderDashboard';
 import OrderDetails from './pages/OrderDetails';
+import OrderLookupPage from './pages/OrderLookupPage';
 import ProfilePage from './pages/ProfilePage';
 import ProtectedAdminRoute from './components/admin/ProtectedAdminRoute';
 import AdminDashboard from './pages/admin/AdminDashboard';
+import SalesAnalytics from './pages/admin/SalesAnalytics';
+import InventoryManagement from './pages/admin/InventoryManagement';
 import OrdersManagement from './pages/admin/OrdersManagement';
 import ProductsManagement from './pages/admin/ProductsManagement';
 import CategoriesManagement from './pages/admin/CategoriesManagement';
 import CollectionsManagement from './pages/admin/CollectionsManagement';
+import BrandsManagement from './pages/admin/BrandsManagement';
 import UsersManagement from './pages/admin/UsersManagement';
 import AuditLogs from './pages/admin/AuditLogs';
 import ContactMessagesManagement from './pages/admin/ContactMessagesManagement';
 import SupportRequestsManagement from './pages/admin/SupportRequestsManagement';
+import EmailsManagement from './pages/admin/EmailsManagement';
+import SmsManagement from './pages/admin/SmsManagement';
+import PaymentsManagement from './pages/admin/PaymentsManagement';
 import AnnouncementsManagement from './pages/admin/AnnouncementsManagement';
+import DiscountsManagement from './pages/admin/DiscountsManagement';
+import ShippingManagement from './pages/admin/ShippingManagement';
+import ReviewsManagement from './pages/admin/ReviewsManagement';
 import ShopSettingsManagement from './pages/admin/ShopSettingsManagement';
 import PrivacyPolicyPage from './pages/PrivacyPolicyPage';
 import ResetPasswordPage from './pages/ResetPasswordPage';
@@ -49,6 +62,7 @@ import RefundPolicyPage from './pages/RefundPolicyPage';
 import TermsOfServicePage from './pages/TermsOfServicePage';
 import SizeGuidePage from './pages/SizeGuidePage';
 import UnsubscribePage from './pages/UnsubscribePage';
+import OrderDocumentsPage from './pages/OrderDocumentsPage';
 import { PageLoading } from './components/ui/Loading';
 
 const queryClient = new QueryClient({
@@ -65,8 +79,10 @@ const AppLayout = () => {
   const isCheckoutPage = location.pathname === '/checkout';
   const isThankYouPage = location.pathname === '/thank-you';
   const isUnsubscribePage = location.pathname === '/unsubscribe';
+  const isOrderLookupPage = location.pathname === '/orders/lookup';
   const isAdminPage = location.pathname.startsWith('/admin');
-  const isSpecialPage = isCheckoutPage || isThankYouPage || isUnsubscribePage || isAdminPage;
+  const isInvoicePage = /^\/orders\/[^/]+\/invoice$/.test(location.pathname);
+  const isSpecialPage = isCheckoutPage || isThankYouPage || isUnsubscribePage || isOrderLookupPage || isAdminPage || isInvoicePage;
 
   // Use the page title hook to dynamically update document title
   usePageTitle();
@@ -79,13 +95,17 @@ const AppLayout = () => {
           <Route path="/" element={<HomePage />} />
           <Route path="/collections" element={<CollectionsPage />} />
           <Route path="/collections/:slug" element={<CollectionDetailPage />} />
+          <Route path="/brands" element={<BrandsPage />} />
+          <Route path="/brands/:slug" element={<BrandDetailPage />} />
           <Route path="/products" element={<ProductsPage />} />
           <Route path="/products/:slug" element={<ProductDetailPage />} />
           <Route path="/checkout" element={<CheckoutPage />} />
           <Route path="/wishlist" element={<WishlistPage />} />
           <Route path="/profile" element={<ProfilePage />} />
           <Route path="/orders" element={<OrderDashboard />} />
+          <Route path="/orders/lookup" element={<OrderLookupPage />} />
           <Route path="/orders/:orderId" element={<OrderDetails />} />
+          <Route path="/orders/:orderId/invoice" element={<OrderDocumentsPage />} />
           <Route path="/thank-you" element={<ThankYouPage />} />
           <Route path="/payment/success" element={<PaymentSuccessPage />} />
           <Route path="/payment/cancel" element={<PaymentCancelPage />} />
@@ -106,14 +126,24 @@ const AppLayout = () => {
           {/* Admin Routes */}
           <Route path="/admin" element={<ProtectedAdminRoute><AdminDashboard /></ProtectedAdminRoute>} />
           <Route path="/admin/dashboard" element={<ProtectedAdminRoute><AdminDashboard /></ProtectedAdminRoute>} />
+          <Route path="/admin/analytics" element={<ProtectedAdminRoute><SalesAnalytics /></ProtectedAdminRoute>} />
           <Route path="/admin/orders" element={<ProtectedAdminRoute><OrdersManagement /></ProtectedAdminRoute>} />
+          <Route path="/admin/print/:kind" element={<ProtectedAdminRoute><OrderDocumentsPage /></ProtectedAdminRoute>} />
           <Route path="/admin/products" element={<ProtectedAdminRoute><ProductsManagement /></ProtectedAdminRoute>} />
+          <Route path="/admin/inventory" element={<ProtectedAdminRoute><InventoryManagement /></ProtectedAdminRoute>} />
           <Route path="/admin/categories" element={<ProtectedAdminRoute><CategoriesManagement /></ProtectedAdminRoute>} />
           <Route path="/admin/collections" element={<ProtectedAdminRoute><CollectionsManagement /></ProtectedAdminRoute>} />
+          <Route path="/admin/brands" element={<ProtectedAdminRoute><BrandsManagement /></ProtectedAdminRoute>} />
           <Route path="/admin/announcements" element={<ProtectedAdminRoute><AnnouncementsManagement /></ProtectedAdminRoute>} />
+          <Route path="/admin/discounts" element={<ProtectedAdminRoute><DiscountsManagement /></ProtectedAdminRoute>} />
+          <Route path="/admin/shipping" element={<ProtectedAdminRoute><ShippingManagement /></ProtectedAdminRoute>} />
+          <Route path="/admin/reviews" element={<ProtectedAdminRoute><ReviewsManagement /></ProtectedAdminRoute>} />
           <Route path="/admin/users" element={<ProtectedAdminRoute><UsersManagement /></ProtectedAdminRoute>} />
           <Route path="/admin/contact-messages" element={<ProtectedAdminRoute><ContactMessagesManagement /></ProtectedAdminRoute>} />
           <Route path="/admin/support-requests" element={<ProtectedAdminRoute><SupportRequestsManagement /></ProtectedAdminRoute>} />
+          <Route path="/admin/emails" element={<ProtectedAdminRoute><EmailsManagement /></ProtectedAdminRoute>} />
+          <Route path="/admin/sms" element={<ProtectedAdminRoute><SmsManagement /></ProtectedAdminRoute>} />
+          <Route path="/admin/payments" element={<ProtectedAdminRoute><PaymentsManagement /></ProtectedAdminRoute>} />
           <Route path="/admin/audit" element={<ProtectedAdminRoute><AuditLogs /></ProtectedAdminRoute>} />
           {/* Add more routes as needed */}
         </Routes>
@@ -133,9 +163,10 @@ const AppLayout = () => {
 };
 
 const AppContent = () => {
-  const { user, loading: authLoading, isNewUser } = useAuth();
+  const { user, profile, loading: authLoading, isNewUser } = useAuth();
   const { setUserId } = useCartStore();
   const { mergeWithDbWishlist, clearLocal } = useWishlistStore();
+  const { syncWithProfile, clearUser } = useSizePreferenceStore();
 
   useEffect(() => {
     // Update cart store with current user ID and new user flag
@@ -153,6 +184,17 @@ const AppContent = () => {
     }
   }, [user?.id, authLoading, isNewUser, mergeWithDbWishlist, setUserId, clearLocal]);
 
+  // Keep the saved shoe size in step with the signed-in profile
+  useEffect(() => {
+    if (authLoading) return;
+
+    if (user && profile) {
+      syncWithProfile(user.id, profile.preferred_size);
+    } else if (!user) {
+      clearUser();
+    }
+  }, [user, profile, authLoading, syncWithProfile, clearUser]);
+
   if (authLoading) {
     return <PageLoading />;
   }
@@ -13,6 +13,15 @@ import {
   MessageCircle,
   HelpCircle,
   Megaphone,
+  Star,
+  Tag,
+  Truck,
+  BarChart3,
+  Boxes,
+  Mail,
+  MessageSquare,
+  Banknote,
+  Award,
 } from 'lucide-react';
 import { useAuth } from '../../hooks/useAuth';
 import Button from '../ui/Button';
@@ -37,14 +46,23 @@ const AdminLayout = ({ children }: AdminLayoutProps) => {
 
   const sidebarItems = [
     { path: '/admin/dashboard', label: 'Dashboard', icon: LayoutDashboard },
+    { path: '/admin/analytics', label: 'Analytics', icon: BarChart3 },
     { path: '/admin/orders', label: 'Orders', icon: ShoppingCart },
+    { path: '/admin/payments', label: 'Payments', icon: Banknote },
     { path: '/admin/products', label: 'Products', icon: Package },
+    { path: '/admin/inventory', label: 'Inventory', icon: Boxes },
     { path: '/admin/categories', label: 'Categories', icon: FolderOpen },
+    { path: '/admin/brands', label: 'Brands', icon: Award },
     { path: '/admin/collections', label: 'Collections', icon: Grid3X3 },
     { path: '/admin/announcements', label: 'Announcements', icon: Megaphone },
+    { path: '/admin/discounts', label: 'Discounts', icon: Tag },
+    { path: '/admin/shipping', label: 'Shipping', icon: Truck },
+    { path: '/admin/reviews', label: 'Reviews', icon: Star },
     { path: '/admin/users', label: 'Users', icon: Users },
     { path: '/admin/contact-messages', label: 'Contact Messages', icon: MessageCircle },
     { path: '/admin/support-requests', label: 'Support Requests', icon: HelpCircle },
+    { path: '/admin/emails', label: 'Emails', icon: Mail },
+    { path: '/admin/sms', label: 'SMS', icon: MessageSquare },
     { path: '/admin/audit', label: 'Audit Logs', icon: ClipboardList },
   ];
 
@@ -0,0 +1,112 @@
+import { useState, useEffect } from 'react';
+import { Truck } from 'lucide-react';
+import Button from '../ui/Button';
+import { showSuccessToast, showErrorToast } from '../ui/CustomToast';
+import { fetchCouriers, updateCourier } from '../../services/shipmentService';
+import { Courier } from '../../types/shipment';
+
+const inputClassName = 'w-full px-3 py-2 bg-black text-white text-sm border border-[rgb(51,51,51)] rounded-lg hover:border-[rgb(94,94,94)] focus:outline-none focus:border-white transition-colors';
+
+const CouriersPanel = () => {
+  const [couriers, setCouriers] = useState<Courier[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [savingCode, setSavingCode] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchCouriers(true)
+      .then(setCouriers)
+      .catch(error => {
+        console.error('Error fetching couriers:', error);
+        showErrorToast('Failed to load couriers');
+      })
+      .finally(() => setLoading(false));
+  }, []);
+
+  const patchCourier = (code: string, patch: Partial<Courier>) => {
+    setCouriers(prev => prev.map(courier => (courier.code === code ? { ...courier, ...patch } : courier)));
+  };
+
+  const saveCourier = async (courier: Courier) => {
+    setSavingCode(courier.code);
+    try {
+      const saved = await updateCourier(courier.code, {
+        name: courier.name.trim(),
+        tracking_url_template: courier.tracking_url_template?.trim() || null,
+        is_active: courier.is_active,
+      });
+      patchCourier(courier.code, saved);
+      showSuccessToast(`${saved.name} updated`);
+    } catch (error: any) {
+      console.error('Error updating courier:', error);
+      showErrorToast(error.message || 'Failed to update courier');
+    } finally {
+      setSavingCode(null);
+    }
+  };
+
+  return (
+    <div className="bg-black border border-[rgb(51,51,51)] rounded-lg">
+      <div className="px-6 py-4 border-b border-[rgb(51,51,51)] flex items-center">
+        <Truck className="w-5 h-5 text-white mr-2" />
+        <div>
+          <h3 className="text-lg font-semibold text-white">Couriers</h3>
+          <p className="text-sm text-[rgb(94,94,94)]">
+            Use {'{{tracking_number}}'} in the link template where the tracking number goes.
+          </p>
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center py-8">
+          <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-white"></div>
+        </div>
+      ) : (
+        <div className="divide-y divide-[rgb(51,51,51)]">
+          {couriers.map(courier => (
+            <div key={courier.code} className="px-6 py-4 grid grid-cols-12 gap-3 items-center">
+              <div className="col-span-3">
+                <input
+                  value={courier.name}
+                  onChange={(e) => patchCourier(courier.code, { name: e.target.value })}
+                  className={inputClassName}
+                />
+                <p className="text-xs text-[rgb(94,94,94)] mt-1">{courier.code}</p>
+              </div>
+              <div className="col-span-5">
+                <input
+                  value={courier.tracking_url_template || ''}
+                  onChange={(e) => patchCourier(courier.code, { tracking_url_template: e.target.value })}
+                  className={inputClassName}
+                  placeholder="https://courier.lk/track?no={{tracking_number}}"
+                />
+              </div>
+              <label className="col-span-2 flex items-center text-sm text-white">
+                <input
+                  type="checkbox"
+                  checked={courier.is_active}
+                  onChange={(e) => patchCourier(courier.code, { is_active: e.target.checked })}
+                  className="mr-2"
+                />
+                Active
+              </label>
+              <div className="col-span-2 text-right">
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => saveCourier(courier)}
+                  loading={savingCode === courier.code}
+                  disabled={!courier.name.trim()}
+                  className="border-[rgb(51,51,51)] text-white hover:bg-white hover:text-black"
+                >
+                  Save
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CouriersPanel;
@@ -0,0 +1,116 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Mail, RefreshCw } from 'lucide-react';
+import { showErrorToast, showSuccessToast } from '../ui/CustomToast';
+import { fetchOrderEmails, retryEmail, sendQueuedEmails } from '../../services/emailService';
+import { EMAIL_STATUS_LABELS, EMAIL_TEMPLATE_LABELS, EmailStatus, OutboxEmail } from '../../types/email';
+
+interface OrderEmailsPanelProps {
+  order: {
+    id: string;
+    status: string;
+    payment_status: string;
+  };
+}
+
+const emailStatusClass = (status: EmailStatus) =>
+  status === 'sent' ? 'text-green-400 border-green-400/20 bg-green-900/20' :
+  status === 'failed' ? 'text-red-400 border-red-400/20 bg-red-900/20' :
+  status === 'sending' ? 'text-blue-400 border-blue-400/20 bg-blue-900/20' :
+  'text-yellow-400 border-yellow-400/20 bg-yellow-900/20';
+
+const OrderEmailsPanel = ({ order }: OrderEmailsPanelProps) => {
+  const [emails, setEmails] = useState<OutboxEmail[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [retrying, setRetrying] = useState<string | null>(null);
+
+  const loadEmails = useCallback(async () => {
+    try {
+      setLoading(true);
+      setEmails(await fetchOrderEmails(order.id));
+    } catch (error) {
+      console.error('Error fetching order emails:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [order.id]);
+
+  // Status changes queue new emails
+  useEffect(() => {
+    loadEmails();
+  }, [loadEmails, order.status, order.payment_status]);
+
+  const handleRetry = async (email: OutboxEmail) => {
+    try {
+      setRetrying(email.id);
+      await retryEmail(email.id);
+      await sendQueuedEmails();
+      showSuccessToast(email.status === 'sent' ? 'Email sent again' : 'Email queued again');
+      loadEmails();
+    } catch (error: any) {
+      showErrorToast(error.message || 'Failed to send the email again');
+    } finally {
+      setRetrying(null);
+    }
+  };
+
+  return (
+    <div className="bg-[rgb(25,25,25)] p-6 rounded-lg border border-[rgb(51,51,51)]">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center space-x-2">
+          <Mail className="w-5 h-5 text-white" />
+          <h4 className="text-lg font-semibold text-white">Emails</h4>
+        </div>
+        <button
+          onClick={loadEmails}
+          disabled={loading}
+          className="text-[rgb(94,94,94)] hover:text-white p-1 disabled:opacity-50"
+          title="Refresh"
+        >
+          <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+        </button>
+      </div>
+
+      {emails.length === 0 ? (
+        <p className="text-[rgb(94,94,94)] text-sm">No emails for this order yet.</p>
+      ) : (
+        <div className="space-y-3">
+          {emails.map(email => (
+            <div key={email.id} className="border-l-2 border-[rgb(51,51,51)] pl-4">
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="text-white text-sm font-medium">
+                  {EMAIL_TEMPLATE_LABELS[email.template_key] || email.template_key}
+                </span>
+                <span className={`text-xs px-2 py-0.5 rounded-full border ${emailStatusClass(email.status)}`}>
+                  {EMAIL_STATUS_LABELS[email.status]}
+                </span>
+                {(email.status === 'failed' || email.status === 'sent') && (
+                  <button
+                    onClick={() => handleRetry(email)}
+                    disabled={retrying === email.id}
+                    className="text-xs text-blue-400 hover:text-blue-300 disabled:opacity-50"
+                  >
+                    {email.status === 'sent' ? 'Resend' : 'Retry'}
+                  </button>
+                )}
+              </div>
+              <p className="text-[rgb(94,94,94)] text-xs mt-1">
+                {email.recipient}
+                {' · '}
+                {new Date(email.sent_at || email.created_at).toLocaleString()}
+                {email.attempts > 1 && ` · ${email.attempts} attempts`}
+              </p>
+              {email.subject && (
+                <p className="text-[rgb(94,94,94)] text-xs">{email.subject}</p>
+              )}
+              {email.last_error && email.status !== 'sent' && (
+                <p className="text-red-400 text-xs">{email.last_error}</p>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default OrderEmailsPanel;
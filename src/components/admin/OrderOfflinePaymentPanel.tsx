@@ -0,0 +1,247 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Banknote } from 'lucide-react';
+import Button from '../ui/Button';
+import { showErrorToast, showSuccessToast } from '../ui/CustomToast';
+import { flushEmailQueue } from '../../services/emailService';
+import { flushSmsQueue } from '../../services/smsService';
+import {
+  fetchOrderCodCollection,
+  fetchOrderPaymentSlips,
+  getPaymentSlipUrl,
+  recordCodCollection,
+  reviewPaymentSlip
+} from '../../services/offlinePaymentService';
+import { CodCollection, PAYMENT_SLIP_STATUS_LABELS, PaymentSlip } from '../../types/payment';
+
+interface OrderOfflinePaymentPanelProps {
+  order: {
+    id: string;
+    total: number;
+    currency: string;
+    payment_method?: string;
+    status: string;
+    payment_status: string;
+  };
+  onChange: () => void;
+}
+
+/**
+ * Bank transfer slips to verify, or what the courier collected for a COD
+ * order. Renders nothing for orders paid online.
+ */
+const OrderOfflinePaymentPanel = ({ order, onChange }: OrderOfflinePaymentPanelProps) => {
+  const [slips, setSlips] = useState<PaymentSlip[]>([]);
+  const [collection, setCollection] = useState<CodCollection | null>(null);
+  const [rejectNotes, setRejectNotes] = useState<Record<string, string>>({});
+  const [reviewing, setReviewing] = useState<string | null>(null);
+  const [collectedAmount, setCollectedAmount] = useState('');
+  const [collectionNote, setCollectionNote] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const isBank = order.payment_method === 'bank';
+  const isCod = order.payment_method === 'cod';
+
+  const load = useCallback(async () => {
+    try {
+      if (isBank) {
+        setSlips(await fetchOrderPaymentSlips(order.id));
+      } else if (isCod) {
+        const existing = await fetchOrderCodCollection(order.id);
+        setCollection(existing);
+        setCollectedAmount(String(existing?.collected_amount ?? order.total));
+        setCollectionNote(existing?.note || '');
+      }
+    } catch (error) {
+      console.error('Error fetching offline payment:', error);
+    }
+  }, [order.id, order.total, isBank, isCod]);
+
+  useEffect(() => {
+    load();
+  }, [load, order.payment_status]);
+
+  if (!isBank && !isCod) return null;
+
+  const handleReview = async (slip: PaymentSlip, approve: boolean) => {
+    const note = rejectNotes[slip.id]?.trim();
+    if (!approve && !note) {
+      showErrorToast('Add a note telling the customer why the slip was rejected');
+      return;
+    }
+
+    setReviewing(slip.id);
+    try {
+      await reviewPaymentSlip(slip.id, approve, note);
+      showSuccessToast(approve ? 'Slip approved and order marked paid' : 'Slip rejected');
+      flushEmailQueue();
+      flushSmsQueue();
+      onChange();
+    } catch (error: any) {
+      console.error('Error reviewing payment slip:', error);
+      showErrorToast(error.message || 'Failed to review payment slip');
+    } finally {
+      setReviewing(null);
+      load();
+    }
+  };
+
+  const handleRecordCollection = async () => {
+    const amount = Number(collectedAmount);
+    if (collectedAmount === '' || Number.isNaN(amount) || amount < 0) {
+      showErrorToast('Enter the amount the courier collected');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await recordCodCollection(order.id, amount, collectionNote);
+      showSuccessToast('Collection recorded');
+      flushEmailQueue();
+      flushSmsQueue();
+      onChange();
+    } catch (error: any) {
+      console.error('Error recording COD collection:', error);
+      showErrorToast(error.message || 'Failed to record collection');
+    } finally {
+      setSaving(false);
+      load();
+    }
+  };
+
+  const money = (amount: number) => `${order.currency} ${Number(amount).toLocaleString()}`;
+  const shortfall = collection ? Number(collection.expected_amount) - Number(collection.collected_amount) : 0;
+
+  return (
+    <div className="bg-[rgb(25,25,25)] p-6 rounded-lg border border-[rgb(51,51,51)]">
+      <div className="flex items-center space-x-2 mb-4">
+        <Banknote className="w-5 h-5 text-white" />
+        <h4 className="text-lg font-semibold text-white">{isBank ? 'Bank Transfer' : 'Cash on Delivery'}</h4>
+      </div>
+
+      {isBank && slips.length === 0 && (
+        <p className="text-[rgb(94,94,94)] text-sm">The customer hasn't uploaded a payment slip yet.</p>
+      )}
+
+      {isBank && slips.length > 0 && (
+        <div className="space-y-3">
+          {slips.map(slip => (
+            <div key={slip.id} className="border-l-2 border-[rgb(51,51,51)] pl-4">
+              <div className="flex flex-wrap items-center gap-2">
+                <a
+                  href={getPaymentSlipUrl(slip.file_path)}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-white text-sm font-medium underline"
+                >
+                  {slip.file_name || 'Payment slip'}
+                </a>
+                <span className={`text-xs px-2 py-0.5 rounded-full border ${
+                  slip.status === 'approved' ? 'text-green-400 border-green-400/20 bg-green-900/20' :
+                  slip.status === 'rejected' ? 'text-red-400 border-red-400/20 bg-red-900/20' :
+                  'text-yellow-400 border-yellow-400/20 bg-yellow-900/20'
+                }`}>
+                  {PAYMENT_SLIP_STATUS_LABELS[slip.status]}
+                </span>
+              </div>
+              <p className="text-[rgb(94,94,94)] text-xs mt-1">
+                {new Date(slip.created_at).toLocaleString()}
+                {slip.amount !== null && ` · ${money(slip.amount)}`}
+                {slip.reference && ` · Ref ${slip.reference}`}
+              </p>
+              {slip.amount !== null && Number(slip.amount) !== order.total && (
+                <p className="text-xs text-yellow-400">
+                  Customer reports {money(slip.amount)} against an order total of {money(order.total)}
+                </p>
+              )}
+              {slip.review_note && (
+                <p className="text-[rgb(94,94,94)] text-xs">{slip.review_note}</p>
+              )}
+              {slip.status === 'submitted' && (
+                <div className="flex flex-col sm:flex-row gap-2 mt-2">
+                  <input
+                    value={rejectNotes[slip.id] || ''}
+                    onChange={(e) => setRejectNotes({ ...rejectNotes, [slip.id]: e.target.value })}
+                    placeholder="Reason if rejecting (shown to the customer)"
+                    className="flex-1 bg-black border border-[rgb(51,51,51)] text-white rounded px-3 py-1.5 text-sm"
+                  />
+                  <div className="flex gap-2">
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => handleReview(slip, false)}
+                      disabled={reviewing === slip.id}
+                      className="border-[rgb(51,51,51)] text-white hover:bg-white hover:text-black"
+                    >
+                      Reject
+                    </Button>
+                    <Button
+                      size="sm"
+                      onClick={() => handleReview(slip, true)}
+                      loading={reviewing === slip.id}
+                      className="bg-white text-black hover:bg-gray-200"
+                    >
+                      Approve
+                    </Button>
+                  </div>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {isCod && collection && (
+        <div className="grid grid-cols-3 gap-4 text-sm mb-4">
+          <div>
+            <p className="text-[rgb(94,94,94)] text-xs">Expected</p>
+            <p className="text-white">{money(collection.expected_amount)}</p>
+          </div>
+          <div>
+            <p className="text-[rgb(94,94,94)] text-xs">Collected</p>
+            <p className="text-white">{money(collection.collected_amount)}</p>
+          </div>
+          <div>
+            <p className="text-[rgb(94,94,94)] text-xs">Status</p>
+            <p className={collection.remittance_id ? 'text-green-400' : 'text-yellow-400'}>
+              {collection.remittance_id ? 'Remitted' : 'With courier'}
+            </p>
+          </div>
+          {shortfall !== 0 && (
+            <p className="col-span-3 text-xs text-red-400">
+              {shortfall > 0 ? `Short by ${money(shortfall)}` : `Over by ${money(-shortfall)}`}
+            </p>
+          )}
+        </div>
+      )}
+
+      {isCod && !collection?.remittance_id && order.status !== 'cancelled' && (
+        <div className="flex flex-col sm:flex-row gap-2">
+          <input
+            type="number"
+            min={0}
+            step="0.01"
+            value={collectedAmount}
+            onChange={(e) => setCollectedAmount(e.target.value)}
+            className="sm:w-36 bg-black border border-[rgb(51,51,51)] text-white rounded px-3 py-1.5 text-sm"
+          />
+          <input
+            value={collectionNote}
+            onChange={(e) => setCollectionNote(e.target.value)}
+            placeholder="Note (e.g. customer paid short)"
+            className="flex-1 bg-black border border-[rgb(51,51,51)] text-white rounded px-3 py-1.5 text-sm"
+          />
+          <Button
+            size="sm"
+            onClick={handleRecordCollection}
+            loading={saving}
+            className="bg-white text-black hover:bg-gray-200"
+          >
+            {collection ? 'Update Collection' : 'Mark Collected'}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default OrderOfflinePaymentPanel;
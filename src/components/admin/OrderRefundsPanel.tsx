@@ -0,0 +1,318 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { RotateCcw } from 'lucide-react';
+import Button from '../ui/Button';
+import { showErrorToast, showSuccessToast } from '../ui/CustomToast';
+import { getPaymentProvider } from '../../paymentProviders';
+import { completeRefund, fetchOrderRefunds, issueRefund } from '../../services/refundService';
+import { Refund } from '../../types/order';
+
+interface OrderRefundsPanelProps {
+  order: {
+    id: string;
+    total: number;
+    currency: string;
+    payment_method?: string;
+    payment_provider_id?: string;
+    status: string;
+    payment_status: string;
+    order_items?: Array<{
+      id: string;
+      quantity: number;
+      unit_price: number;
+      products: {
+        title: string;
+      };
+    }>;
+  };
+  onChange: () => void;
+}
+
+const OrderRefundsPanel = ({ order, onChange }: OrderRefundsPanelProps) => {
+  const [refunds, setRefunds] = useState<Refund[]>([]);
+  const [showForm, setShowForm] = useState(false);
+  const [quantities, setQuantities] = useState<Record<string, number>>({});
+  const [reason, setReason] = useState('');
+  // Cancelling an order already put its stock back
+  const [restock, setRestock] = useState(order.status !== 'cancelled');
+  const [manual, setManual] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [resolving, setResolving] = useState<string | null>(null);
+
+  const loadRefunds = useCallback(async () => {
+    try {
+      setRefunds(await fetchOrderRefunds(order.id));
+    } catch (error) {
+      console.error('Error fetching refunds:', error);
+    }
+  }, [order.id]);
+
+  // Refunds opened elsewhere (returns, cancellations) change the payment status
+  useEffect(() => {
+    loadRefunds();
+  }, [loadRefunds, order.payment_status]);
+
+  const items = useMemo(() => order.order_items || [], [order.order_items]);
+
+  // Units per line still open for refund (failed refunds don't count)
+  const remaining = useMemo(() => {
+    const refunded: Record<string, number> = {};
+    refunds
+      .filter(refund => refund.kind === 'refund' && refund.status !== 'failed')
+      .forEach(refund => {
+        refund.refund_items?.forEach(item => {
+          refunded[item.order_item_id] = (refunded[item.order_item_id] || 0) + item.quantity;
+        });
+      });
+
+    return Object.fromEntries(items.map(item => [item.id, item.quantity - (refunded[item.id] || 0)]));
+  }, [refunds, items]);
+
+  const provider = getPaymentProvider(order.payment_method);
+  const canRefund = ['paid', 'partially_refunded'].includes(order.payment_status);
+  const hasPendingRefund = refunds.some(refund => refund.status === 'pending');
+  const selectedLines = Object.entries(quantities)
+    .filter(([, quantity]) => quantity > 0)
+    .map(([order_item_id, quantity]) => ({ order_item_id, quantity }));
+  const selectionTotal = items.reduce((sum, item) => sum + (quantities[item.id] || 0) * item.unit_price, 0);
+  const isFullRefund = order.payment_status === 'paid' &&
+    items.every(item => (quantities[item.id] || 0) === remaining[item.id]);
+  const needsManual = !!provider && !provider.supportsPartialRefunds && !isFullRefund;
+
+  const resetForm = () => {
+    setShowForm(false);
+    setQuantities({});
+    setReason('');
+    setRestock(order.status !== 'cancelled');
+    setManual(false);
+  };
+
+  const selectAll = () => {
+    setQuantities(Object.fromEntries(items.map(item => [item.id, remaining[item.id]])));
+  };
+
+  const handleSubmit = async () => {
+    if (selectedLines.length === 0) {
+      showErrorToast('Select at least one item to refund');
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      const refund = await issueRefund({
+        orderId: order.id,
+        orderTotal: order.total,
+        paymentMethod: order.payment_method,
+        paymentProviderId: order.payment_provider_id,
+        lines: selectedLines,
+        reason,
+        restock,
+        manual: manual || needsManual,
+      });
+
+      showSuccessToast(`Refunded ${refund.currency} ${Number(refund.amount).toLocaleString()}`);
+      resetForm();
+      onChange();
+    } catch (error: any) {
+      console.error('Error issuing refund:', error);
+      showErrorToast(error.message || 'Failed to issue refund');
+    } finally {
+      setSubmitting(false);
+      loadRefunds();
+    }
+  };
+
+  // For refunds left pending when the provider call was interrupted
+  const resolvePending = async (refundId: string, succeeded: boolean) => {
+    setResolving(refundId);
+    try {
+      await completeRefund(refundId, succeeded, null, succeeded ? undefined : 'Marked as failed by admin');
+      showSuccessToast(succeeded ? 'Refund marked as paid out' : 'Refund marked as failed');
+      onChange();
+    } catch (error: any) {
+      console.error('Error completing refund:', error);
+      showErrorToast(error.message || 'Failed to update refund');
+    } finally {
+      setResolving(null);
+      loadRefunds();
+    }
+  };
+
+  const itemTitle = (orderItemId: string) =>
+    items.find(item => item.id === orderItemId)?.products.title || 'Item';
+
+  return (
+    <div className="bg-[rgb(25,25,25)] p-6 rounded-lg border border-[rgb(51,51,51)]">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center space-x-2">
+          <RotateCcw className="w-5 h-5 text-white" />
+          <h4 className="text-lg font-semibold text-white">Refunds</h4>
+        </div>
+        {canRefund && !showForm && (
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => setShowForm(true)}
+            disabled={hasPendingRefund}
+            className="border-[rgb(51,51,51)] text-white hover:bg-white hover:text-black"
+          >
+            Issue Refund
+          </Button>
+        )}
+      </div>
+
+      {refunds.length === 0 && !showForm && (
+        <p className="text-[rgb(94,94,94)] text-sm">No refunds for this order.</p>
+      )}
+
+      {refunds.length > 0 && (
+        <div className="space-y-3 mb-4">
+          {refunds.map(refund => (
+            <div key={refund.id} className="border-l-2 border-[rgb(51,51,51)] pl-4">
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="text-white text-sm font-medium">
+                  {refund.kind === 'chargeback' ? 'Chargeback' : 'Refund'} {refund.currency} {Number(refund.amount).toLocaleString()}
+                </span>
+                <span className={`text-xs px-2 py-0.5 rounded-full border capitalize ${
+                  refund.status === 'succeeded' ? 'text-green-400 border-green-400/20 bg-green-900/20' :
+                  refund.status === 'failed' ? 'text-red-400 border-red-400/20 bg-red-900/20' :
+                  'text-yellow-400 border-yellow-400/20 bg-yellow-900/20'
+                }`}>
+                  {refund.status}
+                </span>
+                <span className="text-[rgb(94,94,94)] text-xs capitalize">
+                  {refund.method === 'manual' ? 'manual' : refund.provider || 'provider'}
+                </span>
+              </div>
+              <p className="text-[rgb(94,94,94)] text-xs mt-1">
+                {new Date(refund.created_at).toLocaleString()}
+                {refund.provider_refund_id && ` · #${refund.provider_refund_id}`}
+                {refund.kind === 'refund' && (refund.restock ? ' · restocked' : ' · not restocked')}
+              </p>
+              {refund.refund_items && refund.refund_items.length > 0 && (
+                <p className="text-[rgb(94,94,94)] text-xs">
+                  {refund.refund_items.map(item => `${item.quantity} × ${itemTitle(item.order_item_id)}`).join(', ')}
+                </p>
+              )}
+              {(refund.reason || refund.error_message) && (
+                <p className="text-[rgb(94,94,94)] text-xs">
+                  {[refund.reason, refund.error_message].filter(Boolean).join(' · ')}
+                </p>
+              )}
+              {refund.status === 'pending' && (
+                <div className="flex gap-3 mt-1">
+                  <button
+                    onClick={() => resolvePending(refund.id, true)}
+                    disabled={resolving === refund.id}
+                    className="text-xs text-green-400 hover:text-green-300"
+                  >
+                    Mark paid out
+                  </button>
+                  <button
+                    onClick={() => resolvePending(refund.id, false)}
+                    disabled={resolving === refund.id}
+                    className="text-xs text-red-400 hover:text-red-300"
+                  >
+                    Mark failed
+                  </button>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {showForm && (
+        <div className="space-y-4 border-t border-[rgb(51,51,51)] pt-4">
+          <div className="flex items-center justify-between">
+            <p className="text-white text-sm font-medium">Items to refund</p>
+            <button onClick={selectAll} className="text-xs text-blue-400 hover:text-blue-300">
+              Select all remaining
+            </button>
+          </div>
+
+          {items.map(item => (
+            <div key={item.id} className="flex items-center justify-between gap-4">
+              <div>
+                <p className="text-white text-sm">{item.products.title}</p>
+                <p className="text-[rgb(94,94,94)] text-xs">
+                  {remaining[item.id]} of {item.quantity} refundable · {order.currency} {item.unit_price.toLocaleString()} each
+                </p>
+              </div>
+              <input
+                type="number"
+                min={0}
+                max={remaining[item.id]}
+                value={quantities[item.id] || 0}
+                disabled={remaining[item.id] === 0}
+                onChange={(e) => setQuantities({
+                  ...quantities,
+                  [item.id]: Math.min(Math.max(0, parseInt(e.target.value) || 0), remaining[item.id])
+                })}
+                className="w-20 bg-black border border-[rgb(51,51,51)] text-white rounded px-2 py-1 text-sm"
+              />
+            </div>
+          ))}
+
+          <textarea
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder="Reason (shown to the customer)"
+            rows={2}
+            className="w-full bg-black border border-[rgb(51,51,51)] text-white rounded px-3 py-2 text-sm"
+          />
+
+          <label className="flex items-center space-x-2 text-sm text-white">
+            <input type="checkbox" checked={restock} onChange={(e) => setRestock(e.target.checked)} />
+            <span>Return refunded items to stock</span>
+          </label>
+
+          {provider && !needsManual && (
+            <label className="flex items-center space-x-2 text-sm text-white">
+              <input type="checkbox" checked={manual} onChange={(e) => setManual(e.target.checked)} />
+              <span>Already paid out outside {provider.name} (record only)</span>
+            </label>
+          )}
+
+          {needsManual && (
+            <p className="text-xs text-yellow-400">
+              {provider?.name} only refunds full payments. Pay this amount out in the {provider?.name} portal; it will be recorded as a manual refund.
+            </p>
+          )}
+
+          {!provider && (
+            <p className="text-xs text-yellow-400">
+              This order was paid offline, so the refund is recorded as a manual payout.
+            </p>
+          )}
+
+          <div className="flex items-center justify-between">
+            <p className="text-white text-sm">
+              {isFullRefund ? 'Full refund' : `Items total ${order.currency} ${selectionTotal.toLocaleString()}`}
+            </p>
+            <div className="flex gap-2">
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={resetForm}
+                className="border-[rgb(51,51,51)] text-white hover:bg-white/10"
+              >
+                Cancel
+              </Button>
+              <Button
+                size="sm"
+                onClick={handleSubmit}
+                loading={submitting}
+                disabled={selectedLines.length === 0}
+                className="bg-white text-black hover:bg-gray-200"
+              >
+                Refund
+              </Button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default OrderRefundsPanel;
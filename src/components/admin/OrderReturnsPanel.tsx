@@ -0,0 +1,233 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { PackageOpen } from 'lucide-react';
+import Button from '../ui/Button';
+import { showErrorToast, showSuccessToast } from '../ui/CustomToast';
+import { getPaymentProvider } from '../../paymentProviders';
+import { issueRefund } from '../../services/refundService';
+import { fetchOrderReturns, getReturnPhotoUrl, updateReturnStatus } from '../../services/returnService';
+import {
+  RETURN_REASONS,
+  RETURN_STATUS_LABELS,
+  RETURN_STATUS_TRANSITIONS,
+  ReturnRequest,
+  ReturnRequestStatus
+} from '../../types/return';
+
+interface OrderReturnsPanelProps {
+  order: {
+    id: string;
+    total: number;
+    payment_method?: string;
+    payment_provider_id?: string;
+    payment_status: string;
+    order_items?: Array<{
+      id: string;
+      quantity: number;
+      products: {
+        title: string;
+      };
+    }>;
+  };
+  onChange: () => void;
+}
+
+const STATUS_ACTION_LABELS: Record<ReturnRequestStatus, string> = {
+  requested: 'Reopen',
+  approved: 'Approve',
+  rejected: 'Reject',
+  received: 'Mark received',
+  completed: 'Complete',
+  cancelled: 'Cancel',
+};
+
+const OrderReturnsPanel = ({ order, onChange }: OrderReturnsPanelProps) => {
+  const [returns, setReturns] = useState<ReturnRequest[]>([]);
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [updating, setUpdating] = useState<string | null>(null);
+
+  const loadReturns = useCallback(async () => {
+    try {
+      setReturns(await fetchOrderReturns(order.id));
+    } catch (error) {
+      console.error('Error fetching return requests:', error);
+    }
+  }, [order.id]);
+
+  useEffect(() => {
+    loadReturns();
+  }, [loadReturns]);
+
+  const items = order.order_items || [];
+  const provider = getPaymentProvider(order.payment_method);
+  const canRefund = ['paid', 'partially_refunded'].includes(order.payment_status);
+
+  const itemTitle = (orderItemId: string) =>
+    items.find(item => item.id === orderItemId)?.products.title || 'Item';
+
+  const changeStatus = async (request: ReturnRequest, status: ReturnRequestStatus) => {
+    setUpdating(request.id);
+    try {
+      await updateReturnStatus(request.id, status, notes[request.id]);
+      showSuccessToast(`${request.rma_number} ${RETURN_STATUS_LABELS[status].toLowerCase()}`);
+      setNotes(prev => ({ ...prev, [request.id]: '' }));
+    } catch (error: any) {
+      console.error('Error updating return request:', error);
+      showErrorToast(error.message || 'Failed to update return request');
+    } finally {
+      setUpdating(null);
+      loadReturns();
+    }
+  };
+
+  // Refund the returned units (restocked) and close the request
+  const refundAndComplete = async (request: ReturnRequest) => {
+    const lines = (request.return_request_items || []).map(item => ({
+      order_item_id: item.order_item_id,
+      quantity: item.quantity,
+    }));
+    const coversWholeOrder = order.payment_status === 'paid' &&
+      items.every(item => lines.find(line => line.order_item_id === item.id)?.quantity === item.quantity);
+
+    setUpdating(request.id);
+    try {
+      const refund = await issueRefund({
+        orderId: order.id,
+        orderTotal: order.total,
+        paymentMethod: order.payment_method,
+        paymentProviderId: order.payment_provider_id,
+        lines,
+        reason: `Return ${request.rma_number}`,
+        restock: true,
+        // Gateways without partial refunds are paid out in their portal
+        manual: !!provider && !provider.supportsPartialRefunds && !coversWholeOrder,
+      });
+
+      await updateReturnStatus(request.id, 'completed', notes[request.id], refund.id);
+      showSuccessToast(`Refunded ${refund.currency} ${Number(refund.amount).toLocaleString()} for ${request.rma_number}`);
+      setNotes(prev => ({ ...prev, [request.id]: '' }));
+      onChange();
+    } catch (error: any) {
+      console.error('Error refunding return:', error);
+      showErrorToast(error.message || 'Failed to refund return');
+    } finally {
+      setUpdating(null);
+      loadReturns();
+    }
+  };
+
+  return (
+    <div className="bg-[rgb(25,25,25)] p-6 rounded-lg border border-[rgb(51,51,51)]">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center space-x-2">
+          <PackageOpen className="w-5 h-5 text-white" />
+          <h4 className="text-lg font-semibold text-white">Returns &amp; Exchanges</h4>
+        </div>
+        <Link to="/refund-policy" target="_blank" className="text-xs text-blue-400 hover:text-blue-300">
+          Refund policy
+        </Link>
+      </div>
+
+      {returns.length === 0 && (
+        <p className="text-[rgb(94,94,94)] text-sm">No return requests for this order.</p>
+      )}
+
+      <div className="space-y-4">
+        {returns.map(request => {
+          const nextStatuses = RETURN_STATUS_TRANSITIONS[request.status];
+
+          return (
+            <div key={request.id} className="border-l-2 border-[rgb(51,51,51)] pl-4">
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="text-white text-sm font-medium">
+                  {request.rma_number} · <span className="capitalize">{request.type}</span>
+                </span>
+                <span className={`text-xs px-2 py-0.5 rounded-full border ${
+                  request.status === 'completed' ? 'text-green-400 border-green-400/20 bg-green-900/20' :
+                  request.status === 'rejected' || request.status === 'cancelled' ? 'text-red-400 border-red-400/20 bg-red-900/20' :
+                  'text-yellow-400 border-yellow-400/20 bg-yellow-900/20'
+                }`}>
+                  {RETURN_STATUS_LABELS[request.status]}
+                </span>
+              </div>
+              <p className="text-[rgb(94,94,94)] text-xs mt-1">
+                {new Date(request.created_at).toLocaleString()}
+                {request.resolved_at && ` · resolved ${new Date(request.resolved_at).toLocaleDateString()}`}
+              </p>
+
+              {request.return_request_items?.map(item => (
+                <p key={item.id} className="text-white text-xs mt-1">
+                  {item.quantity} × {itemTitle(item.order_item_id)} · {RETURN_REASONS[item.reason_code]}
+                  {item.exchange_variant && (
+                    <span className="text-[rgb(94,94,94)]">
+                      {' '}→ {[item.exchange_variant.color, item.exchange_variant.size && `size ${item.exchange_variant.size}`].filter(Boolean).join(', ')}
+                    </span>
+                  )}
+                </p>
+              ))}
+
+              {request.customer_note && (
+                <p className="text-[rgb(94,94,94)] text-xs mt-1">“{request.customer_note}”</p>
+              )}
+              {request.admin_note && (
+                <p className="text-[rgb(94,94,94)] text-xs mt-1">Note to customer: {request.admin_note}</p>
+              )}
+
+              {request.return_request_photos && request.return_request_photos.length > 0 && (
+                <div className="flex flex-wrap gap-2 mt-2">
+                  {request.return_request_photos.map(photo => (
+                    <a key={photo.id} href={getReturnPhotoUrl(photo.file_path)} target="_blank" rel="noopener noreferrer">
+                      <img
+                        src={getReturnPhotoUrl(photo.file_path)}
+                        alt={photo.file_name || 'Return photo'}
+                        className="w-16 h-16 object-cover rounded border border-[rgb(51,51,51)]"
+                      />
+                    </a>
+                  ))}
+                </div>
+              )}
+
+              {nextStatuses.length > 0 && (
+                <div className="mt-3 space-y-2">
+                  <input
+                    type="text"
+                    value={notes[request.id] || ''}
+                    onChange={(e) => setNotes(prev => ({ ...prev, [request.id]: e.target.value }))}
+                    placeholder="Note to the customer (optional)"
+                    className="w-full bg-black border border-[rgb(51,51,51)] text-white rounded px-3 py-1.5 text-xs"
+                  />
+                  <div className="flex flex-wrap gap-2">
+                    {request.status === 'received' && request.type === 'return' && canRefund && (
+                      <Button
+                        size="sm"
+                        onClick={() => refundAndComplete(request)}
+                        loading={updating === request.id}
+                        className="bg-white text-black hover:bg-gray-200"
+                      >
+                        Refund &amp; complete
+                      </Button>
+                    )}
+                    {nextStatuses.map(status => (
+                      <Button
+                        key={status}
+                        size="sm"
+                        variant="outline"
+                        onClick={() => changeStatus(request, status)}
+                        disabled={updating === request.id}
+                        className="border-[rgb(51,51,51)] text-white hover:bg-white hover:text-black"
+                      >
+                        {STATUS_ACTION_LABELS[status]}
+                      </Button>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default OrderReturnsPanel;
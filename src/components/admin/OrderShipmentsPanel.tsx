@@ -0,0 +1,440 @@
+import { useCallback, useEffect, useState } from 'react';
+import { ExternalLink, RefreshCw, Truck } from 'lucide-react';
+import Button from '../ui/Button';
+import { showErrorToast, showSuccessToast } from '../ui/CustomToast';
+import {
+  cancelShipment,
+  createShipment,
+  fetchCouriers,
+  fetchOrderShipments,
+  recordShipmentEvent,
+  syncShipmentTracking
+} from '../../services/shipmentService';
+import { flushEmailQueue } from '../../services/emailService';
+import { flushSmsQueue } from '../../services/smsService';
+import {
+  Courier,
+  OPEN_SHIPMENT_STATUSES,
+  SHIPMENT_STATUS_LABELS,
+  Shipment,
+  ShipmentEventInput,
+  ShipmentStatus
+} from '../../types/shipment';
+
+interface OrderShipmentsPanelProps {
+  order: {
+    id: string;
+    status: string;
+    payment_status: string;
+    order_items?: Array<{
+      id: string;
+      quantity: number;
+      product_title: string;
+      variant_details?: { size?: string } | null;
+    }>;
+  };
+  onChange: () => void;
+}
+
+const inputClassName = 'text-sm px-3 py-2 rounded border border-[rgb(51,51,51)] bg-black text-white placeholder-[rgb(94,94,94)] w-full focus:outline-none focus:border-white';
+
+const shipmentStatusClass = (status: ShipmentStatus) =>
+  status === 'delivered' ? 'text-green-400 border-green-400/20 bg-green-900/20' :
+  status === 'failed_attempt' || status === 'returned' ? 'text-orange-400 border-orange-400/20 bg-orange-900/20' :
+  status === 'cancelled' ? 'text-gray-400 border-gray-400/20 bg-gray-900/20' :
+  'text-blue-400 border-blue-400/20 bg-blue-900/20';
+
+const EVENT_STATUSES: ShipmentEventInput['status'][] = ['in_transit', 'out_for_delivery', 'failed_attempt', 'delivered', 'returned'];
+
+const OrderShipmentsPanel = ({ order, onChange }: OrderShipmentsPanelProps) => {
+  const [shipments, setShipments] = useState<Shipment[]>([]);
+  const [couriers, setCouriers] = useState<Courier[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [busy, setBusy] = useState<string | null>(null);
+
+  // New shipment
+  const [showForm, setShowForm] = useState(false);
+  const [courierCode, setCourierCode] = useState('');
+  const [trackingNumber, setTrackingNumber] = useState('');
+  const [trackingUrl, setTrackingUrl] = useState('');
+  const [notes, setNotes] = useState('');
+  const [quantities, setQuantities] = useState<Record<string, number>>({});
+
+  // Manual tracking updates, per shipment
+  const [eventDrafts, setEventDrafts] = useState<Record<string, ShipmentEventInput>>({});
+
+  const loadShipments = useCallback(async () => {
+    try {
+      setLoading(true);
+      setShipments(await fetchOrderShipments(order.id));
+    } catch (error) {
+      console.error('Error fetching shipments:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [order.id]);
+
+  // Status changes can close open shipments
+  useEffect(() => {
+    loadShipments();
+  }, [loadShipments, order.status]);
+
+  useEffect(() => {
+    fetchCouriers()
+      .then(setCouriers)
+      .catch(error => console.error('Error fetching couriers:', error));
+  }, []);
+
+  const items = order.order_items || [];
+
+  const remainingFor = (orderItemId: string, ordered: number) =>
+    ordered - shipments
+      .filter(shipment => shipment.status !== 'cancelled')
+      .flatMap(shipment => shipment.shipment_items || [])
+      .filter(item => item.order_item_id === orderItemId)
+      .reduce((sum, item) => sum + item.quantity, 0);
+
+  const remaining = items.map(item => ({ ...item, remaining: remainingFor(item.id, item.quantity) }));
+  const canShip = !['cancelled', 'refunded'].includes(order.status) && remaining.some(item => item.remaining > 0);
+
+  const itemTitle = (orderItemId: string) => {
+    const item = items.find(orderItem => orderItem.id === orderItemId);
+    if (!item) return 'Item';
+    const size = item.variant_details?.size;
+    return size ? `${item.product_title} (Size ${size})` : item.product_title;
+  };
+
+  const openForm = () => {
+    setCourierCode(couriers[0]?.code || '');
+    setTrackingNumber('');
+    setTrackingUrl('');
+    setNotes('');
+    setQuantities(Object.fromEntries(remaining.map(item => [item.id, item.remaining])));
+    setShowForm(true);
+  };
+
+  const handleCreate = async () => {
+    const lines = Object.entries(quantities)
+      .filter(([, quantity]) => quantity > 0)
+      .map(([order_item_id, quantity]) => ({ order_item_id, quantity }));
+
+    if (!courierCode) {
+      showErrorToast('Choose a courier');
+      return;
+    }
+    if (lines.length === 0) {
+      showErrorToast('Choose the items in this shipment');
+      return;
+    }
+
+    try {
+      setBusy('create');
+      const shipment = await createShipment({
+        orderId: order.id,
+        courierCode,
+        items: lines,
+        trackingNumber: trackingNumber.trim(),
+        trackingUrl: trackingUrl.trim(),
+        notes: notes.trim(),
+      });
+      showSuccessToast(`${shipment.shipment_number} dispatched`);
+      setShowForm(false);
+      flushEmailQueue();
+      flushSmsQueue();
+      loadShipments();
+      onChange();
+    } catch (error: any) {
+      showErrorToast(error.message || 'Failed to create shipment');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleRecordEvent = async (shipment: Shipment) => {
+    const draft = eventDrafts[shipment.id];
+    if (!draft) return;
+
+    try {
+      setBusy(shipment.id);
+      await recordShipmentEvent(shipment.id, draft);
+      showSuccessToast(`${shipment.shipment_number}: ${SHIPMENT_STATUS_LABELS[draft.status].toLowerCase()}`);
+      setEventDrafts(prev => {
+        const next = { ...prev };
+        delete next[shipment.id];
+        return next;
+      });
+      flushEmailQueue();
+      flushSmsQueue();
+      loadShipments();
+      onChange();
+    } catch (error: any) {
+      showErrorToast(error.message || 'Failed to update tracking');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleSync = async (shipment: Shipment) => {
+    try {
+      setBusy(shipment.id);
+      const result = await syncShipmentTracking(shipment.id);
+      showSuccessToast(result.events
+        ? `${result.events} tracking update${result.events === 1 ? '' : 's'}`
+        : result.synced ? 'No new tracking updates' : 'This courier\'s tracking is updated by hand');
+      loadShipments();
+      if (result.events) onChange();
+    } catch (error: any) {
+      showErrorToast(error.message || 'Failed to sync tracking');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleCancel = async (shipment: Shipment) => {
+    if (!confirm(`Cancel ${shipment.shipment_number}? Its items can then be shipped again.`)) return;
+
+    try {
+      setBusy(shipment.id);
+      await cancelShipment(shipment.id);
+      showSuccessToast(`${shipment.shipment_number} cancelled`);
+      loadShipments();
+      onChange();
+    } catch (error: any) {
+      showErrorToast(error.message || 'Failed to cancel shipment');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <div className="bg-[rgb(25,25,25)] p-6 rounded-lg border border-[rgb(51,51,51)]">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center space-x-2">
+          <Truck className="w-5 h-5 text-white" />
+          <h4 className="text-lg font-semibold text-white">Shipments</h4>
+        </div>
+        <div className="flex items-center gap-3">
+          {canShip && !showForm && (
+            <button onClick={openForm} className="text-sm text-blue-400 hover:text-blue-300">
+              {shipments.some(shipment => shipment.status !== 'cancelled') ? 'Ship remaining items' : 'Create shipment'}
+            </button>
+          )}
+          <button
+            onClick={loadShipments}
+            disabled={loading}
+            className="text-[rgb(94,94,94)] hover:text-white p-1 disabled:opacity-50"
+            title="Refresh"
+          >
+            <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+          </button>
+        </div>
+      </div>
+
+      {showForm && (
+        <div className="bg-black border border-[rgb(51,51,51)] rounded-lg p-4 mb-4 space-y-3">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            <select value={courierCode} onChange={(e) => setCourierCode(e.target.value)} className={inputClassName}>
+              {couriers.map(courier => (
+                <option key={courier.code} value={courier.code}>{courier.name}</option>
+              ))}
+            </select>
+            <input
+              value={trackingNumber}
+              onChange={(e) => setTrackingNumber(e.target.value)}
+              placeholder="Tracking number"
+              className={inputClassName}
+            />
+            <input
+              value={trackingUrl}
+              onChange={(e) => setTrackingUrl(e.target.value)}
+              placeholder={couriers.find(courier => courier.code === courierCode)?.tracking_url_template
+                ? 'Tracking link (filled in from the courier)'
+                : 'Tracking link (https://...)'}
+              className={inputClassName}
+            />
+          </div>
+
+          <div className="space-y-2">
+            {remaining.filter(item => item.remaining > 0).map(item => (
+              <div key={item.id} className="flex items-center justify-between gap-3">
+                <span className="text-sm text-white">{itemTitle(item.id)}</span>
+                <div className="flex items-center gap-2">
+                  <input
+                    type="number"
+                    min={0}
+                    max={item.remaining}
+                    value={quantities[item.id] ?? 0}
+                    onChange={(e) => setQuantities(prev => ({
+                      ...prev,
+                      [item.id]: Math.min(item.remaining, Math.max(0, Number(e.target.value) || 0)),
+                    }))}
+                    className={`${inputClassName} w-20`}
+                  />
+                  <span className="text-xs text-[rgb(94,94,94)] whitespace-nowrap">of {item.remaining}</span>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <input
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            placeholder="Note for the team (optional)"
+            className={inputClassName}
+          />
+
+          <div className="flex justify-end gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setShowForm(false)}
+              className="border-[rgb(51,51,51)] text-white hover:bg-white hover:text-black"
+            >
+              Cancel
+            </Button>
+            <Button
+              size="sm"
+              onClick={handleCreate}
+              loading={busy === 'create'}
+              className="bg-white text-black hover:bg-gray-200"
+            >
+              Dispatch
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {shipments.length === 0 && !showForm ? (
+        <p className="text-[rgb(94,94,94)] text-sm">Nothing shipped yet.</p>
+      ) : (
+        <div className="space-y-4">
+          {shipments.map(shipment => {
+            const isOpen = OPEN_SHIPMENT_STATUSES.includes(shipment.status);
+            const draft = eventDrafts[shipment.id];
+
+            return (
+              <div key={shipment.id} className="border border-[rgb(51,51,51)] rounded-lg p-4">
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="text-white text-sm font-medium">{shipment.shipment_number}</span>
+                    <span className={`text-xs px-2 py-0.5 rounded-full border ${shipmentStatusClass(shipment.status)}`}>
+                      {SHIPMENT_STATUS_LABELS[shipment.status]}
+                    </span>
+                    <span className="text-xs text-[rgb(94,94,94)]">{shipment.couriers?.name || shipment.courier_code}</span>
+                  </div>
+                  {isOpen && (
+                    <div className="flex items-center gap-3">
+                      {shipment.tracking_number && (
+                        <button
+                          onClick={() => handleSync(shipment)}
+                          disabled={busy === shipment.id}
+                          className="text-xs text-blue-400 hover:text-blue-300 disabled:opacity-50"
+                        >
+                          Pull tracking
+                        </button>
+                      )}
+                      <button
+                        onClick={() => handleCancel(shipment)}
+                        disabled={busy === shipment.id}
+                        className="text-xs text-red-400 hover:text-red-300 disabled:opacity-50"
+                      >
+                        Cancel
+                      </button>
+                    </div>
+                  )}
+                </div>
+
+                <p className="text-xs text-[rgb(94,94,94)] mt-1">
+                  {shipment.tracking_number ? `Tracking ${shipment.tracking_number}` : 'No tracking number'}
+                  {shipment.tracking_url && (
+                    <a
+                      href={shipment.tracking_url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="inline-flex items-center ml-2 text-blue-400 hover:text-blue-300"
+                    >
+                      Track <ExternalLink className="w-3 h-3 ml-0.5" />
+                    </a>
+                  )}
+                  {shipment.last_synced_at && ` · Synced ${new Date(shipment.last_synced_at).toLocaleString()}`}
+                </p>
+                <p className="text-xs text-[rgb(94,94,94)]">
+                  {(shipment.shipment_items || []).map(item => `${item.quantity} × ${itemTitle(item.order_item_id)}`).join(', ')}
+                </p>
+                {shipment.notes && (
+                  <p className="text-xs text-[rgb(94,94,94)] italic">{shipment.notes}</p>
+                )}
+
+                <div className="mt-3 space-y-2">
+                  {(shipment.shipment_events || []).slice().reverse().map(event => (
+                    <div key={event.id} className="border-l-2 border-[rgb(51,51,51)] pl-3">
+                      <p className="text-white text-xs">
+                        {event.description}
+                        {event.location && <span className="text-[rgb(94,94,94)]"> · {event.location}</span>}
+                      </p>
+                      <p className="text-[rgb(94,94,94)] text-xs">
+                        {new Date(event.occurred_at).toLocaleString()}
+                        {event.source === 'courier' && ' · from courier'}
+                      </p>
+                    </div>
+                  ))}
+                </div>
+
+                {isOpen && (
+                  draft ? (
+                    <div className="mt-3 grid grid-cols-1 md:grid-cols-4 gap-2">
+                      <select
+                        value={draft.status}
+                        onChange={(e) => setEventDrafts(prev => ({
+                          ...prev,
+                          [shipment.id]: { ...draft, status: e.target.value as ShipmentEventInput['status'] },
+                        }))}
+                        className={inputClassName}
+                      >
+                        {EVENT_STATUSES.map(status => (
+                          <option key={status} value={status}>{SHIPMENT_STATUS_LABELS[status]}</option>
+                        ))}
+                      </select>
+                      <input
+                        value={draft.description}
+                        onChange={(e) => setEventDrafts(prev => ({ ...prev, [shipment.id]: { ...draft, description: e.target.value } }))}
+                        placeholder="What happened"
+                        className={inputClassName}
+                      />
+                      <input
+                        value={draft.location || ''}
+                        onChange={(e) => setEventDrafts(prev => ({ ...prev, [shipment.id]: { ...draft, location: e.target.value } }))}
+                        placeholder="Location (optional)"
+                        className={inputClassName}
+                      />
+                      <Button
+                        size="sm"
+                        onClick={() => handleRecordEvent(shipment)}
+                        loading={busy === shipment.id}
+                        className="bg-white text-black hover:bg-gray-200"
+                      >
+                        Add update
+                      </Button>
+                    </div>
+                  ) : (
+                    <button
+                      onClick={() => setEventDrafts(prev => ({
+                        ...prev,
+                        [shipment.id]: { status: 'in_transit', description: '' },
+                      }))}
+                      className="mt-3 text-xs text-blue-400 hover:text-blue-300"
+                    >
+                      Add tracking update
+                    </button>
+                  )
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default OrderShipmentsPanel;
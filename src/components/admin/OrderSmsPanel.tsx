@@ -0,0 +1,125 @@
+import { useCallback, useEffect, useState } from 'react';
+import { MessageSquare, RefreshCw } from 'lucide-react';
+import { showErrorToast, showSuccessToast } from '../ui/CustomToast';
+import { fetchOrderSmsMessages, retrySms, sendQueuedSms } from '../../services/smsService';
+import { SMS_STATUS_LABELS, SMS_TEMPLATE_LABELS, SmsMessage, SmsStatus } from '../../types/sms';
+import { formatLkMobile } from '../../../supabase/functions/_shared/sms/templates.ts';
+
+interface OrderSmsPanelProps {
+  order: {
+    id: string;
+    status: string;
+    payment_status: string;
+  };
+}
+
+const smsStatusClass = (status: SmsStatus) =>
+  status === 'sent' ? 'text-green-400 border-green-400/20 bg-green-900/20' :
+  status === 'failed' ? 'text-red-400 border-red-400/20 bg-red-900/20' :
+  status === 'sending' ? 'text-blue-400 border-blue-400/20 bg-blue-900/20' :
+  status === 'skipped' ? 'text-gray-400 border-gray-400/20 bg-gray-900/20' :
+  'text-yellow-400 border-yellow-400/20 bg-yellow-900/20';
+
+const OrderSmsPanel = ({ order }: OrderSmsPanelProps) => {
+  const [messages, setMessages] = useState<SmsMessage[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [retrying, setRetrying] = useState<string | null>(null);
+
+  const loadMessages = useCallback(async () => {
+    try {
+      setLoading(true);
+      setMessages(await fetchOrderSmsMessages(order.id));
+    } catch (error) {
+      console.error('Error fetching order SMS:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [order.id]);
+
+  // Status changes queue new texts
+  useEffect(() => {
+    loadMessages();
+  }, [loadMessages, order.status, order.payment_status]);
+
+  const handleRetry = async (message: SmsMessage) => {
+    try {
+      setRetrying(message.id);
+      await retrySms(message.id);
+      await sendQueuedSms();
+      showSuccessToast(message.status === 'sent' ? 'SMS sent again' : 'SMS queued again');
+      loadMessages();
+    } catch (error: any) {
+      showErrorToast(error.message || 'Failed to send the SMS again');
+    } finally {
+      setRetrying(null);
+    }
+  };
+
+  return (
+    <div className="bg-[rgb(25,25,25)] p-6 rounded-lg border border-[rgb(51,51,51)]">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center space-x-2">
+          <MessageSquare className="w-5 h-5 text-white" />
+          <h4 className="text-lg font-semibold text-white">SMS</h4>
+        </div>
+        <button
+          onClick={loadMessages}
+          disabled={loading}
+          className="text-[rgb(94,94,94)] hover:text-white p-1 disabled:opacity-50"
+          title="Refresh"
+        >
+          <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+        </button>
+      </div>
+
+      {messages.length === 0 ? (
+        <p className="text-[rgb(94,94,94)] text-sm">
+          No texts for this order. Texts are only sent to customers who turned on SMS notifications.
+        </p>
+      ) : (
+        <div className="space-y-3">
+          {messages.map(message => (
+            <div key={message.id} className="border-l-2 border-[rgb(51,51,51)] pl-4">
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="text-white text-sm font-medium">
+                  {SMS_TEMPLATE_LABELS[message.template_key] || message.template_key}
+                </span>
+                <span className={`text-xs px-2 py-0.5 rounded-full border ${smsStatusClass(message.status)}`}>
+                  {SMS_STATUS_LABELS[message.status]}
+                </span>
+                {message.status !== 'pending' && message.status !== 'sending' && (
+                  <button
+                    onClick={() => handleRetry(message)}
+                    disabled={retrying === message.id}
+                    className="text-xs text-blue-400 hover:text-blue-300 disabled:opacity-50"
+                  >
+                    {message.status === 'failed' ? 'Retry' : 'Resend'}
+                  </button>
+                )}
+              </div>
+              <p className="text-[rgb(94,94,94)] text-xs mt-1">
+                {formatLkMobile(message.phone)}
+                {' · '}
+                {message.status === 'pending' && new Date(message.next_attempt_at) > new Date()
+                  ? `Due ${new Date(message.next_attempt_at).toLocaleString()}`
+                  : new Date(message.sent_at || message.created_at).toLocaleString()}
+                {message.provider && ` · ${message.provider}`}
+                {message.attempts > 1 && ` · ${message.attempts} attempts`}
+              </p>
+              {message.body && (
+                <p className="text-[rgb(94,94,94)] text-xs">{message.body}</p>
+              )}
+              {message.last_error && message.status !== 'sent' && (
+                <p className={`text-xs ${message.status === 'skipped' ? 'text-[rgb(94,94,94)]' : 'text-red-400'}`}>
+                  {message.last_error}
+                </p>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default OrderSmsPanel;
@@ -0,0 +1,217 @@
+import { ChangeEvent, useState } from 'react';
+import { AlertTriangle, CheckCircle, FileUp } from 'lucide-react';
+import Button from '../ui/Button';
+import { showErrorToast, showSuccessToast } from '../ui/CustomToast';
+import { parseProductCsv, runProductImport } from '../../services/productImportService';
+import { ProductImportIssue, ProductImportProduct, ProductImportResult } from '../../types/productImport';
+
+interface ProductImportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onImported: () => void;
+}
+
+const ProductImportModal = ({ isOpen, onClose, onImported }: ProductImportModalProps) => {
+  const [fileName, setFileName] = useState('');
+  const [products, setProducts] = useState<ProductImportProduct[]>([]);
+  const [issues, setIssues] = useState<ProductImportIssue[]>([]);
+  const [preview, setPreview] = useState<ProductImportResult | null>(null);
+  const [checking, setChecking] = useState(false);
+  const [importing, setImporting] = useState(false);
+
+  const reset = () => {
+    setFileName('');
+    setProducts([]);
+    setIssues([]);
+    setPreview(null);
+  };
+
+  const handleClose = () => {
+    reset();
+    onClose();
+  };
+
+  const handleFileChange = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    reset();
+    setFileName(file.name);
+    setChecking(true);
+
+    try {
+      const parsed = parseProductCsv(await file.text());
+      setProducts(parsed.products);
+
+      // Only rows that parsed cleanly are worth checking against the database
+      const blocking = parsed.errors.filter(issue => !issue.warning);
+      if (blocking.length > 0 || parsed.products.length === 0) {
+        setIssues(parsed.errors);
+        return;
+      }
+
+      const result = await runProductImport(parsed.products, true);
+      setPreview(result);
+      setIssues([...parsed.errors, ...result.errors]);
+    } catch (error: any) {
+      showErrorToast(error.message || 'Failed to read the CSV file');
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  const handleImport = async () => {
+    setImporting(true);
+    try {
+      const result = await runProductImport(products, false);
+
+      if (!result.committed) {
+        // The catalogue changed since the dry run
+        setPreview(result);
+        setIssues(result.errors);
+        showErrorToast('Nothing was imported; fix the rows listed and try again');
+        return;
+      }
+
+      showSuccessToast(
+        `Imported ${result.products_created + result.products_updated} products ` +
+        `and ${result.variants_created + result.variants_updated} variants`
+      );
+      onImported();
+      handleClose();
+    } catch (error: any) {
+      showErrorToast(error.message || 'Import failed');
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const blockingIssues = issues.filter(issue => !issue.warning);
+  const externalImages = products.reduce(
+    (count, product) => count + product.images.filter(image => !image.storage_path).length,
+    0
+  );
+  const canImport = !!preview && blockingIssues.length === 0 && !checking;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50">
+      <div className="bg-black border border-[rgb(51,51,51)] rounded-lg w-full max-w-3xl mx-4 max-h-[90vh] overflow-y-auto">
+        <div className="px-6 py-4 border-b border-[rgb(51,51,51)] flex justify-between items-center">
+          <h3 className="text-lg font-semibold text-white">Import Products from CSV</h3>
+          <button
+            onClick={handleClose}
+            className="text-[rgb(94,94,94)] hover:text-white text-2xl leading-none"
+          >
+            ×
+          </button>
+        </div>
+
+        <div className="p-6 space-y-5">
+          <p className="text-sm text-[rgb(94,94,94)]">
+            One row per variant, matched on SKU: existing products and variants are updated, new ones are
+            created. Use the exported CSV as a template. Categories and brands are given by slug, and images
+            as storage paths or URLs separated by <code className="text-white">|</code>.
+          </p>
+
+          <label className="flex flex-col items-center justify-center border-2 border-dashed border-[rgb(51,51,51)] hover:border-[rgb(94,94,94)] rounded-lg py-8 cursor-pointer transition-colors">
+            <FileUp className="w-8 h-8 text-[rgb(94,94,94)] mb-2" />
+            <span className="text-sm text-white">{fileName || 'Choose a CSV file'}</span>
+            <input type="file" accept=".csv,text/csv" onChange={handleFileChange} className="hidden" />
+          </label>
+
+          {checking && (
+            <div className="flex items-center justify-center py-4">
+              <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-white mr-3"></div>
+              <span className="text-sm text-white">Checking rows...</span>
+            </div>
+          )}
+
+          {preview && !checking && (
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+              {[
+                { label: 'New products', value: preview.products_created },
+                { label: 'Updated products', value: preview.products_updated },
+                { label: 'New variants', value: preview.variants_created },
+                { label: 'Updated variants', value: preview.variants_updated },
+              ].map(item => (
+                <div key={item.label} className="bg-[rgb(25,25,25)] rounded-lg p-3">
+                  <p className="text-xs text-[rgb(94,94,94)]">{item.label}</p>
+                  <p className="text-xl font-semibold text-white">{item.value}</p>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {preview && !checking && externalImages > 0 && blockingIssues.length === 0 && (
+            <p className="text-sm text-[rgb(94,94,94)]">
+              {externalImages} image URL{externalImages === 1 ? '' : 's'} will be downloaded into storage during the import.
+            </p>
+          )}
+
+          {issues.length > 0 && !checking && (
+            <div className="border border-[rgb(51,51,51)] rounded-lg overflow-hidden">
+              <div className="flex items-center px-4 py-3 bg-[rgb(25,25,25)] text-sm text-white">
+                <AlertTriangle className="w-4 h-4 text-yellow-400 mr-2" />
+                {blockingIssues.length > 0
+                  ? `${blockingIssues.length} problem${blockingIssues.length === 1 ? '' : 's'} to fix before importing`
+                  : 'Warnings'}
+              </div>
+              <table className="w-full">
+                <thead>
+                  <tr>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-[rgb(94,94,94)] uppercase tracking-wider w-16">Row</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-[rgb(94,94,94)] uppercase tracking-wider w-32">Column</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-[rgb(94,94,94)] uppercase tracking-wider">Problem</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-[rgb(51,51,51)]">
+                  {[...issues]
+                    .sort((a, b) => (a.row ?? 0) - (b.row ?? 0))
+                    .map((issue, index) => (
+                      <tr key={index}>
+                        <td className="px-4 py-2 text-sm text-white">{issue.row ?? '—'}</td>
+                        <td className="px-4 py-2 text-sm text-[rgb(94,94,94)]">{issue.field || '—'}</td>
+                        <td className="px-4 py-2 text-sm text-white">{issue.message}</td>
+                      </tr>
+                    ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {canImport && (
+            <div className="flex items-center text-sm text-green-400">
+              <CheckCircle className="w-4 h-4 mr-2" />
+              All rows passed the dry run
+            </div>
+          )}
+
+          <div className="flex justify-end gap-3 pt-2">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={handleClose}
+              className="border-[rgb(51,51,51)] text-white hover:bg-white hover:text-black"
+            >
+              Cancel
+            </Button>
+            <Button
+              type="button"
+              onClick={handleImport}
+              loading={importing}
+              disabled={!canImport}
+              className="bg-white text-black hover:bg-[rgb(94,94,94)] hover:text-white"
+            >
+              Import
+            </Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ProductImportModal;
@@ -1,4 +1,4 @@
-import { Fragment, useState } from 'react';
+import { Fragment, useState, useEffect } from 'react';
 import { Dialog, Transition } from '@headlessui/react';
 import { X, Minus, Plus, ShoppingBag } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
@@ -8,18 +8,59 @@ import Button from '../ui/Button';
 import ConfirmDialog from '../ui/ConfirmDialog';
 import { Link } from 'react-router-dom';
 import { showSuccessToast, showErrorToast } from '../ui/CustomToast';
+import DiscountCodeInput from './DiscountCodeInput';
+import { fetchOrderPricing } from '../../services/pricingService';
+import { PriceBreakdown } from '../../types/order';
 
 const CartDrawer = () => {
-  const { items, isOpen, closeCart, updateQuantity, removeItem, clearCart } = useCartStore();
+  const { items, isOpen, closeCart, updateQuantity, removeItem, clearCart, discountCode, setDiscountCode } = useCartStore();
   const { user } = useAuth();
   const [updatingItems, setUpdatingItems] = useState<Set<string>>(new Set());
   const [showClearConfirm, setShowClearConfirm] = useState(false);
   const [clearing, setClearing] = useState(false);
   const [isUpdating, setIsUpdating] = useState(false);
+  const [discountPreview, setDiscountPreview] = useState<PriceBreakdown | null>(null);
+  const [checkingCode, setCheckingCode] = useState(false);
 
   const total = items.reduce((sum, item) => sum + (item.price * item.quantity), 0);
+  // Free-shipping codes are applied to the shipping line at checkout, not the subtotal
+  const cartDiscount = (discountPreview?.discounts || [])
+    .filter((discount) => !discount.free_shipping)
+    .reduce((sum, discount) => sum + discount.amount, 0);
+  const hasFreeShippingCode = !!discountPreview?.discounts.some((discount) => discount.free_shipping);
   const itemCount = items.reduce((sum, item) => sum + item.quantity, 0);
 
+  // Preview the entered code against the server-side pricing
+  useEffect(() => {
+    if (!isOpen || !discountCode || items.length === 0) {
+      setDiscountPreview(null);
+      return;
+    }
+
+    let cancelled = false;
+    setCheckingCode(true);
+
+    fetchOrderPricing(
+      items.map((item) => ({ variant_id: item.variantId, quantity: item.quantity })),
+      'standard',
+      discountCode
+    )
+      .then((breakdown) => {
+        if (!cancelled) setDiscountPreview(breakdown);
+      })
+      .catch((error) => {
+        console.error('Error checking discount code:', error);
+        if (!cancelled) setDiscountPreview(null);
+      })
+      .finally(() => {
+        if (!cancelled) setCheckingCode(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, discountCode, items]);
+
   const handleQuantityUpdate = async (itemId: string, newQuantity: number, event?: React.MouseEvent) => {
     if (event) {
       event.preventDefault();
@@ -256,11 +297,29 @@ const CartDrawer = () => {
                           </p>
                         </div>
 
+                        <div className="mb-4">
+                          <DiscountCodeInput
+                            appliedCode={discountCode}
+                            error={discountPreview?.discount_error}
+                            loading={checkingCode}
+                            onApply={setDiscountCode}
+                            onRemove={() => setDiscountCode(null)}
+                          />
+                        </div>
+
                         <div className="flex justify-between text-base font-medium text-brand-dark">
                           <p>Subtotal</p>
                           <p>LKR {total.toLocaleString()}</p>
                         </div>
-                        <p className="mt-0.5 text-sm text-black">Shipping calculated at checkout.</p>
+                        {cartDiscount > 0 && (
+                          <div className="mt-1 flex justify-between text-sm text-green-600">
+                            <p>Discount ({discountCode})</p>
+                            <p>-LKR {cartDiscount.toLocaleString()}</p>
+                          </div>
+                        )}
+                        <p className="mt-0.5 text-sm text-black">
+                          {hasFreeShippingCode ? 'Free shipping applied at checkout.' : 'Shipping calculated at checkout.'}
+                        </p>
                         <div className="mt-6">
                           {user ? (
                             <Link to="/checkout">
@@ -270,12 +329,14 @@ const CartDrawer = () => {
                             </Link>
                           ) : (
                             <div className="space-y-3">
+                              <Link to="/checkout">
+                                <Button fullWidth onClick={handleCloseCart}>
+                                  Checkout as Guest
+                                </Button>
+                              </Link>
                               <p className="text-sm text-black text-center">
-                                Please sign in to continue to checkout
+                                Or sign in to use your saved address
                               </p>
-                              <Button fullWidth onClick={handleCloseCart}>
-                                Sign In to Checkout
-                              </Button>
                             </div>
                           )}
                         </div>
@@ -488,13 +549,27 @@ const CartDrawer = () => {
                     </p>
                   </div>
 
+                  {/* Compact Discount Code */}
+                  <DiscountCodeInput
+                    appliedCode={discountCode}
+                    error={discountPreview?.discount_error}
+                    loading={checkingCode}
+                    onApply={setDiscountCode}
+                    onRemove={() => setDiscountCode(null)}
+                  />
+
                   {/* Compact Total */}
                   <div className="flex justify-between items-center py-1">
                     <span className="text-base font-medium text-black">Total</span>
                     <span className="text-xl font-bold text-black">
-                      LKR {total.toLocaleString()}
+                      LKR {(total - cartDiscount).toLocaleString()}
                     </span>
                   </div>
+                  {(cartDiscount > 0 || hasFreeShippingCode) && (
+                    <p className="text-xs text-green-600 text-right -mt-2">
+                      {cartDiscount > 0 ? `Includes -LKR ${cartDiscount.toLocaleString()} discount` : 'Free shipping applied'}
+                    </p>
+                  )}
 
                   {/* Compact Checkout Button */}
                   {user ? (
@@ -505,12 +580,14 @@ const CartDrawer = () => {
                     </Link>
                   ) : (
                     <div className="space-y-2">
+                      <Link to="/checkout" className="block">
+                        <Button fullWidth size="default" onClick={handleCloseCart} className="text-sm font-semibold py-3">
+                          Checkout as Guest ({itemCount} {itemCount === 1 ? 'item' : 'items'})
+                        </Button>
+                      </Link>
                       <p className="text-xs text-gray-600 text-center">
-                        Please sign in to continue
+                        Or sign in to use your saved address
                       </p>
-                      <Button fullWidth size="default" onClick={handleCloseCart} className="text-sm font-semibold py-3">
-                        Sign In to Checkout
-                      </Button>
                     </div>
                   )}
 
@@ -0,0 +1,94 @@
+import { useState } from 'react';
+import { Tag, X } from 'lucide-react';
+import clsx from 'clsx';
+
+interface DiscountCodeInputProps {
+  appliedCode: string | null;
+  error?: string | null;
+  loading?: boolean;
+  onApply: (code: string) => void;
+  onRemove: () => void;
+  variant?: 'default' | 'dark';
+}
+
+const DiscountCodeInput = ({
+  appliedCode,
+  error,
+  loading = false,
+  onApply,
+  onRemove,
+  variant = 'default'
+}: DiscountCodeInputProps) => {
+  const [code, setCode] = useState('');
+  const isDark = variant === 'dark';
+
+  const handleApply = () => {
+    const trimmed = code.trim();
+    if (!trimmed) return;
+    onApply(trimmed);
+    setCode('');
+  };
+
+  if (appliedCode && !error) {
+    return (
+      <div className={clsx(
+        'flex items-center justify-between px-3 py-2 border rounded-md text-sm',
+        isDark ? 'border-[rgb(51,51,51)] text-white' : 'border-gray-200 bg-gray-50 text-black'
+      )}>
+        <span className="flex items-center font-medium">
+          <Tag size={14} className="mr-2" />
+          {appliedCode}
+        </span>
+        <button
+          type="button"
+          onClick={onRemove}
+          className={isDark ? 'text-[rgb(94,94,94)] hover:text-white' : 'text-gray-500 hover:text-black'}
+          aria-label="Remove discount code"
+        >
+          <X size={16} />
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <div className="flex space-x-2">
+        <input
+          type="text"
+          value={code}
+          onChange={(e) => setCode(e.target.value.toUpperCase())}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              handleApply();
+            }
+          }}
+          placeholder="Discount code"
+          className={clsx(
+            'flex-1 min-w-0 px-3 py-2 border rounded-md text-sm uppercase focus:outline-none',
+            isDark
+              ? 'bg-black text-white border-[rgb(51,51,51)] placeholder:text-[rgb(94,94,94)] focus:border-white'
+              : 'border-gray-300 placeholder:text-gray-500 focus:ring-2 focus:ring-gray-500'
+          )}
+        />
+        <button
+          type="button"
+          onClick={handleApply}
+          disabled={loading || !code.trim()}
+          className={clsx(
+            'px-4 py-2 text-sm font-semibold rounded-md transition-colors disabled:opacity-50',
+            isDark ? 'bg-white text-black hover:bg-gray-200' : 'bg-black text-white hover:bg-gray-900'
+          )}
+        >
+          Apply
+        </button>
+      </div>
+      {error && (
+        <p className={clsx('mt-2 text-xs', isDark ? 'text-red-400' : 'text-red-600')}>{error}</p>
+      )}
+    </div>
+  );
+};
+
+export default DiscountCodeInput;
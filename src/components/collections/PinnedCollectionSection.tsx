@@ -4,30 +4,7 @@ import { motion } from 'framer-motion';
 import { useRef, useState, useEffect } from 'react';
 import ProductCard from '../products/ProductCard';
 import Button from '../ui/Button';
-
-interface PinnedCollection {
-  id: string;
-  slug: string;
-  name: string;
-  description?: string;
-  image_url?: string;
-  products: Array<{
-    id: string;
-    title: string;
-    brand?: string;
-    price: number;
-    image?: string;
-    rating?: number;
-    reviewCount?: number;
-    featured?: boolean;
-    variants?: Array<{
-      id: string;
-      size: string;
-      color: string;
-      stock: number;
-    }>;
-  }>;
-}
+import { PinnedCollection } from '../../types/collection';
 
 interface PinnedCollectionSectionProps {
   collection: PinnedCollection;
@@ -0,0 +1,62 @@
+import { InvoiceDetails, OrderDocument } from '../../types/orderDocument';
+import {
+  addressLines,
+  addressName,
+  amountToCollect,
+  formatDocumentMoney,
+  totalUnits
+} from '../../utils/orderDocuments';
+
+interface AddressLabelProps {
+  order: OrderDocument;
+  seller: InvoiceDetails;
+}
+
+// Sized for 100 x 150 mm (4 x 6 in) courier labels
+const AddressLabel = ({ order, seller }: AddressLabelProps) => {
+  const collect = amountToCollect(order);
+  const phone = order.shipping_address?.phone || order.customer_phone;
+
+  return (
+    <div className="bg-white text-black w-[100mm] h-[150mm] p-[5mm] border border-dashed border-gray-400 print:border-none flex flex-col mx-auto">
+      <div className="text-xs pb-2 border-b-2 border-black">
+        <p className="text-[10px] font-semibold uppercase">From</p>
+        <p className="font-semibold">{seller.business_name}</p>
+        {seller.address && <p className="whitespace-pre-line">{seller.address}</p>}
+        {seller.phone && <p>{seller.phone}</p>}
+      </div>
+
+      <div className="flex-1 py-3">
+        <p className="text-[10px] font-semibold uppercase">To</p>
+        <p className="text-xl font-bold leading-tight">
+          {addressName(order.shipping_address) || order.customer_name || 'Customer'}
+        </p>
+        <div className="text-base leading-snug mt-1">
+          {addressLines(order.shipping_address).map(line => <p key={line}>{line}</p>)}
+        </div>
+        {phone && <p className="text-lg font-semibold mt-2">{phone}</p>}
+      </div>
+
+      {collect > 0 && (
+        <div className="border-2 border-black p-2 mb-2 text-center">
+          <p className="text-[10px] font-semibold uppercase">Cash on delivery — collect</p>
+          <p className="text-2xl font-bold">{formatDocumentMoney(collect, order.currency)}</p>
+        </div>
+      )}
+
+      <div className="border-t-2 border-black pt-2 text-xs grid grid-cols-2 gap-1">
+        <p><span className="font-semibold">Order</span> {order.order_number}</p>
+        <p className="text-right"><span className="font-semibold">Units</span> {totalUnits(order)}</p>
+        <p className="capitalize"><span className="font-semibold normal-case">Service</span> {order.shipping_method || '—'}</p>
+        <p className="text-right">{order.courier_name || ''}</p>
+        {order.tracking_number && (
+          <p className="col-span-2 text-center font-mono text-base font-bold tracking-widest pt-1">
+            {order.tracking_number}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AddressLabel;
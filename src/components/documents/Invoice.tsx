@@ -0,0 +1,142 @@
+import logo from '../../assests/logo.black.png';
+import { InvoiceDetails, OrderDocument } from '../../types/orderDocument';
+import {
+  addressLines,
+  addressName,
+  formatDocumentDate,
+  formatDocumentMoney,
+  includedTax,
+  paymentMethodName
+} from '../../utils/orderDocuments';
+
+interface InvoiceProps {
+  order: OrderDocument;
+  seller: InvoiceDetails;
+}
+
+const paymentStatusLabel = (order: OrderDocument) => {
+  switch (order.payment_status) {
+    case 'paid':
+      return 'Paid';
+    case 'refunded':
+      return 'Refunded';
+    case 'partially_refunded':
+      return 'Partially refunded';
+    default:
+      return order.payment_method === 'cod' ? 'Payable on delivery' : 'Payment due';
+  }
+};
+
+const Invoice = ({ order, seller }: InvoiceProps) => {
+  const tax = includedTax(order.total, seller.tax_rate);
+  const money = (amount: number) => formatDocumentMoney(amount, order.currency);
+
+  return (
+    <div className="bg-white text-black text-sm p-10 print:p-0">
+      {/* Seller and invoice number */}
+      <div className="flex justify-between items-start pb-6 border-b border-gray-300">
+        <div>
+          <img src={logo} alt={seller.business_name} className="h-8 mb-3" />
+          <p className="font-semibold">{seller.business_name}</p>
+          {seller.address && <p className="text-gray-600 whitespace-pre-line">{seller.address}</p>}
+          {seller.phone && <p className="text-gray-600">{seller.phone}</p>}
+          {seller.email && <p className="text-gray-600">{seller.email}</p>}
+          {seller.tax_number && <p className="text-gray-600">Tax reg. no. {seller.tax_number}</p>}
+        </div>
+        <div className="text-right">
+          <h1 className="text-2xl font-bold tracking-wide">{seller.tax_number ? 'TAX INVOICE' : 'INVOICE'}</h1>
+          <p className="mt-2"><span className="text-gray-600">Invoice no.</span> {order.order_number}</p>
+          <p><span className="text-gray-600">Date</span> {formatDocumentDate(order.created_at)}</p>
+          <p><span className="text-gray-600">Payment</span> {paymentMethodName(order.payment_method)}</p>
+          <p className="font-semibold mt-1">{paymentStatusLabel(order)}</p>
+        </div>
+      </div>
+
+      {/* Addresses */}
+      <div className="grid grid-cols-2 gap-8 py-6">
+        <div>
+          <h2 className="text-xs font-semibold text-gray-500 uppercase mb-2">Bill to</h2>
+          <p className="font-medium">{addressName(order.billing_address) || order.customer_name || 'Customer'}</p>
+          {addressLines(order.billing_address).map(line => <p key={line}>{line}</p>)}
+          {order.customer_email && <p className="text-gray-600">{order.customer_email}</p>}
+          {order.customer_phone && <p className="text-gray-600">{order.customer_phone}</p>}
+        </div>
+        <div>
+          <h2 className="text-xs font-semibold text-gray-500 uppercase mb-2">Ship to</h2>
+          <p className="font-medium">{addressName(order.shipping_address) || order.customer_name || 'Customer'}</p>
+          {addressLines(order.shipping_address).map(line => <p key={line}>{line}</p>)}
+          {order.shipping_method && <p className="text-gray-600 capitalize">{order.shipping_method} shipping</p>}
+        </div>
+      </div>
+
+      {/* Lines */}
+      <table className="w-full">
+        <thead>
+          <tr className="border-y border-gray-300 text-xs text-gray-500 uppercase">
+            <th className="py-2 text-left font-semibold">Item</th>
+            <th className="py-2 text-right font-semibold w-16">Qty</th>
+            <th className="py-2 text-right font-semibold w-32">Unit price</th>
+            <th className="py-2 text-right font-semibold w-32">Amount</th>
+          </tr>
+        </thead>
+        <tbody>
+          {order.items.map(item => (
+            <tr key={item.id} className="border-b border-gray-200 break-inside-avoid">
+              <td className="py-2">
+                <p className="font-medium">{item.product_title}</p>
+                <p className="text-xs text-gray-600">
+                  {[item.size && `Size ${item.size}`, item.color, item.sku && `SKU ${item.sku}`].filter(Boolean).join(' · ')}
+                </p>
+              </td>
+              <td className="py-2 text-right">{item.quantity}</td>
+              <td className="py-2 text-right">{money(item.unit_price)}</td>
+              <td className="py-2 text-right">{money(item.total_price)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {/* Totals */}
+      <div className="flex justify-end pt-4 break-inside-avoid">
+        <div className="w-72 space-y-1">
+          <div className="flex justify-between">
+            <span className="text-gray-600">Subtotal</span>
+            <span>{money(order.subtotal)}</span>
+          </div>
+          {order.discount_amount > 0 && (
+            <div className="flex justify-between">
+              <span className="text-gray-600">Discount{order.discount_code ? ` (${order.discount_code})` : ''}</span>
+              <span>-{money(order.discount_amount)}</span>
+            </div>
+          )}
+          <div className="flex justify-between">
+            <span className="text-gray-600">Shipping</span>
+            <span>{order.shipping_cost > 0 ? money(order.shipping_cost) : 'Free'}</span>
+          </div>
+          {order.payment_fee > 0 && (
+            <div className="flex justify-between">
+              <span className="text-gray-600">Cash on delivery fee</span>
+              <span>{money(order.payment_fee)}</span>
+            </div>
+          )}
+          <div className="flex justify-between border-t border-gray-300 pt-2 font-bold text-base">
+            <span>Total</span>
+            <span>{money(order.total)}</span>
+          </div>
+          {tax > 0 && (
+            <div className="flex justify-between text-xs text-gray-600">
+              <span>Includes tax at {seller.tax_rate}%</span>
+              <span>{money(tax)}</span>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {seller.footer && (
+        <p className="pt-10 text-center text-xs text-gray-500 whitespace-pre-line">{seller.footer}</p>
+      )}
+    </div>
+  );
+};
+
+export default Invoice;
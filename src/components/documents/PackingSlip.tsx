@@ -0,0 +1,81 @@
+import { InvoiceDetails, OrderDocument } from '../../types/orderDocument';
+import { addressLines, addressName, formatDocumentDate, totalUnits } from '../../utils/orderDocuments';
+
+interface PackingSlipProps {
+  order: OrderDocument;
+  seller: InvoiceDetails;
+}
+
+const PackingSlip = ({ order, seller }: PackingSlipProps) => {
+  return (
+    <div className="bg-white text-black text-sm p-10 print:p-0">
+      <div className="flex justify-between items-start pb-6 border-b border-gray-300">
+        <div>
+          <h1 className="text-2xl font-bold tracking-wide">PACKING SLIP</h1>
+          <p className="text-gray-600">{seller.business_name}</p>
+        </div>
+        <div className="text-right">
+          <p className="text-xl font-bold">{order.order_number}</p>
+          <p><span className="text-gray-600">Ordered</span> {formatDocumentDate(order.created_at)}</p>
+          {order.shipping_method && (
+            <p className="capitalize"><span className="text-gray-600 normal-case">Shipping</span> {order.shipping_method}</p>
+          )}
+        </div>
+      </div>
+
+      <div className="py-6">
+        <h2 className="text-xs font-semibold text-gray-500 uppercase mb-2">Ship to</h2>
+        <p className="font-medium">{addressName(order.shipping_address) || order.customer_name || 'Customer'}</p>
+        {addressLines(order.shipping_address).map(line => <p key={line}>{line}</p>)}
+        {order.customer_phone && <p>{order.customer_phone}</p>}
+      </div>
+
+      <table className="w-full">
+        <thead>
+          <tr className="border-y border-gray-300 text-xs text-gray-500 uppercase">
+            <th className="py-2 w-8"></th>
+            <th className="py-2 text-left font-semibold">SKU</th>
+            <th className="py-2 text-left font-semibold">Item</th>
+            <th className="py-2 text-left font-semibold">Size</th>
+            <th className="py-2 text-left font-semibold">Colour</th>
+            <th className="py-2 text-right font-semibold w-16">Qty</th>
+          </tr>
+        </thead>
+        <tbody>
+          {order.items.map(item => (
+            <tr key={item.id} className="border-b border-gray-200 break-inside-avoid">
+              <td className="py-3">
+                <span className="inline-block w-4 h-4 border border-black" />
+              </td>
+              <td className="py-3 font-mono text-xs">{item.sku || '—'}</td>
+              <td className="py-3 font-medium">{item.product_title}</td>
+              <td className="py-3">{item.size || '—'}</td>
+              <td className="py-3">{item.color || '—'}</td>
+              <td className="py-3 text-right text-base font-bold">{item.quantity}</td>
+            </tr>
+          ))}
+        </tbody>
+        <tfoot>
+          <tr>
+            <td colSpan={5} className="py-3 text-right text-gray-600">Total units</td>
+            <td className="py-3 text-right text-base font-bold">{totalUnits(order)}</td>
+          </tr>
+        </tfoot>
+      </table>
+
+      {order.notes && (
+        <div className="mt-6 p-4 border border-gray-300 break-inside-avoid">
+          <h2 className="text-xs font-semibold text-gray-500 uppercase mb-1">Order notes</h2>
+          <p className="whitespace-pre-line">{order.notes}</p>
+        </div>
+      )}
+
+      <div className="mt-10 grid grid-cols-2 gap-8 text-xs text-gray-600 break-inside-avoid">
+        <p className="border-t border-gray-400 pt-2">Picked by</p>
+        <p className="border-t border-gray-400 pt-2">Packed by</p>
+      </div>
+    </div>
+  );
+};
+
+export default PackingSlip;
@@ -0,0 +1,126 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { ChevronDown } from 'lucide-react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { CategoryNode } from '../../types/category';
+import { categoryLink } from '../../utils/categoryTree';
+
+interface CategoryLinksProps {
+  nodes: CategoryNode[];
+  onNavigate: () => void;
+  linkClassName: string;
+}
+
+// Subcategories at any depth, each level indented under its parent
+const CategoryLinks = ({ nodes, onNavigate, linkClassName }: CategoryLinksProps) => {
+  if (nodes.length === 0) return null;
+
+  return (
+    <ul className="space-y-1">
+      {nodes.map(node => (
+        <li key={node.id}>
+          <Link to={categoryLink(node)} onClick={onNavigate} className={linkClassName}>
+            {node.name}
+          </Link>
+          {node.children.length > 0 && (
+            <div className="pl-3 mt-1">
+              <CategoryLinks nodes={node.children} onNavigate={onNavigate} linkClassName={linkClassName} />
+            </div>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+interface CategoryMenuProps {
+  tree: CategoryNode[];
+}
+
+// Desktop dropdown: a column per top-level category with its subcategories
+const CategoryMenu = ({ tree }: CategoryMenuProps) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  if (tree.length === 0) return null;
+
+  return (
+    <div
+      className="relative hidden lg:block"
+      onMouseEnter={() => setIsOpen(true)}
+      onMouseLeave={() => setIsOpen(false)}
+    >
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        aria-expanded={isOpen}
+        aria-haspopup="true"
+        className="flex items-center px-4 py-2 text-sm font-medium text-gray-700 hover:text-black transition-colors"
+      >
+        Categories
+        <ChevronDown size={14} className="ml-1" />
+      </button>
+
+      <AnimatePresence>
+        {isOpen && (
+          <motion.div
+            initial={{ opacity: 0, y: -4 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -4 }}
+            transition={{ duration: 0.15 }}
+            className="absolute right-0 top-full z-50 w-[36rem] max-w-[90vw] bg-white border border-gray-200 shadow-lg p-6 grid grid-cols-3 gap-6"
+          >
+            {tree.map(node => (
+              <div key={node.id}>
+                <Link
+                  to={categoryLink(node)}
+                  onClick={() => setIsOpen(false)}
+                  className="block text-sm font-semibold text-black hover:text-gray-600 transition-colors mb-2"
+                >
+                  {node.name}
+                </Link>
+                <CategoryLinks
+                  nodes={node.children}
+                  onNavigate={() => setIsOpen(false)}
+                  linkClassName="text-sm text-gray-600 hover:text-black transition-colors"
+                />
+              </div>
+            ))}
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+};
+
+interface MobileCategoryMenuProps {
+  tree: CategoryNode[];
+  onNavigate: () => void;
+}
+
+// The same tree for the mobile menu, top-level categories first in bold
+export const MobileCategoryMenu = ({ tree, onNavigate }: MobileCategoryMenuProps) => (
+  <>
+    {tree.map(node => (
+      <div key={node.id}>
+        <Link
+          to={categoryLink(node)}
+          className="block py-2 text-black font-medium hover:text-gray-600 transition-colors"
+          onClick={onNavigate}
+        >
+          {node.name}
+        </Link>
+        {node.children.length > 0 && (
+          <div className="pl-4 pb-2">
+            <CategoryLinks
+              nodes={node.children}
+              onNavigate={onNavigate}
+              linkClassName="block py-1 text-sm text-gray-600 hover:text-black transition-colors"
+            />
+          </div>
+        )}
+      </div>
+    ))}
+  </>
+);
+
+export default CategoryMenu;
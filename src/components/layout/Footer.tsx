@@ -36,8 +36,10 @@ const Footer = () => {
         const { data } = await supabase
           .from('categories')
           .select('id, slug, name')
+          .is('parent_id', null)
+          .order('display_order')
           .order('name')
-          .limit(6); // Limit to 6 categories for footer
+          .limit(6); // Limit to 6 top-level categories for footer
 
         setCategories(data || []);
       } catch (error) {
@@ -155,6 +157,11 @@ const Footer = () => {
                   Collections
                 </Link>
               </li>
+              <li>
+                <Link to="/brands" className="text-white hover:opacity-70 text-xs transition-opacity duration-200">
+                  Brands
+                </Link>
+              </li>
               {categories.slice(0, 3).map((category) => (
                 <li key={category.id}>
                   <Link
@@ -196,6 +203,11 @@ const Footer = () => {
                   Delivery Info
                 </Link>
               </li>
+              <li>
+                <Link to="/orders/lookup" className="text-white hover:opacity-70 text-xs transition-opacity duration-200">
+                  Track Your Order
+                </Link>
+              </li>
               <li>
                 <Link to="/contact" className="text-white hover:opacity-70 text-xs transition-opacity duration-200">
                   Contact Us
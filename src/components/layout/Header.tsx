@@ -1,4 +1,4 @@
-import { useState, useEffect, useRef } from 'react';
+import { useState, useEffect, useRef, useMemo } from 'react';
 import { Link, useNavigate } from 'react-router-dom';
 import { Search, ShoppingCart, User, Menu, Heart, LogOut, X, Package, MessageSquare } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
@@ -9,6 +9,14 @@ import Button from '../ui/Button';
 import Modal from '../ui/Modal';
 import AuthForm from '../auth/AuthForm';
 import AnnouncementBar from '../ui/AnnouncementBar';
+import SearchAutocomplete from '../search/SearchAutocomplete';
+import { autocompleteOptions } from '../../utils/search';
+import { fetchSearchAutocomplete } from '../../services/searchService';
+import { EMPTY_AUTOCOMPLETE, SearchAutocompleteResult } from '../../types/search';
+import CategoryMenu, { MobileCategoryMenu } from './CategoryMenu';
+import { fetchCategories } from '../../services/categoryService';
+import { Category } from '../../types/category';
+import { buildCategoryTree } from '../../utils/categoryTree';
 import logo from '../../assests/logo.black.png';
 
 const Header = () => {
@@ -20,11 +28,23 @@ const Header = () => {
   const [showUserMenu, setShowUserMenu] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
   const [isSearchOpen, setIsSearchOpen] = useState(false);
+  const [suggestions, setSuggestions] = useState<SearchAutocompleteResult>(EMPTY_AUTOCOMPLETE);
+  const [showSuggestions, setShowSuggestions] = useState(false);
+  const [activeSuggestion, setActiveSuggestion] = useState<string | null>(null);
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
+  const [categories, setCategories] = useState<Category[]>([]);
   const userMenuRef = useRef<HTMLDivElement>(null);
 
   const cartItemCount = items.reduce((total, item) => total + item.quantity, 0);
   const wishlistItemCount = wishlistItems.length;
+  const categoryTree = useMemo(() => buildCategoryTree(categories), [categories]);
+
+  // Category menus are built from the admin's category tree
+  useEffect(() => {
+    fetchCategories()
+      .then(setCategories)
+      .catch(error => console.error('Error fetching categories for menu:', error));
+  }, []);
 
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
@@ -42,12 +62,61 @@ const Header = () => {
     };
   }, [showUserMenu]);
 
+  // Suggestions follow the typing, a moment behind it
+  useEffect(() => {
+    const query = searchQuery.trim();
+    setActiveSuggestion(null);
+    if (query.length < 2) {
+      setSuggestions(EMPTY_AUTOCOMPLETE);
+      return;
+    }
+
+    let cancelled = false;
+    const timeout = setTimeout(() => {
+      fetchSearchAutocomplete(query)
+        .then(result => {
+          if (!cancelled) setSuggestions(result);
+        })
+        .catch(error => console.error('Error fetching search suggestions:', error));
+    }, 200);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [searchQuery]);
+
+  const goToSearchResult = (path: string) => {
+    navigate(path);
+    setSearchQuery('');
+    setShowSuggestions(false);
+  };
+
   const handleSearch = (e: React.FormEvent) => {
     e.preventDefault();
-    if (searchQuery.trim()) {
-      navigate(`/products?search=${encodeURIComponent(searchQuery.trim())}`);
-      setSearchQuery('');
+    const option = autocompleteOptions(suggestions, searchQuery).find(item => item.key === activeSuggestion);
+    if (option) {
+      goToSearchResult(option.path);
+    } else if (searchQuery.trim()) {
+      goToSearchResult(`/products?search=${encodeURIComponent(searchQuery.trim())}`);
+    }
+  };
+
+  const handleSearchKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Escape') {
+      setShowSuggestions(false);
+      return;
     }
+    if (e.key !== 'ArrowDown' && e.key !== 'ArrowUp') return;
+
+    e.preventDefault();
+    setShowSuggestions(true);
+    const keys = autocompleteOptions(suggestions, searchQuery).map(option => option.key);
+    const current = activeSuggestion ? keys.indexOf(activeSuggestion) : -1;
+    const next = e.key === 'ArrowDown'
+      ? (current + 1) % keys.length
+      : (current <= 0 ? keys.length : current) - 1;
+    setActiveSuggestion(keys[next]);
   };
 
   const handleSignOut = async () => {
@@ -87,6 +156,17 @@ const Header = () => {
               Shop All
             </Link>
 
+            {/* Categories Menu */}
+            <CategoryMenu tree={categoryTree} />
+
+            {/* Brands Link */}
+            <Link
+              to="/brands"
+              className="hidden lg:block px-4 py-2 text-sm font-medium text-gray-700 hover:text-black transition-colors"
+            >
+              Brands
+            </Link>
+
             {/* Search */}
             <motion.div
               animate={{ width: isSearchOpen ? '300px' : '40px' }}
@@ -113,11 +193,19 @@ const Header = () => {
                   <input
                     type="text"
                     value={searchQuery}
-                    onChange={(e) => setSearchQuery(e.target.value)}
+                    onChange={(e) => {
+                      setSearchQuery(e.target.value);
+                      setShowSuggestions(true);
+                    }}
+                    onKeyDown={handleSearchKeyDown}
+                    onFocus={() => setShowSuggestions(true)}
                     placeholder="Search for shoes..."
                     className="w-full pl-10 pr-10 py-2 border border-gray-300 rounded-full focus:outline-none"
                     autoFocus
+                    role="combobox"
+                    aria-expanded={showSuggestions && searchQuery.trim().length >= 2}
                     onBlur={() => {
+                      setShowSuggestions(false);
                       if (!searchQuery) {
                         setIsSearchOpen(false);
                       }
@@ -136,6 +224,14 @@ const Header = () => {
                   >
                     <X size={16} className="text-gray-500" />
                   </motion.button>
+                  {showSuggestions && searchQuery.trim().length >= 2 && (
+                    <SearchAutocomplete
+                      query={searchQuery}
+                      result={suggestions}
+                      activeKey={activeSuggestion}
+                      onSelect={goToSearchResult}
+                    />
+                  )}
                 </motion.form>
               )}
             </motion.div>
@@ -308,26 +404,13 @@ const Header = () => {
                 Products
               </Link>
               <Link
-                to="/products?category=running"
-                className="block py-2 text-black font-medium hover:text-gray-600 transition-colors"
-                onClick={() => setIsMobileMenuOpen(false)}
-              >
-                Running
-              </Link>
-              <Link
-                to="/products?category=training"
-                className="block py-2 text-black font-medium hover:text-gray-600 transition-colors"
-                onClick={() => setIsMobileMenuOpen(false)}
-              >
-                Training
-              </Link>
-              <Link
-                to="/products?category=lifestyle"
+                to="/brands"
                 className="block py-2 text-black font-medium hover:text-gray-600 transition-colors"
                 onClick={() => setIsMobileMenuOpen(false)}
               >
-                Lifestyle
+                Brands
               </Link>
+              <MobileCategoryMenu tree={categoryTree} onNavigate={() => setIsMobileMenuOpen(false)} />
             </nav>
           </motion.div>
         )}
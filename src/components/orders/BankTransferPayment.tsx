@@ -0,0 +1,208 @@
+import { useEffect, useState } from 'react';
+import { Building, Upload, X } from 'lucide-react';
+import Button from '../ui/Button';
+import { showSuccessToast, showErrorToast } from '../ui/CustomToast';
+import { fetchBankTransferDetails } from '../../services/emailService';
+import { fetchOrderPaymentSlips, getPaymentSlipUrl, uploadPaymentSlip } from '../../services/offlinePaymentService';
+import { BankTransferDetails } from '../../types/email';
+import { PAYMENT_SLIP_STATUS_LABELS, PaymentSlip } from '../../types/payment';
+
+const MAX_SLIP_SIZE = 5 * 1024 * 1024;
+
+interface BankTransferPaymentProps {
+  order: {
+    id: string;
+    order_number: string;
+    total: number;
+    status: string;
+    payment_status: string;
+    reserved_until: string | null;
+  };
+  accessToken?: string;
+  // Only the customer (or a guest link) can send a slip
+  canUpload: boolean;
+}
+
+/**
+ * Where to pay a bank transfer order and the slips sent for it so far
+ */
+const BankTransferPayment = ({ order, accessToken, canUpload }: BankTransferPaymentProps) => {
+  const [details, setDetails] = useState<BankTransferDetails | null>(null);
+  const [slips, setSlips] = useState<PaymentSlip[]>([]);
+  const [file, setFile] = useState<File | null>(null);
+  const [amount, setAmount] = useState('');
+  const [reference, setReference] = useState('');
+  const [uploading, setUploading] = useState(false);
+
+  useEffect(() => {
+    fetchBankTransferDetails()
+      .then(setDetails)
+      .catch(error => console.error('Error fetching bank details:', error));
+    fetchOrderPaymentSlips(order.id, accessToken)
+      .then(setSlips)
+      .catch(error => console.error('Error fetching payment slips:', error));
+  }, [order.id, accessToken]);
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0];
+    e.target.value = '';
+    if (!selected) return;
+
+    if (!selected.type.startsWith('image/') && selected.type !== 'application/pdf') {
+      showErrorToast('Upload a photo or PDF of the slip');
+      return;
+    }
+    if (selected.size > MAX_SLIP_SIZE) {
+      showErrorToast(`${selected.name} is larger than 5MB`);
+      return;
+    }
+    setFile(selected);
+  };
+
+  const handleUpload = async () => {
+    if (!file) return;
+
+    setUploading(true);
+    try {
+      const slip = await uploadPaymentSlip(
+        order.id,
+        file,
+        { amount: amount ? Number(amount) : null, reference: reference.trim() },
+        accessToken
+      );
+      setSlips(prev => [slip, ...prev]);
+      setFile(null);
+      setAmount('');
+      setReference('');
+      showSuccessToast('Payment slip sent. We will confirm your order once it has been checked.');
+    } catch (error: any) {
+      console.error('Error uploading payment slip:', error);
+      showErrorToast(error.message || 'Failed to upload payment slip');
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const inReview = slips.some(slip => slip.status === 'submitted');
+  const awaitingPayment = ['pending', 'expired'].includes(order.payment_status);
+  const accountRows = details
+    ? [
+        ['Bank', details.bank],
+        ['Branch', details.branch],
+        ['Account name', details.account_name],
+        ['Account number', details.account_number],
+      ].filter(([, value]) => value)
+    : [];
+
+  return (
+    <div className="border border-black mb-6">
+      <div className="p-4 border-b border-gray-200 flex items-center">
+        <Building className="w-4 h-4 mr-2 flex-shrink-0" />
+        <p className="text-sm text-black">
+          {inReview
+            ? 'We have your payment slip and will confirm your order once it has been checked.'
+            : order.payment_status === 'expired'
+            ? 'This order was cancelled because we did not receive payment in time. If you have already paid, upload your slip and we will restore it.'
+            : (
+              <>
+                Transfer <span className="font-semibold">LKR {order.total.toLocaleString()}</span> using{' '}
+                <span className="font-semibold">{order.order_number}</span> as the reference
+                {order.reserved_until && (
+                  <>
+                    {' '}by{' '}
+                    <span className="font-semibold">{new Date(order.reserved_until).toLocaleDateString()}</span>,
+                    or the order will be cancelled
+                  </>
+                )}
+                .
+              </>
+            )}
+        </p>
+      </div>
+
+      {awaitingPayment && !inReview && accountRows.length > 0 && (
+        <div className="p-4 border-b border-gray-200 space-y-1 text-sm">
+          {accountRows.map(([label, value]) => (
+            <div key={label} className="flex justify-between">
+              <span className="text-gray-600">{label}:</span>
+              <span className="text-black font-medium">{value}</span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {canUpload && awaitingPayment && !inReview && (
+        <div className="p-4 border-b border-gray-200 space-y-3">
+          <label className="flex items-center justify-center gap-2 px-4 py-3 border border-dashed border-gray-300 text-sm text-gray-600 cursor-pointer hover:border-black">
+            <Upload className="w-4 h-4" />
+            {file ? file.name : 'Choose your payment slip'}
+            <input type="file" accept="image/*,application/pdf" onChange={handleFileChange} className="hidden" />
+          </label>
+          {file && (
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              <input
+                type="number"
+                min={0}
+                step="0.01"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                placeholder="Amount paid (optional)"
+                className="w-full px-3 py-2 border border-gray-300 text-sm focus:outline-none focus:border-black"
+              />
+              <input
+                value={reference}
+                onChange={(e) => setReference(e.target.value)}
+                maxLength={100}
+                placeholder="Bank reference (optional)"
+                className="w-full px-3 py-2 border border-gray-300 text-sm focus:outline-none focus:border-black"
+              />
+            </div>
+          )}
+          {file && (
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" size="sm" onClick={() => setFile(null)} disabled={uploading}>
+                <X className="w-4 h-4 mr-1" />
+                Remove
+              </Button>
+              <Button size="sm" onClick={handleUpload} loading={uploading} className="bg-black text-white hover:bg-gray-800">
+                Send Slip
+              </Button>
+            </div>
+          )}
+        </div>
+      )}
+
+      {slips.map((slip, index) => (
+        <div key={slip.id} className={`p-4 text-sm ${index !== slips.length - 1 ? 'border-b border-gray-200' : ''}`}>
+          <div className="flex items-start justify-between gap-3">
+            <div className="min-w-0">
+              <a
+                href={getPaymentSlipUrl(slip.file_path)}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="text-black font-medium underline truncate block"
+              >
+                {slip.file_name || 'Payment slip'}
+              </a>
+              <p className="text-xs text-gray-500">
+                Sent {new Date(slip.created_at).toLocaleDateString()}
+                {slip.amount !== null && ` · LKR ${Number(slip.amount).toLocaleString()}`}
+                {slip.reference && ` · Ref ${slip.reference}`}
+              </p>
+              {slip.status === 'rejected' && slip.review_note && (
+                <p className="text-xs text-black mt-1">{slip.review_note}</p>
+              )}
+            </div>
+            <span className={`px-2 py-1 text-xs font-medium border flex-shrink-0 ${
+              slip.status === 'approved' ? 'border-black bg-black text-white' : 'border-gray-400 text-gray-600'
+            }`}>
+              {PAYMENT_SLIP_STATUS_LABELS[slip.status].toUpperCase()}
+            </span>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default BankTransferPayment;
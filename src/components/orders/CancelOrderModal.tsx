@@ -0,0 +1,121 @@
+import { useState } from 'react';
+import { X } from 'lucide-react';
+import Modal from '../ui/Modal';
+import Button from '../ui/Button';
+import { showSuccessToast, showErrorToast } from '../ui/CustomToast';
+import { cancelOrder } from '../../services/returnService';
+import { CancelOrderResult } from '../../types/return';
+
+const CANCEL_REASONS = [
+  'Ordered by mistake',
+  'Found a better price',
+  'Delivery takes too long',
+  'Want to change size or colour',
+  'Other',
+];
+
+interface CancelOrderModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  orderId: string;
+  orderNumber: string;
+  // Whether the customer has already paid, so a refund will follow
+  isPaid: boolean;
+  onCancelled?: (result: CancelOrderResult) => void;
+}
+
+const CancelOrderModal = ({
+  isOpen,
+  onClose,
+  orderId,
+  orderNumber,
+  isPaid,
+  onCancelled
+}: CancelOrderModalProps) => {
+  const [reason, setReason] = useState(CANCEL_REASONS[0]);
+  const [details, setDetails] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  const handleCancel = async () => {
+    setSubmitting(true);
+    try {
+      const fullReason = details.trim() ? `${reason}: ${details.trim()}` : reason;
+      const result = await cancelOrder(orderId, fullReason);
+
+      if (result.refundStatus === 'succeeded') {
+        showSuccessToast('Order cancelled and your payment has been refunded');
+      } else if (result.refund_id) {
+        showSuccessToast('Order cancelled. Your refund is being processed');
+      } else {
+        showSuccessToast('Order cancelled');
+      }
+
+      onCancelled?.(result);
+      onClose();
+    } catch (error: any) {
+      console.error('Error cancelling order:', error);
+      showErrorToast(error.message || 'Failed to cancel order');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose}>
+      <div className="bg-white p-6">
+        <div className="flex items-start justify-between mb-4">
+          <div>
+            <h3 className="text-lg font-semibold text-black">Cancel order</h3>
+            <p className="text-sm text-gray-500 mt-1">{orderNumber}</p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-black">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-black mb-2">Reason</label>
+            <select
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              className="w-full px-4 py-2.5 border border-gray-300 rounded-lg hover:border-gray-500 focus:outline-none focus:ring-2 focus:ring-gray-500 focus:border-gray-500"
+            >
+              {CANCEL_REASONS.map(option => (
+                <option key={option} value={option}>{option}</option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-black mb-2">Anything else? (optional)</label>
+            <textarea
+              rows={3}
+              value={details}
+              onChange={(e) => setDetails(e.target.value)}
+              maxLength={500}
+              className="w-full px-4 py-2.5 border border-gray-300 rounded-lg hover:border-gray-500 focus:outline-none focus:ring-2 focus:ring-gray-500 focus:border-gray-500 placeholder:text-gray-500"
+            />
+          </div>
+
+          <p className="text-xs text-gray-500">
+            {isPaid
+              ? 'Your items go back into stock and the amount you paid is refunded to your original payment method.'
+              : 'Your items go back into stock. Nothing has been charged for this order.'}
+          </p>
+
+          <div className="flex justify-end space-x-3 pt-2">
+            <Button type="button" variant="outline" onClick={onClose}>
+              Keep Order
+            </Button>
+            <Button type="button" onClick={handleCancel} loading={submitting}>
+              Cancel Order
+            </Button>
+          </div>
+        </div>
+      </div>
+    </Modal>
+  );
+};
+
+export default CancelOrderModal;
@@ -0,0 +1,334 @@
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { X, Upload } from 'lucide-react';
+import Modal from '../ui/Modal';
+import Button from '../ui/Button';
+import { showSuccessToast, showErrorToast } from '../ui/CustomToast';
+import { supabase } from '../../lib/supabase';
+import { createReturnRequest, uploadReturnPhotos } from '../../services/returnService';
+import {
+  RETURN_REASONS,
+  ReturnLineInput,
+  ReturnReasonCode,
+  ReturnRequest,
+  ReturnRequestType
+} from '../../types/return';
+
+const MAX_PHOTOS = 5;
+const MAX_PHOTO_SIZE = 5 * 1024 * 1024;
+
+export interface ReturnableLine {
+  id: string;
+  product_title: string;
+  product_id: string | null;
+  product_variant_id: string;
+  size: string | null;
+  color: string | null;
+  // Units not refunded yet and not in another open request
+  returnable: number;
+}
+
+interface VariantOption {
+  id: string;
+  product_id: string;
+  size: string | null;
+  color: string | null;
+}
+
+interface LineSelection {
+  quantity: number;
+  reason_code: ReturnReasonCode;
+  exchange_variant_id: string;
+}
+
+interface ReturnRequestFormProps {
+  isOpen: boolean;
+  onClose: () => void;
+  userId: string;
+  orderId: string;
+  orderNumber: string;
+  lines: ReturnableLine[];
+  windowDays: number;
+  onSubmitted?: (request: ReturnRequest) => void;
+}
+
+const ReturnRequestForm = ({
+  isOpen,
+  onClose,
+  userId,
+  orderId,
+  orderNumber,
+  lines,
+  windowDays,
+  onSubmitted
+}: ReturnRequestFormProps) => {
+  const [type, setType] = useState<ReturnRequestType>('return');
+  const [selections, setSelections] = useState<Record<string, LineSelection>>({});
+  const [variants, setVariants] = useState<VariantOption[]>([]);
+  const [note, setNote] = useState('');
+  const [photos, setPhotos] = useState<File[]>([]);
+  const [submitting, setSubmitting] = useState(false);
+
+  const productIdsKey = Array.from(new Set(
+    lines.map(line => line.product_id).filter((id): id is string => !!id)
+  )).join(',');
+
+  // Sizes and colours in stock, offered as exchanges
+  useEffect(() => {
+    if (!isOpen || type !== 'exchange' || !productIdsKey) return;
+
+    supabase
+      .from('product_variants')
+      .select('id, product_id, size, color')
+      .in('product_id', productIdsKey.split(','))
+      .eq('is_active', true)
+      .gt('stock', 0)
+      .then(({ data, error }) => {
+        if (error) {
+          console.error('Error fetching exchange sizes:', error);
+          return;
+        }
+        setVariants(data || []);
+      });
+  }, [isOpen, type, productIdsKey]);
+
+  const toggleLine = (line: ReturnableLine) => {
+    setSelections(prev => {
+      const next = { ...prev };
+      if (next[line.id]) {
+        delete next[line.id];
+      } else {
+        next[line.id] = { quantity: 1, reason_code: 'wrong_size', exchange_variant_id: '' };
+      }
+      return next;
+    });
+  };
+
+  const updateLine = (lineId: string, changes: Partial<LineSelection>) => {
+    setSelections(prev => ({ ...prev, [lineId]: { ...prev[lineId], ...changes } }));
+  };
+
+  const handlePhotoChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    const valid = files.filter(file => {
+      if (!file.type.startsWith('image/')) {
+        showErrorToast(`${file.name} is not an image`);
+        return false;
+      }
+      if (file.size > MAX_PHOTO_SIZE) {
+        showErrorToast(`${file.name} is larger than 5MB`);
+        return false;
+      }
+      return true;
+    });
+
+    setPhotos(prev => [...prev, ...valid].slice(0, MAX_PHOTOS));
+    e.target.value = '';
+  };
+
+  const handleSubmit = async () => {
+    const selected: ReturnLineInput[] = Object.entries(selections).map(([orderItemId, selection]) => ({
+      order_item_id: orderItemId,
+      quantity: selection.quantity,
+      reason_code: selection.reason_code,
+      exchange_variant_id: type === 'exchange' ? selection.exchange_variant_id || null : null,
+    }));
+
+    if (selected.length === 0) {
+      showErrorToast('Select at least one item');
+      return;
+    }
+
+    if (type === 'exchange' && selected.some(line => !line.exchange_variant_id)) {
+      showErrorToast('Choose the size you want for each exchanged item');
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      const request = await createReturnRequest(orderId, type, selected, note.trim());
+
+      if (photos.length > 0) {
+        try {
+          await uploadReturnPhotos(userId, request.id, photos);
+        } catch (uploadError) {
+          console.error('Error uploading return photos:', uploadError);
+          showErrorToast('Your request was sent but some photos could not be uploaded');
+        }
+      }
+
+      showSuccessToast(`Request ${request.rma_number} sent. We'll be in touch soon`);
+      onSubmitted?.(request);
+      onClose();
+    } catch (error) {
+      console.error('Error creating return request:', error);
+      showErrorToast(error instanceof Error ? error.message : 'Failed to send return request');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} size="lg">
+      <div className="bg-white p-6">
+        <div className="flex items-start justify-between mb-4">
+          <div>
+            <h3 className="text-lg font-semibold text-black">Return or exchange</h3>
+            <p className="text-sm text-gray-500 mt-1">{orderNumber}</p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-black">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-2">
+            {(['return', 'exchange'] as ReturnRequestType[]).map(option => (
+              <button
+                key={option}
+                type="button"
+                onClick={() => setType(option)}
+                className={`px-4 py-2 text-sm font-medium border ${
+                  type === option ? 'border-black bg-black text-white' : 'border-gray-300 text-black hover:border-black'
+                }`}
+              >
+                {option === 'return' ? 'Return for refund' : 'Exchange for another size'}
+              </button>
+            ))}
+          </div>
+
+          <div className="border border-gray-200 divide-y divide-gray-200">
+            {lines.map(line => {
+              const selection = selections[line.id];
+              const exchangeOptions = variants.filter(variant =>
+                variant.product_id === line.product_id && variant.id !== line.product_variant_id
+              );
+
+              return (
+                <div key={line.id} className="p-3">
+                  <label className="flex items-center gap-3">
+                    <input
+                      type="checkbox"
+                      checked={!!selection}
+                      disabled={line.returnable === 0}
+                      onChange={() => toggleLine(line)}
+                      className="h-4 w-4 border-gray-300"
+                    />
+                    <div className="flex-1">
+                      <p className="text-sm font-medium text-black">{line.product_title}</p>
+                      <p className="text-xs text-gray-500">
+                        {[line.color, line.size && `Size ${line.size}`].filter(Boolean).join(' • ')}
+                        {line.returnable === 0 ? ' • Already returned' : ` • ${line.returnable} returnable`}
+                      </p>
+                    </div>
+                  </label>
+
+                  {selection && (
+                    <div className="grid grid-cols-1 sm:grid-cols-3 gap-2 mt-3 pl-7">
+                      <select
+                        value={selection.quantity}
+                        onChange={(e) => updateLine(line.id, { quantity: Number(e.target.value) })}
+                        className="px-3 py-2 text-sm border border-gray-300 focus:outline-none focus:border-black"
+                      >
+                        {Array.from({ length: line.returnable }, (_, i) => i + 1).map(quantity => (
+                          <option key={quantity} value={quantity}>Qty {quantity}</option>
+                        ))}
+                      </select>
+                      <select
+                        value={selection.reason_code}
+                        onChange={(e) => updateLine(line.id, { reason_code: e.target.value as ReturnReasonCode })}
+                        className="px-3 py-2 text-sm border border-gray-300 focus:outline-none focus:border-black"
+                      >
+                        {Object.entries(RETURN_REASONS).map(([code, label]) => (
+                          <option key={code} value={code}>{label}</option>
+                        ))}
+                      </select>
+                      {type === 'exchange' && (
+                        <select
+                          value={selection.exchange_variant_id}
+                          onChange={(e) => updateLine(line.id, { exchange_variant_id: e.target.value })}
+                          className="px-3 py-2 text-sm border border-gray-300 focus:outline-none focus:border-black"
+                        >
+                          <option value="">
+                            {exchangeOptions.length > 0 ? 'Exchange for...' : 'No other sizes in stock'}
+                          </option>
+                          {exchangeOptions.map(variant => (
+                            <option key={variant.id} value={variant.id}>
+                              {[variant.color, variant.size && `Size ${variant.size}`].filter(Boolean).join(' • ')}
+                            </option>
+                          ))}
+                        </select>
+                      )}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-black mb-2">Details (optional)</label>
+            <textarea
+              rows={3}
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              maxLength={1000}
+              placeholder="Tell us what went wrong"
+              className="w-full px-4 py-2.5 border border-gray-300 rounded-lg hover:border-gray-500 focus:outline-none focus:ring-2 focus:ring-gray-500 focus:border-gray-500 placeholder:text-gray-500"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-black mb-2">
+              Photos (optional, up to {MAX_PHOTOS})
+            </label>
+            <label className="flex items-center justify-center gap-2 px-4 py-3 border border-dashed border-gray-300 text-sm text-gray-600 cursor-pointer hover:border-black">
+              <Upload className="w-4 h-4" />
+              Add photos
+              <input
+                type="file"
+                accept="image/*"
+                multiple
+                onChange={handlePhotoChange}
+                disabled={photos.length >= MAX_PHOTOS}
+                className="hidden"
+              />
+            </label>
+            {photos.length > 0 && (
+              <ul className="mt-2 space-y-1">
+                {photos.map((photo, index) => (
+                  <li key={`${photo.name}-${index}`} className="flex items-center justify-between text-xs text-gray-600">
+                    <span className="truncate">{photo.name}</span>
+                    <button
+                      type="button"
+                      onClick={() => setPhotos(prev => prev.filter((_, i) => i !== index))}
+                      className="text-gray-400 hover:text-black"
+                    >
+                      <X size={14} />
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          <p className="text-xs text-gray-500">
+            Items can be returned within {windowDays} days of delivery, unworn and with their original tags.
+            See our <Link to="/refund-policy" className="underline hover:text-black">refund policy</Link> for details.
+          </p>
+
+          <div className="flex justify-end space-x-3 pt-2">
+            <Button type="button" variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button type="button" onClick={handleSubmit} loading={submitting}>
+              Send Request
+            </Button>
+          </div>
+        </div>
+      </div>
+    </Modal>
+  );
+};
+
+export default ReturnRequestForm;
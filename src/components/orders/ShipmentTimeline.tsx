@@ -0,0 +1,126 @@
+import { CheckCircle, Circle, ExternalLink, Truck } from 'lucide-react';
+import { SHIPMENT_STATUS_LABELS, Shipment } from '../../types/shipment';
+
+interface ShipmentTimelineProps {
+  shipments: Shipment[];
+  // Names the order lines in each parcel; only shown when the order was split
+  itemTitle?: (orderItemId: string) => string;
+  // One line per shipment with its latest update, for the orders list
+  compact?: boolean;
+}
+
+const newestFirst = (shipment: Shipment) =>
+  (shipment.shipment_events || [])
+    .slice()
+    .sort((a, b) => new Date(b.occurred_at).getTime() - new Date(a.occurred_at).getTime());
+
+const TrackingLink = ({ shipment }: { shipment: Shipment }) => {
+  if (!shipment.tracking_url) return null;
+
+  return (
+    <a
+      href={shipment.tracking_url}
+      target="_blank"
+      rel="noopener noreferrer"
+      className="inline-flex items-center text-xs font-medium text-black hover:underline"
+    >
+      Track with {shipment.couriers?.name || 'courier'}
+      <ExternalLink className="w-3 h-3 ml-1" />
+    </a>
+  );
+};
+
+const ShipmentTimeline = ({ shipments, itemTitle, compact = false }: ShipmentTimelineProps) => {
+  const visible = shipments.filter(shipment => shipment.status !== 'cancelled');
+  if (visible.length === 0) return null;
+
+  const isSplit = visible.length > 1;
+
+  if (compact) {
+    return (
+      <div className="space-y-1">
+        {visible.map((shipment, index) => {
+          const latest = newestFirst(shipment)[0];
+          return (
+            <div key={shipment.id} className="flex flex-wrap items-center gap-x-2 text-xs text-gray-600">
+              <Truck className="w-3 h-3 flex-shrink-0" />
+              <span className="font-medium text-gray-900">
+                {isSplit ? `Parcel ${index + 1}: ` : ''}{SHIPMENT_STATUS_LABELS[shipment.status]}
+              </span>
+              {latest && (
+                <span>
+                  {latest.description} · {new Date(latest.occurred_at).toLocaleDateString()}
+                </span>
+              )}
+              <TrackingLink shipment={shipment} />
+            </div>
+          );
+        })}
+      </div>
+    );
+  }
+
+  return (
+    <div className="divide-y divide-gray-200">
+      {visible.map((shipment, index) => (
+        <div key={shipment.id} className="p-4">
+          <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-2 mb-3">
+            <div>
+              <p className="text-sm font-medium text-black">
+                {isSplit ? `Parcel ${index + 1} of ${visible.length}` : 'Your parcel'}
+                {' · '}
+                {shipment.couriers?.name || shipment.courier_code}
+              </p>
+              {shipment.tracking_number && (
+                <p className="text-xs text-gray-500 mt-1">Tracking number: {shipment.tracking_number}</p>
+              )}
+              {isSplit && itemTitle && (
+                <p className="text-xs text-gray-500">
+                  {(shipment.shipment_items || []).map(item => `${item.quantity} × ${itemTitle(item.order_item_id)}`).join(', ')}
+                </p>
+              )}
+            </div>
+            <div className="flex flex-col items-start sm:items-end gap-1">
+              <span className={`px-2 py-1 text-xs font-medium border ${
+                shipment.status === 'delivered'
+                  ? 'border-black bg-black text-white'
+                  : 'border-gray-400 bg-white text-gray-600'
+              }`}>
+                {SHIPMENT_STATUS_LABELS[shipment.status].toUpperCase()}
+              </span>
+              <TrackingLink shipment={shipment} />
+            </div>
+          </div>
+
+          <ol className="space-y-3">
+            {newestFirst(shipment).map((event, eventIndex) => (
+              <li key={event.id} className="flex items-start">
+                {eventIndex === 0 ? (
+                  <CheckCircle className="w-4 h-4 mr-2 mt-0.5 text-black flex-shrink-0" />
+                ) : (
+                  <Circle className="w-4 h-4 mr-2 mt-0.5 text-gray-300 flex-shrink-0" />
+                )}
+                <div>
+                  <p className={`text-sm ${eventIndex === 0 ? 'text-black font-medium' : 'text-gray-600'}`}>
+                    {event.description}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {new Date(event.occurred_at).toLocaleString([], {
+                      day: 'numeric',
+                      month: 'short',
+                      hour: '2-digit',
+                      minute: '2-digit',
+                    })}
+                    {event.location && ` · ${event.location}`}
+                  </p>
+                </div>
+              </li>
+            ))}
+          </ol>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default ShipmentTimeline;
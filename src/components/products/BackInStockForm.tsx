@@ -0,0 +1,81 @@
+import { FormEvent, useEffect, useState } from 'react';
+import { Bell, Check } from 'lucide-react';
+import Button from '../ui/Button';
+import Input from '../ui/Input';
+import { showErrorToast } from '../ui/CustomToast';
+import { requestStockNotification } from '../../services/stockNotificationService';
+
+interface BackInStockFormProps {
+  variantId: string;
+  isLoggedIn: boolean;
+}
+
+const BackInStockForm = ({ variantId, isLoggedIn }: BackInStockFormProps) => {
+  const [email, setEmail] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [subscribedEmail, setSubscribedEmail] = useState<string | null>(null);
+
+  // Each sold-out size or colour gets its own alert
+  useEffect(() => {
+    setSubscribedEmail(null);
+  }, [variantId]);
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+
+    if (!isLoggedIn && !/\S+@\S+\.\S+/.test(email)) {
+      showErrorToast('Please enter a valid email address');
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      const result = await requestStockNotification(variantId, isLoggedIn ? undefined : email.trim());
+      setSubscribedEmail(result.email);
+    } catch (error: any) {
+      showErrorToast(error.message || 'Failed to set up the stock alert');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (subscribedEmail) {
+    return (
+      <div className="flex items-start space-x-2 p-3 sm:p-4 bg-gray-50 border border-slate-200 rounded">
+        <Check size={16} className="text-black mt-0.5 flex-shrink-0" />
+        <p className="text-sm text-slate-700">
+          We'll email <span className="font-medium">{subscribedEmail}</span> as soon as this is back in stock.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="p-3 sm:p-4 bg-gray-50 border border-slate-200 rounded space-y-3">
+      <div className="flex items-center space-x-2">
+        <Bell size={16} className="text-black" />
+        <p className="text-sm font-medium text-slate-900">Sold out. Get an email when it's back.</p>
+      </div>
+      <div className="flex flex-col sm:flex-row gap-2">
+        {!isLoggedIn && (
+          <Input
+            type="email"
+            placeholder="Your email address"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+          />
+        )}
+        <Button
+          type="submit"
+          variant="outline"
+          loading={submitting}
+          className="min-h-[44px] whitespace-nowrap text-sm"
+        >
+          Notify Me
+        </Button>
+      </div>
+    </form>
+  );
+};
+
+export default BackInStockForm;
@@ -4,13 +4,14 @@ import { X, ChevronDown, ChevronUp } from 'lucide-react';
 import Button from '../ui/Button';
 import Input from '../ui/Input';
 import ColorSelector from '../ui/ColorSelector';
+import StarRating from '../reviews/StarRating';
 import { getAvailableColors } from '../../services/colorService';
-
-interface Category {
-  id: string;
-  slug: string;
-  name: string;
-}
+import { CatalogFacets, FacetCount } from '../../types/catalog';
+import { useSizePreferenceStore } from '../../stores/sizePreferenceStore';
+import { MySize, SIZE_SYSTEMS, compareSizes, formatMySize, formatSize, isMySize } from '../../utils/sizeChart';
+import MySizePicker from './MySizePicker';
+import { Category } from '../../types/category';
+import { buildCategoryTree, categoryPath, flattenCategoryTree } from '../../utils/categoryTree';
 
 interface PriceRange {
   min: string;
@@ -27,6 +28,22 @@ interface FiltersSidebarProps {
   setPriceRange: (priceRange: PriceRange) => void;
   selectedColors: string[];
   handleColorToggle: (color: string) => void;
+  selectedBrands: string[];
+  handleBrandToggle: (brand: string) => void;
+  selectedSizes: string[];
+  handleSizeToggle: (size: string) => void;
+  // Pre-filter on the saved size while no sizes are picked
+  useMySize: boolean;
+  setUseMySize: (enabled: boolean) => void;
+  selectedCollection: string;
+  setSelectedCollection: (collection: string) => void;
+  inStockOnly: boolean;
+  setInStockOnly: (inStock: boolean) => void;
+  facets: CatalogFacets;
+  // Hidden on brand pages, which are locked to one brand
+  showBrands?: boolean;
+  minRating: string;
+  setMinRating: (rating: string) => void;
   searchQuery: string;
   setSearchQuery: (query: string) => void;
   clearFilters: () => void;
@@ -36,6 +53,15 @@ interface FiltersSidebarProps {
 // Get available colors from color service
 const AVAILABLE_COLORS = getAvailableColors().map(color => color.name);
 
+const RATING_OPTIONS = [4, 3, 2, 1];
+
+const facetCount = (counts: FacetCount[], value: string) =>
+  counts.find(facet => facet.value === value)?.count ?? 0;
+
+const CountBadge = ({ count }: { count: number }) => (
+  <span className="ml-auto text-xs text-gray-500">{count}</span>
+);
+
 const ExpandableSection = ({ isExpanded, onToggle, title, activeCount, children }: {
   isExpanded: boolean;
   onToggle: () => void;
@@ -96,6 +122,20 @@ const FiltersSidebar: React.FC<FiltersSidebarProps> = ({
   setPriceRange,
   selectedColors,
   handleColorToggle,
+  selectedBrands,
+  handleBrandToggle,
+  selectedSizes,
+  handleSizeToggle,
+  useMySize,
+  setUseMySize,
+  selectedCollection,
+  setSelectedCollection,
+  inStockOnly,
+  setInStockOnly,
+  facets,
+  showBrands = true,
+  minRating,
+  setMinRating,
   searchQuery,
   setSearchQuery,
   clearFilters,
@@ -103,8 +143,40 @@ const FiltersSidebar: React.FC<FiltersSidebarProps> = ({
 }) => {
   const [searchExpanded, setSearchExpanded] = useState(true);
   const [categoryExpanded, setCategoryExpanded] = useState(true);
+  const [brandExpanded, setBrandExpanded] = useState(true);
+  const [collectionExpanded, setCollectionExpanded] = useState(false);
   const [priceExpanded, setPriceExpanded] = useState(true);
+  const [sizeExpanded, setSizeExpanded] = useState(true);
   const [colorExpanded, setColorExpanded] = useState(false);
+  const [availabilityExpanded, setAvailabilityExpanded] = useState(false);
+  const [ratingExpanded, setRatingExpanded] = useState(false);
+
+  // Colours with nothing left to show can't be picked unless already selected
+  const unavailableColors = AVAILABLE_COLORS.filter(color =>
+    !selectedColors.includes(color) && facetCount(facets.colors, color.toLowerCase()) === 0
+  );
+  // Category counts include subcategories, so only top-level ones add up
+  const categoryTotal = categories
+    .filter(category => !category.parent_id)
+    .reduce((sum, category) => sum + facetCount(facets.categories, category.slug), 0);
+  // Top-level categories, plus the subcategories of whatever is picked
+  const openCategoryIds = new Set(categoryPath(categories, selectedCategory).map(category => category.id));
+  const visibleCategories = flattenCategoryTree(buildCategoryTree(categories)).filter(category =>
+    category.depth === 0 || (category.parent_id && openCategoryIds.has(category.parent_id))
+  );
+  const { mySize, displaySystem, setMySize, setDisplaySystem } = useSizePreferenceStore();
+  const sortedSizes = [...facets.sizes].sort((a, b) => compareSizes(a.value, b.value));
+  const mySizeApplied = !!mySize && useMySize && selectedSizes.length === 0;
+
+  const handleSaveMySize = async (size: MySize) => {
+    try {
+      await setMySize(size);
+      setUseMySize(true);
+    } catch (error) {
+      console.error('Error saving size preference:', error);
+    }
+  };
+
   return (
     <AnimatePresence>
       {isOpen && (
@@ -173,9 +245,14 @@ const FiltersSidebar: React.FC<FiltersSidebarProps> = ({
                       className="text-black focus:ring-black"
                     />
                     <span className="ml-3 text-sm text-gray-700">All Categories</span>
+                    <CountBadge count={categoryTotal} />
                   </label>
-                  {categories.map((category) => (
-                    <label key={category.id} className="flex items-center">
+                  {visibleCategories.map((category) => (
+                    <label
+                      key={category.id}
+                      className="flex items-center"
+                      style={{ paddingLeft: `${category.depth * 16}px` }}
+                    >
                       <input
                         type="radio"
                         name="category"
@@ -184,11 +261,73 @@ const FiltersSidebar: React.FC<FiltersSidebarProps> = ({
                         className="text-black focus:ring-black"
                       />
                       <span className="ml-3 text-sm text-gray-700">{category.name}</span>
+                      <CountBadge count={facetCount(facets.categories, category.slug)} />
                     </label>
                   ))}
                 </div>
               </ExpandableSection>
 
+              {/* Brand */}
+              {showBrands && facets.brands.length > 0 && (
+                <ExpandableSection
+                  isExpanded={brandExpanded}
+                  onToggle={() => setBrandExpanded(!brandExpanded)}
+                  title="Brand"
+                  activeCount={selectedBrands.length}
+                >
+                  <div className="space-y-2">
+                    {facets.brands.map((brand) => (
+                      <label key={brand.value} className="flex items-center">
+                        <input
+                          type="checkbox"
+                          checked={selectedBrands.includes(brand.value)}
+                          onChange={() => handleBrandToggle(brand.value)}
+                          className="text-black focus:ring-black"
+                        />
+                        <span className="ml-3 text-sm text-gray-700">{brand.label}</span>
+                        <CountBadge count={brand.count} />
+                      </label>
+                    ))}
+                  </div>
+                </ExpandableSection>
+              )}
+
+              {/* Collection */}
+              {(facets.collections.length > 0 || selectedCollection) && (
+                <ExpandableSection
+                  isExpanded={collectionExpanded}
+                  onToggle={() => setCollectionExpanded(!collectionExpanded)}
+                  title="Collection"
+                  activeCount={selectedCollection ? 1 : 0}
+                >
+                  <div className="space-y-2">
+                    <label className="flex items-center">
+                      <input
+                        type="radio"
+                        name="collection"
+                        checked={selectedCollection === ''}
+                        onChange={() => setSelectedCollection('')}
+                        className="text-black focus:ring-black"
+                      />
+                      <span className="ml-3 text-sm text-gray-700">All Collections</span>
+                    </label>
+                    {facets.collections.map((collection) => (
+                      <label key={collection.value} className="flex items-center">
+                        <input
+                          type="radio"
+                          name="collection"
+                          checked={selectedCollection === collection.value}
+                          onChange={() => setSelectedCollection(collection.value)}
+                          className="text-black focus:ring-black"
+                        />
+                        <span className="ml-3 text-sm text-gray-700">{collection.label}</span>
+                        <CountBadge count={collection.count} />
+                      </label>
+                    ))}
+                  </div>
+                </ExpandableSection>
+              )}
+
               {/* Price Range */}
               <ExpandableSection
                 isExpanded={priceExpanded}
@@ -210,8 +349,82 @@ const FiltersSidebar: React.FC<FiltersSidebarProps> = ({
                     onChange={(e) => setPriceRange({ ...priceRange, max: e.target.value })}
                   />
                 </div>
+                {facets.price.min !== null && facets.price.max !== null && (
+                  <p className="mt-2 text-xs text-gray-500">
+                    From LKR {Number(facets.price.min).toLocaleString()} to LKR {Number(facets.price.max).toLocaleString()}
+                  </p>
+                )}
               </ExpandableSection>
 
+              {/* Size */}
+              <ExpandableSection
+                isExpanded={sizeExpanded}
+                onToggle={() => setSizeExpanded(!sizeExpanded)}
+                title="Size"
+                activeCount={selectedSizes.length || (mySizeApplied ? 1 : 0)}
+              >
+                <div className="space-y-3">
+                  <div className="flex border border-gray-300 w-fit">
+                    {SIZE_SYSTEMS.map((system) => (
+                      <button
+                        key={system}
+                        onClick={() => setDisplaySystem(system)}
+                        className={`px-3 py-1 text-xs font-medium transition-colors ${
+                          displaySystem === system ? 'bg-black text-white' : 'text-gray-700 hover:bg-gray-100'
+                        }`}
+                      >
+                        {system.toUpperCase()}
+                      </button>
+                    ))}
+                  </div>
+
+                  {mySize ? (
+                    <label className="flex items-center">
+                      <input
+                        type="checkbox"
+                        checked={useMySize}
+                        onChange={(e) => setUseMySize(e.target.checked)}
+                        className="text-black focus:ring-black"
+                      />
+                      <span className="ml-3 text-sm text-gray-700">
+                        Only my size ({formatMySize(mySize)})
+                      </span>
+                    </label>
+                  ) : (
+                    <div className="space-y-2">
+                      <p className="text-xs text-gray-500">Save your size to see what fits first</p>
+                      <MySizePicker value={null} onChange={handleSaveMySize} />
+                    </div>
+                  )}
+                  {mySize && useMySize && selectedSizes.length > 0 && (
+                    <p className="text-xs text-gray-500">Showing the sizes you picked instead of your saved size</p>
+                  )}
+
+                  {sortedSizes.length > 0 && (
+                    <div className="grid grid-cols-4 gap-2">
+                      {sortedSizes.map((size) => {
+                        const isSelected = selectedSizes.includes(size.value);
+                        return (
+                          <button
+                            key={size.value}
+                            onClick={() => handleSizeToggle(size.value)}
+                            className={`border px-2 py-2 text-sm transition-colors ${
+                              isSelected
+                                ? 'border-black bg-black text-white'
+                                : isMySize(size.value, mySize)
+                                ? 'border-black text-black font-semibold'
+                                : 'border-gray-300 text-gray-700 hover:border-black'
+                            }`}
+                            title={`${size.count} products`}
+                          >
+                            {formatSize(size.value, displaySystem, mySize?.chart)}
+                          </button>
+                        );
+                      })}
+                    </div>
+                  )}
+                </div>
+              </ExpandableSection>
 
               {/* Color */}
               <ExpandableSection
@@ -224,6 +437,7 @@ const FiltersSidebar: React.FC<FiltersSidebarProps> = ({
                   colors={AVAILABLE_COLORS}
                   selectedColors={selectedColors}
                   onColorSelect={handleColorToggle}
+                  disabledColors={unavailableColors}
                   multiple={true}
                   size="md"
                   showNames={true}
@@ -231,6 +445,60 @@ const FiltersSidebar: React.FC<FiltersSidebarProps> = ({
                 />
               </ExpandableSection>
 
+              {/* Availability */}
+              <ExpandableSection
+                isExpanded={availabilityExpanded}
+                onToggle={() => setAvailabilityExpanded(!availabilityExpanded)}
+                title="Availability"
+                activeCount={inStockOnly ? 1 : 0}
+              >
+                <label className="flex items-center">
+                  <input
+                    type="checkbox"
+                    checked={inStockOnly}
+                    onChange={(e) => setInStockOnly(e.target.checked)}
+                    className="text-black focus:ring-black"
+                  />
+                  <span className="ml-3 text-sm text-gray-700">In stock only</span>
+                  <CountBadge count={facets.in_stock} />
+                </label>
+              </ExpandableSection>
+
+              {/* Rating */}
+              <ExpandableSection
+                isExpanded={ratingExpanded}
+                onToggle={() => setRatingExpanded(!ratingExpanded)}
+                title="Customer Rating"
+                activeCount={minRating ? 1 : 0}
+              >
+                <div className="space-y-2">
+                  <label className="flex items-center">
+                    <input
+                      type="radio"
+                      name="rating"
+                      checked={minRating === ''}
+                      onChange={() => setMinRating('')}
+                      className="text-black focus:ring-black"
+                    />
+                    <span className="ml-3 text-sm text-gray-700">Any Rating</span>
+                  </label>
+                  {RATING_OPTIONS.map((rating) => (
+                    <label key={rating} className="flex items-center">
+                      <input
+                        type="radio"
+                        name="rating"
+                        checked={minRating === String(rating)}
+                        onChange={() => setMinRating(String(rating))}
+                        className="text-black focus:ring-black"
+                      />
+                      <StarRating rating={rating} size={14} className="ml-3" />
+                      <span className="ml-2 text-sm text-gray-700">&amp; up</span>
+                      <CountBadge count={facetCount(facets.ratings, String(rating))} />
+                    </label>
+                  ))}
+                </div>
+              </ExpandableSection>
+
                 {/* Clear Filters */}
                 {activeFilterCount > 0 && (
                   <div className="pt-4 border-t border-gray-200">
@@ -0,0 +1,71 @@
+import { useEffect, useState } from 'react';
+import {
+  MySize,
+  SIZE_CHART_LABELS,
+  SIZE_CHARTS,
+  SIZE_SYSTEMS,
+  SizeChartId,
+  SizeSystem
+} from '../../utils/sizeChart';
+
+interface MySizePickerProps {
+  value: MySize | null;
+  onChange: (mySize: MySize) => void;
+  selectClassName?: string;
+}
+
+const DEFAULT_SELECT_CLASS = 'w-full px-2 py-2 border border-gray-300 bg-white text-sm text-black focus:outline-none focus:ring-2 focus:ring-black';
+
+// Chart, system and size selects; reports a size once all three are picked
+const MySizePicker = ({ value, onChange, selectClassName = DEFAULT_SELECT_CLASS }: MySizePickerProps) => {
+  const [chart, setChart] = useState<SizeChartId>(value?.chart || 'men');
+  const [system, setSystem] = useState<SizeSystem>(value?.system || 'eu');
+
+  useEffect(() => {
+    if (value) {
+      setChart(value.chart);
+      setSystem(value.system);
+    }
+  }, [value]);
+
+  const sizes = SIZE_CHARTS[chart].map(row => row[system]);
+  const selectedSize = value && value.chart === chart && value.system === system ? value.size : '';
+
+  return (
+    <div className="grid grid-cols-3 gap-2">
+      <select
+        value={chart}
+        onChange={(e) => setChart(e.target.value as SizeChartId)}
+        className={selectClassName}
+        aria-label="Size chart"
+      >
+        {(Object.keys(SIZE_CHART_LABELS) as SizeChartId[]).map(id => (
+          <option key={id} value={id}>{SIZE_CHART_LABELS[id]}</option>
+        ))}
+      </select>
+      <select
+        value={system}
+        onChange={(e) => setSystem(e.target.value as SizeSystem)}
+        className={selectClassName}
+        aria-label="Size system"
+      >
+        {SIZE_SYSTEMS.map(option => (
+          <option key={option} value={option}>{option.toUpperCase()}</option>
+        ))}
+      </select>
+      <select
+        value={selectedSize}
+        onChange={(e) => e.target.value && onChange({ chart, system, size: e.target.value })}
+        className={selectClassName}
+        aria-label="Size"
+      >
+        <option value="">Size</option>
+        {sizes.map(size => (
+          <option key={size} value={size}>{size}</option>
+        ))}
+      </select>
+    </div>
+  );
+};
+
+export default MySizePicker;
@@ -7,32 +7,25 @@ import { useWishlistStore } from '../../stores/wishlistStore';
 import { useCartStore } from '../../stores/cartStore';
 import Button from '../ui/Button';
 import ColorSelector from '../ui/ColorSelector';
+import StarRating from '../reviews/StarRating';
 import { showSuccessToast, showErrorToast } from '../ui/CustomToast';
 import { getColorInfo } from '../../services/colorService';
+import HighlightedText from '../search/HighlightedText';
+import { useSizePreferenceStore } from '../../stores/sizePreferenceStore';
+import { compareSizes, convertSize, isMySize } from '../../utils/sizeChart';
 import { supabase } from '../../lib/supabase';
+import { ProductCardItem } from '../../types/product';
 
 interface ProductCardProps {
-  product: {
-    id: string;
-    title: string;
-    slug?: string;
-    brand?: string;
-    price: number;
-    image?: string;
-    images?: string[];
-    rating?: number;
-    reviewCount?: number;
-    featured?: boolean;
-    variants?: Array<{
-      id: string;
-      size: string;
-      color: string;
-      stock: number;
-    }>;
-  };
+  product: ProductCardItem;
+  // Search query to highlight in the title
+  highlight?: string;
 }
 
-const ProductCard = ({ product }: ProductCardProps) => {
+// Size chips shown under the price before collapsing into "+N"
+const MAX_SIZE_CHIPS = 6;
+
+const ProductCard = ({ product, highlight }: ProductCardProps) => {
   const { user } = useAuth();
   const { isInWishlist, addToWishlist, removeFromWishlist } = useWishlistStore();
   const { addItem, items } = useCartStore();
@@ -60,6 +53,15 @@ const ProductCard = ({ product }: ProductCardProps) => {
   const availableColors = hasVariants ? [...new Set(product.variants.map(v => v.color).filter(Boolean))] : [];
 
   const hasSize = availableSizes.length > 0;
+
+  // Which sizes are left, in the shopper's size system
+  const { mySize, displaySystem } = useSizePreferenceStore();
+  const sizeChips = [...availableSizes].sort(compareSizes).map(size => ({
+    size,
+    label: convertSize(size, displaySystem, mySize?.chart) || size,
+    inStock: product.variants!.some(v => v.size === size && v.stock > 0),
+    mine: isMySize(size, mySize),
+  }));
   const hasColor = availableColors.length > 0;
 
   // Determine variant scenario
@@ -302,16 +304,48 @@ const ProductCard = ({ product }: ProductCardProps) => {
             <p className="text-xs text-gray-500 mb-1">{product.brand}</p>
           )}
           <h3 className="font-medium text-sm text-black mb-1.5 line-clamp-2 group-hover:text-gray-700 transition-colors">
-            {product.title}
+            <HighlightedText text={product.title} query={highlight} />
           </h3>
         </Link>
 
+        {!!product.rating && !!product.reviewCount && (
+          <div className="flex items-center space-x-1 mb-1.5">
+            <StarRating rating={product.rating} size={12} />
+            <span className="text-xs text-gray-500">({product.reviewCount})</span>
+          </div>
+        )}
+
         <div className="mb-1.5">
           <p className="text-sm font-semibold text-black">
             LKR {product.price.toLocaleString()}
           </p>
         </div>
 
+        {sizeChips.length > 0 && (
+          <div className="flex flex-wrap gap-1 mt-2" aria-label="Sizes in stock">
+            {sizeChips.slice(0, MAX_SIZE_CHIPS).map(chip => (
+              <span
+                key={chip.size}
+                className={`px-1.5 py-0.5 text-[10px] leading-none border ${
+                  !chip.inStock
+                    ? 'border-gray-200 text-gray-300 line-through'
+                    : chip.mine
+                    ? 'border-black bg-black text-white'
+                    : 'border-gray-300 text-gray-700'
+                }`}
+                title={chip.inStock ? `${displaySystem.toUpperCase()} ${chip.label} in stock` : `${displaySystem.toUpperCase()} ${chip.label} sold out`}
+              >
+                {chip.label}
+              </span>
+            ))}
+            {sizeChips.length > MAX_SIZE_CHIPS && (
+              <span className="px-1 py-0.5 text-[10px] leading-none text-gray-500">
+                +{sizeChips.length - MAX_SIZE_CHIPS}
+              </span>
+            )}
+          </div>
+        )}
+
         {/* Colors at the bottom */}
         {product.variants && product.variants.length > 0 && (
           <div className="flex gap-1 mt-2">
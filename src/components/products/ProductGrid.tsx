@@ -1,31 +1,14 @@
 import { motion, AnimatePresence } from 'framer-motion';
 import ProductCard from './ProductCard';
-
-interface Product {
-  id: string;
-  title: string;
-  slug?: string;
-  brand?: string;
-  price: number;
-  image?: string;
-  images?: string[];
-  rating?: number;
-  reviewCount?: number;
-  featured?: boolean;
-  variants?: Array<{
-    id: string;
-    size: string;
-    color: string;
-    stock: number;
-  }>;
-}
+import { ProductCardItem } from '../../types/product';
 
 interface ProductGridProps {
-  products: Product[];
+  products: ProductCardItem[];
   loading?: boolean;
+  highlight?: string;
 }
 
-const ProductGrid = ({ products, loading = false }: ProductGridProps) => {
+const ProductGrid = ({ products, loading = false, highlight }: ProductGridProps) => {
   if (loading) {
     return (
       <div className="grid grid-cols-2 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-3 md:gap-6">
@@ -60,7 +43,7 @@ const ProductGrid = ({ products, loading = false }: ProductGridProps) => {
     >
       <AnimatePresence>
         {products.map((product) => (
-          <ProductCard key={product.id} product={product} />
+          <ProductCard key={product.id} product={product} highlight={highlight} />
         ))}
       </AnimatePresence>
     </motion.div>
@@ -0,0 +1,161 @@
+import { useState, useEffect, useCallback } from 'react';
+import { BadgeCheck, MessageSquare } from 'lucide-react';
+import { useAuth } from '../../hooks/useAuth';
+import Button from '../ui/Button';
+import StarRating from './StarRating';
+import ReviewForm from './ReviewForm';
+import { showErrorToast } from '../ui/CustomToast';
+import { fetchProductReviews, fetchUserReviews, summarizeReviews } from '../../services/reviewService';
+import { Review } from '../../types/review';
+
+interface ProductReviewsProps {
+  productId: string;
+  productTitle: string;
+}
+
+const ProductReviews = ({ productId, productTitle }: ProductReviewsProps) => {
+  const { user } = useAuth();
+  const [reviews, setReviews] = useState<Review[]>([]);
+  const [myReview, setMyReview] = useState<Review | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [showForm, setShowForm] = useState(false);
+
+  const loadReviews = useCallback(async () => {
+    try {
+      const [approved, mine] = await Promise.all([
+        fetchProductReviews(productId),
+        user ? fetchUserReviews(user.id, [productId]) : Promise.resolve([])
+      ]);
+      setReviews(approved);
+      setMyReview(mine[0] || null);
+    } catch (error) {
+      console.error('Error fetching reviews:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [productId, user]);
+
+  useEffect(() => {
+    loadReviews();
+  }, [loadReviews]);
+
+  const handleWriteReview = () => {
+    if (!user) {
+      showErrorToast('Please sign in to write a review');
+      return;
+    }
+    setShowForm(true);
+  };
+
+  const summary = summarizeReviews(reviews);
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-black"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-3 gap-8">
+      {/* Summary */}
+      <div>
+        <div className="flex items-end space-x-3 mb-2">
+          <span className="text-4xl font-bold text-slate-900">{summary.average.toFixed(1)}</span>
+          <span className="text-sm text-slate-500 mb-1">out of 5</span>
+        </div>
+        <StarRating rating={summary.average} size={18} className="mb-2" />
+        <p className="text-sm text-slate-500 mb-6">
+          Based on {summary.count} {summary.count === 1 ? 'review' : 'reviews'}
+        </p>
+
+        <div className="space-y-2 mb-6">
+          {([5, 4, 3, 2, 1] as const).map(star => {
+            const count = summary.distribution[star];
+            const percent = summary.count > 0 ? (count / summary.count) * 100 : 0;
+            return (
+              <div key={star} className="flex items-center space-x-2 text-sm">
+                <span className="w-3 text-slate-600">{star}</span>
+                <div className="flex-1 h-2 bg-slate-100">
+                  <div className="h-2 bg-black" style={{ width: `${percent}%` }} />
+                </div>
+                <span className="w-8 text-right text-slate-500">{count}</span>
+              </div>
+            );
+          })}
+        </div>
+
+        <Button variant="outline" fullWidth onClick={handleWriteReview}>
+          {myReview ? 'Edit your review' : 'Write a review'}
+        </Button>
+
+        {myReview && myReview.status !== 'approved' && (
+          <p className="text-xs text-slate-500 mt-2">
+            {myReview.status === 'pending'
+              ? 'Your review is awaiting approval.'
+              : 'Your review was not approved. You can edit and resubmit it.'}
+          </p>
+        )}
+      </div>
+
+      {/* Review list */}
+      <div className="md:col-span-2">
+        {reviews.length === 0 ? (
+          <div className="text-center py-8 text-slate-500">
+            <MessageSquare className="w-8 h-8 mx-auto mb-2 text-slate-300" />
+            <p>No reviews yet. Be the first to review this product.</p>
+          </div>
+        ) : (
+          <div className="divide-y divide-slate-200">
+            {reviews.map(review => (
+              <div key={review.id} className="py-5 first:pt-0">
+                <div className="flex items-center justify-between mb-1">
+                  <StarRating rating={review.rating} size={14} />
+                  <span className="text-xs text-slate-400">
+                    {new Date(review.created_at).toLocaleDateString()}
+                  </span>
+                </div>
+                {review.title && (
+                  <h4 className="font-semibold text-slate-900 mt-2">{review.title}</h4>
+                )}
+                {review.content && (
+                  <p className="text-slate-600 mt-1 whitespace-pre-wrap">{review.content}</p>
+                )}
+                <div className="flex items-center space-x-2 mt-2 text-xs text-slate-500">
+                  <span>{review.reviewer_name || 'Customer'}</span>
+                  {review.is_verified_purchase && (
+                    <span className="inline-flex items-center text-green-700">
+                      <BadgeCheck size={14} className="mr-1" />
+                      Verified purchase
+                    </span>
+                  )}
+                </div>
+                {review.admin_reply && (
+                  <div className="mt-3 ml-4 pl-3 border-l-2 border-slate-300">
+                    <p className="text-xs font-semibold text-slate-900">Reply from Kixora</p>
+                    <p className="text-sm text-slate-600 mt-1 whitespace-pre-wrap">{review.admin_reply}</p>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {user && (
+        <ReviewForm
+          isOpen={showForm}
+          onClose={() => setShowForm(false)}
+          userId={user.id}
+          productId={productId}
+          productTitle={productTitle}
+          existingReview={myReview}
+          onSubmitted={setMyReview}
+        />
+      )}
+    </div>
+  );
+};
+
+export default ProductReviews;
@@ -0,0 +1,140 @@
+import { useState } from 'react';
+import { useForm, Controller } from 'react-hook-form';
+import { yupResolver } from '@hookform/resolvers/yup';
+import * as yup from 'yup';
+import { X } from 'lucide-react';
+import Modal from '../ui/Modal';
+import Button from '../ui/Button';
+import Input from '../ui/Input';
+import StarRating from './StarRating';
+import { showSuccessToast, showErrorToast } from '../ui/CustomToast';
+import { submitReview } from '../../services/reviewService';
+import { Review, ReviewInput } from '../../types/review';
+
+const reviewSchema = yup.object({
+  rating: yup.number().min(1, 'Please choose a rating').max(5).required('Please choose a rating'),
+  title: yup.string().max(100, 'Title must be 100 characters or less').default(''),
+  content: yup.string().max(2000, 'Review must be 2000 characters or less').default(''),
+});
+
+interface ReviewFormProps {
+  isOpen: boolean;
+  onClose: () => void;
+  userId: string;
+  productId: string;
+  productTitle: string;
+  existingReview?: Review | null;
+  onSubmitted?: (review: Review) => void;
+}
+
+const ReviewForm = ({
+  isOpen,
+  onClose,
+  userId,
+  productId,
+  productTitle,
+  existingReview,
+  onSubmitted
+}: ReviewFormProps) => {
+  const [submitting, setSubmitting] = useState(false);
+
+  const {
+    register,
+    handleSubmit,
+    control,
+    formState: { errors },
+  } = useForm<ReviewInput>({
+    resolver: yupResolver(reviewSchema),
+    values: {
+      rating: existingReview?.rating || 0,
+      title: existingReview?.title || '',
+      content: existingReview?.content || '',
+    },
+  });
+
+  const onSubmit = async (data: ReviewInput) => {
+    setSubmitting(true);
+    try {
+      const review = await submitReview(userId, productId, data);
+      showSuccessToast('Thanks! Your review will appear once it has been approved');
+      onSubmitted?.(review);
+      onClose();
+    } catch (error) {
+      console.error('Error submitting review:', error);
+      showErrorToast('Failed to submit review');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose}>
+      <div className="bg-white p-6">
+        <div className="flex items-start justify-between mb-4">
+          <div>
+            <h3 className="text-lg font-semibold text-black">
+              {existingReview ? 'Edit your review' : 'Write a review'}
+            </h3>
+            <p className="text-sm text-gray-500 mt-1">{productTitle}</p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-black">
+            <X size={20} />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-black mb-2">Rating</label>
+            <Controller
+              name="rating"
+              control={control}
+              render={({ field }) => (
+                <StarRating rating={field.value} onChange={field.onChange} size={28} />
+              )}
+            />
+            {errors.rating && (
+              <p className="mt-2 text-sm text-red-600">{errors.rating.message}</p>
+            )}
+          </div>
+
+          <Input
+            label="Title"
+            placeholder="Sum up your experience"
+            error={errors.title?.message}
+            {...register('title')}
+          />
+
+          <div>
+            <label className="block text-sm font-medium text-black mb-2">Review</label>
+            <textarea
+              rows={5}
+              placeholder="How was the fit, comfort and quality?"
+              className="w-full px-4 py-2.5 border border-gray-300 rounded-lg hover:border-gray-500 focus:outline-none focus:ring-2 focus:ring-gray-500 focus:border-gray-500 placeholder:text-gray-500"
+              {...register('content')}
+            />
+            {errors.content && (
+              <p className="mt-2 text-sm text-red-600">{errors.content.message}</p>
+            )}
+          </div>
+
+          {existingReview && (
+            <p className="text-xs text-gray-500">
+              Edited reviews are checked again before they are published.
+            </p>
+          )}
+
+          <div className="flex justify-end space-x-3 pt-2">
+            <Button type="button" variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button type="submit" loading={submitting}>
+              {existingReview ? 'Update Review' : 'Submit Review'}
+            </Button>
+          </div>
+        </form>
+      </div>
+    </Modal>
+  );
+};
+
+export default ReviewForm;
@@ -0,0 +1,58 @@
+import { useState } from 'react';
+import { Star } from 'lucide-react';
+import clsx from 'clsx';
+
+interface StarRatingProps {
+  rating: number;
+  size?: number;
+  onChange?: (rating: number) => void;
+  className?: string;
+}
+
+const StarRating = ({ rating, size = 16, onChange, className }: StarRatingProps) => {
+  const [hoverRating, setHoverRating] = useState(0);
+  const displayRating = hoverRating || rating;
+
+  return (
+    <div
+      className={clsx('flex items-center', className)}
+      onMouseLeave={() => onChange && setHoverRating(0)}
+      aria-label={`${rating} out of 5 stars`}
+    >
+      {[1, 2, 3, 4, 5].map(star => {
+        // Half stars are only used for read-only averages
+        const fill = Math.min(Math.max(displayRating - (star - 1), 0), 1);
+
+        const icon = (
+          <span className="relative inline-block" style={{ width: size, height: size }}>
+            <Star size={size} className="absolute inset-0 text-gray-300" />
+            {fill > 0 && (
+              <span className="absolute inset-0 overflow-hidden" style={{ width: `${fill * 100}%` }}>
+                <Star size={size} className="text-black" fill="currentColor" />
+              </span>
+            )}
+          </span>
+        );
+
+        if (!onChange) {
+          return <span key={star} className="mr-0.5">{icon}</span>;
+        }
+
+        return (
+          <button
+            key={star}
+            type="button"
+            onClick={() => onChange(star)}
+            onMouseEnter={() => setHoverRating(star)}
+            className="mr-1 focus:outline-none"
+            aria-label={`Rate ${star} out of 5`}
+          >
+            {icon}
+          </button>
+        );
+      })}
+    </div>
+  );
+};
+
+export default StarRating;
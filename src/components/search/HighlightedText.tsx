@@ -0,0 +1,24 @@
+import { splitHighlights } from '../../utils/search';
+
+interface HighlightedTextProps {
+  text: string;
+  query?: string;
+  className?: string;
+}
+
+// Bolds the parts of text that match the search query
+const HighlightedText = ({ text, query, className = 'font-bold' }: HighlightedTextProps) => {
+  if (!query) return <>{text}</>;
+
+  return (
+    <>
+      {splitHighlights(text, query).map((part, index) =>
+        part.match
+          ? <mark key={index} className={`bg-transparent text-inherit ${className}`}>{part.text}</mark>
+          : <span key={index}>{part.text}</span>
+      )}
+    </>
+  );
+};
+
+export default HighlightedText;
@@ -0,0 +1,97 @@
+import { Search } from 'lucide-react';
+import HighlightedText from './HighlightedText';
+import { SearchAutocompleteResult } from '../../types/search';
+import { autocompleteOptions } from '../../utils/search';
+
+interface SearchAutocompleteProps {
+  query: string;
+  result: SearchAutocompleteResult;
+  activeKey: string | null;
+  onSelect: (path: string) => void;
+}
+
+const SearchAutocomplete = ({ query, result, activeKey, onSelect }: SearchAutocompleteProps) => {
+  const options = autocompleteOptions(result, query);
+  const pathFor = (key: string) => options.find(option => option.key === key)?.path || '';
+
+  const rowClassName = (key: string) =>
+    `w-full flex items-center gap-3 px-4 py-2 text-left text-sm transition-colors ${
+      key === activeKey ? 'bg-gray-100' : 'hover:bg-gray-50'
+    }`;
+
+  // mousedown so the row is chosen before the input's blur closes the list
+  const select = (key: string) => (e: React.MouseEvent) => {
+    e.preventDefault();
+    onSelect(pathFor(key));
+  };
+
+  return (
+    <div className="absolute right-0 top-full mt-2 w-[min(24rem,calc(100vw-2rem))] bg-white border border-gray-200 shadow-lg z-50 max-h-[70vh] overflow-y-auto">
+      {result.products.length > 0 && (
+        <div className="py-2">
+          <p className="px-4 pb-1 text-xs font-semibold text-gray-500 uppercase">Products</p>
+          {result.products.map(product => {
+            const key = `product-${product.id}`;
+            return (
+              <button key={key} onMouseDown={select(key)} className={rowClassName(key)}>
+                <div className="w-10 h-10 bg-gray-100 flex-shrink-0">
+                  {product.image && (
+                    <img
+                      src={`${import.meta.env.VITE_SUPABASE_URL}/storage/v1/object/public/kixora/${product.image}`}
+                      alt={product.title}
+                      className="w-full h-full object-cover"
+                    />
+                  )}
+                </div>
+                <div className="min-w-0 flex-1">
+                  <p className="text-black truncate">
+                    <HighlightedText text={product.title} query={query} />
+                  </p>
+                  {product.brand && <p className="text-xs text-gray-500">{product.brand}</p>}
+                </div>
+                <span className="text-xs text-gray-600 flex-shrink-0">LKR {Number(product.price).toLocaleString()}</span>
+              </button>
+            );
+          })}
+        </div>
+      )}
+
+      {result.categories.length > 0 && (
+        <div className="py-2 border-t border-gray-100">
+          <p className="px-4 pb-1 text-xs font-semibold text-gray-500 uppercase">Categories</p>
+          {result.categories.map(category => {
+            const key = `category-${category.slug}`;
+            return (
+              <button key={key} onMouseDown={select(key)} className={rowClassName(key)}>
+                <HighlightedText text={category.name} query={query} />
+              </button>
+            );
+          })}
+        </div>
+      )}
+
+      {result.collections.length > 0 && (
+        <div className="py-2 border-t border-gray-100">
+          <p className="px-4 pb-1 text-xs font-semibold text-gray-500 uppercase">Collections</p>
+          {result.collections.map(collection => {
+            const key = `collection-${collection.slug}`;
+            return (
+              <button key={key} onMouseDown={select(key)} className={rowClassName(key)}>
+                <HighlightedText text={collection.name} query={query} />
+              </button>
+            );
+          })}
+        </div>
+      )}
+
+      <div className="border-t border-gray-100">
+        <button onMouseDown={select('search')} className={rowClassName('search')}>
+          <Search size={14} className="text-gray-500" />
+          <span className="text-black">Search for "{query.trim()}"</span>
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default SearchAutocomplete;
@@ -11,6 +11,8 @@ export interface ColorSelectorProps {
   size?: 'sm' | 'md' | 'lg';
   disabled?: boolean;
   disabledColors?: string[];
+  // Shown as unavailable but still selectable
+  soldOutColors?: string[];
   showNames?: boolean;
   className?: string;
 }
@@ -35,6 +37,7 @@ const ColorSelector: React.FC<ColorSelectorProps> = ({
   size = 'md',
   disabled = false,
   disabledColors = [],
+  soldOutColors = [],
   showNames = false,
   className = ''
 }) => {
@@ -58,6 +61,7 @@ const ColorSelector: React.FC<ColorSelectorProps> = ({
         const colorInfo = getColorInfo(colorName);
         const isSelected = selectedColors.includes(colorName);
         const isDisabled = disabled || disabledColors.includes(colorName);
+        const isSoldOut = soldOutColors.includes(colorName);
 
         if (!colorInfo) {
           // Fallback for colors without images
@@ -68,7 +72,7 @@ const ColorSelector: React.FC<ColorSelectorProps> = ({
                 ${SIZE_CLASSES[size]}
                 rounded-full border-2 bg-gray-200 flex items-center justify-center
                 ${isSelected ? 'border-black' : 'border-gray-300'}
-                ${isDisabled ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer hover:border-black'}
+                ${isDisabled ? 'opacity-50 cursor-not-allowed' : isSoldOut ? 'opacity-50 cursor-pointer' : 'cursor-pointer hover:border-black'}
               `}
               onClick={() => handleColorClick(colorName)}
               title={colorName}
@@ -127,8 +131,8 @@ const ColorSelector: React.FC<ColorSelectorProps> = ({
                 </motion.div>
               )}
 
-              {/* Disabled overlay */}
-              {isDisabled && (
+              {/* Disabled or sold-out overlay */}
+              {(isDisabled || isSoldOut) && (
                 <div className="absolute inset-0 bg-gray-500 bg-opacity-40" />
               )}
             </button>
@@ -143,7 +147,7 @@ const ColorSelector: React.FC<ColorSelectorProps> = ({
                   transition={{ duration: 0.15 }}
                   className="absolute bottom-full left-1/2 transform -translate-x-1/2 mb-2 px-2 py-1 bg-black text-white text-xs rounded pointer-events-none whitespace-nowrap z-50"
                 >
-                  {colorInfo.displayName}
+                  {colorInfo.displayName}{isSoldOut && ' (sold out)'}
                   <div className="absolute top-full left-1/2 transform -translate-x-1/2 w-0 h-0 border-l-4 border-r-4 border-t-4 border-transparent border-t-black"></div>
                 </motion.div>
               )}
@@ -32,6 +32,10 @@ export function useAuth() {
           full_name: sessionUser.user_metadata?.full_name || null,
           avatar_url: sessionUser.user_metadata?.avatar_url || null,
           role: "user",
+          sms_phone: null,
+          sms_opt_in: false,
+          sms_opt_in_at: null,
+          preferred_size: null,
           created_at: new Date().toISOString(),
           updated_at: new Date().toISOString(),
         });
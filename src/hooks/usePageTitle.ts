@@ -20,6 +20,12 @@ const getPageTitle = (pathname: string): string => {
       // In a real app, you might want to fetch the collection name
       return 'Collection - Kixora';
 
+    case 'brands':
+      if (segments.length === 1) {
+        return 'Brands - Kixora';
+      }
+      return 'Brand - Kixora';
+
     case 'products':
       if (segments.length === 1) {
         return 'All Products - Kixora';
@@ -40,6 +46,9 @@ const getPageTitle = (pathname: string): string => {
       if (segments.length === 1) {
         return 'My Orders - Kixora';
       }
+      if (segments[1] === 'lookup') {
+        return 'Find Your Order - Kixora';
+      }
       return 'Order Details - Kixora';
 
     case 'thank-you':
@@ -70,6 +79,8 @@ const getPageTitle = (pathname: string): string => {
           return 'Manage Products - Kixora';
         case 'categories':
           return 'Manage Categories - Kixora';
+        case 'brands':
+          return 'Manage Brands - Kixora';
         case 'users':
           return 'Manage Users - Kixora';
         case 'audit':
@@ -1,6 +1,7 @@
 import { useEffect } from 'react';
 import { useLocation } from 'react-router-dom';
 import { FREE_SHIPPING_THRESHOLD } from '../utils/constants';
+import { Brand } from '../types/brand';
 
 export interface SEOData {
   title?: string;
@@ -151,13 +152,42 @@ export const generateSEOData = {
     canonical: `/collections/${collection.slug || collection.id}`
   }),
 
+  products: (): SEOData => ({
+    title: 'All Products - Shop Online at Kixora Sri Lanka',
+    description: `Browse every shoe at Kixora by category, brand, size and colour. Free shipping on orders over LKR ${FREE_SHIPPING_THRESHOLD.toLocaleString()}.`,
+    keywords: 'shoes, sneakers, footwear, online shopping sri lanka',
+    type: 'website',
+    canonical: '/products'
+  }),
+
   category: (category: any): SEOData => ({
     title: `${category.name} - Shop Online at Kixora Sri Lanka`,
     description: `Browse our ${category.name} collection. ${category.description || 'Premium quality products with the latest trends.'} Free shipping on orders over LKR ${FREE_SHIPPING_THRESHOLD.toLocaleString()}.`,
     keywords: `${category.name}, ${category.name} online, buy ${category.name}, fashion, online shopping sri lanka`.toLowerCase(),
     type: 'website',
-    image: category.image_url || '/logo.white.png',
-    canonical: `/categories/${category.slug || category.id}`
+    image: category.image_url
+      ? `${import.meta.env.VITE_SUPABASE_URL}/storage/v1/object/public/kixora/${category.image_url}`
+      : '/logo.white.png',
+    canonical: `/products?category=${category.slug}`
+  }),
+
+  brand: (brand: Brand): SEOData => ({
+    title: `${brand.name} Shoes - Shop Online at Kixora Sri Lanka`,
+    description: `Shop ${brand.name} at Kixora. ${brand.description || 'Authentic footwear with secure payment and fast delivery.'} Free shipping on orders over LKR ${FREE_SHIPPING_THRESHOLD.toLocaleString()}.`,
+    keywords: `${brand.name}, ${brand.name} shoes, buy ${brand.name}, ${brand.name} sri lanka, online shopping sri lanka`.toLowerCase(),
+    type: 'website',
+    image: brand.logo_url
+      ? `${import.meta.env.VITE_SUPABASE_URL}/storage/v1/object/public/kixora/${brand.logo_url}`
+      : '/logo.white.png',
+    canonical: `/brands/${brand.slug}`
+  }),
+
+  brands: (): SEOData => ({
+    title: 'Shop by Brand - Kixora Sri Lanka',
+    description: 'Browse every footwear brand we stock at Kixora. Secure online shopping with fast delivery across Sri Lanka.',
+    keywords: 'shoe brands, footwear brands, online shopping sri lanka, kixora',
+    type: 'website',
+    canonical: '/brands'
   }),
 
   home: (): SEOData => ({
@@ -1,4 +1,4 @@
-import { supabaseAdmin } from './supabaseAdmin';
+import { supabase } from './supabase';
 
 export interface UploadedImage {
   id: string;
@@ -26,7 +26,7 @@ export const uploadProductImages = async (
 
     try {
       // Upload file to Supabase Storage
-      const { data: uploadData, error: uploadError } = await supabaseAdmin.storage
+      const { data: uploadData, error: uploadError } = await supabase.storage
         .from('kixora')
         .upload(filePath, file, {
           cacheControl: '3600',
@@ -39,7 +39,7 @@ export const uploadProductImages = async (
       }
 
       // Get public URL
-      const { data: urlData } = supabaseAdmin.storage
+      const { data: urlData } = supabase.storage
         .from('kixora')
         .getPublicUrl(filePath);
 
@@ -83,7 +83,7 @@ export const saveProductImages = async (
     file_size: image.size
   }));
 
-  const { error } = await supabaseAdmin
+  const { error } = await supabase
     .from('product_images')
     .insert(imageRecords);
 
@@ -100,7 +100,7 @@ export const cleanupUploadedImages = async (
 ): Promise<void> => {
   for (const image of uploadedImages) {
     try {
-      await supabaseAdmin.storage
+      await supabase.storage
         .from('kixora')
         .remove([image.url]);
     } catch (error) {
@@ -112,7 +112,7 @@ export const cleanupUploadedImages = async (
 export const deleteProductImages = async (productId: string): Promise<void> => {
   try {
     // Get all image records for the product
-    const { data: images, error: fetchError } = await supabaseAdmin
+    const { data: images, error: fetchError } = await supabase
       .from('product_images')
       .select('storage_path')
       .eq('product_id', productId);
@@ -125,7 +125,7 @@ export const deleteProductImages = async (productId: string): Promise<void> => {
     if (images && images.length > 0) {
       // Delete files from storage
       const storagePaths = images.map(img => img.storage_path);
-      const { error: storageError } = await supabaseAdmin.storage
+      const { error: storageError } = await supabase.storage
         .from('kixora')
         .remove(storagePaths);
 
@@ -134,7 +134,7 @@ export const deleteProductImages = async (productId: string): Promise<void> => {
       }
 
       // Delete records from database
-      const { error: dbError } = await supabaseAdmin
+      const { error: dbError } = await supabase
         .from('product_images')
         .delete()
         .eq('product_id', productId);
@@ -149,7 +149,7 @@ export const deleteProductImages = async (productId: string): Promise<void> => {
 };
 
 export const getProductImages = async (productId: string) => {
-  const { data, error } = await supabaseAdmin
+  const { data, error } = await supabase
     .from('product_images')
     .select('*')
     .eq('product_id', productId)
@@ -177,7 +177,7 @@ export const uploadCollectionImage = async (
 
   try {
     // Upload file to Supabase Storage
-    const { data: uploadData, error: uploadError } = await supabaseAdmin.storage
+    const { data: uploadData, error: uploadError } = await supabase.storage
       .from('kixora')
       .upload(filePath, file, {
         cacheControl: '3600',
@@ -215,7 +215,7 @@ export const deleteCollectionImage = async (imagePath: string): Promise<void> =>
     }
 
     // Delete file from storage
-    const { error } = await supabaseAdmin.storage
+    const { error } = await supabase.storage
       .from('kixora')
       .remove([filePath]);
 
@@ -225,4 +225,51 @@ export const deleteCollectionImage = async (imagePath: string): Promise<void> =>
   } catch (error) {
     console.error('Error in deleteCollectionImage:', error);
   }
-};
\ No newline at end of file
+};
+
+// Brand logo upload functions
+export const uploadBrandLogo = async (
+  file: File,
+  brandSlug: string
+): Promise<string> => {
+  const timestamp = Date.now();
+  const randomString = Math.random().toString(36).substring(7);
+  const fileExtension = file.name.split('.').pop() || 'png';
+  const fileName = `brand_${brandSlug || 'new'}_${timestamp}_${randomString}.${fileExtension}`;
+  const filePath = `brands/${fileName}`;
+
+  try {
+    const { error: uploadError } = await supabase.storage
+      .from('kixora')
+      .upload(filePath, file, {
+        cacheControl: '3600',
+        upsert: false
+      });
+
+    if (uploadError) {
+      console.error('Upload error for brand logo:', file.name, uploadError);
+      throw new Error(`Failed to upload ${file.name}: ${uploadError.message}`);
+    }
+
+    // Stored as a path, like collection images
+    return filePath;
+
+  } catch (error) {
+    console.error('Error uploading brand logo:', file.name, error);
+    throw error;
+  }
+};
+
+export const deleteBrandLogo = async (logoPath: string): Promise<void> => {
+  try {
+    const { error } = await supabase.storage
+      .from('kixora')
+      .remove([logoPath]);
+
+    if (error) {
+      console.error('Error deleting brand logo from storage:', error);
+    }
+  } catch (error) {
+    console.error('Error in deleteBrandLogo:', error);
+  }
+};
@@ -1,4 +1,5 @@
 import { createClient } from '@supabase/supabase-js';
+import type { MySize } from '../utils/sizeChart';
 
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
 const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
@@ -26,6 +27,10 @@ export type Database = {
           full_name: string | null;
           avatar_url: string | null;
           role: 'user' | 'admin';
+          sms_phone: string | null;
+          sms_opt_in: boolean;
+          sms_opt_in_at: string | null;
+          preferred_size: MySize | null;
           created_at: string;
           updated_at: string;
         };
@@ -42,6 +47,7 @@ export type Database = {
           full_name?: string | null;
           avatar_url?: string | null;
           role?: 'user' | 'admin';
+          preferred_size?: MySize | null;
         };
       };
       categories: {
@@ -54,6 +60,7 @@ export type Database = {
           is_active: boolean;
           is_pinned: boolean;
           display_order: number;
+          parent_id: string | null;
           created_at: string;
           updated_at: string;
 
@@ -72,6 +79,9 @@ export type Database = {
           is_active: boolean;
           featured: boolean;
           return_policy: string | null;
+          rating_average: number;
+          review_count: number;
+          weight_kg: number;
           created_at: string;
           updated_at: string;
         };
@@ -116,6 +126,10 @@ export type Database = {
           id: string;
           user_id: string;
           order_number: string;
+          subtotal: number | null;
+          discount_amount: number;
+          discount_code: string | null;
+          shipping_zone_id: string | null;
           total: number;
           currency: string;
           status: 'pending' | 'paid' | 'shipped' | 'delivered' | 'cancelled';
@@ -128,6 +142,15 @@ export type Database = {
           shipping_method: string | null;
           shipping_cost: number | null;
           notes: string | null;
+          reserved_until: string | null;
+          cancelled_at: string | null;
+          cancellation_reason: string | null;
+          cancelled_by: 'customer' | 'admin' | null;
+          guest_email: string | null;
+          guest_phone: string | null;
+          access_token: string;
+          tracking_number: string | null;
+          tracking_url: string | null;
           created_at: string;
           updated_at: string;
         };
@@ -142,6 +165,10 @@ export type Database = {
           content: string | null;
           is_approved: boolean;
           is_verified_purchase: boolean;
+          status: 'pending' | 'approved' | 'rejected';
+          reviewer_name: string | null;
+          admin_reply: string | null;
+          admin_reply_at: string | null;
           created_at: string;
           updated_at: string;
         };
@@ -0,0 +1,62 @@
+import { useEffect, useState } from 'react';
+import { useParams, Navigate } from 'react-router-dom';
+import { fetchBrandBySlug } from '../services/brandService';
+import { Brand } from '../types/brand';
+import ProductsPage from './ProductsPage';
+
+// A brand's products with the same filters, sorting and paging as /products.
+// ProductsPage sets the brand's meta tags and structured data.
+const BrandDetailPage = () => {
+  const { slug } = useParams<{ slug: string }>();
+  const [brand, setBrand] = useState<Brand | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [notFound, setNotFound] = useState(false);
+
+  useEffect(() => {
+    if (!slug) return;
+
+    const loadBrand = async () => {
+      setLoading(true);
+      setNotFound(false);
+      try {
+        const data = await fetchBrandBySlug(slug);
+        if (data) {
+          setBrand(data);
+        } else {
+          setNotFound(true);
+        }
+      } catch (error) {
+        console.error('Error loading brand:', error);
+        setNotFound(true);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadBrand();
+  }, [slug]);
+
+  if (loading) {
+    return (
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="animate-pulse">
+          <div className="h-6 bg-gray-200 w-1/4 mb-6"></div>
+          <div className="h-10 bg-gray-200 w-1/3 mb-8"></div>
+          <div className="grid grid-cols-2 lg:grid-cols-4 gap-6">
+            {[...Array(8)].map((_, i) => (
+              <div key={i} className="h-80 bg-gray-200"></div>
+            ))}
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (notFound || !brand) {
+    return <Navigate to="/brands" replace />;
+  }
+
+  return <ProductsPage key={brand.id} brand={brand} />;
+};
+
+export default BrandDetailPage;
@@ -0,0 +1,134 @@
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { ArrowRight, Award } from 'lucide-react';
+import { motion } from 'framer-motion';
+import { fetchBrands, getBrandLogoUrl } from '../services/brandService';
+import { BrandWithCount } from '../types/brand';
+import Breadcrumb from '../components/ui/Breadcrumb';
+import SEOHead from '../components/seo/SEOHead';
+import { generateSEOData } from '../hooks/useSEO';
+
+const BrandsPage = () => {
+  const [brands, setBrands] = useState<BrandWithCount[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    loadBrands();
+  }, []);
+
+  const loadBrands = async () => {
+    try {
+      setBrands(await fetchBrands(false));
+    } catch (error) {
+      console.error('Error fetching brands:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-slate-50">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 sm:py-12">
+          <div className="animate-pulse">
+            <div className="h-12 bg-gray-200 w-1/3 mb-4"></div>
+            <div className="h-6 bg-gray-200 w-2/3 mb-12"></div>
+            <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-6">
+              {[...Array(8)].map((_, i) => (
+                <div key={i} className="h-48 bg-gray-200"></div>
+              ))}
+            </div>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  const breadcrumbItems = [
+    {
+      label: 'Brands',
+      icon: <Award size={16} />
+    }
+  ];
+
+  return (
+    <>
+      <SEOHead seoData={generateSEOData.brands()} />
+      <div className="min-h-screen bg-slate-50">
+        <section className="py-8 sm:py-12 lg:py-16 bg-white">
+          <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+            {/* Breadcrumb */}
+            <Breadcrumb items={breadcrumbItems} className="mb-6" />
+            <motion.div
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ duration: 0.6 }}
+              className="text-center mb-8 sm:mb-12"
+            >
+              <h1 className="text-3xl sm:text-4xl lg:text-5xl font-bold text-black mb-4 sm:mb-6">
+                Our Brands
+              </h1>
+              <p className="text-xl text-gray-600 max-w-3xl mx-auto">
+                Shop footwear from the brands we stock.
+              </p>
+            </motion.div>
+
+            {/* Brands Grid */}
+            <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-6">
+              {brands.map((brand, index) => (
+                <motion.div
+                  key={brand.id}
+                  initial={{ opacity: 0, y: 20 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  transition={{ duration: 0.6, delay: Math.min(index, 8) * 0.05 }}
+                >
+                  <Link
+                    to={`/brands/${brand.slug}`}
+                    className="group flex flex-col items-center justify-center h-48 p-6 bg-white border border-gray-200 hover:border-black transition-colors"
+                  >
+                    {brand.logo_url ? (
+                      <img
+                        src={getBrandLogoUrl(brand.logo_url)}
+                        alt={brand.name}
+                        className="h-20 w-full object-contain mb-4"
+                      />
+                    ) : (
+                      <span className="text-2xl font-black uppercase tracking-tight text-black mb-4 text-center">
+                        {brand.name}
+                      </span>
+                    )}
+                    <span className="text-sm font-medium text-black">{brand.name}</span>
+                    <span className="text-xs text-gray-500 mt-1">
+                      {brand.productCount} {brand.productCount === 1 ? 'product' : 'products'}
+                    </span>
+                  </Link>
+                </motion.div>
+              ))}
+            </div>
+
+            {/* Empty State */}
+            {brands.length === 0 && (
+              <motion.div
+                initial={{ opacity: 0 }}
+                animate={{ opacity: 1 }}
+                className="text-center py-8 sm:py-12"
+              >
+                <div className="text-6xl mb-4">👟</div>
+                <h3 className="text-2xl font-semibold text-black mb-4">No Brands Available</h3>
+                <p className="text-gray-600 mb-8">Our catalogue is being updated. Check back soon!</p>
+                <Link to="/products">
+                  <button className="inline-flex items-center px-6 py-3 bg-black text-white font-medium hover:bg-gray-800 transition-colors">
+                    <span>Browse All Products</span>
+                    <ArrowRight size={16} className="ml-2" />
+                  </button>
+                </Link>
+              </motion.div>
+            )}
+          </div>
+        </section>
+      </div>
+    </>
+  );
+};
+
+export default BrandsPage;
@@ -1,27 +1,46 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useMemo } from 'react';
 import { useNavigate, Link, useSearchParams } from 'react-router-dom';
 import { useForm } from 'react-hook-form';
 import { yupResolver } from '@hookform/resolvers/yup';
 import * as yup from 'yup';
 import { motion } from 'framer-motion';
-import { ArrowLeft, Truck, Clock, CreditCard, Building, Phone, Banknote, Mail, ShoppingCart } from 'lucide-react';
+import { ArrowLeft, Truck, Clock, CreditCard, Building, Phone, Banknote, Mail, ShoppingCart, FlaskConical } from 'lucide-react';
 import { useAuth } from '../hooks/useAuth';
 import { useCartStore } from '../stores/cartStore';
 import { supabase } from '../lib/supabase';
 import Button from '../components/ui/Button';
 import Input from '../components/ui/Input';
+import Modal from '../components/ui/Modal';
+import AuthForm from '../components/auth/AuthForm';
 import { showErrorToast } from '../components/ui/CustomToast';
 import logo from '../assests/logo.black.png';
-import { payHereService, PayHerePaymentData } from '../services/payhere';
+import { fetchEnabledPaymentMethods, startOrderPayment } from '../services/paymentService';
+import { DEFAULT_PAYMENT_METHODS, PAYMENT_METHODS, PaymentMethodCode, isOnlinePaymentMethod } from '../paymentProviders/methods';
 import Breadcrumb from '../components/ui/Breadcrumb';
-import { FREE_SHIPPING_THRESHOLD } from '../utils/constants';
+import DiscountCodeInput from '../components/cart/DiscountCodeInput';
+import { SRI_LANKA_DISTRICTS, getProvinceForDistrict } from '../utils/sriLankaRegions';
+import { fetchOrderPricing } from '../services/pricingService';
+import { flushEmailQueue } from '../services/emailService';
+import { flushSmsQueue } from '../services/smsService';
+import { CreateOrderResult, PriceBreakdown } from '../types/order';
 
 const checkoutSchema = yup.object({
+  // Signed-in shoppers order with their account email
+  email: yup.string().when('$isGuest', {
+    is: true,
+    then: (schema) => schema.required('Email is required').email('Enter a valid email address'),
+    otherwise: (schema) => schema.notRequired()
+  }),
   country: yup.string().required('Country is required'),
   firstName: yup.string().required('First name is required'),
   lastName: yup.string().required('Last name is required'),
   address: yup.string().required('Address is required'),
   apartment: yup.string(),
+  district: yup.string().when('country', {
+    is: 'Sri Lanka',
+    then: (schema) => schema.required('District is required'),
+    otherwise: (schema) => schema.notRequired()
+  }),
   city: yup.string().required('City is required'),
   postalCode: yup.string().required('Postal code is required'),
   phone: yup.string().required('Phone number is required'),
@@ -60,11 +79,15 @@ const checkoutSchema = yup.object({
 const CheckoutPage = () => {
   const navigate = useNavigate();
   const { user, loading: authLoading } = useAuth();
-  const { items, clearCart } = useCartStore();
+  const { items, clearCart, discountCode, setDiscountCode } = useCartStore();
   const [searchParams] = useSearchParams();
   const [loading, setLoading] = useState(false);
   const [sameAsBilling, setSameAsBilling] = useState(true);
   const [saveDeliveryInfo, setSaveDeliveryInfo] = useState(true);
+  const [showAuthModal, setShowAuthModal] = useState(false);
+  const [pricing, setPricing] = useState<PriceBreakdown | null>(null);
+  const [pricingError, setPricingError] = useState<string | null>(null);
+  const [paymentMethods, setPaymentMethods] = useState<PaymentMethodCode[]>(DEFAULT_PAYMENT_METHODS);
 
   const {
     register,
@@ -74,6 +97,7 @@ const CheckoutPage = () => {
     watch
   } = useForm({
     resolver: yupResolver(checkoutSchema),
+    context: { isGuest: !user },
     defaultValues: {
       country: 'Sri Lanka',
       countryCode: '+94',
@@ -84,6 +108,8 @@ const CheckoutPage = () => {
   });
 
   const watchedShippingMethod = watch('shippingMethod');
+  const watchedCountry = watch('country');
+  const watchedDistrict = watch('district');
   const watchedPaymentMethod = watch('paymentMethod');
   const watchedSameAsBilling = watch('sameAsBilling');
 
@@ -102,13 +128,13 @@ const CheckoutPage = () => {
       return;
     }
 
-    if (!user) {
+    if (items.length === 0) {
       navigate('/');
       return;
     }
 
-    if (items.length === 0) {
-      navigate('/');
+    // Guests fill in the form themselves
+    if (!user) {
       return;
     }
 
@@ -127,6 +153,7 @@ const CheckoutPage = () => {
           setValue('lastName', savedAddress.last_name);
           setValue('address', savedAddress.address);
           setValue('apartment', savedAddress.apartment || '');
+          setValue('district', savedAddress.district || '');
           setValue('city', savedAddress.city);
           setValue('postalCode', savedAddress.postal_code);
           setValue('phone', savedAddress.phone);
@@ -146,22 +173,111 @@ const CheckoutPage = () => {
     loadSavedAddress();
   }, [user, authLoading, items, navigate, setValue]);
 
-  const subtotal = items.reduce((sum, item) => sum + (item.price * item.quantity), 0);
-  const getShippingCost = (method: string) => {
-    // Free shipping for orders over the threshold
-    if (subtotal >= FREE_SHIPPING_THRESHOLD) return 0;
+  const pricingItems = useCallback(
+    () => items.map(item => ({ variant_id: item.variantId, quantity: item.quantity })),
+    [items]
+  );
+
+  // The shipping zone, and so the available methods, follow the address
+  const destination = useMemo(() => ({
+    country: watchedCountry || 'Sri Lanka',
+    district: watchedCountry === 'Sri Lanka' ? watchedDistrict || null : null,
+    province: watchedCountry === 'Sri Lanka' && watchedDistrict ? getProvinceForDistrict(watchedDistrict) : null,
+  }), [watchedCountry, watchedDistrict]);
+
+  // Prices always come from the server so the summary matches the charged amount
+  useEffect(() => {
+    if (items.length === 0) return;
+
+    let cancelled = false;
+
+    const loadPricing = async () => {
+      try {
+        const breakdown = await fetchOrderPricing(
+          pricingItems(),
+          watchedShippingMethod || 'standard',
+          discountCode,
+          destination,
+          watchedPaymentMethod
+        );
+        if (!cancelled) {
+          setPricing(breakdown);
+          setPricingError(null);
+        }
+      } catch (error) {
+        console.error('Error calculating order pricing:', error);
+        if (!cancelled) {
+          setPricing(null);
+          setPricingError(error instanceof Error ? error.message : 'Unable to calculate order total');
+        }
+      }
+    };
+
+    loadPricing();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [items, pricingItems, watchedShippingMethod, discountCode, destination, watchedPaymentMethod]);
+
+  useEffect(() => {
+    fetchEnabledPaymentMethods()
+      .then(setPaymentMethods)
+      .catch(error => console.error('Error loading payment methods:', error));
+  }, []);
+
+  // Fall back to the first offered payment method if the selected one is disabled
+  useEffect(() => {
+    if (!paymentMethods.includes(watchedPaymentMethod as PaymentMethodCode)) {
+      setValue('paymentMethod', paymentMethods[0]);
+    }
+  }, [paymentMethods, watchedPaymentMethod, setValue]);
 
-    if (method === 'standard') return 399;
-    if (method === 'express') return 699;
-    return 399;
+  // Move off COD when the cart or address no longer qualifies for it
+  useEffect(() => {
+    if (watchedPaymentMethod !== 'cod' || !pricing || pricing.cod.available) return;
+    const fallback = paymentMethods.find(code => code !== 'cod');
+    if (fallback) {
+      setValue('paymentMethod', fallback);
+    }
+  }, [pricing, paymentMethods, watchedPaymentMethod, setValue]);
+
+  // Switch to the first available method when the zone doesn't offer the selected one
+  useEffect(() => {
+    const options = pricing?.shipping_options;
+    if (!options || options.length === 0) return;
+    if (!options.some(option => option.code === watchedShippingMethod)) {
+      setValue('shippingMethod', options[0].code);
+    }
+  }, [pricing, watchedShippingMethod, setValue]);
+
+  const subtotal = pricing?.subtotal ?? 0;
+  const shipping = pricing?.shipping ?? 0;
+  const paymentFee = pricing?.payment_fee ?? 0;
+  const total = pricing?.total ?? 0;
+  const getLinePrice = (variantId: string, fallback: number) =>
+    pricing?.lines.find(line => line.variant_id === variantId)?.unit_price ?? fallback;
+
+  const formatDeliveryDays = (minDays: number, maxDays: number) => {
+    if (maxDays === 0) return 'Same day';
+    if (minDays === maxDays) return `${maxDays} business day${maxDays === 1 ? '' : 's'}`;
+    return `${minDays}-${maxDays} business days`;
   };
-  const shipping = getShippingCost(watchedShippingMethod || 'standard');
-  const total = subtotal + shipping;
 
   const countries = ['Sri Lanka', 'India', 'Maldives', 'Bangladesh'];
   const countryCodes = ['+94', '+91', '+960', '+880'];
 
   const onSubmit = async (formData: any) => {
+    if (!pricing) {
+      showErrorToast(pricingError || 'Order total is still being calculated');
+      return;
+    }
+
+    if (pricing.payment_error) {
+      showErrorToast(pricing.payment_error);
+      return;
+    }
+
     setLoading(true);
 
     try {
@@ -173,6 +289,7 @@ const CheckoutPage = () => {
         city: formData.city,
         postalCode: formData.postalCode,
         phone: formData.phone,
+        ...destination,
       };
 
       // Create billing address
@@ -185,58 +302,61 @@ const CheckoutPage = () => {
         phone: formData.phone,
       };
 
-      // Prepare order items for database function
-      const orderItems = items.map(item => ({
-        variant_id: item.variantId,
-        quantity: item.quantity,
-        price: item.price,
-        product_title: item.title,
-        size: item.variant.size,
-        color: item.variant.color,
-        sku: item.variant.sku,
-      }));
-
-      // Create order with automatic stock management
+      // Create order with automatic stock management. Prices are recalculated
+      // server-side; the totals we send are only checked against them.
       const { data: orderResult, error: orderError } = await supabase
         .rpc('create_order_with_stock_management', {
-          p_user_id: user!.id,
-          p_total: total,
-          p_currency: 'LKR',
+          p_user_id: user?.id ?? null,
+          p_total: pricing.total,
+          p_currency: pricing.currency,
           p_payment_method: formData.paymentMethod,
           p_shipping_method: formData.shippingMethod,
-          p_shipping_cost: shipping,
+          p_shipping_cost: pricing.shipping,
           p_shipping_address: shippingAddress,
           p_billing_address: billingAddress,
-          p_order_items: orderItems,
+          p_order_items: pricingItems(),
+          // Only a code that pricing accepted is sent with the order
+          p_discount_code: pricing.discount_code,
+          p_guest_email: user ? null : formData.email,
+          p_guest_phone: user ? null : `${formData.countryCode}${formData.phone}`,
         });
 
       if (orderError) throw orderError;
 
-      const result = orderResult[0];
-      if (!result.success) {
+      const result = orderResult[0] as CreateOrderResult;
+      if (result.pricing) {
+        setPricing(result.pricing);
+      }
+      if (!result.success || !result.order_id || !result.pricing) {
         throw new Error(result.error_message);
       }
 
       const order = { id: result.order_id };
+      const orderPricing = result.pricing;
+      // Guests follow their order through a link carrying its access token
+      const accessToken = user ? undefined : result.access_token || undefined;
+      const guestParam = accessToken ? `&token=${accessToken}` : '';
 
       // Save delivery information if checkbox is checked
-      if (saveDeliveryInfo) {
+      if (user && saveDeliveryInfo) {
         try {
           // First, unset any existing default address
           await supabase
             .from('delivery_addresses')
             .update({ is_default: false })
-            .eq('user_id', user!.id);
+            .eq('user_id', user.id);
 
           // Save the new delivery address as default
           await supabase
             .from('delivery_addresses')
             .insert({
-              user_id: user!.id,
+              user_id: user.id,
               first_name: formData.firstName,
               last_name: formData.lastName,
               address: formData.address,
               apartment: formData.apartment || null,
+              province: destination.province,
+              district: destination.district,
               city: formData.city,
               postal_code: formData.postalCode,
               phone: formData.phone,
@@ -251,105 +371,71 @@ const CheckoutPage = () => {
       }
 
       // Handle different payment methods
-      if (formData.paymentMethod === 'payhere') {
-        // Create payment with PayHere
+      if (isOnlinePaymentMethod(formData.paymentMethod)) {
+        // Create payment through the method's gateway
 
         const paymentData = {
           orderId: order.id,
-          amount: total,
-          currency: 'LKR',
+          amount: orderPricing.total,
+          currency: orderPricing.currency,
           customerInfo: {
             firstName: formData.firstName,
             lastName: formData.lastName,
-            email: user?.email || '',
+            email: user?.email || formData.email,
             phone: `${formData.countryCode}${formData.phone}`,
             address: formData.address || 'No 123, Main Street',
             city: formData.city || 'Colombo',
             country: formData.country || 'Sri Lanka',
           },
-          items: items.map(item => ({
-            itemNumber: item.variant.sku,
-            itemName: `${item.title} (${item.variant.color}, Size ${item.variant.size})`,
-            amount: item.price,
-            quantity: item.quantity,
+          items: orderPricing.lines.map(line => ({
+            itemNumber: line.sku,
+            itemName: `${line.product_title} (${line.color}, Size ${line.size})`,
+            amount: line.unit_price,
+            quantity: line.quantity,
           })),
+          accessToken,
         };
 
-        // Use direct fetch to get better error details
-        const session = (await supabase.auth.getSession()).data.session;
-
-        if (!session?.access_token) {
-          throw new Error('Authentication required. Please log in again.');
-        }
-
-        const functionUrl = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/create-payment`;
-
-        const response = await fetch(functionUrl, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${session.access_token}`,
-          },
-          body: JSON.stringify(paymentData),
-        });
-
-        if (!response.ok) {
-          const errorText = await response.text();
-          throw new Error(`Payment function error (${response.status}): ${errorText}`);
-        }
-
-        const responseData = await response.json();
-
-        if (!responseData.success) {
-          throw new Error(responseData.error || 'Payment creation failed');
-        }
-
-        const { paymentData: payHereData, environment } = responseData;
-
-        // Update order with PayHere payment ID
-        await supabase
-          .from('orders')
-          .update({
-            payment_provider_id: payHereData.order_id,
-          })
-          .eq('id', order.id);
-
         // Store order info before payment
         localStorage.setItem('pendingOrderInfo', JSON.stringify({
-          total: total,
-          paymentMethod: 'payhere',
+          total: orderPricing.total,
+          paymentMethod: formData.paymentMethod,
           customerName: `${formData.firstName} ${formData.lastName}`,
           orderId: order.id,
+          accessToken,
         }));
 
-        // Start PayHere payment using the service
-        const paymentResult = await payHereService.startPayment(
-          payHereData as PayHerePaymentData,
-          {
-            onCompleted: (orderId) => {
-              // Payment completed
-            },
-            onDismissed: () => {
-              // Payment dismissed
-            },
-            onError: (error) => {
-              // Payment error
-            }
-          }
-        );
+        // The order holds its stock until the payment window closes, so a
+        // dismissed or failed payment goes to the retry page rather than back
+        // to checkout where it would reserve the items a second time
+        let paymentResult;
+        try {
+          paymentResult = await startOrderPayment(formData.paymentMethod, paymentData);
+        } catch (paymentError) {
+          console.error('Payment not completed:', paymentError);
+          navigate(`/payment/cancel?orderId=${order.id}${guestParam}`);
+          return;
+        }
 
-        if (paymentResult.success) {
+        if (paymentResult.redirected) {
+          // The shopper is on the gateway's page; the order already holds the stock
+          await clearCart();
+        } else if (paymentResult.success) {
           // Clear cart after successful payment
           await clearCart();
 
           // Navigate to success page
-          navigate(`/payment/success?orderId=${paymentResult.orderId}&total=${total}`);
+          navigate(`/payment/success?orderId=${paymentResult.orderId}&total=${orderPricing.total}${guestParam}`);
         } else {
-          throw new Error(paymentResult.error || 'Payment failed');
+          navigate(`/payment/cancel?orderId=${order.id}${guestParam}`);
         }
       } else {
+        // Offline orders are confirmed by email straight away
+        flushEmailQueue();
+        flushSmsQueue();
+
         // For bank transfer and COD, redirect to thank you page
-        const thankYouUrl = `/thank-you?total=${total}&method=${formData.paymentMethod}&name=${encodeURIComponent(`${formData.firstName} ${formData.lastName}`)}&orderId=${order.id}`;
+        const thankYouUrl = `/thank-you?total=${orderPricing.total}&shipping=${orderPricing.shipping}&method=${formData.paymentMethod}&name=${encodeURIComponent(`${formData.firstName} ${formData.lastName}`)}&orderId=${order.id}${guestParam}`;
 
         // Navigate first, then clear cart to avoid useEffect interference
         navigate(thankYouUrl);
@@ -377,7 +463,7 @@ const CheckoutPage = () => {
   }
 
   // Redirect conditions are handled in useEffect
-  if (!user || items.length === 0) {
+  if (items.length === 0) {
     return null;
   }
 
@@ -421,12 +507,38 @@ const CheckoutPage = () => {
           <div className="space-y-6 sm:space-y-8">
             <form onSubmit={handleSubmit(onSubmit)} className="space-y-6 sm:space-y-8">
               {/* User Email Section */}
-              <div className="border border-[rgb(51,51,51)] rounded-lg p-3 sm:p-4">
-                <div className="flex items-center min-w-0">
-                  <Mail className="h-4 w-4 mr-2 text-[rgb(94,94,94)] flex-shrink-0" />
-                  <span className="text-white text-sm truncate">{user?.email}</span>
+              {user ? (
+                <div className="border border-[rgb(51,51,51)] rounded-lg p-3 sm:p-4">
+                  <div className="flex items-center min-w-0">
+                    <Mail className="h-4 w-4 mr-2 text-[rgb(94,94,94)] flex-shrink-0" />
+                    <span className="text-white text-sm truncate">{user.email}</span>
+                  </div>
                 </div>
-              </div>
+              ) : (
+                <div>
+                  <div className="flex items-center justify-between mb-4 sm:mb-6">
+                    <h2 className="text-lg sm:text-xl font-semibold text-white flex items-center">
+                      <Mail className="h-4 w-4 sm:h-5 sm:w-5 mr-2" />
+                      Contact
+                    </h2>
+                    <button
+                      type="button"
+                      onClick={() => setShowAuthModal(true)}
+                      className="text-sm text-[rgb(94,94,94)] hover:text-white underline transition-colors"
+                    >
+                      Sign in
+                    </button>
+                  </div>
+                  <Input
+                    type="email"
+                    label="Email"
+                    variant="dark"
+                    {...register('email')}
+                    error={errors.email?.message}
+                    helperText="You'll need it to look up your order. Sign up with this email later and the order moves to your account."
+                  />
+                </div>
+              )}
 
               {/* Delivery Section */}
               <div>
@@ -481,6 +593,26 @@ const CheckoutPage = () => {
                     error={errors.apartment?.message}
                   />
 
+                  {watchedCountry === 'Sri Lanka' && (
+                    <div>
+                      <label className="block text-sm font-medium text-[rgb(94,94,94)] mb-2">
+                        District
+                      </label>
+                      <select
+                        {...register('district')}
+                        className="w-full px-4 py-2.5 bg-black text-white border border-[rgb(51,51,51)] rounded-lg hover:border-[rgb(94,94,94)] focus:outline-none focus:border-white transition-colors"
+                      >
+                        <option value="" className="bg-black">Select district</option>
+                        {SRI_LANKA_DISTRICTS.map((district) => (
+                          <option key={district} value={district} className="bg-black">{district}</option>
+                        ))}
+                      </select>
+                      {errors.district && (
+                        <p className="mt-2 text-sm text-red-400">{errors.district.message}</p>
+                      )}
+                    </div>
+                  )}
+
                   <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
                     <Input
                       label="City"
@@ -519,17 +651,19 @@ const CheckoutPage = () => {
                   </div>
 
                   {/* Save Delivery Information Checkbox */}
-                  <div className="pt-4 border-t border-[rgb(51,51,51)]">
-                    <label className="flex items-center cursor-pointer">
-                      <input
-                        type="checkbox"
-                        checked={saveDeliveryInfo}
-                        onChange={(e) => setSaveDeliveryInfo(e.target.checked)}
-                        className="mr-3 text-white accent-white"
-                      />
-                      <span className="text-white text-sm">Save this delivery information for future orders</span>
-                    </label>
-                  </div>
+                  {user && (
+                    <div className="pt-4 border-t border-[rgb(51,51,51)]">
+                      <label className="flex items-center cursor-pointer">
+                        <input
+                          type="checkbox"
+                          checked={saveDeliveryInfo}
+                          onChange={(e) => setSaveDeliveryInfo(e.target.checked)}
+                          className="mr-3 text-white accent-white"
+                        />
+                        <span className="text-white text-sm">Save this delivery information for future orders</span>
+                      </label>
+                    </div>
+                  )}
                 </div>
               </div>
 
@@ -540,78 +674,53 @@ const CheckoutPage = () => {
                   Shipping Method
                 </h2>
                 <div className="border-2 border-[rgb(51,51,51)] rounded-lg overflow-hidden">
-                  <label className={`relative flex items-center p-3 sm:p-4 cursor-pointer transition-all duration-200 border-b border-[rgb(51,51,51)] last:border-b-0 ${
-                    watchedShippingMethod === 'standard'
-                      ? 'bg-white/5'
-                      : 'hover:bg-white/2'
-                  }`}>
-                    <input
-                      type="radio"
-                      value="standard"
-                      {...register('shippingMethod')}
-                      className="sr-only"
-                    />
-                    <div className={`w-5 h-5 rounded-full border-2 mr-4 flex items-center justify-center ${
-                      watchedShippingMethod === 'standard'
-                        ? 'border-white'
-                        : 'border-[rgb(94,94,94)]'
+                  {pricing?.shipping_options.map((option) => (
+                    <label key={option.code} className={`relative flex items-center p-3 sm:p-4 cursor-pointer transition-all duration-200 border-b border-[rgb(51,51,51)] last:border-b-0 ${
+                      watchedShippingMethod === option.code
+                        ? 'bg-white/5'
+                        : 'hover:bg-white/2'
                     }`}>
-                      {watchedShippingMethod === 'standard' && (
-                        <div className="w-2 h-2 rounded-full bg-white"></div>
-                      )}
-                    </div>
-                    <div className="flex-1 min-w-0">
-                      <div className="flex justify-between items-center">
-                        <div className="min-w-0">
-                          <p className="text-white font-medium flex items-center">
-                            <Truck className="w-4 h-4 mr-2 flex-shrink-0" />
-                            <span className="truncate">Standard</span>
-                          </p>
-                          <p className="text-[rgb(94,94,94)] text-sm">2-4 business days</p>
-                        </div>
-                        <p className="text-white font-medium flex-shrink-0 ml-2">
-                          {subtotal >= FREE_SHIPPING_THRESHOLD ? 'FREE' : 'Rs 399'}
-                        </p>
+                      <input
+                        type="radio"
+                        value={option.code}
+                        {...register('shippingMethod')}
+                        className="sr-only"
+                      />
+                      <div className={`w-5 h-5 rounded-full border-2 mr-4 flex items-center justify-center ${
+                        watchedShippingMethod === option.code
+                          ? 'border-white'
+                          : 'border-[rgb(94,94,94)]'
+                      }`}>
+                        {watchedShippingMethod === option.code && (
+                          <div className="w-2 h-2 rounded-full bg-white"></div>
+                        )}
                       </div>
-                    </div>
-                  </label>
-
-                  <label className={`relative flex items-center p-3 sm:p-4 cursor-pointer transition-all duration-200 ${
-                    watchedShippingMethod === 'express'
-                      ? 'bg-white/5'
-                      : 'hover:bg-white/2'
-                  }`}>
-                    <input
-                      type="radio"
-                      value="express"
-                      {...register('shippingMethod')}
-                      className="sr-only"
-                    />
-                    <div className={`w-5 h-5 rounded-full border-2 mr-4 flex items-center justify-center ${
-                      watchedShippingMethod === 'express'
-                        ? 'border-white'
-                        : 'border-[rgb(94,94,94)]'
-                    }`}>
-                      {watchedShippingMethod === 'express' && (
-                        <div className="w-2 h-2 rounded-full bg-white"></div>
-                      )}
-                    </div>
-                    <div className="flex-1 min-w-0">
-                      <div className="flex justify-between items-center">
-                        <div className="min-w-0">
-                          <p className="text-white font-medium flex items-center">
-                            <Clock className="w-4 h-4 mr-2 flex-shrink-0" />
-                            <span className="truncate">Express</span>
+                      <div className="flex-1 min-w-0">
+                        <div className="flex justify-between items-center">
+                          <div className="min-w-0">
+                            <p className="text-white font-medium flex items-center">
+                              <Truck className="w-4 h-4 mr-2 flex-shrink-0" />
+                              <span className="truncate">{option.name}</span>
+                            </p>
+                            <p className="text-[rgb(94,94,94)] text-sm">
+                              {formatDeliveryDays(option.min_days, option.max_days)}
+                              {option.description && ` • ${option.description}`}
+                            </p>
+                          </div>
+                          <p className="text-white font-medium flex-shrink-0 ml-2">
+                            {option.cost === 0 ? 'FREE' : `Rs ${option.cost.toLocaleString()}`}
                           </p>
-                          <p className="text-red-400 text-sm font-medium">Only within Colombo</p>
                         </div>
-                        <p className="text-white font-medium flex-shrink-0 ml-2">
-                          {subtotal >= FREE_SHIPPING_THRESHOLD ? 'FREE' : 'Rs 699'}
-                        </p>
                       </div>
-                    </div>
-                  </label>
+                    </label>
+                  ))}
+                  {!pricing && (
+                    <p className="p-3 sm:p-4 text-sm text-[rgb(94,94,94)]">Loading shipping options...</p>
+                  )}
                 </div>
+                {pricing?.shipping_error && (
+                  <p className="mt-2 text-sm text-red-400">{pricing.shipping_error}</p>
+                )}
                 {errors.shippingMethod && (
                   <p className="mt-2 text-sm text-red-400">{errors.shippingMethod.message}</p>
                 )}
@@ -624,104 +733,74 @@ const CheckoutPage = () => {
                   Payment
                 </h2>
                 <div className="border-2 border-[rgb(51,51,51)] rounded-lg overflow-hidden">
-                  <label className={`relative flex items-center p-3 sm:p-4 cursor-pointer transition-all duration-200 border-b border-[rgb(51,51,51)] ${
-                    watchedPaymentMethod === 'payhere'
-                      ? 'bg-white/5'
-                      : 'hover:bg-white/2'
-                  }`}>
-                    <input
-                      type="radio"
-                      value="payhere"
-                      {...register('paymentMethod')}
-                      className="sr-only"
-                    />
-                    <div className={`w-5 h-5 rounded-full border-2 mr-4 flex items-center justify-center ${
-                      watchedPaymentMethod === 'payhere'
-                        ? 'border-white'
-                        : 'border-[rgb(94,94,94)]'
-                    }`}>
-                      {watchedPaymentMethod === 'payhere' && (
-                        <div className="w-2 h-2 rounded-full bg-white"></div>
-                      )}
-                    </div>
-                    <div className="flex-1 flex flex-col sm:flex-row sm:items-center sm:justify-between space-y-2 sm:space-y-0">
-                      <div className="flex items-center min-w-0">
-                        <CreditCard className="w-4 h-4 mr-3 text-white flex-shrink-0" />
-                        <div className="min-w-0">
-                          <p className="text-white font-medium">PayHere</p>
-                          <p className="text-[rgb(94,94,94)] text-sm">Credit/Debit Cards</p>
-                        </div>
-                      </div>
-                      <a href="https://www.payhere.lk" target="_blank" rel="noopener noreferrer" className="flex-shrink-0">
-                        <img
-                          src="https://www.payhere.lk/downloads/images/payhere_short_banner.png"
-                          alt="PayHere"
-                          className="max-w-[150px] sm:max-w-[200px] h-auto"
+                  {paymentMethods.map((code, index) => {
+                    const method = PAYMENT_METHODS[code];
+                    const Icon = code === 'bank' ? Building
+                      : code === 'cod' ? Banknote
+                      : code === 'fake' ? FlaskConical
+                      : CreditCard;
+                    const codUnavailable = code === 'cod' && pricing && !pricing.cod.available;
+                    const description = code === 'cod' && pricing
+                      ? pricing.cod.reason
+                        || (pricing.cod.fee > 0 ? `${method.description} (+ LKR ${pricing.cod.fee.toLocaleString()})` : method.description)
+                      : method.description;
+
+                    return (
+                      <label key={code} className={`relative flex items-center p-3 sm:p-4 transition-all duration-200 ${
+                        codUnavailable ? 'cursor-not-allowed opacity-60' : 'cursor-pointer'
+                      } ${
+                        index < paymentMethods.length - 1 ? 'border-b border-[rgb(51,51,51)]' : ''
+                      } ${
+                        watchedPaymentMethod === code
+                          ? 'bg-white/5'
+                          : 'hover:bg-white/2'
+                      }`}>
+                        <input
+                          type="radio"
+                          value={code}
+                          {...register('paymentMethod')}
+                          disabled={!!codUnavailable}
+                          className="sr-only"
                         />
-                      </a>                    </div>
-                  </label>
-
-                  <label className={`relative flex items-center p-3 sm:p-4 cursor-pointer transition-all duration-200 border-b border-[rgb(51,51,51)] ${
-                    watchedPaymentMethod === 'bank'
-                      ? 'bg-white/5'
-                      : 'hover:bg-white/2'
-                  }`}>
-                    <input
-                      type="radio"
-                      value="bank"
-                      {...register('paymentMethod')}
-                      className="sr-only"
-                    />
-                    <div className={`w-5 h-5 rounded-full border-2 mr-4 flex items-center justify-center ${
-                      watchedPaymentMethod === 'bank'
-                        ? 'border-white'
-                        : 'border-[rgb(94,94,94)]'
-                    }`}>
-                      {watchedPaymentMethod === 'bank' && (
-                        <div className="w-2 h-2 rounded-full bg-white"></div>
-                      )}
-                    </div>
-                    <div className="flex items-center min-w-0">
-                      <Building className="w-4 h-4 mr-3 text-white flex-shrink-0" />
-                      <div className="min-w-0">
-                        <p className="text-white font-medium">Bank Transfer</p>
-                        <p className="text-[rgb(94,94,94)] text-sm">Direct bank transfer</p>
-                      </div>
-                    </div>
-                  </label>
-
-                  <label className={`relative flex items-center p-3 sm:p-4 cursor-pointer transition-all duration-200 ${
-                    watchedPaymentMethod === 'cod'
-                      ? 'bg-white/5'
-                      : 'hover:bg-white/2'
-                  }`}>
-                    <input
-                      type="radio"
-                      value="cod"
-                      {...register('paymentMethod')}
-                      className="sr-only"
-                    />
-                    <div className={`w-5 h-5 rounded-full border-2 mr-4 flex items-center justify-center ${
-                      watchedPaymentMethod === 'cod'
-                        ? 'border-white'
-                        : 'border-[rgb(94,94,94)]'
-                    }`}>
-                      {watchedPaymentMethod === 'cod' && (
-                        <div className="w-2 h-2 rounded-full bg-white"></div>
-                      )}
-                    </div>
-                    <div className="flex items-center min-w-0">
-                      <Banknote className="w-4 h-4 mr-3 text-white flex-shrink-0" />
-                      <div className="min-w-0">
-                        <p className="text-white font-medium">Cash on Delivery</p>
-                        <p className="text-red-400 text-sm font-medium">Only in Colombo</p>
-                      </div>
-                    </div>
-                  </label>
+                        <div className={`w-5 h-5 rounded-full border-2 mr-4 flex items-center justify-center ${
+                          watchedPaymentMethod === code
+                            ? 'border-white'
+                            : 'border-[rgb(94,94,94)]'
+                        }`}>
+                          {watchedPaymentMethod === code && (
+                            <div className="w-2 h-2 rounded-full bg-white"></div>
+                          )}
+                        </div>
+                        <div className="flex-1 flex flex-col sm:flex-row sm:items-center sm:justify-between space-y-2 sm:space-y-0">
+                          <div className="flex items-center min-w-0">
+                            <Icon className="w-4 h-4 mr-3 text-white flex-shrink-0" />
+                            <div className="min-w-0">
+                              <p className="text-white font-medium">{method.name}</p>
+                              <p className={codUnavailable ? 'text-red-400 text-sm font-medium' : 'text-[rgb(94,94,94)] text-sm'}>
+                                {description}
+                              </p>
+                            </div>
+                          </div>
+                          {code === 'payhere' && (
+                            <a href="https://www.payhere.lk" target="_blank" rel="noopener noreferrer" className="flex-shrink-0">
+                              <img
+                                src="https://www.payhere.lk/downloads/images/payhere_short_banner.png"
+                                alt="PayHere"
+                                className="max-w-[150px] sm:max-w-[200px] h-auto"
+                              />
+                            </a>
+                          )}
+                        </div>
+                      </label>
+                    );
+                  })}
                 </div>
                 {errors.paymentMethod && (
                   <p className="mt-2 text-sm text-red-400">{errors.paymentMethod.message}</p>
                 )}
+                {pricing?.payment_error && (
+                  <p className="mt-2 text-sm text-red-400">{pricing.payment_error}</p>
+                )}
               </div>
 
               {/* Billing Address */}
@@ -794,6 +873,7 @@ const CheckoutPage = () => {
               <Button
                 type="submit"
                 loading={loading}
+                disabled={!pricing}
                 fullWidth
                 size="lg"
                 className="bg-black text-white border-2 border-white hover:bg-white hover:text-black font-bold py-3 sm:py-4 text-base sm:text-lg transition-colors duration-200 rounded-lg min-h-[48px] sm:min-h-[56px]"
@@ -828,24 +908,49 @@ const CheckoutPage = () => {
                       <p className="text-xs sm:text-sm text-gray-400">Qty: {item.quantity}</p>
                     </div>
                     <p className="font-medium text-white text-xs sm:text-sm flex-shrink-0">
-                      LKR {(item.price * item.quantity).toLocaleString()}
+                      LKR {(getLinePrice(item.variantId, item.price) * item.quantity).toLocaleString()}
                     </p>
                   </div>
                 ))}
               </div>
 
+              <div className="mb-4 sm:mb-6">
+                <DiscountCodeInput
+                  variant="dark"
+                  appliedCode={discountCode}
+                  error={pricing?.discount_error}
+                  onApply={setDiscountCode}
+                  onRemove={() => setDiscountCode(null)}
+                />
+              </div>
+
               <div className="border-t border-[rgb(51,51,51)] pt-4 sm:pt-6 space-y-2 sm:space-y-3">
+                {pricingError && (
+                  <p className="text-sm text-red-400">{pricingError}</p>
+                )}
                 <div className="flex justify-between text-white text-sm sm:text-base">
                   <span>Subtotal</span>
-                  <span>LKR {subtotal.toLocaleString()}</span>
+                  <span>{pricing ? `LKR ${subtotal.toLocaleString()}` : '...'}</span>
                 </div>
                 <div className="flex justify-between text-white text-sm sm:text-base">
                   <span>Shipping</span>
-                  <span>{shipping === 0 ? 'FREE' : `LKR ${shipping.toLocaleString()}`}</span>
+                  <span>{pricing ? (shipping === 0 ? 'FREE' : `LKR ${shipping.toLocaleString()}`) : '...'}</span>
                 </div>
+                {pricing?.discounts.map((discount) => (
+                  <div key={discount.code} className="flex justify-between text-green-400 text-sm sm:text-base">
+                    <span>{discount.description}</span>
+                    <span>-LKR {discount.amount.toLocaleString()}</span>
+                  </div>
+                ))}
+                {paymentFee > 0 && (
+                  <div className="flex justify-between text-white text-sm sm:text-base">
+                    <span>Cash on delivery fee</span>
+                    <span>LKR {paymentFee.toLocaleString()}</span>
+                  </div>
+                )}
                 <div className="flex justify-between text-lg sm:text-xl font-semibold text-white pt-2 sm:pt-3 border-t border-[rgb(51,51,51)]">
                   <span>Total</span>
-                  <span>LKR {total.toLocaleString()}</span>
+                  <span>{pricing ? `LKR ${total.toLocaleString()}` : '...'}</span>
                 </div>
               </div>
             </div>
@@ -853,6 +958,17 @@ const CheckoutPage = () => {
         </div>
       </div>
 
+      {/* Signing in loads the saved delivery address */}
+      <Modal
+        isOpen={showAuthModal}
+        onClose={() => setShowAuthModal(false)}
+        title=""
+      >
+        <AuthForm
+          onSuccess={() => setShowAuthModal(false)}
+          onClose={() => setShowAuthModal(false)}
+        />
+      </Modal>
     </div>
   );
 };
@@ -68,10 +68,12 @@ const CollectionDetailPage = () => {
     title: item.products.title,
     price: item.products.price,
     brand: item.products.brands?.name,
+    rating: item.products.rating_average,
+    reviewCount: item.products.review_count,
     image: item.products.product_images?.[0]?.storage_path,
     images: item.products.product_images?.map(img => img.storage_path) || [],
     variants: item.products.product_variants?.filter(v => v.is_active !== false) || [],
-    position: item.position
+    position: item.display_order
   })).sort((a, b) => a.position - b.position) || [];
 
   // Generate breadcrumb items
@@ -10,14 +10,16 @@ import MiddleBanner from '../components/ui/MiddleBanner';
 import CategoryTiles from '../components/ui/CategoryTiles';
 import PinnedCollectionSection from '../components/collections/PinnedCollectionSection';
 import { fetchPinnedCollection } from '../services/collectionsService';
+import { PinnedCollection } from '../types/collection';
+import { ProductCardItem } from '../types/product';
 import middleBannerImage from '../assests/Middle_Banner.png';
 import SEOHead from '../components/seo/SEOHead';
 import { generateSEOData } from '../hooks/useSEO';
 import { organizationSchema, websiteSchema } from '../utils/structuredData';
 
 const HomePage = () => {
-  const [featuredProducts, setFeaturedProducts] = useState([]);
-  const [pinnedCollection, setPinnedCollection] = useState(null);
+  const [featuredProducts, setFeaturedProducts] = useState<ProductCardItem[]>([]);
+  const [pinnedCollection, setPinnedCollection] = useState<PinnedCollection | null>(null);
   const [loading, setLoading] = useState(true);
   const [pinnedLoading, setPinnedLoading] = useState(true);
   const scrollContainerRef = useRef<HTMLDivElement>(null);
@@ -86,6 +88,8 @@ const HomePage = () => {
           slug,
           price,
           featured,
+          rating_average,
+          review_count,
           brands (
             slug,
             name
@@ -114,6 +118,8 @@ const HomePage = () => {
         brand: product.brands?.name,
         price: product.price,
         featured: product.featured,
+        rating: product.rating_average,
+        reviewCount: product.review_count,
         image: product.product_images?.[0]?.storage_path,
         images: product.product_images?.map(img => img.storage_path) || [],
         variants: product.product_variants?.filter(v => v.is_active !== false) || []
@@ -3,6 +3,8 @@ import { Eye, MessageCircle, CheckCircle, Clock, XCircle, AlertCircle } from 'lu
 import { useAuth } from '../hooks/useAuth';
 import { supabase } from '../lib/supabase';
 import { showSuccessToast, showErrorToast } from '../components/ui/CustomToast';
+import { fetchSupportRequestReplies } from '../services/emailService';
+import { SupportRequestReply } from '../types/email';
 
 interface SupportRequest {
   id: string;
@@ -25,6 +27,17 @@ const MyRequestsPage: React.FC = () => {
   const [supportRequests, setSupportRequests] = useState<SupportRequest[]>([]);
   const [loading, setLoading] = useState(true);
   const [selectedRequest, setSelectedRequest] = useState<SupportRequest | null>(null);
+  const [replies, setReplies] = useState<SupportRequestReply[]>([]);
+  const selectedRequestId = selectedRequest?.id;
+
+  useEffect(() => {
+    setReplies([]);
+    if (!selectedRequestId) return;
+
+    fetchSupportRequestReplies(selectedRequestId)
+      .then(setReplies)
+      .catch(error => console.error('Error fetching replies:', error));
+  }, [selectedRequestId]);
 
   useEffect(() => {
     if (user) {
@@ -279,6 +292,20 @@ const MyRequestsPage: React.FC = () => {
                   </div>
                 </div>
 
+                {replies.length > 0 && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-400 mb-1">Replies from Kixora</label>
+                    <div className="space-y-2">
+                      {replies.map((reply) => (
+                        <div key={reply.id} className="bg-gray-900 border border-gray-700 rounded p-3">
+                          <p className="text-white whitespace-pre-wrap">{reply.message}</p>
+                          <p className="text-gray-400 text-xs mt-1">{new Date(reply.created_at).toLocaleString()}</p>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
                 <div>
                   <label className="block text-sm font-medium text-gray-400 mb-1">Status</label>
                   <span className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ${getStatusColor(selectedRequest.status)}`}>
@@ -7,13 +7,22 @@ import { supabase } from '../lib/supabase';
 import Button from '../components/ui/Button';
 import { showErrorToast } from '../components/ui/CustomToast';
 import Breadcrumb from '../components/ui/Breadcrumb';
+import ShipmentTimeline from '../components/orders/ShipmentTimeline';
+import { Shipment } from '../types/shipment';
 
 interface Order {
   id: string;
   total: number;
   currency: string;
   status: 'pending' | 'confirmed' | 'processing' | 'shipped' | 'delivered' | 'cancelled';
+  payment_status: string;
   created_at: string;
+  refunds: Array<{
+    amount: number;
+    kind: 'refund' | 'chargeback';
+    status: 'pending' | 'succeeded' | 'failed';
+  }>;
+  shipments: Shipment[];
   order_items: Array<{
     id: string;
     product_title: string;
@@ -60,7 +69,18 @@ const OrderDashboard = () => {
           total,
           currency,
           status,
+          payment_status,
           created_at,
+          refunds (
+            amount,
+            kind,
+            status
+          ),
+          shipments (
+            *,
+            couriers ( name ),
+            shipment_events ( * )
+          ),
           order_items (
             id,
             product_title,
@@ -407,6 +427,18 @@ const OrderDashboard = () => {
                       </div>
                     </div>
 
+                    {/* Tracking */}
+                    {['shipped', 'delivered'].includes(order.status) && order.shipments?.length > 0 && (
+                      <div className="px-6 py-3 border-t border-gray-200">
+                        <ShipmentTimeline
+                          shipments={order.shipments
+                            .slice()
+                            .sort((a, b) => a.created_at.localeCompare(b.created_at))}
+                          compact
+                        />
+                      </div>
+                    )}
+
                     {/* Order Footer */}
                     <div className="px-6 py-3 border-t border-gray-200 bg-gray-50">
                       <div className="flex items-center justify-between">
@@ -414,6 +446,14 @@ const OrderDashboard = () => {
                           <span className="text-sm font-semibold text-gray-900">
                             Total: LKR {order.total.toLocaleString()}
                           </span>
+                          {order.refunds?.some(refund => refund.status === 'succeeded') && (
+                            <span className="ml-3 text-xs text-gray-500">
+                              Refunded LKR {order.refunds
+                                .filter(refund => refund.status === 'succeeded')
+                                .reduce((sum, refund) => sum + Number(refund.amount), 0)
+                                .toLocaleString()}
+                            </span>
+                          )}
                         </div>
                         <Button
                           variant="outline"
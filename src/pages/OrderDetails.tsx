@@ -1,5 +1,5 @@
-import { useState, useEffect } from 'react';
-import { useParams, useNavigate } from 'react-router-dom';
+import { useCallback, useState, useEffect } from 'react';
+import { useParams, useNavigate, useSearchParams } from 'react-router-dom';
 import { motion } from 'framer-motion';
 import {
   ArrowLeft,
@@ -13,28 +13,63 @@ import {
   Phone,
   CreditCard,
   Calendar,
-  Hash
+  Hash,
+  Star,
+  RotateCcw,
+  XCircle,
+  FileText
 } from 'lucide-react';
 import { useAuth } from '../hooks/useAuth';
 import { supabase } from '../lib/supabase';
 import Button from '../components/ui/Button';
 import { showErrorToast } from '../components/ui/CustomToast';
+import ReviewForm from '../components/reviews/ReviewForm';
+import CancelOrderModal from '../components/orders/CancelOrderModal';
+import ReturnRequestForm, { ReturnableLine } from '../components/orders/ReturnRequestForm';
+import ShipmentTimeline from '../components/orders/ShipmentTimeline';
+import BankTransferPayment from '../components/orders/BankTransferPayment';
+import { fetchUserReviews } from '../services/reviewService';
+import { checkOrderReservation } from '../services/paymentService';
+import { fetchGuestOrder } from '../services/orderService';
+import { fetchOrderRefunds } from '../services/refundService';
+import { fetchOrderShipments } from '../services/shipmentService';
+import {
+  fetchOrderReturns,
+  fetchReturnWindowDays,
+  getReturnPhotoUrl,
+  updateReturnStatus
+} from '../services/returnService';
+import { Refund } from '../types/order';
+import { RETURN_REASONS, RETURN_STATUS_LABELS, ReturnRequest } from '../types/return';
+import { Review } from '../types/review';
+import { Shipment } from '../types/shipment';
+import { isOnlinePaymentMethod } from '../paymentProviders/methods';
 
 interface OrderDetail {
   id: string;
   order_number: string;
+  user_id: string | null;
+  subtotal: number | null;
+  discount_amount: number | null;
+  discount_code: string | null;
   total: number;
   currency: string;
   status: 'pending' | 'confirmed' | 'processing' | 'shipped' | 'delivered' | 'cancelled' | 'refunded';
-  payment_status: 'pending' | 'paid' | 'failed' | 'refunded';
+  payment_status: 'pending' | 'paid' | 'failed' | 'refunded' | 'expired' | 'partially_refunded' | 'chargedback';
   payment_method: string;
   shipping_method: string;
   shipping_cost: number;
+  payment_fee: number | null;
   created_at: string;
   updated_at: string;
   shipping_address: any;
   billing_address: any;
   estimated_delivery_days: number;
+  reserved_until: string | null;
+  cancellation_reason: string | null;
+  delivered_at: string | null;
+  guest_email: string | null;
+  guest_phone: string | null;
   order_items: Array<{
     id: string;
     product_title: string;
@@ -48,6 +83,7 @@ interface OrderDetail {
     total_price: number;
     product_variant_id: string;
     product_variants?: {
+      product_id: string;
       products?: {
         product_images?: Array<{
           storage_path: string;
@@ -58,55 +94,75 @@ interface OrderDetail {
   profiles: {
     full_name: string;
     email: string;
-  };
+  } | null;
 }
 
 const OrderDetails = () => {
   const { orderId } = useParams();
   const navigate = useNavigate();
-  const { user } = useAuth();
+  const [searchParams] = useSearchParams();
+  const { user, loading: authLoading } = useAuth();
+  // Guests open the order from a link carrying its access token
+  const accessToken = searchParams.get('token');
   const [order, setOrder] = useState<OrderDetail | null>(null);
   const [loading, setLoading] = useState(true);
+  const [reviews, setReviews] = useState<Record<string, Review>>({});
+  const [reviewTarget, setReviewTarget] = useState<{ productId: string; title: string } | null>(null);
+  const [refunds, setRefunds] = useState<Refund[]>([]);
+  const [shipments, setShipments] = useState<Shipment[]>([]);
+  const [returns, setReturns] = useState<ReturnRequest[]>([]);
+  const [returnWindowDays, setReturnWindowDays] = useState(14);
+  const [showCancelModal, setShowCancelModal] = useState(false);
+  const [showReturnForm, setShowReturnForm] = useState(false);
 
-  useEffect(() => {
-    if (orderId && user) {
-      fetchOrderDetails();
-    }
-  }, [orderId, user]);
-
-  const fetchOrderDetails = async () => {
+  const fetchOrderDetails = useCallback(async () => {
     try {
-      const { data, error } = await supabase
-        .from('orders')
-        .select(`
-          *,
-          order_items (
-            id,
-            product_title,
-            variant_info,
-            quantity,
-            unit_price,
-            total_price,
-            product_variant_id,
-            product_variants (
-              products (
-                product_images (
-                  storage_path
+      const { data, error } = accessToken
+        ? { data: await fetchGuestOrder(orderId!, accessToken), error: null }
+        : await supabase
+          .from('orders')
+          .select(`
+            *,
+            order_items (
+              id,
+              product_title,
+              variant_info,
+              quantity,
+              unit_price,
+              total_price,
+              product_variant_id,
+              product_variants (
+                product_id,
+                products (
+                  product_images (
+                    storage_path
+                  )
                 )
               )
+            ),
+            profiles (
+              full_name,
+              email
             )
-          ),
-          profiles (
-            full_name,
-            email
-          )
-        `)
-        .eq('id', orderId)
-        .eq('user_id', user!.id)
-        .single();
+          `)
+          .eq('id', orderId)
+          .eq('user_id', user!.id)
+          .single();
 
       if (error) throw error;
 
+      // A lapsed payment window is only released once someone looks at it
+      if (data.status === 'pending' && data.payment_status === 'pending'
+          && data.reserved_until && new Date(data.reserved_until) <= new Date()) {
+        const reservation = await checkOrderReservation(data.id, accessToken || undefined);
+        Object.assign(data, {
+          status: reservation.status,
+          payment_status: reservation.payment_status,
+          reserved_until: reservation.reserved_until,
+          cancellation_reason: reservation.cancellation_reason,
+        });
+      }
+
       const orderDate = new Date(data.created_at);
       const currentDate = new Date();
       const daysSinceOrder = Math.floor((currentDate.getTime() - orderDate.getTime()) / (1000 * 3600 * 24));
@@ -115,13 +171,92 @@ const OrderDetails = () => {
         ...data,
         estimated_delivery_days: Math.max(0, 7 - daysSinceOrder)
       });
+
+      // Tracking is secondary, so a failure here shouldn't hide the order
+      fetchOrderShipments(data.id, accessToken || undefined)
+        .then(setShipments)
+        .catch(shipmentsError => console.error('Error fetching shipments:', shipmentsError));
+
+      // Refunds, returns and reviews belong to an account
+      if (!user || data.user_id !== user.id) return;
+
+      // Cancelled and delivered orders may have refunds still in progress
+      if (['partially_refunded', 'refunded', 'chargedback'].includes(data.payment_status)
+          || ['cancelled', 'delivered'].includes(data.status)) {
+        const orderRefunds = await fetchOrderRefunds(data.id);
+        setRefunds(orderRefunds.filter(refund => refund.status !== 'failed'));
+      }
+
+      // Delivered orders can be reviewed and returned, so load existing reviews and requests
+      if (data.status === 'delivered') {
+        const [orderReturns, windowDays] = await Promise.all([
+          fetchOrderReturns(data.id),
+          fetchReturnWindowDays()
+        ]);
+        setReturns(orderReturns);
+        setReturnWindowDays(windowDays);
+
+        const productIds = (data.order_items as OrderDetail['order_items'])
+          .map(item => item.product_variants?.product_id)
+          .filter((id): id is string => !!id);
+        const userReviews = await fetchUserReviews(user.id, productIds);
+        setReviews(Object.fromEntries(userReviews.map(review => [review.product_id, review])));
+      }
     } catch (error) {
       console.error('Error fetching order details:', error);
       showErrorToast('Failed to load order details');
-      navigate('/orders');
+      navigate(accessToken ? '/orders/lookup' : '/orders');
     } finally {
       setLoading(false);
     }
+  }, [orderId, accessToken, user, navigate]);
+
+  useEffect(() => {
+    if (!orderId || authLoading) return;
+
+    if (accessToken || user) {
+      fetchOrderDetails();
+    } else {
+      navigate('/orders/lookup', { replace: true });
+    }
+  }, [orderId, user, accessToken, authLoading, fetchOrderDetails, navigate]);
+
+  const handleCancelReturn = async (request: ReturnRequest) => {
+    try {
+      const updated = await updateReturnStatus(request.id, 'cancelled');
+      setReturns(prev => prev.map(item => item.id === updated.id ? { ...item, ...updated } : item));
+    } catch (error: any) {
+      console.error('Error cancelling return request:', error);
+      showErrorToast(error.message || 'Failed to cancel return request');
+    }
+  };
+
+  // Units of each line not refunded yet and not in another open request
+  const getReturnableLines = (): ReturnableLine[] => {
+    if (!order) return [];
+
+    return order.order_items.map(item => {
+      const refunded = refunds
+        .filter(refund => refund.kind === 'refund')
+        .flatMap(refund => refund.refund_items || [])
+        .filter(refundItem => refundItem.order_item_id === item.id)
+        .reduce((sum, refundItem) => sum + refundItem.quantity, 0);
+      const inOpenRequests = returns
+        .filter(request => ['requested', 'approved', 'received'].includes(request.status))
+        .flatMap(request => request.return_request_items || [])
+        .filter(returnItem => returnItem.order_item_id === item.id)
+        .reduce((sum, returnItem) => sum + returnItem.quantity, 0);
+
+      return {
+        id: item.id,
+        product_title: item.product_title,
+        product_id: item.product_variants?.product_id || null,
+        product_variant_id: item.product_variant_id,
+        size: item.variant_info.size || null,
+        color: item.variant_info.color || null,
+        returnable: Math.max(0, item.quantity - refunded - inOpenRequests),
+      };
+    });
   };
 
   const getStatusSteps = () => {
@@ -157,8 +292,8 @@ const OrderDetails = () => {
         <div className="text-center">
           <Package className="w-12 h-12 text-gray-400 mx-auto mb-3" />
           <h2 className="text-xl font-bold text-black mb-2">Order not found</h2>
-          <Button onClick={() => navigate('/orders')} className="bg-black text-white hover:bg-gray-800">
-            Back to Orders
+          <Button onClick={() => navigate(user ? '/orders' : '/')} className="bg-black text-white hover:bg-gray-800">
+            {user ? 'Back to Orders' : 'Back to Shop'}
           </Button>
         </div>
       </div>
@@ -166,6 +301,21 @@ const OrderDetails = () => {
   }
 
   const statusSteps = getStatusSteps();
+  // Viewers through a guest link can follow the order but not change it
+  const isOwner = !!user && order.user_id === user.id;
+  const canCancel = isOwner
+    && ['pending', 'confirmed', 'processing'].includes(order.status)
+    && !['expired', 'failed'].includes(order.payment_status);
+  const returnableLines = order.status === 'delivered' ? getReturnableLines() : [];
+  const returnWindowEnds = new Date(
+    new Date(order.delivered_at || order.updated_at).getTime() + returnWindowDays * 24 * 3600 * 1000
+  );
+  const canRequestReturn = isOwner
+    && order.status === 'delivered'
+    && returnWindowEnds > new Date()
+    && returnableLines.some(line => line.returnable > 0);
+  const canDownloadInvoice = order.status !== 'cancelled'
+    && !['expired', 'failed'].includes(order.payment_status);
 
   return (
     <div className="min-h-screen bg-white">
@@ -173,7 +323,7 @@ const OrderDetails = () => {
         {/* Header */}
         <div className="mb-6">
           <button
-            onClick={() => navigate('/orders')}
+            onClick={() => navigate(user ? '/orders' : '/')}
             className="flex items-center text-gray-600 hover:text-black mb-4 transition-colors"
           >
             <ArrowLeft className="w-4 h-4 mr-2" />
@@ -206,14 +356,95 @@ const OrderDetails = () => {
                       ? 'border-black bg-black text-white'
                       : 'border-gray-400 bg-white text-gray-600'
                   }`}>
-                    {order.payment_status.toUpperCase()}
+                    {order.payment_status.replace('_', ' ').toUpperCase()}
                   </span>
                 </div>
               </div>
             </div>
+
+            {(canCancel || canRequestReturn || canDownloadInvoice) && (
+              <div className="flex flex-wrap justify-end gap-2 mt-4 pt-4 border-t border-gray-200">
+                {canDownloadInvoice && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => navigate(`/orders/${order.id}/invoice${accessToken ? `?token=${accessToken}` : ''}`)}
+                  >
+                    <FileText className="w-4 h-4 mr-1" />
+                    Download Invoice
+                  </Button>
+                )}
+                {canCancel && (
+                  <Button variant="outline" size="sm" onClick={() => setShowCancelModal(true)}>
+                    <XCircle className="w-4 h-4 mr-1" />
+                    Cancel Order
+                  </Button>
+                )}
+                {canRequestReturn && (
+                  <Button variant="outline" size="sm" onClick={() => setShowReturnForm(true)}>
+                    <RotateCcw className="w-4 h-4 mr-1" />
+                    Return / Exchange
+                  </Button>
+                )}
+              </div>
+            )}
+            {!isOwner && order.guest_email && (
+              <p className="text-xs text-gray-500 mt-3 text-right">
+                Sign up or sign in with {order.guest_email} to cancel, return or review this order.
+              </p>
+            )}
+            {isOwner && order.status === 'delivered' && (
+              <p className="text-xs text-gray-500 mt-3 text-right">
+                {returnWindowEnds > new Date()
+                  ? `Returns accepted until ${returnWindowEnds.toLocaleDateString()}`
+                  : 'The return window for this order has closed'}
+              </p>
+            )}
           </div>
         </div>
 
+        {/* Payment reservation */}
+        {order.status === 'pending' && order.payment_status === 'pending' && order.reserved_until
+          && isOnlinePaymentMethod(order.payment_method) && (
+          <div className="border border-black p-4 mb-6 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+            <div className="flex items-center">
+              <Clock className="w-4 h-4 mr-2 flex-shrink-0" />
+              <p className="text-sm text-black">
+                Awaiting payment. Your items are reserved until{' '}
+                <span className="font-semibold">
+                  {new Date(order.reserved_until).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                </span>.
+              </p>
+            </div>
+            <Button
+              onClick={() => navigate(`/payment/cancel?orderId=${order.id}${accessToken ? `&token=${accessToken}` : ''}`)}
+              className="bg-black text-white hover:bg-gray-800"
+              size="sm"
+            >
+              Retry Payment
+            </Button>
+          </div>
+        )}
+
+        {order.payment_method === 'bank' && ['pending', 'expired'].includes(order.payment_status) && (
+          <BankTransferPayment
+            order={order}
+            accessToken={accessToken || undefined}
+            canUpload={isOwner || !!accessToken}
+          />
+        )}
+
+        {order.status === 'cancelled' && order.cancellation_reason && (
+          <div className="border border-gray-300 bg-gray-50 p-4 mb-6">
+            <p className="text-sm text-black">
+              <span className="font-semibold">
+                {order.payment_status === 'expired' ? 'Payment window expired. ' : 'Order cancelled. '}
+              </span>
+              {order.cancellation_reason}
+            </p>
+          </div>
+        )}
+
         {/* Progress */}
         {order.status !== 'cancelled' && (
           <div className="border border-gray-200 p-4 mb-6">
@@ -258,6 +489,23 @@ const OrderDetails = () => {
           </div>
         )}
 
+        {/* Tracking */}
+        {shipments.some(shipment => shipment.status !== 'cancelled') && (
+          <div className="border border-gray-200 mb-6">
+            <div className="p-4 border-b border-gray-200 bg-gray-50">
+              <h3 className="text-sm font-semibold text-black">TRACKING</h3>
+            </div>
+            <ShipmentTimeline
+              shipments={shipments}
+              itemTitle={(orderItemId) => {
+                const item = order.order_items.find(orderItem => orderItem.id === orderItemId);
+                if (!item) return 'Item';
+                return item.variant_info.size ? `${item.product_title} (Size ${item.variant_info.size})` : item.product_title;
+              }}
+            />
+          </div>
+        )}
+
         {/* Details Grid */}
         <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-6">
           {/* Order Info */}
@@ -294,15 +542,19 @@ const OrderDetails = () => {
             <div className="space-y-2 text-sm">
               <div className="flex items-center">
                 <User className="w-3 h-3 mr-2 text-gray-400" />
-                <span className="text-black">{order.profiles?.full_name || 'N/A'}</span>
+                <span className="text-black">
+                  {order.profiles?.full_name
+                    || [order.shipping_address?.firstName, order.shipping_address?.lastName].filter(Boolean).join(' ')
+                    || 'N/A'}
+                </span>
               </div>
               <div className="flex items-center">
                 <Mail className="w-3 h-3 mr-2 text-gray-400" />
-                <span className="text-gray-600 text-xs">{order.profiles?.email || 'N/A'}</span>
+                <span className="text-gray-600 text-xs">{order.profiles?.email || order.guest_email || 'N/A'}</span>
               </div>
               <div className="flex items-center">
                 <Phone className="w-3 h-3 mr-2 text-gray-400" />
-                <span className="text-gray-600">{order.billing_address?.phone || 'N/A'}</span>
+                <span className="text-gray-600">{order.billing_address?.phone || order.guest_phone || 'N/A'}</span>
               </div>
             </div>
           </div>
@@ -382,6 +634,18 @@ const OrderDetails = () => {
                   <p className="text-xs text-gray-500">
                     @ LKR {item.unit_price.toLocaleString()}
                   </p>
+                  {isOwner && order.status === 'delivered' && item.product_variants?.product_id && (
+                    <button
+                      onClick={() => setReviewTarget({
+                        productId: item.product_variants!.product_id,
+                        title: item.product_title
+                      })}
+                      className="mt-1 inline-flex items-center text-xs font-medium text-black hover:underline"
+                    >
+                      <Star className="w-3 h-3 mr-1" />
+                      {reviews[item.product_variants.product_id] ? 'Edit review' : 'Write a review'}
+                    </button>
+                  )}
                 </div>
               </div>
             </div>
@@ -392,12 +656,24 @@ const OrderDetails = () => {
             <div className="space-y-2">
               <div className="flex justify-between text-sm">
                 <span className="text-gray-600">Subtotal:</span>
-                <span className="text-black">LKR {(order.total - order.shipping_cost).toLocaleString()}</span>
+                <span className="text-black">LKR {(order.subtotal ?? (order.total - order.shipping_cost - (order.payment_fee || 0))).toLocaleString()}</span>
               </div>
+              {!!order.discount_amount && (
+                <div className="flex justify-between text-sm">
+                  <span className="text-gray-600">Discount{order.discount_code ? ` (${order.discount_code})` : ''}:</span>
+                  <span className="text-black">-LKR {order.discount_amount.toLocaleString()}</span>
+                </div>
+              )}
               <div className="flex justify-between text-sm">
                 <span className="text-gray-600">Shipping:</span>
                 <span className="text-black">LKR {order.shipping_cost.toLocaleString()}</span>
               </div>
+              {!!order.payment_fee && (
+                <div className="flex justify-between text-sm">
+                  <span className="text-gray-600">Cash on delivery fee:</span>
+                  <span className="text-black">LKR {order.payment_fee.toLocaleString()}</span>
+                </div>
+              )}
               <div className="flex justify-between text-lg font-bold border-t border-gray-300 pt-2">
                 <span className="text-black">Total:</span>
                 <span className="text-black">LKR {order.total.toLocaleString()}</span>
@@ -405,7 +681,146 @@ const OrderDetails = () => {
             </div>
           </div>
         </div>
+
+        {/* Refunds */}
+        {refunds.length > 0 && (
+          <div className="border border-gray-200 mt-6">
+            <div className="p-4 border-b border-gray-200 bg-gray-50">
+              <h3 className="text-sm font-semibold text-black">REFUNDS</h3>
+            </div>
+            {refunds.map((refund, index) => (
+              <div key={refund.id} className={`p-4 ${index !== refunds.length - 1 ? 'border-b border-gray-200' : ''}`}>
+                <div className="flex items-start justify-between">
+                  <div>
+                    <p className="text-sm font-medium text-black">
+                      {refund.kind === 'chargeback' ? 'Chargeback' : 'Refund'}
+                      {refund.status === 'pending' && ' (processing)'}
+                    </p>
+                    <p className="text-xs text-gray-500 mt-1">
+                      {new Date(refund.completed_at || refund.created_at).toLocaleDateString()}
+                    </p>
+                    {refund.refund_items && refund.refund_items.length > 0 && (
+                      <p className="text-xs text-gray-500">
+                        {refund.refund_items.map(refundItem => {
+                          const item = order.order_items.find(orderItem => orderItem.id === refundItem.order_item_id);
+                          return `${refundItem.quantity} × ${item?.product_title || 'Item'}`;
+                        }).join(', ')}
+                      </p>
+                    )}
+                    {refund.reason && (
+                      <p className="text-xs text-gray-500">{refund.reason}</p>
+                    )}
+                  </div>
+                  <p className="text-sm font-semibold text-black">
+                    -{refund.currency} {Number(refund.amount).toLocaleString()}
+                  </p>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {/* Returns */}
+        {returns.length > 0 && (
+          <div className="border border-gray-200 mt-6">
+            <div className="p-4 border-b border-gray-200 bg-gray-50">
+              <h3 className="text-sm font-semibold text-black">RETURNS &amp; EXCHANGES</h3>
+            </div>
+            {returns.map((request, index) => (
+              <div key={request.id} className={`p-4 ${index !== returns.length - 1 ? 'border-b border-gray-200' : ''}`}>
+                <div className="flex items-start justify-between">
+                  <div>
+                    <p className="text-sm font-medium text-black">
+                      {request.rma_number} · {request.type === 'exchange' ? 'Exchange' : 'Return'}
+                    </p>
+                    <p className="text-xs text-gray-500 mt-1">
+                      {new Date(request.created_at).toLocaleDateString()}
+                    </p>
+                    {request.return_request_items?.map(returnItem => {
+                      const item = order.order_items.find(orderItem => orderItem.id === returnItem.order_item_id);
+                      const exchange = returnItem.exchange_variant;
+                      return (
+                        <p key={returnItem.id} className="text-xs text-gray-500">
+                          {returnItem.quantity} × {item?.product_title || 'Item'} — {RETURN_REASONS[returnItem.reason_code]}
+                          {exchange && ` → ${[exchange.color, exchange.size && `Size ${exchange.size}`].filter(Boolean).join(' • ')}`}
+                        </p>
+                      );
+                    })}
+                    {request.admin_note && (
+                      <p className="text-xs text-black mt-1">{request.admin_note}</p>
+                    )}
+                    {request.return_request_photos && request.return_request_photos.length > 0 && (
+                      <div className="flex gap-2 mt-2">
+                        {request.return_request_photos.map(photo => (
+                          <img
+                            key={photo.id}
+                            src={getReturnPhotoUrl(photo.file_path)}
+                            alt={photo.file_name || 'Return photo'}
+                            className="w-10 h-10 object-cover border border-gray-200"
+                          />
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                  <div className="flex flex-col items-end gap-2">
+                    <span className={`px-2 py-1 text-xs font-medium border ${
+                      request.status === 'completed'
+                        ? 'border-black bg-black text-white'
+                        : 'border-gray-400 bg-white text-gray-600'
+                    }`}>
+                      {RETURN_STATUS_LABELS[request.status].toUpperCase()}
+                    </span>
+                    {request.status === 'requested' && (
+                      <button
+                        onClick={() => handleCancelReturn(request)}
+                        className="text-xs text-gray-500 hover:text-black hover:underline"
+                      >
+                        Withdraw request
+                      </button>
+                    )}
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
       </div>
+
+      {showCancelModal && (
+        <CancelOrderModal
+          isOpen={showCancelModal}
+          onClose={() => setShowCancelModal(false)}
+          orderId={order.id}
+          orderNumber={order.order_number}
+          isPaid={['paid', 'partially_refunded'].includes(order.payment_status)}
+          onCancelled={() => fetchOrderDetails()}
+        />
+      )}
+
+      {user && showReturnForm && (
+        <ReturnRequestForm
+          isOpen={showReturnForm}
+          onClose={() => setShowReturnForm(false)}
+          userId={user.id}
+          orderId={order.id}
+          orderNumber={order.order_number}
+          lines={returnableLines}
+          windowDays={returnWindowDays}
+          onSubmitted={() => fetchOrderDetails()}
+        />
+      )}
+
+      {user && reviewTarget && (
+        <ReviewForm
+          isOpen={!!reviewTarget}
+          onClose={() => setReviewTarget(null)}
+          userId={user.id}
+          productId={reviewTarget.productId}
+          productTitle={reviewTarget.title}
+          existingReview={reviews[reviewTarget.productId]}
+          onSubmitted={(review) => setReviews(prev => ({ ...prev, [review.product_id]: review }))}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,234 @@
+import { useState, useEffect } from 'react';
+import { Link, useNavigate, useParams, useSearchParams } from 'react-router-dom';
+import { ArrowLeft, Printer, Settings } from 'lucide-react';
+import Button from '../components/ui/Button';
+import { showSuccessToast, showErrorToast } from '../components/ui/CustomToast';
+import Invoice from '../components/documents/Invoice';
+import PackingSlip from '../components/documents/PackingSlip';
+import AddressLabel from '../components/documents/AddressLabel';
+import { useAuth } from '../hooks/useAuth';
+import { fetchInvoiceDetails, fetchOrderDocuments, updateInvoiceDetails } from '../services/orderDocumentService';
+import { InvoiceDetails, ORDER_DOCUMENT_LABELS, OrderDocument, OrderDocumentKind } from '../types/orderDocument';
+
+const isDocumentKind = (kind: string | undefined): kind is OrderDocumentKind =>
+  !!kind && Object.prototype.hasOwnProperty.call(ORDER_DOCUMENT_LABELS, kind);
+
+const inputClassName = 'w-full px-3 py-2 bg-white text-black text-sm border border-gray-300 focus:outline-none focus:border-black';
+
+/**
+ * Print view for order documents. Customers reach it from their order as
+ * /orders/:orderId/invoice; staff open /admin/print/:kind?ids=... to print a
+ * batch of invoices, packing slips or labels. "Save as PDF" in the browser's
+ * print dialog gives a PDF copy.
+ */
+const OrderDocumentsPage = () => {
+  const { orderId, kind: kindParam } = useParams();
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const { user } = useAuth();
+  const accessToken = searchParams.get('token');
+  const isAdminView = !orderId;
+  const kind: OrderDocumentKind = isAdminView && isDocumentKind(kindParam) ? kindParam : 'invoice';
+  const idsParam = isAdminView ? searchParams.get('ids') || '' : orderId;
+
+  const [orders, setOrders] = useState<OrderDocument[]>([]);
+  const [seller, setSeller] = useState<InvoiceDetails | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [showSettings, setShowSettings] = useState(false);
+  const [savingSettings, setSavingSettings] = useState(false);
+
+  useEffect(() => {
+    const ids = (idsParam || '').split(',').filter(Boolean);
+    if (ids.length === 0) {
+      setError('No orders selected');
+      setLoading(false);
+      return;
+    }
+    if (!isAdminView && !user && !accessToken) {
+      navigate('/orders/lookup', { replace: true });
+      return;
+    }
+
+    setLoading(true);
+    Promise.all([fetchOrderDocuments(ids, accessToken || undefined), fetchInvoiceDetails()])
+      .then(([documents, details]) => {
+        setOrders(documents);
+        setSeller(details);
+        setError(documents.length === 0 ? 'Order not found' : null);
+      })
+      .catch(fetchError => {
+        console.error('Error fetching order documents:', fetchError);
+        setError(fetchError.message || 'Failed to load documents');
+      })
+      .finally(() => setLoading(false));
+  }, [idsParam, accessToken, isAdminView, user, navigate]);
+
+  const saveSettings = async () => {
+    if (!seller) return;
+
+    setSavingSettings(true);
+    try {
+      await updateInvoiceDetails({ ...seller, tax_rate: Number(seller.tax_rate) || 0 });
+      showSuccessToast('Invoice details saved');
+      setShowSettings(false);
+    } catch (saveError: any) {
+      console.error('Error saving invoice details:', saveError);
+      showErrorToast(saveError.message || 'Failed to save invoice details');
+    } finally {
+      setSavingSettings(false);
+    }
+  };
+
+  const backLink = isAdminView
+    ? '/admin/orders'
+    : `/orders/${orderId}${accessToken ? `?token=${accessToken}` : ''}`;
+
+  const renderDocument = (order: OrderDocument) => {
+    if (!seller) return null;
+
+    switch (kind) {
+      case 'packing-slip':
+        return <PackingSlip order={order} seller={seller} />;
+      case 'label':
+        return <AddressLabel order={order} seller={seller} />;
+      default:
+        return <Invoice order={order} seller={seller} />;
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-100 print:bg-white">
+      {/* Toolbar */}
+      <div className="bg-white border-b border-gray-200 print:hidden">
+        <div className="max-w-4xl mx-auto px-4 py-3 flex flex-wrap items-center justify-between gap-3">
+          <Link to={backLink} className="flex items-center text-sm text-gray-600 hover:text-black">
+            <ArrowLeft className="w-4 h-4 mr-1" />
+            {isAdminView ? 'Back to orders' : 'Back to order'}
+          </Link>
+
+          {isAdminView && (
+            <div className="flex items-center gap-1">
+              {(Object.keys(ORDER_DOCUMENT_LABELS) as OrderDocumentKind[]).map(option => (
+                <button
+                  key={option}
+                  onClick={() => navigate(`/admin/print/${option}?ids=${idsParam}`)}
+                  className={`px-3 py-1.5 text-sm ${
+                    option === kind ? 'bg-black text-white' : 'text-gray-600 hover:text-black'
+                  }`}
+                >
+                  {ORDER_DOCUMENT_LABELS[option]}
+                </button>
+              ))}
+            </div>
+          )}
+
+          <div className="flex items-center gap-2">
+            {isAdminView && (
+              <Button size="sm" variant="outline" onClick={() => setShowSettings(prev => !prev)}>
+                <Settings className="w-4 h-4 mr-1" />
+                Invoice details
+              </Button>
+            )}
+            <Button size="sm" onClick={() => window.print()} disabled={loading || !!error}>
+              <Printer className="w-4 h-4 mr-1" />
+              Print / Save PDF
+            </Button>
+          </div>
+        </div>
+
+        {isAdminView && showSettings && seller && (
+          <div className="max-w-4xl mx-auto px-4 pb-4 grid grid-cols-2 gap-3 text-sm">
+            <label className="block space-y-1">
+              <span className="text-gray-600">Business name</span>
+              <input
+                value={seller.business_name}
+                onChange={(e) => setSeller({ ...seller, business_name: e.target.value })}
+                className={inputClassName}
+              />
+            </label>
+            <label className="block space-y-1">
+              <span className="text-gray-600">Tax registration no.</span>
+              <input
+                value={seller.tax_number}
+                onChange={(e) => setSeller({ ...seller, tax_number: e.target.value })}
+                className={inputClassName}
+              />
+            </label>
+            <label className="block space-y-1 row-span-2">
+              <span className="text-gray-600">Address</span>
+              <textarea
+                value={seller.address}
+                onChange={(e) => setSeller({ ...seller, address: e.target.value })}
+                rows={4}
+                className={inputClassName}
+              />
+            </label>
+            <label className="block space-y-1">
+              <span className="text-gray-600">Phone</span>
+              <input
+                value={seller.phone}
+                onChange={(e) => setSeller({ ...seller, phone: e.target.value })}
+                className={inputClassName}
+              />
+            </label>
+            <label className="block space-y-1">
+              <span className="text-gray-600">Email</span>
+              <input
+                value={seller.email}
+                onChange={(e) => setSeller({ ...seller, email: e.target.value })}
+                className={inputClassName}
+              />
+            </label>
+            <label className="block space-y-1">
+              <span className="text-gray-600">Tax rate included in prices (%)</span>
+              <input
+                type="number"
+                min={0}
+                step="0.01"
+                value={seller.tax_rate}
+                onChange={(e) => setSeller({ ...seller, tax_rate: Number(e.target.value) })}
+                className={inputClassName}
+              />
+            </label>
+            <label className="block space-y-1">
+              <span className="text-gray-600">Invoice footer</span>
+              <input
+                value={seller.footer}
+                onChange={(e) => setSeller({ ...seller, footer: e.target.value })}
+                className={inputClassName}
+              />
+            </label>
+            <div className="col-span-2 flex justify-end">
+              <Button size="sm" onClick={saveSettings} loading={savingSettings}>
+                Save details
+              </Button>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* Documents, one per printed page */}
+      <div className="max-w-4xl mx-auto py-8 space-y-8 print:max-w-none print:py-0 print:space-y-0">
+        {loading ? (
+          <div className="flex justify-center py-24">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-black"></div>
+          </div>
+        ) : error ? (
+          <p className="text-center text-gray-600 py-24">{error}</p>
+        ) : (
+          orders.map((order, index) => (
+            <div
+              key={order.id}
+              className={`shadow-sm print:shadow-none ${index < orders.length - 1 ? 'break-after-page' : ''}`}
+            >
+              {renderDocument(order)}
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default OrderDocumentsPage;
@@ -0,0 +1,112 @@
+import { FormEvent, useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { motion } from 'framer-motion';
+import { Package, ArrowLeft } from 'lucide-react';
+import { findGuestOrder, guestOrderPath } from '../services/orderService';
+import { showErrorToast } from '../components/ui/CustomToast';
+import { useAuth } from '../hooks/useAuth';
+import Button from '../components/ui/Button';
+import Input from '../components/ui/Input';
+import logo from '../assests/logo.white.png';
+
+const OrderLookupPage = () => {
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const [orderNumber, setOrderNumber] = useState('');
+  const [email, setEmail] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+
+    if (!orderNumber.trim() || !email.trim()) {
+      showErrorToast('Enter your order number and email address');
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const link = await findGuestOrder(orderNumber, email);
+      navigate(guestOrderPath(link.order_id, link.access_token));
+    } catch (error: any) {
+      showErrorToast(error.message || 'Order not found');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-black flex items-center justify-center px-4">
+      <div className="max-w-md w-full">
+        {/* Logo */}
+        <div className="text-center mb-8">
+          <img
+            src={logo}
+            alt="Kixora"
+            className="h-16 w-auto mx-auto mb-4"
+          />
+        </div>
+
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="bg-black border border-white/20 rounded-lg p-6 text-center"
+        >
+          <Package className="h-12 w-12 text-white mx-auto mb-4" />
+          <h2 className="text-xl font-semibold text-white mb-2">
+            Find Your Order
+          </h2>
+          <p className="text-gray-400 mb-6">
+            Checked out as a guest? Enter the order number from your confirmation and the email you ordered with.
+          </p>
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <Input
+              placeholder="Order number, e.g. ORD-20250101-001"
+              value={orderNumber}
+              onChange={(e) => setOrderNumber(e.target.value)}
+              variant="dark"
+              className="text-center"
+            />
+            <Input
+              type="email"
+              placeholder="Email address"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              variant="dark"
+              className="text-center"
+            />
+            <Button
+              type="submit"
+              loading={loading}
+              fullWidth
+              className="bg-white text-black hover:bg-gray-200 transition-colors"
+            >
+              View Order
+            </Button>
+          </form>
+
+          <div className="mt-6 pt-4 border-t border-white/20">
+            {user ? (
+              <Link to="/orders" className="text-sm text-gray-400 hover:text-white">
+                Orders placed while signed in are in My Orders
+              </Link>
+            ) : (
+              <Link to="/">
+                <Button
+                  variant="ghost"
+                  className="text-white border-white hover:bg-white hover:text-black transition-colors"
+                >
+                  <ArrowLeft className="w-4 h-4 mr-2" />
+                  Back to Home
+                </Button>
+              </Link>
+            )}
+          </div>
+        </motion.div>
+      </div>
+    </div>
+  );
+};
+
+export default OrderLookupPage;
@@ -1,20 +1,199 @@
-import { useEffect } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useCallback, useEffect, useState } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { motion } from 'framer-motion';
+import { Clock, XCircle, ArrowLeft } from 'lucide-react';
+import Button from '../components/ui/Button';
+import { useAuth } from '../hooks/useAuth';
+import { useCartStore } from '../stores/cartStore';
+import { showErrorToast } from '../components/ui/CustomToast';
+import { buildOrderPaymentRequest, checkOrderReservation, startOrderPayment } from '../services/paymentService';
+import { guestOrderPath } from '../services/orderService';
+import { OrderReservation } from '../types/order';
+
+const formatRemaining = (ms: number) => {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+};
 
 const PaymentCancelPage = () => {
   const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const { user, loading: authLoading } = useAuth();
+  const { clearCart } = useCartStore();
+  const orderId = searchParams.get('orderId') || searchParams.get('order_id');
+  // Guests reach their order through its access token
+  const accessToken = searchParams.get('token') || undefined;
+  const [reservation, setReservation] = useState<OrderReservation | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [retrying, setRetrying] = useState(false);
+  const [now, setNow] = useState(Date.now());
+
+  const loadReservation = useCallback(async () => {
+    if (!orderId) return;
+    try {
+      const state = await checkOrderReservation(orderId, accessToken);
+      if (state.payment_status === 'paid') {
+        navigate(accessToken ? guestOrderPath(orderId, accessToken) : `/orders/${orderId}`, { replace: true });
+        return;
+      }
+      setReservation(state);
+    } catch (error) {
+      console.error('Error checking order reservation:', error);
+      navigate('/checkout?cancelled=true', { replace: true });
+    } finally {
+      setLoading(false);
+    }
+  }, [orderId, accessToken, navigate]);
+
+  useEffect(() => {
+    // Without an order there is nothing to retry, so go back to checkout
+    if (!orderId) {
+      navigate('/checkout?cancelled=true', { replace: true });
+      return;
+    }
+    if (authLoading) return;
+    if (!user && !accessToken) {
+      navigate('/', { replace: true });
+      return;
+    }
+    loadReservation();
+  }, [orderId, user, accessToken, authLoading, navigate, loadReservation]);
 
+  // Tick the countdown and re-check once the window closes
   useEffect(() => {
-    // Redirect to checkout with cancel message
-    navigate('/checkout?cancelled=true', { replace: true });
-  }, [navigate]);
+    if (!reservation?.can_retry || !reservation.reserved_until) return;
+
+    const expiresAt = new Date(reservation.reserved_until).getTime();
+    const interval = setInterval(() => {
+      setNow(Date.now());
+      if (Date.now() >= expiresAt) {
+        clearInterval(interval);
+        loadReservation();
+      }
+    }, 1000);
+
+    return () => clearInterval(interval);
+  }, [reservation, loadReservation]);
+
+  const handleRetry = async () => {
+    if (!orderId || (!user && !accessToken)) return;
+
+    setRetrying(true);
+    try {
+      const { paymentMethod, request } = await buildOrderPaymentRequest(orderId, user?.email || '', accessToken);
+      const result = await startOrderPayment(paymentMethod, request);
+
+      if (result.redirected) {
+        // The order holds the stock; the gateway brings the shopper back
+        await clearCart();
+      } else if (result.success) {
+        await clearCart();
+        navigate(`/payment/success?orderId=${orderId}&total=${request.amount}${accessToken ? `&token=${accessToken}` : ''}`);
+      } else {
+        throw new Error(result.error || 'Payment failed');
+      }
+    } catch (error: any) {
+      showErrorToast(error.message || 'Payment was not completed');
+      loadReservation();
+    } finally {
+      setRetrying(false);
+    }
+  };
+
+  if (loading || !reservation) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-orange-500"></div>
+        <p className="ml-4">Checking your order...</p>
+      </div>
+    );
+  }
+
+  const remainingMs = reservation.reserved_until
+    ? new Date(reservation.reserved_until).getTime() - now
+    : 0;
 
   return (
-    <div className="min-h-screen flex items-center justify-center">
-      <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-orange-500"></div>
-      <p className="ml-4">Redirecting...</p>
+    <div className="min-h-screen bg-gradient-to-br from-orange-50 to-gray-50 flex items-center justify-center p-4">
+      <motion.div
+        initial={{ scale: 0.9, opacity: 0 }}
+        animate={{ scale: 1, opacity: 1 }}
+        className="bg-white rounded-2xl shadow-2xl p-8 max-w-md w-full text-center"
+      >
+        {reservation.can_retry ? (
+          <>
+            <div className="w-20 h-20 bg-orange-100 rounded-full flex items-center justify-center mx-auto mb-6">
+              <Clock className="w-10 h-10 text-orange-600" />
+            </div>
+
+            <h1 className="text-2xl font-bold text-gray-900 mb-4">
+              Payment Not Completed
+            </h1>
+
+            <p className="text-gray-600 mb-2">
+              Your items are reserved while you finish paying.
+            </p>
+            <p className="text-gray-900 font-semibold mb-8">
+              Time remaining: {formatRemaining(remainingMs)}
+            </p>
+
+            <div className="space-y-3">
+              <Button
+                onClick={handleRetry}
+                loading={retrying}
+                className="w-full bg-black text-white hover:bg-gray-800"
+              >
+                Retry Payment
+              </Button>
+
+              <Button
+                variant="outline"
+                onClick={() => navigate(accessToken ? guestOrderPath(orderId!, accessToken) : `/orders/${orderId}`)}
+                className="w-full border-gray-300 text-gray-700 hover:bg-gray-50"
+              >
+                View Order
+              </Button>
+            </div>
+          </>
+        ) : (
+          <>
+            <div className="w-20 h-20 bg-red-100 rounded-full flex items-center justify-center mx-auto mb-6">
+              <XCircle className="w-10 h-10 text-red-600" />
+            </div>
+
+            <h1 className="text-2xl font-bold text-gray-900 mb-4">
+              {reservation.payment_status === 'expired' ? 'Payment Window Expired' : 'Order Cancelled'}
+            </h1>
+
+            <p className="text-gray-600 mb-8">
+              {reservation.cancellation_reason || 'This order is no longer awaiting payment.'}
+              {' '}The reserved items have been released. You can place a new order from your cart.
+            </p>
+
+            <div className="space-y-3">
+              <Button
+                onClick={() => navigate('/checkout')}
+                className="w-full bg-black text-white hover:bg-gray-800"
+              >
+                Back to Checkout
+              </Button>
+
+              <Button
+                variant="outline"
+                onClick={() => navigate('/')}
+                className="w-full border-gray-300 text-gray-700 hover:bg-gray-50"
+              >
+                <ArrowLeft className="w-4 h-4 mr-2" />
+                Continue Shopping
+              </Button>
+            </div>
+          </>
+        )}
+      </motion.div>
     </div>
   );
 };
 
-export default PaymentCancelPage;
\ No newline at end of file
+export default PaymentCancelPage;
@@ -4,11 +4,14 @@ import { motion } from 'framer-motion';
 import { Check, ArrowLeft } from 'lucide-react';
 import ThankYouPopup from '../components/ui/ThankYouPopup';
 import Button from '../components/ui/Button';
+import { guestOrderPath } from '../services/orderService';
 
 const PaymentSuccessPage = () => {
   const navigate = useNavigate();
   const [searchParams] = useSearchParams();
   const [showThankYouPopup, setShowThankYouPopup] = useState(false);
+  const orderId = searchParams.get('orderId');
+  const accessToken = searchParams.get('token');
   const [orderInfo, setOrderInfo] = useState<{
     total: number;
     paymentMethod: 'payhere' | 'bank' | 'cod';
@@ -24,7 +27,7 @@ const PaymentSuccessPage = () => {
         localStorage.removeItem('pendingOrderInfo');
 
         // Redirect to thank you page with order data
-        const thankYouUrl = `/thank-you?total=${orderData.total}&method=${orderData.paymentMethod}&name=${encodeURIComponent(orderData.customerName)}&orderId=${orderData.orderId || 'N/A'}`;
+        const thankYouUrl = `/thank-you?total=${orderData.total}&method=${orderData.paymentMethod}&name=${encodeURIComponent(orderData.customerName)}&orderId=${orderData.orderId || 'N/A'}${orderData.accessToken ? `&token=${orderData.accessToken}` : ''}`;
         navigate(thankYouUrl);
       } catch (e) {
         console.error('Error parsing pending order info:', e);
@@ -63,10 +66,10 @@ const PaymentSuccessPage = () => {
 
         <div className="space-y-3">
           <Button
-            onClick={() => navigate('/orders')}
+            onClick={() => navigate(orderId && accessToken ? guestOrderPath(orderId, accessToken) : '/orders')}
             className="w-full bg-black text-white hover:bg-gray-800"
           >
-            View My Orders
+            {accessToken ? 'View Order' : 'View My Orders'}
           </Button>
 
           <Button
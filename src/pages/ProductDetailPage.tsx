@@ -3,7 +3,6 @@ import { useParams, useNavigate, Link } from 'react-router-dom';
 import { FREE_SHIPPING_THRESHOLD } from '../utils/constants';
 import {
   Heart,
-  Star,
   Minus,
   Plus,
   ShoppingCart,
@@ -30,9 +29,15 @@ import ColorSelector from '../components/ui/ColorSelector';
 import { showSuccessToast, showErrorToast } from '../components/ui/CustomToast';
 import Breadcrumb from '../components/ui/Breadcrumb';
 import ProductCard from '../components/products/ProductCard';
+import BackInStockForm from '../components/products/BackInStockForm';
+import StarRating from '../components/reviews/StarRating';
+import ProductReviews from '../components/reviews/ProductReviews';
 import SEOHead from '../components/seo/SEOHead';
 import { generateSEOData } from '../hooks/useSEO';
-import { generateProductSchema, generateBreadcrumbSchema } from '../utils/structuredData';
+import { generateProductSchema, generateBreadcrumbSchemaFromItems } from '../utils/structuredData';
+import { fetchCategories } from '../services/categoryService';
+import { Category } from '../types/category';
+import { categoryBreadcrumbs, categoryPath } from '../utils/categoryTree';
 
 interface Product {
   id: string;
@@ -46,6 +51,8 @@ interface Product {
   featured: boolean;
   is_returnable: boolean;
   return_days: number;
+  rating_average: number;
+  review_count: number;
   created_at: string;
   updated_at: string;
   categories?: {
@@ -77,6 +84,8 @@ interface RelatedProduct {
   price: number;
   image?: string;
   images?: string[];
+  rating?: number;
+  reviewCount?: number;
   variants?: Array<{
     id: string;
     size: string;
@@ -99,10 +108,11 @@ const ProductDetailPage = () => {
 
   const [product, setProduct] = useState<Product | null>(null);
   const [relatedProducts, setRelatedProducts] = useState<RelatedProduct[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
   const [loading, setLoading] = useState(true);
   const [selectedImageIndex, setSelectedImageIndex] = useState(0);
   const [quantity, setQuantity] = useState(1);
-  const [activeTab, setActiveTab] = useState<'description' | 'shipping'>('description');
+  const [activeTab, setActiveTab] = useState<'description' | 'reviews' | 'shipping'>('description');
   const [isZoomed, setIsZoomed] = useState(false);
   const [selectedVariant, setSelectedVariant] = useState<string>('');
 
@@ -118,6 +128,13 @@ const ProductDetailPage = () => {
     }
   }, [product]);
 
+  // For the full category trail in the breadcrumb
+  useEffect(() => {
+    fetchCategories()
+      .then(setCategories)
+      .catch(error => console.error('Error fetching categories:', error));
+  }, []);
+
   const fetchProduct = async () => {
     if (!slug) return;
     
@@ -169,8 +186,9 @@ const ProductDetailPage = () => {
           return a.color?.localeCompare(b.color || '') || 0;
         });
         
-        // Auto-select first available variant
-        const firstAvailableVariant = data.product_variants.find(v => v.is_active && v.stock > 0);
+        // Auto-select first available variant, or a sold-out one so shoppers can ask to be notified
+        const firstAvailableVariant = data.product_variants.find(v => v.is_active && v.stock > 0)
+          || data.product_variants[0];
         if (firstAvailableVariant) {
           setSelectedVariant(firstAvailableVariant.id);
         }
@@ -199,6 +217,8 @@ const ProductDetailPage = () => {
           title,
           slug,
           price,
+          rating_average,
+          review_count,
           brands (
             name
           ),
@@ -228,6 +248,8 @@ const ProductDetailPage = () => {
         slug: item.slug,
         brand: item.brands?.name,
         price: item.price,
+        rating: item.rating_average,
+        reviewCount: item.review_count,
         image: item.product_images?.[0]?.storage_path,
         images: item.product_images?.map(img => img.storage_path) || [],
         variants: item.product_variants?.filter(v => v.is_active !== false).map(v => ({
@@ -372,6 +394,10 @@ const ProductDetailPage = () => {
 
   const currentVariant = getSelectedVariant();
 
+  // The product's category and its ancestors, or just the category until the
+  // tree has loaded
+  const categoryTrail = product.categories ? categoryPath(categories, product.categories.slug) : [];
+
   // Generate breadcrumb items
   const breadcrumbItems = [
     {
@@ -379,10 +405,9 @@ const ProductDetailPage = () => {
       path: '/products',
       icon: <Package size={16} />
     },
-    ...(product.categories ? [{
-      label: product.categories.name,
-      path: `/products?category=${product.categories.slug}`
-    }] : []),
+    ...(product.categories
+      ? categoryBreadcrumbs(categoryTrail.length > 0 ? categoryTrail : [product.categories], true)
+      : []),
     {
       label: product.title
     }
@@ -394,10 +419,7 @@ const ProductDetailPage = () => {
         seoData={generateSEOData.product(product)}
         structuredData={[
           { schema: generateProductSchema(product), id: 'product-schema' },
-          { schema: generateBreadcrumbSchema(breadcrumbItems.map(item => ({
-            name: typeof item.label === 'string' ? item.label : item.label || '',
-            url: item.href || '#'
-          }))), id: 'breadcrumb-schema' }
+          { schema: generateBreadcrumbSchemaFromItems(breadcrumbItems), id: 'breadcrumb-schema' }
         ]}
       />
       <div className="max-w-7xl mx-auto px-3 sm:px-6 lg:px-8 py-4 sm:py-8">
@@ -500,6 +522,20 @@ const ProductDetailPage = () => {
               </motion.button>
             </div>
 
+            {/* Rating */}
+            {product.review_count > 0 && (
+              <button
+                onClick={() => {
+                  setActiveTab('reviews');
+                  document.getElementById('product-details-tabs')?.scrollIntoView({ behavior: 'smooth' });
+                }}
+                className="flex items-center space-x-2 mb-3 text-sm text-slate-600 hover:text-black"
+              >
+                <StarRating rating={product.rating_average} size={14} />
+                <span>{product.rating_average.toFixed(1)} ({product.review_count} {product.review_count === 1 ? 'review' : 'reviews'})</span>
+              </button>
+            )}
+
             {/* Price */}
             <div className="mb-4 sm:mb-6">
               <span className="text-xl sm:text-2xl md:text-3xl font-bold text-slate-900">
@@ -545,24 +581,29 @@ const ProductDetailPage = () => {
                               key={size}
                               onClick={() => {
                                 // When clicking a size, find the best variant to select
-                                // Priority: 1) Same color if available, 2) First available variant with this size
+                                // Priority: 1) Same color if available, 2) First available variant with this size,
+                                // 3) A sold-out variant with this size so the shopper can ask to be notified
                                 let targetVariant = specificVariant;
                                 if (!targetVariant || !targetVariant.is_active || targetVariant.stock === 0) {
                                   targetVariant = product.product_variants?.find(v =>
                                     v.size === size && v.is_active && v.stock > 0
+                                  ) || product.product_variants?.find(v =>
+                                    v.size === size && v.is_active
                                   );
                                 }
                                 if (targetVariant) {
                                   setSelectedVariant(targetVariant.id);
                                 }
                               }}
-                              disabled={!isAvailable}
+                              title={isAvailable ? undefined : 'Sold out'}
                               className={`px-3 py-1.5 sm:px-4 sm:py-2 border text-sm font-medium transition-colors rounded ${
                                 isSelected
-                                  ? 'bg-black text-white border-black'
+                                  ? isAvailable
+                                    ? 'bg-black text-white border-black'
+                                    : 'bg-slate-100 text-slate-500 border-black line-through'
                                   : isAvailable
                                   ? 'bg-white text-slate-700 border-slate-300 hover:border-black'
-                                  : 'bg-slate-100 text-slate-400 border-slate-200 cursor-not-allowed'
+                                  : 'bg-slate-100 text-slate-400 border-slate-200 line-through hover:border-slate-400'
                               }`}
                             >
                               {size}
@@ -593,6 +634,8 @@ const ProductDetailPage = () => {
                         if (!targetVariant || !targetVariant.is_active || targetVariant.stock === 0) {
                           targetVariant = product.product_variants?.find(v =>
                             v.color === color && v.is_active && v.stock > 0
+                          ) || product.product_variants?.find(v =>
+                            v.color === color && v.is_active
                           );
                         }
 
@@ -602,8 +645,8 @@ const ProductDetailPage = () => {
                       }}
                       multiple={false}
                       size="lg"
-                      disabledColors={Array.from(new Set(product.product_variants.filter(v => v.color).map(v => v.color!))).filter(color => {
-                        // Disable color only if NO variant with this color has stock (regardless of size)
+                      soldOutColors={Array.from(new Set(product.product_variants.filter(v => v.color).map(v => v.color!))).filter(color => {
+                        // Sold out only if NO variant with this color has stock (regardless of size)
                         const hasStockInAnySize = product.product_variants?.some(v =>
                           v.color === color && v.is_active && v.stock > 0
                         );
@@ -632,6 +675,11 @@ const ProductDetailPage = () => {
                     )}
                   </div>
                 )}
+
+                {/* Back in stock alert */}
+                {currentVariant && currentVariant.is_active && currentVariant.stock <= 0 && (
+                  <BackInStockForm variantId={currentVariant.id} isLoggedIn={!!user} />
+                )}
               </div>
           )}
 
@@ -739,11 +787,12 @@ const ProductDetailPage = () => {
       </div>
 
       {/* Product Details Tabs */}
-      <div className="mb-8 sm:mb-12 lg:mb-16">
+      <div id="product-details-tabs" className="mb-8 sm:mb-12 lg:mb-16">
         <div className="border-b border-slate-200 mb-4 sm:mb-6 lg:mb-8">
           <nav className="-mb-px flex space-x-4 sm:space-x-8 overflow-x-auto">
             {[
               { id: 'description', label: 'Description' },
+              { id: 'reviews', label: `Reviews (${product.review_count || 0})` },
               { id: 'shipping', label: 'Shipping & Returns' },
             ].map((tab) => (
               <button
@@ -780,6 +829,10 @@ const ProductDetailPage = () => {
             )}
 
 
+            {activeTab === 'reviews' && (
+              <ProductReviews productId={product.id} productTitle={product.title} />
+            )}
+
             {activeTab === 'shipping' && (
               <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
                 <div>
@@ -856,6 +909,8 @@ const ProductDetailPage = () => {
                   slug: relatedProduct.slug,
                   brand: relatedProduct.brand,
                   price: relatedProduct.price,
+                  rating: relatedProduct.rating,
+                  reviewCount: relatedProduct.reviewCount,
                   image: relatedProduct.image,
                   images: relatedProduct.images,
                   variants: relatedProduct.variants
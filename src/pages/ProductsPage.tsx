@@ -2,8 +2,13 @@
  * ProductsPage - Main product listing page with advanced filtering and sorting
  *
  * Features:
- * - Expandable filter sections (Category, Price, Color)
- * - Real-time search functionality
+ * - Expandable filter sections (Category, Brand, Collection, Price, Size, Color,
+ *   Availability, Rating) with live counts
+ * - Categories include their subcategories, with the full trail in the breadcrumb
+ * - Listings pre-filtered to the shopper's saved size until they turn it off
+ * - Also renders brand landing pages, locked to one brand
+ * - Ranked, typo tolerant search with "did you mean" suggestions
+ * - Filtering, sorting and paging done by the catalog_products RPC
  * - Multiple sort options
  * - Responsive design with mobile filter drawer
  * - Optimized performance with memoized functions and React.memo
@@ -12,13 +17,25 @@
 import React, { useCallback, useEffect, useState, useMemo } from 'react';
 import { useSearchParams } from 'react-router-dom';
 import { motion, AnimatePresence } from 'framer-motion';
-import { SlidersHorizontal, ChevronUp, ChevronDown, Package } from 'lucide-react';
+import { SlidersHorizontal, ChevronUp, ChevronDown, Package, Award } from 'lucide-react';
 
-import { supabase } from '../lib/supabase';
 import ProductGrid from '../components/products/ProductGrid';
 import FiltersSidebar from '../components/products/FiltersSidebar';
 import Button from '../components/ui/Button';
 import Breadcrumb from '../components/ui/Breadcrumb';
+import SEOHead from '../components/seo/SEOHead';
+import { generateSEOData } from '../hooks/useSEO';
+import { generateBrandSchema, generateBreadcrumbSchemaFromItems } from '../utils/structuredData';
+import { fetchSearchSuggestions } from '../services/searchService';
+import { fetchCatalogPage } from '../services/catalogService';
+import { CatalogFacets, CatalogFilters, CatalogProductRow, CatalogSort, EMPTY_CATALOG_FACETS } from '../types/catalog';
+import { useSizePreferenceStore } from '../stores/sizePreferenceStore';
+import { sizeLabelsFor } from '../utils/sizeChart';
+import { getBrandLogoUrl } from '../services/brandService';
+import { Brand } from '../types/brand';
+import { fetchCategories as fetchCategoryList } from '../services/categoryService';
+import { Category } from '../types/category';
+import { categoryBreadcrumbs, categoryPath } from '../utils/categoryTree';
 
 // Types
 interface ProductVariant {
@@ -31,6 +48,7 @@ interface ProductVariant {
 interface Product {
   id: string;
   title: string;
+  slug?: string;
   brand?: string;
   price: number;
   category: string;
@@ -42,12 +60,6 @@ interface Product {
   variants?: ProductVariant[];
 }
 
-interface Category {
-  id: string;
-  slug: string;
-  name: string;
-}
-
 interface PriceRange {
   min: string;
   max: string;
@@ -57,12 +69,34 @@ interface PriceRange {
 const PRODUCTS_PER_PAGE = 12;
 
 const SORT_OPTIONS = [
+  { value: 'relevance', label: 'Best Match' },
   { value: 'newest', label: 'Newest First' },
   { value: 'price_asc', label: 'Price: Low to High' },
   { value: 'price_desc', label: 'Price: High to Low' },
+  { value: 'rating', label: 'Top Rated' },
   { value: 'name', label: 'Name: A to Z' }
 ];
 
+const listParam = (value: string | null) => value?.split(',').filter(Boolean) || [];
+
+const toProduct = (product: CatalogProductRow): Product => ({
+  id: product.id,
+  title: product.title,
+  slug: product.slug || undefined,
+  brand: product.brands?.name,
+  price: product.price,
+  featured: product.featured || false,
+  rating: product.rating_average,
+  reviewCount: product.review_count,
+  category: product.categories?.name || '',
+  image: product.product_images[0]?.storage_path,
+  images: product.product_images.map(img => img.storage_path),
+  variants: product.product_variants
+});
+
+// Searches are ordered by how well products match unless another sort is picked
+const defaultSort = (search: string) => search ? 'relevance' : 'newest';
+
 // Expandable section component - moved outside to prevent re-renders
 const ExpandableSection = React.memo(({
   isExpanded,
@@ -122,7 +156,12 @@ const ExpandableSection = React.memo(({
 
 ExpandableSection.displayName = 'ExpandableSection';
 
-const ProductsPage = () => {
+interface ProductsPageProps {
+  // Brand landing pages show only this brand's products
+  brand?: Brand;
+}
+
+const ProductsPage = ({ brand }: ProductsPageProps) => {
   const [searchParams, setSearchParams] = useSearchParams();
 
   // Data states
@@ -145,11 +184,25 @@ const ProductsPage = () => {
     min: searchParams.get('minPrice') || '',
     max: searchParams.get('maxPrice') || ''
   });
-  const [selectedColors, setSelectedColors] = useState<string[]>(
-    searchParams.get('colors')?.split(',').filter(Boolean) || []
-  );
-  const [sortBy, setSortBy] = useState(searchParams.get('sort') || 'newest');
+  const [selectedColors, setSelectedColors] = useState<string[]>(listParam(searchParams.get('colors')));
+  const [selectedBrands, setSelectedBrands] = useState<string[]>(listParam(searchParams.get('brands')));
+  const [selectedSizes, setSelectedSizes] = useState<string[]>(listParam(searchParams.get('sizes')));
+  const [selectedCollection, setSelectedCollection] = useState(searchParams.get('collection') || '');
+  const [inStockOnly, setInStockOnly] = useState(searchParams.get('inStock') === '1');
+  const [useMySize, setUseMySize] = useState(searchParams.get('mySize') !== '0');
+  const [minRating, setMinRating] = useState(searchParams.get('rating') || '');
+  const [sortBy, setSortBy] = useState(searchParams.get('sort') || defaultSort(searchParams.get('search') || ''));
   const [searchQuery, setSearchQuery] = useState(searchParams.get('search') || '');
+  const [didYouMean, setDidYouMean] = useState<string[]>([]);
+  const [facets, setFacets] = useState<CatalogFacets>(EMPTY_CATALOG_FACETS);
+  const mySize = useSizePreferenceStore(state => state.mySize);
+
+  // Sizes picked in the sidebar take over from the saved size
+  const mySizeApplied = !!mySize && useMySize && selectedSizes.length === 0;
+  const sizeFilter = useMemo(
+    () => (mySizeApplied && mySize ? sizeLabelsFor(mySize) : selectedSizes),
+    [mySizeApplied, mySize, selectedSizes]
+  );
 
   // Helper functions
   const updateSearchParams = useCallback((updates: Record<string, string | null>) => {
@@ -172,8 +225,14 @@ const ProductsPage = () => {
       priceRange.min,
       priceRange.max,
       ...selectedColors,
+      ...selectedBrands,
+      ...selectedSizes,
+      selectedCollection,
+      inStockOnly,
+      mySizeApplied,
+      minRating,
     ].filter(Boolean).length;
-  }, [selectedCategory, priceRange, selectedColors]);
+  }, [selectedCategory, priceRange, selectedColors, selectedBrands, selectedSizes, selectedCollection, inStockOnly, mySizeApplied, minRating]);
 
 
   const handleColorToggle = useCallback((color: string) => {
@@ -187,6 +246,43 @@ const ProductsPage = () => {
     });
   }, [selectedColors, updateSearchParams]);
 
+  const handleBrandToggle = useCallback((brand: string) => {
+    const newBrands = selectedBrands.includes(brand)
+      ? selectedBrands.filter(b => b !== brand)
+      : [...selectedBrands, brand];
+
+    setSelectedBrands(newBrands);
+    updateSearchParams({
+      brands: newBrands.length > 0 ? newBrands.join(',') : null
+    });
+  }, [selectedBrands, updateSearchParams]);
+
+  const handleSizeToggle = useCallback((size: string) => {
+    const newSizes = selectedSizes.includes(size)
+      ? selectedSizes.filter(s => s !== size)
+      : [...selectedSizes, size];
+
+    setSelectedSizes(newSizes);
+    updateSearchParams({
+      sizes: newSizes.length > 0 ? newSizes.join(',') : null
+    });
+  }, [selectedSizes, updateSearchParams]);
+
+  const handleCollectionChange = useCallback((collection: string) => {
+    setSelectedCollection(collection);
+    updateSearchParams({ collection: collection || null });
+  }, [updateSearchParams]);
+
+  const handleInStockChange = useCallback((inStock: boolean) => {
+    setInStockOnly(inStock);
+    updateSearchParams({ inStock: inStock ? '1' : null });
+  }, [updateSearchParams]);
+
+  const handleMySizeToggle = useCallback((enabled: boolean) => {
+    setUseMySize(enabled);
+    updateSearchParams({ mySize: enabled ? null : '0' });
+  }, [updateSearchParams]);
+
   const handleCategoryChange = useCallback((category: string) => {
     setSelectedCategory(category);
     updateSearchParams({ category: category || null });
@@ -200,6 +296,11 @@ const ProductsPage = () => {
     });
   }, [updateSearchParams]);
 
+  const handleRatingChange = useCallback((rating: string) => {
+    setMinRating(rating);
+    updateSearchParams({ rating: rating || null });
+  }, [updateSearchParams]);
+
   const handleSearchChange = useCallback((query: string) => {
     setSearchQuery(query);
     updateSearchParams({ search: query || null });
@@ -207,30 +308,30 @@ const ProductsPage = () => {
 
   const handleSortChange = useCallback((sort: string) => {
     setSortBy(sort);
-    updateSearchParams({ sort: sort !== 'newest' ? sort : null });
-  }, [updateSearchParams]);
+    updateSearchParams({ sort: sort !== defaultSort(searchQuery) ? sort : null });
+  }, [searchQuery, updateSearchParams]);
 
   const clearFilters = useCallback(() => {
     setSelectedCategory('');
     setPriceRange({ min: '', max: '' });
     setSelectedColors([]);
+    setSelectedBrands([]);
+    setSelectedSizes([]);
+    setSelectedCollection('');
+    setInStockOnly(false);
+    setUseMySize(false);
+    setMinRating('');
     setSearchQuery('');
     setSortBy('newest');
-    setSearchParams({});
-  }, [setSearchParams]);
+    setSearchParams(mySize ? { mySize: '0' } : {});
+  }, [mySize, setSearchParams]);
 
 
   // Data fetching
   const fetchCategories = useCallback(async () => {
     try {
       setCategoriesError(null);
-      const { data, error } = await supabase
-        .from('categories')
-        .select('id, slug, name')
-        .order('name');
-
-      if (error) throw error;
-      setCategories(data || []);
+      setCategories(await fetchCategoryList());
     } catch (error) {
       console.error('Error fetching categories:', error);
       setCategoriesError('Failed to load categories. Please try again.');
@@ -249,112 +350,44 @@ const ProductsPage = () => {
     }
 
     try {
-      // Build the main query with conditional category join
-      const categoryJoin = selectedCategory ? 'categories!inner' : 'categories';
-
-      let query = supabase
-        .from('products')
-        .select(`
-          id,
-          title,
-          slug,
-          price,
-          featured,
-          ${categoryJoin} (
-            slug,
-            name
-          ),
-          brands (
-            slug,
-            name
-          ),
-          product_images (
-            storage_path
-          ),
-          product_variants (
-            id,
-            size,
-            color,
-            stock,
-            is_active
-          )
-        `)
-        .eq('is_active', true)
-        .is('deleted_at', null);
-
-      // Apply filters
-      if (selectedCategory) {
-        query = query.eq('categories.slug', selectedCategory);
-      }
-      if (priceRange.min) {
-        query = query.gte('price', parseFloat(priceRange.min));
-      }
-      if (priceRange.max) {
-        query = query.lte('price', parseFloat(priceRange.max));
-      }
-      if (searchQuery) {
-        query = query.ilike('title', `%${searchQuery}%`);
-      }
-
-      // Apply sorting
-      switch (sortBy) {
-        case 'price_asc':
-          query = query.order('price', { ascending: true });
-          break;
-        case 'price_desc':
-          query = query.order('price', { ascending: false });
-          break;
-        case 'name':
-          query = query.order('title', { ascending: true });
-          break;
-        default:
-          query = query.order('created_at', { ascending: false });
-      }
+      const filters: CatalogFilters = {
+        search: searchQuery || undefined,
+        category: selectedCategory || undefined,
+        collection: selectedCollection || undefined,
+        brands: brand ? [brand.slug] : selectedBrands,
+        sizes: sizeFilter,
+        colors: selectedColors,
+        min_price: priceRange.min ? parseFloat(priceRange.min) : undefined,
+        max_price: priceRange.max ? parseFloat(priceRange.max) : undefined,
+        min_rating: minRating ? parseFloat(minRating) : undefined,
+        in_stock: inStockOnly
+      };
 
-      // Get all data first for filtering
-      const { data, error } = await query;
-      if (error) throw error;
-
-      let fetchedProducts = data?.map(product => ({
-        id: product.id,
-        title: product.title,
-        brand: product.brands?.name,
-        price: product.price,
-        featured: product.featured,
-        category: product.categories?.name || '',
-        image: product.product_images?.[0]?.storage_path,
-        images: product.product_images?.map(img => img.storage_path) || [],
-        variants: product.product_variants?.filter(v => v.is_active !== false) || []
-      })) || [];
-
-      // Apply color filtering client-side
-      if (selectedColors.length > 0) {
-        fetchedProducts = fetchedProducts.filter(product =>
-          product.variants?.some(variant =>
-            selectedColors.some(selectedColor =>
-              variant.color && variant.color.toLowerCase() === selectedColor.toLowerCase()
-            )
-          )
-        );
-      }
-
-      // Apply pagination to filtered results
-      const totalFilteredCount = fetchedProducts.length;
       const from = (page - 1) * PRODUCTS_PER_PAGE;
-      const to = from + PRODUCTS_PER_PAGE;
-      const paginatedProducts = fetchedProducts.slice(from, to);
+      const result = await fetchCatalogPage(filters, sortBy as CatalogSort, PRODUCTS_PER_PAGE, from);
+      const pageProducts = result.products.map(toProduct);
 
-      setTotalCount(totalFilteredCount);
+      setTotalCount(result.total);
+
+      if (!loadMore) {
+        setDidYouMean([]);
+        setFacets(result.facets);
+        if (searchQuery && result.total === 0) {
+          fetchSearchSuggestions(searchQuery)
+            .then(setDidYouMean)
+            .catch(suggestionsError => console.error('Error fetching search suggestions:', suggestionsError));
+        }
+      }
 
       if (loadMore) {
-        setProducts(prev => [...prev, ...paginatedProducts]);
+        setProducts(prev => [...prev, ...pageProducts]);
         setCurrentPage(page);
       } else {
-        setProducts(paginatedProducts);
+        setProducts(pageProducts);
       }
 
       // Check if there are more products to load
-      setHasMore(to < totalFilteredCount);
+      setHasMore(from + pageProducts.length < result.total);
 
     } catch (error) {
       console.error('Error fetching products:', error);
@@ -369,7 +402,7 @@ const ProductsPage = () => {
       setLoading(false);
       setLoadingMore(false);
     }
-  }, [selectedCategory, priceRange, selectedColors, sortBy, searchQuery]);
+  }, [brand, selectedCategory, priceRange, selectedColors, selectedBrands, sizeFilter, selectedCollection, inStockOnly, minRating, sortBy, searchQuery]);
 
   // Load more products function
   const loadMoreProducts = useCallback(() => {
@@ -407,20 +440,34 @@ const ProductsPage = () => {
     const category = searchParams.get('category') || '';
     const minPrice = searchParams.get('minPrice') || '';
     const maxPrice = searchParams.get('maxPrice') || '';
-    const colors = searchParams.get('colors')?.split(',').filter(Boolean) || [];
-    const sort = searchParams.get('sort') || 'newest';
+    const colors = listParam(searchParams.get('colors'));
+    const brands = listParam(searchParams.get('brands'));
+    const sizes = listParam(searchParams.get('sizes'));
+    const collection = searchParams.get('collection') || '';
+    const inStock = searchParams.get('inStock') === '1';
+    const mySizeOn = searchParams.get('mySize') !== '0';
+    const rating = searchParams.get('rating') || '';
     const search = searchParams.get('search') || '';
+    const sort = searchParams.get('sort') || defaultSort(search);
 
-    // Update state if URL params differ from current state
-    if (category !== selectedCategory) setSelectedCategory(category);
-    if (minPrice !== priceRange.min || maxPrice !== priceRange.max) {
-      setPriceRange({ min: minPrice, max: maxPrice });
-    }
-    if (JSON.stringify(colors) !== JSON.stringify(selectedColors)) {
-      setSelectedColors(colors);
-    }
-    if (sort !== sortBy) setSortBy(sort);
-    if (search !== searchQuery) setSearchQuery(search);
+    // Update state if URL params differ from current state. Unchanged values
+    // keep their previous reference so the product fetch doesn't re-run.
+    const sameList = (prev: string[], next: string[]) =>
+      JSON.stringify(prev) === JSON.stringify(next) ? prev : next;
+
+    setSelectedCategory(category);
+    setPriceRange(prev =>
+      prev.min === minPrice && prev.max === maxPrice ? prev : { min: minPrice, max: maxPrice }
+    );
+    setSelectedColors(prev => sameList(prev, colors));
+    setSelectedBrands(prev => sameList(prev, brands));
+    setSelectedSizes(prev => sameList(prev, sizes));
+    setSelectedCollection(collection);
+    setInStockOnly(inStock);
+    setUseMySize(mySizeOn);
+    setMinRating(rating);
+    setSortBy(sort);
+    setSearchQuery(search);
   }, [searchParams]);
 
   // Effects
@@ -435,36 +482,93 @@ const ProductsPage = () => {
     }, 300); // 300ms debounce for search
 
     return () => clearTimeout(timeoutId);
-  }, [selectedCategory, priceRange, selectedColors, sortBy, searchQuery]);
+  }, [fetchProducts]);
 
   // Computed values
-  const activeFilterCount = useMemo(() => getActiveFilterCount(), [selectedCategory, priceRange, selectedColors]);
+  const activeFilterCount = useMemo(() => getActiveFilterCount(), [getActiveFilterCount]);
+
+  // Selected category and its ancestors, top level first
+  const selectedCategoryPath = useMemo(
+    () => (selectedCategory ? categoryPath(categories, selectedCategory) : []),
+    [selectedCategory, categories]
+  );
+  const currentCategory = selectedCategoryPath[selectedCategoryPath.length - 1];
 
   // Generate breadcrumb items
-  const breadcrumbItems = useMemo(() => [
-    {
-      label: 'Products',
-      path: selectedCategory ? '/products' : undefined,
-      icon: <Package size={16} />
-    },
-    ...(selectedCategory ? [{
-      label: categories.find(c => c.slug === selectedCategory)?.name || selectedCategory
-    }] : []),
-    ...(searchQuery ? [{
-      label: `Search: "${searchQuery}"`
-    }] : [])
-  ], [selectedCategory, categories, searchQuery]);
+  const breadcrumbItems = useMemo(() => {
+    const narrowed = !!(selectedCategory || searchQuery);
+    const basePath = brand ? `/brands/${brand.slug}` : '/products';
+
+    return [
+      ...(brand ? [
+        {
+          label: 'Brands',
+          path: '/brands',
+          icon: <Award size={16} />
+        },
+        {
+          label: brand.name,
+          path: narrowed ? `/brands/${brand.slug}` : undefined
+        }
+      ] : [{
+        label: 'Products',
+        path: narrowed ? '/products' : undefined,
+        icon: <Package size={16} />
+      }]),
+      ...(selectedCategoryPath.length > 0
+        ? categoryBreadcrumbs(selectedCategoryPath, !!searchQuery, basePath)
+        : selectedCategory ? [{ label: selectedCategory }] : []),
+      ...(searchQuery ? [{
+        label: `Search: "${searchQuery}"`
+      }] : [])
+    ];
+  }, [brand, selectedCategory, selectedCategoryPath, searchQuery]);
 
   // Memoized current category name
   const currentCategoryName = useMemo(() => {
-    return selectedCategory ? categories.find(c => c.slug === selectedCategory)?.name : 'All Products';
-  }, [selectedCategory, categories]);
+    const categoryName = currentCategory?.name || null;
+
+    if (brand) {
+      return categoryName ? `${brand.name} ${categoryName}` : brand.name;
+    }
+
+    return categoryName || 'All Products';
+  }, [brand, currentCategory]);
+
+  // Brand pages describe the brand; otherwise the category, if one is picked
+  const seoData = useMemo(() => {
+    if (brand) return generateSEOData.brand(brand);
+    return currentCategory ? generateSEOData.category(currentCategory) : generateSEOData.products();
+  }, [brand, currentCategory]);
+
+  const structuredData = useMemo(() => [
+    ...(brand ? [{ schema: generateBrandSchema(brand), id: 'brand-schema' }] : []),
+    { schema: generateBreadcrumbSchemaFromItems(breadcrumbItems), id: 'breadcrumb-schema' }
+  ], [brand, breadcrumbItems]);
 
   return (
     <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <SEOHead seoData={seoData} structuredData={structuredData} />
+
       {/* Breadcrumb */}
       <Breadcrumb items={breadcrumbItems} className="mb-4" />
 
+      {/* Brand */}
+      {brand && (brand.logo_url || brand.description) && (
+        <div className="flex items-center gap-6 mb-6 pb-6 border-b border-gray-200">
+          {brand.logo_url && (
+            <img
+              src={getBrandLogoUrl(brand.logo_url)}
+              alt={brand.name}
+              className="h-16 w-32 object-contain flex-shrink-0"
+            />
+          )}
+          {brand.description && (
+            <p className="text-sm text-gray-600 max-w-3xl">{brand.description}</p>
+          )}
+        </div>
+      )}
+
       {/* Header */}
       <div className="flex flex-col lg:flex-row lg:items-center justify-between mb-6 space-y-3 lg:space-y-0">
         <div>
@@ -472,7 +576,7 @@ const ProductsPage = () => {
             {currentCategoryName}
           </h1>
           <p className="text-sm text-slate-600 mt-1">
-            {loading ? 'Loading...' : error ? 'Error loading products' : `${products.length} products found`}
+            {loading ? 'Loading...' : error ? 'Error loading products' : `${totalCount} products found`}
           </p>
         </div>
 
@@ -491,7 +595,7 @@ const ProductsPage = () => {
             onChange={(e) => handleSortChange(e.target.value)}
             className="px-4 py-2 border border-slate-300 focus:outline-none focus:ring-2 focus:ring-orange-500 h-10"
           >
-            {SORT_OPTIONS.map(option => (
+            {SORT_OPTIONS.filter(option => option.value !== 'relevance' || searchQuery).map(option => (
               <option key={option.value} value={option.value}>
                 {option.label}
               </option>
@@ -511,6 +615,20 @@ const ProductsPage = () => {
         setPriceRange={handlePriceChange}
         selectedColors={selectedColors}
         handleColorToggle={handleColorToggle}
+        selectedBrands={selectedBrands}
+        handleBrandToggle={handleBrandToggle}
+        selectedSizes={selectedSizes}
+        handleSizeToggle={handleSizeToggle}
+        useMySize={useMySize}
+        setUseMySize={handleMySizeToggle}
+        selectedCollection={selectedCollection}
+        setSelectedCollection={handleCollectionChange}
+        inStockOnly={inStockOnly}
+        setInStockOnly={handleInStockChange}
+        facets={facets}
+        showBrands={!brand}
+        minRating={minRating}
+        setMinRating={handleRatingChange}
         searchQuery={searchQuery}
         setSearchQuery={handleSearchChange}
         clearFilters={clearFilters}
@@ -541,7 +659,7 @@ const ProductsPage = () => {
           </div>
         )}
 
-        <ProductGrid products={products} loading={loading} />
+        <ProductGrid products={products} loading={loading} highlight={searchQuery} />
 
         {/* Loading more indicator */}
         {loadingMore && (
@@ -555,14 +673,33 @@ const ProductsPage = () => {
         {!loading && !loadingMore && !hasMore && products.length > 0 && (
           <div className="text-center py-8 text-gray-500">
             <p>You've reached the end of our product catalog!</p>
-            <p className="text-sm mt-1">Showing all {products.length} products</p>
+            <p className="text-sm mt-1">Showing all {totalCount} products</p>
           </div>
         )}
 
         {/* No products message */}
         {!loading && !loadingMore && products.length === 0 && (
           <div className="text-center py-12">
-            <p className="text-gray-500 text-lg">No products found matching your criteria.</p>
+            <p className="text-gray-500 text-lg">
+              {searchQuery ? `No results for "${searchQuery}".` : 'No products found matching your criteria.'}
+            </p>
+            {didYouMean.length > 0 && (
+              <p className="text-gray-600 mt-2">
+                Did you mean{' '}
+                {didYouMean.map((suggestion, index) => (
+                  <span key={suggestion}>
+                    {index > 0 && ', '}
+                    <button
+                      onClick={() => handleSearchChange(suggestion)}
+                      className="font-medium text-black underline hover:text-gray-700"
+                    >
+                      {suggestion}
+                    </button>
+                  </span>
+                ))}
+                ?
+              </p>
+            )}
             <Button
               variant="outline"
               onClick={clearFilters}
@@ -1,7 +1,7 @@
 import { useState, useEffect } from 'react';
 import { Link } from 'react-router-dom';
 import { motion } from 'framer-motion';
-import { User, Mail, Calendar, Edit3, Save, X, Shield, Package, Heart, Lock, MapPin, Trash2 } from 'lucide-react';
+import { User, Mail, Calendar, Edit3, Save, X, Shield, Package, Heart, Lock, MapPin, Trash2, Smartphone, Ruler } from 'lucide-react';
 import { useAuth } from '../hooks/useAuth';
 import { useWishlistStore } from '../stores/wishlistStore';
 import { supabase } from '../lib/supabase';
@@ -11,6 +11,12 @@ import { showSuccessToast, showErrorToast } from '../components/ui/CustomToast';
 import logoWhite from '../assests/logo.white.png';
 import { InlineLoading } from '../components/ui/Loading';
 import Breadcrumb from '../components/ui/Breadcrumb';
+import { SRI_LANKA_DISTRICTS, getProvinceForDistrict } from '../utils/sriLankaRegions';
+import { requestSmsOtp, verifySmsOtp, setSmsOptIn } from '../services/smsService';
+import { formatLkMobile, normalizeLkMobile } from '../../supabase/functions/_shared/sms/templates.ts';
+import { useSizePreferenceStore } from '../stores/sizePreferenceStore';
+import MySizePicker from '../components/products/MySizePicker';
+import { MySize, formatMySize } from '../utils/sizeChart';
 
 const ProfilePage = () => {
   const { user, profile, updatePassword, refreshProfile } = useAuth();
@@ -34,6 +40,13 @@ const ProfilePage = () => {
     full_name: profile?.full_name || '',
     email: user?.email || '',
   });
+  // null: not changing the number; '' or digits: the number being verified
+  const [smsPhoneInput, setSmsPhoneInput] = useState<string | null>(null);
+  const [smsCodeSentTo, setSmsCodeSentTo] = useState<string | null>(null);
+  const [smsCode, setSmsCode] = useState('');
+  const [smsLoading, setSmsLoading] = useState(false);
+  const { mySize, setMySize } = useSizePreferenceStore();
+  const [editingMySize, setEditingMySize] = useState(false);
   const [passwordData, setPasswordData] = useState({
     currentPassword: '',
     newPassword: '',
@@ -184,6 +197,84 @@ const ProfilePage = () => {
     });
   };
 
+  const handleSendSmsCode = async () => {
+    if (!normalizeLkMobile(smsPhoneInput || '')) {
+      showErrorToast('Enter a Sri Lankan mobile number, e.g. 077 123 4567');
+      return;
+    }
+
+    setSmsLoading(true);
+    try {
+      const result = await requestSmsOtp(smsPhoneInput || '');
+      setSmsCodeSentTo(result.phone);
+      setSmsCode('');
+      showSuccessToast(`Code sent to ${formatLkMobile(result.phone)}`);
+    } catch (error: any) {
+      console.error('Error sending verification code:', error);
+      showErrorToast(error.message || 'Failed to send code');
+    } finally {
+      setSmsLoading(false);
+    }
+  };
+
+  const handleVerifySmsCode = async () => {
+    if (!/^\d{6}$/.test(smsCode.trim())) {
+      showErrorToast('Enter the 6-digit code');
+      return;
+    }
+
+    setSmsLoading(true);
+    try {
+      const result = await verifySmsOtp(smsCode);
+      if (!result.verified) {
+        showErrorToast(result.attempts_left
+          ? `Wrong code. ${result.attempts_left} attempt(s) left`
+          : 'Wrong code. Ask for a new one');
+        return;
+      }
+
+      await refreshProfile();
+      handleCancelSmsPhone();
+      showSuccessToast('Mobile number verified. SMS notifications are on');
+    } catch (error: any) {
+      console.error('Error verifying code:', error);
+      showErrorToast(error.message || 'Failed to verify code');
+    } finally {
+      setSmsLoading(false);
+    }
+  };
+
+  const handleSaveMySize = async (size: MySize | null) => {
+    try {
+      await setMySize(size);
+      setEditingMySize(false);
+      showSuccessToast(size ? 'Size saved' : 'Size removed');
+    } catch (error) {
+      console.error('Error saving size preference:', error);
+      showErrorToast('Failed to save your size');
+    }
+  };
+
+  const handleCancelSmsPhone = () => {
+    setSmsPhoneInput(null);
+    setSmsCodeSentTo(null);
+    setSmsCode('');
+  };
+
+  const handleToggleSmsOptIn = async () => {
+    setSmsLoading(true);
+    try {
+      await setSmsOptIn(!profile?.sms_opt_in);
+      await refreshProfile();
+      showSuccessToast(profile?.sms_opt_in ? 'SMS notifications turned off' : 'SMS notifications turned on');
+    } catch (error: any) {
+      console.error('Error updating SMS notifications:', error);
+      showErrorToast(error.message || 'Failed to update SMS notifications');
+    } finally {
+      setSmsLoading(false);
+    }
+  };
+
   const handleDeleteAddress = async (addressId: string) => {
     if (!user) return;
 
@@ -230,6 +321,8 @@ const ProfilePage = () => {
           last_name: editingAddress.last_name,
           address: editingAddress.address,
           apartment: editingAddress.apartment || null,
+          district: editingAddress.district || null,
+          province: editingAddress.district ? getProvinceForDistrict(editingAddress.district) : null,
           city: editingAddress.city,
           postal_code: editingAddress.postal_code,
           phone: editingAddress.phone,
@@ -465,6 +558,145 @@ const ProfilePage = () => {
                       </div>
                     )}
                   </div>
+
+                  {/* SMS Notifications */}
+                  <div className="space-y-2">
+                    <label className="block text-xs font-semibold text-white uppercase tracking-wide">
+                      SMS Notifications
+                    </label>
+                    {smsPhoneInput === null ? (
+                      <div className="p-3 bg-white/5 border border-white/10 rounded-lg space-y-3">
+                        <div className="flex items-center justify-between">
+                          <div className="flex items-center space-x-3 min-w-0">
+                            <Smartphone className="w-4 h-4 text-gray-400 flex-shrink-0" />
+                            <span className="text-sm text-white font-medium truncate">
+                              {profile?.sms_phone ? formatLkMobile(profile.sms_phone) : 'No mobile number'}
+                            </span>
+                          </div>
+                          <button
+                            onClick={() => setSmsPhoneInput('')}
+                            className="text-xs text-gray-400 hover:text-white transition-colors"
+                          >
+                            {profile?.sms_phone ? 'Change' : 'Add'}
+                          </button>
+                        </div>
+                        {profile?.sms_phone && (
+                          <label className="flex items-center justify-between cursor-pointer">
+                            <span className="text-xs text-gray-400">
+                              Texts when your order is confirmed and dispatched
+                            </span>
+                            <input
+                              type="checkbox"
+                              checked={profile.sms_opt_in}
+                              onChange={handleToggleSmsOptIn}
+                              disabled={smsLoading}
+                              className="w-4 h-4 accent-white"
+                            />
+                          </label>
+                        )}
+                      </div>
+                    ) : (
+                      <div className="space-y-3 p-3 bg-white/5 border border-white/10 rounded-lg">
+                        {smsCodeSentTo === null ? (
+                          <Input
+                            type="tel"
+                            placeholder="Mobile number, e.g. 077 123 4567"
+                            value={smsPhoneInput}
+                            onChange={(e) => setSmsPhoneInput(e.target.value)}
+                            className="bg-white/5 border-white/20 text-white placeholder:text-gray-400 text-sm"
+                          />
+                        ) : (
+                          <>
+                            <p className="text-xs text-gray-400">
+                              Enter the 6-digit code we sent to {formatLkMobile(smsCodeSentTo)}
+                            </p>
+                            <Input
+                              inputMode="numeric"
+                              autoComplete="one-time-code"
+                              maxLength={6}
+                              placeholder="Verification code"
+                              value={smsCode}
+                              onChange={(e) => setSmsCode(e.target.value.replace(/\D/g, ''))}
+                              className="bg-white/5 border-white/20 text-white placeholder:text-gray-400 text-sm tracking-widest"
+                            />
+                          </>
+                        )}
+                        <div className="flex flex-col sm:flex-row space-y-2 sm:space-y-0 sm:space-x-2">
+                          <Button
+                            size="sm"
+                            onClick={smsCodeSentTo === null ? handleSendSmsCode : handleVerifySmsCode}
+                            disabled={smsLoading}
+                            className="!bg-white !text-black hover:!bg-gray-200 !text-xs font-medium w-full sm:w-auto"
+                          >
+                            {smsLoading ? 'Please wait...' : smsCodeSentTo === null ? 'Send code' : 'Verify'}
+                          </Button>
+                          {smsCodeSentTo !== null && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={handleSendSmsCode}
+                              disabled={smsLoading}
+                              className="text-gray-400 hover:text-white hover:bg-white/10 border-white/20 !text-xs w-full sm:w-auto"
+                            >
+                              Resend code
+                            </Button>
+                          )}
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={handleCancelSmsPhone}
+                            className="text-gray-400 hover:text-white hover:bg-white/10 border-white/20 !text-xs w-full sm:w-auto"
+                          >
+                            Cancel
+                          </Button>
+                        </div>
+                      </div>
+                    )}
+                  </div>
+
+                  {/* Shoe Size */}
+                  <div className="space-y-2">
+                    <label className="block text-xs font-semibold text-white uppercase tracking-wide">
+                      My Shoe Size
+                    </label>
+                    <div className="p-3 bg-white/5 border border-white/10 rounded-lg space-y-3">
+                      <div className="flex items-center justify-between">
+                        <div className="flex items-center space-x-3 min-w-0">
+                          <Ruler className="w-4 h-4 text-gray-400 flex-shrink-0" />
+                          <span className="text-sm text-white font-medium truncate">
+                            {mySize ? formatMySize(mySize) : 'Not set'}
+                          </span>
+                        </div>
+                        <div className="flex items-center space-x-3">
+                          {mySize && !editingMySize && (
+                            <button
+                              onClick={() => handleSaveMySize(null)}
+                              className="text-xs text-gray-400 hover:text-white transition-colors"
+                            >
+                              Remove
+                            </button>
+                          )}
+                          <button
+                            onClick={() => setEditingMySize(!editingMySize)}
+                            className="text-xs text-gray-400 hover:text-white transition-colors"
+                          >
+                            {editingMySize ? 'Cancel' : mySize ? 'Change' : 'Add'}
+                          </button>
+                        </div>
+                      </div>
+                      {editingMySize ? (
+                        <MySizePicker
+                          value={mySize}
+                          onChange={handleSaveMySize}
+                          selectClassName="w-full px-2 py-2 bg-white/5 border border-white/20 rounded text-sm text-white focus:outline-none focus:ring-1 focus:ring-white"
+                        />
+                      ) : (
+                        <p className="text-xs text-gray-400">
+                          Product listings show your size first
+                        </p>
+                      )}
+                    </div>
+                  </div>
                 </div>
 
                 {/* Saved Delivery Addresses */}
@@ -522,6 +754,18 @@ const ProfilePage = () => {
                                 placeholder="Apartment (optional)"
                                 className="bg-white/5 border-white/20 text-white placeholder:text-gray-400 text-sm"
                               />
+                              {editingAddress.country === 'Sri Lanka' && (
+                                <select
+                                  value={editingAddress.district || ''}
+                                  onChange={(e) => setEditingAddress({ ...editingAddress, district: e.target.value })}
+                                  className="w-full px-3 py-2 bg-white/5 border border-white/20 rounded-lg text-white text-sm focus:outline-none focus:border-white"
+                                >
+                                  <option value="" className="bg-black">Select district</option>
+                                  {SRI_LANKA_DISTRICTS.map(district => (
+                                    <option key={district} value={district} className="bg-black">{district}</option>
+                                  ))}
+                                </select>
+                              )}
                               <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
                                 <Input
                                   value={editingAddress.city}
@@ -581,7 +825,7 @@ const ProfilePage = () => {
                                     {address.apartment && `, ${address.apartment}`}
                                   </p>
                                   <p className="text-gray-400 text-xs">
-                                    {address.city}, {address.postal_code}
+                                    {address.city}{address.district && `, ${address.district}`}, {address.postal_code}
                                   </p>
                                   <p className="text-gray-400 text-xs">
                                     {address.country_code} {address.phone}
@@ -33,7 +33,7 @@ const RefundPolicyPage: React.FC = () => {
     {
       step: "1",
       title: "Initiate Return",
-      description: "Contact our customer service to start the process"
+      description: "Open the order under My Orders and choose Return / Exchange"
     },
     {
       step: "2",
@@ -157,15 +157,15 @@ const RefundPolicyPage: React.FC = () => {
           <h2 className="text-base font-semibold mb-4">Exchanges</h2>
           <div className="border border-white p-3">
             <p className="mb-2 text-sm">
-              We currently don't offer direct exchanges. To exchange an item for a different size or style:
+              To exchange an item for a different size or colour of the same product:
             </p>
             <ol className="space-y-1 text-xs ml-3">
-              <li>1. Return your original item following our return process</li>
-              <li>2. Place a new order for the desired item</li>
-              <li>3. Once your return is processed, you'll receive a full refund</li>
+              <li>1. Open the order under My Orders and choose Return / Exchange</li>
+              <li>2. Select the item and the size or colour you want instead</li>
+              <li>3. Once we receive your original item, we'll ship the replacement</li>
             </ol>
             <p className="text-xs opacity-90 mt-2">
-              This ensures you get the exact item you want and the fastest possible service.
+              For a different product, return the original item and place a new order.
             </p>
           </div>
         </section>
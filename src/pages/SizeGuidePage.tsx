@@ -1,5 +1,6 @@
 import React, { useState } from 'react';
 import { Ruler, Info, ArrowRight } from 'lucide-react';
+import { SIZE_CHARTS, SizeChartId } from '../utils/sizeChart';
 
 const SizeGuidePage: React.FC = () => {
   const [selectedCategory, setSelectedCategory] = useState('men');
@@ -11,75 +12,7 @@ const SizeGuidePage: React.FC = () => {
     { id: 'kids', label: 'Kids\' Shoes' }
   ];
 
-  const menSizes = [
-    { us: '6', uk: '5.5', eu: '39', cm: '24.5' },
-    { us: '6.5', uk: '6', eu: '39.5', cm: '25' },
-    { us: '7', uk: '6.5', eu: '40', cm: '25.5' },
-    { us: '7.5', uk: '7', eu: '40.5', cm: '26' },
-    { us: '8', uk: '7.5', eu: '41', cm: '26.5' },
-    { us: '8.5', uk: '8', eu: '42', cm: '27' },
-    { us: '9', uk: '8.5', eu: '42.5', cm: '27.5' },
-    { us: '9.5', uk: '9', eu: '43', cm: '28' },
-    { us: '10', uk: '9.5', eu: '44', cm: '28.5' },
-    { us: '10.5', uk: '10', eu: '44.5', cm: '29' },
-    { us: '11', uk: '10.5', eu: '45', cm: '29.5' },
-    { us: '11.5', uk: '11', eu: '45.5', cm: '30' },
-    { us: '12', uk: '11.5', eu: '46', cm: '30.5' },
-    { us: '13', uk: '12.5', eu: '47', cm: '31.5' }
-  ];
-
-  const womenSizes = [
-    { us: '5', uk: '2.5', eu: '35', cm: '22' },
-    { us: '5.5', uk: '3', eu: '35.5', cm: '22.5' },
-    { us: '6', uk: '3.5', eu: '36', cm: '23' },
-    { us: '6.5', uk: '4', eu: '37', cm: '23.5' },
-    { us: '7', uk: '4.5', eu: '37.5', cm: '24' },
-    { us: '7.5', uk: '5', eu: '38', cm: '24.5' },
-    { us: '8', uk: '5.5', eu: '38.5', cm: '25' },
-    { us: '8.5', uk: '6', eu: '39', cm: '25.5' },
-    { us: '9', uk: '6.5', eu: '40', cm: '26' },
-    { us: '9.5', uk: '7', eu: '40.5', cm: '26.5' },
-    { us: '10', uk: '7.5', eu: '41', cm: '27' },
-    { us: '10.5', uk: '8', eu: '42', cm: '27.5' },
-    { us: '11', uk: '8.5', eu: '42.5', cm: '28' },
-    { us: '12', uk: '9.5', eu: '43', cm: '29' }
-  ];
-
-  const kidsSizes = [
-    { us: '10C', uk: '9.5', eu: '27', cm: '16.5' },
-    { us: '10.5C', uk: '10', eu: '27.5', cm: '17' },
-    { us: '11C', uk: '10.5', eu: '28', cm: '17.5' },
-    { us: '11.5C', uk: '11', eu: '29', cm: '18' },
-    { us: '12C', uk: '11.5', eu: '30', cm: '18.5' },
-    { us: '12.5C', uk: '12', eu: '30.5', cm: '19' },
-    { us: '13C', uk: '12.5', eu: '31', cm: '19.5' },
-    { us: '13.5C', uk: '13', eu: '32', cm: '20' },
-    { us: '1Y', uk: '13.5', eu: '32.5', cm: '20.5' },
-    { us: '1.5Y', uk: '1', eu: '33', cm: '21' },
-    { us: '2Y', uk: '1.5', eu: '34', cm: '21.5' },
-    { us: '2.5Y', uk: '2', eu: '34.5', cm: '22' },
-    { us: '3Y', uk: '2.5', eu: '35', cm: '22.5' },
-    { us: '3.5Y', uk: '3', eu: '35.5', cm: '23' },
-    { us: '4Y', uk: '3.5', eu: '36', cm: '23.5' },
-    { us: '4.5Y', uk: '4', eu: '36.5', cm: '24' },
-    { us: '5Y', uk: '4.5', eu: '37', cm: '24.5' },
-    { us: '5.5Y', uk: '5', eu: '38', cm: '25' },
-    { us: '6Y', uk: '5.5', eu: '38.5', cm: '25.5' },
-    { us: '7Y', uk: '6', eu: '40', cm: '26' }
-  ];
-
-  const getCurrentSizes = () => {
-    switch (selectedCategory) {
-      case 'men':
-        return menSizes;
-      case 'women':
-        return womenSizes;
-      case 'kids':
-        return kidsSizes;
-      default:
-        return menSizes;
-    }
-  };
+  const getCurrentSizes = () => SIZE_CHARTS[selectedCategory as SizeChartId] || SIZE_CHARTS.men;
 
   const measurementSteps = [
     {
@@ -3,6 +3,7 @@ import { Upload, X, Send, AlertCircle } from 'lucide-react';
 import { showSuccessToast, showErrorToast } from '../components/ui/CustomToast';
 import { supabase } from '../lib/supabase';
 import { useAuth } from '../hooks/useAuth';
+import { flushEmailQueue } from '../services/emailService';
 
 const SubmitRequestPage: React.FC = () => {
   const { user } = useAuth();
@@ -146,6 +147,9 @@ const SubmitRequestPage: React.FC = () => {
         await uploadFiles(supportRequest.id);
       }
 
+      // Sends the acknowledgement queued for the new request
+      flushEmailQueue();
+
       showSuccessToast('Support request submitted successfully! We\'ll get back to you within 24 hours.');
       setFormData({
         name: '',
@@ -1,5 +1,5 @@
 import { useEffect, useState, useRef } from 'react';
-import { useNavigate, useSearchParams } from 'react-router-dom';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
 import { motion } from 'framer-motion';
 import { Check, ArrowLeft, ChevronLeft, ChevronRight, CheckCircle } from 'lucide-react';
 import { useAuth } from '../hooks/useAuth';
@@ -8,7 +8,8 @@ import ProductCard from '../components/products/ProductCard';
 import logo from '../assests/logo.black.png';
 import { InlineLoading } from '../components/ui/Loading';
 import Breadcrumb from '../components/ui/Breadcrumb';
-import { FREE_SHIPPING_THRESHOLD } from '../utils/constants';
+import { fetchGuestOrder, guestOrderPath } from '../services/orderService';
+import { PAYMENT_METHODS, PaymentMethodCode, isOnlinePaymentMethod, isPaymentMethodCode } from '../paymentProviders/methods';
 
 interface Product {
   id: string;
@@ -36,17 +37,17 @@ const ThankYouPage = () => {
 
   // Get order info from URL params
   const orderTotal = parseFloat(searchParams.get('total') || '0');
-  const paymentMethod = searchParams.get('method') as 'payhere' | 'bank' | 'cod' || 'cod';
+  const methodParam = searchParams.get('method');
+  const paymentMethod: PaymentMethodCode = isPaymentMethodCode(methodParam) ? methodParam : 'cod';
+  const paidOnline = isOnlinePaymentMethod(paymentMethod);
   const customerName = searchParams.get('name') || 'Customer';
   const orderId = searchParams.get('orderId') || searchParams.get('order_id') || 'UNKNOWN';
+  // Only guest orders carry their access token
+  const accessToken = searchParams.get('token');
+  const [orderNumber, setOrderNumber] = useState<string | null>(null);
 
-  // Calculate shipping cost based on free shipping threshold
-  const getShippingCost = (total: number) => {
-    if (total >= FREE_SHIPPING_THRESHOLD) return 0;
-    return 399; // Default shipping cost
-  };
-
-  const shippingCost = getShippingCost(orderTotal);
+  // Shipping is priced server-side per zone and passed along from checkout
+  const shippingCost = parseFloat(searchParams.get('shipping') || '0');
   const subtotal = orderTotal - shippingCost;
 
   useEffect(() => {
@@ -59,6 +60,15 @@ const ThankYouPage = () => {
     fetchRecommendedProducts();
   }, [orderTotal, navigate]);
 
+  // Guests need the order number to look the order up again
+  useEffect(() => {
+    if (!accessToken || orderId === 'UNKNOWN') return;
+
+    fetchGuestOrder(orderId, accessToken)
+      .then(order => setOrderNumber(order.order_number))
+      .catch(error => console.error('Error fetching order number:', error));
+  }, [orderId, accessToken]);
+
   const fetchRecommendedProducts = async () => {
     setLoading(true);
     try {
@@ -119,13 +129,15 @@ const ThankYouPage = () => {
 
 
   const getPaymentMethodMessage = () => {
+    if (paidOnline) {
+      return {
+        title: 'Payment Successful!',
+        message: 'Your payment has been processed successfully.',
+        icon: <Check className="w-8 h-8 sm:w-10 sm:h-10 lg:w-12 lg:h-12 text-green-500" />
+      };
+    }
+
     switch (paymentMethod) {
-      case 'payhere':
-        return {
-          title: 'Payment Successful!',
-          message: 'Your payment has been processed successfully.',
-          icon: <Check className="w-8 h-8 sm:w-10 sm:h-10 lg:w-12 lg:h-12 text-green-500" />
-        };
       case 'bank':
         return {
           title: 'Order Placed!',
@@ -227,24 +239,22 @@ const ThankYouPage = () => {
               <div className="space-y-2 text-xs sm:text-sm">
                 <div className="flex justify-between items-start">
                   <span className="text-gray-400 flex-shrink-0">Order ID:</span>
-                  <span className="text-white font-mono text-right break-all ml-2">#{orderId !== 'UNKNOWN' ? orderId.slice(-8).toUpperCase() : 'UNKNOWN'}</span>
+                  <span className="text-white font-mono text-right break-all ml-2">{orderNumber || `#${orderId !== 'UNKNOWN' ? orderId.slice(-8).toUpperCase() : 'UNKNOWN'}`}</span>
                 </div>
                 <div className="flex justify-between items-start">
                   <span className="text-gray-400 flex-shrink-0">Payment Method:</span>
                   <span className="text-white capitalize text-right ml-2">
-                    {paymentMethod === 'payhere' ? 'PayHere' :
-                     paymentMethod === 'bank' ? 'Bank Transfer' :
-                     'Cash on Delivery'}
+                    {PAYMENT_METHODS[paymentMethod].name}
                   </span>
                 </div>
                 <div className="flex justify-between items-start">
                   <span className="text-gray-400 flex-shrink-0">Order Status:</span>
                   <span className={`font-medium text-right ml-2 ${
-                    paymentMethod === 'payhere' ? 'text-green-400' :
+                    paidOnline ? 'text-green-400' :
                     paymentMethod === 'bank' ? 'text-blue-400' :
                     'text-orange-400'
                   }`}>
-                    {paymentMethod === 'payhere' ? 'Paid' :
+                    {paidOnline ? 'Paid' :
                      paymentMethod === 'bank' ? 'Awaiting Payment' :
                      'Pending'}
                   </span>
@@ -301,6 +311,19 @@ const ThankYouPage = () => {
             </div>
           </div>
 
+          {accessToken && orderId !== 'UNKNOWN' && (
+            <div className="mt-4 p-3 sm:p-4 border border-gray-700 rounded-lg">
+              <h5 className="text-xs sm:text-sm font-medium text-white">Track this order</h5>
+              <p className="text-xs sm:text-sm text-gray-400 mt-1">
+                Bookmark{' '}
+                <Link to={guestOrderPath(orderId, accessToken)} className="text-white underline break-all">
+                  your order page
+                </Link>
+                {' '}to follow it without an account, or find it later from Track Your Order with your order number and email.
+              </p>
+            </div>
+          )}
+
           {/* Payment Method Specific Information */}
           {paymentMethod === 'bank' && (
             <div className="mt-4 p-3 sm:p-4 bg-blue-900/20 border border-blue-500/30 rounded-lg">
@@ -313,7 +336,7 @@ const ThankYouPage = () => {
                 <div className="ml-3 min-w-0">
                   <h5 className="text-xs sm:text-sm font-medium text-blue-400">Bank Transfer Instructions</h5>
                   <p className="text-xs sm:text-sm text-blue-300 mt-1">
-                    Please check your email for detailed bank transfer instructions. Your order will be processed once payment is received.
+                    Please check your email for detailed bank transfer instructions. Once you have paid, upload your payment slip on your order page and we'll process your order when it has been checked. Unpaid orders are cancelled after a few days.
                   </p>
                 </div>
               </div>
@@ -3,6 +3,7 @@ import { useSearchParams, Link } from 'react-router-dom';
 import { motion } from 'framer-motion';
 import { Mail, CheckCircle, XCircle, ArrowLeft } from 'lucide-react';
 import { supabase } from '../lib/supabase';
+import { unsubscribeStockNotifications } from '../services/stockNotificationService';
 import { showSuccessToast, showErrorToast } from '../components/ui/CustomToast';
 import Button from '../components/ui/Button';
 import Input from '../components/ui/Input';
@@ -19,13 +20,35 @@ const UnsubscribePage = () => {
   } | null>(null);
 
   const token = searchParams.get('token');
+  // Links in back-in-stock emails cancel stock alerts instead of the newsletter
+  const isStockAlerts = searchParams.get('list') === 'back-in-stock';
 
   useEffect(() => {
     // If there's a token in the URL, automatically unsubscribe
     if (token) {
-      handleUnsubscribeWithToken(token);
+      if (isStockAlerts) {
+        handleStockAlertUnsubscribe(token);
+      } else {
+        handleUnsubscribeWithToken(token);
+      }
     }
-  }, [token]);
+  }, [token, isStockAlerts]);
+
+  const handleStockAlertUnsubscribe = async (unsubscribeToken: string) => {
+    setLoading(true);
+    try {
+      const result = await unsubscribeStockNotifications(unsubscribeToken);
+      const message = 'Successfully unsubscribed from stock alerts';
+      setUnsubscribeResult({ success: true, message, email: result.email });
+      showSuccessToast(message);
+    } catch (error: any) {
+      const message = error.message || 'Failed to unsubscribe. Please try again.';
+      setUnsubscribeResult({ success: false, message });
+      showErrorToast(message);
+    } finally {
+      setLoading(false);
+    }
+  };
 
   const handleUnsubscribeWithToken = async (unsubscribeToken: string) => {
     setLoading(true);
@@ -144,11 +167,12 @@ const UnsubscribePage = () => {
                     {unsubscribeResult.email && (
                       <><strong>{unsubscribeResult.email}</strong> has been </>
                     )}
-                    removed from our newsletter list.
+                    {isStockAlerts ? 'removed from our back-in-stock alerts.' : 'removed from our newsletter list.'}
                   </p>
                   <p className="text-gray-500 text-sm mb-6">
-                    You will no longer receive newsletter emails from us.
-                    If you change your mind, you can always subscribe again from our website.
+                    {isStockAlerts
+                      ? 'You will no longer be emailed when sold-out items return. You can ask again from any product page.'
+                      : 'You will no longer receive newsletter emails from us. If you change your mind, you can always subscribe again from our website.'}
                   </p>
                 </>
               ) : (
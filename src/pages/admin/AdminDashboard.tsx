@@ -1,10 +1,11 @@
 import { useState, useEffect } from 'react';
 import { Link } from 'react-router-dom';
-import { Package, ShoppingCart, Users, DollarSign, Eye, LayoutDashboard } from 'lucide-react';
+import { Package, ShoppingCart, Users, DollarSign, Eye, LayoutDashboard, BarChart3 } from 'lucide-react';
 import AdminLayout from '../../components/admin/AdminLayout';
-import { supabaseAdmin, isUserAdmin } from '../../lib/supabaseAdmin';
+import { supabase } from '../../lib/supabase';
 import { useAuth } from '../../hooks/useAuth';
 import Breadcrumb from '../../components/ui/Breadcrumb';
+import { fetchSalesSummary } from '../../services/analyticsService';
 
 interface DashboardStats {
   totalProducts: number;
@@ -47,18 +48,13 @@ const AdminDashboard = () => {
         throw new Error('User not authenticated');
       }
 
-      // Verify user is admin before using admin client
-      const isAdmin = await isUserAdmin(user.id);
-      if (!isAdmin) {
-        throw new Error('Access denied: Admin privileges required');
-      }
-
-      // Fetch stats in parallel using admin client
-      const [productsRes, ordersRes, usersRes, recentOrdersRes] = await Promise.all([
-        supabaseAdmin.from('products').select('id', { count: 'exact', head: true }),
-        supabaseAdmin.from('orders').select('id, total', { count: 'exact' }),
-        supabaseAdmin.from('profiles').select('id', { count: 'exact', head: true }),
-        supabaseAdmin
+      // Fetch stats in parallel
+      const [productsRes, summary, usersRes, recentOrdersRes] = await Promise.all([
+        supabase.from('products').select('id', { count: 'exact', head: true }),
+        // Paid orders only; cancelled and unpaid orders aren't revenue
+        fetchSalesSummary(),
+        supabase.from('profiles').select('id', { count: 'exact', head: true }),
+        supabase
           .from('orders')
           .select(`
             *,
@@ -71,14 +67,11 @@ const AdminDashboard = () => {
           .limit(10)
       ]);
 
-      // Calculate total revenue
-      const totalRevenue = ordersRes.data?.reduce((sum, order) => sum + (order.total || 0), 0) || 0;
-
       setStats({
         totalProducts: productsRes.count || 0,
-        totalOrders: ordersRes.count || 0,
+        totalOrders: Number(summary.order_count),
         totalUsers: usersRes.count || 0,
-        totalRevenue
+        totalRevenue: Number(summary.net_revenue)
       });
 
       setRecentOrders(recentOrdersRes.data || []);
@@ -131,7 +124,13 @@ const AdminDashboard = () => {
 
         {/* Header */}
         <div>
-          <h1 className="text-2xl font-bold text-white mb-2">Dashboard</h1>
+          <div className="flex items-center justify-between">
+            <h1 className="text-2xl font-bold text-white mb-2">Dashboard</h1>
+            <Link to="/admin/analytics" className="text-blue-400 hover:text-blue-300 flex items-center text-sm">
+              <BarChart3 className="w-4 h-4 mr-1" />
+              Sales analytics
+            </Link>
+          </div>
           <p className="text-[rgb(94,94,94)]">Overview of your eCommerce store</p>
         </div>
 
@@ -150,7 +149,7 @@ const AdminDashboard = () => {
           <div className="bg-black border border-[rgb(51,51,51)] rounded-lg p-6">
             <div className="flex items-center justify-between">
               <div>
-                <p className="text-[rgb(94,94,94)] text-sm">Total Orders</p>
+                <p className="text-[rgb(94,94,94)] text-sm">Paid Orders</p>
                 <p className="text-2xl font-bold text-white">{stats.totalOrders}</p>
               </div>
               <ShoppingCart className="w-8 h-8 text-green-400" />
@@ -170,7 +169,7 @@ const AdminDashboard = () => {
           <div className="bg-black border border-[rgb(51,51,51)] rounded-lg p-6">
             <div className="flex items-center justify-between">
               <div>
-                <p className="text-[rgb(94,94,94)] text-sm">Total Revenue</p>
+                <p className="text-[rgb(94,94,94)] text-sm">Net Revenue</p>
                 <p className="text-2xl font-bold text-white">LKR {stats.totalRevenue.toLocaleString()}</p>
               </div>
               <DollarSign className="w-8 h-8 text-yellow-400" />
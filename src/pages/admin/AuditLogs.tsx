@@ -1,7 +1,7 @@
 import { useState, useEffect } from 'react';
 import { ClipboardList, Filter, Search, Eye, ChevronLeft, ChevronRight, LayoutDashboard } from 'lucide-react';
 import AdminLayout from '../../components/admin/AdminLayout';
-import { supabaseAdmin, isUserAdmin } from '../../lib/supabaseAdmin';
+import { supabase } from '../../lib/supabase';
 import { useAuth } from '../../hooks/useAuth';
 import Button from '../../components/ui/Button';
 import Input from '../../components/ui/Input';
@@ -51,18 +51,13 @@ const AuditLogs = () => {
         throw new Error('User not authenticated');
       }
 
-      const isAdmin = await isUserAdmin(user.id);
-      if (!isAdmin) {
-        throw new Error('Access denied: Admin privileges required');
-      }
-
       // Build base query for counting
-      let countQuery = supabaseAdmin
+      let countQuery = supabase
         .from('audit_logs')
         .select('*', { count: 'exact', head: true });
 
       // Build query for fetching data
-      let dataQuery = supabaseAdmin
+      let dataQuery = supabase
         .from('audit_logs')
         .select(`
           *,
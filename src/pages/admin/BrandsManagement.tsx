@@ -0,0 +1,447 @@
+import { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { Plus, Edit, Trash2, LayoutDashboard, Award, ExternalLink } from 'lucide-react';
+import AdminLayout from '../../components/admin/AdminLayout';
+import { useAuth } from '../../hooks/useAuth';
+import Button from '../../components/ui/Button';
+import Input from '../../components/ui/Input';
+import ConfirmDialog from '../../components/ui/ConfirmDialog';
+import { showSuccessToast, showErrorToast } from '../../components/ui/CustomToast';
+import Breadcrumb from '../../components/ui/Breadcrumb';
+import {
+  createBrand,
+  deleteBrand,
+  fetchBrands,
+  getBrandLogoUrl,
+  updateBrand
+} from '../../services/brandService';
+import { deleteBrandLogo, uploadBrandLogo } from '../../lib/imageUpload';
+import { BrandWithCount } from '../../types/brand';
+
+const EMPTY_FORM = {
+  name: '',
+  slug: '',
+  description: '',
+  logo_url: ''
+};
+
+const BrandsManagement = () => {
+  const { user } = useAuth();
+  const [brands, setBrands] = useState<BrandWithCount[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showModal, setShowModal] = useState(false);
+  const [editingBrand, setEditingBrand] = useState<BrandWithCount | null>(null);
+  const [uploading, setUploading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [deletingBrand, setDeletingBrand] = useState<BrandWithCount | null>(null);
+  const [deleting, setDeleting] = useState(false);
+  const [formData, setFormData] = useState(EMPTY_FORM);
+
+  useEffect(() => {
+    if (user) {
+      loadBrands();
+    }
+  }, [user]);
+
+  const loadBrands = async () => {
+    try {
+      setLoading(true);
+      setBrands(await fetchBrands());
+    } catch (error) {
+      console.error('Error fetching brands:', error);
+      showErrorToast('Failed to load brands');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const generateSlug = (name: string) => {
+    return name
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/(^-|-$)+/g, '');
+  };
+
+  const handleNameChange = (name: string) => {
+    setFormData({
+      ...formData,
+      name,
+      // Keep an existing brand's URL unless the admin edits the slug
+      slug: editingBrand ? formData.slug : generateSlug(name)
+    });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    setSaving(true);
+    try {
+      const brandData = {
+        name: formData.name.trim(),
+        slug: formData.slug.trim(),
+        description: formData.description.trim() || null,
+        logo_url: formData.logo_url || null
+      };
+
+      if (editingBrand) {
+        await updateBrand(editingBrand.id, brandData);
+        if (editingBrand.logo_url && editingBrand.logo_url !== brandData.logo_url) {
+          await deleteBrandLogo(editingBrand.logo_url);
+        }
+        showSuccessToast('Brand updated successfully');
+      } else {
+        await createBrand(brandData);
+        showSuccessToast('Brand created successfully');
+      }
+
+      closeModal();
+      loadBrands();
+    } catch (error: any) {
+      console.error('Error saving brand:', error);
+      if (error.code === '23505') {
+        showErrorToast('A brand with this slug already exists');
+      } else {
+        showErrorToast(error.message || 'Failed to save brand');
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const confirmDeleteBrand = async () => {
+    if (!deletingBrand) return;
+
+    setDeleting(true);
+    try {
+      await deleteBrand(deletingBrand.id);
+      if (deletingBrand.logo_url) {
+        await deleteBrandLogo(deletingBrand.logo_url);
+      }
+
+      setBrands(brands.filter(brand => brand.id !== deletingBrand.id));
+      showSuccessToast('Brand deleted successfully');
+      setDeletingBrand(null);
+    } catch (error) {
+      console.error('Error deleting brand:', error);
+      showErrorToast('Failed to delete brand');
+    } finally {
+      setDeleting(false);
+    }
+  };
+
+  const handleLogoUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    try {
+      setUploading(true);
+
+      // A logo uploaded earlier in this form and then replaced is not used anywhere
+      if (formData.logo_url && formData.logo_url !== editingBrand?.logo_url) {
+        await deleteBrandLogo(formData.logo_url);
+      }
+
+      const logoPath = await uploadBrandLogo(file, formData.slug || generateSlug(formData.name));
+      setFormData({ ...formData, logo_url: logoPath });
+      showSuccessToast('Logo uploaded successfully');
+    } catch (error: any) {
+      console.error('Error uploading logo:', error);
+      showErrorToast(error.message || 'Failed to upload logo');
+    } finally {
+      setUploading(false);
+      event.target.value = '';
+    }
+  };
+
+  const openEditModal = (brand?: BrandWithCount) => {
+    if (brand) {
+      setEditingBrand(brand);
+      setFormData({
+        name: brand.name,
+        slug: brand.slug,
+        description: brand.description || '',
+        logo_url: brand.logo_url || ''
+      });
+    } else {
+      setEditingBrand(null);
+      setFormData(EMPTY_FORM);
+    }
+    setShowModal(true);
+  };
+
+  const closeModal = () => {
+    setShowModal(false);
+    setEditingBrand(null);
+    setFormData(EMPTY_FORM);
+  };
+
+  const handleCancel = async () => {
+    // Drop a logo uploaded for a form that is never saved
+    if (formData.logo_url && formData.logo_url !== editingBrand?.logo_url) {
+      await deleteBrandLogo(formData.logo_url);
+    }
+    closeModal();
+  };
+
+  if (loading) {
+    return (
+      <AdminLayout>
+        <div className="flex items-center justify-center h-64">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-white"></div>
+        </div>
+      </AdminLayout>
+    );
+  }
+
+  const breadcrumbItems = [
+    {
+      label: 'Admin',
+      path: '/admin',
+      icon: <LayoutDashboard size={16} />
+    },
+    {
+      label: 'Brands Management',
+      icon: <Award size={16} />
+    }
+  ];
+
+  return (
+    <AdminLayout>
+      <div className="space-y-6">
+        {/* Breadcrumb */}
+        <Breadcrumb items={breadcrumbItems} variant="white" />
+
+        {/* Header */}
+        <div className="flex justify-between items-center">
+          <div>
+            <h1 className="text-2xl font-bold text-white mb-2">Brands Management</h1>
+            <p className="text-[rgb(94,94,94)]">Manage brands, their logos and landing pages</p>
+          </div>
+
+          <Button
+            onClick={() => openEditModal()}
+            className="bg-[rgb(51,51,51)] text-white hover:bg-[rgb(64,64,64)] border border-[rgb(94,94,94)]"
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            Add Brand
+          </Button>
+        </div>
+
+        {/* Brands Table */}
+        <div className="bg-black border border-[rgb(51,51,51)] rounded-lg overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-[rgb(25,25,25)]">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-[rgb(94,94,94)] uppercase tracking-wider">
+                    Brand
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-[rgb(94,94,94)] uppercase tracking-wider">
+                    Slug
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-[rgb(94,94,94)] uppercase tracking-wider">
+                    Logo
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-[rgb(94,94,94)] uppercase tracking-wider">
+                    Products
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-[rgb(94,94,94)] uppercase tracking-wider">
+                    Actions
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-[rgb(51,51,51)]">
+                {brands.map((brand) => (
+                  <tr key={brand.id} className="hover:bg-white/5">
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div>
+                        <div className="text-sm font-medium text-white">{brand.name}</div>
+                        {brand.description && (
+                          <div className="text-sm text-[rgb(94,94,94)] truncate max-w-xs">
+                            {brand.description}
+                          </div>
+                        )}
+                      </div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-[rgb(94,94,94)]">
+                      <Link
+                        to={`/brands/${brand.slug}`}
+                        target="_blank"
+                        className="inline-flex items-center hover:text-white transition-colors"
+                      >
+                        {brand.slug}
+                        <ExternalLink className="w-3 h-3 ml-1" />
+                      </Link>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      {brand.logo_url ? (
+                        <img
+                          src={getBrandLogoUrl(brand.logo_url)}
+                          alt={brand.name}
+                          className="w-12 h-12 object-contain rounded bg-white p-1"
+                        />
+                      ) : (
+                        <div className="w-12 h-12 bg-[rgb(51,51,51)] rounded flex items-center justify-center">
+                          <span className="text-[rgb(94,94,94)] text-xs">No Logo</span>
+                        </div>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-white">
+                      {brand.productCount}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm space-x-2">
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => openEditModal(brand)}
+                        className="border-[rgb(51,51,51)] text-white hover:bg-white hover:text-black"
+                      >
+                        <Edit className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => setDeletingBrand(brand)}
+                        className="border-red-500 text-red-400 hover:bg-red-500 hover:text-white transition-colors"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {brands.length === 0 && (
+            <div className="px-6 py-12 text-center text-[rgb(94,94,94)]">
+              <Award className="w-12 h-12 mx-auto mb-4 opacity-50" />
+              <p>No brands found</p>
+            </div>
+          )}
+        </div>
+
+        {/* Add/Edit Brand Modal */}
+        {showModal && (
+          <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50">
+            <div className="bg-black border border-[rgb(51,51,51)] rounded-lg w-full max-w-lg mx-4 max-h-[90vh] overflow-y-auto">
+              <div className="px-6 py-4 border-b border-[rgb(51,51,51)] flex justify-between items-center">
+                <h3 className="text-lg font-semibold text-white">
+                  {editingBrand ? 'Edit Brand' : 'Add New Brand'}
+                </h3>
+                <button
+                  onClick={handleCancel}
+                  className="text-[rgb(94,94,94)] hover:text-white"
+                >
+                  ×
+                </button>
+              </div>
+
+              <form onSubmit={handleSubmit} className="p-6 space-y-4">
+                <Input
+                  label="Brand Name"
+                  variant="dark"
+                  value={formData.name}
+                  onChange={(e) => handleNameChange(e.target.value)}
+                  required
+                />
+
+                <Input
+                  label="Slug"
+                  variant="dark"
+                  value={formData.slug}
+                  onChange={(e) => setFormData({ ...formData, slug: generateSlug(e.target.value) })}
+                  helperText={`Brand page: /brands/${formData.slug || 'slug'}`}
+                  required
+                />
+
+                <div>
+                  <label className="block text-sm font-medium text-[rgb(94,94,94)] mb-2">
+                    Description
+                  </label>
+                  <textarea
+                    value={formData.description}
+                    onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                    rows={3}
+                    className="w-full px-4 py-2.5 bg-black text-white border border-[rgb(51,51,51)] rounded-lg hover:border-[rgb(94,94,94)] focus:outline-none focus:border-white transition-colors"
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-[rgb(94,94,94)] mb-2">
+                    Logo
+                  </label>
+                  <div className="space-y-2">
+                    <input
+                      type="file"
+                      accept="image/*"
+                      onChange={handleLogoUpload}
+                      disabled={uploading}
+                      className="w-full px-4 py-2.5 bg-black text-white border border-[rgb(51,51,51)] rounded-lg hover:border-[rgb(94,94,94)] focus:outline-none focus:border-white file:mr-4 file:py-2 file:px-4 file:rounded-full file:border-0 file:text-sm file:font-semibold file:bg-white file:text-black hover:file:bg-gray-200"
+                    />
+                    {uploading && (
+                      <p className="text-[rgb(94,94,94)] text-sm">Uploading logo...</p>
+                    )}
+                    {formData.logo_url && (
+                      <div className="mt-2 flex items-center space-x-3">
+                        <img
+                          src={getBrandLogoUrl(formData.logo_url)}
+                          alt="Preview"
+                          className="w-20 h-20 object-contain rounded bg-white p-1"
+                        />
+                        <button
+                          type="button"
+                          onClick={() => setFormData({ ...formData, logo_url: '' })}
+                          className="text-sm text-[rgb(94,94,94)] hover:text-white"
+                        >
+                          Remove logo
+                        </button>
+                      </div>
+                    )}
+                  </div>
+                </div>
+
+                <div className="flex space-x-4 pt-4">
+                  <Button
+                    type="submit"
+                    disabled={saving || uploading}
+                    className="bg-[rgb(51,51,51)] text-white hover:bg-[rgb(64,64,64)] border border-[rgb(94,94,94)]"
+                  >
+                    {saving ? 'Saving...' : editingBrand ? 'Update Brand' : 'Create Brand'}
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    onClick={handleCancel}
+                    className="border-[rgb(51,51,51)] text-white hover:bg-white hover:text-black"
+                  >
+                    Cancel
+                  </Button>
+                </div>
+              </form>
+            </div>
+          </div>
+        )}
+
+        {/* Delete Brand Confirmation Dialog */}
+        <ConfirmDialog
+          isOpen={!!deletingBrand}
+          onClose={() => setDeletingBrand(null)}
+          onConfirm={confirmDeleteBrand}
+          title="Delete Brand"
+          message={
+            deletingBrand?.productCount
+              ? `Delete ${deletingBrand.name}? Its ${deletingBrand.productCount} products will stay in the catalogue without a brand.`
+              : `Delete ${deletingBrand?.name}? This action cannot be undone.`
+          }
+          confirmText="Delete Brand"
+          cancelText="Cancel"
+          variant="danger"
+          loading={deleting}
+        />
+      </div>
+    </AdminLayout>
+  );
+};
+
+export default BrandsManagement;
@@ -1,23 +1,37 @@
-import { useState, useEffect } from 'react';
-import { Plus, Edit, Trash2, Pin, PinOff, Upload, LayoutDashboard, Grid3X3 } from 'lucide-react';
+import { useState, useEffect, useMemo } from 'react';
+import { Plus, Edit, Trash2, Pin, PinOff, LayoutDashboard, Grid3X3, GripVertical, ChevronRight, ChevronDown, FolderPlus } from 'lucide-react';
 import AdminLayout from '../../components/admin/AdminLayout';
-import { supabaseAdmin, isUserAdmin } from '../../lib/supabaseAdmin';
+import { supabase } from '../../lib/supabase';
 import { useAuth } from '../../hooks/useAuth';
 import Button from '../../components/ui/Button';
 import Input from '../../components/ui/Input';
 import ConfirmDialog from '../../components/ui/ConfirmDialog';
 import { showSuccessToast, showErrorToast } from '../../components/ui/CustomToast';
 import Breadcrumb from '../../components/ui/Breadcrumb';
+import { fetchCategories as fetchCategoryList, moveCategory } from '../../services/categoryService';
+import { Category, CategoryNode } from '../../types/category';
+import { buildCategoryTree, descendantIds, flattenCategoryTree } from '../../utils/categoryTree';
 
-interface Category {
-  id: string;
-  name: string;
-  slug: string;
-  description: string | null;
-  image_url: string | null;
-  is_pinned: boolean;
-  created_at: string;
-}
+// Where a dragged category lands relative to the row under the pointer
+type DropZone = 'before' | 'inside' | 'after';
+
+const dropZoneFor = (e: React.DragEvent<HTMLElement>): DropZone => {
+  const rect = e.currentTarget.getBoundingClientRect();
+  const offset = (e.clientY - rect.top) / rect.height;
+
+  if (offset < 0.25) return 'before';
+  if (offset > 0.75) return 'after';
+  return 'inside';
+};
+
+const DROP_ZONE_CLASSES: Record<DropZone, string> = {
+  before: 'shadow-[inset_0_2px_0_0_white]',
+  inside: 'bg-white/10',
+  after: 'shadow-[inset_0_-2px_0_0_white]'
+};
+
+const sortSiblings = (siblings: Category[]) =>
+  [...siblings].sort((a, b) => a.display_order - b.display_order || a.name.localeCompare(b.name));
 
 const CategoriesManagement = () => {
   const { user } = useAuth();
@@ -29,14 +43,31 @@ const CategoriesManagement = () => {
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
   const [deletingCategoryId, setDeletingCategoryId] = useState<string | null>(null);
   const [deleting, setDeleting] = useState(false);
+  const [collapsedIds, setCollapsedIds] = useState<Set<string>>(new Set());
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<{ id: string; zone: DropZone } | null>(null);
   const [formData, setFormData] = useState({
     name: '',
     slug: '',
     description: '',
     image_url: '',
-    is_pinned: false
+    is_pinned: false,
+    parent_id: ''
   });
 
+  const tree = useMemo(() => buildCategoryTree(categories), [categories]);
+
+  // Rows in tree order, skipping the subcategories of collapsed rows
+  const visibleRows = useMemo(() => {
+    const rows: CategoryNode[] = [];
+    const walk = (nodes: CategoryNode[]) => nodes.forEach(node => {
+      rows.push(node);
+      if (!collapsedIds.has(node.id)) walk(node.children);
+    });
+    walk(tree);
+    return rows;
+  }, [tree, collapsedIds]);
+
   useEffect(() => {
     if (user) {
       fetchCategories();
@@ -45,24 +76,11 @@ const CategoriesManagement = () => {
 
   const fetchCategories = async () => {
     try {
-      setLoading(true);
-
       if (!user) {
         throw new Error('User not authenticated');
       }
 
-      const isAdmin = await isUserAdmin(user.id);
-      if (!isAdmin) {
-        throw new Error('Access denied: Admin privileges required');
-      }
-
-      const { data, error } = await supabaseAdmin
-        .from('categories')
-        .select('*')
-        .order('created_at', { ascending: false });
-
-      if (error) throw error;
-      setCategories(data || []);
+      setCategories(await fetchCategoryList());
     } catch (error) {
       console.error('Error fetching categories:', error);
       showErrorToast('Failed to load categories');
@@ -99,25 +117,29 @@ const CategoriesManagement = () => {
     }
 
     try {
+      const parentId = formData.parent_id || null;
+      // New categories, and ones moved to another parent, go last among their siblings
+      const siblings = categories.filter(category =>
+        category.parent_id === parentId && category.id !== editingCategory?.id
+      );
       const categoryData = {
         name: formData.name,
         slug: formData.slug,
         description: formData.description || null,
         image_url: formData.image_url || null,
-        is_pinned: formData.is_pinned
+        is_pinned: formData.is_pinned,
+        parent_id: parentId,
+        ...(!editingCategory || editingCategory.parent_id !== parentId
+          ? { display_order: Math.max(-1, ...siblings.map(category => category.display_order)) + 1 }
+          : {})
       };
 
       if (!user) {
         throw new Error('User not authenticated');
       }
 
-      const isAdmin = await isUserAdmin(user.id);
-      if (!isAdmin) {
-        throw new Error('Access denied: Admin privileges required');
-      }
-
       if (editingCategory) {
-        const { error } = await supabaseAdmin
+        const { error } = await supabase
           .from('categories')
           .update(categoryData)
           .eq('id', editingCategory.id);
@@ -125,7 +147,7 @@ const CategoriesManagement = () => {
         if (error) throw error;
         showSuccessToast('Category updated successfully');
       } else {
-        const { error } = await supabaseAdmin
+        const { error } = await supabase
           .from('categories')
           .insert([categoryData]);
 
@@ -162,12 +184,7 @@ const CategoriesManagement = () => {
         throw new Error('User not authenticated');
       }
 
-      const isAdmin = await isUserAdmin(user.id);
-      if (!isAdmin) {
-        throw new Error('Access denied: Admin privileges required');
-      }
-
-      const { error } = await supabaseAdmin
+      const { error } = await supabase
         .from('categories')
         .update({ is_pinned: !currentPinned })
         .eq('id', categoryId);
@@ -201,19 +218,15 @@ const CategoriesManagement = () => {
         throw new Error('User not authenticated');
       }
 
-      const isAdmin = await isUserAdmin(user.id);
-      if (!isAdmin) {
-        throw new Error('Access denied: Admin privileges required');
-      }
-
-      const { error } = await supabaseAdmin
+      const { error } = await supabase
         .from('categories')
         .delete()
         .eq('id', deletingCategoryId);
 
       if (error) throw error;
 
-      setCategories(categories.filter(category => category.id !== deletingCategoryId));
+      // Its subcategories have moved up a level, so reload the tree
+      await fetchCategories();
       showSuccessToast('Category deleted successfully');
       setShowDeleteConfirm(false);
       setDeletingCategoryId(null);
@@ -238,7 +251,7 @@ const CategoriesManagement = () => {
       const fileName = `${Math.random()}.${fileExt}`;
       const filePath = `categories/${fileName}`;
 
-      const { error: uploadError } = await supabaseAdmin.storage
+      const { error: uploadError } = await supabase.storage
         .from('kixora')
         .upload(filePath, file);
 
@@ -246,10 +259,6 @@ const CategoriesManagement = () => {
         throw uploadError;
       }
 
-      const { data } = supabaseAdmin.storage
-        .from('kixora')
-        .getPublicUrl(filePath);
-
       setFormData({ ...formData, image_url: filePath });
       showSuccessToast('Image uploaded successfully');
     } catch (error: any) {
@@ -260,7 +269,7 @@ const CategoriesManagement = () => {
     }
   };
 
-  const openEditModal = (category?: Category) => {
+  const openEditModal = (category?: Category, parentId?: string) => {
     if (category) {
       setEditingCategory(category);
       setFormData({
@@ -268,25 +277,103 @@ const CategoriesManagement = () => {
         slug: category.slug,
         description: category.description || '',
         image_url: category.image_url || '',
-        is_pinned: category.is_pinned
+        is_pinned: category.is_pinned,
+        parent_id: category.parent_id || ''
       });
     } else {
       setEditingCategory(null);
-      resetForm();
+      resetForm(parentId);
     }
     setShowModal(true);
   };
 
-  const resetForm = () => {
+  const resetForm = (parentId = '') => {
     setFormData({
       name: '',
       slug: '',
       description: '',
       image_url: '',
-      is_pinned: false
+      is_pinned: false,
+      parent_id: parentId
     });
   };
 
+  const toggleCollapsed = (categoryId: string) => {
+    const next = new Set(collapsedIds);
+    if (next.has(categoryId)) {
+      next.delete(categoryId);
+    } else {
+      next.add(categoryId);
+    }
+    setCollapsedIds(next);
+  };
+
+  // A category can't be dropped on itself or anywhere under itself
+  const canDropOn = (targetId: string) =>
+    !!draggingId && !descendantIds(categories, draggingId).has(targetId);
+
+  const endDrag = () => {
+    setDraggingId(null);
+    setDropTarget(null);
+  };
+
+  const handleDragStart = (e: React.DragEvent<HTMLElement>, categoryId: string) => {
+    e.dataTransfer.effectAllowed = 'move';
+    // Firefox won't start a drag without some data
+    e.dataTransfer.setData('text/plain', categoryId);
+    setDraggingId(categoryId);
+  };
+
+  const handleDragOver = (e: React.DragEvent<HTMLElement>, target: Category) => {
+    if (!canDropOn(target.id)) return;
+
+    e.preventDefault();
+    const zone = dropZoneFor(e);
+    if (dropTarget?.id !== target.id || dropTarget.zone !== zone) {
+      setDropTarget({ id: target.id, zone });
+    }
+  };
+
+  const handleDrop = async (e: React.DragEvent<HTMLElement>, target: Category) => {
+    e.preventDefault();
+    const movingId = draggingId;
+    const zone = dropZoneFor(e);
+    const allowed = canDropOn(target.id);
+    endDrag();
+
+    if (!movingId || !allowed) return;
+
+    const parentId = zone === 'inside' ? target.id : target.parent_id;
+    const siblings = sortSiblings(categories.filter(category =>
+      category.parent_id === parentId && category.id !== movingId
+    ));
+    const position = zone === 'inside'
+      ? siblings.length
+      : siblings.findIndex(category => category.id === target.id) + (zone === 'after' ? 1 : 0);
+
+    try {
+      if (!user) {
+        throw new Error('User not authenticated');
+      }
+
+      await moveCategory(movingId, parentId, position);
+
+      if (zone === 'inside' && collapsedIds.has(target.id)) {
+        toggleCollapsed(target.id);
+      }
+      await fetchCategories();
+      showSuccessToast('Category moved');
+    } catch (error: any) {
+      console.error('Error moving category:', error);
+      showErrorToast(error.message || 'Failed to move category');
+    }
+  };
+
+  // Parent options leave out the category being edited and everything under it
+  const excludedParentIds = editingCategory ? descendantIds(categories, editingCategory.id) : new Set<string>();
+  const parentOptions = flattenCategoryTree(tree).filter(category => !excludedParentIds.has(category.id));
+  const deletingChildCount = categories.filter(category => category.parent_id === deletingCategoryId).length;
+
   const pinnedCount = categories.filter(cat => cat.is_pinned).length;
 
   if (loading) {
@@ -322,6 +409,9 @@ const CategoriesManagement = () => {
           <div>
             <h1 className="text-2xl font-bold text-white mb-2">Categories Management</h1>
             <p className="text-[rgb(94,94,94)]">Manage product categories and homepage tiles</p>
+            <p className="text-[rgb(94,94,94)] text-sm mt-1">
+              Drag a category onto another to nest it, or above or below one to reorder
+            </p>
             <p className="text-[rgb(94,94,94)] text-sm mt-1">
               Pinned categories ({pinnedCount}/3) appear as tiles on homepage
             </p>
@@ -363,16 +453,51 @@ const CategoriesManagement = () => {
                 </tr>
               </thead>
               <tbody className="divide-y divide-[rgb(51,51,51)]">
-                {categories.map((category) => (
-                  <tr key={category.id} className="hover:bg-white/5">
+                {visibleRows.map((category) => (
+                  <tr
+                    key={category.id}
+                    draggable
+                    onDragStart={(e) => handleDragStart(e, category.id)}
+                    onDragOver={(e) => handleDragOver(e, category)}
+                    onDragLeave={() => dropTarget?.id === category.id && setDropTarget(null)}
+                    onDrop={(e) => handleDrop(e, category)}
+                    onDragEnd={endDrag}
+                    className={`hover:bg-white/5 ${draggingId === category.id ? 'opacity-50' : ''} ${
+                      dropTarget?.id === category.id ? DROP_ZONE_CLASSES[dropTarget.zone] : ''
+                    }`}
+                  >
                     <td className="px-6 py-4 whitespace-nowrap">
-                      <div>
-                        <div className="text-sm font-medium text-white">{category.name}</div>
-                        {category.description && (
-                          <div className="text-sm text-[rgb(94,94,94)] truncate max-w-xs">
-                            {category.description}
-                          </div>
+                      <div className="flex items-center" style={{ paddingLeft: `${category.depth * 24}px` }}>
+                        <GripVertical className="w-4 h-4 text-[rgb(94,94,94)] mr-2 cursor-grab flex-shrink-0" />
+                        {category.children.length > 0 ? (
+                          <button
+                            type="button"
+                            onClick={() => toggleCollapsed(category.id)}
+                            className="text-[rgb(94,94,94)] hover:text-white mr-2"
+                            aria-label={collapsedIds.has(category.id) ? 'Expand' : 'Collapse'}
+                          >
+                            {collapsedIds.has(category.id) ? (
+                              <ChevronRight className="w-4 h-4" />
+                            ) : (
+                              <ChevronDown className="w-4 h-4" />
+                            )}
+                          </button>
+                        ) : (
+                          <span className="w-4 mr-2" />
                         )}
+                        <div>
+                          <div className="text-sm font-medium text-white">{category.name}</div>
+                          {category.description && (
+                            <div className="text-sm text-[rgb(94,94,94)] truncate max-w-xs">
+                              {category.description}
+                            </div>
+                          )}
+                          {category.children.length > 0 && (
+                            <div className="text-xs text-[rgb(94,94,94)]">
+                              {category.children.length} {category.children.length === 1 ? 'subcategory' : 'subcategories'}
+                            </div>
+                          )}
+                        </div>
                       </div>
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-[rgb(94,94,94)]">
@@ -413,6 +538,15 @@ const CategoriesManagement = () => {
                       {new Date(category.created_at).toLocaleDateString()}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm space-x-2">
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => openEditModal(undefined, category.id)}
+                        className="border-[rgb(51,51,51)] text-white hover:bg-white hover:text-black"
+                        title="Add subcategory"
+                      >
+                        <FolderPlus className="w-4 h-4" />
+                      </Button>
                       <Button
                         size="sm"
                         variant="outline"
@@ -478,6 +612,24 @@ const CategoriesManagement = () => {
                   required
                 />
 
+                <div>
+                  <label className="block text-sm font-medium text-[rgb(94,94,94)] mb-2">
+                    Parent Category
+                  </label>
+                  <select
+                    value={formData.parent_id}
+                    onChange={(e) => setFormData({ ...formData, parent_id: e.target.value })}
+                    className="w-full px-4 py-2.5 bg-black text-white border border-[rgb(51,51,51)] rounded-lg hover:border-[rgb(94,94,94)] focus:outline-none focus:border-white"
+                  >
+                    <option value="" className="bg-black">None (top level)</option>
+                    {parentOptions.map(category => (
+                      <option key={category.id} value={category.id} className="bg-black">
+                        {'\u00A0\u00A0'.repeat(category.depth)}{category.name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+
                 <div>
                   <label className="block text-sm font-medium text-[rgb(94,94,94)] mb-2">
                     Description
@@ -562,7 +714,9 @@ const CategoriesManagement = () => {
           }}
           onConfirm={confirmDeleteCategory}
           title="Delete Category"
-          message={`Are you sure you want to delete this category? This action cannot be undone and will affect all products in this category.`}
+          message={`Are you sure you want to delete this category? This action cannot be undone and will affect all products in this category.${
+            deletingChildCount > 0 ? ` Its ${deletingChildCount === 1 ? 'subcategory moves' : `${deletingChildCount} subcategories move`} up a level.` : ''
+          }`}
           confirmText="Delete Category"
           cancelText="Cancel"
           variant="danger"
@@ -1,7 +1,7 @@
 import { useState, useEffect } from 'react';
 import { Plus, Edit, Trash2, Pin, PinOff, Package, Eye, LayoutDashboard, Grid3X3, X, Search, Upload, Image as ImageIcon } from 'lucide-react';
 import AdminLayout from '../../components/admin/AdminLayout';
-import { supabaseAdmin, isUserAdmin } from '../../lib/supabaseAdmin';
+import { supabase } from '../../lib/supabase';
 import { useAuth } from '../../hooks/useAuth';
 import Button from '../../components/ui/Button';
 import Input from '../../components/ui/Input';
@@ -85,13 +85,8 @@ const CollectionsManagement = () => {
         throw new Error('User not authenticated');
       }
 
-      const isAdmin = await isUserAdmin(user.id);
-      if (!isAdmin) {
-        throw new Error('Access denied: Admin privileges required');
-      }
-
       // Fetch collections with product count
-      const { data, error } = await supabaseAdmin
+      const { data, error } = await supabase
         .from('collections')
         .select(`
           *,
@@ -162,11 +157,6 @@ const CollectionsManagement = () => {
         throw new Error('User not authenticated');
       }
 
-      const isAdmin = await isUserAdmin(user.id);
-      if (!isAdmin) {
-        throw new Error('Access denied: Admin privileges required');
-      }
-
       const collectionData = {
         name: formData.name.trim(),
         slug: formData.slug || generateSlug(formData.name),
@@ -179,12 +169,12 @@ const CollectionsManagement = () => {
 
       let result;
       if (editingCollection) {
-        result = await supabaseAdmin
+        result = await supabase
           .from('collections')
           .update(collectionData)
           .eq('id', editingCollection.id);
       } else {
-        result = await supabaseAdmin
+        result = await supabase
           .from('collections')
           .insert([collectionData]);
       }
@@ -311,13 +301,8 @@ const CollectionsManagement = () => {
         throw new Error('User not authenticated');
       }
 
-      const isAdmin = await isUserAdmin(user.id);
-      if (!isAdmin) {
-        throw new Error('Access denied: Admin privileges required');
-      }
-
       // Hard delete - will cascade delete collection_products due to foreign key
-      const { error } = await supabaseAdmin
+      const { error } = await supabase
         .from('collections')
         .delete()
         .eq('id', deletingCollectionId);
@@ -342,18 +327,13 @@ const CollectionsManagement = () => {
         throw new Error('User not authenticated');
       }
 
-      const isAdmin = await isUserAdmin(user.id);
-      if (!isAdmin) {
-        throw new Error('Access denied: Admin privileges required');
-      }
-
       // Check if trying to pin when another collection is already pinned
       if (!currentStatus && pinnedCollection && pinnedCollection.id !== collectionId) {
         showErrorToast('Only one collection can be pinned at a time. Unpin the current collection first.');
         return;
       }
 
-      const { error } = await supabaseAdmin
+      const { error } = await supabase
         .from('collections')
         .update({ is_pinned: !currentStatus })
         .eq('id', collectionId);
@@ -384,7 +364,7 @@ const CollectionsManagement = () => {
     try {
       setLoadingProducts(true);
 
-      const { data, error } = await supabaseAdmin
+      const { data, error } = await supabase
         .from('collection_products')
         .select(`
           *,
@@ -411,7 +391,7 @@ const CollectionsManagement = () => {
 
   const fetchAvailableProducts = async () => {
     try {
-      const { data, error } = await supabaseAdmin
+      const { data, error } = await supabase
         .from('products')
         .select('id, title, sku, price, is_active')
         .eq('is_active', true)
@@ -430,7 +410,7 @@ const CollectionsManagement = () => {
     if (!selectedCollection) return;
 
     try {
-      const { error } = await supabaseAdmin
+      const { error } = await supabase
         .from('collection_products')
         .insert([{
           collection_id: selectedCollection.id,
@@ -457,7 +437,7 @@ const CollectionsManagement = () => {
     if (!selectedCollection) return;
 
     try {
-      const { error } = await supabaseAdmin
+      const { error } = await supabase
         .from('collection_products')
         .delete()
         .eq('id', collectionProductId);
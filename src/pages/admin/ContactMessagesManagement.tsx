@@ -1,7 +1,7 @@
 import { useState, useEffect } from 'react';
 import { Eye, MessageCircle, CheckCircle, Clock, XCircle, LayoutDashboard, Search } from 'lucide-react';
 import AdminLayout from '../../components/admin/AdminLayout';
-import { supabaseAdmin, isUserAdmin } from '../../lib/supabaseAdmin';
+import { supabase } from '../../lib/supabase';
 import { useAuth } from '../../hooks/useAuth';
 import Breadcrumb from '../../components/ui/Breadcrumb';
 import { showSuccessToast, showErrorToast } from '../../components/ui/CustomToast';
@@ -38,12 +38,7 @@ const ContactMessagesManagement = () => {
         throw new Error('User not authenticated');
       }
 
-      const isAdmin = await isUserAdmin(user.id);
-      if (!isAdmin) {
-        throw new Error('Access denied: Admin privileges required');
-      }
-
-      const { data, error } = await supabaseAdmin
+      const { data, error } = await supabase
         .from('contact_messages')
         .select('*')
         .order('created_at', { ascending: false });
@@ -67,12 +62,7 @@ const ContactMessagesManagement = () => {
         throw new Error('User not authenticated');
       }
 
-      const isAdmin = await isUserAdmin(user.id);
-      if (!isAdmin) {
-        throw new Error('Access denied: Admin privileges required');
-      }
-
-      const { error } = await supabaseAdmin
+      const { error } = await supabase
         .from('contact_messages')
         .update({ status })
         .eq('id', messageId);
@@ -0,0 +1,663 @@
+import { useState, useEffect } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Plus, Edit, Trash2, Eye, EyeOff, Calendar, Tag } from 'lucide-react';
+import { supabase } from '../../lib/supabase';
+import AdminLayout from '../../components/admin/AdminLayout';
+import Button from '../../components/ui/Button';
+import Breadcrumb from '../../components/ui/Breadcrumb';
+import { showSuccessToast, showErrorToast } from '../../components/ui/CustomToast';
+import { SubmitHandler, useForm } from 'react-hook-form';
+import { yupResolver } from '@hookform/resolvers/yup';
+import * as yup from 'yup';
+import { DiscountCodeWithUsage, DiscountType } from '../../types/discount';
+
+interface ScopeOption {
+  id: string;
+  name: string;
+}
+
+type ScopeKey = 'product_ids' | 'category_ids' | 'collection_ids';
+
+const discountSchema = yup.object({
+  code: yup
+    .string()
+    .required('Code is required')
+    .matches(/^[A-Za-z0-9_-]{3,32}$/, 'Use 3-32 letters, numbers, dashes or underscores'),
+  description: yup.string().nullable(),
+  discount_type: yup.string().oneOf(['percentage', 'fixed', 'free_shipping']).required(),
+  value: yup
+    .number()
+    .typeError('Value must be a number')
+    .min(0, 'Value must be 0 or higher')
+    .when('discount_type', {
+      is: 'percentage',
+      then: (schema) => schema.max(100, 'Percentage cannot exceed 100'),
+    })
+    .required('Value is required'),
+  max_discount: yup.string().nullable(),
+  min_subtotal: yup.number().typeError('Minimum spend must be a number').min(0).required(),
+  usage_limit: yup.string().nullable(),
+  per_user_limit: yup.string().nullable(),
+  starts_at: yup.string().required('Start date is required'),
+  ends_at: yup.string().nullable(),
+  is_active: yup.boolean(),
+});
+
+type DiscountFormValues = yup.InferType<typeof discountSchema>;
+
+const emptyScopes: Record<ScopeKey, string[]> = {
+  product_ids: [],
+  category_ids: [],
+  collection_ids: [],
+};
+
+const defaultFormValues = () => ({
+  code: '',
+  description: '',
+  discount_type: 'percentage' as DiscountType,
+  value: 10,
+  max_discount: '',
+  min_subtotal: 0,
+  usage_limit: '',
+  per_user_limit: '',
+  starts_at: new Date().toISOString().slice(0, 16),
+  ends_at: '',
+  is_active: true,
+});
+
+const DiscountsManagement = () => {
+  const [discounts, setDiscounts] = useState<DiscountCodeWithUsage[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showModal, setShowModal] = useState(false);
+  const [editingDiscount, setEditingDiscount] = useState<DiscountCodeWithUsage | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const [scopes, setScopes] = useState<Record<ScopeKey, string[]>>(emptyScopes);
+  const [scopeOptions, setScopeOptions] = useState<Record<ScopeKey, ScopeOption[]>>({
+    product_ids: [],
+    category_ids: [],
+    collection_ids: [],
+  });
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+    reset,
+    watch
+  } = useForm({
+    resolver: yupResolver(discountSchema),
+    defaultValues: defaultFormValues(),
+  });
+
+  const discountType = watch('discount_type');
+
+  const fetchDiscounts = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('discount_codes')
+        .select('*, discount_redemptions(count)')
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      setDiscounts((data as DiscountCodeWithUsage[]) || []);
+    } catch (error: any) {
+      showErrorToast(error.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchScopeOptions = async () => {
+    try {
+      const [productsRes, categoriesRes, collectionsRes] = await Promise.all([
+        supabase.from('products').select('id, title').order('title'),
+        supabase.from('categories').select('id, name').order('name'),
+        supabase.from('collections').select('id, name').order('name'),
+      ]);
+
+      if (productsRes.error) throw productsRes.error;
+      if (categoriesRes.error) throw categoriesRes.error;
+      if (collectionsRes.error) throw collectionsRes.error;
+
+      setScopeOptions({
+        product_ids: ((productsRes.data || []) as { id: string; title: string }[]).map(p => ({ id: p.id, name: p.title })),
+        category_ids: (categoriesRes.data || []) as ScopeOption[],
+        collection_ids: (collectionsRes.data || []) as ScopeOption[],
+      });
+    } catch (error: any) {
+      showErrorToast(error.message);
+    }
+  };
+
+  useEffect(() => {
+    fetchDiscounts();
+    fetchScopeOptions();
+  }, []);
+
+  const handleCreate = () => {
+    setEditingDiscount(null);
+    reset(defaultFormValues());
+    setScopes(emptyScopes);
+    setShowModal(true);
+  };
+
+  const handleEdit = (discount: DiscountCodeWithUsage) => {
+    setEditingDiscount(discount);
+    reset({
+      code: discount.code,
+      description: discount.description || '',
+      discount_type: discount.discount_type,
+      value: discount.value,
+      max_discount: discount.max_discount?.toString() || '',
+      min_subtotal: discount.min_subtotal,
+      usage_limit: discount.usage_limit?.toString() || '',
+      per_user_limit: discount.per_user_limit?.toString() || '',
+      starts_at: new Date(discount.starts_at).toISOString().slice(0, 16),
+      ends_at: discount.ends_at ? new Date(discount.ends_at).toISOString().slice(0, 16) : '',
+      is_active: discount.is_active,
+    });
+    setScopes({
+      product_ids: discount.product_ids,
+      category_ids: discount.category_ids,
+      collection_ids: discount.collection_ids,
+    });
+    setShowModal(true);
+  };
+
+  const toggleScope = (key: ScopeKey, id: string) => {
+    setScopes(prev => ({
+      ...prev,
+      [key]: prev[key].includes(id) ? prev[key].filter(existing => existing !== id) : [...prev[key], id],
+    }));
+  };
+
+  const optionalNumber = (value: string | null | undefined) => {
+    if (value === null || value === undefined || value === '') return null;
+    const parsed = Number(value);
+    return Number.isNaN(parsed) ? null : parsed;
+  };
+
+  const onSubmit: SubmitHandler<DiscountFormValues> = async (data) => {
+    setSubmitting(true);
+    try {
+      const discountData = {
+        code: data.code.trim().toUpperCase(),
+        description: data.description || null,
+        discount_type: data.discount_type,
+        value: data.discount_type === 'free_shipping' ? 0 : data.value,
+        max_discount: data.discount_type === 'percentage' ? optionalNumber(data.max_discount) : null,
+        min_subtotal: data.min_subtotal || 0,
+        usage_limit: optionalNumber(data.usage_limit),
+        per_user_limit: optionalNumber(data.per_user_limit),
+        starts_at: new Date(data.starts_at).toISOString(),
+        ends_at: data.ends_at ? new Date(data.ends_at).toISOString() : null,
+        is_active: data.is_active,
+        ...scopes,
+      };
+
+      if (editingDiscount) {
+        const { error } = await supabase
+          .from('discount_codes')
+          .update(discountData)
+          .eq('id', editingDiscount.id);
+
+        if (error) throw error;
+        showSuccessToast('Discount code updated successfully');
+      } else {
+        const { error } = await supabase
+          .from('discount_codes')
+          .insert(discountData);
+
+        if (error) throw error;
+        showSuccessToast('Discount code created successfully');
+      }
+
+      setShowModal(false);
+      fetchDiscounts();
+    } catch (error: any) {
+      showErrorToast(error.code === '23505' ? 'A discount code with this name already exists' : error.message);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const toggleActive = async (id: string, currentActive: boolean) => {
+    try {
+      const { error } = await supabase
+        .from('discount_codes')
+        .update({ is_active: !currentActive })
+        .eq('id', id);
+
+      if (error) throw error;
+      showSuccessToast(`Discount code ${!currentActive ? 'activated' : 'deactivated'}`);
+      fetchDiscounts();
+    } catch (error: any) {
+      showErrorToast(error.message);
+    }
+  };
+
+  const deleteDiscount = async (discount: DiscountCodeWithUsage) => {
+    const message = getUsageCount(discount) > 0
+      ? 'This code has been used on orders. Deleting it also removes its redemption history. Deactivate it instead?\n\nPress OK to delete anyway.'
+      : 'Are you sure you want to delete this discount code?';
+    if (!confirm(message)) return;
+
+    try {
+      const { error } = await supabase
+        .from('discount_codes')
+        .delete()
+        .eq('id', discount.id);
+
+      if (error) throw error;
+      showSuccessToast('Discount code deleted successfully');
+      fetchDiscounts();
+    } catch (error: any) {
+      showErrorToast(error.message);
+    }
+  };
+
+  const getUsageCount = (discount: DiscountCodeWithUsage) => {
+    return discount.discount_redemptions?.[0]?.count || 0;
+  };
+
+  const formatValue = (discount: DiscountCodeWithUsage) => {
+    switch (discount.discount_type) {
+      case 'percentage':
+        return `${discount.value}% off${discount.max_discount ? ` (max LKR ${discount.max_discount.toLocaleString()})` : ''}`;
+      case 'fixed':
+        return `LKR ${discount.value.toLocaleString()} off`;
+      case 'free_shipping':
+        return 'Free shipping';
+    }
+  };
+
+  const formatScope = (discount: DiscountCodeWithUsage) => {
+    const parts = [
+      discount.product_ids.length && `${discount.product_ids.length} product${discount.product_ids.length === 1 ? '' : 's'}`,
+      discount.category_ids.length && `${discount.category_ids.length} categor${discount.category_ids.length === 1 ? 'y' : 'ies'}`,
+      discount.collection_ids.length && `${discount.collection_ids.length} collection${discount.collection_ids.length === 1 ? '' : 's'}`,
+    ].filter(Boolean);
+    return parts.length ? parts.join(', ') : 'Entire order';
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+  };
+
+  const isExpired = (discount: DiscountCodeWithUsage) => {
+    return !!discount.ends_at && new Date(discount.ends_at) < new Date();
+  };
+
+  const breadcrumbItems = [
+    {
+      href: '/admin/dashboard',
+      label: 'Dashboard'
+    },
+    {
+      label: 'Discounts'
+    }
+  ];
+
+  const inputClassName = 'w-full px-4 py-2.5 bg-black text-white border border-[rgb(51,51,51)] rounded-lg hover:border-[rgb(94,94,94)] focus:outline-none focus:border-white transition-colors';
+
+  const scopeSections: { key: ScopeKey; label: string }[] = [
+    { key: 'category_ids', label: 'Categories' },
+    { key: 'collection_ids', label: 'Collections' },
+    { key: 'product_ids', label: 'Products' },
+  ];
+
+  if (loading) {
+    return (
+      <AdminLayout>
+        <div className="flex items-center justify-center h-64">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-white"></div>
+        </div>
+      </AdminLayout>
+    );
+  }
+
+  return (
+    <AdminLayout>
+      <div className="space-y-6">
+        {/* Breadcrumb */}
+        <Breadcrumb items={breadcrumbItems} variant="white" />
+
+        <div className="flex justify-between items-center">
+          <div>
+            <h1 className="text-2xl font-bold text-white">Discounts</h1>
+            <p className="text-white/60">Manage discount codes and promotions</p>
+          </div>
+          <Button
+            onClick={handleCreate}
+            variant="outline"
+            className="border-[rgb(51,51,51)] text-white hover:bg-white hover:text-black"
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            Create Discount
+          </Button>
+        </div>
+
+      <div className="grid gap-4">
+        <AnimatePresence>
+          {discounts.map((discount) => (
+            <motion.div
+              key={discount.id}
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              exit={{ opacity: 0, y: -20 }}
+              className="bg-[rgb(20,20,20)] border border-[rgb(51,51,51)] rounded-lg p-6"
+            >
+              <div className="flex items-start justify-between">
+                <div className="flex-1">
+                  <div className="flex items-center gap-3 mb-3">
+                    <Tag className="w-4 h-4 text-white/60" />
+                    <h3 className="text-lg font-semibold text-white font-mono">{discount.code}</h3>
+                    <span
+                      className={`px-2 py-1 rounded-full text-xs font-medium border ${
+                        discount.is_active && !isExpired(discount)
+                          ? 'bg-white/10 text-white border-white/20'
+                          : 'bg-black/50 text-white/60 border-white/10'
+                      }`}
+                    >
+                      {isExpired(discount) ? 'Expired' : discount.is_active ? 'Active' : 'Inactive'}
+                    </span>
+                    <span className="px-2 py-1 bg-white/5 text-white/80 border border-white/10 rounded-full text-xs font-medium">
+                      {formatValue(discount)}
+                    </span>
+                  </div>
+
+                  {discount.description && (
+                    <p className="text-sm text-white/80 mb-3">{discount.description}</p>
+                  )}
+
+                  <div className="flex flex-wrap items-center gap-4 text-sm text-white/60">
+                    <span>
+                      Used {getUsageCount(discount)}{discount.usage_limit ? ` / ${discount.usage_limit}` : ''} times
+                    </span>
+                    {discount.per_user_limit && (
+                      <span>{discount.per_user_limit} per customer</span>
+                    )}
+                    {discount.min_subtotal > 0 && (
+                      <span>Min. spend LKR {discount.min_subtotal.toLocaleString()}</span>
+                    )}
+                    <span>Applies to: {formatScope(discount)}</span>
+                    <div className="flex items-center gap-1">
+                      <Calendar className="w-4 h-4" />
+                      <span>Start: {formatDate(discount.starts_at)}</span>
+                    </div>
+                    {discount.ends_at && (
+                      <div className="flex items-center gap-1">
+                        <Calendar className="w-4 h-4" />
+                        <span>End: {formatDate(discount.ends_at)}</span>
+                      </div>
+                    )}
+                  </div>
+                </div>
+
+                <div className="flex items-center gap-2 ml-4">
+                  <Button
+                    onClick={() => toggleActive(discount.id, discount.is_active)}
+                    variant="outline"
+                    size="sm"
+                    className="border-[rgb(51,51,51)] text-white hover:bg-white hover:text-black"
+                  >
+                    {discount.is_active ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+                  </Button>
+                  <Button
+                    onClick={() => handleEdit(discount)}
+                    variant="outline"
+                    size="sm"
+                    className="border-[rgb(51,51,51)] text-white hover:bg-white hover:text-black"
+                  >
+                    <Edit className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    onClick={() => deleteDiscount(discount)}
+                    variant="outline"
+                    size="sm"
+                    className="border-[rgb(51,51,51)] text-white hover:bg-white hover:text-black"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+            </motion.div>
+          ))}
+        </AnimatePresence>
+
+        {discounts.length === 0 && (
+          <div className="text-center py-12">
+            <p className="text-white/60">No discount codes yet. Create your first discount!</p>
+          </div>
+        )}
+      </div>
+
+      {showModal && (
+        <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50">
+          <div className="bg-black border border-[rgb(51,51,51)] rounded-lg w-full max-w-2xl mx-4 max-h-[90vh] overflow-y-auto">
+            <div className="px-6 py-4 border-b border-[rgb(51,51,51)] flex justify-between items-center">
+              <h3 className="text-lg font-semibold text-white">
+                {editingDiscount ? 'Edit Discount' : 'Create Discount'}
+              </h3>
+              <button
+                onClick={() => setShowModal(false)}
+                className="text-[rgb(94,94,94)] hover:text-white text-2xl leading-none"
+              >
+                ×
+              </button>
+            </div>
+
+            <form onSubmit={handleSubmit(onSubmit)} className="p-6 space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-white mb-2">
+                Code
+              </label>
+              <input
+                {...register('code')}
+                className={`${inputClassName} uppercase font-mono`}
+                placeholder="SUMMER10"
+              />
+              {errors.code && (
+                <p className="mt-1 text-sm text-white/80">{errors.code.message}</p>
+              )}
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-white mb-2">
+                Type
+              </label>
+              <select {...register('discount_type')} className={inputClassName}>
+                <option value="percentage">Percentage</option>
+                <option value="fixed">Fixed amount</option>
+                <option value="free_shipping">Free shipping</option>
+              </select>
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-white mb-2">
+              Description (Optional)
+            </label>
+            <input
+              {...register('description')}
+              className={inputClassName}
+              placeholder="Shown to customers in the order summary"
+            />
+          </div>
+
+          {discountType !== 'free_shipping' && (
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-white mb-2">
+                  {discountType === 'percentage' ? 'Percentage Off' : 'Amount Off (LKR)'}
+                </label>
+                <input
+                  type="number"
+                  step="0.01"
+                  {...register('value')}
+                  className={inputClassName}
+                />
+                {errors.value && (
+                  <p className="mt-1 text-sm text-white/80">{errors.value.message}</p>
+                )}
+              </div>
+              {discountType === 'percentage' && (
+                <div>
+                  <label className="block text-sm font-medium text-white mb-2">
+                    Max Discount (Optional)
+                  </label>
+                  <input
+                    type="number"
+                    step="0.01"
+                    {...register('max_discount')}
+                    className={inputClassName}
+                    placeholder="No cap"
+                  />
+                </div>
+              )}
+            </div>
+          )}
+
+          <div className="grid grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-white mb-2">
+                Minimum Spend
+              </label>
+              <input
+                type="number"
+                step="0.01"
+                {...register('min_subtotal')}
+                className={inputClassName}
+              />
+              {errors.min_subtotal && (
+                <p className="mt-1 text-sm text-white/80">{errors.min_subtotal.message}</p>
+              )}
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-white mb-2">
+                Total Uses
+              </label>
+              <input
+                type="number"
+                {...register('usage_limit')}
+                className={inputClassName}
+                placeholder="Unlimited"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-white mb-2">
+                Uses per Customer
+              </label>
+              <input
+                type="number"
+                {...register('per_user_limit')}
+                className={inputClassName}
+                placeholder="Unlimited"
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-white mb-2">
+                Start Date
+              </label>
+              <input
+                type="datetime-local"
+                {...register('starts_at')}
+                className={inputClassName}
+              />
+              {errors.starts_at && (
+                <p className="mt-1 text-sm text-white/80">{errors.starts_at.message}</p>
+              )}
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-white mb-2">
+                End Date (Optional)
+              </label>
+              <input
+                type="datetime-local"
+                {...register('ends_at')}
+                className={inputClassName}
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-white mb-2">
+              Applies To
+            </label>
+            <p className="text-xs text-white/60 mb-3">
+              Leave everything unselected to apply the code to the entire order.
+            </p>
+            <div className="grid grid-cols-3 gap-4">
+              {scopeSections.map(({ key, label }) => (
+                <div key={key}>
+                  <p className="text-xs font-medium text-white/80 mb-2">
+                    {label}{scopes[key].length > 0 ? ` (${scopes[key].length})` : ''}
+                  </p>
+                  <div className="max-h-40 overflow-y-auto border border-[rgb(51,51,51)] rounded-lg p-2 space-y-1">
+                    {scopeOptions[key].map(option => (
+                      <label key={option.id} className="flex items-center text-sm text-white/80">
+                        <input
+                          type="checkbox"
+                          checked={scopes[key].includes(option.id)}
+                          onChange={() => toggleScope(key, option.id)}
+                          className="mr-2 accent-white"
+                        />
+                        <span className="truncate">{option.name}</span>
+                      </label>
+                    ))}
+                    {scopeOptions[key].length === 0 && (
+                      <p className="text-xs text-white/40">None available</p>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex items-center">
+            <input
+              type="checkbox"
+              {...register('is_active')}
+              className="mr-2 accent-white"
+            />
+            <label className="text-sm text-white">
+              Active
+            </label>
+          </div>
+
+          <div className="flex space-x-4 pt-6 border-t border-[rgb(51,51,51)]">
+            <Button
+              type="submit"
+              loading={submitting}
+              className="bg-[rgb(51,51,51)] text-white hover:bg-[rgb(64,64,64)] border border-[rgb(94,94,94)]"
+            >
+              {editingDiscount ? 'Update Discount' : 'Create Discount'}
+            </Button>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => setShowModal(false)}
+              className="border-[rgb(51,51,51)] text-white hover:bg-white hover:text-black"
+            >
+              Cancel
+            </Button>
+          </div>
+        </form>
+          </div>
+        </div>
+      )}
+      </div>
+    </AdminLayout>
+  );
+};
+
+export default DiscountsManagement;
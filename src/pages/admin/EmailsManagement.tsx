@@ -0,0 +1,503 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { Eye, Mail, RefreshCw, Search, Send } from 'lucide-react';
+import AdminLayout from '../../components/admin/AdminLayout';
+import Button from '../../components/ui/Button';
+import Breadcrumb from '../../components/ui/Breadcrumb';
+import { showErrorToast, showSuccessToast } from '../../components/ui/CustomToast';
+import {
+  fetchBankTransferDetails,
+  fetchEmailTemplates,
+  fetchOutboxEmails,
+  retryEmail,
+  sendQueuedEmails,
+  updateBankTransferDetails,
+  updateEmailTemplate
+} from '../../services/emailService';
+import {
+  BankTransferDetails,
+  EMAIL_STATUS_LABELS,
+  EMAIL_TEMPLATE_LABELS,
+  EmailStatus,
+  EmailTemplate,
+  EmailTemplateKey,
+  OutboxEmail
+} from '../../types/email';
+import { EMAIL_PLACEHOLDERS, SAMPLE_EMAIL_CONTEXT, renderEmail } from '../../../supabase/functions/_shared/email/templates.ts';
+
+type Tab = 'templates' | 'outbox';
+
+const selectClassName = 'px-3 py-2 bg-black text-white border border-[rgb(51,51,51)] rounded-lg hover:border-[rgb(94,94,94)] focus:outline-none focus:border-white text-sm';
+const inputClassName = 'w-full px-4 py-2.5 bg-black text-white border border-[rgb(51,51,51)] rounded-lg hover:border-[rgb(94,94,94)] focus:outline-none focus:border-white transition-colors';
+
+const statusClassName = (status: EmailStatus) =>
+  status === 'sent' ? 'text-green-400 border-green-400/20 bg-green-900/20' :
+  status === 'failed' ? 'text-red-400 border-red-400/20 bg-red-900/20' :
+  status === 'sending' ? 'text-blue-400 border-blue-400/20 bg-blue-900/20' :
+  'text-yellow-400 border-yellow-400/20 bg-yellow-900/20';
+
+const EmailsManagement = () => {
+  const [tab, setTab] = useState<Tab>('templates');
+  const [loading, setLoading] = useState(true);
+  const [sending, setSending] = useState(false);
+
+  // Templates
+  const [templates, setTemplates] = useState<EmailTemplate[]>([]);
+  const [selectedKey, setSelectedKey] = useState<EmailTemplateKey | null>(null);
+  const [draft, setDraft] = useState({ subject: '', body_html: '', is_active: true });
+  const [savingTemplate, setSavingTemplate] = useState(false);
+  const [showPreview, setShowPreview] = useState(false);
+  const [bankDetails, setBankDetails] = useState<BankTransferDetails | null>(null);
+  const [savingBank, setSavingBank] = useState(false);
+
+  // Outbox
+  const [emails, setEmails] = useState<OutboxEmail[]>([]);
+  const [statusFilter, setStatusFilter] = useState<EmailStatus | 'all'>('all');
+  const [templateFilter, setTemplateFilter] = useState<EmailTemplateKey | 'all'>('all');
+  const [search, setSearch] = useState('');
+  const [loadingOutbox, setLoadingOutbox] = useState(false);
+  const [retrying, setRetrying] = useState<string | null>(null);
+
+  const selectedTemplate = templates.find(template => template.key === selectedKey) || null;
+
+  const selectTemplate = (template: EmailTemplate) => {
+    setSelectedKey(template.key);
+    setDraft({ subject: template.subject, body_html: template.body_html, is_active: template.is_active });
+    setShowPreview(false);
+  };
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const [loadedTemplates, loadedBankDetails] = await Promise.all([
+          fetchEmailTemplates(),
+          fetchBankTransferDetails(),
+        ]);
+        setTemplates(loadedTemplates);
+        setBankDetails(loadedBankDetails);
+        if (loadedTemplates.length > 0) {
+          selectTemplate(loadedTemplates[0]);
+        }
+      } catch (error) {
+        console.error('Error fetching email templates:', error);
+        showErrorToast('Failed to load email templates');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    load();
+  }, []);
+
+  const loadOutbox = useCallback(async () => {
+    try {
+      setLoadingOutbox(true);
+      setEmails(await fetchOutboxEmails({ status: statusFilter, templateKey: templateFilter, search }));
+    } catch (error) {
+      console.error('Error fetching emails:', error);
+      showErrorToast('Failed to load emails');
+    } finally {
+      setLoadingOutbox(false);
+    }
+  }, [statusFilter, templateFilter, search]);
+
+  useEffect(() => {
+    if (tab !== 'outbox') return;
+
+    const timeout = setTimeout(loadOutbox, 300);
+    return () => clearTimeout(timeout);
+  }, [tab, loadOutbox]);
+
+  const isDirty = !!selectedTemplate && (
+    draft.subject !== selectedTemplate.subject ||
+    draft.body_html !== selectedTemplate.body_html ||
+    draft.is_active !== selectedTemplate.is_active
+  );
+
+  const preview = useMemo(() => {
+    if (!showPreview) return null;
+    return renderEmail(
+      draft,
+      { ...SAMPLE_EMAIL_CONTEXT, ...(bankDetails ? { bank_transfer_details: bankDetails } : {}) },
+      window.location.origin
+    );
+  }, [showPreview, draft, bankDetails]);
+
+  const handleSaveTemplate = async () => {
+    if (!selectedTemplate) return;
+
+    if (!draft.subject.trim() || !draft.body_html.trim()) {
+      showErrorToast('Subject and body are required');
+      return;
+    }
+
+    try {
+      setSavingTemplate(true);
+      const saved = await updateEmailTemplate(selectedTemplate.key, draft);
+      setTemplates(prev => prev.map(template => template.key === saved.key ? saved : template));
+      showSuccessToast('Template saved');
+    } catch (error: any) {
+      showErrorToast(error.message || 'Failed to save template');
+    } finally {
+      setSavingTemplate(false);
+    }
+  };
+
+  const handleSaveBankDetails = async () => {
+    if (!bankDetails) return;
+
+    try {
+      setSavingBank(true);
+      await updateBankTransferDetails(bankDetails);
+      showSuccessToast('Bank details saved');
+    } catch (error: any) {
+      showErrorToast(error.message || 'Failed to save bank details');
+    } finally {
+      setSavingBank(false);
+    }
+  };
+
+  const handleSendQueued = async () => {
+    try {
+      setSending(true);
+      const result = await sendQueuedEmails();
+      showSuccessToast(result.sent || result.failed
+        ? `Sent ${result.sent} email${result.sent === 1 ? '' : 's'}${result.failed ? `, ${result.failed} failed` : ''}`
+        : 'No emails waiting');
+      if (tab === 'outbox') loadOutbox();
+    } catch (error: any) {
+      showErrorToast(error.message || 'Failed to send emails');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const handleRetry = async (email: OutboxEmail) => {
+    try {
+      setRetrying(email.id);
+      await retryEmail(email.id);
+      await sendQueuedEmails();
+      showSuccessToast(email.status === 'sent' ? 'Email sent again' : 'Email queued again');
+      loadOutbox();
+    } catch (error: any) {
+      showErrorToast(error.message || 'Failed to send the email again');
+    } finally {
+      setRetrying(null);
+    }
+  };
+
+  const breadcrumbItems = [
+    {
+      href: '/admin/dashboard',
+      label: 'Dashboard'
+    },
+    {
+      label: 'Emails'
+    }
+  ];
+
+  if (loading) {
+    return (
+      <AdminLayout>
+        <div className="flex items-center justify-center h-64">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-white"></div>
+        </div>
+      </AdminLayout>
+    );
+  }
+
+  return (
+    <AdminLayout>
+      <div className="space-y-6">
+        {/* Breadcrumb */}
+        <Breadcrumb items={breadcrumbItems} variant="white" />
+
+        <div className="flex flex-wrap justify-between items-center gap-4">
+          <div>
+            <h1 className="text-2xl font-bold text-white">Emails</h1>
+            <p className="text-white/60">Order and support emails sent to customers</p>
+          </div>
+          <Button
+            onClick={handleSendQueued}
+            loading={sending}
+            variant="outline"
+            className="border-[rgb(51,51,51)] text-white hover:bg-white hover:text-black"
+          >
+            <Send className="w-4 h-4 mr-2" />
+            Send Queued Emails
+          </Button>
+        </div>
+
+        <div className="flex gap-2 border-b border-[rgb(51,51,51)]">
+          {(['templates', 'outbox'] as Tab[]).map(value => (
+            <button
+              key={value}
+              onClick={() => setTab(value)}
+              className={`px-4 py-2 text-sm font-medium capitalize border-b-2 -mb-px transition-colors ${
+                tab === value ? 'text-white border-white' : 'text-[rgb(94,94,94)] border-transparent hover:text-white'
+              }`}
+            >
+              {value === 'templates' ? 'Templates' : 'Sent & Queued'}
+            </button>
+          ))}
+        </div>
+
+        {tab === 'templates' && (
+          <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+            <div className="bg-black border border-[rgb(51,51,51)] rounded-lg overflow-hidden h-fit">
+              {templates.map(template => (
+                <button
+                  key={template.key}
+                  onClick={() => selectTemplate(template)}
+                  className={`w-full text-left px-4 py-3 border-b border-[rgb(51,51,51)] last:border-b-0 transition-colors ${
+                    template.key === selectedKey ? 'bg-[rgb(25,25,25)]' : 'hover:bg-[rgb(25,25,25)]'
+                  }`}
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="text-sm text-white">{template.name}</span>
+                    {!template.is_active && (
+                      <span className="text-xs text-[rgb(94,94,94)]">Off</span>
+                    )}
+                  </div>
+                  {template.description && (
+                    <p className="text-xs text-[rgb(94,94,94)] mt-0.5">{template.description}</p>
+                  )}
+                </button>
+              ))}
+            </div>
+
+            {selectedTemplate && (
+              <div className="lg:col-span-3 space-y-6">
+                <div className="bg-black border border-[rgb(51,51,51)] rounded-lg p-6 space-y-4">
+                  <div className="flex flex-wrap items-center justify-between gap-3">
+                    <div className="flex items-center space-x-2">
+                      <Mail className="w-5 h-5 text-white" />
+                      <h2 className="text-lg font-semibold text-white">{selectedTemplate.name}</h2>
+                    </div>
+                    <label className="flex items-center gap-2 text-sm text-white">
+                      <input
+                        type="checkbox"
+                        checked={draft.is_active}
+                        onChange={(e) => setDraft(prev => ({ ...prev, is_active: e.target.checked }))}
+                        className="accent-white"
+                      />
+                      Send this email
+                    </label>
+                  </div>
+
+                  <div>
+                    <label className="block text-sm text-[rgb(94,94,94)] mb-1">Subject</label>
+                    <input
+                      value={draft.subject}
+                      onChange={(e) => setDraft(prev => ({ ...prev, subject: e.target.value }))}
+                      className={inputClassName}
+                    />
+                  </div>
+
+                  <div>
+                    <label className="block text-sm text-[rgb(94,94,94)] mb-1">Body (HTML)</label>
+                    <textarea
+                      value={draft.body_html}
+                      onChange={(e) => setDraft(prev => ({ ...prev, body_html: e.target.value }))}
+                      rows={14}
+                      className={`${inputClassName} font-mono text-xs`}
+                    />
+                    <p className="text-xs text-[rgb(94,94,94)] mt-1">
+                      The store header and footer are added around the body.
+                      Placeholders ending in _html insert ready-made blocks; the rest are plain text.
+                    </p>
+                  </div>
+
+                  <div>
+                    <p className="text-sm text-[rgb(94,94,94)] mb-2">Placeholders</p>
+                    <div className="flex flex-wrap gap-2">
+                      {[...(EMAIL_PLACEHOLDERS[selectedTemplate.key] || []), 'site_url'].map(placeholder => (
+                        <code key={placeholder} className="text-xs px-2 py-1 rounded bg-[rgb(25,25,25)] border border-[rgb(51,51,51)] text-white">
+                          {`{{${placeholder}}}`}
+                        </code>
+                      ))}
+                    </div>
+                  </div>
+
+                  <div className="flex flex-wrap justify-end gap-3 pt-2">
+                    <Button
+                      variant="outline"
+                      onClick={() => setShowPreview(!showPreview)}
+                      className="border-[rgb(51,51,51)] text-white hover:bg-white hover:text-black"
+                    >
+                      <Eye className="w-4 h-4 mr-2" />
+                      {showPreview ? 'Hide Preview' : 'Preview'}
+                    </Button>
+                    <Button
+                      onClick={handleSaveTemplate}
+                      loading={savingTemplate}
+                      disabled={!isDirty}
+                      className="bg-white text-black hover:bg-gray-200"
+                    >
+                      Save Template
+                    </Button>
+                  </div>
+                </div>
+
+                {preview && (
+                  <div className="bg-black border border-[rgb(51,51,51)] rounded-lg overflow-hidden">
+                    <div className="px-6 py-3 border-b border-[rgb(51,51,51)]">
+                      <p className="text-xs text-[rgb(94,94,94)]">Preview with example order data</p>
+                      <p className="text-sm text-white">{preview.subject}</p>
+                    </div>
+                    <iframe
+                      title="Email preview"
+                      srcDoc={preview.html}
+                      sandbox=""
+                      className="w-full h-[600px] bg-white"
+                    />
+                  </div>
+                )}
+
+                {selectedTemplate.key === 'bank_transfer_instructions' && bankDetails && (
+                  <div className="bg-black border border-[rgb(51,51,51)] rounded-lg p-6 space-y-4">
+                    <div>
+                      <h2 className="text-lg font-semibold text-white">Bank Account</h2>
+                      <p className="text-sm text-[rgb(94,94,94)]">Where shoppers pay bank transfer orders; filled in as bank_details_html</p>
+                    </div>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                      {([
+                        ['bank', 'Bank'],
+                        ['branch', 'Branch'],
+                        ['account_name', 'Account name'],
+                        ['account_number', 'Account number'],
+                      ] as [keyof BankTransferDetails, string][]).map(([field, label]) => (
+                        <div key={field}>
+                          <label className="block text-sm text-[rgb(94,94,94)] mb-1">{label}</label>
+                          <input
+                            value={bankDetails[field]}
+                            onChange={(e) => setBankDetails({ ...bankDetails, [field]: e.target.value })}
+                            className={inputClassName}
+                          />
+                        </div>
+                      ))}
+                    </div>
+                    <div className="flex justify-end">
+                      <Button
+                        onClick={handleSaveBankDetails}
+                        loading={savingBank}
+                        variant="outline"
+                        className="border-[rgb(51,51,51)] text-white hover:bg-white hover:text-black"
+                      >
+                        Save Bank Details
+                      </Button>
+                    </div>
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+
+        {tab === 'outbox' && (
+          <div className="bg-black border border-[rgb(51,51,51)] rounded-lg overflow-hidden">
+            <div className="flex flex-wrap items-center justify-between gap-3 px-6 py-4 border-b border-[rgb(51,51,51)]">
+              <div className="relative flex-1 min-w-[200px] max-w-md">
+                <Search className="w-4 h-4 absolute left-3 top-1/2 -translate-y-1/2 text-[rgb(94,94,94)]" />
+                <input
+                  value={search}
+                  onChange={(e) => setSearch(e.target.value)}
+                  placeholder="Search recipient"
+                  className={`${inputClassName} pl-9 text-sm`}
+                />
+              </div>
+              <div className="flex items-center gap-3">
+                <select
+                  value={templateFilter}
+                  onChange={(e) => setTemplateFilter(e.target.value as EmailTemplateKey | 'all')}
+                  className={selectClassName}
+                >
+                  <option value="all">All emails</option>
+                  {Object.entries(EMAIL_TEMPLATE_LABELS).map(([key, label]) => (
+                    <option key={key} value={key}>{label}</option>
+                  ))}
+                </select>
+                <select
+                  value={statusFilter}
+                  onChange={(e) => setStatusFilter(e.target.value as EmailStatus | 'all')}
+                  className={selectClassName}
+                >
+                  <option value="all">All statuses</option>
+                  {Object.entries(EMAIL_STATUS_LABELS).map(([status, label]) => (
+                    <option key={status} value={status}>{label}</option>
+                  ))}
+                </select>
+                <button
+                  onClick={loadOutbox}
+                  disabled={loadingOutbox}
+                  className="text-[rgb(94,94,94)] hover:text-white p-1 disabled:opacity-50"
+                  title="Refresh"
+                >
+                  <RefreshCw className={`w-4 h-4 ${loadingOutbox ? 'animate-spin' : ''}`} />
+                </button>
+              </div>
+            </div>
+
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead className="bg-[rgb(25,25,25)]">
+                  <tr>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-[rgb(94,94,94)] uppercase tracking-wider">Queued</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-[rgb(94,94,94)] uppercase tracking-wider">Email</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-[rgb(94,94,94)] uppercase tracking-wider">Recipient</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-[rgb(94,94,94)] uppercase tracking-wider">Status</th>
+                    <th className="px-4 py-3 text-right text-xs font-medium text-[rgb(94,94,94)] uppercase tracking-wider">Attempts</th>
+                    <th className="px-4 py-3"></th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-[rgb(51,51,51)]">
+                  {emails.map(email => (
+                    <tr key={email.id} className="hover:bg-[rgb(25,25,25)]">
+                      <td className="px-4 py-3 text-sm text-[rgb(94,94,94)] whitespace-nowrap">
+                        {new Date(email.created_at).toLocaleString()}
+                      </td>
+                      <td className="px-4 py-3 text-sm text-white">
+                        {EMAIL_TEMPLATE_LABELS[email.template_key] || email.template_key}
+                        {email.subject && (
+                          <div className="text-xs text-[rgb(94,94,94)]">{email.subject}</div>
+                        )}
+                      </td>
+                      <td className="px-4 py-3 text-sm text-white">{email.recipient}</td>
+                      <td className="px-4 py-3 text-sm">
+                        <span className={`text-xs px-2 py-0.5 rounded-full border ${statusClassName(email.status)}`}>
+                          {EMAIL_STATUS_LABELS[email.status]}
+                        </span>
+                        {email.last_error && email.status !== 'sent' && (
+                          <div className="text-xs text-red-400 mt-1 max-w-xs truncate" title={email.last_error}>
+                            {email.last_error}
+                          </div>
+                        )}
+                      </td>
+                      <td className="px-4 py-3 text-sm text-white text-right">{email.attempts}</td>
+                      <td className="px-4 py-3 text-right">
+                        {(email.status === 'failed' || email.status === 'sent') && (
+                          <button
+                            onClick={() => handleRetry(email)}
+                            disabled={retrying === email.id}
+                            className="text-xs text-blue-400 hover:text-blue-300 disabled:opacity-50"
+                          >
+                            {email.status === 'sent' ? 'Resend' : 'Retry'}
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+
+              {emails.length === 0 && !loadingOutbox && (
+                <p className="text-center text-[rgb(94,94,94)] text-sm py-10">No emails found.</p>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </AdminLayout>
+  );
+};
+
+export default EmailsManagement;
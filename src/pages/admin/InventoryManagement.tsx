@@ -0,0 +1,585 @@
+import { useEffect, useMemo, useState } from 'react';
+import { AlertTriangle, Bell, Download, History, Mail, PackagePlus, Search } from 'lucide-react';
+import AdminLayout from '../../components/admin/AdminLayout';
+import Button from '../../components/ui/Button';
+import Breadcrumb from '../../components/ui/Breadcrumb';
+import { showErrorToast, showSuccessToast } from '../../components/ui/CustomToast';
+import {
+  adjustStock,
+  fetchInventory,
+  fetchStockMovements,
+  sendLowStockDigest,
+  updateLowStockThreshold
+} from '../../services/inventoryService';
+import { fetchStockNotificationDemand, sendBackInStockNotifications } from '../../services/stockNotificationService';
+import {
+  InventoryVariant,
+  STOCK_MOVEMENT_LABELS,
+  StockAdjustment,
+  StockAdjustmentReason,
+  StockMovement,
+  StockNotificationDemand
+} from '../../types/inventory';
+import { downloadCsv } from '../../utils/csv';
+
+type StockFilter = 'all' | 'low' | 'out' | 'wanted';
+
+const ADJUSTMENT_REASONS: { value: StockAdjustmentReason; label: string; hint: string }[] = [
+  { value: 'received', label: 'Received', hint: 'Units added to stock' },
+  { value: 'damaged', label: 'Damaged', hint: 'Units written off' },
+  { value: 'recount', label: 'Recount', hint: 'Counted stock on hand' },
+];
+
+const formatPercent = (value: number) => `${(Number(value) * 100).toFixed(1)}%`;
+
+const variantLabel = (variant: { size: string | null; color: string | null }) =>
+  [variant.color, variant.size && `Size ${variant.size}`].filter(Boolean).join(' • ');
+
+const selectClassName = 'px-3 py-2 bg-black text-white border border-[rgb(51,51,51)] rounded-lg hover:border-[rgb(94,94,94)] focus:outline-none focus:border-white text-sm';
+const inputClassName = 'w-full px-4 py-2.5 bg-black text-white border border-[rgb(51,51,51)] rounded-lg hover:border-[rgb(94,94,94)] focus:outline-none focus:border-white transition-colors';
+
+const InventoryManagement = () => {
+  const [variants, setVariants] = useState<InventoryVariant[]>([]);
+  const [demand, setDemand] = useState<Record<string, StockNotificationDemand>>({});
+  const [loading, setLoading] = useState(true);
+  const [search, setSearch] = useState('');
+  const [filter, setFilter] = useState<StockFilter>('all');
+  const [selected, setSelected] = useState<string[]>([]);
+  const [thresholdDrafts, setThresholdDrafts] = useState<Record<string, string>>({});
+  const [sendingDigest, setSendingDigest] = useState(false);
+
+  const [showAdjustModal, setShowAdjustModal] = useState(false);
+  const [adjustReason, setAdjustReason] = useState<StockAdjustmentReason>('received');
+  const [adjustNote, setAdjustNote] = useState('');
+  const [adjustValues, setAdjustValues] = useState<Record<string, string>>({});
+  const [submitting, setSubmitting] = useState(false);
+
+  const [historyVariant, setHistoryVariant] = useState<InventoryVariant | null>(null);
+  const [movements, setMovements] = useState<StockMovement[]>([]);
+  const [loadingMovements, setLoadingMovements] = useState(false);
+
+  const loadInventory = async () => {
+    try {
+      const [inventory, notificationDemand] = await Promise.all([
+        fetchInventory(),
+        fetchStockNotificationDemand()
+      ]);
+      setVariants(inventory);
+      setDemand(Object.fromEntries(notificationDemand.map(row => [row.variant_id, row])));
+    } catch (error: any) {
+      showErrorToast(error.message || 'Failed to load inventory');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadInventory();
+  }, []);
+
+  const filteredVariants = useMemo(() => {
+    const term = search.trim().toLowerCase();
+
+    return variants.filter(variant => {
+      if (filter === 'low' && !variant.is_low) return false;
+      if (filter === 'out' && variant.stock > 0) return false;
+      if (filter === 'wanted' && !demand[variant.variant_id]?.waiting) return false;
+      if (!term) return true;
+
+      return [variant.product_title, variant.sku, variant.size, variant.color]
+        .some(value => value?.toLowerCase().includes(term));
+    });
+  }, [variants, demand, search, filter]);
+
+  const lowCount = variants.filter(variant => variant.is_low).length;
+  const outCount = variants.filter(variant => variant.stock <= 0).length;
+  const reservedTotal = variants.reduce((sum, variant) => sum + variant.reserved, 0);
+  const waitingTotal = Object.values(demand).reduce((sum, row) => sum + row.waiting, 0);
+
+  const selectedVariants = variants.filter(variant => selected.includes(variant.variant_id));
+  const allVisibleSelected = filteredVariants.length > 0
+    && filteredVariants.every(variant => selected.includes(variant.variant_id));
+
+  const toggleSelected = (variantId: string) => {
+    setSelected(prev => prev.includes(variantId)
+      ? prev.filter(id => id !== variantId)
+      : [...prev, variantId]);
+  };
+
+  const toggleAllVisible = () => {
+    const visibleIds = filteredVariants.map(variant => variant.variant_id);
+    setSelected(prev => allVisibleSelected
+      ? prev.filter(id => !visibleIds.includes(id))
+      : Array.from(new Set([...prev, ...visibleIds])));
+  };
+
+  const saveThreshold = async (variant: InventoryVariant) => {
+    const draft = thresholdDrafts[variant.variant_id];
+    if (draft === undefined) return;
+
+    const threshold = draft.trim() === '' ? null : Number(draft);
+    setThresholdDrafts(prev => {
+      const next = { ...prev };
+      delete next[variant.variant_id];
+      return next;
+    });
+
+    if (threshold === variant.threshold_override) return;
+
+    if (threshold !== null && (!Number.isInteger(threshold) || threshold < 0)) {
+      showErrorToast('Threshold must be a whole number of 0 or more');
+      return;
+    }
+
+    try {
+      await updateLowStockThreshold(variant.variant_id, threshold);
+      await loadInventory();
+    } catch (error: any) {
+      showErrorToast(error.message || 'Failed to update threshold');
+    }
+  };
+
+  const openAdjustModal = () => {
+    setAdjustReason('received');
+    setAdjustNote('');
+    setAdjustValues({});
+    setShowAdjustModal(true);
+  };
+
+  const submitAdjustments = async () => {
+    const adjustments: StockAdjustment[] = [];
+
+    for (const variant of selectedVariants) {
+      const raw = adjustValues[variant.variant_id]?.trim();
+      if (!raw) continue;
+
+      const value = Number(raw);
+      if (!Number.isInteger(value) || value < 0) {
+        showErrorToast(`Enter a whole number for ${variant.sku}`);
+        return;
+      }
+
+      adjustments.push(adjustReason === 'recount'
+        ? { variant_id: variant.variant_id, stock: value }
+        : { variant_id: variant.variant_id, change: value });
+    }
+
+    if (adjustments.length === 0) {
+      showErrorToast('Enter a quantity for at least one variant');
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      const count = await adjustStock(adjustments, adjustReason, adjustNote);
+      showSuccessToast(`Adjusted stock for ${count} variant${count === 1 ? '' : 's'}`);
+      setShowAdjustModal(false);
+
+      // Restocked variants may have shoppers waiting on them
+      if (adjustReason !== 'damaged') {
+        sendBackInStockNotifications().catch(error => console.error('Error sending back in stock notifications:', error));
+      }
+
+      setSelected([]);
+      await loadInventory();
+    } catch (error: any) {
+      showErrorToast(error.message || 'Failed to adjust stock');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const openHistory = async (variant: InventoryVariant) => {
+    setHistoryVariant(variant);
+    setMovements([]);
+    setLoadingMovements(true);
+    try {
+      setMovements(await fetchStockMovements(variant.variant_id));
+    } catch (error: any) {
+      showErrorToast(error.message || 'Failed to load stock history');
+    } finally {
+      setLoadingMovements(false);
+    }
+  };
+
+  const handleSendDigest = async () => {
+    setSendingDigest(true);
+    try {
+      const result = await sendLowStockDigest();
+      showSuccessToast(result.variants === 0
+        ? 'Nothing is low on stock, no digest sent'
+        : `Low stock digest sent to ${result.sent} admin${result.sent === 1 ? '' : 's'}`);
+    } catch (error: any) {
+      showErrorToast(error.message);
+    } finally {
+      setSendingDigest(false);
+    }
+  };
+
+  const exportInventory = () => {
+    downloadCsv('inventory', filteredVariants, [
+      { header: 'Product', value: row => row.product_title },
+      { header: 'SKU', value: row => row.sku },
+      { header: 'Size', value: row => row.size },
+      { header: 'Colour', value: row => row.color },
+      { header: 'Stock', value: row => row.stock },
+      { header: 'Reserved', value: row => row.reserved },
+      { header: 'Sold (30 days)', value: row => row.sold_30d },
+      { header: 'Sell-through (30 days)', value: row => formatPercent(row.sell_through_30d) },
+      { header: 'Low stock threshold', value: row => row.low_stock_threshold },
+      { header: 'Waiting for restock', value: row => demand[row.variant_id]?.waiting || 0 },
+      { header: 'Low stock', value: row => row.is_low },
+    ]);
+  };
+
+  const breadcrumbItems = [
+    {
+      href: '/admin/dashboard',
+      label: 'Dashboard'
+    },
+    {
+      label: 'Inventory'
+    }
+  ];
+
+  if (loading) {
+    return (
+      <AdminLayout>
+        <div className="flex items-center justify-center h-64">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-white"></div>
+        </div>
+      </AdminLayout>
+    );
+  }
+
+  return (
+    <AdminLayout>
+      <div className="space-y-6">
+        {/* Breadcrumb */}
+        <Breadcrumb items={breadcrumbItems} variant="white" />
+
+        <div className="flex flex-wrap justify-between items-center gap-4">
+          <div>
+            <h1 className="text-2xl font-bold text-white">Inventory</h1>
+            <p className="text-white/60">Stock levels, reservations and sell-through by variant</p>
+          </div>
+          <div className="flex flex-wrap gap-3">
+            <Button
+              onClick={handleSendDigest}
+              loading={sendingDigest}
+              variant="outline"
+              className="border-[rgb(51,51,51)] text-white hover:bg-white hover:text-black"
+            >
+              <Mail className="w-4 h-4 mr-2" />
+              Send Low Stock Digest
+            </Button>
+            <Button
+              onClick={openAdjustModal}
+              disabled={selected.length === 0}
+              variant="outline"
+              className="border-[rgb(51,51,51)] text-white hover:bg-white hover:text-black"
+            >
+              <PackagePlus className="w-4 h-4 mr-2" />
+              Adjust Stock{selected.length > 0 ? ` (${selected.length})` : ''}
+            </Button>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 lg:grid-cols-5 gap-4">
+          {[
+            { label: 'Variants', value: variants.length },
+            { label: 'Low on stock', value: lowCount },
+            { label: 'Out of stock', value: outCount },
+            { label: 'Reserved by pending orders', value: reservedTotal },
+            { label: 'Waiting for restock', value: waitingTotal },
+          ].map(card => (
+            <div key={card.label} className="bg-black border border-[rgb(51,51,51)] rounded-lg p-4">
+              <p className="text-sm text-[rgb(94,94,94)]">{card.label}</p>
+              <p className="text-2xl font-bold text-white mt-1">{card.value}</p>
+            </div>
+          ))}
+        </div>
+
+        <div className="bg-black border border-[rgb(51,51,51)] rounded-lg overflow-hidden">
+          <div className="flex flex-wrap items-center justify-between gap-3 px-6 py-4 border-b border-[rgb(51,51,51)]">
+            <div className="relative flex-1 min-w-[200px] max-w-md">
+              <Search className="w-4 h-4 absolute left-3 top-1/2 -translate-y-1/2 text-[rgb(94,94,94)]" />
+              <input
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                placeholder="Search product, SKU, size or colour"
+                className={`${inputClassName} pl-9 text-sm`}
+              />
+            </div>
+            <div className="flex items-center gap-3">
+              <select
+                value={filter}
+                onChange={(e) => setFilter(e.target.value as StockFilter)}
+                className={selectClassName}
+              >
+                <option value="all">All variants</option>
+                <option value="low">Low on stock</option>
+                <option value="out">Out of stock</option>
+                <option value="wanted">Shoppers waiting</option>
+              </select>
+              <button
+                onClick={exportInventory}
+                className="flex items-center text-sm text-blue-400 hover:text-blue-300"
+              >
+                <Download className="w-4 h-4 mr-1" />
+                CSV
+              </button>
+            </div>
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-[rgb(25,25,25)]">
+                <tr>
+                  <th className="px-4 py-3 text-left">
+                    <input
+                      type="checkbox"
+                      checked={allVisibleSelected}
+                      onChange={toggleAllVisible}
+                      className="accent-white"
+                    />
+                  </th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-[rgb(94,94,94)] uppercase tracking-wider">Product</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-[rgb(94,94,94)] uppercase tracking-wider">SKU</th>
+                  <th className="px-4 py-3 text-right text-xs font-medium text-[rgb(94,94,94)] uppercase tracking-wider">Stock</th>
+                  <th className="px-4 py-3 text-right text-xs font-medium text-[rgb(94,94,94)] uppercase tracking-wider">Reserved</th>
+                  <th className="px-4 py-3 text-right text-xs font-medium text-[rgb(94,94,94)] uppercase tracking-wider">Sold 30d</th>
+                  <th className="px-4 py-3 text-right text-xs font-medium text-[rgb(94,94,94)] uppercase tracking-wider">Sell-through</th>
+                  <th className="px-4 py-3 text-right text-xs font-medium text-[rgb(94,94,94)] uppercase tracking-wider">Waiting</th>
+                  <th className="px-4 py-3 text-right text-xs font-medium text-[rgb(94,94,94)] uppercase tracking-wider">Threshold</th>
+                  <th className="px-4 py-3"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-[rgb(51,51,51)]">
+                {filteredVariants.map(variant => (
+                  <tr key={variant.variant_id} className="hover:bg-[rgb(25,25,25)]">
+                    <td className="px-4 py-3">
+                      <input
+                        type="checkbox"
+                        checked={selected.includes(variant.variant_id)}
+                        onChange={() => toggleSelected(variant.variant_id)}
+                        className="accent-white"
+                      />
+                    </td>
+                    <td className="px-4 py-3 text-sm text-white">
+                      <div className="flex items-center gap-2">
+                        {variant.is_low && <AlertTriangle className="w-4 h-4 text-yellow-400 flex-shrink-0" />}
+                        <span>{variant.product_title}</span>
+                        {!variant.is_active && (
+                          <span className="text-xs text-[rgb(94,94,94)]">(inactive)</span>
+                        )}
+                      </div>
+                      <div className="text-xs text-[rgb(94,94,94)]">{variantLabel(variant)}</div>
+                    </td>
+                    <td className="px-4 py-3 text-sm text-[rgb(94,94,94)]">{variant.sku}</td>
+                    <td className={`px-4 py-3 text-sm text-right ${variant.stock <= 0 ? 'text-red-400' : 'text-white'}`}>
+                      {variant.stock}
+                    </td>
+                    <td className="px-4 py-3 text-sm text-white text-right">{variant.reserved}</td>
+                    <td className="px-4 py-3 text-sm text-white text-right">{variant.sold_30d}</td>
+                    <td className="px-4 py-3 text-sm text-white text-right">{formatPercent(variant.sell_through_30d)}</td>
+                    <td
+                      className="px-4 py-3 text-sm text-right"
+                      title={demand[variant.variant_id]
+                        ? `${demand[variant.variant_id].notified} already notified`
+                        : undefined}
+                    >
+                      {demand[variant.variant_id]?.waiting ? (
+                        <span className="inline-flex items-center text-yellow-400">
+                          <Bell className="w-3 h-3 mr-1" />
+                          {demand[variant.variant_id].waiting}
+                        </span>
+                      ) : (
+                        <span className="text-[rgb(94,94,94)]">0</span>
+                      )}
+                    </td>
+                    <td className="px-4 py-3 text-right">
+                      <input
+                        type="number"
+                        min={0}
+                        value={thresholdDrafts[variant.variant_id] ?? variant.threshold_override ?? ''}
+                        placeholder={String(variant.low_stock_threshold)}
+                        onChange={(e) => setThresholdDrafts(prev => ({ ...prev, [variant.variant_id]: e.target.value }))}
+                        onBlur={() => saveThreshold(variant)}
+                        title="Leave empty to use the store default"
+                        className="w-20 px-2 py-1 bg-black text-white text-sm text-right border border-[rgb(51,51,51)] rounded hover:border-[rgb(94,94,94)] focus:outline-none focus:border-white"
+                      />
+                    </td>
+                    <td className="px-4 py-3 text-right">
+                      <button
+                        onClick={() => openHistory(variant)}
+                        className="text-[rgb(94,94,94)] hover:text-white"
+                        title="Stock history"
+                      >
+                        <History className="w-4 h-4" />
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            {filteredVariants.length === 0 && (
+              <p className="px-6 py-12 text-center text-[rgb(94,94,94)]">No variants match these filters</p>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {showAdjustModal && (
+        <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50">
+          <div className="bg-black border border-[rgb(51,51,51)] rounded-lg w-full max-w-2xl mx-4 max-h-[90vh] overflow-y-auto">
+            <div className="px-6 py-4 border-b border-[rgb(51,51,51)] flex justify-between items-center">
+              <h3 className="text-lg font-semibold text-white">Adjust Stock</h3>
+              <button
+                onClick={() => setShowAdjustModal(false)}
+                className="text-[rgb(94,94,94)] hover:text-white text-2xl leading-none"
+              >
+                ×
+              </button>
+            </div>
+
+            <div className="p-6 space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-white mb-2">Reason</label>
+                  <select
+                    value={adjustReason}
+                    onChange={(e) => setAdjustReason(e.target.value as StockAdjustmentReason)}
+                    className={`${selectClassName} w-full`}
+                  >
+                    {ADJUSTMENT_REASONS.map(reason => (
+                      <option key={reason.value} value={reason.value}>{reason.label}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-white mb-2">Note (Optional)</label>
+                  <input
+                    value={adjustNote}
+                    onChange={(e) => setAdjustNote(e.target.value)}
+                    className={inputClassName}
+                    placeholder="Supplier invoice, damage report..."
+                  />
+                </div>
+              </div>
+
+              <div className="border border-[rgb(51,51,51)] rounded-lg divide-y divide-[rgb(51,51,51)]">
+                <div className="flex justify-between px-4 py-2 text-xs font-medium text-[rgb(94,94,94)] uppercase tracking-wider">
+                  <span>Variant</span>
+                  <span>{ADJUSTMENT_REASONS.find(reason => reason.value === adjustReason)?.hint}</span>
+                </div>
+                {selectedVariants.map(variant => (
+                  <div key={variant.variant_id} className="flex items-center justify-between gap-4 px-4 py-3">
+                    <div className="text-sm">
+                      <p className="text-white">{variant.product_title}</p>
+                      <p className="text-xs text-[rgb(94,94,94)]">
+                        {[variantLabel(variant), variant.sku].filter(Boolean).join(' • ')} · {variant.stock} in stock
+                      </p>
+                    </div>
+                    <input
+                      type="number"
+                      min={0}
+                      value={adjustValues[variant.variant_id] ?? ''}
+                      onChange={(e) => setAdjustValues(prev => ({ ...prev, [variant.variant_id]: e.target.value }))}
+                      placeholder={adjustReason === 'recount' ? String(variant.stock) : '0'}
+                      className="w-24 px-2 py-1.5 bg-black text-white text-sm text-right border border-[rgb(51,51,51)] rounded hover:border-[rgb(94,94,94)] focus:outline-none focus:border-white"
+                    />
+                  </div>
+                ))}
+              </div>
+
+              <div className="flex justify-end gap-3 pt-2">
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => setShowAdjustModal(false)}
+                  className="border-[rgb(51,51,51)] text-white hover:bg-white hover:text-black"
+                >
+                  Cancel
+                </Button>
+                <Button
+                  type="button"
+                  onClick={submitAdjustments}
+                  loading={submitting}
+                  className="bg-white text-black hover:bg-[rgb(94,94,94)] hover:text-white"
+                >
+                  Apply Adjustments
+                </Button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {historyVariant && (
+        <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50">
+          <div className="bg-black border border-[rgb(51,51,51)] rounded-lg w-full max-w-2xl mx-4 max-h-[90vh] overflow-y-auto">
+            <div className="px-6 py-4 border-b border-[rgb(51,51,51)] flex justify-between items-center">
+              <div>
+                <h3 className="text-lg font-semibold text-white">Stock History</h3>
+                <p className="text-sm text-[rgb(94,94,94)]">
+                  {historyVariant.product_title} · {[variantLabel(historyVariant), historyVariant.sku].filter(Boolean).join(' • ')}
+                </p>
+              </div>
+              <button
+                onClick={() => setHistoryVariant(null)}
+                className="text-[rgb(94,94,94)] hover:text-white text-2xl leading-none"
+              >
+                ×
+              </button>
+            </div>
+
+            {loadingMovements ? (
+              <div className="flex items-center justify-center h-32">
+                <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-white"></div>
+              </div>
+            ) : movements.length === 0 ? (
+              <p className="px-6 py-12 text-center text-[rgb(94,94,94)]">No stock movements recorded</p>
+            ) : (
+              <table className="w-full">
+                <thead className="bg-[rgb(25,25,25)]">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-[rgb(94,94,94)] uppercase tracking-wider">When</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-[rgb(94,94,94)] uppercase tracking-wider">Reason</th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-[rgb(94,94,94)] uppercase tracking-wider">Change</th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-[rgb(94,94,94)] uppercase tracking-wider">Stock</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-[rgb(51,51,51)]">
+                  {movements.map(movement => (
+                    <tr key={movement.id}>
+                      <td className="px-6 py-3 text-sm text-[rgb(94,94,94)]">
+                        {new Date(movement.created_at).toLocaleString()}
+                      </td>
+                      <td className="px-6 py-3 text-sm text-white">
+                        {STOCK_MOVEMENT_LABELS[movement.reason]}
+                        {movement.order_id && (
+                          <span className="block text-xs text-[rgb(94,94,94)]">Order #{movement.order_id.slice(0, 8)}</span>
+                        )}
+                        {movement.note && (
+                          <span className="block text-xs text-[rgb(94,94,94)]">{movement.note}</span>
+                        )}
+                      </td>
+                      <td className={`px-6 py-3 text-sm text-right ${movement.change < 0 ? 'text-red-400' : 'text-green-400'}`}>
+                        {movement.change > 0 ? `+${movement.change}` : movement.change}
+                      </td>
+                      <td className="px-6 py-3 text-sm text-white text-right">{movement.stock_after}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        </div>
+      )}
+    </AdminLayout>
+  );
+};
+
+export default InventoryManagement;
@@ -1,5 +1,6 @@
 import { useState, useEffect } from 'react';
-import { Eye, Filter, ChevronLeft, ChevronRight, Package, MapPin, CreditCard, Clock, User, Truck, X, LayoutDashboard } from 'lucide-react';
+import { useNavigate } from 'react-router-dom';
+import { Eye, Filter, ChevronLeft, ChevronRight, Package, MapPin, CreditCard, Clock, User, Truck, X, LayoutDashboard, Printer } from 'lucide-react';
 import Breadcrumb from '../../components/ui/Breadcrumb';
 
 // Add keyframes for smooth fading animation
@@ -11,11 +12,24 @@ const blinkKeyframes = `
   }
 `;
 import AdminLayout from '../../components/admin/AdminLayout';
+import OrderRefundsPanel from '../../components/admin/OrderRefundsPanel';
+import OrderReturnsPanel from '../../components/admin/OrderReturnsPanel';
+import OrderEmailsPanel from '../../components/admin/OrderEmailsPanel';
+import OrderSmsPanel from '../../components/admin/OrderSmsPanel';
+import OrderShipmentsPanel from '../../components/admin/OrderShipmentsPanel';
+import OrderOfflinePaymentPanel from '../../components/admin/OrderOfflinePaymentPanel';
 import { supabase } from '../../lib/supabase';
-import { supabaseAdmin, isUserAdmin } from '../../lib/supabaseAdmin';
 import Button from '../../components/ui/Button';
 import { showSuccessToast, showErrorToast } from '../../components/ui/CustomToast';
 import { useAuth } from '../../hooks/useAuth';
+import { fetchPaymentEvents } from '../../services/paymentService';
+import { cancelOrder } from '../../services/returnService';
+import { setOrderPaymentStatus, setOrderStatus } from '../../services/orderService';
+import { flushEmailQueue } from '../../services/emailService';
+import { flushSmsQueue } from '../../services/smsService';
+import { fetchOrderIdsForPrint } from '../../services/orderDocumentService';
+import { PaymentEvent } from '../../types/order';
+import { ORDER_DOCUMENT_LABELS, OrderDocumentKind } from '../../types/orderDocument';
 
 interface Order {
   id: string;
@@ -24,7 +38,7 @@ interface Order {
   total: number;
   currency: string;
   status: 'pending' | 'confirmed' | 'processing' | 'shipped' | 'delivered' | 'cancelled' | 'refunded';
-  payment_status: 'pending' | 'paid' | 'failed' | 'refunded';
+  payment_status: 'pending' | 'paid' | 'failed' | 'refunded' | 'expired' | 'partially_refunded' | 'chargedback';
   payment_method?: string;
   payment_provider?: string;
   payment_provider_id?: string;
@@ -32,7 +46,15 @@ interface Order {
   shipping_address?: any; // JSONB
   shipping_method?: string;
   shipping_cost?: number;
+  discount_code?: string | null;
   notes?: string;
+  reserved_until?: string | null;
+  cancellation_reason?: string | null;
+  tracking_number?: string | null;
+  tracking_url?: string | null;
+  // Set for orders placed without an account
+  guest_email?: string | null;
+  guest_phone?: string | null;
   created_at: string;
   updated_at?: string;
   profiles: {
@@ -62,6 +84,7 @@ interface Order {
 
 const OrdersManagement = () => {
   const { user } = useAuth();
+  const navigate = useNavigate();
   const [orders, setOrders] = useState<Order[]>([]);
   const [loading, setLoading] = useState(true);
   const [updating, setUpdating] = useState<string | null>(null);
@@ -69,9 +92,13 @@ const OrdersManagement = () => {
   const [selectedOrder, setSelectedOrder] = useState<Order | null>(null);
   const [showModal, setShowModal] = useState(false);
   const [loadingDetails, setLoadingDetails] = useState(false);
+  const [paymentEvents, setPaymentEvents] = useState<PaymentEvent[]>([]);
+  const [expandedEventId, setExpandedEventId] = useState<string | null>(null);
   const [totalCount, setTotalCount] = useState(0);
   const [currentPage, setCurrentPage] = useState(1);
   const [itemsPerPage, setItemsPerPage] = useState(20);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [preparingPrint, setPreparingPrint] = useState(false);
 
   useEffect(() => {
     if (user) {
@@ -87,22 +114,17 @@ const OrdersManagement = () => {
         throw new Error('User not authenticated');
       }
 
-      // Verify user is admin before using admin client
-      const isAdmin = await isUserAdmin(user.id);
-      if (!isAdmin) {
-        throw new Error('Access denied: Admin privileges required');
-      }
-
       // Build base query for counting
-      let countQuery = supabaseAdmin
+      let countQuery = supabase
         .from('orders')
         .select('*', { count: 'exact', head: true });
 
       // Build query for fetching data
-      let dataQuery = supabaseAdmin
+      let dataQuery = supabase
         .from('orders')
         .select(`
           id,
+          order_number,
           total,
           currency,
           status,
@@ -111,6 +133,8 @@ const OrdersManagement = () => {
           payment_method,
           shipping_method,
           user_id,
+          guest_email,
+          guest_phone,
           profiles:user_id (
             full_name,
             email
@@ -138,7 +162,8 @@ const OrdersManagement = () => {
         throw error;
       }
 
-      setOrders(data || []);
+      // profiles:user_id is one row per order, though supabase-js types it as a list
+      setOrders((data || []) as unknown as Order[]);
       setTotalCount(count || 0);
     } catch (error) {
       console.error('Error fetching orders:', error);
@@ -156,12 +181,7 @@ const OrdersManagement = () => {
         throw new Error('User not authenticated');
       }
 
-      const isAdmin = await isUserAdmin(user.id);
-      if (!isAdmin) {
-        throw new Error('Access denied: Admin privileges required');
-      }
-
-      const { data, error } = await supabaseAdmin
+      const { data, error } = await supabase
         .from('orders')
         .select(`
           *,
@@ -207,6 +227,14 @@ const OrdersManagement = () => {
       };
 
       setSelectedOrder(formattedOrder);
+
+      // The payment timeline is secondary, so a failure here shouldn't hide the order
+      try {
+        setPaymentEvents(await fetchPaymentEvents(orderId));
+      } catch (eventsError) {
+        console.error('Error fetching payment events:', eventsError);
+        setPaymentEvents([]);
+      }
     } catch (error) {
       console.error('Error fetching order details:', error);
       showErrorToast('Failed to load order details');
@@ -223,18 +251,19 @@ const OrdersManagement = () => {
         throw new Error('User not authenticated');
       }
 
-      // Verify user is admin before using admin client
-      const isAdmin = await isUserAdmin(user.id);
-      if (!isAdmin) {
-        throw new Error('Access denied: Admin privileges required');
+      // Cancelling restocks the items and refunds the payment; the database
+      // refuses it once the order has shipped
+      if (newStatus === 'cancelled') {
+        const result = await cancelOrder(orderId, 'Cancelled by the store');
+        showSuccessToast(result.refund_id ? 'Order cancelled and refund opened' : 'Order cancelled');
+        fetchOrders();
+        if (selectedOrder && selectedOrder.id === orderId) {
+          fetchOrderDetails(orderId);
+        }
+        return;
       }
 
-      const { error } = await supabaseAdmin
-        .from('orders')
-        .update({ status: newStatus })
-        .eq('id', orderId);
-
-      if (error) throw error;
+      await setOrderStatus(orderId, newStatus);
 
       setOrders(orders.map(order =>
         order.id === orderId
@@ -250,10 +279,12 @@ const OrdersManagement = () => {
         });
       }
 
+      flushEmailQueue();
+      flushSmsQueue();
       showSuccessToast('Order status updated successfully');
-    } catch (error) {
+    } catch (error: any) {
       console.error('Error updating order:', error);
-      showErrorToast('Failed to update order status');
+      showErrorToast(error.message || 'Failed to update order status');
     } finally {
       setUpdating(null);
     }
@@ -267,37 +298,21 @@ const OrdersManagement = () => {
         throw new Error('User not authenticated');
       }
 
-      // Verify user is admin before using admin client
-      const isAdmin = await isUserAdmin(user.id);
-      if (!isAdmin) {
-        throw new Error('Access denied: Admin privileges required');
-      }
-
-      const { error } = await supabaseAdmin
-        .from('orders')
-        .update({ payment_status: newPaymentStatus })
-        .eq('id', orderId);
-
-      if (error) throw error;
-
-      setOrders(orders.map(order =>
-        order.id === orderId
-          ? { ...order, payment_status: newPaymentStatus as any }
-          : order
-      ));
+      await setOrderPaymentStatus(orderId, newPaymentStatus);
 
-      // Also update the selected order if it's the same one
+      // An order still awaiting payment is cancelled and restocked as well
+      fetchOrders();
       if (selectedOrder && selectedOrder.id === orderId) {
-        setSelectedOrder({
-          ...selectedOrder,
-          payment_status: newPaymentStatus as any
-        });
+        fetchOrderDetails(orderId);
       }
 
+      flushEmailQueue();
+      flushSmsQueue();
       showSuccessToast('Payment status updated successfully');
-    } catch (error) {
+    } catch (error: any) {
       console.error('Error updating payment status:', error);
-      showErrorToast('Failed to update payment status');
+      // Backwards moves are rejected by the database, so surface its reason
+      showErrorToast(error.message || 'Failed to update payment status');
     } finally {
       setUpdating(null);
     }
@@ -306,6 +321,7 @@ const OrdersManagement = () => {
   // Add effect to refetch when pagination or filters change
   useEffect(() => {
     setCurrentPage(1); // Reset to first page when filter changes
+    setSelectedIds([]);
   }, [statusFilter]);
 
   useEffect(() => {
@@ -314,6 +330,37 @@ const OrdersManagement = () => {
     }
   }, [currentPage, itemsPerPage, statusFilter]);
 
+  const toggleSelected = (orderId: string) => {
+    setSelectedIds(prev => prev.includes(orderId) ? prev.filter(id => id !== orderId) : [...prev, orderId]);
+  };
+
+  const allOnPageSelected = orders.length > 0 && orders.every(order => selectedIds.includes(order.id));
+
+  const toggleAllOnPage = () => {
+    const pageIds = orders.map(order => order.id);
+    setSelectedIds(prev => allOnPageSelected
+      ? prev.filter(id => !pageIds.includes(id))
+      : Array.from(new Set([...prev, ...pageIds])));
+  };
+
+  // Prints the ticked orders, or every order in the current filter
+  const printDocuments = async (kind: OrderDocumentKind) => {
+    setPreparingPrint(true);
+    try {
+      const ids = selectedIds.length > 0 ? selectedIds : await fetchOrderIdsForPrint(statusFilter);
+      if (ids.length === 0) {
+        showErrorToast('No orders to print');
+        return;
+      }
+      navigate(`/admin/print/${kind}?ids=${ids.join(',')}`);
+    } catch (error: any) {
+      console.error('Error preparing documents:', error);
+      showErrorToast(error.message || 'Failed to prepare documents');
+    } finally {
+      setPreparingPrint(false);
+    }
+  };
+
   // Pagination calculations
   const totalPages = Math.ceil(totalCount / itemsPerPage);
   const startItem = (currentPage - 1) * itemsPerPage + 1;
@@ -434,6 +481,25 @@ const OrdersManagement = () => {
           </div>
 
           <div className="flex items-center space-x-4">
+            <div className="flex items-center">
+              <Printer className="w-4 h-4 text-[rgb(94,94,94)] mr-2" />
+              <select
+                value=""
+                onChange={(e) => printDocuments(e.target.value as OrderDocumentKind)}
+                disabled={preparingPrint}
+                className="px-4 py-2 bg-black text-white border border-[rgb(51,51,51)] rounded-lg hover:border-[rgb(94,94,94)] focus:outline-none focus:border-white"
+              >
+                <option value="" disabled className="bg-black">
+                  {selectedIds.length > 0 ? `Print ${selectedIds.length} selected` : 'Print filtered orders'}
+                </option>
+                {(Object.keys(ORDER_DOCUMENT_LABELS) as OrderDocumentKind[]).map(kind => (
+                  <option key={kind} value={kind} className="bg-black">
+                    {ORDER_DOCUMENT_LABELS[kind]}
+                  </option>
+                ))}
+              </select>
+            </div>
+
             <select
               value={statusFilter}
               onChange={(e) => setStatusFilter(e.target.value)}
@@ -468,6 +534,14 @@ const OrdersManagement = () => {
             <table className="w-full">
               <thead className="bg-[rgb(25,25,25)]">
                 <tr>
+                  <th className="pl-6 py-3 w-4">
+                    <input
+                      type="checkbox"
+                      checked={allOnPageSelected}
+                      onChange={toggleAllOnPage}
+                      aria-label="Select all orders on this page"
+                    />
+                  </th>
                   <th className="px-6 py-3 text-left text-xs font-medium text-[rgb(94,94,94)] uppercase tracking-wider">
                     Order ID
                   </th>
@@ -497,12 +571,20 @@ const OrdersManagement = () => {
               <tbody className="divide-y divide-[rgb(51,51,51)]">
                 {orders.map((order) => (
                   <tr key={order.id} className="hover:bg-white/5">
+                    <td className="pl-6 py-4">
+                      <input
+                        type="checkbox"
+                        checked={selectedIds.includes(order.id)}
+                        onChange={() => toggleSelected(order.id)}
+                        aria-label={`Select order ${order.id.slice(-8).toUpperCase()}`}
+                      />
+                    </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-white">
                       #{order.id.slice(-8).toUpperCase()}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap">
-                      <div className="text-sm text-white">{order.profiles?.full_name || 'N/A'}</div>
-                      <div className="text-sm text-[rgb(94,94,94)]">{order.profiles?.email}</div>
+                      <div className="text-sm text-white">{order.profiles?.full_name || (order.guest_email ? 'Guest' : 'N/A')}</div>
+                      <div className="text-sm text-[rgb(94,94,94)]">{order.profiles?.email || order.guest_email}</div>
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-white">
                       {order.currency} {order.total.toLocaleString()}
@@ -531,14 +613,20 @@ const OrdersManagement = () => {
                         className={`text-xs font-medium capitalize px-2 py-1 rounded-full border bg-black ${
                           order.payment_status === 'paid' ? 'text-green-400 border-green-400/20 bg-green-900/20' :
                           order.payment_status === 'failed' ? 'text-red-400 border-red-400/20 bg-red-900/20' :
-                          order.payment_status === 'refunded' ? 'text-purple-400 border-purple-400/20 bg-purple-900/20' :
+                          order.payment_status === 'refunded' || order.payment_status === 'partially_refunded' ? 'text-purple-400 border-purple-400/20 bg-purple-900/20' :
+                          order.payment_status === 'chargedback' ? 'text-red-400 border-red-400/20 bg-red-900/20' :
+                          order.payment_status === 'expired' ? 'text-orange-400 border-orange-400/20 bg-orange-900/20' :
                           'text-yellow-400 border-yellow-400/20 bg-yellow-900/20'
                         }`}
                       >
-                        <option value="pending" className="bg-black">Pending</option>
-                        <option value="paid" className="bg-black">Paid</option>
+                        {/* Paid and the refund statuses are set by payments, slips, COD collections and refunds */}
+                        <option value="pending" className="bg-black" disabled>Pending</option>
+                        <option value="paid" className="bg-black" disabled>Paid</option>
                         <option value="failed" className="bg-black">Failed</option>
-                        <option value="refunded" className="bg-black">Refunded</option>
+                        <option value="refunded" className="bg-black" disabled>Refunded</option>
+                        <option value="partially_refunded" className="bg-black" disabled>Partially Refunded</option>
+                        <option value="chargedback" className="bg-black" disabled>Chargedback</option>
+                        <option value="expired" className="bg-black">Expired</option>
                       </select>
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-[rgb(94,94,94)]">
@@ -668,15 +756,30 @@ const OrdersManagement = () => {
                     )}
                   </div>
                 </div>
-                <button
-                  onClick={() => {
-                    setShowModal(false);
-                    setSelectedOrder(null);
-                  }}
-                  className="text-[rgb(94,94,94)] hover:text-white p-2 hover:bg-white/10 rounded-lg transition-colors"
-                >
-                  <X className="w-5 h-5" />
-                </button>
+                <div className="flex items-center space-x-2">
+                  {selectedOrder && (Object.keys(ORDER_DOCUMENT_LABELS) as OrderDocumentKind[]).map(kind => (
+                    <Button
+                      key={kind}
+                      size="sm"
+                      variant="outline"
+                      onClick={() => navigate(`/admin/print/${kind}?ids=${selectedOrder.id}`)}
+                      className="border-[rgb(51,51,51)] text-white hover:bg-white hover:text-black"
+                    >
+                      <Printer className="w-4 h-4 mr-1" />
+                      {kind === 'invoice' ? 'Invoice' : kind === 'label' ? 'Label' : 'Packing slip'}
+                    </Button>
+                  ))}
+                  <button
+                    onClick={() => {
+                      setShowModal(false);
+                      setSelectedOrder(null);
+                      setPaymentEvents([]);
+                    }}
+                    className="text-[rgb(94,94,94)] hover:text-white p-2 hover:bg-white/10 rounded-lg transition-colors"
+                  >
+                    <X className="w-5 h-5" />
+                  </button>
+                </div>
               </div>
 
               {/* Loading State */}
@@ -735,14 +838,20 @@ const OrdersManagement = () => {
                         className={`text-xs font-medium capitalize px-2 py-1 rounded border bg-black w-full ${
                           selectedOrder.payment_status === 'paid' ? 'text-green-400 border-green-400/20 bg-green-900/20' :
                           selectedOrder.payment_status === 'failed' ? 'text-red-400 border-red-400/20 bg-red-900/20' :
-                          selectedOrder.payment_status === 'refunded' ? 'text-purple-400 border-purple-400/20 bg-purple-900/20' :
+                          selectedOrder.payment_status === 'refunded' || selectedOrder.payment_status === 'partially_refunded' ? 'text-purple-400 border-purple-400/20 bg-purple-900/20' :
+                          selectedOrder.payment_status === 'chargedback' ? 'text-red-400 border-red-400/20 bg-red-900/20' :
+                          selectedOrder.payment_status === 'expired' ? 'text-orange-400 border-orange-400/20 bg-orange-900/20' :
                           'text-yellow-400 border-yellow-400/20 bg-yellow-900/20'
                         }`}
                       >
-                        <option value="pending" className="bg-black">Pending</option>
-                        <option value="paid" className="bg-black">Paid</option>
+                        {/* Paid and the refund statuses are set by payments, slips, COD collections and refunds */}
+                        <option value="pending" className="bg-black" disabled>Pending</option>
+                        <option value="paid" className="bg-black" disabled>Paid</option>
                         <option value="failed" className="bg-black">Failed</option>
-                        <option value="refunded" className="bg-black">Refunded</option>
+                        <option value="refunded" className="bg-black" disabled>Refunded</option>
+                        <option value="partially_refunded" className="bg-black" disabled>Partially Refunded</option>
+                        <option value="chargedback" className="bg-black" disabled>Chargedback</option>
+                        <option value="expired" className="bg-black">Expired</option>
                       </select>
                     </div>
 
@@ -751,9 +860,9 @@ const OrdersManagement = () => {
                         <Truck className="w-4 h-4 text-[rgb(94,94,94)]" />
                         <p className="text-[rgb(94,94,94)] text-sm">Shipping</p>
                       </div>
-                      <p className="text-white capitalize">{selectedOrder.shipping_method}</p>
+                      <p className="text-white capitalize mb-2">{selectedOrder.shipping_method}</p>
                       {selectedOrder.tracking_number && (
-                        <p className="text-xs text-blue-400 mt-1">#{selectedOrder.tracking_number}</p>
+                        <p className="text-xs text-[rgb(94,94,94)]">Tracking {selectedOrder.tracking_number}</p>
                       )}
                     </div>
                   </div>
@@ -767,15 +876,15 @@ const OrdersManagement = () => {
                     <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
                       <div>
                         <p className="text-[rgb(94,94,94)] text-sm">Name</p>
-                        <p className="text-white">{selectedOrder.profiles?.full_name || 'N/A'}</p>
+                        <p className="text-white">{selectedOrder.profiles?.full_name || (selectedOrder.guest_email ? 'Guest' : 'N/A')}</p>
                       </div>
                       <div>
                         <p className="text-[rgb(94,94,94)] text-sm">Email</p>
-                        <p className="text-white">{selectedOrder.profiles?.email || 'N/A'}</p>
+                        <p className="text-white">{selectedOrder.profiles?.email || selectedOrder.guest_email || 'N/A'}</p>
                       </div>
                       <div>
                         <p className="text-[rgb(94,94,94)] text-sm">Phone</p>
-                        <p className="text-white">{selectedOrder.shipping_address?.phone || 'N/A'}</p>
+                        <p className="text-white">{selectedOrder.shipping_address?.phone || selectedOrder.guest_phone || 'N/A'}</p>
                       </div>
                     </div>
                   </div>
@@ -950,7 +1059,7 @@ const OrdersManagement = () => {
                       )}
                       {selectedOrder.discount_amount && (
                         <div className="flex justify-between text-green-400">
-                          <span>Discount:</span>
+                          <span>Discount{selectedOrder.discount_code ? ` (${selectedOrder.discount_code})` : ''}:</span>
                           <span>-{selectedOrder.currency} {selectedOrder.discount_amount.toLocaleString()}</span>
                         </div>
                       )}
@@ -1014,6 +1123,18 @@ const OrdersManagement = () => {
                             <p className="text-white font-mono text-sm">{selectedOrder.user_id}</p>
                           </div>
                         )}
+                        {selectedOrder.reserved_until && (
+                          <div>
+                            <p className="text-[rgb(94,94,94)] text-sm">Stock Reserved Until</p>
+                            <p className="text-white">{new Date(selectedOrder.reserved_until).toLocaleString()}</p>
+                          </div>
+                        )}
+                        {selectedOrder.cancellation_reason && (
+                          <div>
+                            <p className="text-[rgb(94,94,94)] text-sm">Cancellation Reason</p>
+                            <p className="text-white">{selectedOrder.cancellation_reason}</p>
+                          </div>
+                        )}
                         {selectedOrder.notes && (
                           <div>
                             <p className="text-[rgb(94,94,94)] text-sm">Order Notes</p>
@@ -1027,6 +1148,105 @@ const OrdersManagement = () => {
                       </div>
                     </div>
                   </div>
+
+                  {/* Bank slips and COD collection */}
+                  <OrderOfflinePaymentPanel
+                    order={selectedOrder}
+                    onChange={() => {
+                      fetchOrderDetails(selectedOrder.id);
+                      fetchOrders();
+                    }}
+                  />
+
+                  {/* Shipments */}
+                  <OrderShipmentsPanel
+                    order={selectedOrder}
+                    onChange={() => {
+                      fetchOrderDetails(selectedOrder.id);
+                      fetchOrders();
+                    }}
+                  />
+
+                  {/* Refunds */}
+                  <OrderRefundsPanel
+                    order={selectedOrder}
+                    onChange={() => {
+                      fetchOrderDetails(selectedOrder.id);
+                      fetchOrders();
+                    }}
+                  />
+
+                  {/* Returns */}
+                  <OrderReturnsPanel
+                    order={selectedOrder}
+                    onChange={() => {
+                      fetchOrderDetails(selectedOrder.id);
+                      fetchOrders();
+                    }}
+                  />
+
+                  {/* Emails */}
+                  <OrderEmailsPanel order={selectedOrder} />
+
+                  <OrderSmsPanel order={selectedOrder} />
+
+                  {/* Payment Timeline */}
+                  <div className="bg-[rgb(25,25,25)] p-6 rounded-lg border border-[rgb(51,51,51)]">
+                    <div className="flex items-center space-x-2 mb-4">
+                      <CreditCard className="w-5 h-5 text-white" />
+                      <h4 className="text-lg font-semibold text-white">Payment Timeline</h4>
+                    </div>
+                    {paymentEvents.length === 0 ? (
+                      <p className="text-[rgb(94,94,94)] text-sm">No payment notifications received for this order.</p>
+                    ) : (
+                      <div className="space-y-3">
+                        {paymentEvents.map((event) => (
+                          <div key={event.id} className="border-l-2 border-[rgb(51,51,51)] pl-4">
+                            <div className="flex flex-wrap items-center gap-2">
+                              <span className="text-white text-sm font-medium capitalize">
+                                {event.payment_status || 'unknown'}
+                              </span>
+                              <span className="text-[rgb(94,94,94)] text-xs">
+                                code {event.status_code ?? 'n/a'}
+                              </span>
+                              <span className={`text-xs px-2 py-0.5 rounded-full border capitalize ${
+                                event.outcome === 'applied' ? 'text-green-400 border-green-400/20 bg-green-900/20' :
+                                event.outcome === 'rejected' ? 'text-red-400 border-red-400/20 bg-red-900/20' :
+                                event.outcome === 'duplicate' ? 'text-blue-400 border-blue-400/20 bg-blue-900/20' :
+                                'text-yellow-400 border-yellow-400/20 bg-yellow-900/20'
+                              }`}>
+                                {event.outcome}
+                              </span>
+                              {!event.signature_valid && (
+                                <span className="text-xs text-red-400">Invalid signature</span>
+                              )}
+                            </div>
+                            <p className="text-[rgb(94,94,94)] text-xs mt-1">
+                              {new Date(event.received_at).toLocaleString()}
+                              {event.provider_payment_id && ` · ${event.provider} #${event.provider_payment_id}`}
+                              {event.amount !== null && ` · ${event.currency} ${Number(event.amount).toLocaleString()}`}
+                            </p>
+                            {(event.status_message || event.outcome_detail) && (
+                              <p className="text-[rgb(94,94,94)] text-xs">
+                                {[event.status_message, event.outcome_detail].filter(Boolean).join(' · ')}
+                              </p>
+                            )}
+                            <button
+                              onClick={() => setExpandedEventId(expandedEventId === event.id ? null : event.id)}
+                              className="text-xs text-blue-400 hover:text-blue-300 mt-1"
+                            >
+                              {expandedEventId === event.id ? 'Hide payload' : 'Show payload'}
+                            </button>
+                            {expandedEventId === event.id && (
+                              <pre className="mt-2 p-3 bg-black rounded text-xs text-[rgb(94,94,94)] overflow-x-auto">
+                                {JSON.stringify(event.raw_payload, null, 2)}
+                              </pre>
+                            )}
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </div>
                 </div>
               )}
             </div>
@@ -1037,4 +1257,4 @@ const OrdersManagement = () => {
   );
 };
 
-export default OrdersManagement;
\ No newline at end of file
+export default OrdersManagement;
@@ -0,0 +1,529 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { Banknote, Building, Settings } from 'lucide-react';
+import AdminLayout from '../../components/admin/AdminLayout';
+import Button from '../../components/ui/Button';
+import Breadcrumb from '../../components/ui/Breadcrumb';
+import { showErrorToast, showSuccessToast } from '../../components/ui/CustomToast';
+import { flushEmailQueue } from '../../services/emailService';
+import { flushSmsQueue } from '../../services/smsService';
+import {
+  fetchBankTransferDays,
+  fetchCodCollections,
+  fetchCodRemittances,
+  fetchCodRules,
+  fetchSlipsAwaitingReview,
+  getPaymentSlipUrl,
+  recordCodRemittance,
+  reviewPaymentSlip,
+  updateBankTransferDays,
+  updateCodRules
+} from '../../services/offlinePaymentService';
+import { CodCollection, CodRemittance, PaymentSlip } from '../../types/payment';
+
+const inputClassName = 'w-full px-4 py-2.5 bg-black text-white border border-[rgb(51,51,51)] rounded-lg hover:border-[rgb(94,94,94)] focus:outline-none focus:border-white transition-colors';
+
+const formatMoney = (amount: number) => `LKR ${Number(amount).toLocaleString()}`;
+
+const differenceClassName = (difference: number) =>
+  difference === 0 ? 'text-[rgb(94,94,94)]' : 'text-red-400';
+
+const PaymentsManagement = () => {
+  const [loading, setLoading] = useState(true);
+
+  // Settings, kept as strings while editing
+  const [bankDays, setBankDays] = useState('3');
+  const [codMin, setCodMin] = useState('0');
+  const [codMax, setCodMax] = useState('');
+  const [codFee, setCodFee] = useState('0');
+  const [blockedDistricts, setBlockedDistricts] = useState('');
+  const [savingSettings, setSavingSettings] = useState(false);
+
+  // Bank slips
+  const [slips, setSlips] = useState<PaymentSlip[]>([]);
+  const [rejectNotes, setRejectNotes] = useState<Record<string, string>>({});
+  const [reviewing, setReviewing] = useState<string | null>(null);
+
+  // COD reconciliation
+  const [collections, setCollections] = useState<CodCollection[]>([]);
+  const [remittances, setRemittances] = useState<CodRemittance[]>([]);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [payoutReference, setPayoutReference] = useState('');
+  const [payoutAmount, setPayoutAmount] = useState('');
+  const [payoutDate, setPayoutDate] = useState(new Date().toISOString().slice(0, 10));
+  const [payoutNote, setPayoutNote] = useState('');
+  const [savingPayout, setSavingPayout] = useState(false);
+
+  const loadQueues = useCallback(async () => {
+    try {
+      const [pendingSlips, openCollections, recentRemittances] = await Promise.all([
+        fetchSlipsAwaitingReview(),
+        fetchCodCollections(false),
+        fetchCodRemittances(),
+      ]);
+      setSlips(pendingSlips);
+      setCollections(openCollections);
+      setRemittances(recentRemittances);
+      setSelectedIds(prev => prev.filter(id => openCollections.some(collection => collection.id === id)));
+    } catch (error) {
+      console.error('Error fetching offline payments:', error);
+      showErrorToast('Failed to load payments');
+    }
+  }, []);
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const [days, rules] = await Promise.all([fetchBankTransferDays(), fetchCodRules()]);
+        setBankDays(String(days));
+        setCodMin(String(rules.min_order_total ?? 0));
+        setCodMax(rules.max_order_total === null || rules.max_order_total === undefined ? '' : String(rules.max_order_total));
+        setCodFee(String(rules.fee ?? 0));
+        setBlockedDistricts((rules.blocked_districts || []).join(', '));
+        await loadQueues();
+      } catch (error) {
+        console.error('Error fetching payment settings:', error);
+        showErrorToast('Failed to load payment settings');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    load();
+  }, [loadQueues]);
+
+  const selectedCollections = useMemo(
+    () => collections.filter(collection => selectedIds.includes(collection.id)),
+    [collections, selectedIds]
+  );
+  const selectedTotal = selectedCollections.reduce((sum, collection) => sum + Number(collection.collected_amount), 0);
+  const selectedCouriers = new Set(selectedCollections.map(collection => collection.courier_code || ''));
+
+  // Default the payout to what the courier should be handing over
+  useEffect(() => {
+    setPayoutAmount(selectedTotal > 0 ? String(selectedTotal) : '');
+  }, [selectedTotal]);
+
+  const handleSaveSettings = async () => {
+    const days = parseInt(bankDays);
+    const min = Number(codMin) || 0;
+    const max = codMax.trim() === '' ? null : Number(codMax);
+    const fee = Number(codFee) || 0;
+
+    if (!days || days < 1) {
+      showErrorToast('Bank transfer orders need at least one day to be paid');
+      return;
+    }
+    if (max !== null && (Number.isNaN(max) || max < min)) {
+      showErrorToast('The COD maximum must be above the minimum');
+      return;
+    }
+    if (min < 0 || fee < 0) {
+      showErrorToast('Amounts cannot be negative');
+      return;
+    }
+
+    try {
+      setSavingSettings(true);
+      await Promise.all([
+        updateBankTransferDays(days),
+        updateCodRules({
+          min_order_total: min,
+          max_order_total: max,
+          fee,
+          blocked_districts: blockedDistricts.split(',').map(district => district.trim()).filter(Boolean),
+        }),
+      ]);
+      showSuccessToast('Payment settings saved');
+    } catch (error: any) {
+      console.error('Error saving payment settings:', error);
+      showErrorToast(error.message || 'Failed to save payment settings');
+    } finally {
+      setSavingSettings(false);
+    }
+  };
+
+  const handleReview = async (slip: PaymentSlip, approve: boolean) => {
+    const note = rejectNotes[slip.id]?.trim();
+    if (!approve && !note) {
+      showErrorToast('Add a note telling the customer why the slip was rejected');
+      return;
+    }
+
+    setReviewing(slip.id);
+    try {
+      await reviewPaymentSlip(slip.id, approve, note);
+      showSuccessToast(approve ? 'Slip approved and order marked paid' : 'Slip rejected');
+      flushEmailQueue();
+      flushSmsQueue();
+      setSlips(prev => prev.filter(item => item.id !== slip.id));
+    } catch (error: any) {
+      console.error('Error reviewing payment slip:', error);
+      showErrorToast(error.message || 'Failed to review payment slip');
+    } finally {
+      setReviewing(null);
+    }
+  };
+
+  const toggleCollection = (id: string) => {
+    setSelectedIds(prev => prev.includes(id) ? prev.filter(item => item !== id) : [...prev, id]);
+  };
+
+  const handleRecordPayout = async () => {
+    const amount = Number(payoutAmount);
+    if (!payoutReference.trim()) {
+      showErrorToast('Enter the payout reference');
+      return;
+    }
+    if (payoutAmount === '' || Number.isNaN(amount) || amount < 0) {
+      showErrorToast('Enter the amount remitted');
+      return;
+    }
+
+    try {
+      setSavingPayout(true);
+      await recordCodRemittance(selectedIds, payoutReference.trim(), amount, payoutDate, payoutNote);
+      showSuccessToast('Payout recorded');
+      setSelectedIds([]);
+      setPayoutReference('');
+      setPayoutNote('');
+      await loadQueues();
+    } catch (error: any) {
+      console.error('Error recording COD payout:', error);
+      showErrorToast(error.message || 'Failed to record payout');
+    } finally {
+      setSavingPayout(false);
+    }
+  };
+
+  const breadcrumbItems = [
+    {
+      href: '/admin/dashboard',
+      label: 'Dashboard'
+    },
+    {
+      label: 'Payments'
+    }
+  ];
+
+  if (loading) {
+    return (
+      <AdminLayout>
+        <div className="flex items-center justify-center h-64">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-white"></div>
+        </div>
+      </AdminLayout>
+    );
+  }
+
+  const payoutDifference = payoutAmount === '' ? 0 : Number(payoutAmount) - selectedTotal;
+
+  return (
+    <AdminLayout>
+      <div className="space-y-6">
+        {/* Breadcrumb */}
+        <Breadcrumb items={breadcrumbItems} variant="white" />
+
+        <div>
+          <h1 className="text-2xl font-bold text-white">Payments</h1>
+          <p className="text-white/60">Bank transfer slips, cash on delivery rules and courier payouts</p>
+        </div>
+
+        {/* Settings */}
+        <div className="bg-black border border-[rgb(51,51,51)] rounded-lg p-6 space-y-4">
+          <div className="flex items-center space-x-2">
+            <Settings className="w-5 h-5 text-white" />
+            <h2 className="text-lg font-semibold text-white">Settings</h2>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+            <div>
+              <label className="block text-sm text-[rgb(94,94,94)] mb-1">Days to pay by bank transfer</label>
+              <input
+                type="number"
+                min={1}
+                value={bankDays}
+                onChange={(e) => setBankDays(e.target.value)}
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label className="block text-sm text-[rgb(94,94,94)] mb-1">COD minimum order (LKR)</label>
+              <input
+                type="number"
+                min={0}
+                value={codMin}
+                onChange={(e) => setCodMin(e.target.value)}
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label className="block text-sm text-[rgb(94,94,94)] mb-1">COD maximum order (LKR)</label>
+              <input
+                type="number"
+                min={0}
+                value={codMax}
+                onChange={(e) => setCodMax(e.target.value)}
+                placeholder="No limit"
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label className="block text-sm text-[rgb(94,94,94)] mb-1">COD fee (LKR)</label>
+              <input
+                type="number"
+                min={0}
+                value={codFee}
+                onChange={(e) => setCodFee(e.target.value)}
+                className={inputClassName}
+              />
+            </div>
+          </div>
+          <div>
+            <label className="block text-sm text-[rgb(94,94,94)] mb-1">Districts without COD (comma separated)</label>
+            <input
+              value={blockedDistricts}
+              onChange={(e) => setBlockedDistricts(e.target.value)}
+              placeholder="e.g. Jaffna, Mannar"
+              className={inputClassName}
+            />
+          </div>
+          <p className="text-xs text-[rgb(94,94,94)]">
+            Unpaid bank transfer orders are cancelled and restocked once their days run out, unless a slip is waiting for review.
+            Bank account details are edited under Emails.
+          </p>
+          <div className="flex justify-end">
+            <Button
+              onClick={handleSaveSettings}
+              loading={savingSettings}
+              className="bg-white text-black hover:bg-gray-200"
+            >
+              Save Settings
+            </Button>
+          </div>
+        </div>
+
+        {/* Bank slips */}
+        <div className="bg-black border border-[rgb(51,51,51)] rounded-lg p-6">
+          <div className="flex items-center space-x-2 mb-4">
+            <Building className="w-5 h-5 text-white" />
+            <h2 className="text-lg font-semibold text-white">Slips Awaiting Review</h2>
+          </div>
+          {slips.length === 0 ? (
+            <p className="text-[rgb(94,94,94)] text-sm">No payment slips to review.</p>
+          ) : (
+            <div className="space-y-4">
+              {slips.map(slip => (
+                <div key={slip.id} className="border-l-2 border-[rgb(51,51,51)] pl-4">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="text-white text-sm font-medium">{slip.orders?.order_number || slip.order_id.slice(-8).toUpperCase()}</span>
+                    <a
+                      href={getPaymentSlipUrl(slip.file_path)}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-sm text-blue-400 hover:text-blue-300 underline"
+                    >
+                      {slip.file_name || 'View slip'}
+                    </a>
+                  </div>
+                  <p className="text-[rgb(94,94,94)] text-xs mt-1">
+                    {new Date(slip.created_at).toLocaleString()}
+                    {slip.orders && ` · Order total ${formatMoney(slip.orders.total)}`}
+                    {slip.amount !== null && ` · Customer paid ${formatMoney(slip.amount)}`}
+                    {slip.reference && ` · Ref ${slip.reference}`}
+                  </p>
+                  <div className="flex flex-col sm:flex-row gap-2 mt-2">
+                    <input
+                      value={rejectNotes[slip.id] || ''}
+                      onChange={(e) => setRejectNotes({ ...rejectNotes, [slip.id]: e.target.value })}
+                      placeholder="Reason if rejecting (shown to the customer)"
+                      className="flex-1 bg-black border border-[rgb(51,51,51)] text-white rounded px-3 py-1.5 text-sm"
+                    />
+                    <div className="flex gap-2">
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => handleReview(slip, false)}
+                        disabled={reviewing === slip.id}
+                        className="border-[rgb(51,51,51)] text-white hover:bg-white hover:text-black"
+                      >
+                        Reject
+                      </Button>
+                      <Button
+                        size="sm"
+                        onClick={() => handleReview(slip, true)}
+                        loading={reviewing === slip.id}
+                        className="bg-white text-black hover:bg-gray-200"
+                      >
+                        Approve
+                      </Button>
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* COD reconciliation */}
+        <div className="bg-black border border-[rgb(51,51,51)] rounded-lg p-6 space-y-4">
+          <div className="flex items-center space-x-2">
+            <Banknote className="w-5 h-5 text-white" />
+            <h2 className="text-lg font-semibold text-white">Cash With Couriers</h2>
+          </div>
+          {collections.length === 0 ? (
+            <p className="text-[rgb(94,94,94)] text-sm">Every collection has been remitted.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-[rgb(94,94,94)] border-b border-[rgb(51,51,51)]">
+                    <th className="py-2 w-8"></th>
+                    <th className="py-2">Order</th>
+                    <th className="py-2">Courier</th>
+                    <th className="py-2">Collected on</th>
+                    <th className="py-2 text-right">Expected</th>
+                    <th className="py-2 text-right">Collected</th>
+                    <th className="py-2 text-right">Difference</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {collections.map(collection => {
+                    const difference = Number(collection.collected_amount) - Number(collection.expected_amount);
+                    return (
+                      <tr key={collection.id} className="border-b border-[rgb(51,51,51)] text-white">
+                        <td className="py-2">
+                          <input
+                            type="checkbox"
+                            checked={selectedIds.includes(collection.id)}
+                            onChange={() => toggleCollection(collection.id)}
+                          />
+                        </td>
+                        <td className="py-2">
+                          {collection.orders?.order_number || collection.order_id.slice(-8).toUpperCase()}
+                          {collection.note && <p className="text-xs text-[rgb(94,94,94)]">{collection.note}</p>}
+                        </td>
+                        <td className="py-2">{collection.couriers?.name || collection.courier_code || 'Unassigned'}</td>
+                        <td className="py-2">{new Date(collection.collected_at).toLocaleDateString()}</td>
+                        <td className="py-2 text-right">{formatMoney(collection.expected_amount)}</td>
+                        <td className="py-2 text-right">{formatMoney(collection.collected_amount)}</td>
+                        <td className={`py-2 text-right ${differenceClassName(difference)}`}>
+                          {difference === 0 ? '—' : formatMoney(difference)}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {selectedIds.length > 0 && (
+            <div className="bg-[rgb(25,25,25)] border border-[rgb(51,51,51)] rounded-lg p-4 space-y-3">
+              <p className="text-sm text-white">
+                Record a payout for {selectedIds.length} collection{selectedIds.length === 1 ? '' : 's'} totalling {formatMoney(selectedTotal)}
+              </p>
+              {selectedCouriers.size > 1 && (
+                <p className="text-xs text-yellow-400">A payout can only cover collections from one courier.</p>
+              )}
+              <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+                <input
+                  value={payoutReference}
+                  onChange={(e) => setPayoutReference(e.target.value)}
+                  placeholder="Payout reference"
+                  className={inputClassName}
+                />
+                <input
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  value={payoutAmount}
+                  onChange={(e) => setPayoutAmount(e.target.value)}
+                  placeholder="Amount received"
+                  className={inputClassName}
+                />
+                <input
+                  type="date"
+                  value={payoutDate}
+                  onChange={(e) => setPayoutDate(e.target.value)}
+                  className={inputClassName}
+                />
+                <input
+                  value={payoutNote}
+                  onChange={(e) => setPayoutNote(e.target.value)}
+                  placeholder="Note"
+                  className={inputClassName}
+                />
+              </div>
+              <div className="flex items-center justify-between">
+                <p className={`text-xs ${differenceClassName(payoutDifference)}`}>
+                  {payoutDifference === 0
+                    ? 'Matches the collections'
+                    : payoutDifference < 0
+                    ? `Short by ${formatMoney(-payoutDifference)}`
+                    : `Over by ${formatMoney(payoutDifference)}`}
+                </p>
+                <Button
+                  size="sm"
+                  onClick={handleRecordPayout}
+                  loading={savingPayout}
+                  disabled={selectedCouriers.size > 1}
+                  className="bg-white text-black hover:bg-gray-200"
+                >
+                  Record Payout
+                </Button>
+              </div>
+            </div>
+          )}
+        </div>
+
+        {/* Payout history */}
+        <div className="bg-black border border-[rgb(51,51,51)] rounded-lg p-6">
+          <h2 className="text-lg font-semibold text-white mb-4">Courier Payouts</h2>
+          {remittances.length === 0 ? (
+            <p className="text-[rgb(94,94,94)] text-sm">No payouts recorded yet.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-[rgb(94,94,94)] border-b border-[rgb(51,51,51)]">
+                    <th className="py-2">Date</th>
+                    <th className="py-2">Courier</th>
+                    <th className="py-2">Reference</th>
+                    <th className="py-2 text-right">Orders</th>
+                    <th className="py-2 text-right">Collected</th>
+                    <th className="py-2 text-right">Remitted</th>
+                    <th className="py-2 text-right">Difference</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {remittances.map(remittance => {
+                    const remittanceCollections = remittance.cod_collections || [];
+                    const collected = remittanceCollections.reduce((sum, item) => sum + Number(item.collected_amount), 0);
+                    const difference = Number(remittance.amount) - collected;
+                    return (
+                      <tr key={remittance.id} className="border-b border-[rgb(51,51,51)] text-white">
+                        <td className="py-2">{new Date(remittance.remitted_on).toLocaleDateString()}</td>
+                        <td className="py-2">{remittance.couriers?.name || remittance.courier_code || 'Unassigned'}</td>
+                        <td className="py-2">
+                          {remittance.reference}
+                          {remittance.note && <p className="text-xs text-[rgb(94,94,94)]">{remittance.note}</p>}
+                        </td>
+                        <td className="py-2 text-right">{remittanceCollections.length}</td>
+                        <td className="py-2 text-right">{formatMoney(collected)}</td>
+                        <td className="py-2 text-right">{formatMoney(remittance.amount)}</td>
+                        <td className={`py-2 text-right ${differenceClassName(difference)}`}>
+                          {difference === 0 ? '—' : formatMoney(difference)}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+    </AdminLayout>
+  );
+};
+
+export default PaymentsManagement;
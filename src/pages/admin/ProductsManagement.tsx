@@ -1,22 +1,27 @@
 import { useState, useEffect } from 'react';
-import { Plus, Edit, Trash2, Eye, ToggleLeft, ToggleRight, Package, LayoutDashboard, Check } from 'lucide-react';
+import { Plus, Edit, Trash2, Eye, ToggleLeft, ToggleRight, Package, LayoutDashboard, Check, Download, Upload } from 'lucide-react';
 import AdminLayout from '../../components/admin/AdminLayout';
-import { supabaseAdmin, isUserAdmin } from '../../lib/supabaseAdmin';
+import { supabase } from '../../lib/supabase';
 import { useAuth } from '../../hooks/useAuth';
 import Button from '../../components/ui/Button';
 import Input from '../../components/ui/Input';
 import ConfirmDialog from '../../components/ui/ConfirmDialog';
+import ProductImportModal from '../../components/admin/ProductImportModal';
 import { showSuccessToast, showErrorToast } from '../../components/ui/CustomToast';
 import { uploadProductImages, saveProductImages, deleteProductImages, getProductImages } from '../../lib/imageUpload';
 import Breadcrumb from '../../components/ui/Breadcrumb';
 import { generateSlug, ensureUniqueSlug } from '../../utils/slugUtils';
 import { getAvailableColors, getColorInfo } from '../../services/colorService';
+import { sendBackInStockNotifications } from '../../services/stockNotificationService';
+import { exportProductsCsv } from '../../services/productImportService';
+import { buildCategoryTree, flattenCategoryTree } from '../../utils/categoryTree';
 
 interface Product {
   id: string;
   title: string;
   description: string;
   price: number;
+  weight_kg: number;
   sku: string;
   slug?: string;
   category_id: string | null;
@@ -49,6 +54,8 @@ interface Product {
 interface Category {
   id: string;
   name: string;
+  parent_id: string | null;
+  display_order: number;
 }
 
 interface Brand {
@@ -81,6 +88,7 @@ const ProductsManagement = () => {
     title: '',
     description: '',
     price: '',
+    weight_kg: '',
     sku: '',
     slug: '',
     category_id: '',
@@ -104,6 +112,8 @@ const ProductsManagement = () => {
   const [loadingImages, setLoadingImages] = useState(false);
   const [simpleStock, setSimpleStock] = useState<number>(0);
   const [fieldErrors, setFieldErrors] = useState<{[key: string]: string}>({});
+  const [showImportModal, setShowImportModal] = useState(false);
+  const [exporting, setExporting] = useState(false);
 
   useEffect(() => {
     if (user) {
@@ -119,13 +129,8 @@ const ProductsManagement = () => {
         throw new Error('User not authenticated');
       }
 
-      const isAdmin = await isUserAdmin(user.id);
-      if (!isAdmin) {
-        throw new Error('Access denied: Admin privileges required');
-      }
-
       const [productsRes, categoriesRes, brandsRes] = await Promise.all([
-        supabaseAdmin
+        supabase
           .from('products')
           .select(`
             *,
@@ -141,8 +146,8 @@ const ProductsManagement = () => {
           `)
           .is('deleted_at', null)
           .order('created_at', { ascending: false }),
-        supabaseAdmin.from('categories').select('id, name').order('name'),
-        supabaseAdmin.from('brands').select('id, name').order('name')
+        supabase.from('categories').select('id, name, parent_id, display_order').order('name'),
+        supabase.from('brands').select('id, name').order('name')
       ]);
 
       if (productsRes.error) throw productsRes.error;
@@ -222,11 +227,6 @@ const ProductsManagement = () => {
         throw new Error('User not authenticated');
       }
 
-      const isAdmin = await isUserAdmin(user.id);
-      if (!isAdmin) {
-        throw new Error('Access denied: Admin privileges required');
-      }
-
       // Validate required fields
       if (!formData.title || !formData.sku || !formData.price) {
         throw new Error('Please fill in all required fields');
@@ -248,6 +248,7 @@ const ProductsManagement = () => {
         title: formData.title,
         description: formData.description,
         price: parseFloat(formData.price),
+        weight_kg: parseFloat(formData.weight_kg) || 0,
         sku: formData.sku,
         slug: finalSlug,
         category_id: formData.category_id || null,
@@ -260,7 +261,7 @@ const ProductsManagement = () => {
 
       if (editingProduct) {
         // Update existing product
-        const { error: productError } = await supabaseAdmin
+        const { error: productError } = await supabase
           .from('products')
           .update(productData)
           .eq('id', editingProduct.id);
@@ -272,7 +273,7 @@ const ProductsManagement = () => {
         // Don't delete existing variants, just update their stock and add new ones
       } else {
         // Create new product
-        const { data: newProduct, error: productError } = await supabaseAdmin
+        const { data: newProduct, error: productError } = await supabase
           .from('products')
           .insert([productData])
           .select('id')
@@ -288,7 +289,7 @@ const ProductsManagement = () => {
 
         // Update existing variants (stock and is_active can be changed)
         for (const variant of variants.filter(v => v.isExisting)) {
-          const { error: updateError } = await supabaseAdmin
+          const { error: updateError } = await supabase
             .from('product_variants')
             .update({
               stock: variant.stock,
@@ -310,7 +311,7 @@ const ProductsManagement = () => {
             stock: variant.stock
           }));
 
-          const { error: insertError } = await supabaseAdmin
+          const { error: insertError } = await supabase
             .from('product_variants')
             .insert(newVariantData);
 
@@ -320,7 +321,7 @@ const ProductsManagement = () => {
         // Handle simple product in edit mode
         if (productType === 'simple') {
           // Update the single variant's stock
-          const { error: updateError } = await supabaseAdmin
+          const { error: updateError } = await supabase
             .from('product_variants')
             .update({ stock: simpleStock })
             .eq('product_id', productId);
@@ -360,7 +361,7 @@ const ProductsManagement = () => {
         }
 
         if (variantData.length > 0) {
-          const { error: variantError } = await supabaseAdmin
+          const { error: variantError } = await supabase
             .from('product_variants')
             .insert(variantData);
 
@@ -393,6 +394,11 @@ const ProductsManagement = () => {
 
       showSuccessToast(editingProduct ? 'Product updated successfully' : 'Product created successfully');
 
+      // Restocked variants may have shoppers waiting on them
+      if (editingProduct) {
+        sendBackInStockNotifications().catch(error => console.error('Error sending back in stock notifications:', error));
+      }
+
       // Add a small delay before closing the modal for better UX
       await new Promise(resolve => setTimeout(resolve, 1500));
 
@@ -414,12 +420,7 @@ const ProductsManagement = () => {
         throw new Error('User not authenticated');
       }
 
-      const isAdmin = await isUserAdmin(user.id);
-      if (!isAdmin) {
-        throw new Error('Access denied: Admin privileges required');
-      }
-
-      const { error } = await supabaseAdmin
+      const { error } = await supabase
         .from('products')
         .update({ is_active: !currentStatus })
         .eq('id', productId);
@@ -446,12 +447,7 @@ const ProductsManagement = () => {
         return;
       }
 
-      const isAdmin = await isUserAdmin(user.id);
-      if (!isAdmin) {
-        throw new Error('Access denied: Admin privileges required');
-      }
-
-      const { error } = await supabaseAdmin
+      const { error } = await supabase
         .from('products')
         .update({ featured: !currentStatus })
         .eq('id', productId);
@@ -485,13 +481,8 @@ const ProductsManagement = () => {
         throw new Error('User not authenticated');
       }
 
-      const isAdmin = await isUserAdmin(user.id);
-      if (!isAdmin) {
-        throw new Error('Access denied: Admin privileges required');
-      }
-
       // Soft delete: Update the product with deleted_at timestamp and deleted_by user
-      const { error } = await supabaseAdmin
+      const { error } = await supabase
         .from('products')
         .update({
           deleted_at: new Date().toISOString(),
@@ -522,6 +513,7 @@ const ProductsManagement = () => {
         title: product.title,
         description: product.description || '',
         price: product.price.toString(),
+        weight_kg: product.weight_kg ? product.weight_kg.toString() : '',
         sku: product.sku,
         slug: product.slug || '',
         category_id: product.category_id || '',
@@ -586,6 +578,7 @@ const ProductsManagement = () => {
       title: '',
       description: '',
       price: '',
+      weight_kg: '',
       sku: '',
       slug: '',
       category_id: '',
@@ -738,18 +731,17 @@ const ProductsManagement = () => {
         throw new Error('User not authenticated');
       }
 
-      const isAdmin = await isUserAdmin(user.id);
-      if (!isAdmin) {
-        throw new Error('Access denied: Admin privileges required');
-      }
-
-      const { error } = await supabaseAdmin
+      const { error } = await supabase
         .from('product_variants')
         .update({ stock: newStock })
         .eq('id', variantId);
 
       if (error) throw error;
 
+      if (newStock > 0) {
+        sendBackInStockNotifications().catch(error => console.error('Error sending back in stock notifications:', error));
+      }
+
       // Refresh products list
       await fetchData();
       setEditingStock(null);
@@ -807,7 +799,7 @@ const ProductsManagement = () => {
       const newStatus = !variant.is_active;
 
       // Update in database
-      const { error } = await supabaseAdmin
+      const { error } = await supabase
         .from('product_variants')
         .update({ is_active: newStatus })
         .eq('id', variantId);
@@ -870,18 +862,32 @@ const ProductsManagement = () => {
     setShowQuickView(true);
   };
 
+  const handleExportCsv = async () => {
+    setExporting(true);
+    try {
+      const count = await exportProductsCsv();
+      showSuccessToast(`Exported ${count} rows`);
+    } catch (error: any) {
+      console.error('Error exporting products:', error);
+      showErrorToast(error.message || 'Failed to export products');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const handleImported = () => {
+    fetchData();
+    // Imported stock may bring sold-out variants back
+    sendBackInStockNotifications().catch(error => console.error('Error sending back in stock notifications:', error));
+  };
+
   const fetchDeletedProducts = async () => {
     try {
       if (!user) {
         throw new Error('User not authenticated');
       }
 
-      const isAdmin = await isUserAdmin(user.id);
-      if (!isAdmin) {
-        throw new Error('Access denied: Admin privileges required');
-      }
-
-      const { data, error } = await supabaseAdmin
+      const { data, error } = await supabase
         .from('products')
         .select(`
           *,
@@ -920,12 +926,7 @@ const ProductsManagement = () => {
         throw new Error('User not authenticated');
       }
 
-      const isAdmin = await isUserAdmin(user.id);
-      if (!isAdmin) {
-        throw new Error('Access denied: Admin privileges required');
-      }
-
-      const { error } = await supabaseAdmin
+      const { error } = await supabase
         .from('products')
         .update({
           deleted_at: null,
@@ -986,6 +987,23 @@ const ProductsManagement = () => {
           </div>
 
           <div className="flex space-x-3">
+            <Button
+              onClick={handleExportCsv}
+              loading={exporting}
+              variant="outline"
+              className="border-[rgb(51,51,51)] text-white hover:bg-white hover:text-black"
+            >
+              <Download className="w-4 h-4 mr-2" />
+              Export CSV
+            </Button>
+            <Button
+              onClick={() => setShowImportModal(true)}
+              variant="outline"
+              className="border-[rgb(51,51,51)] text-white hover:bg-white hover:text-black"
+            >
+              <Upload className="w-4 h-4 mr-2" />
+              Import CSV
+            </Button>
             <Button
               onClick={fetchDeletedProducts}
               variant="outline"
@@ -1353,9 +1371,9 @@ const ProductsManagement = () => {
                           className="w-full px-4 py-2.5 bg-black text-white border border-[rgb(51,51,51)] rounded-lg hover:border-[rgb(94,94,94)] focus:outline-none focus:border-white"
                         >
                           <option value="" className="bg-black">Select Category</option>
-                          {categories.map(category => (
+                          {flattenCategoryTree(buildCategoryTree(categories)).map(category => (
                             <option key={category.id} value={category.id} className="bg-black">
-                              {category.name}
+                              {'\u00A0\u00A0'.repeat(category.depth)}{category.name}
                             </option>
                           ))}
                         </select>
@@ -1379,6 +1397,23 @@ const ProductsManagement = () => {
                       </div>
                     </div>
 
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                      <div>
+                        <Input
+                          label="Shipping Weight (kg)"
+                          variant="dark"
+                          type="number"
+                          step="0.001"
+                          min="0"
+                          value={formData.weight_kg}
+                          onChange={(e) => setFormData({ ...formData, weight_kg: e.target.value })}
+                        />
+                        <p className="text-xs text-[rgb(94,94,94)] mt-1">
+                          Used by weight-based shipping rates
+                        </p>
+                      </div>
+                    </div>
+
                     <div className="flex items-center space-x-4">
                       <label className="flex items-center">
                         <input
@@ -2472,6 +2507,12 @@ const ProductsManagement = () => {
             </div>
           </div>
         )}
+
+        <ProductImportModal
+          isOpen={showImportModal}
+          onClose={() => setShowImportModal(false)}
+          onImported={handleImported}
+        />
       </div>
     </AdminLayout>
   );
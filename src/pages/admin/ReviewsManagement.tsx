@@ -0,0 +1,405 @@
+import { useCallback, useState, useEffect } from 'react';
+import { Eye, CheckCircle, Clock, XCircle, LayoutDashboard, Search, Star, BadgeCheck } from 'lucide-react';
+import AdminLayout from '../../components/admin/AdminLayout';
+import { useAuth } from '../../hooks/useAuth';
+import Breadcrumb from '../../components/ui/Breadcrumb';
+import { showSuccessToast, showErrorToast } from '../../components/ui/CustomToast';
+import { fetchReviewsForModeration, moderateReview, replyToReview } from '../../services/reviewService';
+import { AdminReview, ReviewStatus } from '../../types/review';
+
+const ReviewsManagement = () => {
+  const { user } = useAuth();
+  const [reviews, setReviews] = useState<AdminReview[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [statusFilter, setStatusFilter] = useState<string>('pending');
+  const [selectedReview, setSelectedReview] = useState<AdminReview | null>(null);
+  const [replyText, setReplyText] = useState('');
+  const [savingReply, setSavingReply] = useState(false);
+
+  const fetchReviews = useCallback(async () => {
+    try {
+      setReviews(await fetchReviewsForModeration());
+    } catch (error) {
+      console.error('Error fetching reviews:', error);
+      showErrorToast('Failed to fetch reviews');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (user) {
+      fetchReviews();
+    }
+  }, [user, fetchReviews]);
+
+  const openReview = (review: AdminReview) => {
+    setSelectedReview(review);
+    setReplyText(review.admin_reply || '');
+  };
+
+  const updateReviewStatus = async (reviewId: string, status: ReviewStatus) => {
+    try {
+      await moderateReview(reviewId, status);
+
+      setReviews(prev =>
+        prev.map(review =>
+          review.id === reviewId ? { ...review, status } : review
+        )
+      );
+      setSelectedReview(prev => prev && prev.id === reviewId ? { ...prev, status } : prev);
+
+      showSuccessToast(status === 'approved' ? 'Review approved' : 'Review rejected');
+    } catch (error) {
+      console.error('Error updating review status:', error);
+      showErrorToast('Failed to update review status');
+    }
+  };
+
+  const saveReply = async () => {
+    if (!selectedReview) return;
+
+    setSavingReply(true);
+    try {
+      await replyToReview(selectedReview.id, replyText);
+
+      const admin_reply = replyText.trim() || null;
+      setReviews(prev =>
+        prev.map(review =>
+          review.id === selectedReview.id ? { ...review, admin_reply } : review
+        )
+      );
+      setSelectedReview({ ...selectedReview, admin_reply });
+
+      showSuccessToast(admin_reply ? 'Reply saved' : 'Reply removed');
+    } catch (error) {
+      console.error('Error saving reply:', error);
+      showErrorToast('Failed to save reply');
+    } finally {
+      setSavingReply(false);
+    }
+  };
+
+  const getStatusColor = (status: ReviewStatus) => {
+    switch (status) {
+      case 'pending':
+        return 'text-yellow-400 bg-yellow-400/10';
+      case 'approved':
+        return 'text-green-400 bg-green-400/10';
+      case 'rejected':
+        return 'text-red-400 bg-red-400/10';
+      default:
+        return 'text-gray-400 bg-gray-400/10';
+    }
+  };
+
+  const getStatusIcon = (status: ReviewStatus) => {
+    switch (status) {
+      case 'pending':
+        return <Clock size={16} />;
+      case 'approved':
+        return <CheckCircle size={16} />;
+      case 'rejected':
+        return <XCircle size={16} />;
+      default:
+        return <Clock size={16} />;
+    }
+  };
+
+  const renderStars = (rating: number) => (
+    <div className="flex">
+      {[1, 2, 3, 4, 5].map(star => (
+        <Star
+          key={star}
+          size={14}
+          className={star <= rating ? 'text-yellow-400' : 'text-[rgb(51,51,51)]'}
+          fill={star <= rating ? 'currentColor' : 'none'}
+        />
+      ))}
+    </div>
+  );
+
+  const filteredReviews = reviews.filter(review => {
+    const term = searchTerm.toLowerCase();
+    const matchesSearch = (review.products?.title || '').toLowerCase().includes(term) ||
+                         (review.profiles?.email || '').toLowerCase().includes(term) ||
+                         (review.title || '').toLowerCase().includes(term);
+    const matchesStatus = statusFilter === 'all' || review.status === statusFilter;
+    return matchesSearch && matchesStatus;
+  });
+
+  const getStats = () => {
+    return {
+      total: reviews.length,
+      pending: reviews.filter(r => r.status === 'pending').length,
+      approved: reviews.filter(r => r.status === 'approved').length,
+      rejected: reviews.filter(r => r.status === 'rejected').length
+    };
+  };
+
+  if (loading) {
+    return (
+      <AdminLayout>
+        <div className="flex items-center justify-center h-64">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-white"></div>
+        </div>
+      </AdminLayout>
+    );
+  }
+
+  const breadcrumbItems = [
+    {
+      label: 'Admin',
+      path: '/admin',
+      icon: <LayoutDashboard size={16} />
+    },
+    {
+      label: 'Reviews'
+    }
+  ];
+
+  const stats = getStats();
+
+  return (
+    <AdminLayout>
+      <div className="space-y-6">
+        {/* Breadcrumb */}
+        <Breadcrumb items={breadcrumbItems} variant="white" />
+
+        {/* Header */}
+        <div>
+          <h1 className="text-2xl font-bold text-white mb-2">Reviews</h1>
+          <p className="text-[rgb(94,94,94)]">Moderate and reply to customer product reviews</p>
+        </div>
+
+        {/* Stats Cards */}
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <div className="bg-black border border-[rgb(51,51,51)] rounded-lg p-4">
+            <p className="text-[rgb(94,94,94)] text-sm">Total Reviews</p>
+            <p className="text-xl font-bold text-white">{stats.total}</p>
+          </div>
+          <div className="bg-black border border-[rgb(51,51,51)] rounded-lg p-4">
+            <p className="text-[rgb(94,94,94)] text-sm">Pending</p>
+            <p className="text-xl font-bold text-yellow-400">{stats.pending}</p>
+          </div>
+          <div className="bg-black border border-[rgb(51,51,51)] rounded-lg p-4">
+            <p className="text-[rgb(94,94,94)] text-sm">Approved</p>
+            <p className="text-xl font-bold text-green-400">{stats.approved}</p>
+          </div>
+          <div className="bg-black border border-[rgb(51,51,51)] rounded-lg p-4">
+            <p className="text-[rgb(94,94,94)] text-sm">Rejected</p>
+            <p className="text-xl font-bold text-red-400">{stats.rejected}</p>
+          </div>
+        </div>
+
+        {/* Filters */}
+        <div className="flex flex-col sm:flex-row gap-4">
+          <div className="relative flex-1">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-[rgb(94,94,94)] w-4 h-4" />
+            <input
+              type="text"
+              placeholder="Search by product, email, or title..."
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              className="w-full pl-10 pr-4 py-2 bg-black border border-[rgb(51,51,51)] text-white placeholder:text-[rgb(94,94,94)] focus:outline-none focus:ring-1 focus:ring-white"
+            />
+          </div>
+          <select
+            value={statusFilter}
+            onChange={(e) => setStatusFilter(e.target.value)}
+            className="px-3 py-2 bg-black border border-[rgb(51,51,51)] text-white focus:outline-none focus:ring-1 focus:ring-white"
+          >
+            <option value="all">All Status</option>
+            <option value="pending">Pending</option>
+            <option value="approved">Approved</option>
+            <option value="rejected">Rejected</option>
+          </select>
+        </div>
+
+        {/* Reviews Table */}
+        <div className="bg-black border border-[rgb(51,51,51)] rounded-lg overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-[rgb(25,25,25)]">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-[rgb(94,94,94)] uppercase tracking-wider">
+                    Product
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-[rgb(94,94,94)] uppercase tracking-wider">
+                    Customer
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-[rgb(94,94,94)] uppercase tracking-wider">
+                    Rating
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-[rgb(94,94,94)] uppercase tracking-wider">
+                    Status
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-[rgb(94,94,94)] uppercase tracking-wider">
+                    Date
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-[rgb(94,94,94)] uppercase tracking-wider">
+                    Actions
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-[rgb(51,51,51)]">
+                {filteredReviews.map((review) => (
+                  <tr key={review.id} className="hover:bg-[rgb(25,25,25)]">
+                    <td className="px-6 py-4">
+                      <div className="text-sm font-medium text-white max-w-xs truncate">{review.products?.title}</div>
+                      {review.title && (
+                        <div className="text-sm text-[rgb(94,94,94)] max-w-xs truncate">{review.title}</div>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="text-sm text-white">{review.profiles?.full_name || review.reviewer_name}</div>
+                      <div className="text-sm text-[rgb(94,94,94)]">{review.profiles?.email}</div>
+                      {review.is_verified_purchase && (
+                        <div className="text-xs text-green-400 flex items-center mt-1">
+                          <BadgeCheck size={12} className="mr-1" />
+                          Verified purchase
+                        </div>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      {renderStars(review.rating)}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <span className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ${getStatusColor(review.status)}`}>
+                        {getStatusIcon(review.status)}
+                        <span className="ml-1 capitalize">{review.status}</span>
+                      </span>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-[rgb(94,94,94)]">
+                      {new Date(review.created_at).toLocaleDateString()}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm">
+                      <button
+                        onClick={() => openReview(review)}
+                        className="text-blue-400 hover:text-blue-300 flex items-center mr-3"
+                      >
+                        <Eye className="w-4 h-4 mr-1" />
+                        View
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {filteredReviews.length === 0 && (
+            <div className="px-6 py-8 text-center text-[rgb(94,94,94)]">
+              No reviews found
+            </div>
+          )}
+        </div>
+
+        {/* Review Detail Modal */}
+        {selectedReview && (
+          <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+            <div className="bg-black border border-[rgb(51,51,51)] rounded-lg max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+              <div className="p-6 border-b border-[rgb(51,51,51)] flex justify-between items-center">
+                <h3 className="text-lg font-semibold text-white">Review Details</h3>
+                <button
+                  onClick={() => setSelectedReview(null)}
+                  className="text-[rgb(94,94,94)] hover:text-white"
+                >
+                  <XCircle size={20} />
+                </button>
+              </div>
+
+              <div className="p-6 space-y-4">
+                <div>
+                  <label className="block text-sm font-medium text-[rgb(94,94,94)] mb-1">Product</label>
+                  <p className="text-white">{selectedReview.products?.title}</p>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-[rgb(94,94,94)] mb-1">Customer</label>
+                  <p className="text-white">
+                    {selectedReview.profiles?.full_name || selectedReview.reviewer_name} ({selectedReview.profiles?.email})
+                  </p>
+                  <p className="text-xs text-[rgb(94,94,94)] mt-1">
+                    Shown publicly as {selectedReview.reviewer_name || 'Customer'}
+                    {selectedReview.is_verified_purchase && ' • Verified purchase'}
+                  </p>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-[rgb(94,94,94)] mb-1">Rating</label>
+                  {renderStars(selectedReview.rating)}
+                </div>
+
+                {selectedReview.title && (
+                  <div>
+                    <label className="block text-sm font-medium text-[rgb(94,94,94)] mb-1">Title</label>
+                    <p className="text-white">{selectedReview.title}</p>
+                  </div>
+                )}
+
+                <div>
+                  <label className="block text-sm font-medium text-[rgb(94,94,94)] mb-1">Review</label>
+                  <div className="bg-[rgb(25,25,25)] border border-[rgb(51,51,51)] rounded p-3">
+                    <p className="text-white whitespace-pre-wrap">{selectedReview.content || 'No written review'}</p>
+                  </div>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-[rgb(94,94,94)] mb-1">Current Status</label>
+                  <span className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ${getStatusColor(selectedReview.status)}`}>
+                    {getStatusIcon(selectedReview.status)}
+                    <span className="ml-1 capitalize">{selectedReview.status}</span>
+                  </span>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-[rgb(94,94,94)] mb-1">Public Reply</label>
+                  <textarea
+                    rows={3}
+                    value={replyText}
+                    onChange={(e) => setReplyText(e.target.value)}
+                    placeholder="Reply to this review as Kixora..."
+                    className="w-full px-3 py-2 bg-black border border-[rgb(51,51,51)] text-white placeholder:text-[rgb(94,94,94)] focus:outline-none focus:ring-1 focus:ring-white"
+                  />
+                  <button
+                    onClick={saveReply}
+                    disabled={savingReply || replyText.trim() === (selectedReview.admin_reply || '')}
+                    className="mt-2 px-3 py-1 bg-blue-600 text-white rounded text-sm hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {savingReply ? 'Saving...' : 'Save Reply'}
+                  </button>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-[rgb(94,94,94)] mb-1">Submitted</label>
+                  <p className="text-white">{new Date(selectedReview.created_at).toLocaleString()}</p>
+                </div>
+              </div>
+
+              <div className="p-6 border-t border-[rgb(51,51,51)] flex flex-wrap gap-2">
+                <button
+                  onClick={() => updateReviewStatus(selectedReview.id, 'approved')}
+                  disabled={selectedReview.status === 'approved'}
+                  className="px-3 py-1 bg-green-600 text-white rounded text-sm hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Approve
+                </button>
+                <button
+                  onClick={() => updateReviewStatus(selectedReview.id, 'rejected')}
+                  disabled={selectedReview.status === 'rejected'}
+                  className="px-3 py-1 bg-red-600 text-white rounded text-sm hover:bg-red-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Reject
+                </button>
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+    </AdminLayout>
+  );
+};
+
+export default ReviewsManagement;
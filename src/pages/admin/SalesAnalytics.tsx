@@ -0,0 +1,463 @@
+import { ReactNode, useCallback, useEffect, useMemo, useState } from 'react';
+import { BarChart3, Download, LayoutDashboard } from 'lucide-react';
+import AdminLayout from '../../components/admin/AdminLayout';
+import Breadcrumb from '../../components/ui/Breadcrumb';
+import { showErrorToast } from '../../components/ui/CustomToast';
+import {
+  fetchCustomerCohorts,
+  fetchProductRanking,
+  fetchSalesBreakdown,
+  fetchSalesSummary,
+  fetchSalesTimeseries
+} from '../../services/analyticsService';
+import {
+  AnalyticsInterval,
+  AnalyticsRange,
+  CustomerCohortCell,
+  ProductSalesRow,
+  SalesBreakdownRow,
+  SalesDimension,
+  SalesSummary,
+  SalesTimeseriesPoint
+} from '../../types/analytics';
+import { downloadCsv } from '../../utils/csv';
+
+type TimeseriesMetric = 'revenue' | 'net_revenue' | 'order_count' | 'unit_count' | 'average_order_value';
+
+const METRIC_LABELS: Record<TimeseriesMetric, string> = {
+  revenue: 'Paid revenue',
+  net_revenue: 'Net revenue',
+  order_count: 'Orders',
+  unit_count: 'Units',
+  average_order_value: 'Average order value',
+};
+
+const DIMENSION_LABELS: Record<SalesDimension, string> = {
+  category: 'Category',
+  collection: 'Collection',
+  size: 'Size',
+  color: 'Colour',
+  payment_method: 'Payment method',
+  shipping_method: 'Shipping method',
+};
+
+const PRESETS = [
+  { label: '7 days', days: 7 },
+  { label: '30 days', days: 30 },
+  { label: '90 days', days: 90 },
+  { label: '12 months', days: 365 },
+];
+
+const COHORT_MONTHS = 6;
+
+// YYYY-MM-DD in the browser's time zone, for date inputs
+const toDateInput = (date: Date) => {
+  const offset = date.getTimezoneOffset() * 60000;
+  return new Date(date.getTime() - offset).toISOString().slice(0, 10);
+};
+
+const daysAgo = (days: number) => toDateInput(new Date(Date.now() - (days - 1) * 24 * 3600 * 1000));
+
+const formatMoney = (value: number) => `LKR ${Number(value).toLocaleString(undefined, { maximumFractionDigits: 0 })}`;
+const formatPercent = (value: number) => `${(Number(value) * 100).toFixed(1)}%`;
+
+const selectClassName = 'px-3 py-2 bg-black text-white border border-[rgb(51,51,51)] rounded-lg hover:border-[rgb(94,94,94)] focus:outline-none focus:border-white text-sm';
+
+const SectionHeader = ({ title, onExport, children }: {
+  title: string;
+  onExport: () => void;
+  children?: ReactNode;
+}) => (
+  <div className="flex flex-wrap items-center justify-between gap-3 px-6 py-4 border-b border-[rgb(51,51,51)]">
+    <h3 className="text-lg font-semibold text-white">{title}</h3>
+    <div className="flex items-center gap-3">
+      {children}
+      <button
+        onClick={onExport}
+        className="flex items-center text-sm text-blue-400 hover:text-blue-300"
+      >
+        <Download className="w-4 h-4 mr-1" />
+        CSV
+      </button>
+    </div>
+  </div>
+);
+
+const SalesAnalytics = () => {
+  const [range, setRange] = useState<AnalyticsRange>({ from: daysAgo(30), to: toDateInput(new Date()) });
+  const [groupBy, setGroupBy] = useState<AnalyticsInterval>('day');
+  const [metric, setMetric] = useState<TimeseriesMetric>('revenue');
+  const [dimension, setDimension] = useState<SalesDimension>('category');
+  const [summary, setSummary] = useState<SalesSummary | null>(null);
+  const [timeseries, setTimeseries] = useState<SalesTimeseriesPoint[]>([]);
+  const [breakdown, setBreakdown] = useState<SalesBreakdownRow[]>([]);
+  const [topProducts, setTopProducts] = useState<ProductSalesRow[]>([]);
+  const [slowProducts, setSlowProducts] = useState<ProductSalesRow[]>([]);
+  const [cohorts, setCohorts] = useState<CustomerCohortCell[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const loadReport = useCallback(async () => {
+    if (!range.from || !range.to || range.from > range.to) return;
+
+    setLoading(true);
+    try {
+      const [summaryData, timeseriesData, topData, slowData, cohortData] = await Promise.all([
+        fetchSalesSummary(range),
+        fetchSalesTimeseries(range, groupBy),
+        fetchProductRanking(range, 'top'),
+        fetchProductRanking(range, 'slowest'),
+        fetchCustomerCohorts(range),
+      ]);
+
+      setSummary(summaryData);
+      setTimeseries(timeseriesData);
+      setTopProducts(topData);
+      setSlowProducts(slowData);
+      setCohorts(cohortData);
+    } catch (error: any) {
+      console.error('Error fetching analytics:', error);
+      showErrorToast(error.message || 'Failed to load analytics');
+    } finally {
+      setLoading(false);
+    }
+  }, [range, groupBy]);
+
+  useEffect(() => {
+    loadReport();
+  }, [loadReport]);
+
+  useEffect(() => {
+    if (!range.from || !range.to || range.from > range.to) return;
+
+    fetchSalesBreakdown(range, dimension)
+      .then(setBreakdown)
+      .catch(error => {
+        console.error('Error fetching sales breakdown:', error);
+        showErrorToast('Failed to load sales breakdown');
+      });
+  }, [range, dimension]);
+
+  const maxMetric = useMemo(
+    () => Math.max(1, ...timeseries.map(point => Number(point[metric]))),
+    [timeseries, metric]
+  );
+  const breakdownTotal = breakdown.reduce((sum, row) => sum + Number(row.revenue), 0);
+
+  const cohortRows = useMemo(() => {
+    const rows: Record<string, number[]> = {};
+    cohorts.forEach(cell => {
+      if (!rows[cell.cohort]) rows[cell.cohort] = Array(COHORT_MONTHS).fill(0);
+      if (cell.months_since < COHORT_MONTHS) rows[cell.cohort][cell.months_since] = Number(cell.customers);
+    });
+    return Object.entries(rows);
+  }, [cohorts]);
+
+  const fileSuffix = `${range.from}_${range.to}`;
+
+  const exportSummary = () => {
+    if (!summary) return;
+    downloadCsv(`sales-summary_${fileSuffix}`, Object.entries(summary), [
+      { header: 'Metric', value: ([key]) => key },
+      { header: 'Value', value: ([, value]) => value },
+    ]);
+  };
+
+  const exportTimeseries = () => downloadCsv(`sales-by-${groupBy}_${fileSuffix}`, timeseries, [
+    { header: 'Period', value: point => point.period },
+    { header: 'Orders', value: point => point.order_count },
+    { header: 'Units', value: point => point.unit_count },
+    { header: 'Revenue', value: point => point.revenue },
+    { header: 'Refunded', value: point => point.refunded },
+    { header: 'Net revenue', value: point => point.net_revenue },
+    { header: 'Average order value', value: point => point.average_order_value },
+    { header: 'New customers', value: point => point.new_customers },
+    { header: 'Returning customers', value: point => point.returning_customers },
+  ]);
+
+  const exportBreakdown = () => downloadCsv(`sales-by-${dimension}_${fileSuffix}`, breakdown, [
+    { header: DIMENSION_LABELS[dimension], value: row => row.label },
+    { header: 'Orders', value: row => row.order_count },
+    { header: 'Units', value: row => row.unit_count },
+    { header: 'Revenue', value: row => row.revenue },
+  ]);
+
+  const exportProducts = (name: string, rows: ProductSalesRow[]) => downloadCsv(`${name}_${fileSuffix}`, rows, [
+    { header: 'Product', value: row => row.title },
+    { header: 'Units', value: row => row.unit_count },
+    { header: 'Revenue', value: row => row.revenue },
+    { header: 'Stock', value: row => row.stock },
+    { header: 'Last sold', value: row => row.last_sold_at },
+  ]);
+
+  const exportCohorts = () => downloadCsv(`customer-cohorts_${fileSuffix}`, cohorts, [
+    { header: 'Cohort', value: cell => cell.cohort },
+    { header: 'Months since first order', value: cell => cell.months_since },
+    { header: 'Customers', value: cell => cell.customers },
+  ]);
+
+  const breadcrumbItems = [
+    {
+      label: 'Admin',
+      path: '/admin',
+      icon: <LayoutDashboard size={16} />
+    },
+    {
+      label: 'Analytics',
+      icon: <BarChart3 size={16} />
+    }
+  ];
+
+  const summaryCards = summary ? [
+    { label: 'Paid Revenue', value: formatMoney(summary.revenue) },
+    { label: 'Net Revenue', value: formatMoney(summary.net_revenue), hint: `${formatMoney(summary.refunded)} refunded` },
+    { label: 'Paid Orders', value: Number(summary.order_count).toLocaleString(), hint: `${summary.placed_orders} placed` },
+    { label: 'Average Order', value: formatMoney(summary.average_order_value) },
+    { label: 'Units Sold', value: Number(summary.unit_count).toLocaleString() },
+    { label: 'Customers', value: `${summary.new_customers} new`, hint: `${summary.returning_customers} returning` },
+    { label: 'Refund Rate', value: formatPercent(summary.refund_rate), hint: `${summary.refunded_orders} orders` },
+    { label: 'Cancellation Rate', value: formatPercent(summary.cancellation_rate), hint: `${summary.cancelled_orders} orders` },
+  ] : [];
+
+  const renderProductTable = (title: string, rows: ProductSalesRow[], exportName: string) => (
+    <div className="bg-black border border-[rgb(51,51,51)] rounded-lg">
+      <SectionHeader title={title} onExport={() => exportProducts(exportName, rows)} />
+      <table className="w-full">
+        <thead className="bg-[rgb(25,25,25)]">
+          <tr>
+            <th className="px-6 py-3 text-left text-xs font-medium text-[rgb(94,94,94)] uppercase tracking-wider">Product</th>
+            <th className="px-6 py-3 text-right text-xs font-medium text-[rgb(94,94,94)] uppercase tracking-wider">Units</th>
+            <th className="px-6 py-3 text-right text-xs font-medium text-[rgb(94,94,94)] uppercase tracking-wider">Revenue</th>
+            <th className="px-6 py-3 text-right text-xs font-medium text-[rgb(94,94,94)] uppercase tracking-wider">Stock</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-[rgb(51,51,51)]">
+          {rows.map(row => (
+            <tr key={row.product_id}>
+              <td className="px-6 py-3 text-sm text-white">
+                {row.title}
+                <div className="text-xs text-[rgb(94,94,94)]">
+                  {row.last_sold_at ? `Last sold ${new Date(row.last_sold_at).toLocaleDateString()}` : 'Never sold'}
+                </div>
+              </td>
+              <td className="px-6 py-3 text-sm text-white text-right">{row.unit_count}</td>
+              <td className="px-6 py-3 text-sm text-white text-right">{formatMoney(row.revenue)}</td>
+              <td className="px-6 py-3 text-sm text-[rgb(94,94,94)] text-right">{row.stock}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      {rows.length === 0 && (
+        <div className="px-6 py-8 text-center text-[rgb(94,94,94)]">No sales in this period</div>
+      )}
+    </div>
+  );
+
+  return (
+    <AdminLayout>
+      <div className="space-y-6">
+        {/* Breadcrumb */}
+        <Breadcrumb items={breadcrumbItems} variant="white" />
+
+        {/* Header */}
+        <div className="flex flex-wrap items-end justify-between gap-4">
+          <div>
+            <h1 className="text-2xl font-bold text-white mb-2">Sales Analytics</h1>
+            <p className="text-[rgb(94,94,94)]">Paid orders only; refunds are counted when they are paid out</p>
+          </div>
+          <button
+            onClick={exportSummary}
+            disabled={!summary}
+            className="flex items-center text-sm text-blue-400 hover:text-blue-300"
+          >
+            <Download className="w-4 h-4 mr-1" />
+            Export summary
+          </button>
+        </div>
+
+        {/* Range */}
+        <div className="bg-black border border-[rgb(51,51,51)] rounded-lg p-4 flex flex-wrap items-end gap-4">
+          <div>
+            <label className="block text-sm font-medium text-[rgb(94,94,94)] mb-2">From</label>
+            <input
+              type="date"
+              value={range.from}
+              max={range.to}
+              onChange={(e) => setRange({ ...range, from: e.target.value })}
+              className={selectClassName}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-[rgb(94,94,94)] mb-2">To</label>
+            <input
+              type="date"
+              value={range.to}
+              min={range.from}
+              onChange={(e) => setRange({ ...range, to: e.target.value })}
+              className={selectClassName}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-[rgb(94,94,94)] mb-2">Group by</label>
+            <select
+              value={groupBy}
+              onChange={(e) => setGroupBy(e.target.value as AnalyticsInterval)}
+              className={selectClassName}
+            >
+              <option value="day" className="bg-black">Day</option>
+              <option value="week" className="bg-black">Week</option>
+              <option value="month" className="bg-black">Month</option>
+            </select>
+          </div>
+          <div className="flex gap-2">
+            {PRESETS.map(preset => (
+              <button
+                key={preset.days}
+                onClick={() => setRange({ from: daysAgo(preset.days), to: toDateInput(new Date()) })}
+                className="px-3 py-2 text-sm text-white border border-[rgb(51,51,51)] rounded-lg hover:border-white"
+              >
+                {preset.label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {loading && !summary ? (
+          <div className="flex items-center justify-center h-64">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-white"></div>
+          </div>
+        ) : (
+          <>
+            {/* Summary */}
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+              {summaryCards.map(card => (
+                <div key={card.label} className="bg-black border border-[rgb(51,51,51)] rounded-lg p-6">
+                  <p className="text-[rgb(94,94,94)] text-sm">{card.label}</p>
+                  <p className="text-2xl font-bold text-white">{card.value}</p>
+                  {card.hint && <p className="text-xs text-[rgb(94,94,94)] mt-1">{card.hint}</p>}
+                </div>
+              ))}
+            </div>
+
+            {/* Time series */}
+            <div className="bg-black border border-[rgb(51,51,51)] rounded-lg">
+              <SectionHeader title="Sales Over Time" onExport={exportTimeseries}>
+                <select
+                  value={metric}
+                  onChange={(e) => setMetric(e.target.value as TimeseriesMetric)}
+                  className={selectClassName}
+                >
+                  {Object.entries(METRIC_LABELS).map(([value, label]) => (
+                    <option key={value} value={value} className="bg-black">{label}</option>
+                  ))}
+                </select>
+              </SectionHeader>
+              <div className="p-6">
+                <div className="flex items-end gap-1 h-48">
+                  {timeseries.map(point => {
+                    const value = Number(point[metric]);
+                    return (
+                      <div
+                        key={point.period}
+                        className="flex-1 bg-white/80 hover:bg-white rounded-t min-h-[1px]"
+                        style={{ height: `${(value / maxMetric) * 100}%` }}
+                        title={`${point.period}: ${metric === 'order_count' || metric === 'unit_count'
+                          ? value.toLocaleString()
+                          : formatMoney(value)}`}
+                      />
+                    );
+                  })}
+                </div>
+                {timeseries.length > 0 && (
+                  <div className="flex justify-between text-xs text-[rgb(94,94,94)] mt-2">
+                    <span>{timeseries[0].period}</span>
+                    <span>{timeseries[timeseries.length - 1].period}</span>
+                  </div>
+                )}
+              </div>
+            </div>
+
+            {/* Breakdown */}
+            <div className="bg-black border border-[rgb(51,51,51)] rounded-lg">
+              <SectionHeader title="Sales Breakdown" onExport={exportBreakdown}>
+                <select
+                  value={dimension}
+                  onChange={(e) => setDimension(e.target.value as SalesDimension)}
+                  className={selectClassName}
+                >
+                  {Object.entries(DIMENSION_LABELS).map(([value, label]) => (
+                    <option key={value} value={value} className="bg-black">{label}</option>
+                  ))}
+                </select>
+              </SectionHeader>
+              <div className="p-6 space-y-3">
+                {breakdown.map(row => (
+                  <div key={row.label}>
+                    <div className="flex justify-between text-sm mb-1">
+                      <span className="text-white capitalize">{row.label}</span>
+                      <span className="text-[rgb(94,94,94)]">
+                        {row.order_count} orders · {row.unit_count} units · <span className="text-white">{formatMoney(row.revenue)}</span>
+                      </span>
+                    </div>
+                    <div className="h-2 bg-[rgb(25,25,25)] rounded">
+                      <div
+                        className="h-2 bg-white rounded"
+                        style={{ width: `${breakdownTotal > 0 ? (Number(row.revenue) / breakdownTotal) * 100 : 0}%` }}
+                      />
+                    </div>
+                  </div>
+                ))}
+                {breakdown.length === 0 && (
+                  <p className="text-center text-[rgb(94,94,94)]">No sales in this period</p>
+                )}
+              </div>
+            </div>
+
+            {/* Products */}
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              {renderProductTable('Top Sellers', topProducts, 'top-sellers')}
+              {renderProductTable('Slowest Moving', slowProducts, 'slowest-moving')}
+            </div>
+
+            {/* Cohorts */}
+            <div className="bg-black border border-[rgb(51,51,51)] rounded-lg">
+              <SectionHeader title="Customer Cohorts" onExport={exportCohorts} />
+              <div className="overflow-x-auto">
+                <table className="w-full">
+                  <thead className="bg-[rgb(25,25,25)]">
+                    <tr>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-[rgb(94,94,94)] uppercase tracking-wider">First order</th>
+                      {Array.from({ length: COHORT_MONTHS }, (_, month) => (
+                        <th key={month} className="px-6 py-3 text-right text-xs font-medium text-[rgb(94,94,94)] uppercase tracking-wider">
+                          {month === 0 ? 'Customers' : `Month ${month}`}
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-[rgb(51,51,51)]">
+                    {cohortRows.map(([cohort, counts]) => (
+                      <tr key={cohort}>
+                        <td className="px-6 py-3 text-sm text-white">
+                          {new Date(`${cohort}T00:00:00`).toLocaleDateString(undefined, { year: 'numeric', month: 'short' })}
+                        </td>
+                        {counts.map((count, month) => (
+                          <td key={month} className="px-6 py-3 text-sm text-right text-white">
+                            {month === 0 ? count : count > 0 ? `${count} (${formatPercent(count / counts[0])})` : '–'}
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                {cohortRows.length === 0 && (
+                  <div className="px-6 py-8 text-center text-[rgb(94,94,94)]">No first-time customers in this period</div>
+                )}
+              </div>
+            </div>
+          </>
+        )}
+      </div>
+    </AdminLayout>
+  );
+};
+
+export default SalesAnalytics;
@@ -0,0 +1,782 @@
+import { useState, useEffect } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Plus, Edit, Trash2, Eye, EyeOff, Globe, MapPin, Truck } from 'lucide-react';
+import { supabase } from '../../lib/supabase';
+import AdminLayout from '../../components/admin/AdminLayout';
+import Button from '../../components/ui/Button';
+import Breadcrumb from '../../components/ui/Breadcrumb';
+import { showSuccessToast, showErrorToast } from '../../components/ui/CustomToast';
+import { SubmitHandler, useForm } from 'react-hook-form';
+import { yupResolver } from '@hookform/resolvers/yup';
+import * as yup from 'yup';
+import { ShippingMethod, ShippingRateType, ShippingZoneWithMethods } from '../../types/shipping';
+import { SRI_LANKA_PROVINCES } from '../../utils/sriLankaRegions';
+import CouriersPanel from '../../components/admin/CouriersPanel';
+
+const zoneSchema = yup.object({
+  name: yup.string().required('Name is required'),
+  is_international: yup.boolean(),
+  free_shipping_threshold: yup.string().nullable(),
+  sort_order: yup.number().typeError('Sort order must be a number').required(),
+  is_active: yup.boolean(),
+});
+
+const methodSchema = yup.object({
+  code: yup
+    .string()
+    .required('Code is required')
+    .matches(/^[a-z0-9_]+$/, 'Use lowercase letters, numbers and underscores'),
+  name: yup.string().required('Name is required'),
+  description: yup.string().nullable(),
+  rate_type: yup.string().oneOf(['flat', 'weight', 'quantity']).required(),
+  base_rate: yup.number().typeError('Base rate must be a number').min(0).required('Base rate is required'),
+  unit_rate: yup.number().typeError('Unit rate must be a number').min(0).required(),
+  min_days: yup.number().typeError('Must be a number').min(0).required(),
+  max_days: yup
+    .number()
+    .typeError('Must be a number')
+    .min(yup.ref('min_days'), 'Must be at least the minimum days')
+    .required(),
+  sort_order: yup.number().typeError('Sort order must be a number').required(),
+  is_active: yup.boolean(),
+});
+
+type ZoneFormValues = yup.InferType<typeof zoneSchema>;
+type MethodFormValues = yup.InferType<typeof methodSchema>;
+
+const defaultZoneValues = {
+  name: '',
+  is_international: false,
+  free_shipping_threshold: '',
+  sort_order: 0,
+  is_active: true,
+};
+
+const defaultMethodValues = {
+  code: 'standard',
+  name: '',
+  description: '',
+  rate_type: 'flat' as ShippingRateType,
+  base_rate: 0,
+  unit_rate: 0,
+  min_days: 2,
+  max_days: 4,
+  sort_order: 0,
+  is_active: true,
+};
+
+const rateTypeLabels: Record<ShippingRateType, string> = {
+  flat: 'Flat rate',
+  weight: 'By weight',
+  quantity: 'By quantity',
+};
+
+const ShippingManagement = () => {
+  const [zones, setZones] = useState<ShippingZoneWithMethods[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showZoneModal, setShowZoneModal] = useState(false);
+  const [editingZone, setEditingZone] = useState<ShippingZoneWithMethods | null>(null);
+  const [zoneProvinces, setZoneProvinces] = useState<string[]>([]);
+  const [zoneDistricts, setZoneDistricts] = useState<string[]>([]);
+  const [showMethodModal, setShowMethodModal] = useState(false);
+  const [methodZoneId, setMethodZoneId] = useState<string | null>(null);
+  const [editingMethod, setEditingMethod] = useState<ShippingMethod | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const zoneForm = useForm({
+    resolver: yupResolver(zoneSchema),
+    defaultValues: defaultZoneValues,
+  });
+
+  const methodForm = useForm({
+    resolver: yupResolver(methodSchema),
+    defaultValues: defaultMethodValues,
+  });
+
+  const isInternational = zoneForm.watch('is_international');
+  const rateType = methodForm.watch('rate_type');
+
+  const fetchZones = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('shipping_zones')
+        .select('*, shipping_methods(*)')
+        .order('sort_order')
+        .order('sort_order', { referencedTable: 'shipping_methods' });
+
+      if (error) throw error;
+      setZones((data as ShippingZoneWithMethods[]) || []);
+    } catch (error: any) {
+      showErrorToast(error.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchZones();
+  }, []);
+
+  const openZoneModal = (zone?: ShippingZoneWithMethods) => {
+    setEditingZone(zone || null);
+    zoneForm.reset(zone ? {
+      name: zone.name,
+      is_international: zone.is_international,
+      free_shipping_threshold: zone.free_shipping_threshold?.toString() || '',
+      sort_order: zone.sort_order,
+      is_active: zone.is_active,
+    } : defaultZoneValues);
+    setZoneProvinces(zone?.provinces || []);
+    setZoneDistricts(zone?.districts || []);
+    setShowZoneModal(true);
+  };
+
+  const openMethodModal = (zoneId: string, method?: ShippingMethod) => {
+    setMethodZoneId(zoneId);
+    setEditingMethod(method || null);
+    methodForm.reset(method ? {
+      code: method.code,
+      name: method.name,
+      description: method.description || '',
+      rate_type: method.rate_type,
+      base_rate: method.base_rate,
+      unit_rate: method.unit_rate,
+      min_days: method.min_days,
+      max_days: method.max_days,
+      sort_order: method.sort_order,
+      is_active: method.is_active,
+    } : defaultMethodValues);
+    setShowMethodModal(true);
+  };
+
+  const toggleListValue = (values: string[], value: string) => {
+    return values.includes(value) ? values.filter(existing => existing !== value) : [...values, value];
+  };
+
+  const onSubmitZone: SubmitHandler<ZoneFormValues> = async (data) => {
+    setSubmitting(true);
+    try {
+      const zoneData = {
+        name: data.name,
+        is_international: data.is_international,
+        // International zones are the fallback for every other country
+        provinces: data.is_international ? [] : zoneProvinces,
+        districts: data.is_international ? [] : zoneDistricts,
+        free_shipping_threshold: data.free_shipping_threshold
+          ? parseFloat(data.free_shipping_threshold)
+          : null,
+        sort_order: data.sort_order,
+        is_active: data.is_active,
+      };
+
+      if (editingZone) {
+        const { error } = await supabase
+          .from('shipping_zones')
+          .update(zoneData)
+          .eq('id', editingZone.id);
+
+        if (error) throw error;
+        showSuccessToast('Shipping zone updated successfully');
+      } else {
+        const { error } = await supabase
+          .from('shipping_zones')
+          .insert(zoneData);
+
+        if (error) throw error;
+        showSuccessToast('Shipping zone created successfully');
+      }
+
+      setShowZoneModal(false);
+      fetchZones();
+    } catch (error: any) {
+      showErrorToast(error.message);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const onSubmitMethod: SubmitHandler<MethodFormValues> = async (data) => {
+    if (!methodZoneId) return;
+
+    setSubmitting(true);
+    try {
+      const methodData = {
+        zone_id: methodZoneId,
+        code: data.code,
+        name: data.name,
+        description: data.description || null,
+        rate_type: data.rate_type,
+        base_rate: data.base_rate,
+        unit_rate: data.rate_type === 'flat' ? 0 : data.unit_rate,
+        min_days: data.min_days,
+        max_days: data.max_days,
+        sort_order: data.sort_order,
+        is_active: data.is_active,
+      };
+
+      if (editingMethod) {
+        const { error } = await supabase
+          .from('shipping_methods')
+          .update(methodData)
+          .eq('id', editingMethod.id);
+
+        if (error) throw error;
+        showSuccessToast('Shipping method updated successfully');
+      } else {
+        const { error } = await supabase
+          .from('shipping_methods')
+          .insert(methodData);
+
+        if (error) throw error;
+        showSuccessToast('Shipping method created successfully');
+      }
+
+      setShowMethodModal(false);
+      fetchZones();
+    } catch (error: any) {
+      showErrorToast(error.code === '23505' ? 'This zone already has a method with that code' : error.message);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const toggleZoneActive = async (zone: ShippingZoneWithMethods) => {
+    try {
+      const { error } = await supabase
+        .from('shipping_zones')
+        .update({ is_active: !zone.is_active })
+        .eq('id', zone.id);
+
+      if (error) throw error;
+      showSuccessToast(`Shipping zone ${!zone.is_active ? 'activated' : 'deactivated'}`);
+      fetchZones();
+    } catch (error: any) {
+      showErrorToast(error.message);
+    }
+  };
+
+  const deleteZone = async (id: string) => {
+    if (!confirm('Are you sure you want to delete this shipping zone and its methods?')) return;
+
+    try {
+      const { error } = await supabase
+        .from('shipping_zones')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+      showSuccessToast('Shipping zone deleted successfully');
+      fetchZones();
+    } catch (error: any) {
+      showErrorToast(error.message);
+    }
+  };
+
+  const deleteMethod = async (id: string) => {
+    if (!confirm('Are you sure you want to delete this shipping method?')) return;
+
+    try {
+      const { error } = await supabase
+        .from('shipping_methods')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+      showSuccessToast('Shipping method deleted successfully');
+      fetchZones();
+    } catch (error: any) {
+      showErrorToast(error.message);
+    }
+  };
+
+  const formatCoverage = (zone: ShippingZoneWithMethods) => {
+    if (zone.is_international) return 'All countries outside Sri Lanka';
+    const areas = [...zone.provinces.map(province => `${province} Province`), ...zone.districts];
+    return areas.length ? areas.join(', ') : 'Rest of Sri Lanka';
+  };
+
+  const formatRate = (method: ShippingMethod) => {
+    const base = `LKR ${method.base_rate.toLocaleString()}`;
+    switch (method.rate_type) {
+      case 'weight':
+        return `${base} + LKR ${method.unit_rate.toLocaleString()} per extra kg`;
+      case 'quantity':
+        return `${base} + LKR ${method.unit_rate.toLocaleString()} per extra item`;
+      default:
+        return base;
+    }
+  };
+
+  const breadcrumbItems = [
+    {
+      href: '/admin/dashboard',
+      label: 'Dashboard'
+    },
+    {
+      label: 'Shipping'
+    }
+  ];
+
+  const inputClassName = 'w-full px-4 py-2.5 bg-black text-white border border-[rgb(51,51,51)] rounded-lg hover:border-[rgb(94,94,94)] focus:outline-none focus:border-white transition-colors';
+
+  if (loading) {
+    return (
+      <AdminLayout>
+        <div className="flex items-center justify-center h-64">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-white"></div>
+        </div>
+      </AdminLayout>
+    );
+  }
+
+  return (
+    <AdminLayout>
+      <div className="space-y-6">
+        {/* Breadcrumb */}
+        <Breadcrumb items={breadcrumbItems} variant="white" />
+
+        <div className="flex justify-between items-center">
+          <div>
+            <h1 className="text-2xl font-bold text-white">Shipping</h1>
+            <p className="text-white/60">Manage shipping zones, methods and rates</p>
+          </div>
+          <Button
+            onClick={() => openZoneModal()}
+            variant="outline"
+            className="border-[rgb(51,51,51)] text-white hover:bg-white hover:text-black"
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            Create Zone
+          </Button>
+        </div>
+
+      <div className="grid gap-4">
+        <AnimatePresence>
+          {zones.map((zone) => (
+            <motion.div
+              key={zone.id}
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              exit={{ opacity: 0, y: -20 }}
+              className="bg-[rgb(20,20,20)] border border-[rgb(51,51,51)] rounded-lg p-6"
+            >
+              <div className="flex items-start justify-between">
+                <div className="flex-1">
+                  <div className="flex items-center gap-3 mb-2">
+                    {zone.is_international ? (
+                      <Globe className="w-4 h-4 text-white/60" />
+                    ) : (
+                      <MapPin className="w-4 h-4 text-white/60" />
+                    )}
+                    <h3 className="text-lg font-semibold text-white">{zone.name}</h3>
+                    <span
+                      className={`px-2 py-1 rounded-full text-xs font-medium border ${
+                        zone.is_active
+                          ? 'bg-white/10 text-white border-white/20'
+                          : 'bg-black/50 text-white/60 border-white/10'
+                      }`}
+                    >
+                      {zone.is_active ? 'Active' : 'Inactive'}
+                    </span>
+                    <span className="px-2 py-1 bg-white/5 text-white/80 border border-white/10 rounded-full text-xs font-medium">
+                      {zone.free_shipping_threshold !== null
+                        ? `Free over LKR ${zone.free_shipping_threshold.toLocaleString()}`
+                        : 'No free shipping'}
+                    </span>
+                  </div>
+                  <p className="text-sm text-white/60">{formatCoverage(zone)}</p>
+                </div>
+
+                <div className="flex items-center gap-2 ml-4">
+                  <Button
+                    onClick={() => toggleZoneActive(zone)}
+                    variant="outline"
+                    size="sm"
+                    className="border-[rgb(51,51,51)] text-white hover:bg-white hover:text-black"
+                  >
+                    {zone.is_active ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+                  </Button>
+                  <Button
+                    onClick={() => openZoneModal(zone)}
+                    variant="outline"
+                    size="sm"
+                    className="border-[rgb(51,51,51)] text-white hover:bg-white hover:text-black"
+                  >
+                    <Edit className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    onClick={() => deleteZone(zone.id)}
+                    variant="outline"
+                    size="sm"
+                    className="border-[rgb(51,51,51)] text-white hover:bg-white hover:text-black"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+
+              <div className="mt-4 border-t border-[rgb(51,51,51)] pt-4 space-y-2">
+                {zone.shipping_methods.map((method) => (
+                  <div key={method.id} className="flex items-center justify-between text-sm">
+                    <div className="flex items-center gap-3 min-w-0">
+                      <Truck className="w-4 h-4 text-white/60 flex-shrink-0" />
+                      <span className={method.is_active ? 'text-white' : 'text-white/40 line-through'}>
+                        {method.name}
+                      </span>
+                      <span className="text-white/40 font-mono text-xs">{method.code}</span>
+                      <span className="text-white/60">{formatRate(method)}</span>
+                      <span className="text-white/60">
+                        {method.min_days}-{method.max_days} days
+                      </span>
+                    </div>
+                    <div className="flex items-center gap-3 ml-4">
+                      <button
+                        onClick={() => openMethodModal(zone.id, method)}
+                        className="text-[rgb(94,94,94)] hover:text-white"
+                        aria-label="Edit method"
+                      >
+                        <Edit className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => deleteMethod(method.id)}
+                        className="text-[rgb(94,94,94)] hover:text-white"
+                        aria-label="Delete method"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  </div>
+                ))}
+                {zone.shipping_methods.length === 0 && (
+                  <p className="text-sm text-white/40">No methods yet. Customers in this zone cannot check out.</p>
+                )}
+                <button
+                  onClick={() => openMethodModal(zone.id)}
+                  className="flex items-center text-sm text-white/80 hover:text-white pt-2"
+                >
+                  <Plus className="w-4 h-4 mr-1" />
+                  Add Method
+                </button>
+              </div>
+            </motion.div>
+          ))}
+        </AnimatePresence>
+
+        {zones.length === 0 && (
+          <div className="text-center py-12">
+            <p className="text-white/60">No shipping zones yet. Create your first zone!</p>
+          </div>
+        )}
+
+        <CouriersPanel />
+      </div>
+
+      {showZoneModal && (
+        <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50">
+          <div className="bg-black border border-[rgb(51,51,51)] rounded-lg w-full max-w-2xl mx-4 max-h-[90vh] overflow-y-auto">
+            <div className="px-6 py-4 border-b border-[rgb(51,51,51)] flex justify-between items-center">
+              <h3 className="text-lg font-semibold text-white">
+                {editingZone ? 'Edit Zone' : 'Create Zone'}
+              </h3>
+              <button
+                onClick={() => setShowZoneModal(false)}
+                className="text-[rgb(94,94,94)] hover:text-white text-2xl leading-none"
+              >
+                ×
+              </button>
+            </div>
+
+            <form onSubmit={zoneForm.handleSubmit(onSubmitZone)} className="p-6 space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-white mb-2">
+                Name
+              </label>
+              <input
+                {...zoneForm.register('name')}
+                className={inputClassName}
+                placeholder="Colombo"
+              />
+              {zoneForm.formState.errors.name && (
+                <p className="mt-1 text-sm text-white/80">{zoneForm.formState.errors.name.message}</p>
+              )}
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-white mb-2">
+                Sort Order
+              </label>
+              <input
+                type="number"
+                {...zoneForm.register('sort_order')}
+                className={inputClassName}
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-white mb-2">
+              Free Shipping Over (LKR, Optional)
+            </label>
+            <input
+              type="number"
+              step="0.01"
+              {...zoneForm.register('free_shipping_threshold')}
+              className={inputClassName}
+              placeholder="Never free"
+            />
+          </div>
+
+          <div className="flex items-center">
+            <input
+              type="checkbox"
+              {...zoneForm.register('is_international')}
+              className="mr-2 accent-white"
+            />
+            <label className="text-sm text-white">
+              International (used for every country outside Sri Lanka)
+            </label>
+          </div>
+
+          {!isInternational && (
+            <div>
+              <label className="block text-sm font-medium text-white mb-2">
+                Coverage
+              </label>
+              <p className="text-xs text-white/60 mb-3">
+                Select whole provinces or individual districts. Districts take priority over provinces;
+                a zone with nothing selected covers the rest of Sri Lanka.
+              </p>
+              <div className="grid grid-cols-3 gap-4 max-h-64 overflow-y-auto border border-[rgb(51,51,51)] rounded-lg p-3">
+                {Object.entries(SRI_LANKA_PROVINCES).map(([province, districts]) => (
+                  <div key={province}>
+                    <label className="flex items-center text-sm font-medium text-white">
+                      <input
+                        type="checkbox"
+                        checked={zoneProvinces.includes(province)}
+                        onChange={() => setZoneProvinces(prev => toggleListValue(prev, province))}
+                        className="mr-2 accent-white"
+                      />
+                      {province}
+                    </label>
+                    <div className="ml-5 mt-1 space-y-1">
+                      {districts.map(district => (
+                        <label key={district} className="flex items-center text-xs text-white/80">
+                          <input
+                            type="checkbox"
+                            checked={zoneDistricts.includes(district)}
+                            onChange={() => setZoneDistricts(prev => toggleListValue(prev, district))}
+                            className="mr-2 accent-white"
+                          />
+                          {district}
+                        </label>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div className="flex items-center">
+            <input
+              type="checkbox"
+              {...zoneForm.register('is_active')}
+              className="mr-2 accent-white"
+            />
+            <label className="text-sm text-white">
+              Active
+            </label>
+          </div>
+
+          <div className="flex space-x-4 pt-6 border-t border-[rgb(51,51,51)]">
+            <Button
+              type="submit"
+              loading={submitting}
+              className="bg-[rgb(51,51,51)] text-white hover:bg-[rgb(64,64,64)] border border-[rgb(94,94,94)]"
+            >
+              {editingZone ? 'Update Zone' : 'Create Zone'}
+            </Button>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => setShowZoneModal(false)}
+              className="border-[rgb(51,51,51)] text-white hover:bg-white hover:text-black"
+            >
+              Cancel
+            </Button>
+          </div>
+        </form>
+          </div>
+        </div>
+      )}
+
+      {showMethodModal && (
+        <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50">
+          <div className="bg-black border border-[rgb(51,51,51)] rounded-lg w-full max-w-2xl mx-4 max-h-[90vh] overflow-y-auto">
+            <div className="px-6 py-4 border-b border-[rgb(51,51,51)] flex justify-between items-center">
+              <h3 className="text-lg font-semibold text-white">
+                {editingMethod ? 'Edit Method' : 'Add Method'}
+              </h3>
+              <button
+                onClick={() => setShowMethodModal(false)}
+                className="text-[rgb(94,94,94)] hover:text-white text-2xl leading-none"
+              >
+                ×
+              </button>
+            </div>
+
+            <form onSubmit={methodForm.handleSubmit(onSubmitMethod)} className="p-6 space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-white mb-2">
+                Code
+              </label>
+              <input
+                {...methodForm.register('code')}
+                className={`${inputClassName} font-mono`}
+                placeholder="standard"
+              />
+              {methodForm.formState.errors.code && (
+                <p className="mt-1 text-sm text-white/80">{methodForm.formState.errors.code.message}</p>
+              )}
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-white mb-2">
+                Name
+              </label>
+              <input
+                {...methodForm.register('name')}
+                className={inputClassName}
+                placeholder="Standard"
+              />
+              {methodForm.formState.errors.name && (
+                <p className="mt-1 text-sm text-white/80">{methodForm.formState.errors.name.message}</p>
+              )}
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-white mb-2">
+              Description (Optional)
+            </label>
+            <input
+              {...methodForm.register('description')}
+              className={inputClassName}
+              placeholder="Shown to customers at checkout"
+            />
+          </div>
+
+          <div className="grid grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-white mb-2">
+                Rate Type
+              </label>
+              <select {...methodForm.register('rate_type')} className={inputClassName}>
+                {(Object.keys(rateTypeLabels) as ShippingRateType[]).map(type => (
+                  <option key={type} value={type}>{rateTypeLabels[type]}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-white mb-2">
+                {rateType === 'weight' ? 'First kg (LKR)' : rateType === 'quantity' ? 'First item (LKR)' : 'Rate (LKR)'}
+              </label>
+              <input
+                type="number"
+                step="0.01"
+                {...methodForm.register('base_rate')}
+                className={inputClassName}
+              />
+              {methodForm.formState.errors.base_rate && (
+                <p className="mt-1 text-sm text-white/80">{methodForm.formState.errors.base_rate.message}</p>
+              )}
+            </div>
+            {rateType !== 'flat' && (
+              <div>
+                <label className="block text-sm font-medium text-white mb-2">
+                  {rateType === 'weight' ? 'Each extra kg (LKR)' : 'Each extra item (LKR)'}
+                </label>
+                <input
+                  type="number"
+                  step="0.01"
+                  {...methodForm.register('unit_rate')}
+                  className={inputClassName}
+                />
+              </div>
+            )}
+          </div>
+
+          <div className="grid grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-white mb-2">
+                Min Days
+              </label>
+              <input
+                type="number"
+                {...methodForm.register('min_days')}
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-white mb-2">
+                Max Days
+              </label>
+              <input
+                type="number"
+                {...methodForm.register('max_days')}
+                className={inputClassName}
+              />
+              {methodForm.formState.errors.max_days && (
+                <p className="mt-1 text-sm text-white/80">{methodForm.formState.errors.max_days.message}</p>
+              )}
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-white mb-2">
+                Sort Order
+              </label>
+              <input
+                type="number"
+                {...methodForm.register('sort_order')}
+                className={inputClassName}
+              />
+            </div>
+          </div>
+
+          <div className="flex items-center">
+            <input
+              type="checkbox"
+              {...methodForm.register('is_active')}
+              className="mr-2 accent-white"
+            />
+            <label className="text-sm text-white">
+              Active
+            </label>
+          </div>
+
+          <div className="flex space-x-4 pt-6 border-t border-[rgb(51,51,51)]">
+            <Button
+              type="submit"
+              loading={submitting}
+              className="bg-[rgb(51,51,51)] text-white hover:bg-[rgb(64,64,64)] border border-[rgb(94,94,94)]"
+            >
+              {editingMethod ? 'Update Method' : 'Add Method'}
+            </Button>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => setShowMethodModal(false)}
+              className="border-[rgb(51,51,51)] text-white hover:bg-white hover:text-black"
+            >
+              Cancel
+            </Button>
+          </div>
+        </form>
+          </div>
+        </div>
+      )}
+      </div>
+    </AdminLayout>
+  );
+};
+
+export default ShippingManagement;
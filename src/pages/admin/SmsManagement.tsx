@@ -0,0 +1,494 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { MessageSquare, RefreshCw, Search, Send } from 'lucide-react';
+import AdminLayout from '../../components/admin/AdminLayout';
+import Button from '../../components/ui/Button';
+import Breadcrumb from '../../components/ui/Breadcrumb';
+import { showErrorToast, showSuccessToast } from '../../components/ui/CustomToast';
+import {
+  fetchCodReminderHours,
+  fetchSmsMessages,
+  fetchSmsTemplates,
+  retrySms,
+  sendQueuedSms,
+  updateCodReminderHours,
+  updateSmsTemplate
+} from '../../services/smsService';
+import {
+  SMS_STATUS_LABELS,
+  SMS_TEMPLATE_LABELS,
+  SmsMessage,
+  SmsStatus,
+  SmsTemplate,
+  SmsTemplateKey
+} from '../../types/sms';
+import {
+  SAMPLE_SMS_CONTEXT,
+  SMS_PLACEHOLDERS,
+  countSmsSegments,
+  formatLkMobile,
+  renderSms
+} from '../../../supabase/functions/_shared/sms/templates.ts';
+
+type Tab = 'templates' | 'log';
+
+const selectClassName = 'px-3 py-2 bg-black text-white border border-[rgb(51,51,51)] rounded-lg hover:border-[rgb(94,94,94)] focus:outline-none focus:border-white text-sm';
+const inputClassName = 'w-full px-4 py-2.5 bg-black text-white border border-[rgb(51,51,51)] rounded-lg hover:border-[rgb(94,94,94)] focus:outline-none focus:border-white transition-colors';
+
+const statusClassName = (status: SmsStatus) =>
+  status === 'sent' ? 'text-green-400 border-green-400/20 bg-green-900/20' :
+  status === 'failed' ? 'text-red-400 border-red-400/20 bg-red-900/20' :
+  status === 'sending' ? 'text-blue-400 border-blue-400/20 bg-blue-900/20' :
+  status === 'skipped' ? 'text-gray-400 border-gray-400/20 bg-gray-900/20' :
+  'text-yellow-400 border-yellow-400/20 bg-yellow-900/20';
+
+const SmsManagement = () => {
+  const [tab, setTab] = useState<Tab>('templates');
+  const [loading, setLoading] = useState(true);
+  const [sending, setSending] = useState(false);
+
+  // Templates
+  const [templates, setTemplates] = useState<SmsTemplate[]>([]);
+  const [selectedKey, setSelectedKey] = useState<SmsTemplateKey | null>(null);
+  const [draft, setDraft] = useState({ body: '', is_active: true });
+  const [savingTemplate, setSavingTemplate] = useState(false);
+  const [reminderHours, setReminderHours] = useState('24');
+  const [savingReminder, setSavingReminder] = useState(false);
+
+  // Log
+  const [messages, setMessages] = useState<SmsMessage[]>([]);
+  const [statusFilter, setStatusFilter] = useState<SmsStatus | 'all'>('all');
+  const [templateFilter, setTemplateFilter] = useState<SmsTemplateKey | 'all'>('all');
+  const [search, setSearch] = useState('');
+  const [loadingLog, setLoadingLog] = useState(false);
+  const [retrying, setRetrying] = useState<string | null>(null);
+
+  const selectedTemplate = templates.find(template => template.key === selectedKey) || null;
+
+  const selectTemplate = (template: SmsTemplate) => {
+    setSelectedKey(template.key);
+    setDraft({ body: template.body, is_active: template.is_active });
+  };
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const [loadedTemplates, loadedHours] = await Promise.all([
+          fetchSmsTemplates(),
+          fetchCodReminderHours(),
+        ]);
+        setTemplates(loadedTemplates);
+        setReminderHours(String(loadedHours));
+        if (loadedTemplates.length > 0) {
+          selectTemplate(loadedTemplates[0]);
+        }
+      } catch (error) {
+        console.error('Error fetching SMS templates:', error);
+        showErrorToast('Failed to load SMS templates');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    load();
+  }, []);
+
+  const loadLog = useCallback(async () => {
+    try {
+      setLoadingLog(true);
+      setMessages(await fetchSmsMessages({ status: statusFilter, templateKey: templateFilter, search }));
+    } catch (error) {
+      console.error('Error fetching SMS:', error);
+      showErrorToast('Failed to load SMS');
+    } finally {
+      setLoadingLog(false);
+    }
+  }, [statusFilter, templateFilter, search]);
+
+  useEffect(() => {
+    if (tab !== 'log') return;
+
+    const timeout = setTimeout(loadLog, 300);
+    return () => clearTimeout(timeout);
+  }, [tab, loadLog]);
+
+  const isDirty = !!selectedTemplate && (
+    draft.body !== selectedTemplate.body ||
+    draft.is_active !== selectedTemplate.is_active
+  );
+
+  // Placeholder values change the length, so count the example message
+  const preview = useMemo(() => {
+    const text = renderSms(draft.body, SAMPLE_SMS_CONTEXT, window.location.origin);
+    return { text, length: countSmsSegments(text) };
+  }, [draft.body]);
+
+  const handleSaveTemplate = async () => {
+    if (!selectedTemplate) return;
+
+    if (!draft.body.trim()) {
+      showErrorToast('Message is required');
+      return;
+    }
+
+    if (selectedTemplate.key === 'otp' && !draft.body.includes('{{code}}')) {
+      showErrorToast('The verification message must include {{code}}');
+      return;
+    }
+
+    try {
+      setSavingTemplate(true);
+      const saved = await updateSmsTemplate(selectedTemplate.key, draft);
+      setTemplates(prev => prev.map(template => template.key === saved.key ? saved : template));
+      showSuccessToast('Template saved');
+    } catch (error: any) {
+      showErrorToast(error.message || 'Failed to save template');
+    } finally {
+      setSavingTemplate(false);
+    }
+  };
+
+  const handleSaveReminderHours = async () => {
+    const hours = Number(reminderHours);
+    if (!Number.isInteger(hours) || hours < 1 || hours > 168) {
+      showErrorToast('Enter a whole number of hours between 1 and 168');
+      return;
+    }
+
+    try {
+      setSavingReminder(true);
+      await updateCodReminderHours(hours);
+      showSuccessToast('Reminder timing saved');
+    } catch (error: any) {
+      showErrorToast(error.message || 'Failed to save reminder timing');
+    } finally {
+      setSavingReminder(false);
+    }
+  };
+
+  const handleSendQueued = async () => {
+    try {
+      setSending(true);
+      const result = await sendQueuedSms();
+      showSuccessToast(result.sent || result.failed
+        ? `Sent ${result.sent} SMS${result.failed ? `, ${result.failed} failed` : ''}`
+        : 'No SMS waiting');
+      if (tab === 'log') loadLog();
+    } catch (error: any) {
+      showErrorToast(error.message || 'Failed to send SMS');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const handleRetry = async (message: SmsMessage) => {
+    try {
+      setRetrying(message.id);
+      await retrySms(message.id);
+      await sendQueuedSms();
+      showSuccessToast(message.status === 'sent' ? 'SMS sent again' : 'SMS queued again');
+      loadLog();
+    } catch (error: any) {
+      showErrorToast(error.message || 'Failed to send the SMS again');
+    } finally {
+      setRetrying(null);
+    }
+  };
+
+  const breadcrumbItems = [
+    {
+      href: '/admin/dashboard',
+      label: 'Dashboard'
+    },
+    {
+      label: 'SMS'
+    }
+  ];
+
+  if (loading) {
+    return (
+      <AdminLayout>
+        <div className="flex items-center justify-center h-64">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-white"></div>
+        </div>
+      </AdminLayout>
+    );
+  }
+
+  return (
+    <AdminLayout>
+      <div className="space-y-6">
+        {/* Breadcrumb */}
+        <Breadcrumb items={breadcrumbItems} variant="white" />
+
+        <div className="flex flex-wrap justify-between items-center gap-4">
+          <div>
+            <h1 className="text-2xl font-bold text-white">SMS</h1>
+            <p className="text-white/60">Order texts and verification codes sent to customers who opted in</p>
+          </div>
+          <Button
+            onClick={handleSendQueued}
+            loading={sending}
+            variant="outline"
+            className="border-[rgb(51,51,51)] text-white hover:bg-white hover:text-black"
+          >
+            <Send className="w-4 h-4 mr-2" />
+            Send Queued SMS
+          </Button>
+        </div>
+
+        <div className="flex gap-2 border-b border-[rgb(51,51,51)]">
+          {(['templates', 'log'] as Tab[]).map(value => (
+            <button
+              key={value}
+              onClick={() => setTab(value)}
+              className={`px-4 py-2 text-sm font-medium border-b-2 -mb-px transition-colors ${
+                tab === value ? 'text-white border-white' : 'text-[rgb(94,94,94)] border-transparent hover:text-white'
+              }`}
+            >
+              {value === 'templates' ? 'Templates' : 'Delivery Log'}
+            </button>
+          ))}
+        </div>
+
+        {tab === 'templates' && (
+          <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+            <div className="bg-black border border-[rgb(51,51,51)] rounded-lg overflow-hidden h-fit">
+              {templates.map(template => (
+                <button
+                  key={template.key}
+                  onClick={() => selectTemplate(template)}
+                  className={`w-full text-left px-4 py-3 border-b border-[rgb(51,51,51)] last:border-b-0 transition-colors ${
+                    template.key === selectedKey ? 'bg-[rgb(25,25,25)]' : 'hover:bg-[rgb(25,25,25)]'
+                  }`}
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="text-sm text-white">{template.name}</span>
+                    {!template.is_active && template.key !== 'otp' && (
+                      <span className="text-xs text-[rgb(94,94,94)]">Off</span>
+                    )}
+                  </div>
+                  {template.description && (
+                    <p className="text-xs text-[rgb(94,94,94)] mt-0.5">{template.description}</p>
+                  )}
+                </button>
+              ))}
+            </div>
+
+            {selectedTemplate && (
+              <div className="lg:col-span-3 space-y-6">
+                <div className="bg-black border border-[rgb(51,51,51)] rounded-lg p-6 space-y-4">
+                  <div className="flex flex-wrap items-center justify-between gap-3">
+                    <div className="flex items-center space-x-2">
+                      <MessageSquare className="w-5 h-5 text-white" />
+                      <h2 className="text-lg font-semibold text-white">{selectedTemplate.name}</h2>
+                    </div>
+                    {selectedTemplate.key !== 'otp' && (
+                      <label className="flex items-center gap-2 text-sm text-white">
+                        <input
+                          type="checkbox"
+                          checked={draft.is_active}
+                          onChange={(e) => setDraft(prev => ({ ...prev, is_active: e.target.checked }))}
+                          className="accent-white"
+                        />
+                        Send this SMS
+                      </label>
+                    )}
+                  </div>
+
+                  <div>
+                    <label className="block text-sm text-[rgb(94,94,94)] mb-1">Message</label>
+                    <textarea
+                      value={draft.body}
+                      onChange={(e) => setDraft(prev => ({ ...prev, body: e.target.value }))}
+                      rows={4}
+                      className={`${inputClassName} font-mono text-sm`}
+                    />
+                  </div>
+
+                  <div>
+                    <p className="text-sm text-[rgb(94,94,94)] mb-2">Placeholders</p>
+                    <div className="flex flex-wrap gap-2">
+                      {[...(SMS_PLACEHOLDERS[selectedTemplate.key] || []), 'site_url'].map(placeholder => (
+                        <code key={placeholder} className="text-xs px-2 py-1 rounded bg-[rgb(25,25,25)] border border-[rgb(51,51,51)] text-white">
+                          {`{{${placeholder}}}`}
+                        </code>
+                      ))}
+                    </div>
+                  </div>
+
+                  <div className="bg-[rgb(25,25,25)] border border-[rgb(51,51,51)] rounded-lg p-4">
+                    <p className="text-xs text-[rgb(94,94,94)] mb-1">With example order data</p>
+                    <p className="text-sm text-white whitespace-pre-wrap break-words">{preview.text}</p>
+                    <p className={`text-xs mt-2 ${preview.length.segments > 1 ? 'text-yellow-400' : 'text-[rgb(94,94,94)]'}`}>
+                      {preview.length.characters} characters · {preview.length.segments} SMS ({preview.length.encoding})
+                      {preview.length.encoding === 'UCS-2' && ' · non-GSM characters cut each SMS to 70'}
+                    </p>
+                  </div>
+
+                  <div className="flex justify-end pt-2">
+                    <Button
+                      onClick={handleSaveTemplate}
+                      loading={savingTemplate}
+                      disabled={!isDirty}
+                      className="bg-white text-black hover:bg-gray-200"
+                    >
+                      Save Template
+                    </Button>
+                  </div>
+                </div>
+
+                {selectedTemplate.key === 'cod_delivery_reminder' && (
+                  <div className="bg-black border border-[rgb(51,51,51)] rounded-lg p-6 space-y-4">
+                    <div>
+                      <h2 className="text-lg font-semibold text-white">Reminder Timing</h2>
+                      <p className="text-sm text-[rgb(94,94,94)]">
+                        Hours after an order is marked shipped. Not sent if the order is delivered or cancelled by then.
+                      </p>
+                    </div>
+                    <div className="flex flex-wrap items-end gap-3">
+                      <div className="w-40">
+                        <label className="block text-sm text-[rgb(94,94,94)] mb-1">Hours</label>
+                        <input
+                          type="number"
+                          min={1}
+                          max={168}
+                          value={reminderHours}
+                          onChange={(e) => setReminderHours(e.target.value)}
+                          className={inputClassName}
+                        />
+                      </div>
+                      <Button
+                        onClick={handleSaveReminderHours}
+                        loading={savingReminder}
+                        variant="outline"
+                        className="border-[rgb(51,51,51)] text-white hover:bg-white hover:text-black"
+                      >
+                        Save Timing
+                      </Button>
+                    </div>
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+
+        {tab === 'log' && (
+          <div className="bg-black border border-[rgb(51,51,51)] rounded-lg overflow-hidden">
+            <div className="flex flex-wrap items-center justify-between gap-3 px-6 py-4 border-b border-[rgb(51,51,51)]">
+              <div className="relative flex-1 min-w-[200px] max-w-md">
+                <Search className="w-4 h-4 absolute left-3 top-1/2 -translate-y-1/2 text-[rgb(94,94,94)]" />
+                <input
+                  value={search}
+                  onChange={(e) => setSearch(e.target.value)}
+                  placeholder="Search mobile number"
+                  className={`${inputClassName} pl-9 text-sm`}
+                />
+              </div>
+              <div className="flex items-center gap-3">
+                <select
+                  value={templateFilter}
+                  onChange={(e) => setTemplateFilter(e.target.value as SmsTemplateKey | 'all')}
+                  className={selectClassName}
+                >
+                  <option value="all">All messages</option>
+                  {Object.entries(SMS_TEMPLATE_LABELS).map(([key, label]) => (
+                    <option key={key} value={key}>{label}</option>
+                  ))}
+                </select>
+                <select
+                  value={statusFilter}
+                  onChange={(e) => setStatusFilter(e.target.value as SmsStatus | 'all')}
+                  className={selectClassName}
+                >
+                  <option value="all">All statuses</option>
+                  {Object.entries(SMS_STATUS_LABELS).map(([status, label]) => (
+                    <option key={status} value={status}>{label}</option>
+                  ))}
+                </select>
+                <button
+                  onClick={loadLog}
+                  disabled={loadingLog}
+                  className="text-[rgb(94,94,94)] hover:text-white p-1 disabled:opacity-50"
+                  title="Refresh"
+                >
+                  <RefreshCw className={`w-4 h-4 ${loadingLog ? 'animate-spin' : ''}`} />
+                </button>
+              </div>
+            </div>
+
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead className="bg-[rgb(25,25,25)]">
+                  <tr>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-[rgb(94,94,94)] uppercase tracking-wider">Queued</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-[rgb(94,94,94)] uppercase tracking-wider">Message</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-[rgb(94,94,94)] uppercase tracking-wider">Mobile</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-[rgb(94,94,94)] uppercase tracking-wider">Status</th>
+                    <th className="px-4 py-3 text-right text-xs font-medium text-[rgb(94,94,94)] uppercase tracking-wider">Attempts</th>
+                    <th className="px-4 py-3"></th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-[rgb(51,51,51)]">
+                  {messages.map(message => (
+                    <tr key={message.id} className="hover:bg-[rgb(25,25,25)]">
+                      <td className="px-4 py-3 text-sm text-[rgb(94,94,94)] whitespace-nowrap">
+                        {new Date(message.created_at).toLocaleString()}
+                        {message.status === 'pending' && new Date(message.next_attempt_at) > new Date() && (
+                          <div className="text-xs">Due {new Date(message.next_attempt_at).toLocaleString()}</div>
+                        )}
+                      </td>
+                      <td className="px-4 py-3 text-sm text-white">
+                        {SMS_TEMPLATE_LABELS[message.template_key] || message.template_key}
+                        {message.body && (
+                          <div className="text-xs text-[rgb(94,94,94)] max-w-md">{message.body}</div>
+                        )}
+                      </td>
+                      <td className="px-4 py-3 text-sm text-white whitespace-nowrap">
+                        {formatLkMobile(message.phone)}
+                        {message.provider && (
+                          <div className="text-xs text-[rgb(94,94,94)]">{message.provider}</div>
+                        )}
+                      </td>
+                      <td className="px-4 py-3 text-sm">
+                        <span className={`text-xs px-2 py-0.5 rounded-full border ${statusClassName(message.status)}`}>
+                          {SMS_STATUS_LABELS[message.status]}
+                        </span>
+                        {message.last_error && message.status !== 'sent' && (
+                          <div
+                            className={`text-xs mt-1 max-w-xs truncate ${message.status === 'skipped' ? 'text-[rgb(94,94,94)]' : 'text-red-400'}`}
+                            title={message.last_error}
+                          >
+                            {message.last_error}
+                          </div>
+                        )}
+                      </td>
+                      <td className="px-4 py-3 text-sm text-white text-right">{message.attempts}</td>
+                      <td className="px-4 py-3 text-right">
+                        {message.template_key !== 'otp' && message.status !== 'pending' && message.status !== 'sending' && (
+                          <button
+                            onClick={() => handleRetry(message)}
+                            disabled={retrying === message.id}
+                            className="text-xs text-blue-400 hover:text-blue-300 disabled:opacity-50"
+                          >
+                            {message.status === 'failed' ? 'Retry' : 'Resend'}
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+
+              {messages.length === 0 && !loadingLog && (
+                <p className="text-center text-[rgb(94,94,94)] text-sm py-10">No SMS found.</p>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </AdminLayout>
+  );
+};
+
+export default SmsManagement;
@@ -1,10 +1,12 @@
 import { useState, useEffect } from 'react';
-import { Eye, AlertTriangle, Clock, CheckCircle, XCircle, LayoutDashboard, Search, Download, Paperclip } from 'lucide-react';
+import { Eye, AlertTriangle, Clock, CheckCircle, XCircle, LayoutDashboard, Search, Download, Paperclip, Send } from 'lucide-react';
 import AdminLayout from '../../components/admin/AdminLayout';
-import { supabaseAdmin, isUserAdmin } from '../../lib/supabaseAdmin';
+import { supabase } from '../../lib/supabase';
 import { useAuth } from '../../hooks/useAuth';
 import Breadcrumb from '../../components/ui/Breadcrumb';
 import { showSuccessToast, showErrorToast } from '../../components/ui/CustomToast';
+import { fetchSupportRequestReplies, replyToSupportRequest } from '../../services/emailService';
+import { SupportRequestReply } from '../../types/email';
 
 interface SupportRequest {
   id: string;
@@ -40,6 +42,9 @@ const SupportRequestsManagement = () => {
   const [statusFilter, setStatusFilter] = useState<string>('all');
   const [priorityFilter, setPriorityFilter] = useState<string>('all');
   const [selectedRequest, setSelectedRequest] = useState<SupportRequest | null>(null);
+  const [replies, setReplies] = useState<SupportRequestReply[]>([]);
+  const [replyMessage, setReplyMessage] = useState('');
+  const [sendingReply, setSendingReply] = useState(false);
 
   useEffect(() => {
     if (user) {
@@ -53,12 +58,7 @@ const SupportRequestsManagement = () => {
         throw new Error('User not authenticated');
       }
 
-      const isAdmin = await isUserAdmin(user.id);
-      if (!isAdmin) {
-        throw new Error('Access denied: Admin privileges required');
-      }
-
-      const { data: requestsData, error: requestsError } = await supabaseAdmin
+      const { data: requestsData, error: requestsError } = await supabase
         .from('support_requests')
         .select('*')
         .order('created_at', { ascending: false });
@@ -67,7 +67,7 @@ const SupportRequestsManagement = () => {
         throw requestsError;
       }
 
-      const { data: attachmentsData, error: attachmentsError } = await supabaseAdmin
+      const { data: attachmentsData, error: attachmentsError } = await supabase
         .from('support_attachments')
         .select('*');
 
@@ -94,18 +94,47 @@ const SupportRequestsManagement = () => {
     }
   };
 
+  const selectedRequestId = selectedRequest?.id;
+
+  useEffect(() => {
+    setReplies([]);
+    setReplyMessage('');
+    if (!selectedRequestId) return;
+
+    fetchSupportRequestReplies(selectedRequestId)
+      .then(setReplies)
+      .catch(error => console.error('Error fetching replies:', error));
+  }, [selectedRequestId]);
+
+  // The reply is emailed to the requester
+  const sendReply = async () => {
+    if (!selectedRequest || !replyMessage.trim()) return;
+
+    try {
+      setSendingReply(true);
+      const reply = await replyToSupportRequest(selectedRequest.id, replyMessage);
+      setReplies(prev => [...prev, reply]);
+      setReplyMessage('');
+      showSuccessToast('Reply sent');
+
+      if (selectedRequest.status === 'new') {
+        updateRequestStatus(selectedRequest.id, 'in_progress');
+      }
+    } catch (error: any) {
+      console.error('Error sending reply:', error);
+      showErrorToast(error.message || 'Failed to send reply');
+    } finally {
+      setSendingReply(false);
+    }
+  };
+
   const updateRequestStatus = async (requestId: string, status: SupportRequest['status']) => {
     try {
       if (!user) {
         throw new Error('User not authenticated');
       }
 
-      const isAdmin = await isUserAdmin(user.id);
-      if (!isAdmin) {
-        throw new Error('Access denied: Admin privileges required');
-      }
-
-      const { error } = await supabaseAdmin
+      const { error } = await supabase
         .from('support_requests')
         .update({ status })
         .eq('id', requestId);
@@ -137,12 +166,7 @@ const SupportRequestsManagement = () => {
         throw new Error('User not authenticated');
       }
 
-      const isAdmin = await isUserAdmin(user.id);
-      if (!isAdmin) {
-        throw new Error('Access denied: Admin privileges required');
-      }
-
-      const { data, error } = await supabaseAdmin.storage
+      const { data, error } = await supabase.storage
         .from('kixora')
         .download(attachment.file_path);
 
@@ -528,6 +552,37 @@ const SupportRequestsManagement = () => {
                   <label className="block text-sm font-medium text-[rgb(94,94,94)] mb-1">Submitted</label>
                   <p className="text-white">{new Date(selectedRequest.created_at).toLocaleString()}</p>
                 </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-[rgb(94,94,94)] mb-2">Replies</label>
+                  {replies.length > 0 && (
+                    <div className="space-y-2 mb-3">
+                      {replies.map((reply) => (
+                        <div key={reply.id} className="bg-[rgb(25,25,25)] border border-[rgb(51,51,51)] rounded p-3">
+                          <p className="text-white text-sm whitespace-pre-wrap">{reply.message}</p>
+                          <p className="text-[rgb(94,94,94)] text-xs mt-1">{new Date(reply.created_at).toLocaleString()}</p>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                  <textarea
+                    value={replyMessage}
+                    onChange={(e) => setReplyMessage(e.target.value)}
+                    rows={4}
+                    placeholder={`Reply to ${selectedRequest.email}`}
+                    className="w-full px-3 py-2 bg-black border border-[rgb(51,51,51)] rounded text-white placeholder-[rgb(94,94,94)] focus:outline-none focus:border-white"
+                  />
+                  <div className="flex justify-end mt-2">
+                    <button
+                      onClick={sendReply}
+                      disabled={sendingReply || !replyMessage.trim()}
+                      className="px-3 py-1 bg-white text-black rounded text-sm hover:bg-gray-200 disabled:opacity-50 disabled:cursor-not-allowed flex items-center"
+                    >
+                      <Send size={14} className="mr-1" />
+                      {sendingReply ? 'Sending...' : 'Send Reply'}
+                    </button>
+                  </div>
+                </div>
               </div>
 
               <div className="p-6 border-t border-[rgb(51,51,51)] flex flex-wrap gap-2">
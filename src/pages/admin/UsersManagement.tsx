@@ -1,7 +1,7 @@
 import { useState, useEffect } from 'react';
 import { Eye, UserCheck, UserX, Shield, User, Users, ChevronLeft, ChevronRight, LayoutDashboard, Search } from 'lucide-react';
 import AdminLayout from '../../components/admin/AdminLayout';
-import { supabaseAdmin, isUserAdmin } from '../../lib/supabaseAdmin';
+import { supabase } from '../../lib/supabase';
 import { useAuth } from '../../hooks/useAuth';
 import Button from '../../components/ui/Button';
 import { showSuccessToast, showErrorToast } from '../../components/ui/CustomToast';
@@ -52,19 +52,13 @@ const UsersManagement = () => {
         throw new Error('User not authenticated');
       }
 
-      // Verify user is admin before using admin client
-      const isAdmin = await isUserAdmin(user.id);
-      if (!isAdmin) {
-        throw new Error('Access denied: Admin privileges required');
-      }
-
       // Build base query for counting
-      let countQuery = supabaseAdmin
+      let countQuery = supabase
         .from('profiles')
         .select('*', { count: 'exact', head: true });
 
       // Build query for fetching data
-      let dataQuery = supabaseAdmin
+      let dataQuery = supabase
         .from('profiles')
         .select('*')
         .order('created_at', { ascending: false })
@@ -111,12 +105,7 @@ const UsersManagement = () => {
         throw new Error('User not authenticated');
       }
 
-      const isAdmin = await isUserAdmin(user.id);
-      if (!isAdmin) {
-        throw new Error('Access denied: Admin privileges required');
-      }
-
-      const { data, error } = await supabaseAdmin
+      const { data, error } = await supabase
         .from('orders')
         .select('total')
         .eq('user_id', userId);
@@ -143,12 +132,7 @@ const UsersManagement = () => {
         throw new Error('User not authenticated');
       }
 
-      const isAdmin = await isUserAdmin(user.id);
-      if (!isAdmin) {
-        throw new Error('Access denied: Admin privileges required');
-      }
-
-      const { error } = await supabaseAdmin
+      const { error } = await supabase
         .from('profiles')
         .update({ role: newRole })
         .eq('id', userId);
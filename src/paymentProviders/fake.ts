@@ -0,0 +1,48 @@
+import { PaymentProvider, PaymentCheckout, PaymentCheckoutResult, RefundPaymentParams, RefundResult } from './types';
+import { requestGatewayRefund } from './refund';
+import { PAYMENT_METHODS } from './methods';
+
+// Offline test gateway. create-payment decides the outcome (see
+// supabase/functions/_shared/payments/fake.ts) and signs the notification;
+// this relays it to payment-webhook the way a real gateway would, so the
+// whole checkout -> webhook -> order flow runs without a network gateway.
+export class FakePaymentProvider implements PaymentProvider {
+  code = 'fake' as const;
+  name = PAYMENT_METHODS.fake.name;
+  supportsPartialRefunds = PAYMENT_METHODS.fake.supportsPartialRefunds;
+
+  async startCheckout(checkout: PaymentCheckout): Promise<PaymentCheckoutResult> {
+    // No notification means the shopper "closed" the payment window
+    if (!checkout.payload || !checkout.notifyUrl) {
+      throw new Error('Payment was cancelled by user');
+    }
+
+    const anonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
+    const response = await fetch(checkout.notifyUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'apikey': anonKey,
+        'Authorization': `Bearer ${anonKey}`,
+      },
+      body: JSON.stringify(checkout.payload),
+    });
+
+    const result = await response.json();
+
+    if (result.paymentStatus !== 'paid') {
+      return {
+        success: false,
+        error: result.error || `Payment ${result.paymentStatus || 'failed'}`,
+      };
+    }
+
+    return { success: true, orderId: result.orderId };
+  }
+
+  async refundPayment(params: RefundPaymentParams): Promise<RefundResult> {
+    return requestGatewayRefund(params);
+  }
+}
+
+export const fakePaymentProvider = new FakePaymentProvider();
@@ -0,0 +1,18 @@
+import { PaymentProvider } from './types';
+import { payHereProvider } from './payhere';
+import { stripeProvider } from './stripe';
+import { fakePaymentProvider } from './fake';
+import { PaymentMethodCode } from './methods';
+
+const providers: Partial<Record<PaymentMethodCode, PaymentProvider>> = {
+  payhere: payHereProvider,
+  stripe: stripeProvider,
+  fake: fakePaymentProvider,
+};
+
+/**
+ * Provider for an order's payment method, or null for methods settled
+ * offline (cash on delivery, bank transfer).
+ */
+export const getPaymentProvider = (paymentMethod: string | null | undefined): PaymentProvider | null =>
+  (paymentMethod && providers[paymentMethod as PaymentMethodCode]) || null;
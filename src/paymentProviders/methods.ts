@@ -0,0 +1,61 @@
+// Generated from supabase/functions/_shared/payments/methods.ts by
+// sync-payment-methods.js. Edit that file and run node sync-payment-methods.js.
+
+export type PaymentMethodCode = 'payhere' | 'stripe' | 'fake' | 'bank' | 'cod';
+
+export interface PaymentMethodDefinition {
+  code: PaymentMethodCode;
+  name: string;
+  description: string;
+  // Paid through a gateway at checkout; offline methods are settled later
+  online: boolean;
+  supportsPartialRefunds: boolean;
+}
+
+export const PAYMENT_METHODS: Record<PaymentMethodCode, PaymentMethodDefinition> = {
+  payhere: {
+    code: 'payhere',
+    name: 'PayHere',
+    description: 'Credit/Debit Cards',
+    online: true,
+    // The PayHere merchant API only refunds whole payments
+    supportsPartialRefunds: false,
+  },
+  stripe: {
+    code: 'stripe',
+    name: 'Card',
+    description: 'Visa, Mastercard, Amex via Stripe',
+    online: true,
+    supportsPartialRefunds: true,
+  },
+  fake: {
+    code: 'fake',
+    name: 'Test Payment',
+    description: 'Offline test gateway',
+    online: true,
+    supportsPartialRefunds: true,
+  },
+  bank: {
+    code: 'bank',
+    name: 'Bank Transfer',
+    description: 'Direct bank transfer',
+    online: false,
+    supportsPartialRefunds: true,
+  },
+  cod: {
+    code: 'cod',
+    name: 'Cash on Delivery',
+    description: 'Pay the courier in cash',
+    online: false,
+    supportsPartialRefunds: true,
+  },
+};
+
+// Used when the enabled_payment_methods store setting is missing
+export const DEFAULT_PAYMENT_METHODS: PaymentMethodCode[] = ['payhere', 'bank', 'cod'];
+
+export const isPaymentMethodCode = (code: string | null | undefined): code is PaymentMethodCode =>
+  !!code && Object.prototype.hasOwnProperty.call(PAYMENT_METHODS, code);
+
+export const isOnlinePaymentMethod = (code: string | null | undefined): boolean =>
+  isPaymentMethodCode(code) && PAYMENT_METHODS[code].online;
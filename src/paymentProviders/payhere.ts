@@ -1,96 +1,28 @@
-import { PaymentProvider, CreatePaymentIntentParams, PaymentIntentResult, VerifyPaymentParams, PaymentVerificationResult } from './types';
-import { createHash } from 'crypto';
+import { PaymentProvider, PaymentCheckout, PaymentCheckoutResult, RefundPaymentParams, RefundResult } from './types';
+import { requestGatewayRefund } from './refund';
+import { payHereService, PayHerePaymentData } from '../services/payhere';
+import { PAYMENT_METHODS } from './methods';
 
 export class PayHereProvider implements PaymentProvider {
-  name = 'PayHere';
+  code = 'payhere' as const;
+  name = PAYMENT_METHODS.payhere.name;
+  supportsPartialRefunds = PAYMENT_METHODS.payhere.supportsPartialRefunds;
 
-  async createPaymentIntent(params: CreatePaymentIntentParams): Promise<PaymentIntentResult> {
-    try {
-      const response = await fetch('/api/payments/payhere/create', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(params),
-      });
-
-      const result = await response.json();
+  // create-payment signs the popup payload with the merchant secret
+  async startCheckout(checkout: PaymentCheckout): Promise<PaymentCheckoutResult> {
+    return payHereService.startPayment(checkout.payload as unknown as PayHerePaymentData);
+  }
 
-      if (result.success) {
-        return {
-          success: true,
-          paymentId: result.paymentId,
-          checkoutUrl: result.checkoutUrl,
-        };
-      } else {
-        return {
-          success: false,
-          paymentId: '',
-          error: result.error || 'Failed to create payment',
-        };
-      }
-    } catch (error: any) {
+  async refundPayment(params: RefundPaymentParams): Promise<RefundResult> {
+    if (!params.isFullRefund) {
       return {
         success: false,
-        paymentId: '',
-        error: error.message || 'Network error',
+        error: 'PayHere can only refund the full payment. Record partial refunds manually.',
       };
     }
-  }
-
-  async verifyPayment(params: VerifyPaymentParams): Promise<PaymentVerificationResult> {
-    try {
-      // Verify the MD5 signature
-      const hashString = [
-        params.merchantId,
-        params.orderId,
-        params.payHereAmount,
-        params.payHereSecret,
-        params.statusCode
-      ].join('').toUpperCase();
-
-      const hash = createHash('md5').update(hashString).digest('hex').toUpperCase();
-
-      if (hash !== params.md5sig) {
-        return {
-          isValid: false,
-          orderId: params.orderId,
-          amount: parseFloat(params.payHereAmount),
-          status: 'failed',
-          error: 'Invalid signature',
-        };
-      }
 
-      // Status codes: 2 = success, -1 = failed, -2 = pending, others = failed
-      let status: 'success' | 'failed' | 'pending';
-      switch (params.statusCode) {
-        case 2:
-          status = 'success';
-          break;
-        case -2:
-          status = 'pending';
-          break;
-        default:
-          status = 'failed';
-      }
-
-      return {
-        isValid: true,
-        orderId: params.orderId,
-        amount: parseFloat(params.payHereAmount),
-        status,
-        transactionId: params.paymentId,
-      };
-    } catch (error: any) {
-      return {
-        isValid: false,
-        orderId: params.orderId,
-        amount: parseFloat(params.payHereAmount || '0'),
-        status: 'failed',
-        error: error.message || 'Verification error',
-      };
-    }
+    return requestGatewayRefund(params);
   }
 }
 
-export const payHereProvider = new PayHereProvider();
\ No newline at end of file
+export const payHereProvider = new PayHereProvider();
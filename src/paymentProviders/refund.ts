@@ -0,0 +1,48 @@
+import { RefundPaymentParams, RefundResult } from './types';
+import { supabase } from '../lib/supabase';
+
+/**
+ * Ask the refund-payment edge function to pay a pending refund out through
+ * the order's gateway. Gateway credentials never reach the browser, and the
+ * edge function records the gateway's answer on the refund itself.
+ */
+export const requestGatewayRefund = async (params: RefundPaymentParams): Promise<RefundResult> => {
+  try {
+    const session = (await supabase.auth.getSession()).data.session;
+
+    if (!session?.access_token) {
+      return { success: false, error: 'Authentication required. Please log in again.' };
+    }
+
+    const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/refund-payment`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${session.access_token}`,
+      },
+      body: JSON.stringify({ refundId: params.refundId }),
+    });
+
+    const result = await response.json();
+
+    if (result.success) {
+      return {
+        success: true,
+        providerRefundId: result.providerRefundId,
+      };
+    } else {
+      return {
+        success: false,
+        pending: result.refundStatus === 'pending',
+        error: result.error || 'Failed to refund payment',
+      };
+    }
+  } catch (error: any) {
+    // The request may have reached the gateway before the connection dropped
+    return {
+      success: false,
+      pending: true,
+      error: error.message || 'Network error',
+    };
+  }
+};
@@ -0,0 +1,27 @@
+import { PaymentProvider, PaymentCheckout, PaymentCheckoutResult, RefundPaymentParams, RefundResult } from './types';
+import { requestGatewayRefund } from './refund';
+import { PAYMENT_METHODS } from './methods';
+
+export class StripeProvider implements PaymentProvider {
+  code = 'stripe' as const;
+  name = PAYMENT_METHODS.stripe.name;
+  supportsPartialRefunds = PAYMENT_METHODS.stripe.supportsPartialRefunds;
+
+  // Stripe Checkout is a hosted page; the shopper comes back to
+  // /payment/success or /payment/cancel
+  async startCheckout(checkout: PaymentCheckout): Promise<PaymentCheckoutResult> {
+    if (!checkout.url) {
+      return { success: false, error: 'Stripe did not return a checkout page' };
+    }
+
+    window.location.assign(checkout.url);
+
+    return { success: true, redirected: true, orderId: checkout.paymentId };
+  }
+
+  async refundPayment(params: RefundPaymentParams): Promise<RefundResult> {
+    return requestGatewayRefund(params);
+  }
+}
+
+export const stripeProvider = new StripeProvider();
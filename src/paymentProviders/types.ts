@@ -1,53 +1,54 @@
-export interface PaymentProvider {
-  name: string;
-  createPaymentIntent: (order: CreatePaymentIntentParams) => Promise<PaymentIntentResult>;
-  verifyPayment: (params: VerifyPaymentParams) => Promise<PaymentVerificationResult>;
+import type { PaymentMethodCode } from './methods';
+
+// Returned by create-payment; tells the storefront how to take the payment.
+// Mirrors PaymentCheckout in supabase/functions/_shared/payments/types.ts.
+export interface PaymentCheckout {
+  provider: PaymentMethodCode;
+  // popup: hand payload to the gateway's JS SDK
+  // redirect: send the shopper to url
+  // simulated: the fake gateway; payload is the notification it would send
+  type: 'popup' | 'redirect' | 'simulated';
+  paymentId: string;
+  url?: string;
+  notifyUrl?: string;
+  payload?: Record<string, unknown>;
 }
 
-export interface CreatePaymentIntentParams {
-  orderId: string;
-  amount: number;
-  currency: string;
-  customerInfo: {
-    firstName: string;
-    lastName: string;
-    email: string;
-    phone: string;
-  };
-  items: Array<{
-    itemNumber: string;
-    itemName: string;
-    amount: number;
-    quantity: number;
-  }>;
+// Browser half of a gateway. The server half lives in
+// supabase/functions/_shared/payments and is picked by the edge functions
+// from the order's payment method.
+export interface PaymentProvider {
+  code: PaymentMethodCode;
+  name: string;
+  supportsPartialRefunds: boolean;
+  // Take the shopper through the checkout returned by create-payment.
+  // Rejects if the shopper abandons the payment.
+  startCheckout: (checkout: PaymentCheckout) => Promise<PaymentCheckoutResult>;
+  refundPayment: (params: RefundPaymentParams) => Promise<RefundResult>;
 }
 
-export interface PaymentIntentResult {
+export interface PaymentCheckoutResult {
   success: boolean;
-  paymentId: string;
-  checkoutUrl?: string;
+  // The shopper has left the site to pay; the webhook settles the order
+  redirected?: boolean;
+  orderId?: string;
   error?: string;
 }
 
-export interface VerifyPaymentParams {
-  paymentId: string;
-  merchantId: string;
+export interface RefundPaymentParams {
+  refundId: string;
   orderId: string;
-  payHereAmount: string;
-  payHereSecret: string;
-  statusCode: number;
-  md5sig: string;
-  method: string;
-  statusMessage: string;
-  cardHolderName?: string;
-  cardNo?: string;
+  paymentId: string | null;
+  amount: number;
+  currency: string;
+  reason?: string | null;
+  isFullRefund: boolean;
 }
 
-export interface PaymentVerificationResult {
-  isValid: boolean;
-  orderId: string;
-  amount: number;
-  status: 'success' | 'failed' | 'pending';
-  transactionId?: string;
+export interface RefundResult {
+  success: boolean;
+  providerRefundId?: string | null;
+  // The gateway's answer never arrived; the refund is still pending
+  pending?: boolean;
   error?: string;
-}
\ No newline at end of file
+}
@@ -0,0 +1,97 @@
+import { supabase } from '../lib/supabase';
+import {
+  AnalyticsInterval,
+  AnalyticsRange,
+  CustomerCohortCell,
+  ProductRankingOrder,
+  ProductSalesRow,
+  SalesBreakdownRow,
+  SalesDimension,
+  SalesSummary,
+  SalesTimeseriesPoint
+} from '../types/analytics';
+
+/**
+ * Revenue, orders, refunds and customer counts for a date range (admin only).
+ * Omit the range for all-time figures.
+ */
+export const fetchSalesSummary = async (range?: AnalyticsRange): Promise<SalesSummary> => {
+  const { data, error } = await supabase.rpc('sales_summary', {
+    p_from: range?.from || null,
+    p_to: range?.to || null,
+  });
+
+  if (error) throw error;
+
+  return data as SalesSummary;
+};
+
+/**
+ * Paid sales by day, week or month, one point per period (admin only)
+ */
+export const fetchSalesTimeseries = async (
+  range: AnalyticsRange,
+  interval: AnalyticsInterval
+): Promise<SalesTimeseriesPoint[]> => {
+  const { data, error } = await supabase.rpc('sales_timeseries', {
+    p_from: range.from,
+    p_to: range.to,
+    p_interval: interval,
+  });
+
+  if (error) throw error;
+
+  return (data || []) as SalesTimeseriesPoint[];
+};
+
+/**
+ * Paid sales grouped by category, collection, size, colour or method (admin only)
+ */
+export const fetchSalesBreakdown = async (
+  range: AnalyticsRange,
+  dimension: SalesDimension
+): Promise<SalesBreakdownRow[]> => {
+  const { data, error } = await supabase.rpc('sales_breakdown', {
+    p_from: range.from,
+    p_to: range.to,
+    p_dimension: dimension,
+  });
+
+  if (error) throw error;
+
+  return (data || []) as SalesBreakdownRow[];
+};
+
+/**
+ * Best sellers or slowest-moving active products (admin only)
+ */
+export const fetchProductRanking = async (
+  range: AnalyticsRange,
+  order: ProductRankingOrder,
+  limit = 10
+): Promise<ProductSalesRow[]> => {
+  const { data, error } = await supabase.rpc('product_sales_ranking', {
+    p_from: range.from,
+    p_to: range.to,
+    p_order: order,
+    p_limit: limit,
+  });
+
+  if (error) throw error;
+
+  return (data || []) as ProductSalesRow[];
+};
+
+/**
+ * Repeat purchases by month of first order (admin only)
+ */
+export const fetchCustomerCohorts = async (range: AnalyticsRange): Promise<CustomerCohortCell[]> => {
+  const { data, error } = await supabase.rpc('customer_cohorts', {
+    p_from: range.from,
+    p_to: range.to,
+  });
+
+  if (error) throw error;
+
+  return (data || []) as CustomerCohortCell[];
+};
@@ -0,0 +1,83 @@
+import { supabase } from '../lib/supabase';
+import { Brand, BrandInput, BrandWithCount } from '../types/brand';
+
+/**
+ * All brands A to Z with their number of live products. Pass
+ * includeEmpty=false for the storefront, which hides brands with nothing
+ * to show.
+ */
+export const fetchBrands = async (includeEmpty = true): Promise<BrandWithCount[]> => {
+  const { data, error } = await supabase
+    .from('brands')
+    .select(`
+      *,
+      products(count)
+    `)
+    .eq('products.is_active', true)
+    .is('products.deleted_at', null)
+    .order('name', { ascending: true });
+
+  if (error) throw error;
+
+  const brands = (data || []).map(({ products, ...brand }) => ({
+    ...brand,
+    productCount: products?.[0]?.count || 0
+  })) as BrandWithCount[];
+
+  return includeEmpty ? brands : brands.filter(brand => brand.productCount > 0);
+};
+
+export const fetchBrandBySlug = async (slug: string): Promise<Brand | null> => {
+  const { data, error } = await supabase
+    .from('brands')
+    .select('*')
+    .eq('slug', slug)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  return data as Brand | null;
+};
+
+export const createBrand = async (input: BrandInput): Promise<Brand> => {
+  const { data, error } = await supabase
+    .from('brands')
+    .insert([input])
+    .select()
+    .single();
+
+  if (error) throw error;
+
+  return data as Brand;
+};
+
+export const updateBrand = async (id: string, input: BrandInput): Promise<Brand> => {
+  const { data, error } = await supabase
+    .from('brands')
+    .update(input)
+    .eq('id', id)
+    .select()
+    .single();
+
+  if (error) throw error;
+
+  return data as Brand;
+};
+
+/**
+ * Delete a brand. Its products stay in the catalogue without a brand.
+ */
+export const deleteBrand = async (id: string): Promise<void> => {
+  const { error } = await supabase
+    .from('brands')
+    .delete()
+    .eq('id', id);
+
+  if (error) throw error;
+};
+
+/**
+ * Public URL of a brand logo in the kixora bucket
+ */
+export const getBrandLogoUrl = (logoPath: string): string =>
+  `${import.meta.env.VITE_SUPABASE_URL}/storage/v1/object/public/kixora/${logoPath}`;
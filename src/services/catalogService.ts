@@ -0,0 +1,25 @@
+import { supabase } from '../lib/supabase';
+import { CatalogFilters, CatalogPage, CatalogSort } from '../types/catalog';
+
+/**
+ * One page of the storefront catalogue with the total match count and facet
+ * counts for the filter sidebar. Sorting is stable, so consecutive offsets
+ * never repeat or skip a product.
+ */
+export const fetchCatalogPage = async (
+  filters: CatalogFilters,
+  sort: CatalogSort = 'newest',
+  limit = 12,
+  offset = 0
+): Promise<CatalogPage> => {
+  const { data, error } = await supabase.rpc('catalog_products', {
+    p_filters: filters,
+    p_sort: sort,
+    p_limit: limit,
+    p_offset: offset,
+  });
+
+  if (error) throw error;
+
+  return data as CatalogPage;
+};
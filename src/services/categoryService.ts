@@ -0,0 +1,35 @@
+import { supabase } from '../lib/supabase';
+import { Category } from '../types/category';
+
+/**
+ * Every category, siblings in display order. Build the tree with
+ * buildCategoryTree.
+ */
+export const fetchCategories = async (): Promise<Category[]> => {
+  const { data, error } = await supabase
+    .from('categories')
+    .select('*')
+    .order('display_order', { ascending: true })
+    .order('name', { ascending: true });
+
+  if (error) throw error;
+  return (data || []) as Category[];
+};
+
+/**
+ * Move a category under a new parent (null for the top level) at a position
+ * among its new siblings, counting from 0
+ */
+export const moveCategory = async (
+  categoryId: string,
+  parentId: string | null,
+  position: number
+): Promise<void> => {
+  const { error } = await supabase.rpc('move_category', {
+    p_category_id: categoryId,
+    p_parent_id: parentId,
+    p_position: position
+  });
+
+  if (error) throw error;
+};
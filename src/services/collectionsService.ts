@@ -1,5 +1,5 @@
 import { supabase } from '../lib/supabase';
-import { Collection, CollectionWithProducts, HeroCollection } from '../types/collection';
+import { Collection, CollectionWithProducts, HeroCollection, PinnedCollection } from '../types/collection';
 
 /**
  * Fetch all active collections for hero swiper
@@ -15,6 +15,7 @@ export const fetchActiveCollections = async (): Promise<HeroCollection[]> => {
         description,
         image_url,
         is_active,
+        is_pinned,
         display_order,
         created_at,
         updated_at,
@@ -49,6 +50,7 @@ export const fetchCollectionBySlug = async (slug: string): Promise<CollectionWit
         description,
         image_url,
         is_active,
+        is_pinned,
         display_order,
         created_at,
         updated_at,
@@ -60,6 +62,8 @@ export const fetchCollectionBySlug = async (slug: string): Promise<CollectionWit
             slug,
             price,
             sku,
+            rating_average,
+            review_count,
             brands(
               name,
               slug
@@ -84,7 +88,7 @@ export const fetchCollectionBySlug = async (slug: string): Promise<CollectionWit
 
     if (error) throw error;
 
-    return data;
+    return data as unknown as CollectionWithProducts;
   } catch (error) {
     console.error('Error fetching collection by slug:', error);
     return null;
@@ -105,6 +109,7 @@ export const fetchAllCollections = async (): Promise<Collection[]> => {
         description,
         image_url,
         is_active,
+        is_pinned,
         display_order,
         created_at,
         updated_at
@@ -173,7 +178,7 @@ export const fetchCollectionProducts = async (collectionId: string) => {
 /**
  * Fetch the pinned collection with its products for homepage display
  */
-export const fetchPinnedCollection = async () => {
+export const fetchPinnedCollection = async (): Promise<PinnedCollection | null> => {
   try {
     // First, get the pinned collection
     const { data: collection, error: collectionError } = await supabase
@@ -205,6 +210,8 @@ export const fetchPinnedCollection = async () => {
           price,
           sku,
           featured,
+          rating_average,
+          review_count,
           brands(
             name,
             slug
@@ -232,15 +239,17 @@ export const fetchPinnedCollection = async () => {
     }
 
     // Transform the data structure
-    const products = collectionProducts
-      ?.map(item => ({
-        ...item.products,
-        position: item.display_order,
-        brand: item.products.brands?.name,
-        image: item.products.product_images?.[0]?.storage_path,
-        images: item.products.product_images?.map(img => img.storage_path) || [],
-        variants: item.products.product_variants?.filter(v => v.is_active !== false) || []
-      })) || [];
+    const rows = (collectionProducts || []) as unknown as CollectionWithProducts['collection_products'];
+    const products = rows.map(item => ({
+      ...item.products,
+      position: item.display_order,
+      rating: item.products.rating_average,
+      reviewCount: item.products.review_count,
+      brand: item.products.brands?.name,
+      image: item.products.product_images?.[0]?.storage_path,
+      images: item.products.product_images?.map(img => img.storage_path) || [],
+      variants: item.products.product_variants?.filter(v => v.is_active !== false) || []
+    }));
 
     return {
       ...collection,
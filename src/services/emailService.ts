@@ -0,0 +1,195 @@
+import { supabase } from '../lib/supabase';
+import {
+  BankTransferDetails,
+  EmailTemplate,
+  EmailTemplateKey,
+  EmailTemplateUpdate,
+  OutboxEmail,
+  OutboxFilters,
+  SendEmailsResult,
+  SupportRequestReply
+} from '../types/email';
+
+const OUTBOX_COLUMNS = 'id, template_key, recipient, order_id, support_request_id, status, attempts, next_attempt_at, subject, last_error, sent_at, created_at';
+
+/**
+ * All transactional email templates (admin only)
+ */
+export const fetchEmailTemplates = async (): Promise<EmailTemplate[]> => {
+  const { data, error } = await supabase
+    .from('email_templates')
+    .select('*')
+    .order('name');
+
+  if (error) throw error;
+
+  return (data || []) as EmailTemplate[];
+};
+
+export const updateEmailTemplate = async (
+  key: EmailTemplateKey,
+  update: EmailTemplateUpdate
+): Promise<EmailTemplate> => {
+  const { data: { user } } = await supabase.auth.getUser();
+
+  const { data, error } = await supabase
+    .from('email_templates')
+    .update({ ...update, updated_by: user?.id ?? null })
+    .eq('key', key)
+    .select('*')
+    .single();
+
+  if (error) throw error;
+
+  return data as EmailTemplate;
+};
+
+/**
+ * The most recent queued and sent emails, newest first (admin only)
+ */
+export const fetchOutboxEmails = async (filters: OutboxFilters = {}, limit = 100): Promise<OutboxEmail[]> => {
+  let query = supabase
+    .from('email_outbox')
+    .select(OUTBOX_COLUMNS)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (filters.status && filters.status !== 'all') {
+    query = query.eq('status', filters.status);
+  }
+  if (filters.templateKey && filters.templateKey !== 'all') {
+    query = query.eq('template_key', filters.templateKey);
+  }
+  if (filters.search?.trim()) {
+    query = query.ilike('recipient', `%${filters.search.trim()}%`);
+  }
+
+  const { data, error } = await query;
+
+  if (error) throw error;
+
+  return (data || []) as OutboxEmail[];
+};
+
+/**
+ * Every email queued for one order, oldest first (admin only)
+ */
+export const fetchOrderEmails = async (orderId: string): Promise<OutboxEmail[]> => {
+  const { data, error } = await supabase
+    .from('email_outbox')
+    .select(OUTBOX_COLUMNS)
+    .eq('order_id', orderId)
+    .order('created_at');
+
+  if (error) throw error;
+
+  return (data || []) as OutboxEmail[];
+};
+
+/**
+ * Queue a sent or failed email again
+ */
+export const retryEmail = async (emailId: string): Promise<void> => {
+  const { error } = await supabase.rpc('retry_email', { p_id: emailId });
+
+  if (error) throw error;
+};
+
+/**
+ * Send whatever is waiting in the email queue. Emails are queued by the
+ * database whenever an order or support request changes, so call this after
+ * those changes to send them straight away.
+ */
+export const sendQueuedEmails = async (): Promise<SendEmailsResult> => {
+  const session = (await supabase.auth.getSession()).data.session;
+
+  const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/send-emails`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${session?.access_token || import.meta.env.VITE_SUPABASE_ANON_KEY}`,
+    },
+  });
+
+  const result = await response.json();
+
+  if (!result.success) {
+    throw new Error(result.error || 'Failed to send emails');
+  }
+
+  return result as SendEmailsResult;
+};
+
+/**
+ * sendQueuedEmails for callers that shouldn't wait on it; anything it misses
+ * is picked up by the next scheduled run.
+ */
+export const flushEmailQueue = () => {
+  sendQueuedEmails().catch((error) => {
+    console.error('Error sending queued emails:', error);
+  });
+};
+
+export const fetchSupportRequestReplies = async (supportRequestId: string): Promise<SupportRequestReply[]> => {
+  const { data, error } = await supabase
+    .from('support_request_replies')
+    .select('*')
+    .eq('support_request_id', supportRequestId)
+    .order('created_at');
+
+  if (error) throw error;
+
+  return (data || []) as SupportRequestReply[];
+};
+
+/**
+ * Reply to a support request; the reply is emailed to the requester
+ */
+export const replyToSupportRequest = async (
+  supportRequestId: string,
+  message: string
+): Promise<SupportRequestReply> => {
+  const { data: { user } } = await supabase.auth.getUser();
+
+  const { data, error } = await supabase
+    .from('support_request_replies')
+    .insert({
+      support_request_id: supportRequestId,
+      author_id: user?.id ?? null,
+      message: message.trim(),
+    })
+    .select('*')
+    .single();
+
+  if (error) throw error;
+
+  flushEmailQueue();
+
+  return data as SupportRequestReply;
+};
+
+const EMPTY_BANK_DETAILS: BankTransferDetails = { bank: '', branch: '', account_name: '', account_number: '' };
+
+export const fetchBankTransferDetails = async (): Promise<BankTransferDetails> => {
+  const { data, error } = await supabase
+    .from('store_settings')
+    .select('value')
+    .eq('key', 'bank_transfer_details')
+    .maybeSingle();
+
+  if (error) throw error;
+
+  return { ...EMPTY_BANK_DETAILS, ...(data?.value || {}) } as BankTransferDetails;
+};
+
+export const updateBankTransferDetails = async (details: BankTransferDetails): Promise<void> => {
+  const { error } = await supabase
+    .from('store_settings')
+    .upsert({
+      key: 'bank_transfer_details',
+      value: details,
+      updated_at: new Date().toISOString(),
+    });
+
+  if (error) throw error;
+};
@@ -0,0 +1,95 @@
+import { supabase } from '../lib/supabase';
+import {
+  InventoryVariant,
+  LowStockDigestResult,
+  StockAdjustment,
+  StockAdjustmentReason,
+  StockMovement
+} from '../types/inventory';
+
+/**
+ * Every variant with its stock, units held by pending orders and 30-day
+ * sell-through (admin only)
+ */
+export const fetchInventory = async (): Promise<InventoryVariant[]> => {
+  const { data, error } = await supabase.rpc('inventory_overview');
+
+  if (error) throw error;
+
+  return (data || []) as InventoryVariant[];
+};
+
+/**
+ * Apply a batch of stock adjustments under one reason. Each change lands in
+ * the stock ledger. Returns the number of variants adjusted.
+ */
+export const adjustStock = async (
+  adjustments: StockAdjustment[],
+  reason: StockAdjustmentReason,
+  note?: string
+): Promise<number> => {
+  const { data, error } = await supabase.rpc('adjust_variant_stock', {
+    p_adjustments: adjustments,
+    p_reason: reason,
+    p_note: note || null,
+  });
+
+  if (error) throw error;
+
+  return data as number;
+};
+
+/**
+ * Set a variant's low-stock threshold, or clear it to fall back to the store default
+ */
+export const updateLowStockThreshold = async (variantId: string, threshold: number | null): Promise<void> => {
+  const { error } = await supabase
+    .from('product_variants')
+    .update({ low_stock_threshold: threshold })
+    .eq('id', variantId);
+
+  if (error) throw error;
+};
+
+/**
+ * A variant's stock ledger, newest first
+ */
+export const fetchStockMovements = async (variantId: string, limit = 100): Promise<StockMovement[]> => {
+  const { data, error } = await supabase
+    .from('stock_movements')
+    .select('*')
+    .eq('variant_id', variantId)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) throw error;
+
+  return (data || []) as StockMovement[];
+};
+
+/**
+ * Email the low-stock digest to the admins now instead of waiting for the daily run
+ */
+export const sendLowStockDigest = async (): Promise<LowStockDigestResult> => {
+  const session = (await supabase.auth.getSession()).data.session;
+
+  if (!session?.access_token) {
+    throw new Error('Authentication required. Please log in again.');
+  }
+
+  const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/low-stock-digest`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${session.access_token}`,
+    },
+  });
+
+  const result = await response.json();
+
+  if (!result.success) {
+    throw new Error(result.error || 'Failed to send low stock digest');
+  }
+
+  return result as LowStockDigestResult;
+};
@@ -0,0 +1,259 @@
+import { supabase } from '../lib/supabase';
+import {
+  CodCollection,
+  CodRemittance,
+  CodRules,
+  PaymentSlip,
+  PaymentSlipInput,
+} from '../types/payment';
+
+const DEFAULT_COD_RULES: CodRules = {
+  min_order_total: 0,
+  max_order_total: null,
+  fee: 0,
+  blocked_districts: [],
+};
+
+/**
+ * Upload a bank transfer slip to payment-slips/<order id>/ and submit it for
+ * review. Guests pass the order's access token.
+ */
+export const uploadPaymentSlip = async (
+  orderId: string,
+  file: File,
+  input: PaymentSlipInput = {},
+  accessToken?: string
+): Promise<PaymentSlip> => {
+  const fileExt = file.name.split('.').pop() || 'jpg';
+  const fileName = `${Date.now()}-${Math.random().toString(36).substring(2)}.${fileExt}`;
+  const filePath = `payment-slips/${orderId}/${fileName}`;
+
+  const { error: uploadError } = await supabase.storage
+    .from('kixora')
+    .upload(filePath, file);
+
+  if (uploadError) {
+    throw new Error(`Failed to upload ${file.name}: ${uploadError.message}`);
+  }
+
+  const { data, error } = await supabase.rpc('submit_payment_slip', {
+    p_order_id: orderId,
+    p_file_path: filePath,
+    p_file_name: file.name,
+    p_amount: input.amount ?? null,
+    p_reference: input.reference || null,
+    p_access_token: accessToken || null,
+  });
+
+  if (error) throw error;
+
+  return data as PaymentSlip;
+};
+
+/**
+ * Slips uploaded for an order, newest first
+ */
+export const fetchOrderPaymentSlips = async (
+  orderId: string,
+  accessToken?: string
+): Promise<PaymentSlip[]> => {
+  const { data, error } = await supabase.rpc('get_order_payment_slips', {
+    p_order_id: orderId,
+    p_access_token: accessToken || null,
+  });
+
+  if (error) throw error;
+
+  return (data || []) as PaymentSlip[];
+};
+
+/**
+ * Slips waiting for a decision across all orders, oldest first (admin only)
+ */
+export const fetchSlipsAwaitingReview = async (): Promise<PaymentSlip[]> => {
+  const { data, error } = await supabase
+    .from('payment_slips')
+    .select(`
+      *,
+      orders ( order_number, total, currency )
+    `)
+    .eq('status', 'submitted')
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+
+  return (data || []) as PaymentSlip[];
+};
+
+/**
+ * Approve a slip, which marks the order paid, or reject it with a note for
+ * the customer (admin only)
+ */
+export const reviewPaymentSlip = async (
+  slipId: string,
+  approve: boolean,
+  note?: string
+): Promise<PaymentSlip> => {
+  const { data, error } = await supabase.rpc('review_payment_slip', {
+    p_slip_id: slipId,
+    p_approve: approve,
+    p_note: note || null,
+  });
+
+  if (error) throw error;
+
+  return data as PaymentSlip;
+};
+
+/**
+ * Public URL of a payment slip in the kixora bucket
+ */
+export const getPaymentSlipUrl = (filePath: string): string =>
+  `${import.meta.env.VITE_SUPABASE_URL}/storage/v1/object/public/kixora/${filePath}`;
+
+export const fetchBankTransferDays = async (): Promise<number> => {
+  const { data, error } = await supabase
+    .from('store_settings')
+    .select('value')
+    .eq('key', 'bank_transfer_days')
+    .maybeSingle();
+
+  if (error) throw error;
+
+  return Number(data?.value ?? 3);
+};
+
+export const updateBankTransferDays = async (days: number): Promise<void> => {
+  const { error } = await supabase
+    .from('store_settings')
+    .upsert({
+      key: 'bank_transfer_days',
+      value: days,
+      updated_at: new Date().toISOString(),
+    });
+
+  if (error) throw error;
+};
+
+export const fetchCodRules = async (): Promise<CodRules> => {
+  const { data, error } = await supabase
+    .from('store_settings')
+    .select('value')
+    .eq('key', 'cod_rules')
+    .maybeSingle();
+
+  if (error) throw error;
+
+  return { ...DEFAULT_COD_RULES, ...(data?.value || {}) } as CodRules;
+};
+
+export const updateCodRules = async (rules: CodRules): Promise<void> => {
+  const { error } = await supabase
+    .from('store_settings')
+    .upsert({
+      key: 'cod_rules',
+      value: rules,
+      updated_at: new Date().toISOString(),
+    });
+
+  if (error) throw error;
+};
+
+/**
+ * COD collections, oldest first. Pass remitted=false for the cash couriers
+ * still owe the store.
+ */
+export const fetchCodCollections = async (remitted?: boolean): Promise<CodCollection[]> => {
+  let query = supabase
+    .from('cod_collections')
+    .select(`
+      *,
+      orders ( order_number ),
+      couriers ( name )
+    `)
+    .order('collected_at', { ascending: true });
+
+  if (remitted === false) {
+    query = query.is('remittance_id', null);
+  } else if (remitted === true) {
+    query = query.not('remittance_id', 'is', null);
+  }
+
+  const { data, error } = await query;
+
+  if (error) throw error;
+
+  return (data || []) as CodCollection[];
+};
+
+export const fetchOrderCodCollection = async (orderId: string): Promise<CodCollection | null> => {
+  const { data, error } = await supabase
+    .from('cod_collections')
+    .select('*')
+    .eq('order_id', orderId)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  return data as CodCollection | null;
+};
+
+export const fetchCodRemittances = async (limit = 50): Promise<CodRemittance[]> => {
+  const { data, error } = await supabase
+    .from('cod_remittances')
+    .select(`
+      *,
+      couriers ( name ),
+      cod_collections ( id, collected_amount )
+    `)
+    .order('remitted_on', { ascending: false })
+    .limit(limit);
+
+  if (error) throw error;
+
+  return (data || []) as CodRemittance[];
+};
+
+/**
+ * Record what the courier collected for a COD order. Can be corrected until
+ * the collection is remitted.
+ */
+export const recordCodCollection = async (
+  orderId: string,
+  collectedAmount: number,
+  note?: string
+): Promise<CodCollection> => {
+  const { data, error } = await supabase.rpc('record_cod_collection', {
+    p_order_id: orderId,
+    p_collected_amount: collectedAmount,
+    p_note: note || null,
+  });
+
+  if (error) throw error;
+
+  return data as CodCollection;
+};
+
+/**
+ * Record a courier payout covering the given collections, which must all be
+ * from the same courier
+ */
+export const recordCodRemittance = async (
+  collectionIds: string[],
+  reference: string,
+  amount: number,
+  remittedOn?: string,
+  note?: string
+): Promise<CodRemittance> => {
+  const { data, error } = await supabase.rpc('record_cod_remittance', {
+    p_collection_ids: collectionIds,
+    p_reference: reference,
+    p_amount: amount,
+    p_remitted_on: remittedOn || null,
+    p_note: note || null,
+  });
+
+  if (error) throw error;
+
+  return data as CodRemittance;
+};
@@ -0,0 +1,70 @@
+import { supabase } from '../lib/supabase';
+import { InvoiceDetails, OrderDocument } from '../types/orderDocument';
+
+/**
+ * Orders in print form. Admins can fetch a batch; customers and guests
+ * holding the order link only their own order.
+ */
+export const fetchOrderDocuments = async (orderIds: string[], accessToken?: string): Promise<OrderDocument[]> => {
+  const { data, error } = await supabase.rpc('get_order_documents', {
+    p_order_ids: orderIds,
+    p_access_token: accessToken ?? null,
+  });
+
+  if (error) throw error;
+
+  return (data || []) as OrderDocument[];
+};
+
+/** Ids of the orders in a status, newest first, for bulk printing */
+export const fetchOrderIdsForPrint = async (status: string, limit = 200): Promise<string[]> => {
+  let query = supabase
+    .from('orders')
+    .select('id')
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (status !== 'all') {
+    query = query.eq('status', status);
+  }
+
+  const { data, error } = await query;
+
+  if (error) throw error;
+
+  return (data || []).map(row => row.id as string);
+};
+
+const DEFAULT_INVOICE_DETAILS: InvoiceDetails = {
+  business_name: 'Kixora',
+  address: '',
+  phone: '',
+  email: '',
+  tax_number: '',
+  tax_rate: 0,
+  footer: '',
+};
+
+export const fetchInvoiceDetails = async (): Promise<InvoiceDetails> => {
+  const { data, error } = await supabase
+    .from('store_settings')
+    .select('value')
+    .eq('key', 'invoice_details')
+    .maybeSingle();
+
+  if (error) throw error;
+
+  return { ...DEFAULT_INVOICE_DETAILS, ...(data?.value || {}) } as InvoiceDetails;
+};
+
+export const updateInvoiceDetails = async (details: InvoiceDetails): Promise<void> => {
+  const { error } = await supabase
+    .from('store_settings')
+    .upsert({
+      key: 'invoice_details',
+      value: details,
+      updated_at: new Date().toISOString(),
+    });
+
+  if (error) throw error;
+};
@@ -0,0 +1,64 @@
+import { supabase } from '../lib/supabase';
+import { GuestOrderLink } from '../types/order';
+
+/**
+ * Link to an order for someone who isn't signed in; the access token stands
+ * in for the account.
+ */
+export const guestOrderPath = (orderId: string, accessToken: string) =>
+  `/orders/${orderId}?token=${encodeURIComponent(accessToken)}`;
+
+/**
+ * Fetch an order with its items through its access token, shaped like the
+ * order page's own select.
+ */
+export const fetchGuestOrder = async (orderId: string, accessToken: string) => {
+  const { data, error } = await supabase.rpc('get_guest_order', {
+    p_order_id: orderId,
+    p_access_token: accessToken,
+  });
+
+  if (error) throw error;
+
+  return data;
+};
+
+/**
+ * Find a guest order from its order number and the email it was placed with.
+ */
+export const findGuestOrder = async (orderNumber: string, email: string): Promise<GuestOrderLink> => {
+  const { data, error } = await supabase.rpc('find_guest_order', {
+    p_order_number: orderNumber,
+    p_email: email,
+  });
+
+  if (error) throw error;
+
+  return data as GuestOrderLink;
+};
+
+/**
+ * Admin: move an order to a new status. Cancelling goes through
+ * cancelOrder instead, which restocks and refunds.
+ */
+export const setOrderStatus = async (orderId: string, status: string): Promise<void> => {
+  const { error } = await supabase.rpc('set_order_status', {
+    p_order_id: orderId,
+    p_status: status,
+  });
+
+  if (error) throw error;
+};
+
+/**
+ * Admin: move an order's payment status forward; the database refuses
+ * backwards moves.
+ */
+export const setOrderPaymentStatus = async (orderId: string, paymentStatus: string): Promise<void> => {
+  const { error } = await supabase.rpc('set_order_payment_status', {
+    p_order_id: orderId,
+    p_payment_status: paymentStatus,
+  });
+
+  if (error) throw error;
+};
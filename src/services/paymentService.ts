@@ -0,0 +1,193 @@
+import { supabase } from '../lib/supabase';
+import { OrderReservation, PaymentEvent } from '../types/order';
+import { getPaymentProvider } from '../paymentProviders';
+import { fetchGuestOrder } from './orderService';
+import { PaymentCheckout, PaymentCheckoutResult } from '../paymentProviders/types';
+import { DEFAULT_PAYMENT_METHODS, PaymentMethodCode, isPaymentMethodCode } from '../paymentProviders/methods';
+
+export interface OrderPaymentRequest {
+  orderId: string;
+  amount: number;
+  currency: string;
+  customerInfo: {
+    firstName: string;
+    lastName: string;
+    email: string;
+    phone: string;
+    address: string;
+    city: string;
+    country: string;
+  };
+  items: Array<{
+    itemNumber: string;
+    itemName: string;
+    amount: number;
+    quantity: number;
+  }>;
+  // Guests pay with the order's access token instead of a session
+  accessToken?: string;
+}
+
+/**
+ * Create a payment for an existing order through its payment method's
+ * gateway and take the shopper through it.
+ * Throws if the order's payment window has expired or the shopper abandons the payment.
+ */
+export const startOrderPayment = async (
+  paymentMethod: string,
+  request: OrderPaymentRequest
+): Promise<PaymentCheckoutResult> => {
+  const provider = getPaymentProvider(paymentMethod);
+
+  if (!provider) {
+    throw new Error(`${paymentMethod} payments are not taken online`);
+  }
+
+  const session = (await supabase.auth.getSession()).data.session;
+
+  if (!session?.access_token && !request.accessToken) {
+    throw new Error('Authentication required. Please log in again.');
+  }
+
+  const functionUrl = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/create-payment`;
+
+  const response = await fetch(functionUrl, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${session?.access_token || import.meta.env.VITE_SUPABASE_ANON_KEY}`,
+    },
+    body: JSON.stringify(request),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`Payment function error (${response.status}): ${errorText}`);
+  }
+
+  const responseData = await response.json();
+
+  if (!responseData.success) {
+    throw new Error(responseData.error || 'Payment creation failed');
+  }
+
+  return provider.startCheckout(responseData.checkout as PaymentCheckout);
+};
+
+/**
+ * Payment methods offered at checkout, from the enabled_payment_methods store setting.
+ */
+export const fetchEnabledPaymentMethods = async (): Promise<PaymentMethodCode[]> => {
+  const { data, error } = await supabase
+    .from('store_settings')
+    .select('value')
+    .eq('key', 'enabled_payment_methods')
+    .maybeSingle();
+
+  if (error) throw error;
+
+  const methods = Array.isArray(data?.value)
+    ? (data.value as unknown[]).filter((code): code is PaymentMethodCode => isPaymentMethodCode(code as string))
+    : [];
+
+  return methods.length > 0 ? methods : DEFAULT_PAYMENT_METHODS;
+};
+
+/**
+ * Rebuild the payment request for a saved order, used to retry a payment
+ * while its stock is still reserved. Guests pass the order's access token
+ * and pay as the email the order was placed with.
+ */
+export const buildOrderPaymentRequest = async (
+  orderId: string,
+  email: string,
+  accessToken?: string
+): Promise<{ paymentMethod: string; request: OrderPaymentRequest }> => {
+  const { data, error } = accessToken
+    ? { data: await fetchGuestOrder(orderId, accessToken), error: null }
+    : await supabase
+      .from('orders')
+      .select(`
+        id,
+        total,
+        payment_method,
+        currency,
+        shipping_address,
+        guest_email,
+        order_items (
+          product_title,
+          variant_info,
+          quantity,
+          unit_price
+        )
+      `)
+      .eq('id', orderId)
+      .single();
+
+  if (error) throw error;
+
+  const address = data.shipping_address || {};
+
+  return {
+    paymentMethod: data.payment_method,
+    request: {
+      orderId: data.id,
+      amount: Number(data.total),
+      currency: data.currency,
+      customerInfo: {
+        firstName: address.firstName || '',
+        lastName: address.lastName || '',
+        email: email || data.guest_email || '',
+        phone: address.phone || '',
+        address: address.address || '',
+        city: address.city || '',
+        country: address.country || 'Sri Lanka',
+      },
+      items: (data.order_items as Array<{
+        product_title: string;
+        variant_info: { sku?: string; size?: string; color?: string } | null;
+        quantity: number;
+        unit_price: number;
+      }>).map(item => ({
+        itemNumber: item.variant_info?.sku || '',
+        itemName: `${item.product_title} (${item.variant_info?.color}, Size ${item.variant_info?.size})`,
+        amount: Number(item.unit_price),
+        quantity: item.quantity,
+      })),
+      accessToken,
+    },
+  };
+};
+
+/**
+ * Fetch an order's stock reservation, expiring it first if its payment
+ * window has already passed. Guests pass the order's access token.
+ */
+export const checkOrderReservation = async (
+  orderId: string,
+  accessToken?: string
+): Promise<OrderReservation> => {
+  const { data, error } = await supabase.rpc('check_order_reservation', {
+    p_order_id: orderId,
+    p_access_token: accessToken ?? null,
+  });
+
+  if (error) throw error;
+
+  return data as OrderReservation;
+};
+
+/**
+ * Fetch every payment notification recorded for an order, oldest first (admin only).
+ */
+export const fetchPaymentEvents = async (orderId: string): Promise<PaymentEvent[]> => {
+  const { data, error } = await supabase
+    .from('payment_events')
+    .select('*')
+    .eq('order_id', orderId)
+    .order('received_at', { ascending: true });
+
+  if (error) throw error;
+
+  return (data || []) as PaymentEvent[];
+};
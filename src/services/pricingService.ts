@@ -0,0 +1,32 @@
+import { supabase } from '../lib/supabase';
+import { PriceBreakdown, PricingItem } from '../types/order';
+import { ShippingDestination } from '../types/shipping';
+
+/**
+ * Fetch the server-side price breakdown for a set of cart items.
+ * This is the same calculation create_order_with_stock_management uses.
+ * An unusable discount code is reported in discount_error rather than thrown,
+ * and a method the destination's shipping zone doesn't offer in shipping_error.
+ * Without a destination the domestic catch-all zone is used. With a payment
+ * method, its fee is added to the total and a COD order the rules don't allow
+ * is reported in payment_error.
+ */
+export const fetchOrderPricing = async (
+  items: PricingItem[],
+  shippingMethod: string,
+  discountCode?: string | null,
+  destination?: ShippingDestination | null,
+  paymentMethod?: string | null
+): Promise<PriceBreakdown> => {
+  const { data, error } = await supabase.rpc('calculate_order_pricing', {
+    p_order_items: items,
+    p_shipping_method: shippingMethod,
+    p_discount_code: discountCode || null,
+    p_shipping_address: destination || null,
+    p_payment_method: paymentMethod || null,
+  });
+
+  if (error) throw error;
+
+  return data as PriceBreakdown;
+};
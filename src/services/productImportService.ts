@@ -0,0 +1,416 @@
+import { supabase } from '../lib/supabase';
+import { isValidColor, normalizeColorName } from './colorService';
+import { CsvColumn, downloadCsv, parseCsv } from '../utils/csv';
+import {
+  PRODUCT_CSV_HEADERS,
+  ProductCsvHeader,
+  ProductImportImage,
+  ProductImportIssue,
+  ProductImportParseResult,
+  ProductImportProduct,
+  ProductImportResult
+} from '../types/productImport';
+
+const STORAGE_BUCKET = 'kixora';
+const PUBLIC_STORAGE_MARKER = `/storage/v1/object/public/${STORAGE_BUCKET}/`;
+
+// Product columns that must agree on every row of the same product
+const PRODUCT_FIELDS: ProductCsvHeader[] = [
+  'title', 'slug', 'description', 'price', 'weight_kg',
+  'category', 'brand', 'is_active', 'featured', 'images'
+];
+
+interface ProductExportRow {
+  product_sku: string;
+  title: string;
+  slug: string | null;
+  description: string | null;
+  price: number;
+  weight_kg: number;
+  category: string | null;
+  brand: string | null;
+  is_active: boolean;
+  featured: boolean;
+  images: string;
+  variant_sku: string | null;
+  size: string | null;
+  color: string | null;
+  price_override: number | null;
+  stock: number | null;
+  variant_active: boolean | null;
+}
+
+const EXPORT_COLUMNS: CsvColumn<ProductExportRow>[] = PRODUCT_CSV_HEADERS.map(header => ({
+  header,
+  value: row => row[header],
+}));
+
+/**
+ * Download every product that isn't deleted as a CSV, one row per variant
+ */
+export const exportProductsCsv = async (): Promise<number> => {
+  const { data, error } = await supabase
+    .from('products')
+    .select(`
+      sku, title, slug, description, price, weight_kg, is_active, featured,
+      categories (slug),
+      brands (slug),
+      product_variants (sku, size, color, price_override, stock, is_active),
+      product_images (storage_path, display_order)
+    `)
+    .is('deleted_at', null)
+    .order('title');
+
+  if (error) throw error;
+
+  const rows: ProductExportRow[] = [];
+
+  for (const product of data || []) {
+    const images = [...(product.product_images || [])]
+      .sort((a, b) => a.display_order - b.display_order)
+      .map(image => image.storage_path)
+      .join('|');
+
+    const base = {
+      product_sku: product.sku,
+      title: product.title,
+      slug: product.slug,
+      description: product.description,
+      price: product.price,
+      weight_kg: product.weight_kg,
+      category: (product.categories as unknown as { slug: string } | null)?.slug || null,
+      brand: (product.brands as unknown as { slug: string } | null)?.slug || null,
+      is_active: product.is_active,
+      featured: product.featured,
+      images,
+    };
+
+    const variants = [...(product.product_variants || [])].sort((a, b) => a.sku.localeCompare(b.sku));
+
+    if (variants.length === 0) {
+      rows.push({
+        ...base,
+        variant_sku: null,
+        size: null,
+        color: null,
+        price_override: null,
+        stock: null,
+        variant_active: null,
+      });
+      continue;
+    }
+
+    for (const variant of variants) {
+      rows.push({
+        ...base,
+        variant_sku: variant.sku,
+        size: variant.size,
+        color: variant.color,
+        price_override: variant.price_override,
+        stock: variant.stock,
+        variant_active: variant.is_active,
+      });
+    }
+  }
+
+  downloadCsv(`products-${new Date().toISOString().slice(0, 10)}`, rows, EXPORT_COLUMNS);
+
+  return rows.length;
+};
+
+const parseBoolean = (value: string): boolean | null | undefined => {
+  const normalized = value.trim().toLowerCase();
+  if (normalized === '') return null;
+  if (['true', 'yes', 'y', '1'].includes(normalized)) return true;
+  if (['false', 'no', 'n', '0'].includes(normalized)) return false;
+  return undefined;
+};
+
+const parseNumber = (value: string, integer = false): number | null | undefined => {
+  const trimmed = value.trim();
+  if (trimmed === '') return null;
+
+  const parsed = Number(trimmed);
+  if (!Number.isFinite(parsed) || parsed < 0 || (integer && !Number.isInteger(parsed))) {
+    return undefined;
+  }
+
+  return parsed;
+};
+
+const parseImages = (value: string): ProductImportImage[] =>
+  value
+    .split('|')
+    .map(source => source.trim())
+    .filter(Boolean)
+    .map(source => {
+      if (!/^https?:\/\//i.test(source)) {
+        return { source, storage_path: source.replace(/^\/+/, '') };
+      }
+
+      // Public URLs of our own bucket are just storage paths
+      const markerIndex = source.indexOf(PUBLIC_STORAGE_MARKER);
+      if (markerIndex >= 0) {
+        return { source, storage_path: decodeURIComponent(source.slice(markerIndex + PUBLIC_STORAGE_MARKER.length)) };
+      }
+
+      return { source, storage_path: null };
+    });
+
+/**
+ * Parse and check a product CSV without touching the database. Row numbers
+ * match the spreadsheet, with the header on row 1.
+ */
+export const parseProductCsv = (text: string): ProductImportParseResult => {
+  const errors: ProductImportIssue[] = [];
+  const [headerRow, ...dataRows] = parseCsv(text);
+
+  if (!headerRow) {
+    return { products: [], errors: [{ row: null, message: 'The file is empty' }] };
+  }
+
+  const headers = headerRow.map(header => header.trim().toLowerCase());
+  const missing = ['product_sku', 'variant_sku'].filter(header => !headers.includes(header));
+  if (missing.length > 0) {
+    return { products: [], errors: [{ row: 1, message: `Missing column${missing.length === 1 ? '' : 's'}: ${missing.join(', ')}` }] };
+  }
+
+  const unknown = headers.filter(header => header && !PRODUCT_CSV_HEADERS.includes(header as ProductCsvHeader));
+  if (unknown.length > 0) {
+    errors.push({ row: 1, message: `Ignoring unknown column${unknown.length === 1 ? '' : 's'}: ${unknown.join(', ')}`, warning: true });
+  }
+
+  const products = new Map<string, ProductImportProduct>();
+  const productCells = new Map<string, Partial<Record<ProductCsvHeader, string>>>();
+  const variantRows = new Map<string, number>();
+
+  dataRows.forEach((cells, index) => {
+    const row = index + 2;
+    if (cells.every(cell => cell.trim() === '')) return;
+
+    const cell = (header: ProductCsvHeader) => {
+      const position = headers.indexOf(header);
+      return position >= 0 ? (cells[position] || '').trim() : '';
+    };
+
+    const addError = (field: ProductCsvHeader, message: string) => errors.push({ row, field, message });
+
+    const productSku = cell('product_sku');
+    if (!productSku) {
+      addError('product_sku', 'Product SKU is required');
+      return;
+    }
+
+    let product = products.get(productSku);
+
+    if (!product) {
+      const price = parseNumber(cell('price'));
+      const weight = parseNumber(cell('weight_kg'));
+      const isActive = parseBoolean(cell('is_active'));
+      const featured = parseBoolean(cell('featured'));
+
+      if (price === undefined) addError('price', `Price "${cell('price')}" is not a valid amount`);
+      if (weight === undefined) addError('weight_kg', `Weight "${cell('weight_kg')}" is not a valid number`);
+      if (isActive === undefined) addError('is_active', `"${cell('is_active')}" is not true or false`);
+      if (featured === undefined) addError('featured', `"${cell('featured')}" is not true or false`);
+
+      const slug = cell('slug');
+      if (slug && /[\s/?#]/.test(slug)) {
+        addError('slug', `Slug "${slug}" can't contain spaces, slashes, ? or #`);
+      }
+
+      product = {
+        row,
+        sku: productSku,
+        title: cell('title') || null,
+        slug: slug || null,
+        description: cell('description') || null,
+        price: price ?? null,
+        weight_kg: weight ?? null,
+        category_slug: cell('category') || null,
+        brand_slug: cell('brand') || null,
+        is_active: isActive ?? null,
+        featured: featured ?? null,
+        images: parseImages(cell('images')),
+        variants: [],
+      };
+
+      products.set(productSku, product);
+      productCells.set(productSku, Object.fromEntries(PRODUCT_FIELDS.map(field => [field, cell(field)])));
+    } else {
+      // Later rows may leave product cells blank but can't contradict the first row
+      const first = productCells.get(productSku)!;
+      for (const field of PRODUCT_FIELDS) {
+        const value = cell(field);
+        if (value && first[field] && value !== first[field]) {
+          addError(field, `${field} differs from row ${product.row} for product ${productSku}`);
+        }
+      }
+    }
+
+    const size = cell('size');
+    const color = cell('color');
+    let variantSku = cell('variant_sku');
+
+    if (!variantSku) {
+      // A row without variant cells describes the product only
+      if (!size && !color && !cell('price_override') && !cell('stock') && !cell('variant_active')) return;
+      addError('variant_sku', 'Variant SKU is required when size, colour or stock are given');
+      return;
+    }
+
+    variantSku = variantSku.trim();
+    const previousRow = variantRows.get(variantSku.toLowerCase());
+    if (previousRow) {
+      addError('variant_sku', `Variant SKU "${variantSku}" is already used on row ${previousRow}`);
+      return;
+    }
+    variantRows.set(variantSku.toLowerCase(), row);
+
+    if (color && !isValidColor(color)) {
+      addError('color', `Unknown colour "${color}"`);
+    }
+
+    const priceOverride = parseNumber(cell('price_override'));
+    const stock = parseNumber(cell('stock'), true);
+    const variantActive = parseBoolean(cell('variant_active'));
+
+    if (priceOverride === undefined) addError('price_override', `Price override "${cell('price_override')}" is not a valid amount`);
+    if (stock === undefined) addError('stock', `Stock "${cell('stock')}" must be a whole number of 0 or more`);
+    if (variantActive === undefined) addError('variant_active', `"${cell('variant_active')}" is not true or false`);
+
+    product.variants.push({
+      row,
+      sku: variantSku,
+      size: size || null,
+      color: color && isValidColor(color) ? normalizeColorName(color) : color || null,
+      price_override: priceOverride ?? null,
+      stock: stock ?? null,
+      is_active: variantActive ?? null,
+    });
+  });
+
+  // New slugs must be unique within the file too
+  const slugRows = new Map<string, number>();
+  for (const product of products.values()) {
+    if (!product.slug) continue;
+    const previousRow = slugRows.get(product.slug);
+    if (previousRow) {
+      errors.push({ row: product.row, field: 'slug', message: `Slug "${product.slug}" is already used on row ${previousRow}` });
+    }
+    slugRows.set(product.slug, product.row);
+  }
+
+  if (products.size === 0 && errors.length === 0) {
+    errors.push({ row: null, message: 'The file has no product rows' });
+  }
+
+  return { products: Array.from(products.values()), errors };
+};
+
+// Outside images are copied into our bucket so they are served like uploads
+const copyExternalImage = async (url: string): Promise<{ storage_path: string; file_name: string; file_size: number }> => {
+  let response: Response;
+  try {
+    response = await fetch(url);
+  } catch {
+    throw new Error(`Could not download ${url}`);
+  }
+
+  if (!response.ok) {
+    throw new Error(`Could not download ${url} (${response.status})`);
+  }
+
+  const blob = await response.blob();
+  if (!blob.type.startsWith('image/')) {
+    throw new Error(`${url} is not an image`);
+  }
+
+  const extension = blob.type.split('/')[1]?.replace('jpeg', 'jpg') || 'jpg';
+  const fileName = `import_${Date.now()}_${Math.random().toString(36).substring(7)}.${extension}`;
+  const storagePath = `products/imports/${fileName}`;
+
+  const { error } = await supabase.storage
+    .from(STORAGE_BUCKET)
+    .upload(storagePath, blob, { cacheControl: '3600', upsert: false, contentType: blob.type });
+
+  if (error) throw new Error(`Failed to upload ${url}: ${error.message}`);
+
+  return { storage_path: storagePath, file_name: fileName, file_size: blob.size };
+};
+
+/**
+ * Check the parsed products against the database (dry run) or write them.
+ * Committing copies outside image URLs into storage first and deletes image
+ * files the import replaced.
+ */
+export const runProductImport = async (
+  products: ProductImportProduct[],
+  dryRun: boolean
+): Promise<ProductImportResult> => {
+  const copied: string[] = [];
+
+  try {
+    const payload = [];
+
+    for (const product of products) {
+      const images = [];
+
+      for (const [index, image] of product.images.entries()) {
+        let storagePath = image.storage_path;
+        let fileName = storagePath?.split('/').pop() || '';
+        let fileSize = 0;
+
+        if (!storagePath && !dryRun) {
+          const upload = await copyExternalImage(image.source);
+          copied.push(upload.storage_path);
+          storagePath = upload.storage_path;
+          fileName = upload.file_name;
+          fileSize = upload.file_size;
+        }
+
+        images.push({
+          storage_path: storagePath || image.source,
+          image_url: storagePath
+            ? supabase.storage.from(STORAGE_BUCKET).getPublicUrl(storagePath).data.publicUrl
+            : image.source,
+          file_name: fileName,
+          file_size: String(fileSize),
+          display_order: index,
+        });
+      }
+
+      payload.push({ ...product, images });
+    }
+
+    const { data, error } = await supabase.rpc('import_products', {
+      p_products: payload,
+      p_dry_run: dryRun,
+    });
+
+    if (error) throw error;
+
+    const result = data as ProductImportResult;
+
+    if (!result.committed && copied.length > 0) {
+      await supabase.storage.from(STORAGE_BUCKET).remove(copied);
+    }
+
+    if (result.committed && result.removed_images.length > 0) {
+      const { error: removeError } = await supabase.storage
+        .from(STORAGE_BUCKET)
+        .remove(result.removed_images);
+
+      if (removeError) {
+        console.error('Error deleting replaced product images:', removeError);
+      }
+    }
+
+    return result;
+  } catch (error) {
+    if (copied.length > 0) {
+      await supabase.storage.from(STORAGE_BUCKET).remove(copied);
+    }
+    throw error;
+  }
+};
@@ -0,0 +1,115 @@
+import { supabase } from '../lib/supabase';
+import { getPaymentProvider } from '../paymentProviders';
+import { flushEmailQueue } from './emailService';
+import { Refund, RefundLineInput } from '../types/order';
+
+export interface IssueRefundRequest {
+  orderId: string;
+  orderTotal: number;
+  paymentMethod: string | null | undefined;
+  paymentProviderId: string | null | undefined;
+  lines: RefundLineInput[];
+  reason?: string;
+  restock: boolean;
+  // Record a refund that was paid out outside the gateway
+  manual?: boolean;
+}
+
+/**
+ * Fetch an order's refunds and chargebacks with their lines, oldest first
+ */
+export const fetchOrderRefunds = async (orderId: string): Promise<Refund[]> => {
+  const { data, error } = await supabase
+    .from('refunds')
+    .select('*, refund_items (*)')
+    .eq('order_id', orderId)
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+
+  return (data || []) as Refund[];
+};
+
+/**
+ * Record the outcome of a manual refund, or settle one left pending after
+ * the gateway's answer was lost (admin only)
+ */
+export const completeRefund = async (
+  refundId: string,
+  succeeded: boolean,
+  providerRefundId?: string | null,
+  errorMessage?: string
+): Promise<Refund> => {
+  const { data, error } = await supabase.rpc('complete_refund', {
+    p_refund_id: refundId,
+    p_succeeded: succeeded,
+    p_provider_refund_id: providerRefundId ?? null,
+    p_error: errorMessage ?? null,
+  });
+
+  if (error) throw error;
+
+  // A successful refund queues the customer's email
+  if (succeeded) {
+    flushEmailQueue();
+  }
+
+  return data as Refund;
+};
+
+/**
+ * Refund some or all of an order's lines (admin only). The amount is priced
+ * server-side; the order's payment provider is then asked to pay it out, or
+ * the refund is recorded straight away for manual and offline payments.
+ * Throws with the provider's message if the refund is declined, or if its
+ * outcome is unknown, in which case the refund stays pending.
+ */
+export const issueRefund = async (request: IssueRefundRequest): Promise<Refund> => {
+  const provider = request.manual ? null : getPaymentProvider(request.paymentMethod);
+
+  const { data, error } = await supabase.rpc('create_refund', {
+    p_order_id: request.orderId,
+    p_lines: request.lines,
+    p_reason: request.reason || null,
+    p_restock: request.restock,
+    p_method: provider ? 'provider' : 'manual',
+  });
+
+  if (error) throw error;
+
+  const refund = data as Refund;
+
+  if (!provider) {
+    return completeRefund(refund.id, true);
+  }
+
+  const result = await provider.refundPayment({
+    refundId: refund.id,
+    orderId: request.orderId,
+    paymentId: request.paymentProviderId ?? null,
+    amount: Number(refund.amount),
+    currency: refund.currency,
+    reason: refund.reason,
+    isFullRefund: Number(refund.amount) >= Number(request.orderTotal),
+  });
+
+  if (!result.success) {
+    const message = result.error || `${provider.name} declined the refund`;
+    throw new Error(result.pending
+      ? `${message}. The refund stays pending; check ${provider.name} before settling it.`
+      : message);
+  }
+
+  // The edge function has recorded the refund, which queued the customer's email
+  flushEmailQueue();
+
+  const { data: completed, error: fetchError } = await supabase
+    .from('refunds')
+    .select('*, refund_items (*)')
+    .eq('id', refund.id)
+    .single();
+
+  if (fetchError) throw fetchError;
+
+  return completed as Refund;
+};
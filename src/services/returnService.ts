@@ -0,0 +1,162 @@
+import { supabase } from '../lib/supabase';
+import { flushEmailQueue } from './emailService';
+import {
+  CancelOrderResult,
+  ReturnLineInput,
+  ReturnRequest,
+  ReturnRequestStatus,
+  ReturnRequestType
+} from '../types/return';
+
+/**
+ * Cancel an order that has not shipped. The cancel-order edge function gives
+ * the stock back and refunds online payments through the gateway; refunds it
+ * cannot pay out straight away are left pending for the store.
+ */
+export const cancelOrder = async (orderId: string, reason: string): Promise<CancelOrderResult> => {
+  const session = (await supabase.auth.getSession()).data.session;
+
+  if (!session?.access_token) {
+    throw new Error('Authentication required. Please log in again.');
+  }
+
+  const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/cancel-order`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${session.access_token}`,
+    },
+    body: JSON.stringify({ orderId, reason }),
+  });
+
+  const result = await response.json();
+
+  if (!result.success) {
+    throw new Error(result.error || 'Failed to cancel order');
+  }
+
+  flushEmailQueue();
+
+  return result as CancelOrderResult;
+};
+
+/**
+ * Fetch an order's return and exchange requests with their lines and photos,
+ * newest first
+ */
+export const fetchOrderReturns = async (orderId: string): Promise<ReturnRequest[]> => {
+  const { data, error } = await supabase
+    .from('return_requests')
+    .select(`
+      *,
+      return_request_items (
+        *,
+        exchange_variant:product_variants ( size, color )
+      ),
+      return_request_photos (*)
+    `)
+    .eq('order_id', orderId)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+
+  return (data || []) as ReturnRequest[];
+};
+
+/**
+ * Number of days after delivery a return can be requested
+ */
+export const fetchReturnWindowDays = async (): Promise<number> => {
+  const { data } = await supabase
+    .from('store_settings')
+    .select('value')
+    .eq('key', 'return_window_days')
+    .maybeSingle();
+
+  const days = Number(data?.value);
+
+  return Number.isFinite(days) && days > 0 ? days : 14;
+};
+
+/**
+ * Open a return or exchange for some of a delivered order's lines.
+ * The database checks the return window and returnable quantities.
+ */
+export const createReturnRequest = async (
+  orderId: string,
+  type: ReturnRequestType,
+  lines: ReturnLineInput[],
+  note?: string
+): Promise<ReturnRequest> => {
+  const { data, error } = await supabase.rpc('create_return_request', {
+    p_order_id: orderId,
+    p_type: type,
+    p_items: lines,
+    p_note: note || null,
+  });
+
+  if (error) throw error;
+
+  return data as ReturnRequest;
+};
+
+/**
+ * Upload photos for a return request to returns/<user id>/<request id>/
+ */
+export const uploadReturnPhotos = async (
+  userId: string,
+  returnRequestId: string,
+  files: File[]
+): Promise<void> => {
+  for (const file of files) {
+    const fileExt = file.name.split('.').pop() || 'jpg';
+    const fileName = `${Date.now()}-${Math.random().toString(36).substring(2)}.${fileExt}`;
+    const filePath = `returns/${userId}/${returnRequestId}/${fileName}`;
+
+    const { error: uploadError } = await supabase.storage
+      .from('kixora')
+      .upload(filePath, file);
+
+    if (uploadError) {
+      throw new Error(`Failed to upload ${file.name}: ${uploadError.message}`);
+    }
+
+    const { error: photoError } = await supabase
+      .from('return_request_photos')
+      .insert({
+        return_request_id: returnRequestId,
+        file_path: filePath,
+        file_name: file.name,
+      });
+
+    if (photoError) throw photoError;
+  }
+};
+
+/**
+ * Move a return request to its next status. Customers may only cancel their
+ * own request; every other change is admin only.
+ */
+export const updateReturnStatus = async (
+  returnRequestId: string,
+  status: ReturnRequestStatus,
+  adminNote?: string,
+  refundId?: string
+): Promise<ReturnRequest> => {
+  const { data, error } = await supabase.rpc('update_return_status', {
+    p_return_id: returnRequestId,
+    p_status: status,
+    p_admin_note: adminNote || null,
+    p_refund_id: refundId ?? null,
+  });
+
+  if (error) throw error;
+
+  return data as ReturnRequest;
+};
+
+/**
+ * Public URL of a return photo in the kixora bucket
+ */
+export const getReturnPhotoUrl = (filePath: string): string =>
+  `${import.meta.env.VITE_SUPABASE_URL}/storage/v1/object/public/kixora/${filePath}`;
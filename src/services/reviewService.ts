@@ -0,0 +1,146 @@
+import { supabase } from '../lib/supabase';
+import { AdminReview, RatingSummary, Review, ReviewInput, ReviewStatus } from '../types/review';
+
+/**
+ * Fetch approved reviews for a product, newest first
+ */
+export const fetchProductReviews = async (productId: string): Promise<Review[]> => {
+  const { data, error } = await supabase
+    .from('reviews')
+    .select('*')
+    .eq('product_id', productId)
+    .eq('status', 'approved')
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+
+  return data || [];
+};
+
+/**
+ * Build the star distribution shown above the review list
+ */
+export const summarizeReviews = (reviews: Pick<Review, 'rating'>[]): RatingSummary => {
+  const distribution: RatingSummary['distribution'] = { 1: 0, 2: 0, 3: 0, 4: 0, 5: 0 };
+  let total = 0;
+
+  reviews.forEach(review => {
+    distribution[review.rating as keyof RatingSummary['distribution']] += 1;
+    total += review.rating;
+  });
+
+  return {
+    average: reviews.length > 0 ? Math.round((total / reviews.length) * 10) / 10 : 0,
+    count: reviews.length,
+    distribution
+  };
+};
+
+/**
+ * Fetch the signed-in user's reviews for the given products (any status)
+ */
+export const fetchUserReviews = async (userId: string, productIds: string[]): Promise<Review[]> => {
+  if (productIds.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('reviews')
+    .select('*')
+    .eq('user_id', userId)
+    .in('product_id', productIds);
+
+  if (error) throw error;
+
+  return data || [];
+};
+
+/**
+ * Create or update the user's review for a product.
+ * The database resets it to pending and sets the verified purchase flag.
+ */
+export const submitReview = async (
+  userId: string,
+  productId: string,
+  input: ReviewInput
+): Promise<Review> => {
+  const { data, error } = await supabase
+    .from('reviews')
+    .upsert({
+      product_id: productId,
+      user_id: userId,
+      rating: input.rating,
+      title: input.title.trim() || null,
+      content: input.content.trim() || null
+    }, { onConflict: 'product_id,user_id' })
+    .select()
+    .single();
+
+  if (error) throw error;
+
+  return data;
+};
+
+/**
+ * Delete the user's review
+ */
+export const deleteReview = async (reviewId: string): Promise<void> => {
+  const { error } = await supabase
+    .from('reviews')
+    .delete()
+    .eq('id', reviewId);
+
+  if (error) throw error;
+};
+
+/**
+ * Fetch reviews for the admin moderation queue
+ */
+export const fetchReviewsForModeration = async (status?: ReviewStatus): Promise<AdminReview[]> => {
+  let query = supabase
+    .from('reviews')
+    .select(`
+      *,
+      products (
+        title,
+        slug
+      ),
+      profiles (
+        full_name,
+        email
+      )
+    `)
+    .order('created_at', { ascending: false });
+
+  if (status) {
+    query = query.eq('status', status);
+  }
+
+  const { data, error } = await query;
+
+  if (error) throw error;
+
+  return data || [];
+};
+
+/**
+ * Approve or reject a review (admin only, enforced by RLS)
+ */
+export const moderateReview = async (reviewId: string, status: ReviewStatus): Promise<void> => {
+  const { error } = await supabase
+    .from('reviews')
+    .update({ status })
+    .eq('id', reviewId);
+
+  if (error) throw error;
+};
+
+/**
+ * Save or clear the public store reply on a review (admin only, enforced by RLS)
+ */
+export const replyToReview = async (reviewId: string, reply: string): Promise<void> => {
+  const { error } = await supabase
+    .from('reviews')
+    .update({ admin_reply: reply.trim() || null })
+    .eq('id', reviewId);
+
+  if (error) throw error;
+};
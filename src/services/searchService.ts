@@ -0,0 +1,45 @@
+import { supabase } from '../lib/supabase';
+import { ProductSearchHit, SearchAutocompleteResult } from '../types/search';
+
+/**
+ * Products matching a search, best match first. Matches title, brand,
+ * category, SKUs, colours and description, and tolerates small typos.
+ */
+export const searchProducts = async (query: string, limit = 500): Promise<ProductSearchHit[]> => {
+  const { data, error } = await supabase.rpc('search_products', {
+    p_query: query,
+    p_limit: limit,
+  });
+
+  if (error) throw error;
+
+  return (data || []) as ProductSearchHit[];
+};
+
+/**
+ * Products, categories and collections for the search box as the shopper types
+ */
+export const fetchSearchAutocomplete = async (query: string, limit = 6): Promise<SearchAutocompleteResult> => {
+  const { data, error } = await supabase.rpc('search_autocomplete', {
+    p_query: query,
+    p_limit: limit,
+  });
+
+  if (error) throw error;
+
+  return data as SearchAutocompleteResult;
+};
+
+/**
+ * "Did you mean" alternatives for a search that found nothing
+ */
+export const fetchSearchSuggestions = async (query: string, limit = 3): Promise<string[]> => {
+  const { data, error } = await supabase.rpc('search_suggestions', {
+    p_query: query,
+    p_limit: limit,
+  });
+
+  if (error) throw error;
+
+  return (data || []) as string[];
+};
@@ -0,0 +1,125 @@
+import { supabase } from '../lib/supabase';
+import {
+  Courier,
+  CourierUpdate,
+  CreateShipmentInput,
+  Shipment,
+  ShipmentEvent,
+  ShipmentEventInput,
+  SyncShipmentsResult
+} from '../types/shipment';
+
+export const fetchCouriers = async (includeInactive = false): Promise<Courier[]> => {
+  let query = supabase
+    .from('couriers')
+    .select('*')
+    .order('sort_order');
+
+  if (!includeInactive) {
+    query = query.eq('is_active', true);
+  }
+
+  const { data, error } = await query;
+
+  if (error) throw error;
+
+  return (data || []) as Courier[];
+};
+
+export const updateCourier = async (code: string, update: CourierUpdate): Promise<Courier> => {
+  const { data, error } = await supabase
+    .from('couriers')
+    .update(update)
+    .eq('code', code)
+    .select('*')
+    .single();
+
+  if (error) throw error;
+
+  return data as Courier;
+};
+
+/**
+ * An order's shipments with their items and tracking timeline, oldest first.
+ * Guests pass the access token from their order link.
+ */
+export const fetchOrderShipments = async (orderId: string, accessToken?: string): Promise<Shipment[]> => {
+  const { data, error } = await supabase.rpc('get_order_shipments', {
+    p_order_id: orderId,
+    p_access_token: accessToken ?? null,
+  });
+
+  if (error) throw error;
+
+  return (data || []) as Shipment[];
+};
+
+/**
+ * Dispatch some or all of an order's units. The order moves to shipped once
+ * every unit is in a shipment.
+ */
+export const createShipment = async (input: CreateShipmentInput): Promise<Shipment> => {
+  const { data, error } = await supabase.rpc('create_shipment', {
+    p_order_id: input.orderId,
+    p_courier_code: input.courierCode,
+    p_items: input.items,
+    p_tracking_number: input.trackingNumber || null,
+    p_tracking_url: input.trackingUrl || null,
+    p_notes: input.notes || null,
+  });
+
+  if (error) throw error;
+
+  return data as Shipment;
+};
+
+export const recordShipmentEvent = async (
+  shipmentId: string,
+  event: ShipmentEventInput
+): Promise<ShipmentEvent> => {
+  const { data, error } = await supabase.rpc('record_shipment_event', {
+    p_shipment_id: shipmentId,
+    p_status: event.status,
+    p_description: event.description,
+    p_location: event.location || null,
+    p_occurred_at: event.occurredAt || new Date().toISOString(),
+  });
+
+  if (error) throw error;
+
+  return data as ShipmentEvent;
+};
+
+export const cancelShipment = async (shipmentId: string, reason?: string): Promise<void> => {
+  const { error } = await supabase.rpc('cancel_shipment', {
+    p_shipment_id: shipmentId,
+    p_reason: reason || null,
+  });
+
+  if (error) throw error;
+};
+
+/**
+ * Pull the latest tracking from the couriers that support it, for one
+ * shipment or every open one
+ */
+export const syncShipmentTracking = async (shipmentId?: string): Promise<SyncShipmentsResult> => {
+  const session = (await supabase.auth.getSession()).data.session;
+
+  const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/sync-shipments`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${session?.access_token || import.meta.env.VITE_SUPABASE_ANON_KEY}`,
+    },
+    body: JSON.stringify(shipmentId ? { shipmentId } : {}),
+  });
+
+  const result = await response.json();
+
+  if (!result.success) {
+    throw new Error(result.error || 'Failed to sync tracking');
+  }
+
+  return result as SyncShipmentsResult;
+};
@@ -0,0 +1,185 @@
+import { supabase } from '../lib/supabase';
+import {
+  SendSmsResult,
+  SmsMessage,
+  SmsMessageFilters,
+  SmsOtpRequestResult,
+  SmsOtpVerifyResult,
+  SmsTemplate,
+  SmsTemplateKey,
+  SmsTemplateUpdate
+} from '../types/sms';
+
+const MESSAGE_COLUMNS = 'id, template_key, phone, user_id, order_id, status, attempts, next_attempt_at, body, provider, last_error, sent_at, created_at';
+
+/**
+ * All SMS templates (admin only)
+ */
+export const fetchSmsTemplates = async (): Promise<SmsTemplate[]> => {
+  const { data, error } = await supabase
+    .from('sms_templates')
+    .select('*')
+    .order('name');
+
+  if (error) throw error;
+
+  return (data || []) as SmsTemplate[];
+};
+
+export const updateSmsTemplate = async (
+  key: SmsTemplateKey,
+  update: SmsTemplateUpdate
+): Promise<SmsTemplate> => {
+  const { data: { user } } = await supabase.auth.getUser();
+
+  const { data, error } = await supabase
+    .from('sms_templates')
+    .update({ ...update, updated_by: user?.id ?? null })
+    .eq('key', key)
+    .select('*')
+    .single();
+
+  if (error) throw error;
+
+  return data as SmsTemplate;
+};
+
+/**
+ * The most recent queued and sent texts, newest first (admin only)
+ */
+export const fetchSmsMessages = async (filters: SmsMessageFilters = {}, limit = 100): Promise<SmsMessage[]> => {
+  let query = supabase
+    .from('sms_messages')
+    .select(MESSAGE_COLUMNS)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (filters.status && filters.status !== 'all') {
+    query = query.eq('status', filters.status);
+  }
+  if (filters.templateKey && filters.templateKey !== 'all') {
+    query = query.eq('template_key', filters.templateKey);
+  }
+  if (filters.search?.trim()) {
+    query = query.ilike('phone', `%${filters.search.trim().replace(/^0/, '')}%`);
+  }
+
+  const { data, error } = await query;
+
+  if (error) throw error;
+
+  return (data || []) as SmsMessage[];
+};
+
+/**
+ * Every text queued for one order, oldest first (admin only)
+ */
+export const fetchOrderSmsMessages = async (orderId: string): Promise<SmsMessage[]> => {
+  const { data, error } = await supabase
+    .from('sms_messages')
+    .select(MESSAGE_COLUMNS)
+    .eq('order_id', orderId)
+    .order('created_at');
+
+  if (error) throw error;
+
+  return (data || []) as SmsMessage[];
+};
+
+/**
+ * Queue a sent, failed or skipped order text again
+ */
+export const retrySms = async (messageId: string): Promise<void> => {
+  const { error } = await supabase.rpc('retry_sms', { p_id: messageId });
+
+  if (error) throw error;
+};
+
+/**
+ * Send whatever is waiting in the SMS queue. Texts are queued by the
+ * database when an order changes, so call this after those changes to send
+ * them straight away.
+ */
+export const sendQueuedSms = async (): Promise<SendSmsResult> => {
+  const session = (await supabase.auth.getSession()).data.session;
+
+  const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/send-sms`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${session?.access_token || import.meta.env.VITE_SUPABASE_ANON_KEY}`,
+    },
+  });
+
+  const result = await response.json();
+
+  if (!result.success) {
+    throw new Error(result.error || 'Failed to send SMS');
+  }
+
+  return result as SendSmsResult;
+};
+
+/**
+ * sendQueuedSms for callers that shouldn't wait on it
+ */
+export const flushSmsQueue = () => {
+  sendQueuedSms().catch((error) => {
+    console.error('Error sending queued SMS:', error);
+  });
+};
+
+/**
+ * Text a verification code to a Sri Lankan mobile number
+ */
+export const requestSmsOtp = async (phone: string): Promise<SmsOtpRequestResult> => {
+  const { data, error } = await supabase.rpc('request_sms_otp', { p_phone: phone });
+
+  if (error) throw error;
+
+  flushSmsQueue();
+
+  return data as SmsOtpRequestResult;
+};
+
+/**
+ * Check a verification code; on success the number is saved to the profile
+ * and SMS notifications are turned on
+ */
+export const verifySmsOtp = async (code: string): Promise<SmsOtpVerifyResult> => {
+  const { data, error } = await supabase.rpc('verify_sms_otp', { p_code: code });
+
+  if (error) throw error;
+
+  return data as SmsOtpVerifyResult;
+};
+
+export const setSmsOptIn = async (optIn: boolean): Promise<void> => {
+  const { error } = await supabase.rpc('set_sms_opt_in', { p_opt_in: optIn });
+
+  if (error) throw error;
+};
+
+export const fetchCodReminderHours = async (): Promise<number> => {
+  const { data, error } = await supabase
+    .from('store_settings')
+    .select('value')
+    .eq('key', 'cod_sms_reminder_hours')
+    .maybeSingle();
+
+  if (error) throw error;
+
+  return Number(data?.value ?? 24);
+};
+
+export const updateCodReminderHours = async (hours: number): Promise<void> => {
+  const { error } = await supabase
+    .from('store_settings')
+    .upsert({
+      key: 'cod_sms_reminder_hours',
+      value: hours,
+      updated_at: new Date().toISOString(),
+    });
+
+  if (error) throw error;
+};
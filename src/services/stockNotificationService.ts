@@ -0,0 +1,76 @@
+import { supabase } from '../lib/supabase';
+import {
+  BackInStockNotifyResult,
+  StockNotificationDemand,
+  StockNotificationRequestResult
+} from '../types/inventory';
+
+/**
+ * Ask to be emailed when an out-of-stock variant returns. Signed-in shoppers
+ * use their account email; guests must pass one.
+ */
+export const requestStockNotification = async (
+  variantId: string,
+  email?: string
+): Promise<StockNotificationRequestResult> => {
+  const { data, error } = await supabase.rpc('request_stock_notification', {
+    p_variant_id: variantId,
+    p_email: email || null,
+  });
+
+  if (error) throw error;
+
+  return data as StockNotificationRequestResult;
+};
+
+/**
+ * Cancel every waiting stock alert for the address behind an unsubscribe token
+ */
+export const unsubscribeStockNotifications = async (token: string): Promise<{ email: string; cancelled: number }> => {
+  const { data, error } = await supabase.rpc('unsubscribe_stock_notifications', {
+    p_token: token,
+  });
+
+  if (error) throw error;
+
+  return data as { email: string; cancelled: number };
+};
+
+/**
+ * Waiting and sent stock alerts per variant (admin only)
+ */
+export const fetchStockNotificationDemand = async (): Promise<StockNotificationDemand[]> => {
+  const { data, error } = await supabase.rpc('stock_notification_demand');
+
+  if (error) throw error;
+
+  return (data || []) as StockNotificationDemand[];
+};
+
+/**
+ * Email shoppers waiting on variants that are back in stock. Called after
+ * admin stock edits.
+ */
+export const sendBackInStockNotifications = async (): Promise<BackInStockNotifyResult> => {
+  const session = (await supabase.auth.getSession()).data.session;
+
+  if (!session?.access_token) {
+    throw new Error('Authentication required. Please log in again.');
+  }
+
+  const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/back-in-stock-notify`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${session.access_token}`,
+    },
+  });
+
+  const result = await response.json();
+
+  if (!result.success) {
+    throw new Error(result.error || 'Failed to send back in stock notifications');
+  }
+
+  return result as BackInStockNotifyResult;
+};
@@ -23,10 +23,12 @@ interface CartStore {
   items: CartItem[];
   isOpen: boolean;
   currentUserId: string | null;
+  discountCode: string | null;
   addItem: (item: Omit<CartItem, 'id'>, userId?: string) => Promise<void>;
   updateQuantity: (itemId: string, quantity: number) => Promise<boolean>;
   removeItem: (itemId: string, userId?: string) => Promise<void>;
   clearCart: (userId?: string) => Promise<void>;
+  setDiscountCode: (code: string | null) => void;
   openCart: () => void;
   closeCart: () => void;
   setUserId: (userId: string | null, isNewUser?: boolean) => void;
@@ -41,6 +43,7 @@ export const useCartStore = create<CartStore>()(
       items: [],
       isOpen: false,
       currentUserId: null,
+      discountCode: null,
 
       addItem: async (item, userId) => {
         const items = get().items;
@@ -141,7 +144,7 @@ export const useCartStore = create<CartStore>()(
       },
       
       clearCart: async (userId) => {
-        set({ items: [] });
+        set({ items: [], discountCode: null });
 
         // Auto-sync to database if user is authenticated
         const currentUserId = userId || get().currentUserId;
@@ -154,6 +157,9 @@ export const useCartStore = create<CartStore>()(
         }
       },
       
+      // Code entered in the cart drawer; validated server-side in pricing
+      setDiscountCode: (code) => set({ discountCode: code ? code.trim().toUpperCase() : null }),
+
       openCart: () => set({ isOpen: true }),
       closeCart: () => set({ isOpen: false }),
 
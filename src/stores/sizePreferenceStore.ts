@@ -0,0 +1,71 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { supabase } from '../lib/supabase';
+import { MySize, SizeSystem } from '../utils/sizeChart';
+
+interface SizePreferenceStore {
+  mySize: MySize | null;
+  // System the size filter shows sizes in
+  displaySystem: SizeSystem;
+  currentUserId: string | null;
+  setMySize: (mySize: MySize | null) => Promise<void>;
+  setDisplaySystem: (system: SizeSystem) => void;
+  syncWithProfile: (userId: string, profileSize: MySize | null) => Promise<void>;
+  clearUser: () => void;
+}
+
+const saveToProfile = async (userId: string, mySize: MySize | null) => {
+  const { error } = await supabase
+    .from('profiles')
+    .update({
+      preferred_size: mySize,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', userId);
+
+  if (error) throw error;
+};
+
+export const useSizePreferenceStore = create<SizePreferenceStore>()(
+  persist(
+    (set, get) => ({
+      mySize: null,
+      displaySystem: 'eu',
+      currentUserId: null,
+
+      setMySize: async (mySize: MySize | null) => {
+        set({ mySize, displaySystem: mySize?.system || get().displaySystem });
+
+        const userId = get().currentUserId;
+        if (userId) {
+          await saveToProfile(userId, mySize);
+        }
+      },
+
+      setDisplaySystem: (system: SizeSystem) => set({ displaySystem: system }),
+
+      // The profile wins once signed in; a size picked as a guest is kept
+      // if the profile has none yet
+      syncWithProfile: async (userId: string, profileSize: MySize | null) => {
+        const localSize = get().mySize;
+        set({ currentUserId: userId });
+
+        if (profileSize) {
+          set({ mySize: profileSize, displaySystem: profileSize.system });
+        } else if (localSize) {
+          try {
+            await saveToProfile(userId, localSize);
+          } catch (error) {
+            console.error('Error saving size preference:', error);
+          }
+        }
+      },
+
+      clearUser: () => set({ currentUserId: null }),
+    }),
+    {
+      name: 'size-preference-storage',
+      partialize: (state) => ({ mySize: state.mySize, displaySystem: state.displaySystem }),
+    }
+  )
+);
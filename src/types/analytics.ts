@@ -0,0 +1,58 @@
+export type AnalyticsInterval = 'day' | 'week' | 'month';
+export type SalesDimension = 'category' | 'collection' | 'size' | 'color' | 'payment_method' | 'shipping_method';
+export type ProductRankingOrder = 'top' | 'slowest';
+
+export interface SalesSummary {
+  revenue: number;
+  order_count: number;
+  unit_count: number;
+  average_order_value: number;
+  refunded: number;
+  net_revenue: number;
+  placed_orders: number;
+  cancelled_orders: number;
+  refunded_orders: number;
+  cancellation_rate: number;
+  refund_rate: number;
+  new_customers: number;
+  returning_customers: number;
+}
+
+export interface SalesTimeseriesPoint {
+  period: string;
+  order_count: number;
+  unit_count: number;
+  revenue: number;
+  refunded: number;
+  net_revenue: number;
+  average_order_value: number;
+  new_customers: number;
+  returning_customers: number;
+}
+
+export interface SalesBreakdownRow {
+  label: string;
+  order_count: number;
+  unit_count: number;
+  revenue: number;
+}
+
+export interface ProductSalesRow {
+  product_id: string;
+  title: string;
+  unit_count: number;
+  revenue: number;
+  stock: number;
+  last_sold_at: string | null;
+}
+
+export interface CustomerCohortCell {
+  cohort: string;
+  months_since: number;
+  customers: number;
+}
+
+export interface AnalyticsRange {
+  from: string;
+  to: string;
+}
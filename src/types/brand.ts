@@ -0,0 +1,21 @@
+export interface Brand {
+  id: string;
+  slug: string;
+  name: string;
+  description: string | null;
+  // Storage path in the kixora bucket
+  logo_url: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface BrandWithCount extends Brand {
+  productCount: number;
+}
+
+export interface BrandInput {
+  slug: string;
+  name: string;
+  description: string | null;
+  logo_url: string | null;
+}
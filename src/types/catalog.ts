@@ -0,0 +1,75 @@
+export type CatalogSort = 'relevance' | 'newest' | 'price_asc' | 'price_desc' | 'rating' | 'name';
+
+// Filters understood by catalog_products(); unset keys are ignored
+export interface CatalogFilters {
+  search?: string;
+  category?: string;
+  collection?: string;
+  brands?: string[];
+  sizes?: string[];
+  colors?: string[];
+  min_price?: number;
+  max_price?: number;
+  min_rating?: number;
+  in_stock?: boolean;
+}
+
+export interface CatalogProductVariant {
+  id: string;
+  size: string;
+  color: string;
+  stock: number;
+  is_active: boolean | null;
+}
+
+// Same shape as the PostgREST select ProductsPage used before
+export interface CatalogProductRow {
+  id: string;
+  title: string;
+  slug: string | null;
+  price: number;
+  featured: boolean | null;
+  rating_average: number;
+  review_count: number;
+  created_at: string;
+  categories: { slug: string; name: string } | null;
+  brands: { slug: string; name: string } | null;
+  product_images: { storage_path: string }[];
+  product_variants: CatalogProductVariant[];
+}
+
+export interface FacetCount {
+  value: string;
+  label: string;
+  count: number;
+}
+
+// Each facet is counted with every other filter applied but not its own
+export interface CatalogFacets {
+  categories: FacetCount[];
+  brands: FacetCount[];
+  collections: FacetCount[];
+  sizes: FacetCount[];
+  // Lower-cased colour names
+  colors: FacetCount[];
+  ratings: FacetCount[];
+  in_stock: number;
+  price: { min: number | null; max: number | null };
+}
+
+export interface CatalogPage {
+  total: number;
+  products: CatalogProductRow[];
+  facets: CatalogFacets;
+}
+
+export const EMPTY_CATALOG_FACETS: CatalogFacets = {
+  categories: [],
+  brands: [],
+  collections: [],
+  sizes: [],
+  colors: [],
+  ratings: [],
+  in_stock: 0,
+  price: { min: null, max: null },
+};
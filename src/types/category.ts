@@ -0,0 +1,23 @@
+export interface Category {
+  id: string;
+  slug: string;
+  name: string;
+  description: string | null;
+  image_url: string | null;
+  is_pinned: boolean;
+  // Position among siblings
+  display_order: number;
+  // null for top-level categories
+  parent_id: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// What the tree helpers need, so admin pages can pass slimmer rows
+export type CategoryTreeFields = Pick<Category, 'id' | 'name' | 'parent_id' | 'display_order'>;
+
+// A category with its subcategories nested under it
+export type CategoryNode<T extends CategoryTreeFields = Category> = T & {
+  depth: number;
+  children: CategoryNode<T>[];
+};
@@ -1,3 +1,5 @@
+import { ProductCardItem } from './product';
+
 export interface Collection {
   id: string;
   slug: string;
@@ -21,12 +23,15 @@ export interface CollectionProduct {
 
 export interface CollectionWithProducts extends Collection {
   collection_products: {
-    position: number;
+    display_order: number;
     products: {
       id: string;
       title: string;
+      slug: string;
       price: number;
       sku: string;
+      rating_average?: number;
+      review_count?: number;
       brands?: {
         name: string;
         slug: string;
@@ -37,9 +42,10 @@ export interface CollectionWithProducts extends Collection {
       }[];
       product_variants: {
         id: string;
-        size?: string;
-        color?: string;
+        size: string;
+        color: string;
         stock: number;
+        is_active: boolean | null;
       }[];
     };
   }[];
@@ -47,4 +53,9 @@ export interface CollectionWithProducts extends Collection {
 
 export interface HeroCollection extends Collection {
   productCount?: number;
+}
+
+// The homepage's pinned collection with its products ready for ProductCard
+export interface PinnedCollection extends Pick<Collection, 'id' | 'slug' | 'name' | 'description' | 'image_url'> {
+  products: ProductCardItem[];
 }
\ No newline at end of file
@@ -0,0 +1,25 @@
+export type DiscountType = 'percentage' | 'fixed' | 'free_shipping';
+
+export interface DiscountCode {
+  id: string;
+  code: string;
+  description: string | null;
+  discount_type: DiscountType;
+  value: number;
+  max_discount: number | null;
+  min_subtotal: number;
+  usage_limit: number | null;
+  per_user_limit: number | null;
+  starts_at: string;
+  ends_at: string | null;
+  product_ids: string[];
+  category_ids: string[];
+  collection_ids: string[];
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface DiscountCodeWithUsage extends DiscountCode {
+  discount_redemptions?: { count: number }[];
+}
@@ -0,0 +1,80 @@
+import type { EmailTemplateKey } from '../../supabase/functions/_shared/email/templates.ts';
+
+export type { EmailTemplateKey };
+
+export type EmailStatus = 'pending' | 'sending' | 'sent' | 'failed';
+
+export interface EmailTemplate {
+  key: EmailTemplateKey;
+  name: string;
+  description: string | null;
+  subject: string;
+  body_html: string;
+  is_active: boolean;
+  updated_by: string | null;
+  updated_at: string;
+}
+
+export type EmailTemplateUpdate = Pick<EmailTemplate, 'subject' | 'body_html' | 'is_active'>;
+
+export interface OutboxEmail {
+  id: string;
+  template_key: EmailTemplateKey;
+  recipient: string;
+  order_id: string | null;
+  support_request_id: string | null;
+  status: EmailStatus;
+  attempts: number;
+  next_attempt_at: string;
+  subject: string | null;
+  last_error: string | null;
+  sent_at: string | null;
+  created_at: string;
+}
+
+export interface OutboxFilters {
+  status?: EmailStatus | 'all';
+  templateKey?: EmailTemplateKey | 'all';
+  search?: string;
+}
+
+export interface SendEmailsResult {
+  success: boolean;
+  sent: number;
+  failed: number;
+}
+
+export interface SupportRequestReply {
+  id: string;
+  support_request_id: string;
+  author_id: string | null;
+  message: string;
+  created_at: string;
+}
+
+// store_settings.bank_transfer_details, shown in the bank transfer email
+export interface BankTransferDetails {
+  bank: string;
+  branch: string;
+  account_name: string;
+  account_number: string;
+}
+
+export const EMAIL_STATUS_LABELS: Record<EmailStatus, string> = {
+  pending: 'Queued',
+  sending: 'Sending',
+  sent: 'Sent',
+  failed: 'Failed',
+};
+
+export const EMAIL_TEMPLATE_LABELS: Record<EmailTemplateKey, string> = {
+  order_placed: 'Order placed',
+  bank_transfer_instructions: 'Bank transfer instructions',
+  payment_confirmed: 'Payment confirmed',
+  order_shipped: 'Order shipped',
+  order_delivered: 'Order delivered',
+  order_cancelled: 'Order cancelled',
+  order_refunded: 'Order refunded',
+  support_request_received: 'Support request received',
+  support_request_reply: 'Support request reply',
+};
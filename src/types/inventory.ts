@@ -0,0 +1,80 @@
+export type StockMovementReason =
+  | 'initial'
+  | 'order'
+  | 'order_restock'
+  | 'received'
+  | 'damaged'
+  | 'recount'
+  | 'manual';
+
+export type StockAdjustmentReason = 'received' | 'damaged' | 'recount';
+
+export interface InventoryVariant {
+  variant_id: string;
+  product_id: string;
+  product_title: string;
+  sku: string;
+  size: string | null;
+  color: string | null;
+  is_active: boolean;
+  stock: number;
+  reserved: number;
+  sold_30d: number;
+  sell_through_30d: number;
+  low_stock_threshold: number;
+  threshold_override: number | null;
+  is_low: boolean;
+}
+
+export interface StockMovement {
+  id: string;
+  variant_id: string;
+  change: number;
+  stock_after: number;
+  reason: StockMovementReason;
+  order_id: string | null;
+  note: string | null;
+  created_by: string | null;
+  created_at: string;
+}
+
+// Received and damaged carry a quantity; a recount carries the counted stock
+export interface StockAdjustment {
+  variant_id: string;
+  change?: number;
+  stock?: number;
+}
+
+export interface LowStockDigestResult {
+  success: boolean;
+  sent: number;
+  variants: number;
+}
+
+export const STOCK_MOVEMENT_LABELS: Record<StockMovementReason, string> = {
+  initial: 'Opening stock',
+  order: 'Order',
+  order_restock: 'Order restock',
+  received: 'Received',
+  damaged: 'Damaged',
+  recount: 'Recount',
+  manual: 'Manual edit',
+};
+
+export interface StockNotificationDemand {
+  variant_id: string;
+  waiting: number;
+  notified: number;
+  last_requested_at: string | null;
+}
+
+export interface StockNotificationRequestResult {
+  action: 'subscribed' | 'already_subscribed';
+  email: string;
+}
+
+export interface BackInStockNotifyResult {
+  success: boolean;
+  sent: number;
+  failed: number;
+}
@@ -0,0 +1,138 @@
+export interface PriceBreakdownLine {
+  variant_id: string;
+  product_id: string;
+  product_title: string;
+  sku: string;
+  size: string | null;
+  color: string | null;
+  quantity: number;
+  unit_price: number;
+  line_total: number;
+}
+
+export interface PriceBreakdownDiscount {
+  id: string;
+  code: string;
+  description: string;
+  amount: number;
+  free_shipping: boolean;
+}
+
+export interface ShippingOption {
+  code: string;
+  name: string;
+  description: string | null;
+  cost: number;
+  min_days: number;
+  max_days: number;
+}
+
+export interface CodAvailability {
+  available: boolean;
+  fee: number;
+  reason: string | null;
+}
+
+export interface PriceBreakdown {
+  lines: PriceBreakdownLine[];
+  subtotal: number;
+  shipping: number;
+  shipping_zone: { id: string | null; name: string | null };
+  shipping_method: ShippingOption | null;
+  shipping_options: ShippingOption[];
+  shipping_error: string | null;
+  discounts: PriceBreakdownDiscount[];
+  discount_total: number;
+  discount_code: string | null;
+  discount_error: string | null;
+  cod: CodAvailability;
+  payment_fee: number;
+  payment_error: string | null;
+  total: number;
+  currency: string;
+}
+
+export interface PricingItem {
+  variant_id: string;
+  quantity: number;
+}
+
+export interface CreateOrderResult {
+  order_id: string | null;
+  success: boolean;
+  error_message: string;
+  pricing: PriceBreakdown | null;
+  // Opens the order without signing in; see guestOrderPath
+  access_token: string | null;
+}
+
+// What find_guest_order hands back for an order number and email
+export interface GuestOrderLink {
+  order_id: string;
+  access_token: string;
+}
+
+export interface OrderReservation {
+  status: string;
+  payment_status: string;
+  reserved_until: string | null;
+  cancellation_reason: string | null;
+  can_retry: boolean;
+}
+
+export type PaymentEventOutcome = 'received' | 'applied' | 'duplicate' | 'ignored' | 'rejected';
+
+export interface PaymentEvent {
+  id: string;
+  order_id: string | null;
+  order_reference: string | null;
+  provider: string;
+  provider_payment_id: string | null;
+  status_code: number | null;
+  status_message: string | null;
+  payment_status: string | null;
+  amount: number | null;
+  currency: string | null;
+  payment_method: string | null;
+  signature_valid: boolean;
+  outcome: PaymentEventOutcome;
+  outcome_detail: string | null;
+  raw_payload: Record<string, string>;
+  received_at: string;
+  processed_at: string | null;
+}
+
+export type RefundKind = 'refund' | 'chargeback';
+export type RefundMethod = 'provider' | 'manual';
+export type RefundStatus = 'pending' | 'succeeded' | 'failed';
+
+export interface RefundItem {
+  id: string;
+  refund_id: string;
+  order_item_id: string;
+  quantity: number;
+  amount: number;
+}
+
+export interface Refund {
+  id: string;
+  order_id: string;
+  kind: RefundKind;
+  method: RefundMethod;
+  status: RefundStatus;
+  amount: number;
+  currency: string;
+  reason: string | null;
+  restock: boolean;
+  provider: string | null;
+  provider_refund_id: string | null;
+  error_message: string | null;
+  completed_at: string | null;
+  created_at: string;
+  refund_items?: RefundItem[];
+}
+
+export interface RefundLineInput {
+  order_item_id: string;
+  quantity: number;
+}
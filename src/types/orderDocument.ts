@@ -0,0 +1,71 @@
+export type OrderDocumentKind = 'invoice' | 'packing-slip' | 'label';
+
+// Checkout stores both addresses in this shape
+export interface DocumentAddress {
+  firstName?: string;
+  lastName?: string;
+  address?: string;
+  apartment?: string;
+  city?: string;
+  postalCode?: string;
+  district?: string | null;
+  province?: string | null;
+  country?: string;
+  phone?: string;
+}
+
+export interface OrderDocumentItem {
+  id: string;
+  product_title: string;
+  sku: string | null;
+  size: string | null;
+  color: string | null;
+  quantity: number;
+  unit_price: number;
+  total_price: number;
+}
+
+// One order as returned by get_order_documents
+export interface OrderDocument {
+  id: string;
+  order_number: string;
+  created_at: string;
+  status: string;
+  payment_status: string;
+  payment_method: string | null;
+  shipping_method: string | null;
+  currency: string;
+  subtotal: number;
+  discount_amount: number;
+  discount_code: string | null;
+  shipping_cost: number;
+  payment_fee: number;
+  total: number;
+  shipping_address: DocumentAddress | null;
+  billing_address: DocumentAddress | null;
+  notes: string | null;
+  customer_name: string | null;
+  customer_email: string | null;
+  customer_phone: string | null;
+  tracking_number: string | null;
+  courier_name: string | null;
+  items: OrderDocumentItem[];
+}
+
+// store_settings.invoice_details, the seller block on every document.
+// Prices include tax, so tax_rate only splits out the tax already charged.
+export interface InvoiceDetails {
+  business_name: string;
+  address: string;
+  phone: string;
+  email: string;
+  tax_number: string;
+  tax_rate: number;
+  footer: string;
+}
+
+export const ORDER_DOCUMENT_LABELS: Record<OrderDocumentKind, string> = {
+  invoice: 'Invoices',
+  'packing-slip': 'Packing slips',
+  label: 'Address labels',
+};
@@ -0,0 +1,63 @@
+export type PaymentSlipStatus = 'submitted' | 'approved' | 'rejected';
+
+export interface PaymentSlip {
+  id: string;
+  order_id: string;
+  file_path: string;
+  file_name: string | null;
+  amount: number | null;
+  reference: string | null;
+  status: PaymentSlipStatus;
+  review_note: string | null;
+  reviewed_by: string | null;
+  reviewed_at: string | null;
+  created_at: string;
+  orders?: { order_number: string; total: number; currency: string } | null;
+}
+
+export interface PaymentSlipInput {
+  amount?: number | null;
+  reference?: string;
+}
+
+// store_settings.cod_rules
+export interface CodRules {
+  min_order_total: number;
+  // null means no upper limit
+  max_order_total: number | null;
+  fee: number;
+  blocked_districts: string[];
+}
+
+export interface CodCollection {
+  id: string;
+  order_id: string;
+  courier_code: string | null;
+  expected_amount: number;
+  collected_amount: number;
+  collected_at: string;
+  remittance_id: string | null;
+  note: string | null;
+  created_at: string;
+  updated_at: string;
+  orders?: { order_number: string } | null;
+  couriers?: { name: string } | null;
+}
+
+export interface CodRemittance {
+  id: string;
+  courier_code: string | null;
+  reference: string;
+  amount: number;
+  remitted_on: string;
+  note: string | null;
+  created_at: string;
+  couriers?: { name: string } | null;
+  cod_collections?: Pick<CodCollection, 'id' | 'collected_amount'>[];
+}
+
+export const PAYMENT_SLIP_STATUS_LABELS: Record<PaymentSlipStatus, string> = {
+  submitted: 'Awaiting review',
+  approved: 'Approved',
+  rejected: 'Rejected',
+};
@@ -0,0 +1,21 @@
+export interface ProductCardVariant {
+  id: string;
+  size: string;
+  color: string;
+  stock: number;
+}
+
+// What ProductCard and ProductGrid render; pages map their queries onto it
+export interface ProductCardItem {
+  id: string;
+  title: string;
+  slug?: string;
+  brand?: string;
+  price: number;
+  image?: string;
+  images?: string[];
+  rating?: number;
+  reviewCount?: number;
+  featured?: boolean;
+  variants?: ProductCardVariant[];
+}
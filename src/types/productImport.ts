@@ -0,0 +1,79 @@
+// Columns of the product CSV, in export order. One row per variant; the
+// product columns repeat on every row of the same product.
+export const PRODUCT_CSV_HEADERS = [
+  'product_sku',
+  'title',
+  'slug',
+  'description',
+  'price',
+  'weight_kg',
+  'category',
+  'brand',
+  'is_active',
+  'featured',
+  'images',
+  'variant_sku',
+  'size',
+  'color',
+  'price_override',
+  'stock',
+  'variant_active',
+] as const;
+
+export type ProductCsvHeader = typeof PRODUCT_CSV_HEADERS[number];
+
+export interface ProductImportIssue {
+  row: number | null;
+  field?: string;
+  message: string;
+  // Warnings are reported but don't block the import
+  warning?: boolean;
+}
+
+// An image given as a storage path in the kixora bucket, or an outside URL
+// that is copied into storage when the import is committed
+export interface ProductImportImage {
+  source: string;
+  storage_path: string | null;
+}
+
+export interface ProductImportVariant {
+  row: number;
+  sku: string;
+  size: string | null;
+  color: string | null;
+  price_override: number | null;
+  stock: number | null;
+  is_active: boolean | null;
+}
+
+export interface ProductImportProduct {
+  row: number;
+  sku: string;
+  title: string | null;
+  slug: string | null;
+  description: string | null;
+  price: number | null;
+  weight_kg: number | null;
+  category_slug: string | null;
+  brand_slug: string | null;
+  is_active: boolean | null;
+  featured: boolean | null;
+  images: ProductImportImage[];
+  variants: ProductImportVariant[];
+}
+
+export interface ProductImportParseResult {
+  products: ProductImportProduct[];
+  errors: ProductImportIssue[];
+}
+
+export interface ProductImportResult {
+  committed: boolean;
+  errors: ProductImportIssue[];
+  products_created: number;
+  products_updated: number;
+  variants_created: number;
+  variants_updated: number;
+  removed_images: string[];
+}
@@ -0,0 +1,86 @@
+export type ReturnRequestType = 'return' | 'exchange';
+export type ReturnRequestStatus = 'requested' | 'approved' | 'rejected' | 'received' | 'completed' | 'cancelled';
+export type ReturnReasonCode = 'wrong_size' | 'defective' | 'not_as_described' | 'wrong_item' | 'changed_mind' | 'other';
+
+export const RETURN_REASONS: Record<ReturnReasonCode, string> = {
+  wrong_size: 'Wrong size',
+  defective: 'Damaged or defective',
+  not_as_described: 'Not as described',
+  wrong_item: 'Wrong item sent',
+  changed_mind: 'Changed my mind',
+  other: 'Other',
+};
+
+export const RETURN_STATUS_LABELS: Record<ReturnRequestStatus, string> = {
+  requested: 'Requested',
+  approved: 'Approved',
+  rejected: 'Rejected',
+  received: 'Received',
+  completed: 'Completed',
+  cancelled: 'Cancelled',
+};
+
+// Mirrors is_valid_return_status_transition in the database
+export const RETURN_STATUS_TRANSITIONS: Record<ReturnRequestStatus, ReturnRequestStatus[]> = {
+  requested: ['approved', 'rejected', 'cancelled'],
+  approved: ['received', 'cancelled'],
+  received: ['completed', 'rejected'],
+  rejected: [],
+  completed: [],
+  cancelled: [],
+};
+
+export interface ReturnRequestItem {
+  id: string;
+  return_request_id: string;
+  order_item_id: string;
+  quantity: number;
+  reason_code: ReturnReasonCode;
+  exchange_variant_id: string | null;
+  note: string | null;
+  exchange_variant?: {
+    size: string | null;
+    color: string | null;
+  } | null;
+}
+
+export interface ReturnRequestPhoto {
+  id: string;
+  return_request_id: string;
+  file_path: string;
+  file_name: string | null;
+  created_at: string;
+}
+
+export interface ReturnRequest {
+  id: string;
+  rma_number: string;
+  order_id: string;
+  user_id: string | null;
+  type: ReturnRequestType;
+  status: ReturnRequestStatus;
+  customer_note: string | null;
+  admin_note: string | null;
+  refund_id: string | null;
+  resolved_at: string | null;
+  created_at: string;
+  updated_at: string;
+  return_request_items?: ReturnRequestItem[];
+  return_request_photos?: ReturnRequestPhoto[];
+}
+
+export interface ReturnLineInput {
+  order_item_id: string;
+  quantity: number;
+  reason_code: ReturnReasonCode;
+  exchange_variant_id?: string | null;
+  note?: string | null;
+}
+
+export interface CancelOrderResult {
+  status: string;
+  payment_status: string;
+  refund_id: string | null;
+  // Outcome of the automatic gateway refund, null when nothing was paid
+  refundStatus: 'pending' | 'succeeded' | 'failed' | null;
+}
@@ -0,0 +1,40 @@
+export type ReviewStatus = 'pending' | 'approved' | 'rejected';
+
+export interface Review {
+  id: string;
+  product_id: string;
+  user_id: string;
+  rating: number;
+  title: string | null;
+  content: string | null;
+  is_verified_purchase: boolean;
+  status: ReviewStatus;
+  reviewer_name: string | null;
+  admin_reply: string | null;
+  admin_reply_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ReviewInput {
+  rating: number;
+  title: string;
+  content: string;
+}
+
+export interface RatingSummary {
+  average: number;
+  count: number;
+  distribution: Record<1 | 2 | 3 | 4 | 5, number>;
+}
+
+export interface AdminReview extends Review {
+  products?: {
+    title: string;
+    slug: string | null;
+  };
+  profiles?: {
+    full_name: string | null;
+    email: string;
+  };
+}
@@ -0,0 +1,35 @@
+export interface ProductSearchHit {
+  product_id: string;
+  rank: number;
+}
+
+export interface AutocompleteProduct {
+  id: string;
+  slug: string | null;
+  title: string;
+  price: number;
+  brand: string | null;
+  image: string | null;
+}
+
+export interface AutocompleteLink {
+  slug: string;
+  name: string;
+}
+
+export interface SearchAutocompleteResult {
+  products: AutocompleteProduct[];
+  categories: AutocompleteLink[];
+  collections: AutocompleteLink[];
+}
+
+export interface AutocompleteOption {
+  key: string;
+  path: string;
+}
+
+export const EMPTY_AUTOCOMPLETE: SearchAutocompleteResult = {
+  products: [],
+  categories: [],
+  collections: [],
+};
@@ -0,0 +1,85 @@
+import type { ShipmentStatus } from '../../supabase/functions/_shared/couriers/types.ts';
+
+export type { ShipmentStatus };
+
+export interface Courier {
+  code: string;
+  name: string;
+  tracking_url_template: string | null;
+  is_active: boolean;
+  sort_order: number;
+}
+
+export type CourierUpdate = Pick<Courier, 'name' | 'tracking_url_template' | 'is_active'>;
+
+export interface ShipmentItem {
+  id: string;
+  shipment_id: string;
+  order_item_id: string;
+  quantity: number;
+}
+
+export interface ShipmentEvent {
+  id: string;
+  shipment_id: string;
+  status: ShipmentStatus;
+  description: string;
+  location: string | null;
+  occurred_at: string;
+  source: 'store' | 'courier';
+  created_at: string;
+}
+
+export interface Shipment {
+  id: string;
+  shipment_number: string;
+  order_id: string;
+  courier_code: string;
+  tracking_number: string | null;
+  tracking_url: string | null;
+  status: ShipmentStatus;
+  notes: string | null;
+  dispatched_at: string;
+  delivered_at: string | null;
+  last_synced_at: string | null;
+  created_at: string;
+  couriers?: { name: string } | null;
+  shipment_items?: ShipmentItem[];
+  shipment_events?: ShipmentEvent[];
+}
+
+export interface CreateShipmentInput {
+  orderId: string;
+  courierCode: string;
+  items: Array<{ order_item_id: string; quantity: number }>;
+  trackingNumber?: string;
+  trackingUrl?: string;
+  notes?: string;
+}
+
+export interface ShipmentEventInput {
+  status: Exclude<ShipmentStatus, 'cancelled'>;
+  description: string;
+  location?: string;
+  occurredAt?: string;
+}
+
+export interface SyncShipmentsResult {
+  success: boolean;
+  synced: number;
+  events: number;
+  failed: number;
+}
+
+export const SHIPMENT_STATUS_LABELS: Record<ShipmentStatus, string> = {
+  dispatched: 'Dispatched',
+  in_transit: 'In transit',
+  out_for_delivery: 'Out for delivery',
+  failed_attempt: 'Delivery attempted',
+  delivered: 'Delivered',
+  returned: 'Returned to store',
+  cancelled: 'Cancelled',
+};
+
+// Shipments that are still on their way
+export const OPEN_SHIPMENT_STATUSES: ShipmentStatus[] = ['dispatched', 'in_transit', 'out_for_delivery', 'failed_attempt'];
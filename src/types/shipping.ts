@@ -0,0 +1,42 @@
+export type ShippingRateType = 'flat' | 'weight' | 'quantity';
+
+export interface ShippingZone {
+  id: string;
+  name: string;
+  provinces: string[];
+  districts: string[];
+  is_international: boolean;
+  free_shipping_threshold: number | null;
+  sort_order: number;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ShippingMethod {
+  id: string;
+  zone_id: string;
+  code: string;
+  name: string;
+  description: string | null;
+  rate_type: ShippingRateType;
+  base_rate: number;
+  unit_rate: number;
+  min_days: number;
+  max_days: number;
+  sort_order: number;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ShippingZoneWithMethods extends ShippingZone {
+  shipping_methods: ShippingMethod[];
+}
+
+// The part of a shipping address that decides its zone
+export interface ShippingDestination {
+  country: string;
+  province?: string | null;
+  district?: string | null;
+}
@@ -0,0 +1,72 @@
+import type { SmsTemplateKey } from '../../supabase/functions/_shared/sms/templates.ts';
+
+export type { SmsTemplateKey };
+
+export type SmsStatus = 'pending' | 'sending' | 'sent' | 'failed' | 'skipped';
+
+export interface SmsTemplate {
+  key: SmsTemplateKey;
+  name: string;
+  description: string | null;
+  body: string;
+  is_active: boolean;
+  updated_by: string | null;
+  updated_at: string;
+}
+
+export type SmsTemplateUpdate = Pick<SmsTemplate, 'body' | 'is_active'>;
+
+export interface SmsMessage {
+  id: string;
+  template_key: SmsTemplateKey;
+  phone: string;
+  user_id: string | null;
+  order_id: string | null;
+  status: SmsStatus;
+  attempts: number;
+  next_attempt_at: string;
+  // null until sent, and never kept for verification codes
+  body: string | null;
+  provider: string | null;
+  last_error: string | null;
+  sent_at: string | null;
+  created_at: string;
+}
+
+export interface SmsMessageFilters {
+  status?: SmsStatus | 'all';
+  templateKey?: SmsTemplateKey | 'all';
+  search?: string;
+}
+
+export interface SendSmsResult {
+  success: boolean;
+  sent: number;
+  failed: number;
+}
+
+export interface SmsOtpRequestResult {
+  phone: string;
+  expires_at: string;
+}
+
+export interface SmsOtpVerifyResult {
+  verified: boolean;
+  phone?: string;
+  attempts_left?: number;
+}
+
+export const SMS_STATUS_LABELS: Record<SmsStatus, string> = {
+  pending: 'Queued',
+  sending: 'Sending',
+  sent: 'Sent',
+  failed: 'Failed',
+  skipped: 'Skipped',
+};
+
+export const SMS_TEMPLATE_LABELS: Record<SmsTemplateKey, string> = {
+  order_confirmed: 'Order confirmed',
+  order_dispatched: 'Order dispatched',
+  cod_delivery_reminder: 'Cash on delivery reminder',
+  otp: 'Verification code',
+};
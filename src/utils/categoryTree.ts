@@ -0,0 +1,93 @@
+// Helpers for the category hierarchy. Categories arrive as a flat list with
+// parent_id links; these build the tree, walk it and turn paths into links.
+import { Category, CategoryNode, CategoryTreeFields } from '../types/category';
+
+// Listing pages take the category as a query parameter, so brand pages can
+// pass their own path
+export const categoryLink = (category: Pick<Category, 'slug'>, basePath = '/products'): string =>
+  `${basePath}?category=${category.slug}`;
+
+const bySiblingOrder = (a: CategoryTreeFields, b: CategoryTreeFields) =>
+  a.display_order - b.display_order || a.name.localeCompare(b.name);
+
+/**
+ * Nest categories under their parents, siblings in display order. A
+ * category whose parent is missing from the list is treated as top level.
+ */
+export const buildCategoryTree = <T extends CategoryTreeFields>(categories: T[]): CategoryNode<T>[] => {
+  const ids = new Set(categories.map(category => category.id));
+  const childrenOf = new Map<string | null, T[]>();
+
+  categories.forEach(category => {
+    const parentId = category.parent_id && ids.has(category.parent_id) ? category.parent_id : null;
+    childrenOf.set(parentId, [...(childrenOf.get(parentId) || []), category]);
+  });
+
+  const build = (parentId: string | null, depth: number): CategoryNode<T>[] =>
+    (childrenOf.get(parentId) || [])
+      .sort(bySiblingOrder)
+      .map(category => ({ ...category, depth, children: build(category.id, depth + 1) }));
+
+  return build(null, 0);
+};
+
+/**
+ * Every node of the tree, parents before their children
+ */
+export const flattenCategoryTree = <T extends CategoryTreeFields>(nodes: CategoryNode<T>[]): CategoryNode<T>[] =>
+  nodes.flatMap(node => [node, ...flattenCategoryTree(node.children)]);
+
+/**
+ * The category with this slug and its ancestors, top level first. Empty when
+ * the slug isn't found.
+ */
+export const categoryPath = <T extends Pick<Category, 'id' | 'slug' | 'parent_id'>>(
+  categories: T[],
+  slug: string
+): T[] => {
+  const byId = new Map(categories.map(category => [category.id, category]));
+  const path: T[] = [];
+  let current = categories.find(category => category.slug === slug);
+
+  // The visited check guards against a loop in stale data
+  while (current && !path.includes(current)) {
+    path.unshift(current);
+    current = current.parent_id ? byId.get(current.parent_id) : undefined;
+  }
+
+  return path;
+};
+
+/**
+ * Ids of a category and everything under it
+ */
+export const descendantIds = (categories: Pick<Category, 'id' | 'parent_id'>[], id: string): Set<string> => {
+  const ids = new Set([id]);
+  let added = true;
+
+  while (added) {
+    added = false;
+    categories.forEach(category => {
+      if (category.parent_id && ids.has(category.parent_id) && !ids.has(category.id)) {
+        ids.add(category.id);
+        added = true;
+      }
+    });
+  }
+
+  return ids;
+};
+
+/**
+ * Breadcrumb items for a category path. The last category links too unless
+ * it is the current page.
+ */
+export const categoryBreadcrumbs = (
+  path: Pick<Category, 'slug' | 'name'>[],
+  linkLast: boolean,
+  basePath = '/products'
+): { label: string; path?: string }[] =>
+  path.map((category, index) => ({
+    label: category.name,
+    path: linkLast || index < path.length - 1 ? categoryLink(category, basePath) : undefined
+  }));
@@ -1,2 +1,4 @@
 // Shipping constants
+// Domestic free-shipping threshold shown in marketing copy. Checkout uses
+// each shipping zone's own threshold (see admin Shipping).
 export const FREE_SHIPPING_THRESHOLD = 20000; // LKR
\ No newline at end of file
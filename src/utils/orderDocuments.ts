@@ -0,0 +1,48 @@
+import { PAYMENT_METHODS, isPaymentMethodCode } from '../paymentProviders/methods';
+import { DocumentAddress, OrderDocument } from '../types/orderDocument';
+
+export function formatDocumentMoney(amount: number, currency: string): string {
+  return `${currency} ${Number(amount).toLocaleString('en-LK', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+export function formatDocumentDate(date: string): string {
+  return new Date(date).toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric' });
+}
+
+export function addressName(address: DocumentAddress | null): string {
+  return [address?.firstName, address?.lastName].filter(Boolean).join(' ');
+}
+
+// Street to country, skipping whatever checkout didn't collect
+export function addressLines(address: DocumentAddress | null): string[] {
+  if (!address) return [];
+
+  const district = address.district && address.district !== address.city ? address.district : null;
+  return [
+    address.address,
+    address.apartment,
+    [address.city, address.postalCode].filter(Boolean).join(' '),
+    [district, address.province].filter(Boolean).join(', '),
+    address.country,
+  ].filter((line): line is string => !!line && line.trim() !== '');
+}
+
+export function paymentMethodName(code: string | null): string {
+  if (!code) return 'N/A';
+  return isPaymentMethodCode(code) ? PAYMENT_METHODS[code].name : code;
+}
+
+// Cash the courier has to collect, printed on the label
+export function amountToCollect(order: OrderDocument): number {
+  return order.payment_method === 'cod' && order.payment_status !== 'paid' ? order.total : 0;
+}
+
+// Prices are tax-inclusive, so this is the share of the total that is tax
+export function includedTax(total: number, ratePercent: number): number {
+  if (!ratePercent || ratePercent <= 0) return 0;
+  return Math.round((total - total / (1 + ratePercent / 100)) * 100) / 100;
+}
+
+export function totalUnits(order: OrderDocument): number {
+  return order.items.reduce((sum, item) => sum + item.quantity, 0);
+}
@@ -0,0 +1,59 @@
+import { AutocompleteOption, SearchAutocompleteResult } from '../types/search';
+
+export interface HighlightPart {
+  text: string;
+  match: boolean;
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Splits text into the parts that start with one of the query's words and the
+// rest, the same prefix matching the search itself does
+export function splitHighlights(text: string, query: string): HighlightPart[] {
+  const words = query
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean)
+    .sort((a, b) => b.length - a.length);
+
+  if (!text || words.length === 0) return [{ text, match: false }];
+
+  const pattern = new RegExp(`\\b(${words.map(escapeRegExp).join('|')})`, 'gi');
+  const parts: HighlightPart[] = [];
+  let lastIndex = 0;
+
+  for (const found of text.matchAll(pattern)) {
+    const index = found.index ?? 0;
+    if (index > lastIndex) {
+      parts.push({ text: text.slice(lastIndex, index), match: false });
+    }
+    parts.push({ text: found[0], match: true });
+    lastIndex = index + found[0].length;
+  }
+
+  if (lastIndex < text.length) {
+    parts.push({ text: text.slice(lastIndex), match: false });
+  }
+
+  return parts;
+}
+
+// Every selectable row in display order, for keyboard navigation. The last
+// row searches for the text as typed.
+export function autocompleteOptions(result: SearchAutocompleteResult, query: string): AutocompleteOption[] {
+  return [
+    ...result.products.map(product => ({
+      key: `product-${product.id}`,
+      path: `/products/${product.slug || product.id}`,
+    })),
+    ...result.categories.map(category => ({
+      key: `category-${category.slug}`,
+      path: `/products?category=${encodeURIComponent(category.slug)}`,
+    })),
+    ...result.collections.map(collection => ({
+      key: `collection-${collection.slug}`,
+      path: `/collections/${collection.slug}`,
+    })),
+    { key: 'search', path: `/products?search=${encodeURIComponent(query.trim())}` },
+  ];
+}
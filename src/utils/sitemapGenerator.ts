@@ -17,6 +17,7 @@ export const generateSitemap = async (): Promise<string> => {
     { loc: '/', changefreq: 'daily' as const, priority: 1.0 },
     { loc: '/collections', changefreq: 'daily' as const, priority: 0.9 },
     { loc: '/products', changefreq: 'daily' as const, priority: 0.9 },
+    { loc: '/brands', changefreq: 'weekly' as const, priority: 0.8 },
     { loc: '/contact', changefreq: 'monthly' as const, priority: 0.8 },
     { loc: '/faq', changefreq: 'monthly' as const, priority: 0.7 },
     { loc: '/delivery', changefreq: 'monthly' as const, priority: 0.7 },
@@ -68,6 +69,22 @@ export const generateSitemap = async (): Promise<string> => {
       });
     }
 
+    // Fetch all brands
+    const { data: brands } = await supabase
+      .from('brands')
+      .select('slug, updated_at');
+
+    if (brands) {
+      brands.forEach(brand => {
+        urls.push({
+          loc: `${baseUrl}/brands/${brand.slug}`,
+          lastmod: new Date(brand.updated_at).toISOString().split('T')[0],
+          changefreq: 'weekly',
+          priority: 0.7
+        });
+      });
+    }
+
     // Fetch all active categories
     const { data: categories } = await supabase
       .from('categories')
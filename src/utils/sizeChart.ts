@@ -0,0 +1,172 @@
+// Shoe size conversions shared by the size guide, the size filter and the
+// "my size" preference. Variant sizes are EU unless labelled "UK 8" or "US 9".
+
+export type SizeChartId = 'men' | 'women' | 'kids';
+export type SizeSystem = 'eu' | 'uk' | 'us';
+
+export interface SizeChartRow {
+  us: string;
+  uk: string;
+  eu: string;
+  cm: string;
+}
+
+// A shopper's size in the chart and system they think in
+export interface MySize {
+  chart: SizeChartId;
+  system: SizeSystem;
+  size: string;
+}
+
+export const SIZE_CHART_LABELS: Record<SizeChartId, string> = {
+  men: 'Men',
+  women: 'Women',
+  kids: 'Kids',
+};
+
+export const SIZE_SYSTEMS: SizeSystem[] = ['eu', 'uk', 'us'];
+
+export const SIZE_CHARTS: Record<SizeChartId, SizeChartRow[]> = {
+  men: [
+    { us: '6', uk: '5.5', eu: '39', cm: '24.5' },
+    { us: '6.5', uk: '6', eu: '39.5', cm: '25' },
+    { us: '7', uk: '6.5', eu: '40', cm: '25.5' },
+    { us: '7.5', uk: '7', eu: '40.5', cm: '26' },
+    { us: '8', uk: '7.5', eu: '41', cm: '26.5' },
+    { us: '8.5', uk: '8', eu: '42', cm: '27' },
+    { us: '9', uk: '8.5', eu: '42.5', cm: '27.5' },
+    { us: '9.5', uk: '9', eu: '43', cm: '28' },
+    { us: '10', uk: '9.5', eu: '44', cm: '28.5' },
+    { us: '10.5', uk: '10', eu: '44.5', cm: '29' },
+    { us: '11', uk: '10.5', eu: '45', cm: '29.5' },
+    { us: '11.5', uk: '11', eu: '45.5', cm: '30' },
+    { us: '12', uk: '11.5', eu: '46', cm: '30.5' },
+    { us: '13', uk: '12.5', eu: '47', cm: '31.5' }
+  ],
+  women: [
+    { us: '5', uk: '2.5', eu: '35', cm: '22' },
+    { us: '5.5', uk: '3', eu: '35.5', cm: '22.5' },
+    { us: '6', uk: '3.5', eu: '36', cm: '23' },
+    { us: '6.5', uk: '4', eu: '37', cm: '23.5' },
+    { us: '7', uk: '4.5', eu: '37.5', cm: '24' },
+    { us: '7.5', uk: '5', eu: '38', cm: '24.5' },
+    { us: '8', uk: '5.5', eu: '38.5', cm: '25' },
+    { us: '8.5', uk: '6', eu: '39', cm: '25.5' },
+    { us: '9', uk: '6.5', eu: '40', cm: '26' },
+    { us: '9.5', uk: '7', eu: '40.5', cm: '26.5' },
+    { us: '10', uk: '7.5', eu: '41', cm: '27' },
+    { us: '10.5', uk: '8', eu: '42', cm: '27.5' },
+    { us: '11', uk: '8.5', eu: '42.5', cm: '28' },
+    { us: '12', uk: '9.5', eu: '43', cm: '29' }
+  ],
+  kids: [
+    { us: '10C', uk: '9.5', eu: '27', cm: '16.5' },
+    { us: '10.5C', uk: '10', eu: '27.5', cm: '17' },
+    { us: '11C', uk: '10.5', eu: '28', cm: '17.5' },
+    { us: '11.5C', uk: '11', eu: '29', cm: '18' },
+    { us: '12C', uk: '11.5', eu: '30', cm: '18.5' },
+    { us: '12.5C', uk: '12', eu: '30.5', cm: '19' },
+    { us: '13C', uk: '12.5', eu: '31', cm: '19.5' },
+    { us: '13.5C', uk: '13', eu: '32', cm: '20' },
+    { us: '1Y', uk: '13.5', eu: '32.5', cm: '20.5' },
+    { us: '1.5Y', uk: '1', eu: '33', cm: '21' },
+    { us: '2Y', uk: '1.5', eu: '34', cm: '21.5' },
+    { us: '2.5Y', uk: '2', eu: '34.5', cm: '22' },
+    { us: '3Y', uk: '2.5', eu: '35', cm: '22.5' },
+    { us: '3.5Y', uk: '3', eu: '35.5', cm: '23' },
+    { us: '4Y', uk: '3.5', eu: '36', cm: '23.5' },
+    { us: '4.5Y', uk: '4', eu: '36.5', cm: '24' },
+    { us: '5Y', uk: '4.5', eu: '37', cm: '24.5' },
+    { us: '5.5Y', uk: '5', eu: '38', cm: '25' },
+    { us: '6Y', uk: '5.5', eu: '38.5', cm: '25.5' },
+    { us: '7Y', uk: '6', eu: '40', cm: '26' }
+  ],
+};
+
+const SIZE_PREFIX = /^(eu|uk|us)\s*/i;
+
+/**
+ * Split a variant size label into its system and value, e.g. "UK 8" or "42"
+ */
+export const parseSizeLabel = (label: string): { system: SizeSystem; value: string } => {
+  const trimmed = label.trim();
+  const prefix = trimmed.match(SIZE_PREFIX);
+
+  return prefix
+    ? { system: prefix[1].toLowerCase() as SizeSystem, value: trimmed.slice(prefix[0].length).toUpperCase() }
+    : { system: 'eu', value: trimmed.toUpperCase() };
+};
+
+const findRow = (system: SizeSystem, value: string, chart?: SizeChartId): SizeChartRow | undefined => {
+  const charts = chart ? [chart] : (Object.keys(SIZE_CHARTS) as SizeChartId[]);
+
+  for (const id of charts) {
+    const row = SIZE_CHARTS[id].find(candidate => candidate[system].toUpperCase() === value);
+    if (row) return row;
+  }
+
+  return undefined;
+};
+
+/**
+ * The number for a variant size in another system, e.g. "8" for "42" in UK,
+ * or null when the size isn't in the chart
+ */
+export const convertSize = (label: string, system: SizeSystem, chart?: SizeChartId): string | null => {
+  const parsed = parseSizeLabel(label);
+  const row = findRow(parsed.system, parsed.value, chart);
+
+  return row ? row[system] : null;
+};
+
+/**
+ * A variant size shown in another system, e.g. "42" as "UK 8". Sizes missing
+ * from the chart are shown as labelled.
+ */
+export const formatSize = (label: string, system: SizeSystem, chart?: SizeChartId): string => {
+  const converted = convertSize(label, system, chart);
+
+  return converted ? `${system.toUpperCase()} ${converted}` : label;
+};
+
+/**
+ * Every way a variant might be labelled for the given size, for filtering
+ */
+export const sizeLabelsFor = (mySize: MySize): string[] => {
+  const row = SIZE_CHARTS[mySize.chart].find(candidate => candidate[mySize.system] === mySize.size);
+  if (!row) return [];
+
+  return [
+    row.eu,
+    ...SIZE_SYSTEMS.flatMap(system => [`${system.toUpperCase()} ${row[system]}`, `${system.toUpperCase()}${row[system]}`]),
+  ];
+};
+
+/**
+ * Does a variant size label match the shopper's size
+ */
+export const isMySize = (label: string, mySize: MySize | null): boolean => {
+  if (!mySize) return false;
+
+  return sizeLabelsFor(mySize).some(candidate => candidate.toUpperCase() === label.trim().toUpperCase());
+};
+
+export const formatMySize = (mySize: MySize): string =>
+  `${SIZE_CHART_LABELS[mySize.chart]} ${mySize.system.toUpperCase()} ${mySize.size}`;
+
+/**
+ * Order size labels smallest first, converting through the chart so mixed
+ * systems line up. Unknown sizes keep their text order after the rest.
+ */
+export const compareSizes = (a: string, b: string): number => {
+  const footLength = (label: string) => {
+    const parsed = parseSizeLabel(label);
+    const row = findRow(parsed.system, parsed.value);
+    return row ? parseFloat(row.cm) : Number.POSITIVE_INFINITY;
+  };
+
+  const difference = footLength(a) - footLength(b);
+  if (difference !== 0 && !Number.isNaN(difference)) return difference;
+
+  return a.localeCompare(b, undefined, { numeric: true });
+};
@@ -0,0 +1,19 @@
+// Sri Lankan provinces and their districts, used for shipping zones
+export const SRI_LANKA_PROVINCES: Record<string, string[]> = {
+  'Western': ['Colombo', 'Gampaha', 'Kalutara'],
+  'Central': ['Kandy', 'Matale', 'Nuwara Eliya'],
+  'Southern': ['Galle', 'Matara', 'Hambantota'],
+  'Northern': ['Jaffna', 'Kilinochchi', 'Mannar', 'Vavuniya', 'Mullaitivu'],
+  'Eastern': ['Batticaloa', 'Ampara', 'Trincomalee'],
+  'North Western': ['Kurunegala', 'Puttalam'],
+  'North Central': ['Anuradhapura', 'Polonnaruwa'],
+  'Uva': ['Badulla', 'Monaragala'],
+  'Sabaragamuwa': ['Ratnapura', 'Kegalle'],
+};
+
+export const SRI_LANKA_DISTRICTS = Object.values(SRI_LANKA_PROVINCES).flat().sort();
+
+export const getProvinceForDistrict = (district: string): string | null => {
+  const entry = Object.entries(SRI_LANKA_PROVINCES).find(([, districts]) => districts.includes(district));
+  return entry ? entry[0] : null;
+};
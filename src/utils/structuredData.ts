@@ -1,4 +1,6 @@
 // Structured Data (JSON-LD) utilities for SEO
+import { Brand } from '../types/brand';
+
 export interface StructuredDataProps {
   type: 'Organization' | 'Product' | 'BreadcrumbList' | 'WebSite' | 'LocalBusiness';
   data: any;
@@ -126,12 +128,14 @@ export const generateProductSchema = (product: any) => {
     }
   };
 
-  // Add aggregateRating if reviews exist (placeholder for future implementation)
-  if (product.rating && product.reviewCount) {
+  // Add aggregateRating once the product has approved reviews
+  const rating = product.rating ?? product.rating_average;
+  const reviewCount = product.reviewCount ?? product.review_count;
+  if (rating && reviewCount) {
     (schema as any).aggregateRating = {
       "@type": "AggregateRating",
-      "ratingValue": product.rating,
-      "reviewCount": product.reviewCount,
+      "ratingValue": rating,
+      "reviewCount": reviewCount,
       "bestRating": "5",
       "worstRating": "1"
     };
@@ -156,6 +160,17 @@ export const generateBreadcrumbSchema = (breadcrumbs: Array<{name: string, url:
   };
 };
 
+// Breadcrumb schema for the items shown by the Breadcrumb component, led by
+// Home like the component. The current page has no path and gets its own URL.
+export const generateBreadcrumbSchemaFromItems = (items: Array<{label: string, path?: string}>) => {
+  const currentUrl = `${window.location.pathname}${window.location.search}`;
+
+  return generateBreadcrumbSchema([
+    { name: 'Home', url: '/' },
+    ...items.map(item => ({ name: item.label, url: item.path || currentUrl }))
+  ]);
+};
+
 // Collection Schema Generator
 export const generateCollectionSchema = (collection: any) => {
   const baseUrl = window.location.origin;
@@ -180,6 +195,22 @@ export const generateCollectionSchema = (collection: any) => {
   };
 };
 
+// Brand Schema Generator
+export const generateBrandSchema = (brand: Brand) => {
+  const baseUrl = window.location.origin;
+
+  return {
+    "@context": "https://schema.org",
+    "@type": "Brand",
+    "name": brand.name,
+    "description": brand.description || `Shop ${brand.name} at Kixora`,
+    "url": `${baseUrl}/brands/${brand.slug}`,
+    ...(brand.logo_url && {
+      "logo": `${import.meta.env.VITE_SUPABASE_URL}/storage/v1/object/public/kixora/${brand.logo_url}`
+    })
+  };
+};
+
 // Local Business Schema (if physical store exists)
 export const localBusinessSchema = {
   "@context": "https://schema.org",
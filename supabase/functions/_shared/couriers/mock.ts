@@ -0,0 +1,67 @@
+import { CourierAdapter, CourierTrackingEvent, TrackedShipment } from './types.ts';
+
+// Deterministic courier for testing shipments end to end. Events appear as
+// time passes after dispatch, so each sync shows a little more progress.
+// Like a test card, the tracking number picks the outcome:
+//   ending in FAIL   -> the first delivery attempt fails, the second succeeds
+//   ending in RETURN -> two failed attempts, then it goes back to the store
+//   anything else    -> delivered the next day
+// Set MOCK_COURIER_SPEED to run the clock faster (e.g. 60 is an hour a minute).
+
+interface MockStep {
+  afterHours: number;
+  event: Omit<CourierTrackingEvent, 'externalId' | 'occurredAt'>;
+}
+
+const stepsFor = (trackingNumber: string): MockStep[] => {
+  const common: MockStep[] = [
+    { afterHours: 1, event: { status: 'in_transit', description: 'Picked up by courier', location: 'Colombo warehouse' } },
+    { afterHours: 6, event: { status: 'in_transit', description: 'Arrived at sorting hub', location: 'Colombo hub' } },
+    { afterHours: 18, event: { status: 'out_for_delivery', description: 'Out for delivery', location: 'Local branch' } },
+  ];
+  const upper = trackingNumber.toUpperCase();
+
+  if (upper.endsWith('RETURN')) {
+    return [
+      ...common,
+      { afterHours: 22, event: { status: 'failed_attempt', description: 'Customer not available', location: 'Local branch' } },
+      { afterHours: 42, event: { status: 'out_for_delivery', description: 'Out for delivery (second attempt)', location: 'Local branch' } },
+      { afterHours: 46, event: { status: 'failed_attempt', description: 'Customer not available', location: 'Local branch' } },
+      { afterHours: 72, event: { status: 'returned', description: 'Returned to sender', location: 'Colombo warehouse' } },
+    ];
+  }
+
+  if (upper.endsWith('FAIL')) {
+    return [
+      ...common,
+      { afterHours: 22, event: { status: 'failed_attempt', description: 'Address could not be found', location: 'Local branch' } },
+      { afterHours: 42, event: { status: 'out_for_delivery', description: 'Out for delivery (second attempt)', location: 'Local branch' } },
+      { afterHours: 45, event: { status: 'delivered', description: 'Delivered', location: null } },
+    ];
+  }
+
+  return [...common, { afterHours: 22, event: { status: 'delivered', description: 'Delivered', location: null } }];
+};
+
+export class MockCourierAdapter implements CourierAdapter {
+  code = 'mock' as const;
+  private speed: number;
+
+  constructor(speed = 1) {
+    this.speed = speed > 0 ? speed : 1;
+  }
+
+  async fetchTrackingEvents(shipment: TrackedShipment): Promise<CourierTrackingEvent[]> {
+    const dispatchedAt = new Date(shipment.dispatchedAt).getTime();
+    const hourMs = 3600 * 1000 / this.speed;
+    const now = Date.now();
+
+    return stepsFor(shipment.trackingNumber)
+      .map((step, index) => ({
+        ...step.event,
+        externalId: `${shipment.trackingNumber}:${index}`,
+        occurredAt: new Date(dispatchedAt + step.afterHours * hourMs).toISOString(),
+      }))
+      .filter(event => new Date(event.occurredAt).getTime() <= now);
+  }
+}
@@ -0,0 +1,18 @@
+import { CourierAdapter } from './types.ts';
+import { MockCourierAdapter } from './mock.ts';
+
+// Couriers whose tracking can be pulled, by couriers.code. Shipments with
+// any other courier are tracked by hand from the order screen.
+const factories: Record<string, () => CourierAdapter> = {
+  mock: () => new MockCourierAdapter(Number(Deno.env.get('MOCK_COURIER_SPEED') || 1)),
+};
+
+export const syncableCourierCodes = () => Object.keys(factories);
+
+/**
+ * The adapter for a courier, or null if its tracking isn't pulled.
+ */
+export const getCourierAdapter = (code: string): CourierAdapter | null => {
+  const factory = factories[code];
+  return factory ? factory() : null;
+};
@@ -0,0 +1,31 @@
+// Shipment statuses, as stored in shipments.status and shipment_events.status
+export type ShipmentStatus =
+  | 'dispatched'
+  | 'in_transit'
+  | 'out_for_delivery'
+  | 'failed_attempt'
+  | 'delivered'
+  | 'returned'
+  | 'cancelled';
+
+// One step of a courier's tracking history, normalised for shipment_events
+export interface CourierTrackingEvent {
+  // The courier's id for the event; repeated pulls record it once
+  externalId: string;
+  status: Exclude<ShipmentStatus, 'cancelled'>;
+  description: string;
+  location: string | null;
+  occurredAt: string;
+}
+
+export interface TrackedShipment {
+  trackingNumber: string;
+  dispatchedAt: string;
+}
+
+// A courier whose tracking can be pulled. Each courier maps its own scan
+// codes onto ShipmentStatus.
+export interface CourierAdapter {
+  code: string;
+  fetchTrackingEvents(shipment: TrackedShipment): Promise<CourierTrackingEvent[]>;
+}
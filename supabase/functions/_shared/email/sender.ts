@@ -0,0 +1,111 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { renderEmail, EmailContext } from './templates.ts';
+
+interface ClaimedEmail {
+  id: string;
+  template_key: string;
+  recipient: string;
+  subject_template: string;
+  body_template: string;
+  context: EmailContext;
+}
+
+export interface SendSummary {
+  sent: number;
+  failed: number;
+}
+
+interface DeliveryResult {
+  messageId: string | null;
+  error: string | null;
+}
+
+// EMAIL_SINK_URL points at a local mock (see mail-sink.js) instead of
+// Resend, so the whole flow can be tried without sending real email
+const deliver = async (to: string, subject: string, html: string): Promise<DeliveryResult> => {
+  const sinkUrl = Deno.env.get('EMAIL_SINK_URL');
+  const resendApiKey = Deno.env.get('RESEND_API_KEY');
+
+  if (!sinkUrl && !resendApiKey) {
+    return { messageId: null, error: 'Email is not configured' };
+  }
+
+  try {
+    const response = await fetch(sinkUrl || 'https://api.resend.com/emails', {
+      method: 'POST',
+      headers: {
+        ...(sinkUrl ? {} : { 'Authorization': `Bearer ${resendApiKey}` }),
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        from: 'Kixora <noreply@inkixora.com>',
+        to: [to],
+        subject,
+        html,
+      }),
+    });
+
+    if (!response.ok) {
+      return { messageId: null, error: `${response.status}: ${(await response.text()).slice(0, 500)}` };
+    }
+
+    const result = await response.json().catch(() => ({}));
+    return { messageId: result.id ?? null, error: null };
+  } catch (error) {
+    return { messageId: null, error: error.message || 'Email delivery failed' };
+  }
+};
+
+/**
+ * Send the emails that are due in email_outbox. Each one is rendered from its
+ * current template and order data; failures are left for complete_email() to
+ * schedule again.
+ */
+export const sendQueuedEmails = async (
+  supabase: SupabaseClient,
+  limit = 20
+): Promise<SendSummary> => {
+  const siteUrl = Deno.env.get('SITE_URL') || 'https://kixora.com';
+
+  const { data, error } = await supabase.rpc('claim_due_emails', { p_limit: limit });
+  if (error) throw error;
+
+  const summary: SendSummary = { sent: 0, failed: 0 };
+
+  for (const email of (data || []) as ClaimedEmail[]) {
+    let subject: string | null = null;
+    let result: DeliveryResult;
+
+    try {
+      const rendered = renderEmail(
+        { subject: email.subject_template, body_html: email.body_template },
+        email.context,
+        siteUrl
+      );
+      subject = rendered.subject;
+      result = await deliver(email.recipient, rendered.subject, rendered.html);
+    } catch (renderError) {
+      result = { messageId: null, error: `Could not render email: ${renderError.message}` };
+    }
+
+    if (result.error) {
+      console.error(`Email ${email.id} (${email.template_key}) failed:`, result.error);
+      summary.failed++;
+    } else {
+      summary.sent++;
+    }
+
+    const { error: completeError } = await supabase.rpc('complete_email', {
+      p_id: email.id,
+      p_subject: subject,
+      p_error: result.error,
+      p_provider_message_id: result.messageId,
+    });
+
+    if (completeError) {
+      console.error(`Failed to record email ${email.id}:`, completeError);
+    }
+  }
+
+  return summary;
+};
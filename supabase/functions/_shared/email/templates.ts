@@ -0,0 +1,299 @@
+// Transactional email rendering. Imported by both the send-emails edge
+// function and the admin template preview, so this file must not import
+// anything.
+
+export type EmailTemplateKey =
+  | 'order_placed'
+  | 'bank_transfer_instructions'
+  | 'payment_confirmed'
+  | 'order_shipped'
+  | 'order_delivered'
+  | 'order_cancelled'
+  | 'order_refunded'
+  | 'support_request_received'
+  | 'support_request_reply';
+
+export interface EmailTemplateContent {
+  subject: string;
+  body_html: string;
+}
+
+// What the database hands over for one email: the order as it is now (see
+// email_order_context) merged with whatever the event itself recorded
+export type EmailContext = Record<string, unknown>;
+
+export interface RenderedEmail {
+  subject: string;
+  html: string;
+}
+
+const ORDER_PLACEHOLDERS = [
+  'customer_name',
+  'order_number',
+  'order_date',
+  'order_total',
+  'order_url',
+  'items_html',
+  'shipping_address_html',
+];
+
+// Shown next to the template editor; every template also gets site_url
+export const EMAIL_PLACEHOLDERS: Record<EmailTemplateKey, string[]> = {
+  order_placed: ORDER_PLACEHOLDERS,
+  bank_transfer_instructions: [...ORDER_PLACEHOLDERS, 'bank_details_html'],
+  payment_confirmed: ORDER_PLACEHOLDERS,
+  order_shipped: [...ORDER_PLACEHOLDERS, 'tracking_number', 'tracking_url', 'tracking_html'],
+  order_delivered: ORDER_PLACEHOLDERS,
+  order_cancelled: [...ORDER_PLACEHOLDERS, 'cancellation_reason'],
+  order_refunded: [...ORDER_PLACEHOLDERS, 'refund_amount', 'refund_reason'],
+  support_request_received: ['customer_name', 'support_reference', 'support_subject', 'support_description', 'order_number'],
+  support_request_reply: ['customer_name', 'support_reference', 'support_subject', 'reply_message', 'order_number'],
+};
+
+export const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+const text = (value: unknown) => (value === null || value === undefined ? '' : String(value));
+
+const formatMoney = (amount: unknown, currency: unknown) =>
+  `${text(currency) || 'LKR'} ${Number(amount || 0).toLocaleString('en-US', {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  })}`;
+
+const formatDate = (value: unknown) => {
+  const date = new Date(text(value));
+  return isNaN(date.getTime())
+    ? ''
+    : date.toLocaleDateString('en-GB', { day: 'numeric', month: 'long', year: 'numeric' });
+};
+
+interface EmailItem {
+  title?: string;
+  size?: string | null;
+  color?: string | null;
+  quantity?: number;
+  total_price?: number;
+}
+
+const itemsHtml = (context: EmailContext) => {
+  const items = Array.isArray(context.items) ? (context.items as EmailItem[]) : [];
+  if (items.length === 0) return '';
+
+  const currency = context.currency;
+  const rows = items.map((item) => {
+    const variant = [item.color, item.size && `Size ${item.size}`].filter(Boolean).join(' • ');
+    return `
+      <tr>
+        <td style="padding: 8px 0; border-bottom: 1px solid #eee;">
+          ${escapeHtml(text(item.title))}
+          ${variant ? `<br><span style="color: #666; font-size: 13px;">${escapeHtml(variant)}</span>` : ''}
+        </td>
+        <td style="padding: 8px 0; border-bottom: 1px solid #eee; text-align: center;">${text(item.quantity)}</td>
+        <td style="padding: 8px 0; border-bottom: 1px solid #eee; text-align: right;">${escapeHtml(formatMoney(item.total_price, currency))}</td>
+      </tr>`;
+  }).join('');
+
+  const summaryRow = (label: string, amount: unknown, bold = false) => `
+      <tr>
+        <td colspan="2" style="padding: 4px 0;${bold ? ' font-weight: 600;' : ''}">${label}</td>
+        <td style="padding: 4px 0; text-align: right;${bold ? ' font-weight: 600;' : ''}">${escapeHtml(formatMoney(amount, currency))}</td>
+      </tr>`;
+
+  return `
+    <table style="width: 100%; border-collapse: collapse; margin: 20px 0; font-size: 14px;">
+      <thead>
+        <tr>
+          <th style="text-align: left; padding-bottom: 8px; border-bottom: 2px solid #000;">Item</th>
+          <th style="text-align: center; padding-bottom: 8px; border-bottom: 2px solid #000;">Qty</th>
+          <th style="text-align: right; padding-bottom: 8px; border-bottom: 2px solid #000;">Total</th>
+        </tr>
+      </thead>
+      <tbody>
+        ${rows}
+        ${context.subtotal !== null && context.subtotal !== undefined ? summaryRow('Subtotal', context.subtotal) : ''}
+        ${Number(context.discount_amount) > 0 ? summaryRow('Discount', -Number(context.discount_amount)) : ''}
+        ${summaryRow('Shipping', context.shipping_cost)}
+        ${Number(context.payment_fee) > 0 ? summaryRow('Cash on delivery fee', context.payment_fee) : ''}
+        ${summaryRow('Total', context.total, true)}
+      </tbody>
+    </table>`;
+};
+
+const shippingAddressHtml = (context: EmailContext) => {
+  const address = context.shipping_address as Record<string, unknown> | null | undefined;
+  if (!address) return '';
+
+  const lines = [
+    [address.firstName, address.lastName].filter(Boolean).join(' '),
+    address.address,
+    [address.city, address.postalCode].filter(Boolean).join(' '),
+    [address.district, address.country].filter(Boolean).join(', '),
+    address.phone,
+  ].map(text).filter(Boolean);
+
+  return `
+    <div style="background-color: #f8f9fa; padding: 15px 20px; border-radius: 8px; margin: 20px 0;">
+      <p style="margin: 0 0 5px; font-weight: 600;">Shipping to</p>
+      <p style="margin: 0; color: #666;">${lines.map(escapeHtml).join('<br>')}</p>
+    </div>`;
+};
+
+const trackingHtml = (context: EmailContext) => {
+  const number = text(context.tracking_number);
+  const url = text(context.tracking_url);
+  if (!number && !url) return '';
+
+  return `
+    <div style="background-color: #f8f9fa; padding: 15px 20px; border-radius: 8px; margin: 20px 0;">
+      <p style="margin: 0 0 5px; font-weight: 600;">Tracking</p>
+      ${number ? `<p style="margin: 0; color: #666;">Tracking number: ${escapeHtml(number)}</p>` : ''}
+      ${/^https?:\/\//.test(url) ? `<p style="margin: 5px 0 0;"><a href="${escapeHtml(url)}" style="color: #000;">Track your parcel</a></p>` : ''}
+    </div>`;
+};
+
+const bankDetailsHtml = (context: EmailContext) => {
+  const details = (context.bank_transfer_details || {}) as Record<string, unknown>;
+  const rows = [
+    ['Bank', details.bank],
+    ['Branch', details.branch],
+    ['Account name', details.account_name],
+    ['Account number', details.account_number],
+    ['Reference', context.order_number],
+  ].filter(([, value]) => text(value));
+
+  return `
+    <div style="background-color: #f8f9fa; padding: 15px 20px; border-radius: 8px; margin: 20px 0;">
+      ${rows.map(([label, value]) => `<p style="margin: 0 0 5px;"><strong>${label}:</strong> ${escapeHtml(text(value))}</p>`).join('')}
+    </div>`;
+};
+
+const orderUrl = (context: EmailContext, siteUrl: string) => {
+  if (!context.order_id) return `${siteUrl}/orders`;
+  const path = `${siteUrl}/orders/${context.order_id}`;
+  return context.access_token ? `${path}?token=${encodeURIComponent(text(context.access_token))}` : path;
+};
+
+/**
+ * The values a template can use. Keys ending in _html are markup built here;
+ * everything else is plain text and is escaped when filled in.
+ */
+export const buildEmailValues = (context: EmailContext, siteUrl: string): Record<string, string> => {
+  const values: Record<string, string> = {};
+
+  for (const [key, value] of Object.entries(context)) {
+    if (value === null || typeof value !== 'object') {
+      values[key] = text(value);
+    }
+  }
+
+  return {
+    ...values,
+    site_url: siteUrl,
+    order_date: formatDate(context.order_date),
+    order_total: formatMoney(context.total, context.currency),
+    order_url: orderUrl(context, siteUrl),
+    refund_amount: context.refund_amount !== undefined
+      ? formatMoney(context.refund_amount, context.refund_currency || context.currency)
+      : '',
+    items_html: itemsHtml(context),
+    shipping_address_html: shippingAddressHtml(context),
+    tracking_html: trackingHtml(context),
+    bank_details_html: bankDetailsHtml(context),
+  };
+};
+
+const fillPlaceholders = (template: string, values: Record<string, string>, html: boolean) =>
+  template.replace(/\{\{\s*([a-z_]+)\s*\}\}/g, (_, key: string) => {
+    const value = values[key] ?? '';
+    if (!html) return value;
+    return key.endsWith('_html') ? value : escapeHtml(value).replace(/\n/g, '<br>');
+  });
+
+const layout = (title: string, body: string, siteUrl: string) => `
+  <!DOCTYPE html>
+  <html>
+    <head>
+      <meta charset="utf-8">
+      <meta name="viewport" content="width=device-width, initial-scale=1.0">
+      <title>${escapeHtml(title)}</title>
+      <style>
+        h1 { color: #000; font-size: 22px; margin: 0 0 15px; }
+        a.button { display: inline-block; background-color: #000; color: #fff !important; text-decoration: none; padding: 12px 28px; border-radius: 4px; }
+      </style>
+    </head>
+    <body style="font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+      ${body}
+
+      <div style="text-align: center; border-top: 1px solid #eee; padding-top: 20px; margin-top: 30px;">
+        <p style="color: #999; font-size: 12px;">
+          Kixora • <a href="${escapeHtml(siteUrl)}" style="color: #666;">${escapeHtml(siteUrl.replace(/^https?:\/\//, ''))}</a> |
+          <a href="mailto:support@kixora.com" style="color: #666;">Contact Support</a>
+        </p>
+      </div>
+    </body>
+  </html>
+`;
+
+/**
+ * Fill a template with an email's context and wrap it in the store layout.
+ */
+export const renderEmail = (
+  template: EmailTemplateContent,
+  context: EmailContext,
+  siteUrl: string
+): RenderedEmail => {
+  const values = buildEmailValues(context, siteUrl);
+  const subject = fillPlaceholders(template.subject, values, false).replace(/\s+/g, ' ').trim();
+
+  return {
+    subject,
+    html: layout(subject, fillPlaceholders(template.body_html, values, true), siteUrl),
+  };
+};
+
+// Example data for previewing templates in the admin screen
+export const SAMPLE_EMAIL_CONTEXT: EmailContext = {
+  order_id: '00000000-0000-0000-0000-000000000000',
+  order_number: 'ORD-20250101-001',
+  order_date: '2025-01-01T10:00:00Z',
+  customer_name: 'Nimal Perera',
+  currency: 'LKR',
+  subtotal: 24500,
+  discount_amount: 2450,
+  shipping_cost: 500,
+  total: 22550,
+  payment_method: 'bank',
+  shipping_address: {
+    firstName: 'Nimal',
+    lastName: 'Perera',
+    address: '12 Galle Road',
+    city: 'Colombo 03',
+    postalCode: '00300',
+    phone: '+94 77 123 4567',
+  },
+  items: [
+    { title: 'Runner Pro', size: '42', color: 'Black', quantity: 1, unit_price: 16500, total_price: 16500 },
+    { title: 'Court Classic', size: '41', color: 'White', quantity: 1, unit_price: 8000, total_price: 8000 },
+  ],
+  tracking_number: 'DX123456789LK',
+  tracking_url: 'https://example.com/track/DX123456789LK',
+  cancellation_reason: 'Changed my mind',
+  refund_amount: 22550,
+  refund_reason: 'Item returned',
+  bank_transfer_details: {
+    bank: 'Commercial Bank',
+    branch: 'Colombo Fort',
+    account_name: 'Kixora (Pvt) Ltd',
+    account_number: '1000123456',
+  },
+  support_reference: 'A1B2C3D4',
+  support_subject: 'Where is my order?',
+  support_description: 'My order hasn\'t arrived yet.',
+  reply_message: 'Thanks for your patience. Your parcel is with the courier and should arrive tomorrow.',
+};
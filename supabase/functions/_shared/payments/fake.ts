@@ -0,0 +1,111 @@
+import { CheckoutOrder, CheckoutUrls, PaymentCheckout, PaymentNotification, ProviderRefundRequest, ProviderRefundResult, ServerPaymentProvider } from './types.ts';
+
+// Deterministic gateway for testing checkout -> webhook -> order offline.
+// The outcome is picked from the customer's first name, like a test card:
+//   "Decline" -> the payment fails
+//   "Dismiss" -> the shopper closes the payment window (no notification)
+//   anything else -> the payment succeeds
+// Notifications are signed with FAKE_PAYMENT_SECRET, which must only be set
+// in development and test projects.
+
+export type FakePaymentOutcome = 'succeeded' | 'failed' | 'dismissed';
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer)).map(b => b.toString(16).padStart(2, '0')).join('');
+
+export const fakePaymentOutcome = (firstName: string): FakePaymentOutcome => {
+  switch (firstName.trim().toLowerCase()) {
+    case 'decline':
+      return 'failed';
+    case 'dismiss':
+      return 'dismissed';
+    default:
+      return 'succeeded';
+  }
+};
+
+export class FakeServerProvider implements ServerPaymentProvider {
+  code = 'fake' as const;
+  private secret: string;
+
+  constructor(secret: string) {
+    if (!secret) {
+      throw new Error('Fake payments are disabled');
+    }
+    this.secret = secret;
+  }
+
+  private async sign(fields: Record<string, string>): Promise<string> {
+    const encoder = new TextEncoder();
+    const key = await crypto.subtle.importKey(
+      'raw',
+      encoder.encode(this.secret),
+      { name: 'HMAC', hash: 'SHA-256' },
+      false,
+      ['sign']
+    );
+    const message = [fields.order_id, fields.payment_id, fields.amount, fields.currency, fields.status].join('|');
+    return toHex(await crypto.subtle.sign('HMAC', key, encoder.encode(message)));
+  }
+
+  async createCheckout(order: CheckoutOrder, urls: CheckoutUrls): Promise<PaymentCheckout> {
+    const outcome = fakePaymentOutcome(order.customer.firstName);
+    const paymentId = `fake_${order.id}`;
+
+    if (outcome === 'dismissed') {
+      return { provider: 'fake', type: 'simulated', paymentId, notifyUrl: urls.notifyUrl };
+    }
+
+    const fields = {
+      order_id: order.id,
+      payment_id: paymentId,
+      amount: order.total.toFixed(2),
+      currency: order.currency,
+      status: outcome,
+    };
+
+    return {
+      provider: 'fake',
+      type: 'simulated',
+      paymentId,
+      notifyUrl: urls.notifyUrl,
+      payload: { ...fields, signature: await this.sign(fields) },
+    };
+  }
+
+  async parseNotification(req: Request): Promise<PaymentNotification> {
+    const payload = await req.json();
+    const fields = {
+      order_id: String(payload.order_id ?? ''),
+      payment_id: String(payload.payment_id ?? ''),
+      amount: String(payload.amount ?? ''),
+      currency: String(payload.currency ?? ''),
+      status: String(payload.status ?? ''),
+    };
+    const signatureValid = payload.signature === await this.sign(fields);
+
+    return {
+      orderReference: fields.order_id || null,
+      providerPaymentId: fields.payment_id || null,
+      providerEventId: null,
+      statusCode: null,
+      statusMessage: fields.status || null,
+      paymentStatus: fields.status === 'succeeded' ? 'paid'
+        : fields.status === 'chargeback' ? 'chargedback'
+        : 'failed',
+      amount: fields.amount ? parseFloat(fields.amount) : null,
+      currency: fields.currency || null,
+      method: 'fake',
+      signatureValid,
+      rawPayload: payload,
+    };
+  }
+
+  async refund(request: ProviderRefundRequest): Promise<ProviderRefundResult> {
+    if (request.amount <= 0) {
+      return { success: false, error: 'Refund amount must be greater than zero' };
+    }
+
+    return { success: true, providerRefundId: `fake_refund_${request.refundId}` };
+  }
+}
@@ -0,0 +1,222 @@
+import { CheckoutOrder, CheckoutUrls, PaymentCheckout, PaymentNotification, ProviderRefundRequest, ProviderRefundResult, ServerPaymentProvider } from './types.ts';
+
+interface PayHereConfig {
+  merchantId: string;
+  merchantSecret: string;
+  appId?: string;
+  appSecret?: string;
+  isProduction: boolean;
+}
+
+const md5Hex = async (value: string): Promise<string> => {
+  // Web Crypto has no MD5, so use Deno's std implementation
+  const crypto_std = await import("https://deno.land/std@0.177.0/crypto/mod.ts");
+  const hashBuffer = await crypto_std.crypto.subtle.digest("MD5", new TextEncoder().encode(value));
+  return Array.from(new Uint8Array(hashBuffer)).map(b => b.toString(16).padStart(2, '0')).join('').toUpperCase();
+};
+
+export class PayHereServerProvider implements ServerPaymentProvider {
+  code = 'payhere' as const;
+  private config: PayHereConfig;
+
+  constructor(config: PayHereConfig) {
+    if (!config.merchantId || !config.merchantSecret) {
+      throw new Error('PayHere merchant credentials are required');
+    }
+    this.config = config;
+  }
+
+  private get merchantApiUrl(): string {
+    return this.config.isProduction
+      ? 'https://www.payhere.lk/merchant/v1'
+      : 'https://sandbox.payhere.lk/merchant/v1';
+  }
+
+  /**
+   * Payment hash according to the PayHere documentation:
+   * MD5(merchant_id + order_id + amount + currency + MD5(merchant_secret))
+   */
+  private async generateHash(orderId: string, amount: string, currency: string): Promise<string> {
+    const hashedSecret = await md5Hex(String(this.config.merchantSecret));
+    return md5Hex(String(this.config.merchantId) + String(orderId) + amount + String(currency) + hashedSecret);
+  }
+
+  /**
+   * Notification hash, which differs from the payment hash:
+   * MD5(merchant_id + order_id + payhere_amount + payhere_currency + status_code + MD5(merchant_secret))
+   */
+  private async verifyNotificationHash(
+    orderId: string,
+    amount: string,
+    currency: string,
+    statusCode: number,
+    receivedHash: string
+  ): Promise<boolean> {
+    const hashedSecret = await md5Hex(String(this.config.merchantSecret));
+    const calculatedHash = await md5Hex(
+      String(this.config.merchantId) + String(orderId) + String(amount) + String(currency) + String(statusCode) + hashedSecret
+    );
+    return calculatedHash === receivedHash.toUpperCase();
+  }
+
+  async createCheckout(order: CheckoutOrder, urls: CheckoutUrls): Promise<PaymentCheckout> {
+    const { customer } = order;
+
+    if (!customer.firstName || !customer.lastName || !customer.email) {
+      throw new Error('Missing required customer information');
+    }
+
+    const missingAddressFields = [];
+    if (!customer.address) missingAddressFields.push('address');
+    if (!customer.city) missingAddressFields.push('city');
+    if (!customer.country) missingAddressFields.push('country');
+
+    if (missingAddressFields.length > 0) {
+      throw new Error(`Missing required address information: ${missingAddressFields.join(', ')}`);
+    }
+
+    if (!['LKR', 'USD', 'GBP', 'EUR', 'AUD'].includes(order.currency)) {
+      throw new Error(`Unsupported currency: ${order.currency}. PayHere supports: LKR, USD, GBP, EUR, AUD`);
+    }
+
+    if (order.total <= 0) {
+      throw new Error('Amount must be greater than 0');
+    }
+
+    const amount = order.total.toFixed(2);
+    const hash = await this.generateHash(order.id, amount, order.currency);
+
+    return {
+      provider: 'payhere',
+      type: 'popup',
+      paymentId: order.id,
+      payload: {
+        merchant_id: this.config.merchantId,
+        return_url: urls.returnUrl,
+        cancel_url: urls.cancelUrl,
+        notify_url: urls.notifyUrl,
+        order_id: order.id,
+        items: order.items[0]?.itemName || 'Order Items',
+        currency: order.currency,
+        amount,
+        first_name: customer.firstName,
+        last_name: customer.lastName,
+        email: customer.email,
+        phone: customer.phone,
+        address: customer.address,
+        city: customer.city,
+        country: customer.country,
+        hash,
+      },
+    };
+  }
+
+  async parseNotification(req: Request): Promise<PaymentNotification> {
+    // PayHere sends form data, not JSON
+    const formData = await req.formData();
+    const rawPayload = Object.fromEntries(
+      Array.from(formData.entries()).map(([key, value]) => [key, String(value)])
+    );
+
+    const orderId = rawPayload.order_id || '';
+    const amount = rawPayload.payhere_amount || '';
+    const currency = rawPayload.payhere_currency || '';
+    const statusCode = parseInt(rawPayload.status_code);
+
+    const signatureValid = rawPayload.merchant_id === this.config.merchantId &&
+      await this.verifyNotificationHash(orderId, amount, currency, statusCode, rawPayload.md5sig || '');
+
+    let paymentStatus: string;
+    switch (statusCode) {
+      case 2:
+        paymentStatus = 'paid';
+        break;
+      case 0:
+      case -2:
+        paymentStatus = 'pending';
+        break;
+      case -3:
+        paymentStatus = 'chargedback';
+        break;
+      default:
+        paymentStatus = 'failed';
+    }
+
+    return {
+      orderReference: orderId || null,
+      providerPaymentId: rawPayload.payment_id || null,
+      providerEventId: null,
+      statusCode: Number.isNaN(statusCode) ? null : statusCode,
+      statusMessage: rawPayload.status_message || null,
+      paymentStatus,
+      amount: amount ? parseFloat(amount) : null,
+      currency: currency || null,
+      method: rawPayload.method || null,
+      signatureValid,
+      rawPayload,
+    };
+  }
+
+  private async getAccessToken(): Promise<string> {
+    const response = await fetch(`${this.merchantApiUrl}/oauth/token`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Basic ${btoa(`${this.config.appId}:${this.config.appSecret}`)}`,
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      body: 'grant_type=client_credentials',
+    });
+
+    if (!response.ok) {
+      throw new Error(`PayHere authorization failed (${response.status})`);
+    }
+
+    const data = await response.json();
+    return data.access_token;
+  }
+
+  /**
+   * Refunds go through the OAuth-protected merchant API, which needs the app
+   * credentials and always refunds the full payment.
+   */
+  async refund(request: ProviderRefundRequest): Promise<ProviderRefundResult> {
+    if (!this.config.appId || !this.config.appSecret) {
+      return { success: false, error: 'PayHere refund credentials are not configured' };
+    }
+
+    if (!request.isFullRefund) {
+      return { success: false, error: 'PayHere can only refund the full payment. Record partial refunds manually.' };
+    }
+
+    // Nothing has been sent yet, so a failed sign-in is a plain decline
+    let accessToken: string;
+    try {
+      accessToken = await this.getAccessToken();
+    } catch (error) {
+      return { success: false, error: error.message };
+    }
+
+    const response = await fetch(`${this.merchantApiUrl}/payment/refund`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${accessToken}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        payment_id: request.paymentId,
+        description: request.reason,
+      }),
+    });
+
+    const result = await response.json();
+
+    if (result.status !== 1) {
+      return { success: false, error: result.msg || 'PayHere rejected the refund' };
+    }
+
+    return {
+      success: true,
+      providerRefundId: result.data !== undefined && result.data !== null ? String(result.data) : null,
+    };
+  }
+}
@@ -0,0 +1,88 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { ProviderRefundResult, ServerPaymentProvider } from './types.ts';
+
+export interface PendingRefund {
+  id: string;
+  amount: number;
+  currency: string | null;
+  reason: string | null;
+}
+
+export interface RefundedOrder {
+  id: string;
+  total: number;
+  currency: string;
+  payment_provider_id: string;
+}
+
+export interface RefundPayout {
+  status: 'succeeded' | 'failed' | 'pending';
+  providerRefundId?: string | null;
+  error?: string;
+}
+
+const DECLINED = 'The payment gateway rejected the refund';
+
+/**
+ * Pay a pending refund out through the order's gateway and record the
+ * gateway's answer with complete_refund. If the answer is lost the refund
+ * stays pending, with the error and any gateway reference on it, so an admin
+ * can check the gateway before settling it.
+ */
+export const payOutRefund = async (
+  supabase: SupabaseClient,
+  provider: ServerPaymentProvider,
+  refund: PendingRefund,
+  order: RefundedOrder
+): Promise<RefundPayout> => {
+  let result: ProviderRefundResult;
+  try {
+    result = await provider.refund({
+      refundId: refund.id,
+      paymentId: order.payment_provider_id,
+      amount: Number(refund.amount),
+      currency: refund.currency || order.currency,
+      reason: refund.reason || `Refund for order ${order.id}`,
+      isFullRefund: Number(refund.amount) >= Number(order.total),
+    });
+  } catch (gatewayError) {
+    console.error('Refund outcome unknown:', gatewayError);
+    const error = `The payment gateway did not confirm the refund: ${gatewayError.message}`;
+    await supabase
+      .from('refunds')
+      .update({ error_message: error })
+      .eq('id', refund.id)
+      .eq('status', 'pending');
+
+    return { status: 'pending', error };
+  }
+
+  const { error: completeError } = await supabase.rpc('complete_refund', {
+    p_refund_id: refund.id,
+    p_succeeded: result.success,
+    p_provider_refund_id: result.providerRefundId ?? null,
+    p_error: result.success ? null : (result.error || DECLINED),
+  });
+
+  if (completeError) {
+    console.error('Failed to record refund:', completeError);
+    await supabase
+      .from('refunds')
+      .update({
+        provider_refund_id: result.providerRefundId ?? null,
+        error_message: result.success
+          ? `Paid out by the gateway but not recorded: ${completeError.message}`
+          : (result.error || DECLINED),
+      })
+      .eq('id', refund.id)
+      .eq('status', 'pending');
+
+    return { status: 'pending', providerRefundId: result.providerRefundId ?? null, error: completeError.message };
+  }
+
+  if (!result.success) {
+    return { status: 'failed', error: result.error || DECLINED };
+  }
+
+  return { status: 'succeeded', providerRefundId: result.providerRefundId ?? null };
+};
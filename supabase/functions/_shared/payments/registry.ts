@@ -0,0 +1,34 @@
+import { PaymentMethodCode, isOnlinePaymentMethod } from './methods.ts';
+import { ServerPaymentProvider } from './types.ts';
+import { PayHereServerProvider } from './payhere.ts';
+import { StripeServerProvider } from './stripe.ts';
+import { FakeServerProvider } from './fake.ts';
+
+const factories: Partial<Record<PaymentMethodCode, () => ServerPaymentProvider>> = {
+  payhere: () => new PayHereServerProvider({
+    merchantId: Deno.env.get('PAYHERE_MERCHANT_ID') || '',
+    merchantSecret: Deno.env.get('PAYHERE_SECRET') || '',
+    appId: Deno.env.get('PAYHERE_APP_ID'),
+    appSecret: Deno.env.get('PAYHERE_APP_SECRET'),
+    isProduction: (Deno.env.get('PAYHERE_ENVIRONMENT') || 'sandbox').toLowerCase() === 'production',
+  }),
+  stripe: () => new StripeServerProvider({
+    secretKey: Deno.env.get('STRIPE_SECRET_KEY') || '',
+    webhookSecret: Deno.env.get('STRIPE_WEBHOOK_SECRET') || '',
+  }),
+  fake: () => new FakeServerProvider(Deno.env.get('FAKE_PAYMENT_SECRET') || ''),
+};
+
+/**
+ * Server provider for an online payment method. Throws if the method is
+ * offline, unknown or missing its configuration.
+ */
+export const getServerPaymentProvider = (code: string | null | undefined): ServerPaymentProvider => {
+  const factory = isOnlinePaymentMethod(code) ? factories[code as PaymentMethodCode] : undefined;
+
+  if (!factory) {
+    throw new Error(`No payment gateway for method: ${code}`);
+  }
+
+  return factory();
+};
@@ -0,0 +1,224 @@
+import { CheckoutOrder, CheckoutUrls, PaymentCheckout, PaymentNotification, ProviderRefundRequest, ProviderRefundResult, ServerPaymentProvider } from './types.ts';
+
+interface StripeConfig {
+  secretKey: string;
+  webhookSecret: string;
+}
+
+const STRIPE_API_URL = 'https://api.stripe.com/v1';
+
+// Reject signed notifications older than this many seconds (replays)
+const SIGNATURE_TOLERANCE_SECONDS = 300;
+
+// Stripe Checkout sessions must stay open for at least 30 minutes
+const MIN_SESSION_SECONDS = 31 * 60;
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer)).map(b => b.toString(16).padStart(2, '0')).join('');
+
+// Stripe amounts are in the currency's minor unit
+const toMinorUnits = (amount: number) => Math.round(amount * 100);
+
+// The fields read from a webhook event's object: a Checkout Session, or a
+// Dispute for charge.dispute.* events
+interface StripeEventObject {
+  metadata?: { order_id?: string };
+  client_reference_id?: string | null;
+  payment_intent?: string | null;
+  payment_status?: string;
+  amount_total?: number | null;
+  amount?: number | null;
+  currency?: string | null;
+  payment_method_types?: string[];
+}
+
+interface StripeEvent {
+  id?: string;
+  type?: string;
+  data?: { object?: StripeEventObject };
+}
+
+// An error answer from the Stripe API, as opposed to no answer at all
+class StripeRequestError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+  }
+}
+
+export class StripeServerProvider implements ServerPaymentProvider {
+  code = 'stripe' as const;
+  private config: StripeConfig;
+
+  constructor(config: StripeConfig) {
+    if (!config.secretKey || !config.webhookSecret) {
+      throw new Error('Stripe API and webhook secrets are required');
+    }
+    this.config = config;
+  }
+
+  private async request(
+    path: string,
+    params: Record<string, string>,
+    idempotencyKey?: string
+  ): Promise<Record<string, unknown>> {
+    const response = await fetch(`${STRIPE_API_URL}${path}`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${this.config.secretKey}`,
+        'Content-Type': 'application/x-www-form-urlencoded',
+        ...(idempotencyKey ? { 'Idempotency-Key': idempotencyKey } : {}),
+      },
+      body: new URLSearchParams(params).toString(),
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new StripeRequestError(data.error?.message || `Stripe request failed (${response.status})`, response.status);
+    }
+
+    return data;
+  }
+
+  /**
+   * Verify the Stripe-Signature header:
+   * HMAC-SHA256(webhook_secret, timestamp + '.' + raw_body) must match a v1 entry
+   */
+  private async verifySignature(header: string, body: string): Promise<boolean> {
+    const parts = header.split(',').map(part => part.split('='));
+    const timestamp = parts.find(([key]) => key === 't')?.[1];
+    const signatures = parts.filter(([key]) => key === 'v1').map(([, value]) => value);
+
+    if (!timestamp || signatures.length === 0) return false;
+    if (Math.abs(Date.now() / 1000 - Number(timestamp)) > SIGNATURE_TOLERANCE_SECONDS) return false;
+
+    const encoder = new TextEncoder();
+    const key = await crypto.subtle.importKey(
+      'raw',
+      encoder.encode(this.config.webhookSecret),
+      { name: 'HMAC', hash: 'SHA-256' },
+      false,
+      ['sign']
+    );
+    const expected = toHex(await crypto.subtle.sign('HMAC', key, encoder.encode(`${timestamp}.${body}`)));
+
+    return signatures.includes(expected);
+  }
+
+  async createCheckout(order: CheckoutOrder, urls: CheckoutUrls): Promise<PaymentCheckout> {
+    if (order.total <= 0) {
+      throw new Error('Amount must be greater than 0');
+    }
+
+    // Keep the session open at least until the stock reservation ends
+    const reservedUntil = order.reservedUntil ? Math.floor(new Date(order.reservedUntil).getTime() / 1000) : 0;
+    const expiresAt = Math.max(reservedUntil, Math.floor(Date.now() / 1000) + MIN_SESSION_SECONDS);
+
+    // One line for the whole order so discounts and shipping match the order total
+    const session = await this.request('/checkout/sessions', {
+      'mode': 'payment',
+      'client_reference_id': order.id,
+      'customer_email': order.customer.email,
+      'success_url': urls.returnUrl,
+      'cancel_url': urls.cancelUrl,
+      'expires_at': String(expiresAt),
+      'metadata[order_id]': order.id,
+      'payment_intent_data[metadata][order_id]': order.id,
+      'line_items[0][quantity]': '1',
+      'line_items[0][price_data][currency]': order.currency.toLowerCase(),
+      'line_items[0][price_data][unit_amount]': String(toMinorUnits(order.total)),
+      'line_items[0][price_data][product_data][name]': `Order ${order.orderNumber}`,
+    });
+
+    return {
+      provider: 'stripe',
+      type: 'redirect',
+      paymentId: String(session.id),
+      url: String(session.url),
+    };
+  }
+
+  async parseNotification(req: Request): Promise<PaymentNotification> {
+    const body = await req.text();
+    const signatureValid = await this.verifySignature(req.headers.get('Stripe-Signature') || '', body);
+
+    let payload: Record<string, unknown> = {};
+    try {
+      const parsed = JSON.parse(body);
+      if (parsed && typeof parsed === 'object') {
+        payload = parsed;
+      }
+    } catch {
+      payload = {};
+    }
+
+    const event = payload as StripeEvent;
+    const object: StripeEventObject = event.data?.object || {};
+    let paymentStatus: string | null = null;
+    let orderReference: string | null = object.metadata?.order_id || object.client_reference_id || null;
+    let providerPaymentId: string | null = object.payment_intent || null;
+    let amount: number | null = object.amount_total ?? null;
+
+    switch (event.type) {
+      case 'checkout.session.completed':
+        // Delayed methods (bank debits) complete later through async_payment_*
+        paymentStatus = object.payment_status === 'paid' ? 'paid' : 'pending';
+        break;
+      case 'checkout.session.async_payment_succeeded':
+        paymentStatus = 'paid';
+        break;
+      case 'checkout.session.async_payment_failed':
+      case 'checkout.session.expired':
+        paymentStatus = 'failed';
+        break;
+      case 'charge.dispute.created':
+        paymentStatus = 'chargedback';
+        // Disputes carry the payment intent but not our metadata
+        orderReference = null;
+        providerPaymentId = object.payment_intent || null;
+        amount = object.amount ?? null;
+        break;
+    }
+
+    return {
+      orderReference,
+      providerPaymentId,
+      providerEventId: event.id || null,
+      statusCode: null,
+      statusMessage: event.type || null,
+      paymentStatus,
+      amount: amount !== null ? amount / 100 : null,
+      currency: object.currency ? String(object.currency).toUpperCase() : null,
+      method: object.payment_method_types?.[0] || null,
+      signatureValid,
+      rawPayload: payload,
+    };
+  }
+
+  /**
+   * Keyed on our refund id, so retrying a refund Stripe already made returns
+   * that refund instead of paying out twice.
+   */
+  async refund(request: ProviderRefundRequest): Promise<ProviderRefundResult> {
+    let refund: Record<string, unknown>;
+    try {
+      refund = await this.request('/refunds', {
+        'payment_intent': request.paymentId,
+        'amount': String(toMinorUnits(request.amount)),
+        'metadata[refund_id]': request.refundId,
+      }, `refund_${request.refundId}`);
+    } catch (error) {
+      // Stripe turned the refund down; anything else leaves its outcome unknown
+      if (error instanceof StripeRequestError && error.status < 500) {
+        return { success: false, error: error.message };
+      }
+      throw error;
+    }
+
+    if (refund.status === 'failed' || refund.status === 'canceled') {
+      return { success: false, error: `Stripe refund ${refund.status}` };
+    }
+
+    return { success: true, providerRefundId: String(refund.id) };
+  }
+}
@@ -0,0 +1,85 @@
+import { PaymentMethodCode } from './methods.ts';
+
+// Returned by create-payment; tells the storefront how to take the payment.
+// Mirrored in src/paymentProviders/types.ts.
+export interface PaymentCheckout {
+  provider: PaymentMethodCode;
+  // popup: hand payload to the gateway's JS SDK
+  // redirect: send the shopper to url
+  // simulated: the fake gateway; payload is the notification it would send
+  type: 'popup' | 'redirect' | 'simulated';
+  paymentId: string;
+  url?: string;
+  notifyUrl?: string;
+  payload?: Record<string, unknown>;
+}
+
+// A gateway notification, normalised for the payment_events ledger
+export interface PaymentNotification {
+  orderReference: string | null;
+  providerPaymentId: string | null;
+  providerEventId: string | null;
+  statusCode: number | null;
+  statusMessage: string | null;
+  // null for notifications that don't affect the order
+  paymentStatus: string | null;
+  amount: number | null;
+  currency: string | null;
+  method: string | null;
+  signatureValid: boolean;
+  rawPayload: Record<string, unknown>;
+}
+
+export interface CheckoutOrder {
+  id: string;
+  orderNumber: string;
+  total: number;
+  currency: string;
+  reservedUntil: string | null;
+  customer: {
+    firstName: string;
+    lastName: string;
+    email: string;
+    phone: string;
+    address: string;
+    city: string;
+    country: string;
+  };
+  items: Array<{
+    itemNumber: string;
+    itemName: string;
+    amount: number;
+    quantity: number;
+  }>;
+}
+
+export interface CheckoutUrls {
+  returnUrl: string;
+  cancelUrl: string;
+  notifyUrl: string;
+}
+
+export interface ProviderRefundRequest {
+  refundId: string;
+  paymentId: string;
+  amount: number;
+  currency: string;
+  reason: string;
+  isFullRefund: boolean;
+}
+
+export interface ProviderRefundResult {
+  success: boolean;
+  providerRefundId?: string | null;
+  error?: string;
+}
+
+// Server half of a gateway, used by the payment edge functions
+export interface ServerPaymentProvider {
+  code: PaymentMethodCode;
+  createCheckout: (order: CheckoutOrder, urls: CheckoutUrls) => Promise<PaymentCheckout>;
+  parseNotification: (req: Request) => Promise<PaymentNotification>;
+  // Resolves with success false only when the gateway declined the refund;
+  // throws when it can't tell whether the money was paid out
+  refund: (request: ProviderRefundRequest) => Promise<ProviderRefundResult>;
+}
@@ -0,0 +1,181 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { getServerPaymentProvider } from './registry.ts';
+import { payOutRefund, RefundedOrder } from './refunds.ts';
+import { sendQueuedEmails } from '../email/sender.ts';
+import { sendQueuedSms } from '../sms/sender.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, stripe-signature',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+const jsonResponse = (body: Record<string, unknown>, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  });
+
+/**
+ * Record a gateway notification in payment_events and apply it to its order.
+ * Every gateway goes through here, so duplicates, late notifications and bad
+ * signatures are handled the same way whichever provider sent them.
+ */
+export const handlePaymentWebhook = async (req: Request, providerCode: string | null): Promise<Response> => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL');
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+      console.error('Missing Supabase environment variables');
+      return jsonResponse({ error: 'Configuration error' }, 500);
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    let provider;
+    try {
+      provider = getServerPaymentProvider(providerCode);
+    } catch (providerError) {
+      console.error('Payment provider unavailable:', providerError.message);
+      return jsonResponse({ error: 'Configuration error' }, 500);
+    }
+
+    const notification = await provider.parseNotification(req);
+
+    // Events we don't act on (e.g. other Stripe event types) are acknowledged
+    // so the gateway stops retrying
+    if (notification.signatureValid && !notification.paymentStatus) {
+      return jsonResponse({ success: true, outcome: 'ignored', message: 'Event not handled' });
+    }
+
+    // Only link the event to an order that actually exists. Some notifications
+    // (disputes) only carry the gateway's payment id.
+    let orderQuery = supabase.from('orders').select('id');
+    if (notification.orderReference) {
+      orderQuery = orderQuery.eq('id', notification.orderReference);
+    } else if (notification.providerPaymentId) {
+      orderQuery = orderQuery
+        .eq('payment_method', provider.code)
+        .eq('payment_provider_id', notification.providerPaymentId);
+    }
+
+    const { data: order } = notification.orderReference || notification.providerPaymentId
+      ? await orderQuery.maybeSingle()
+      : { data: null };
+
+    // Record the notification before acting on it, valid or not
+    const { data: event, error: eventError } = await supabase
+      .from('payment_events')
+      .insert({
+        order_id: order?.id ?? null,
+        order_reference: notification.orderReference,
+        provider: provider.code,
+        provider_payment_id: notification.providerPaymentId,
+        provider_event_id: notification.providerEventId,
+        status_code: notification.statusCode,
+        status_message: notification.statusMessage,
+        payment_status: notification.paymentStatus,
+        amount: notification.amount,
+        currency: notification.currency,
+        payment_method: notification.method,
+        signature_valid: notification.signatureValid,
+        raw_payload: notification.rawPayload,
+      })
+      .select('id')
+      .single();
+
+    if (eventError || !event) {
+      return jsonResponse({
+        success: false,
+        error: 'Could not record payment event',
+        details: eventError?.message
+      }, 500);
+    }
+
+    if (!notification.signatureValid) {
+      await supabase.rpc('apply_payment_event', { p_event_id: event.id });
+      return jsonResponse({ error: 'Invalid signature' }, 400);
+    }
+
+    if (!order) {
+      await supabase.rpc('apply_payment_event', { p_event_id: event.id });
+      return jsonResponse({ error: 'Order not found' }, 404);
+    }
+
+    // Duplicates, out-of-order notifications and payments that don't match
+    // the order total are recorded but leave the order untouched; the
+    // gateway still gets a 200 so it stops retrying
+    const { data: result, error: applyError } = await supabase.rpc('apply_payment_event', {
+      p_event_id: event.id
+    });
+
+    if (applyError) {
+      return jsonResponse({
+        success: false,
+        error: 'Order update failed',
+        details: applyError.message
+      }, 500);
+    }
+
+    if (result.outcome === 'rejected') {
+      console.error(`Payment event ${event.id} for order ${order.id} rejected: ${result.detail}`);
+    }
+
+    // The order was cancelled before this payment arrived; give it back now.
+    // If that fails the refund waits, pending, for an admin.
+    if (result.refund_id) {
+      try {
+        const { data: refund } = await supabase
+          .from('refunds')
+          .select('id, amount, currency, reason, orders ( id, total, currency, payment_provider_id )')
+          .eq('id', result.refund_id)
+          .single();
+
+        const refundedOrder = refund?.orders as RefundedOrder | null;
+
+        if (refund && refundedOrder?.payment_provider_id) {
+          const payout = await payOutRefund(supabase, provider, refund, refundedOrder);
+          if (payout.status !== 'succeeded') {
+            console.error(`Late payment refund ${refund.id} ${payout.status}: ${payout.error}`);
+          }
+        }
+      } catch (refundError) {
+        console.error('Late payment refund failed:', refundError.message);
+      }
+    }
+
+    // A confirmed payment queues the customer's email and text; send them
+    // now rather than waiting for the next scheduled run. The gateway's
+    // answer doesn't depend on it.
+    try {
+      await sendQueuedEmails(supabase, 5);
+    } catch (emailError) {
+      console.error('Sending queued emails failed:', emailError.message);
+    }
+    try {
+      await sendQueuedSms(supabase, 5);
+    } catch (smsError) {
+      console.error('Sending queued SMS failed:', smsError.message);
+    }
+
+    return jsonResponse({
+      success: true,
+      orderId: order.id,
+      paymentStatus: result.payment_status,
+      outcome: result.outcome,
+      message: 'Webhook processed successfully'
+    });
+
+  } catch (error) {
+    return jsonResponse({
+      success: false,
+      error: 'Webhook processing failed',
+      message: error.message
+    }, 500);
+  }
+};
@@ -0,0 +1,70 @@
+import { SmsDeliveryResult, SmsProvider } from './types.ts';
+
+interface DialogConfig {
+  username: string;
+  password: string;
+  sourceAddress: string;
+}
+
+const API_URL = 'https://e-sms.dialog.lk/api/v2';
+
+// Dialog eSMS: log in for a bearer token, then send. Tokens last around
+// twelve hours, so one is reused for the life of the function instance.
+export class DialogProvider implements SmsProvider {
+  code = 'dialog' as const;
+  private config: DialogConfig;
+  private token: string | null = null;
+
+  constructor(config: DialogConfig) {
+    if (!config.username || !config.password || !config.sourceAddress) {
+      throw new Error('Dialog eSMS username, password and source address are required');
+    }
+    this.config = config;
+  }
+
+  private async login(): Promise<string> {
+    const response = await fetch(`${API_URL}/user/login`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ username: this.config.username, password: this.config.password }),
+    });
+    const result = await response.json().catch(() => ({}));
+
+    if (!response.ok || !result.token) {
+      throw new Error(`Dialog login failed: ${result.comment || response.status}`);
+    }
+
+    this.token = result.token;
+    return result.token;
+  }
+
+  async send(to: string, message: string): Promise<SmsDeliveryResult> {
+    const post = async (token: string) => fetch(`${API_URL}/sms`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${token}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        msisdn: [{ mobile: to.replace(/^\+94/, '') }],
+        sourceAddress: this.config.sourceAddress,
+        message,
+        // Dialog wants a numeric reference unique per message
+        transaction_id: Date.now(),
+      }),
+    });
+
+    let response = await post(this.token || await this.login());
+    if (response.status === 401) {
+      response = await post(await this.login());
+    }
+
+    const result = await response.json().catch(() => ({}));
+
+    if (!response.ok || result.status !== 'success') {
+      return { messageId: null, error: `${response.status}: ${result.comment || 'Dialog rejected the message'}` };
+    }
+
+    return { messageId: result.data?.campaignId ? String(result.data.campaignId) : null, error: null };
+  }
+}
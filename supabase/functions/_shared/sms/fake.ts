@@ -0,0 +1,37 @@
+import { SmsDeliveryResult, SmsProvider } from './types.ts';
+
+// Sends nothing. Messages are posted to SMS_SINK_URL when it is set (see
+// mail-sink.js) and logged otherwise. Like a test card, numbers ending in
+// 0000 always fail, so retries can be tried too.
+export class FakeSmsProvider implements SmsProvider {
+  code = 'fake' as const;
+  private sinkUrl: string | null;
+
+  constructor(sinkUrl?: string) {
+    this.sinkUrl = sinkUrl || null;
+  }
+
+  async send(to: string, message: string): Promise<SmsDeliveryResult> {
+    if (to.endsWith('0000')) {
+      return { messageId: null, error: 'Fake gateway: numbers ending in 0000 always fail' };
+    }
+
+    if (!this.sinkUrl) {
+      console.log(`📱 ${to}: ${message}`);
+      return { messageId: `fake_${crypto.randomUUID()}`, error: null };
+    }
+
+    const response = await fetch(this.sinkUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ to, message }),
+    });
+
+    if (!response.ok) {
+      return { messageId: null, error: `${response.status}: ${(await response.text()).slice(0, 500)}` };
+    }
+
+    const result = await response.json().catch(() => ({}));
+    return { messageId: result.id ?? null, error: null };
+  }
+}
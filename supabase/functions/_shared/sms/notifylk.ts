@@ -0,0 +1,39 @@
+import { SmsDeliveryResult, SmsProvider } from './types.ts';
+
+interface NotifyLkConfig {
+  userId: string;
+  apiKey: string;
+  senderId: string;
+}
+
+// https://developer.notify.lk/api-endpoints/
+export class NotifyLkProvider implements SmsProvider {
+  code = 'notifylk' as const;
+  private config: NotifyLkConfig;
+
+  constructor(config: NotifyLkConfig) {
+    if (!config.userId || !config.apiKey || !config.senderId) {
+      throw new Error('Notify.lk user ID, API key and sender ID are required');
+    }
+    this.config = config;
+  }
+
+  async send(to: string, message: string): Promise<SmsDeliveryResult> {
+    const params = new URLSearchParams({
+      user_id: this.config.userId,
+      api_key: this.config.apiKey,
+      sender_id: this.config.senderId,
+      to: to.replace(/^\+/, ''),
+      message,
+    });
+
+    const response = await fetch(`https://app.notify.lk/api/v1/send?${params}`);
+    const result = await response.json().catch(() => ({}));
+
+    if (!response.ok || result.status !== 'success') {
+      return { messageId: null, error: `${response.status}: ${result.message || result.errors || 'Notify.lk rejected the message'}` };
+    }
+
+    return { messageId: result.data?.message_id ? String(result.data.message_id) : null, error: null };
+  }
+}
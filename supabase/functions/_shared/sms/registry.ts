@@ -0,0 +1,33 @@
+import { SmsProvider } from './types.ts';
+import { NotifyLkProvider } from './notifylk.ts';
+import { DialogProvider } from './dialog.ts';
+import { FakeSmsProvider } from './fake.ts';
+
+const factories: Record<string, () => SmsProvider> = {
+  notifylk: () => new NotifyLkProvider({
+    userId: Deno.env.get('NOTIFYLK_USER_ID') || '',
+    apiKey: Deno.env.get('NOTIFYLK_API_KEY') || '',
+    senderId: Deno.env.get('NOTIFYLK_SENDER_ID') || '',
+  }),
+  dialog: () => new DialogProvider({
+    username: Deno.env.get('DIALOG_ESMS_USERNAME') || '',
+    password: Deno.env.get('DIALOG_ESMS_PASSWORD') || '',
+    sourceAddress: Deno.env.get('DIALOG_ESMS_SOURCE_ADDRESS') || '',
+  }),
+  fake: () => new FakeSmsProvider(Deno.env.get('SMS_SINK_URL')),
+};
+
+/**
+ * The gateway named by SMS_PROVIDER. Throws if it is unset, unknown or
+ * missing its configuration.
+ */
+export const getSmsProvider = (): SmsProvider => {
+  const code = (Deno.env.get('SMS_PROVIDER') || '').toLowerCase();
+  const factory = factories[code];
+
+  if (!factory) {
+    throw new Error(code ? `Unknown SMS provider: ${code}` : 'SMS is not configured');
+  }
+
+  return factory();
+};
@@ -0,0 +1,80 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { renderSms, SmsContext } from './templates.ts';
+import { getSmsProvider } from './registry.ts';
+import { SmsDeliveryResult, SmsProvider } from './types.ts';
+
+interface ClaimedSms {
+  id: string;
+  template_key: string;
+  phone: string;
+  body_template: string;
+  context: SmsContext;
+}
+
+export interface SendSmsSummary {
+  sent: number;
+  failed: number;
+}
+
+/**
+ * Send the texts that are due in sms_messages through the SMS_PROVIDER
+ * gateway; failures are left for complete_sms() to schedule again.
+ */
+export const sendQueuedSms = async (
+  supabase: SupabaseClient,
+  limit = 20
+): Promise<SendSmsSummary> => {
+  const siteUrl = Deno.env.get('SITE_URL') || 'https://kixora.com';
+
+  const { data, error } = await supabase.rpc('claim_due_sms', { p_limit: limit });
+  if (error) throw error;
+
+  const summary: SendSmsSummary = { sent: 0, failed: 0 };
+  const messages = (data || []) as ClaimedSms[];
+  if (messages.length === 0) return summary;
+
+  // Claimed texts still need completing when the gateway is misconfigured,
+  // so they go back on the queue with the reason
+  let provider: SmsProvider | null = null;
+  let providerError: string | null = null;
+  try {
+    provider = getSmsProvider();
+  } catch (configError) {
+    providerError = configError.message;
+  }
+
+  for (const message of messages) {
+    let body: string | null = null;
+    let result: SmsDeliveryResult;
+
+    try {
+      body = renderSms(message.body_template, message.context, siteUrl);
+      result = provider
+        ? await provider.send(message.phone, body)
+        : { messageId: null, error: providerError };
+    } catch (sendError) {
+      result = { messageId: null, error: sendError.message || 'SMS delivery failed' };
+    }
+
+    if (result.error) {
+      console.error(`SMS ${message.id} (${message.template_key}) failed:`, result.error);
+      summary.failed++;
+    } else {
+      summary.sent++;
+    }
+
+    const { error: completeError } = await supabase.rpc('complete_sms', {
+      p_id: message.id,
+      p_provider: provider?.code ?? null,
+      p_body: body,
+      p_error: result.error,
+      p_provider_message_id: result.messageId,
+    });
+
+    if (completeError) {
+      console.error(`Failed to record SMS ${message.id}:`, completeError);
+    }
+  }
+
+  return summary;
+};
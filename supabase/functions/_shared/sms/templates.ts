@@ -0,0 +1,130 @@
+// SMS rendering and length counting. Imported by both the send-sms edge
+// function and the admin template editor, so this file must not import
+// anything.
+
+export type SmsTemplateKey =
+  | 'order_confirmed'
+  | 'order_dispatched'
+  | 'cod_delivery_reminder'
+  | 'otp';
+
+// The order as it is now (see email_order_context) merged with whatever the
+// message itself recorded
+export type SmsContext = Record<string, unknown>;
+
+const ORDER_PLACEHOLDERS = ['customer_first_name', 'order_number', 'order_total', 'order_url'];
+
+// Shown next to the template editor
+export const SMS_PLACEHOLDERS: Record<SmsTemplateKey, string[]> = {
+  order_confirmed: ORDER_PLACEHOLDERS,
+  order_dispatched: [...ORDER_PLACEHOLDERS, 'tracking_number', 'tracking_note'],
+  cod_delivery_reminder: ORDER_PLACEHOLDERS,
+  otp: ['code'],
+};
+
+const text = (value: unknown) => (value === null || value === undefined ? '' : String(value));
+
+const formatMoney = (amount: unknown, currency: unknown) =>
+  `${text(currency) || 'LKR'} ${Number(amount || 0).toLocaleString('en-US', {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  })}`;
+
+/**
+ * Sri Lankan mobile number in +947XXXXXXXX form, or null. Accepts the usual
+ * ways of writing one: 077 123 4567, 94771234567, +94 77 123 4567.
+ */
+export const normalizeLkMobile = (phone: string): string | null => {
+  let digits = phone.replace(/\D/g, '');
+
+  if (digits.length === 10 && digits.startsWith('0')) {
+    digits = `94${digits.slice(1)}`;
+  } else if (digits.length === 9) {
+    digits = `94${digits}`;
+  }
+
+  return /^947\d{8}$/.test(digits) ? `+${digits}` : null;
+};
+
+// +94771234567 -> 077 123 4567
+export const formatLkMobile = (phone: string) => {
+  const normalized = normalizeLkMobile(phone);
+  if (!normalized) return phone;
+  const local = `0${normalized.slice(3)}`;
+  return `${local.slice(0, 3)} ${local.slice(3, 6)} ${local.slice(6)}`;
+};
+
+export const buildSmsValues = (context: SmsContext, siteUrl: string): Record<string, string> => {
+  const values: Record<string, string> = {};
+
+  for (const [key, value] of Object.entries(context)) {
+    if (value === null || typeof value !== 'object') {
+      values[key] = text(value);
+    }
+  }
+
+  const address = (context.shipping_address || {}) as Record<string, unknown>;
+  const trackingNumber = text(context.tracking_number);
+
+  return {
+    ...values,
+    site_url: siteUrl,
+    customer_first_name: text(address.firstName) || text(context.customer_name).split(' ')[0] || 'there',
+    order_total: formatMoney(context.total, context.currency),
+    order_url: context.order_id ? `${siteUrl}/orders/${context.order_id}` : `${siteUrl}/orders`,
+    tracking_note: trackingNumber ? ` Tracking number: ${trackingNumber}.` : '',
+  };
+};
+
+/**
+ * Fill a template with a message's context. Whitespace is collapsed, since
+ * every character counts towards the message length.
+ */
+export const renderSms = (body: string, context: SmsContext, siteUrl: string): string => {
+  const values = buildSmsValues(context, siteUrl);
+
+  return body
+    .replace(/\{\{\s*([a-z_]+)\s*\}\}/g, (_, key: string) => values[key] ?? '')
+    .replace(/\s+/g, ' ')
+    .trim();
+};
+
+// The GSM 03.38 alphabet; anything outside it sends the whole message as
+// UCS-2, which fits far fewer characters (Sinhala and Tamil always do)
+const GSM_BASIC = '@£$¥èéùìòÇ\nØø\rÅåΔ_ΦΓΛΩΠΨΣΘΞÆæßÉ !"#¤%&\'()*+,-./0123456789:;<=>?¡ABCDEFGHIJKLMNOPQRSTUVWXYZÄÖÑÜ§¿abcdefghijklmnopqrstuvwxyzäöñüà';
+const GSM_EXTENDED = '^{}\\[~]|€\f';
+
+export interface SmsLength {
+  encoding: 'GSM-7' | 'UCS-2';
+  characters: number;
+  segments: number;
+}
+
+/**
+ * How many characters a message uses and how many messages it is billed as.
+ */
+export const countSmsSegments = (message: string): SmsLength => {
+  const chars = Array.from(message);
+  const isGsm = chars.every((char) => GSM_BASIC.includes(char) || GSM_EXTENDED.includes(char));
+
+  if (isGsm) {
+    const characters = chars.reduce((count, char) => count + (GSM_EXTENDED.includes(char) ? 2 : 1), 0);
+    return { encoding: 'GSM-7', characters, segments: characters <= 160 ? 1 : Math.ceil(characters / 153) };
+  }
+
+  const characters = chars.reduce((count, char) => count + (char.length > 1 ? 2 : 1), 0);
+  return { encoding: 'UCS-2', characters, segments: characters <= 70 ? 1 : Math.ceil(characters / 67) };
+};
+
+// Example data for previewing templates in the admin screen
+export const SAMPLE_SMS_CONTEXT: SmsContext = {
+  order_id: '00000000-0000-0000-0000-000000000000',
+  order_number: 'ORD-20250101-001',
+  customer_name: 'Nimal Perera',
+  currency: 'LKR',
+  total: 22550,
+  payment_method: 'cod',
+  shipping_address: { firstName: 'Nimal', lastName: 'Perera' },
+  tracking_number: 'DX123456789LK',
+  code: '482913',
+};
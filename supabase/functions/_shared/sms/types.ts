@@ -0,0 +1,11 @@
+// A gateway that sends one text message. Numbers are passed in +947XXXXXXXX
+// form; each provider converts them to whatever its API expects.
+export interface SmsDeliveryResult {
+  messageId: string | null;
+  error: string | null;
+}
+
+export interface SmsProvider {
+  code: string;
+  send(to: string, message: string): Promise<SmsDeliveryResult>;
+}
@@ -0,0 +1,183 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+// Emails shoppers whose out-of-stock variant can be bought again. Admin
+// screens call it after stock edits; a scheduler can call it with the service
+// role key to pick up restocks from cancelled orders.
+
+interface DueNotification {
+  id: string;
+  email: string;
+  unsubscribe_token: string;
+  variant_id: string;
+  product_title: string;
+  product_slug: string;
+  size: string | null;
+  color: string | null;
+  price: number;
+  stock: number;
+}
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+const jsonResponse = (body: Record<string, unknown>, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  });
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const buildEmailHtml = (notification: DueNotification, productUrl: string, unsubscribeUrl: string) => {
+  const variant = [notification.color, notification.size && `Size ${notification.size}`].filter(Boolean).join(' • ');
+
+  return `
+    <!DOCTYPE html>
+    <html>
+      <head>
+        <meta charset="utf-8">
+        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        <title>Back in stock</title>
+      </head>
+      <body style="font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+        <div style="text-align: center; margin-bottom: 30px;">
+          <h1 style="color: #000; margin-bottom: 10px;">It's back in stock</h1>
+          <p style="color: #666; font-size: 16px;">The item you asked about is available again.</p>
+        </div>
+
+        <div style="background-color: #f8f9fa; padding: 25px; border-radius: 8px; margin-bottom: 25px; text-align: center;">
+          <h2 style="color: #000; margin-top: 0;">${escapeHtml(notification.product_title)}</h2>
+          ${variant ? `<p style="color: #666; margin: 0 0 10px;">${escapeHtml(variant)}</p>` : ''}
+          <p style="color: #000; font-weight: 600; margin: 0 0 20px;">LKR ${Number(notification.price).toLocaleString()}</p>
+          <a href="${productUrl}" style="display: inline-block; background-color: #000; color: #fff; text-decoration: none; padding: 12px 28px; border-radius: 4px;">Shop now</a>
+          ${notification.stock <= 5 ? `<p style="color: #666; font-size: 14px; margin: 15px 0 0;">Only ${notification.stock} left, so don't wait too long.</p>` : ''}
+        </div>
+
+        <div style="text-align: center; border-top: 1px solid #eee; padding-top: 20px; margin-top: 30px;">
+          <p style="color: #999; font-size: 12px;">
+            You're receiving this email because you asked us to tell you when this item was back in stock.<br>
+            <a href="${unsubscribeUrl}" style="color: #666;">Unsubscribe from stock alerts</a> |
+            <a href="mailto:support@kixora.com" style="color: #666;">Contact Support</a>
+          </p>
+        </div>
+      </body>
+    </html>
+  `;
+};
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL');
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+    const resendApiKey = Deno.env.get('RESEND_API_KEY');
+    const siteUrl = Deno.env.get('SITE_URL') || 'https://kixora.com';
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+      return jsonResponse({ success: false, error: 'Server configuration error' }, 500);
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    // The scheduler calls with the service role key; anyone else must be an admin
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return jsonResponse({ success: false, error: 'Authentication required' }, 401);
+    }
+
+    const token = authHeader.replace('Bearer ', '');
+    if (token !== supabaseServiceKey) {
+      const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+
+      if (authError || !user) {
+        return jsonResponse({ success: false, error: 'Invalid authentication token' }, 401);
+      }
+
+      const { data: profile } = await supabase
+        .from('profiles')
+        .select('role')
+        .eq('id', user.id)
+        .single();
+
+      if (profile?.role !== 'admin') {
+        return jsonResponse({ success: false, error: 'Admin access required' }, 403);
+      }
+    }
+
+    const { data, error: dueError } = await supabase.rpc('due_stock_notifications');
+
+    if (dueError) {
+      return jsonResponse({ success: false, error: dueError.message }, 500);
+    }
+
+    const due = (data || []) as DueNotification[];
+
+    if (due.length === 0) {
+      return jsonResponse({ success: true, sent: 0, failed: 0 });
+    }
+
+    if (!resendApiKey) {
+      return jsonResponse({ success: false, error: 'Email is not configured', pending: due.length }, 500);
+    }
+
+    let sent = 0;
+    let failed = 0;
+
+    // One email per alert: each carries its own unsubscribe link
+    for (const notification of due) {
+      const productUrl = `${siteUrl}/products/${encodeURIComponent(notification.product_slug)}`;
+      const unsubscribeUrl = `${siteUrl}/unsubscribe?list=back-in-stock&token=${notification.unsubscribe_token}`;
+
+      const resendResponse = await fetch('https://api.resend.com/emails', {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${resendApiKey}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          from: 'Kixora <noreply@inkixora.com>',
+          to: [notification.email],
+          subject: `Back in stock: ${notification.product_title}`,
+          html: buildEmailHtml(notification, productUrl, unsubscribeUrl),
+          headers: {
+            'List-Unsubscribe': `<${unsubscribeUrl}>`,
+          },
+        }),
+      });
+
+      if (!resendResponse.ok) {
+        console.error('Resend API error:', await resendResponse.text());
+        failed++;
+        continue;
+      }
+
+      const { error: updateError } = await supabase
+        .from('stock_notifications')
+        .update({ notified_at: new Date().toISOString() })
+        .eq('id', notification.id);
+
+      if (updateError) {
+        console.error('Failed to mark stock notification as sent:', updateError);
+      }
+
+      sent++;
+    }
+
+    return jsonResponse({ success: true, sent, failed });
+
+  } catch (error) {
+    return jsonResponse({
+      success: false,
+      error: 'Back in stock notifications failed',
+      message: error.message
+    }, 500);
+  }
+});
@@ -0,0 +1,149 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { getServerPaymentProvider } from '../_shared/payments/registry.ts';
+import { PAYMENT_METHODS, isOnlinePaymentMethod } from '../_shared/payments/methods.ts';
+
+interface CancelRequest {
+  orderId: string;
+  reason?: string;
+}
+
+interface CancelResult {
+  status: string;
+  payment_status: string;
+  refund_id: string | null;
+}
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+const jsonResponse = (body: Record<string, unknown>, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  });
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL');
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+    const supabaseAnonKey = Deno.env.get('SUPABASE_ANON_KEY');
+
+    if (!supabaseUrl || !supabaseServiceKey || !supabaseAnonKey) {
+      return jsonResponse({ success: false, error: 'Server configuration error' }, 500);
+    }
+
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return jsonResponse({ success: false, error: 'Authentication required' }, 401);
+    }
+
+    // cancel_order checks ownership against the caller's JWT
+    const userClient = createClient(supabaseUrl, supabaseAnonKey, {
+      global: { headers: { Authorization: authHeader } }
+    });
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const { orderId, reason }: CancelRequest = await req.json();
+
+    if (!orderId) {
+      return jsonResponse({ success: false, error: 'Missing order id' }, 400);
+    }
+
+    const { data, error: cancelError } = await userClient.rpc('cancel_order', {
+      p_order_id: orderId,
+      p_reason: reason ?? null,
+    });
+
+    if (cancelError) {
+      return jsonResponse({ success: false, error: cancelError.message }, 400);
+    }
+
+    const result = data as CancelResult;
+
+    if (!result.refund_id) {
+      return jsonResponse({ success: true, ...result, refundStatus: null });
+    }
+
+    const { data: refund } = await supabase
+      .from('refunds')
+      .select('id, amount, currency, reason, orders ( id, total, currency, payment_method, payment_provider_id )')
+      .eq('id', result.refund_id)
+      .single();
+
+    const order = refund?.orders as {
+      id: string;
+      total: number;
+      currency: string;
+      payment_method: string;
+      payment_provider_id: string | null;
+    } | undefined;
+
+    // Offline payments are refunded by hand from the admin panel
+    if (!refund || !order || !isOnlinePaymentMethod(order.payment_method) || !order.payment_provider_id) {
+      return jsonResponse({ success: true, ...result, refundStatus: 'pending' });
+    }
+
+    const isFullRefund = Number(refund.amount) >= Number(order.total);
+    const method = PAYMENT_METHODS[order.payment_method as keyof typeof PAYMENT_METHODS];
+
+    // Gateways without partial refunds need an admin to settle the balance
+    if (!isFullRefund && !method.supportsPartialRefunds) {
+      return jsonResponse({ success: true, ...result, refundStatus: 'pending' });
+    }
+
+    let refundResult;
+    try {
+      refundResult = await getServerPaymentProvider(order.payment_method).refund({
+        refundId: refund.id,
+        paymentId: order.payment_provider_id,
+        amount: Number(refund.amount),
+        currency: refund.currency || order.currency,
+        reason: refund.reason || `Cancellation of order ${order.id}`,
+        isFullRefund,
+      });
+    } catch (providerError) {
+      // The order stays cancelled; the refund waits for an admin to retry it
+      console.error('Cancellation refund failed:', providerError);
+      return jsonResponse({ success: true, ...result, refundStatus: 'pending' });
+    }
+
+    const { error: completeError } = await supabase.rpc('complete_refund', {
+      p_refund_id: refund.id,
+      p_succeeded: refundResult.success,
+      p_provider_refund_id: refundResult.providerRefundId ?? null,
+      p_error: refundResult.success ? null : (refundResult.error || 'The payment gateway rejected the refund'),
+    });
+
+    if (completeError) {
+      console.error('Failed to record cancellation refund:', completeError);
+    }
+
+    const { data: updated } = await supabase
+      .from('orders')
+      .select('payment_status')
+      .eq('id', order.id)
+      .single();
+
+    return jsonResponse({
+      success: true,
+      ...result,
+      payment_status: updated?.payment_status ?? result.payment_status,
+      refundStatus: refundResult.success ? 'succeeded' : 'failed',
+    });
+
+  } catch (error) {
+    return jsonResponse({
+      success: false,
+      error: 'Order cancellation failed',
+      message: error.message
+    }, 500);
+  }
+});
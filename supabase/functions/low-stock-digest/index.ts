@@ -0,0 +1,171 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+// Emails every admin the variants at or below their low-stock threshold.
+// Meant to run once a day from a scheduler with the service role key; admins
+// can also trigger it by hand from the inventory console.
+
+interface LowStockVariant {
+  variant_id: string;
+  product_title: string;
+  sku: string;
+  size: string | null;
+  color: string | null;
+  stock: number;
+  low_stock_threshold: number;
+}
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+const jsonResponse = (body: Record<string, unknown>, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  });
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const buildDigestHtml = (variants: LowStockVariant[], siteUrl: string) => {
+  const rows = variants.map(variant => `
+    <tr>
+      <td style="padding: 8px; border-bottom: 1px solid #eee;">${escapeHtml(variant.product_title)}</td>
+      <td style="padding: 8px; border-bottom: 1px solid #eee;">${escapeHtml([variant.color, variant.size && `Size ${variant.size}`].filter(Boolean).join(' • '))}</td>
+      <td style="padding: 8px; border-bottom: 1px solid #eee;">${escapeHtml(variant.sku)}</td>
+      <td style="padding: 8px; border-bottom: 1px solid #eee; text-align: right; color: ${variant.stock === 0 ? '#c00' : '#000'};">${variant.stock}</td>
+      <td style="padding: 8px; border-bottom: 1px solid #eee; text-align: right;">${variant.low_stock_threshold}</td>
+    </tr>`).join('');
+
+  return `
+    <!DOCTYPE html>
+    <html>
+      <head>
+        <meta charset="utf-8">
+        <title>Low stock digest</title>
+      </head>
+      <body style="font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif; line-height: 1.6; color: #333; max-width: 700px; margin: 0 auto; padding: 20px;">
+        <h1 style="color: #000;">Low stock digest</h1>
+        <p>${variants.length} variant${variants.length === 1 ? ' is' : 's are'} at or below the reorder threshold.</p>
+        <table style="width: 100%; border-collapse: collapse; font-size: 14px;">
+          <thead>
+            <tr style="text-align: left; background-color: #f8f9fa;">
+              <th style="padding: 8px;">Product</th>
+              <th style="padding: 8px;">Variant</th>
+              <th style="padding: 8px;">SKU</th>
+              <th style="padding: 8px; text-align: right;">Stock</th>
+              <th style="padding: 8px; text-align: right;">Threshold</th>
+            </tr>
+          </thead>
+          <tbody>${rows}</tbody>
+        </table>
+        <p style="margin-top: 25px;">
+          <a href="${siteUrl}/admin/inventory" style="color: #000;">Open the inventory console</a>
+        </p>
+      </body>
+    </html>
+  `;
+};
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL');
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+    const resendApiKey = Deno.env.get('RESEND_API_KEY');
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+      return jsonResponse({ success: false, error: 'Server configuration error' }, 500);
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    // The scheduler calls with the service role key; anyone else must be an admin
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return jsonResponse({ success: false, error: 'Authentication required' }, 401);
+    }
+
+    const token = authHeader.replace('Bearer ', '');
+    if (token !== supabaseServiceKey) {
+      const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+
+      if (authError || !user) {
+        return jsonResponse({ success: false, error: 'Invalid authentication token' }, 401);
+      }
+
+      const { data: profile } = await supabase
+        .from('profiles')
+        .select('role')
+        .eq('id', user.id)
+        .single();
+
+      if (profile?.role !== 'admin') {
+        return jsonResponse({ success: false, error: 'Admin access required' }, 403);
+      }
+    }
+
+    const { data: variants, error: variantsError } = await supabase.rpc('low_stock_variants');
+
+    if (variantsError) {
+      return jsonResponse({ success: false, error: variantsError.message }, 500);
+    }
+
+    const lowStock = (variants || []) as LowStockVariant[];
+
+    // Nothing to report is not worth an email
+    if (lowStock.length === 0) {
+      return jsonResponse({ success: true, sent: 0, variants: 0 });
+    }
+
+    if (!resendApiKey) {
+      return jsonResponse({ success: false, error: 'Email is not configured', variants: lowStock.length }, 500);
+    }
+
+    const { data: admins } = await supabase
+      .from('profiles')
+      .select('email')
+      .eq('role', 'admin');
+
+    const recipients = (admins || []).map(admin => admin.email).filter(Boolean);
+
+    if (recipients.length === 0) {
+      return jsonResponse({ success: true, sent: 0, variants: lowStock.length });
+    }
+
+    const resendResponse = await fetch('https://api.resend.com/emails', {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${resendApiKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        from: 'Kixora <noreply@inkixora.com>',
+        to: recipients,
+        subject: `Low stock: ${lowStock.length} variant${lowStock.length === 1 ? '' : 's'} need restocking`,
+        html: buildDigestHtml(lowStock, Deno.env.get('SITE_URL') || 'https://kixora.com'),
+      }),
+    });
+
+    if (!resendResponse.ok) {
+      const resendError = await resendResponse.text();
+      console.error('Resend API error:', resendError);
+      return jsonResponse({ success: false, error: 'Failed to send low stock digest' }, 502);
+    }
+
+    return jsonResponse({ success: true, sent: recipients.length, variants: lowStock.length });
+
+  } catch (error) {
+    return jsonResponse({
+      success: false,
+      error: 'Low stock digest failed',
+      message: error.message
+    }, 500);
+  }
+});
@@ -29,6 +29,14 @@ interface Collection {
   image_url: string | null;
 }
 
+interface Brand {
+  id: string;
+  name: string;
+  description: string | null;
+  slug: string;
+  logo_url: string | null;
+}
+
 const isCrawler = (userAgent: string): boolean => {
   const crawlerPatterns = [
     'facebookexternalhit',
@@ -179,6 +187,65 @@ const generateCollectionHTML = (collection: Collection, siteUrl: string): string
 </html>`;
 };
 
+const generateBrandHTML = (brand: Brand, siteUrl: string): string => {
+  const imageUrl = brand.logo_url
+    ? `${Deno.env.get('SUPABASE_URL')}/storage/v1/object/public/kixora/${brand.logo_url}`
+    : `${siteUrl}/logo.white.png`;
+
+  const description = brand.description
+    ? brand.description.substring(0, 160) + (brand.description.length > 160 ? '...' : '')
+    : `Shop ${brand.name} footwear at Kixora. Secure online shopping with fast delivery across Sri Lanka.`;
+
+  const title = `${brand.name} - Kixora`;
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+
+  <!-- Basic Meta Tags -->
+  <title>${title}</title>
+  <meta name="description" content="${description}">
+
+  <!-- Open Graph Tags -->
+  <meta property="og:title" content="${title}">
+  <meta property="og:description" content="${description}">
+  <meta property="og:image" content="${imageUrl}">
+  <meta property="og:url" content="${siteUrl}/brands/${brand.slug}">
+  <meta property="og:type" content="website">
+  <meta property="og:site_name" content="Kixora">
+  <meta property="og:locale" content="en_US">
+
+  <!-- Twitter Card Tags -->
+  <meta name="twitter:card" content="summary_large_image">
+  <meta name="twitter:title" content="${title}">
+  <meta name="twitter:description" content="${description}">
+  <meta name="twitter:image" content="${imageUrl}">
+
+  <!-- WhatsApp specific -->
+  <meta property="og:image:width" content="1200">
+  <meta property="og:image:height" content="630">
+  <meta property="og:image:type" content="image/jpeg">
+
+  <!-- Redirect to React app -->
+  <script>
+    if (!/bot|crawler|spider|crawling/i.test(navigator.userAgent)) {
+      window.location.href = "${siteUrl}/brands/${brand.slug}";
+    }
+  </script>
+</head>
+<body>
+  <div style="text-align: center; padding: 50px; font-family: Arial, sans-serif;">
+    <h1>${brand.name}</h1>
+    <img src="${imageUrl}" alt="${brand.name}" style="max-width: 400px; height: auto;">
+    <p>${description}</p>
+    <a href="${siteUrl}/brands/${brand.slug}" style="background: #000; color: #fff; padding: 12px 24px; text-decoration: none; border-radius: 4px;">Shop ${brand.name}</a>
+  </div>
+</body>
+</html>`;
+};
+
 const getDefaultHTML = (siteUrl: string): string => {
   return `<!DOCTYPE html>
 <html lang="en">
@@ -339,6 +406,31 @@ serve(async (req) => {
       }
     }
 
+    // Handle brand pages
+    if (pathname.startsWith('/brands/') || pathname.startsWith('/meta-handler/brands/')) {
+      const slug = pathname.startsWith('/meta-handler/brands/')
+        ? pathname.split('/meta-handler/brands/')[1]
+        : pathname.split('/brands/')[1];
+
+      if (slug) {
+        const { data: brand, error } = await supabase
+          .from('brands')
+          .select('id, name, description, slug, logo_url')
+          .eq('slug', slug)
+          .single();
+
+        if (error || !brand) {
+          return new Response(getDefaultHTML(siteUrl), {
+            headers: { ...corsHeaders, 'Content-Type': 'text/html' },
+          });
+        }
+
+        return new Response(generateBrandHTML(brand, siteUrl), {
+          headers: { ...corsHeaders, 'Content-Type': 'text/html' },
+        });
+      }
+    }
+
     // Default response for any other route
     return new Response(getDefaultHTML(siteUrl), {
       headers: { ...corsHeaders, 'Content-Type': 'text/html' },
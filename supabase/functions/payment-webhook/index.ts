@@ -0,0 +1,5 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { handlePaymentWebhook } from '../_shared/payments/webhook.ts';
+
+// Notifications for every gateway, e.g. /functions/v1/payment-webhook?provider=stripe
+serve((req) => handlePaymentWebhook(req, new URL(req.url).searchParams.get('provider')));
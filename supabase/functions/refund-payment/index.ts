@@ -0,0 +1,125 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { getServerPaymentProvider } from '../_shared/payments/registry.ts';
+import { isOnlinePaymentMethod } from '../_shared/payments/methods.ts';
+import { ServerPaymentProvider } from '../_shared/payments/types.ts';
+import { payOutRefund } from '../_shared/payments/refunds.ts';
+
+interface RefundRequest {
+  refundId: string;
+}
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+const jsonResponse = (body: Record<string, unknown>, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  });
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL');
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+      return jsonResponse({ success: false, error: 'Server configuration error' }, 500);
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    // Only admins can issue refunds
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return jsonResponse({ success: false, error: 'Authentication required' }, 401);
+    }
+
+    const token = authHeader.replace('Bearer ', '');
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+
+    if (authError || !user) {
+      return jsonResponse({ success: false, error: 'Invalid authentication token' }, 401);
+    }
+
+    const { data: profile } = await supabase
+      .from('profiles')
+      .select('role')
+      .eq('id', user.id)
+      .single();
+
+    if (profile?.role !== 'admin') {
+      return jsonResponse({ success: false, error: 'Admin access required' }, 403);
+    }
+
+    const { refundId }: RefundRequest = await req.json();
+
+    // The refund must have been opened by create_refund, which priced it
+    const { data: refund, error: refundError } = await supabase
+      .from('refunds')
+      .select('id, status, amount, currency, reason, orders ( id, total, currency, payment_method, payment_provider_id )')
+      .eq('id', refundId)
+      .single();
+
+    if (refundError || !refund) {
+      return jsonResponse({ success: false, error: 'Refund not found' }, 404);
+    }
+
+    if (refund.status !== 'pending') {
+      return jsonResponse({ success: false, error: 'Refund has already been completed' }, 409);
+    }
+
+    const order = refund.orders as {
+      id: string;
+      total: number;
+      currency: string;
+      payment_method: string;
+      payment_provider_id: string | null;
+    };
+
+    if (!isOnlinePaymentMethod(order.payment_method) || !order.payment_provider_id) {
+      return jsonResponse({ success: false, error: 'Order was not paid through a payment gateway' }, 400);
+    }
+
+    let provider: ServerPaymentProvider;
+    try {
+      provider = getServerPaymentProvider(order.payment_method);
+    } catch (providerError) {
+      return jsonResponse({ success: false, error: `Payment gateway configuration error: ${providerError.message}` }, 500);
+    }
+
+    const payout = await payOutRefund(supabase, provider, refund, {
+      id: order.id,
+      total: order.total,
+      currency: order.currency,
+      payment_provider_id: order.payment_provider_id,
+    });
+
+    if (payout.status !== 'succeeded') {
+      return jsonResponse(
+        { success: false, refundStatus: payout.status, error: payout.error },
+        payout.status === 'pending' ? 502 : 200
+      );
+    }
+
+    return jsonResponse({
+      success: true,
+      refundStatus: 'succeeded',
+      providerRefundId: payout.providerRefundId ?? null,
+    });
+
+  } catch (error) {
+    return jsonResponse({
+      success: false,
+      error: 'Refund processing failed',
+      message: error.message
+    }, 500);
+  }
+});
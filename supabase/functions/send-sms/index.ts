@@ -0,0 +1,48 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { sendQueuedSms } from '../_shared/sms/sender.ts';
+
+// Sends the texts waiting in sms_messages through the SMS_PROVIDER gateway.
+// The storefront and admin screens call it after anything that queues a
+// text, and a scheduler should call it every few minutes to pick up retries
+// and delivery reminders. It only drains the queue, so any caller with a
+// valid project key may trigger it.
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+const jsonResponse = (body: Record<string, unknown>, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  });
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL');
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+      return jsonResponse({ success: false, error: 'Server configuration error' }, 500);
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+    const { sent, failed } = await sendQueuedSms(supabase);
+
+    return jsonResponse({ success: true, sent, failed });
+
+  } catch (error) {
+    return jsonResponse({
+      success: false,
+      error: 'Sending SMS failed',
+      message: error.message
+    }, 500);
+  }
+});
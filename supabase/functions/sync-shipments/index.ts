@@ -0,0 +1,130 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { getCourierAdapter, syncableCourierCodes } from '../_shared/couriers/registry.ts';
+import { sendQueuedEmails } from '../_shared/email/sender.ts';
+import { sendQueuedSms } from '../_shared/sms/sender.ts';
+
+// Pulls tracking events from the couriers that have an adapter into
+// shipment_events, which moves shipments and their orders along. A scheduler
+// should call it every half hour; the order screen calls it with a
+// shipmentId to refresh one parcel. It only reads from couriers, so any
+// caller with a valid project key may trigger it.
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+const jsonResponse = (body: Record<string, unknown>, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  });
+
+const OPEN_STATUSES = ['dispatched', 'in_transit', 'out_for_delivery', 'failed_attempt'];
+
+interface OpenShipment {
+  id: string;
+  courier_code: string;
+  tracking_number: string;
+  dispatched_at: string;
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL');
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+      return jsonResponse({ success: false, error: 'Server configuration error' }, 500);
+    }
+
+    const { shipmentId } = await req.json().catch(() => ({}));
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    let query = supabase
+      .from('shipments')
+      .select('id, courier_code, tracking_number, dispatched_at')
+      .in('status', OPEN_STATUSES)
+      .in('courier_code', syncableCourierCodes())
+      .not('tracking_number', 'is', null)
+      .order('last_synced_at', { ascending: true, nullsFirst: true })
+      .limit(50);
+
+    if (shipmentId) {
+      query = query.eq('id', shipmentId);
+    }
+
+    const { data: shipments, error } = await query;
+    if (error) throw error;
+
+    let synced = 0;
+    let events = 0;
+    let failed = 0;
+
+    for (const shipment of (shipments || []) as OpenShipment[]) {
+      const adapter = getCourierAdapter(shipment.courier_code);
+      if (!adapter) continue;
+
+      try {
+        const trackingEvents = await adapter.fetchTrackingEvents({
+          trackingNumber: shipment.tracking_number,
+          dispatchedAt: shipment.dispatched_at,
+        });
+
+        // Oldest first, so the newest event leaves the final status
+        trackingEvents.sort((a, b) => a.occurredAt.localeCompare(b.occurredAt));
+
+        for (const event of trackingEvents) {
+          const { data: recorded, error: recordError } = await supabase.rpc('record_shipment_event', {
+            p_shipment_id: shipment.id,
+            p_status: event.status,
+            p_description: event.description,
+            p_location: event.location,
+            p_occurred_at: event.occurredAt,
+            p_source: 'courier',
+            p_external_id: event.externalId,
+          });
+
+          if (recordError) throw recordError;
+          if (recorded?.id) events++;
+        }
+
+        await supabase
+          .from('shipments')
+          .update({ last_synced_at: new Date().toISOString() })
+          .eq('id', shipment.id);
+
+        synced++;
+      } catch (syncError) {
+        console.error(`Tracking sync for shipment ${shipment.id} failed:`, syncError.message);
+        failed++;
+      }
+    }
+
+    // Deliveries queue the customer's email; send it now rather than waiting
+    // for the next scheduled run
+    if (events > 0) {
+      try {
+        await sendQueuedEmails(supabase, 5);
+        await sendQueuedSms(supabase, 5);
+      } catch (sendError) {
+        console.error('Sending queued notifications failed:', sendError.message);
+      }
+    }
+
+    return jsonResponse({ success: true, synced, events, failed });
+
+  } catch (error) {
+    return jsonResponse({
+      success: false,
+      error: 'Tracking sync failed',
+      message: error.message
+    }, 500);
+  }
+});
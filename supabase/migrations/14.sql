@@ -0,0 +1,304 @@
+/*
+  # Server-side Order Pricing
+
+  Moves every price calculation for an order into the database:
+  1. Shipping cost rule (calculate_shipping_cost)
+  2. Authoritative price breakdown (calculate_order_pricing)
+  3. create_order_with_stock_management recomputes line prices, shipping
+     and totals from the catalogue instead of trusting the browser
+
+  The breakdown returned by calculate_order_pricing is what the checkout
+  summary displays and what the PayHere amount is built from.
+*/
+
+-- =====================================================
+-- ORDER PRICING COLUMNS
+-- =====================================================
+
+ALTER TABLE orders
+ADD COLUMN IF NOT EXISTS subtotal decimal(10,2) CHECK (subtotal >= 0);
+
+ALTER TABLE orders
+ADD COLUMN IF NOT EXISTS discount_amount decimal(10,2) DEFAULT 0 CHECK (discount_amount >= 0);
+
+-- =====================================================
+-- SHIPPING RULE
+-- =====================================================
+
+-- Shipping cost for a method and subtotal (keep in sync with FREE_SHIPPING_THRESHOLD)
+CREATE OR REPLACE FUNCTION calculate_shipping_cost(
+  p_shipping_method text,
+  p_subtotal decimal
+)
+RETURNS decimal
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+BEGIN
+  -- Free shipping for orders over the threshold
+  IF p_subtotal >= 20000 THEN
+    RETURN 0;
+  END IF;
+
+  CASE p_shipping_method
+    WHEN 'standard' THEN
+      RETURN 399;
+    WHEN 'express' THEN
+      RETURN 699;
+    ELSE
+      RAISE EXCEPTION 'Unknown shipping method: %', p_shipping_method;
+  END CASE;
+END;
+$$;
+
+-- =====================================================
+-- PRICE BREAKDOWN
+-- =====================================================
+
+-- Build the authoritative price breakdown for a set of items
+CREATE OR REPLACE FUNCTION calculate_order_pricing(
+  p_order_items jsonb[], -- Array of {variant_id, quantity}
+  p_shipping_method text
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_item jsonb;
+  v_variant_id uuid;
+  v_quantity integer;
+  v_line record;
+  v_lines jsonb := '[]'::jsonb;
+  v_subtotal decimal(10,2) := 0;
+  v_shipping decimal(10,2);
+  v_discount_total decimal(10,2) := 0;
+BEGIN
+  IF p_order_items IS NULL OR array_length(p_order_items, 1) IS NULL THEN
+    RAISE EXCEPTION 'Order must contain at least one item';
+  END IF;
+
+  FOREACH v_item IN ARRAY p_order_items
+  LOOP
+    v_variant_id := (v_item->>'variant_id')::uuid;
+    v_quantity := (v_item->>'quantity')::integer;
+
+    IF v_quantity IS NULL OR v_quantity <= 0 THEN
+      RAISE EXCEPTION 'Invalid quantity for variant %', v_variant_id;
+    END IF;
+
+    -- Variant price override wins over the product price
+    SELECT
+      p.id AS product_id,
+      p.title AS product_title,
+      pv.sku,
+      pv.size,
+      pv.color,
+      COALESCE(pv.price_override, p.price) AS unit_price
+    INTO v_line
+    FROM product_variants pv
+    JOIN products p ON p.id = pv.product_id
+    WHERE pv.id = v_variant_id
+      AND pv.is_active = true
+      AND p.is_active = true
+      AND p.deleted_at IS NULL;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Product variant not found or unavailable: %', v_variant_id;
+    END IF;
+
+    v_lines := v_lines || jsonb_build_array(jsonb_build_object(
+      'variant_id', v_variant_id,
+      'product_id', v_line.product_id,
+      'product_title', v_line.product_title,
+      'sku', v_line.sku,
+      'size', v_line.size,
+      'color', v_line.color,
+      'quantity', v_quantity,
+      'unit_price', v_line.unit_price,
+      'line_total', v_line.unit_price * v_quantity
+    ));
+
+    v_subtotal := v_subtotal + (v_line.unit_price * v_quantity);
+  END LOOP;
+
+  v_shipping := calculate_shipping_cost(p_shipping_method, v_subtotal);
+
+  RETURN jsonb_build_object(
+    'lines', v_lines,
+    'subtotal', v_subtotal,
+    'shipping', v_shipping,
+    'discounts', '[]'::jsonb,
+    'discount_total', v_discount_total,
+    'total', v_subtotal - v_discount_total + v_shipping,
+    'currency', 'LKR'
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION calculate_order_pricing(jsonb[], text) TO anon, authenticated;
+
+-- =====================================================
+-- ORDER CREATION
+-- =====================================================
+
+-- Return type changes, so the previous version has to be dropped first
+DROP FUNCTION IF EXISTS create_order_with_stock_management(uuid, decimal, text, text, text, decimal, jsonb, jsonb, jsonb[]);
+
+-- Function to create order with automatic stock management.
+-- p_total and p_shipping_cost are what the shopper was shown; they are only
+-- compared against the server price and never written to the order.
+CREATE OR REPLACE FUNCTION create_order_with_stock_management(
+  p_user_id uuid,
+  p_total decimal,
+  p_currency text,
+  p_payment_method text,
+  p_shipping_method text,
+  p_shipping_cost decimal,
+  p_shipping_address jsonb,
+  p_billing_address jsonb,
+  p_order_items jsonb[] -- Array of {variant_id, quantity}
+)
+RETURNS TABLE(order_id uuid, success boolean, error_message text, pricing jsonb)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_order_id uuid;
+  v_pricing jsonb;
+  v_total decimal(10,2);
+  v_line jsonb;
+  v_variant_id uuid;
+  v_quantity integer;
+  v_current_stock integer;
+BEGIN
+  IF p_payment_method NOT IN ('payhere', 'bank', 'cod') THEN
+    RETURN QUERY SELECT NULL::uuid, false, ('Unsupported payment method: ' || p_payment_method)::text, NULL::jsonb;
+    RETURN;
+  END IF;
+
+  -- Recalculate every price from the catalogue
+  BEGIN
+    v_pricing := calculate_order_pricing(p_order_items, p_shipping_method);
+  EXCEPTION
+    WHEN OTHERS THEN
+      RETURN QUERY SELECT NULL::uuid, false, SQLERRM::text, NULL::jsonb;
+      RETURN;
+  END;
+
+  v_total := (v_pricing->>'total')::decimal;
+
+  -- Reject the order if the shopper was shown a different price
+  IF p_total IS DISTINCT FROM v_total
+     OR p_shipping_cost IS DISTINCT FROM (v_pricing->>'shipping')::decimal THEN
+    RETURN QUERY SELECT NULL::uuid, false,
+      ('Prices have changed. Order total is now ' || (v_pricing->>'currency') || ' ' || v_total)::text,
+      v_pricing;
+    RETURN;
+  END IF;
+
+  BEGIN
+    -- Validate stock for all items first
+    FOR v_line IN SELECT value FROM jsonb_array_elements(v_pricing->'lines')
+    LOOP
+      v_variant_id := (v_line->>'variant_id')::uuid;
+      v_quantity := (v_line->>'quantity')::integer;
+
+      SELECT stock INTO v_current_stock
+      FROM product_variants
+      WHERE id = v_variant_id
+      FOR UPDATE; -- Lock the row
+
+      IF v_current_stock < v_quantity THEN
+        RETURN QUERY SELECT NULL::uuid, false,
+          ('Insufficient stock for ' || (v_line->>'product_title') ||
+          '. Available: ' || v_current_stock || ', Requested: ' || v_quantity)::text,
+          v_pricing;
+        RETURN;
+      END IF;
+    END LOOP;
+
+    -- Create the order (order_number will be generated by trigger)
+    INSERT INTO orders (
+      user_id,
+      subtotal,
+      discount_amount,
+      total,
+      currency,
+      status,
+      payment_status,
+      payment_method,
+      shipping_method,
+      shipping_cost,
+      shipping_address,
+      billing_address
+    )
+    VALUES (
+      p_user_id,
+      (v_pricing->>'subtotal')::decimal,
+      (v_pricing->>'discount_total')::decimal,
+      v_total,
+      COALESCE(v_pricing->>'currency', p_currency),
+      'pending',
+      'pending',
+      p_payment_method,
+      p_shipping_method,
+      (v_pricing->>'shipping')::decimal,
+      p_shipping_address,
+      p_billing_address
+    )
+    RETURNING id INTO v_order_id;
+
+    -- Create order items from the server-side breakdown and update stock
+    FOR v_line IN SELECT value FROM jsonb_array_elements(v_pricing->'lines')
+    LOOP
+      v_variant_id := (v_line->>'variant_id')::uuid;
+      v_quantity := (v_line->>'quantity')::integer;
+
+      INSERT INTO order_items (
+        order_id,
+        product_variant_id,
+        product_title,
+        variant_info,
+        quantity,
+        unit_price,
+        total_price
+      )
+      VALUES (
+        v_order_id,
+        v_variant_id,
+        v_line->>'product_title',
+        jsonb_build_object(
+          'size', v_line->>'size',
+          'color', v_line->>'color',
+          'sku', v_line->>'sku'
+        ),
+        v_quantity,
+        (v_line->>'unit_price')::decimal,
+        (v_line->>'line_total')::decimal
+      );
+
+      -- Update stock based on payment method
+      IF p_payment_method IN ('cod', 'bank') THEN
+        -- Decrement stock immediately for COD and bank transfer
+        UPDATE product_variants
+        SET stock = stock - v_quantity,
+            updated_at = now()
+        WHERE id = v_variant_id;
+      END IF;
+      -- For PayHere, stock will be decremented in the webhook
+    END LOOP;
+
+    RETURN QUERY SELECT v_order_id, true, 'Order created successfully'::text, v_pricing;
+
+  EXCEPTION
+    WHEN OTHERS THEN
+      -- Rollback happens automatically
+      RETURN QUERY SELECT NULL::uuid, false, ('Order creation failed: ' || SQLERRM)::text, v_pricing;
+  END;
+END;
+$$;
+
+-- Grant permission to authenticated users
+GRANT EXECUTE ON FUNCTION create_order_with_stock_management TO authenticated;
@@ -0,0 +1,249 @@
+/*
+  # Admin Access Policies
+
+  Replaces the browser service-role client with RLS-guarded admin access.
+  Admin pages now use the regular authenticated client and every write is
+  checked in the database against profiles.role for the caller's JWT:
+  1. is_admin() / require_admin() helpers
+  2. Role escalation guard on profiles
+  3. Admin policies for catalog, orders, users, support and announcements
+  4. Admin storage policies for the kixora bucket
+*/
+
+-- =====================================================
+-- ADMIN HELPERS
+-- =====================================================
+
+-- True when the current JWT belongs to an admin profile.
+-- SECURITY DEFINER so policies on profiles don't recurse.
+CREATE OR REPLACE FUNCTION is_admin()
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM profiles
+    WHERE id = auth.uid()
+    AND role = 'admin'
+  );
+$$;
+
+-- Raise an error unless the caller is an admin (for privileged RPCs)
+CREATE OR REPLACE FUNCTION require_admin()
+RETURNS void
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Access denied: Admin privileges required'
+      USING ERRCODE = '42501';
+  END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION is_admin() TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION require_admin() TO authenticated;
+
+-- =====================================================
+-- ROLE ESCALATION GUARD
+-- =====================================================
+
+-- profiles_own_access lets users update their own row, so the role column
+-- must be protected separately. Requests without a JWT (SQL editor,
+-- service role) are not affected.
+CREATE OR REPLACE FUNCTION protect_profile_role()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.role IS DISTINCT FROM OLD.role
+     AND auth.uid() IS NOT NULL
+     AND NOT is_admin() THEN
+    RAISE EXCEPTION 'Access denied: only admins can change user roles'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF NEW.role IS DISTINCT FROM OLD.role AND NEW.id = auth.uid() THEN
+    RAISE EXCEPTION 'Admins cannot change their own role'
+      USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS protect_profile_role_trigger ON profiles;
+CREATE TRIGGER protect_profile_role_trigger
+  BEFORE UPDATE ON profiles
+  FOR EACH ROW EXECUTE FUNCTION protect_profile_role();
+
+-- =====================================================
+-- CATALOG ADMIN POLICIES
+-- =====================================================
+
+CREATE POLICY "categories_admin_all" ON categories
+  FOR ALL TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+CREATE POLICY "brands_admin_all" ON brands
+  FOR ALL TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+CREATE POLICY "products_admin_all" ON products
+  FOR ALL TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+CREATE POLICY "variants_admin_all" ON product_variants
+  FOR ALL TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+CREATE POLICY "images_admin_all" ON product_images
+  FOR ALL TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+CREATE POLICY "collections_admin_all" ON collections
+  FOR ALL TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+CREATE POLICY "collection_products_admin_all" ON collection_products
+  FOR ALL TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+CREATE POLICY "announcements_admin_all" ON announcements
+  FOR ALL TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+GRANT ALL ON announcements TO authenticated;
+GRANT SELECT ON announcements TO anon;
+
+-- =====================================================
+-- ORDER AND USER ADMIN POLICIES
+-- =====================================================
+
+CREATE POLICY "orders_admin_all" ON orders
+  FOR ALL TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+CREATE POLICY "order_items_admin_all" ON order_items
+  FOR ALL TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+CREATE POLICY "profiles_admin_read" ON profiles
+  FOR SELECT TO authenticated
+  USING (is_admin());
+
+CREATE POLICY "profiles_admin_update" ON profiles
+  FOR UPDATE TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+CREATE POLICY "audit_logs_admin_read" ON audit_logs
+  FOR SELECT TO authenticated
+  USING (is_admin());
+
+-- =====================================================
+-- SUPPORT ADMIN POLICIES
+-- =====================================================
+
+-- database/disable_rls_final.sql turned RLS off for these tables, which
+-- left every message readable with the anon key. Turn it back on.
+ALTER TABLE contact_messages ENABLE ROW LEVEL SECURITY;
+ALTER TABLE support_requests ENABLE ROW LEVEL SECURITY;
+ALTER TABLE support_attachments ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "allow_insert_contact_messages" ON contact_messages;
+DROP POLICY IF EXISTS "allow_select_contact_messages" ON contact_messages;
+DROP POLICY IF EXISTS "allow_update_contact_messages" ON contact_messages;
+DROP POLICY IF EXISTS "allow_insert_support_requests" ON support_requests;
+DROP POLICY IF EXISTS "allow_select_support_requests" ON support_requests;
+DROP POLICY IF EXISTS "allow_update_support_requests" ON support_requests;
+DROP POLICY IF EXISTS "allow_insert_support_attachments" ON support_attachments;
+DROP POLICY IF EXISTS "allow_select_support_attachments" ON support_attachments;
+
+-- Contact messages: anyone can send, admins manage
+CREATE POLICY "contact_messages_public_insert" ON contact_messages
+  FOR INSERT TO anon, authenticated
+  WITH CHECK (true);
+
+CREATE POLICY "contact_messages_admin_all" ON contact_messages
+  FOR ALL TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+-- Support requests: users create and read their own, admins manage
+CREATE POLICY "support_requests_own_insert" ON support_requests
+  FOR INSERT TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "support_requests_own_read" ON support_requests
+  FOR SELECT TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "support_requests_admin_all" ON support_requests
+  FOR ALL TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+-- Support attachments: owners attach files to their requests, admins manage
+CREATE POLICY "support_attachments_own_insert" ON support_attachments
+  FOR INSERT TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM support_requests
+      WHERE id = support_request_id AND user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "support_attachments_own_read" ON support_attachments
+  FOR SELECT TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM support_requests
+      WHERE id = support_request_id AND user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "support_attachments_admin_all" ON support_attachments
+  FOR ALL TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+GRANT INSERT ON contact_messages TO anon;
+GRANT ALL ON contact_messages TO authenticated;
+GRANT ALL ON support_requests TO authenticated;
+GRANT ALL ON support_attachments TO authenticated;
+
+-- =====================================================
+-- STORAGE ADMIN POLICIES
+-- =====================================================
+
+DO $$
+BEGIN
+  DROP POLICY IF EXISTS "kixora_admin_all" ON storage.objects;
+EXCEPTION
+  WHEN undefined_object THEN NULL;
+END $$;
+
+-- Admins upload, replace, delete and download any object in the kixora
+-- bucket (product, category and collection images, support attachments)
+CREATE POLICY "kixora_admin_all" ON storage.objects
+  FOR ALL TO authenticated
+  USING (bucket_id = 'kixora' AND is_admin())
+  WITH CHECK (bucket_id = 'kixora' AND is_admin());
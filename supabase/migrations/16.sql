@@ -0,0 +1,202 @@
+/*
+  # Product Reviews and Ratings
+
+  Builds the review system on top of the reviews table from 1.sql:
+  1. Moderation status, admin reply and public reviewer name on reviews
+  2. Verified purchase flag derived from delivered orders
+  3. Denormalised rating_average / review_count on products for listing,
+     sorting and structured data
+  4. Owner and admin policies for the moderation queue
+*/
+
+-- =====================================================
+-- REVIEW COLUMNS
+-- =====================================================
+
+ALTER TABLE reviews
+ADD COLUMN IF NOT EXISTS status text NOT NULL DEFAULT 'pending'
+  CHECK (status IN ('pending', 'approved', 'rejected'));
+
+ALTER TABLE reviews
+ADD COLUMN IF NOT EXISTS reviewer_name text;
+
+ALTER TABLE reviews
+ADD COLUMN IF NOT EXISTS admin_reply text;
+
+ALTER TABLE reviews
+ADD COLUMN IF NOT EXISTS admin_reply_at timestamptz;
+
+-- New reviews wait for moderation
+ALTER TABLE reviews ALTER COLUMN is_approved SET DEFAULT false;
+
+-- Existing approved reviews stay published
+UPDATE reviews
+SET status = CASE WHEN is_approved THEN 'approved' ELSE 'pending' END;
+
+CREATE INDEX IF NOT EXISTS idx_reviews_product_status ON reviews(product_id, status);
+CREATE INDEX IF NOT EXISTS idx_reviews_status_created ON reviews(status, created_at DESC);
+
+-- =====================================================
+-- PRODUCT RATING COLUMNS
+-- =====================================================
+
+ALTER TABLE products
+ADD COLUMN IF NOT EXISTS rating_average decimal(3,2) NOT NULL DEFAULT 0
+  CHECK (rating_average >= 0 AND rating_average <= 5);
+
+ALTER TABLE products
+ADD COLUMN IF NOT EXISTS review_count integer NOT NULL DEFAULT 0
+  CHECK (review_count >= 0);
+
+CREATE INDEX IF NOT EXISTS idx_products_rating ON products(rating_average DESC, review_count DESC);
+
+-- =====================================================
+-- REVIEW TRIGGERS
+-- =====================================================
+
+-- Fill derived columns and keep moderation fields admin-only
+CREATE OR REPLACE FUNCTION prepare_review()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_full_name text;
+BEGIN
+  -- Verified purchase: the reviewer has a delivered order containing this product
+  NEW.is_verified_purchase := EXISTS (
+    SELECT 1
+    FROM order_items oi
+    JOIN orders o ON o.id = oi.order_id
+    JOIN product_variants pv ON pv.id = oi.product_variant_id
+    WHERE o.user_id = NEW.user_id
+      AND pv.product_id = NEW.product_id
+      AND o.status = 'delivered'
+  );
+
+  IF TG_OP = 'INSERT' THEN
+    -- Public display name: first name and last initial
+    SELECT trim(full_name) INTO v_full_name FROM profiles WHERE id = NEW.user_id;
+
+    NEW.reviewer_name := CASE
+      WHEN v_full_name IS NULL OR v_full_name = '' THEN 'Customer'
+      WHEN position(' ' IN v_full_name) = 0 THEN v_full_name
+      ELSE split_part(v_full_name, ' ', 1) || ' ' ||
+           upper(left(regexp_replace(v_full_name, '^.*\s', ''), 1)) || '.'
+    END;
+  END IF;
+
+  IF auth.uid() IS NOT NULL AND NOT is_admin() THEN
+    -- Customers cannot moderate or reply to reviews
+    IF TG_OP = 'INSERT' THEN
+      NEW.status := 'pending';
+      NEW.admin_reply := NULL;
+      NEW.admin_reply_at := NULL;
+    ELSE
+      NEW.reviewer_name := OLD.reviewer_name;
+      NEW.admin_reply := OLD.admin_reply;
+      NEW.admin_reply_at := OLD.admin_reply_at;
+
+      -- Edited reviews go back into the moderation queue
+      IF NEW.rating IS DISTINCT FROM OLD.rating
+         OR NEW.title IS DISTINCT FROM OLD.title
+         OR NEW.content IS DISTINCT FROM OLD.content THEN
+        NEW.status := 'pending';
+      ELSE
+        NEW.status := OLD.status;
+      END IF;
+    END IF;
+  ELSIF TG_OP = 'UPDATE' AND NEW.admin_reply IS DISTINCT FROM OLD.admin_reply THEN
+    NEW.admin_reply_at := CASE WHEN NEW.admin_reply IS NULL THEN NULL ELSE now() END;
+  END IF;
+
+  -- is_approved is kept for the public read policy from 2.sql
+  NEW.is_approved := NEW.status = 'approved';
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS prepare_review_trigger ON reviews;
+CREATE TRIGGER prepare_review_trigger
+  BEFORE INSERT OR UPDATE ON reviews
+  FOR EACH ROW EXECUTE FUNCTION prepare_review();
+
+-- Recalculate the rating summary stored on a product
+CREATE OR REPLACE FUNCTION refresh_product_rating(p_product_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE products
+  SET
+    rating_average = COALESCE((
+      SELECT round(avg(rating)::numeric, 2)
+      FROM reviews
+      WHERE product_id = p_product_id AND status = 'approved'
+    ), 0),
+    review_count = (
+      SELECT count(*)
+      FROM reviews
+      WHERE product_id = p_product_id AND status = 'approved'
+    )
+  WHERE id = p_product_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION handle_review_rating_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    PERFORM refresh_product_rating(OLD.product_id);
+    RETURN OLD;
+  END IF;
+
+  PERFORM refresh_product_rating(NEW.product_id);
+
+  IF TG_OP = 'UPDATE' AND NEW.product_id IS DISTINCT FROM OLD.product_id THEN
+    PERFORM refresh_product_rating(OLD.product_id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS review_rating_change_trigger ON reviews;
+CREATE TRIGGER review_rating_change_trigger
+  AFTER INSERT OR UPDATE OR DELETE ON reviews
+  FOR EACH ROW EXECUTE FUNCTION handle_review_rating_change();
+
+-- Backfill summaries for reviews that already exist
+DO $$
+DECLARE
+  v_product_id uuid;
+BEGIN
+  FOR v_product_id IN SELECT DISTINCT product_id FROM reviews WHERE product_id IS NOT NULL
+  LOOP
+    PERFORM refresh_product_rating(v_product_id);
+  END LOOP;
+END $$;
+
+-- =====================================================
+-- REVIEW POLICIES
+-- =====================================================
+
+-- Customers can see their own reviews while they are pending or rejected
+CREATE POLICY "reviews_own_read" ON reviews
+  FOR SELECT TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "reviews_admin_all" ON reviews
+  FOR ALL TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+GRANT SELECT ON reviews TO anon;
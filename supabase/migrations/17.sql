@@ -0,0 +1,498 @@
+/*
+  # Discount Codes
+
+  Coupon and promotion engine applied inside server-side pricing:
+  1. discount_codes: percentage, fixed and free-shipping codes with minimum
+     spend, usage limits, validity windows and optional product, category
+     or collection scoping
+  2. discount_redemptions: one row per order that used a code
+  3. calculate_order_pricing / create_order_with_stock_management accept an
+     optional discount code and store it on the order
+*/
+
+-- =====================================================
+-- DISCOUNT TABLES
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS discount_codes (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  code text UNIQUE NOT NULL CHECK (code = upper(code) AND length(code) BETWEEN 3 AND 32),
+  description text,
+  discount_type text NOT NULL CHECK (discount_type IN ('percentage', 'fixed', 'free_shipping')),
+  value decimal(10,2) NOT NULL DEFAULT 0 CHECK (value >= 0),
+  max_discount decimal(10,2) CHECK (max_discount > 0), -- Cap for percentage codes
+  min_subtotal decimal(10,2) NOT NULL DEFAULT 0 CHECK (min_subtotal >= 0),
+  usage_limit integer CHECK (usage_limit > 0), -- NULL = unlimited
+  per_user_limit integer CHECK (per_user_limit > 0), -- NULL = unlimited
+  starts_at timestamptz NOT NULL DEFAULT now(),
+  ends_at timestamptz,
+  -- Empty scopes mean the code applies to the whole order
+  product_ids uuid[] NOT NULL DEFAULT '{}',
+  category_ids uuid[] NOT NULL DEFAULT '{}',
+  collection_ids uuid[] NOT NULL DEFAULT '{}',
+  is_active boolean DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CHECK (discount_type <> 'percentage' OR value <= 100),
+  CHECK (ends_at IS NULL OR ends_at > starts_at)
+);
+
+CREATE TABLE IF NOT EXISTS discount_redemptions (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  discount_code_id uuid NOT NULL REFERENCES discount_codes(id) ON DELETE CASCADE,
+  order_id uuid NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  user_id uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  amount decimal(10,2) NOT NULL CHECK (amount >= 0),
+  created_at timestamptz DEFAULT now(),
+  UNIQUE(discount_code_id, order_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_discount_redemptions_code_user ON discount_redemptions(discount_code_id, user_id);
+
+ALTER TABLE orders
+ADD COLUMN IF NOT EXISTS discount_code text;
+
+CREATE TRIGGER update_discount_codes_updated_at
+  BEFORE UPDATE ON discount_codes
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER audit_discount_codes_changes
+  AFTER INSERT OR UPDATE OR DELETE ON discount_codes
+  FOR EACH ROW EXECUTE FUNCTION log_audit_changes();
+
+-- =====================================================
+-- DISCOUNT POLICIES
+-- =====================================================
+
+-- Codes are only readable by admins; shoppers validate them through pricing
+ALTER TABLE discount_codes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE discount_redemptions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "discount_codes_admin_all" ON discount_codes
+  FOR ALL TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+CREATE POLICY "discount_redemptions_own_read" ON discount_redemptions
+  FOR SELECT TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "discount_redemptions_admin_all" ON discount_redemptions
+  FOR ALL TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+GRANT ALL ON discount_codes TO authenticated;
+GRANT ALL ON discount_redemptions TO authenticated;
+
+-- =====================================================
+-- DISCOUNT EVALUATION
+-- =====================================================
+
+-- Validate a code against priced lines and return the discount it gives.
+-- Raises an exception with a shopper-facing message when the code can't be used.
+CREATE OR REPLACE FUNCTION evaluate_discount_code(
+  p_code text,
+  p_user_id uuid,
+  p_lines jsonb, -- calculate_order_pricing lines
+  p_subtotal decimal,
+  p_shipping decimal
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_discount discount_codes%ROWTYPE;
+  v_used integer;
+  v_eligible_subtotal decimal(10,2);
+  v_amount decimal(10,2);
+  v_description text;
+BEGIN
+  SELECT * INTO v_discount
+  FROM discount_codes
+  WHERE code = upper(trim(p_code));
+
+  IF NOT FOUND OR NOT v_discount.is_active THEN
+    RAISE EXCEPTION 'Discount code % is not valid', upper(trim(p_code));
+  END IF;
+
+  IF now() < v_discount.starts_at THEN
+    RAISE EXCEPTION 'Discount code % is not active yet', v_discount.code;
+  END IF;
+
+  IF v_discount.ends_at IS NOT NULL AND now() >= v_discount.ends_at THEN
+    RAISE EXCEPTION 'Discount code % has expired', v_discount.code;
+  END IF;
+
+  IF p_subtotal < v_discount.min_subtotal THEN
+    RAISE EXCEPTION 'Discount code % requires a minimum spend of LKR %', v_discount.code, v_discount.min_subtotal;
+  END IF;
+
+  IF v_discount.usage_limit IS NOT NULL THEN
+    SELECT count(*) INTO v_used
+    FROM discount_redemptions
+    WHERE discount_code_id = v_discount.id;
+
+    IF v_used >= v_discount.usage_limit THEN
+      RAISE EXCEPTION 'Discount code % has reached its usage limit', v_discount.code;
+    END IF;
+  END IF;
+
+  IF v_discount.per_user_limit IS NOT NULL THEN
+    IF p_user_id IS NULL THEN
+      RAISE EXCEPTION 'Please sign in to use discount code %', v_discount.code;
+    END IF;
+
+    SELECT count(*) INTO v_used
+    FROM discount_redemptions
+    WHERE discount_code_id = v_discount.id
+      AND user_id = p_user_id;
+
+    IF v_used >= v_discount.per_user_limit THEN
+      RAISE EXCEPTION 'You have already used discount code %', v_discount.code;
+    END IF;
+  END IF;
+
+  -- Subtotal of the lines the code is scoped to
+  SELECT COALESCE(sum((line->>'line_total')::decimal), 0) INTO v_eligible_subtotal
+  FROM jsonb_array_elements(p_lines) AS line
+  JOIN products p ON p.id = (line->>'product_id')::uuid
+  WHERE (
+      cardinality(v_discount.product_ids) = 0
+      AND cardinality(v_discount.category_ids) = 0
+      AND cardinality(v_discount.collection_ids) = 0
+    )
+    OR p.id = ANY(v_discount.product_ids)
+    OR p.category_id = ANY(v_discount.category_ids)
+    OR EXISTS (
+      SELECT 1 FROM collection_products cp
+      WHERE cp.product_id = p.id
+        AND cp.collection_id = ANY(v_discount.collection_ids)
+    );
+
+  IF v_eligible_subtotal = 0 THEN
+    RAISE EXCEPTION 'Discount code % does not apply to the items in your cart', v_discount.code;
+  END IF;
+
+  CASE v_discount.discount_type
+    WHEN 'percentage' THEN
+      v_amount := round(v_eligible_subtotal * v_discount.value / 100, 2);
+      IF v_discount.max_discount IS NOT NULL THEN
+        v_amount := LEAST(v_amount, v_discount.max_discount);
+      END IF;
+      v_description := v_discount.value || '% off';
+    WHEN 'fixed' THEN
+      v_amount := LEAST(v_discount.value, v_eligible_subtotal);
+      v_description := 'LKR ' || v_discount.value || ' off';
+    WHEN 'free_shipping' THEN
+      -- Waives whatever shipping the order would otherwise pay
+      v_amount := p_shipping;
+      v_description := 'Free shipping';
+  END CASE;
+
+  RETURN jsonb_build_object(
+    'id', v_discount.id,
+    'code', v_discount.code,
+    'description', COALESCE(v_discount.description, v_description) || ' (' || v_discount.code || ')',
+    'amount', v_amount,
+    'free_shipping', v_discount.discount_type = 'free_shipping'
+  );
+END;
+$$;
+
+-- =====================================================
+-- PRICE BREAKDOWN
+-- =====================================================
+
+-- Adding a parameter changes the signature, so drop the 14.sql version
+DROP FUNCTION IF EXISTS calculate_order_pricing(jsonb[], text);
+
+-- Build the authoritative price breakdown for a set of items
+CREATE OR REPLACE FUNCTION calculate_order_pricing(
+  p_order_items jsonb[], -- Array of {variant_id, quantity}
+  p_shipping_method text,
+  p_discount_code text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_item jsonb;
+  v_variant_id uuid;
+  v_quantity integer;
+  v_line record;
+  v_lines jsonb := '[]'::jsonb;
+  v_subtotal decimal(10,2) := 0;
+  v_shipping decimal(10,2);
+  v_discount jsonb;
+  v_discounts jsonb := '[]'::jsonb;
+  v_discount_total decimal(10,2) := 0;
+  v_discount_error text;
+BEGIN
+  IF p_order_items IS NULL OR array_length(p_order_items, 1) IS NULL THEN
+    RAISE EXCEPTION 'Order must contain at least one item';
+  END IF;
+
+  FOREACH v_item IN ARRAY p_order_items
+  LOOP
+    v_variant_id := (v_item->>'variant_id')::uuid;
+    v_quantity := (v_item->>'quantity')::integer;
+
+    IF v_quantity IS NULL OR v_quantity <= 0 THEN
+      RAISE EXCEPTION 'Invalid quantity for variant %', v_variant_id;
+    END IF;
+
+    -- Variant price override wins over the product price
+    SELECT
+      p.id AS product_id,
+      p.title AS product_title,
+      pv.sku,
+      pv.size,
+      pv.color,
+      COALESCE(pv.price_override, p.price) AS unit_price
+    INTO v_line
+    FROM product_variants pv
+    JOIN products p ON p.id = pv.product_id
+    WHERE pv.id = v_variant_id
+      AND pv.is_active = true
+      AND p.is_active = true
+      AND p.deleted_at IS NULL;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Product variant not found or unavailable: %', v_variant_id;
+    END IF;
+
+    v_lines := v_lines || jsonb_build_array(jsonb_build_object(
+      'variant_id', v_variant_id,
+      'product_id', v_line.product_id,
+      'product_title', v_line.product_title,
+      'sku', v_line.sku,
+      'size', v_line.size,
+      'color', v_line.color,
+      'quantity', v_quantity,
+      'unit_price', v_line.unit_price,
+      'line_total', v_line.unit_price * v_quantity
+    ));
+
+    v_subtotal := v_subtotal + (v_line.unit_price * v_quantity);
+  END LOOP;
+
+  v_shipping := calculate_shipping_cost(p_shipping_method, v_subtotal);
+
+  -- An unusable code doesn't fail pricing; the reason is returned instead
+  IF NULLIF(trim(p_discount_code), '') IS NOT NULL THEN
+    BEGIN
+      v_discount := evaluate_discount_code(p_discount_code, auth.uid(), v_lines, v_subtotal, v_shipping);
+      v_discounts := jsonb_build_array(v_discount);
+      v_discount_total := (v_discount->>'amount')::decimal;
+    EXCEPTION
+      WHEN OTHERS THEN
+        v_discount_error := SQLERRM;
+    END;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'lines', v_lines,
+    'subtotal', v_subtotal,
+    'shipping', v_shipping,
+    'discounts', v_discounts,
+    'discount_total', v_discount_total,
+    'discount_code', v_discount->>'code',
+    'discount_error', v_discount_error,
+    'total', v_subtotal - v_discount_total + v_shipping,
+    'currency', 'LKR'
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION calculate_order_pricing(jsonb[], text, text) TO anon, authenticated;
+
+-- =====================================================
+-- ORDER CREATION
+-- =====================================================
+
+DROP FUNCTION IF EXISTS create_order_with_stock_management(uuid, decimal, text, text, text, decimal, jsonb, jsonb, jsonb[]);
+
+-- Function to create order with automatic stock management.
+-- p_total and p_shipping_cost are what the shopper was shown; they are only
+-- compared against the server price and never written to the order.
+CREATE OR REPLACE FUNCTION create_order_with_stock_management(
+  p_user_id uuid,
+  p_total decimal,
+  p_currency text,
+  p_payment_method text,
+  p_shipping_method text,
+  p_shipping_cost decimal,
+  p_shipping_address jsonb,
+  p_billing_address jsonb,
+  p_order_items jsonb[], -- Array of {variant_id, quantity}
+  p_discount_code text DEFAULT NULL
+)
+RETURNS TABLE(order_id uuid, success boolean, error_message text, pricing jsonb)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_order_id uuid;
+  v_pricing jsonb;
+  v_total decimal(10,2);
+  v_discount jsonb;
+  v_line jsonb;
+  v_variant_id uuid;
+  v_quantity integer;
+  v_current_stock integer;
+BEGIN
+  IF p_payment_method NOT IN ('payhere', 'bank', 'cod') THEN
+    RETURN QUERY SELECT NULL::uuid, false, ('Unsupported payment method: ' || p_payment_method)::text, NULL::jsonb;
+    RETURN;
+  END IF;
+
+  -- Serialise redemptions of the same code so usage limits hold
+  IF NULLIF(trim(p_discount_code), '') IS NOT NULL THEN
+    PERFORM 1 FROM discount_codes
+    WHERE code = upper(trim(p_discount_code))
+    FOR UPDATE;
+  END IF;
+
+  -- Recalculate every price from the catalogue
+  BEGIN
+    v_pricing := calculate_order_pricing(p_order_items, p_shipping_method, p_discount_code);
+  EXCEPTION
+    WHEN OTHERS THEN
+      RETURN QUERY SELECT NULL::uuid, false, SQLERRM::text, NULL::jsonb;
+      RETURN;
+  END;
+
+  IF v_pricing->>'discount_error' IS NOT NULL THEN
+    RETURN QUERY SELECT NULL::uuid, false, (v_pricing->>'discount_error')::text, v_pricing;
+    RETURN;
+  END IF;
+
+  v_total := (v_pricing->>'total')::decimal;
+  v_discount := v_pricing->'discounts'->0;
+
+  -- Reject the order if the shopper was shown a different price
+  IF p_total IS DISTINCT FROM v_total
+     OR p_shipping_cost IS DISTINCT FROM (v_pricing->>'shipping')::decimal THEN
+    RETURN QUERY SELECT NULL::uuid, false,
+      ('Prices have changed. Order total is now ' || (v_pricing->>'currency') || ' ' || v_total)::text,
+      v_pricing;
+    RETURN;
+  END IF;
+
+  BEGIN
+    -- Validate stock for all items first
+    FOR v_line IN SELECT value FROM jsonb_array_elements(v_pricing->'lines')
+    LOOP
+      v_variant_id := (v_line->>'variant_id')::uuid;
+      v_quantity := (v_line->>'quantity')::integer;
+
+      SELECT stock INTO v_current_stock
+      FROM product_variants
+      WHERE id = v_variant_id
+      FOR UPDATE; -- Lock the row
+
+      IF v_current_stock < v_quantity THEN
+        RETURN QUERY SELECT NULL::uuid, false,
+          ('Insufficient stock for ' || (v_line->>'product_title') ||
+          '. Available: ' || v_current_stock || ', Requested: ' || v_quantity)::text,
+          v_pricing;
+        RETURN;
+      END IF;
+    END LOOP;
+
+    -- Create the order (order_number will be generated by trigger)
+    INSERT INTO orders (
+      user_id,
+      subtotal,
+      discount_amount,
+      discount_code,
+      total,
+      currency,
+      status,
+      payment_status,
+      payment_method,
+      shipping_method,
+      shipping_cost,
+      shipping_address,
+      billing_address
+    )
+    VALUES (
+      p_user_id,
+      (v_pricing->>'subtotal')::decimal,
+      (v_pricing->>'discount_total')::decimal,
+      v_pricing->>'discount_code',
+      v_total,
+      COALESCE(v_pricing->>'currency', p_currency),
+      'pending',
+      'pending',
+      p_payment_method,
+      p_shipping_method,
+      (v_pricing->>'shipping')::decimal,
+      p_shipping_address,
+      p_billing_address
+    )
+    RETURNING id INTO v_order_id;
+
+    -- Record the redemption against the code's usage limits
+    IF v_discount IS NOT NULL THEN
+      INSERT INTO discount_redemptions (discount_code_id, order_id, user_id, amount)
+      VALUES ((v_discount->>'id')::uuid, v_order_id, p_user_id, (v_discount->>'amount')::decimal);
+    END IF;
+
+    -- Create order items from the server-side breakdown and update stock
+    FOR v_line IN SELECT value FROM jsonb_array_elements(v_pricing->'lines')
+    LOOP
+      v_variant_id := (v_line->>'variant_id')::uuid;
+      v_quantity := (v_line->>'quantity')::integer;
+
+      INSERT INTO order_items (
+        order_id,
+        product_variant_id,
+        product_title,
+        variant_info,
+        quantity,
+        unit_price,
+        total_price
+      )
+      VALUES (
+        v_order_id,
+        v_variant_id,
+        v_line->>'product_title',
+        jsonb_build_object(
+          'size', v_line->>'size',
+          'color', v_line->>'color',
+          'sku', v_line->>'sku'
+        ),
+        v_quantity,
+        (v_line->>'unit_price')::decimal,
+        (v_line->>'line_total')::decimal
+      );
+
+      -- Update stock based on payment method
+      IF p_payment_method IN ('cod', 'bank') THEN
+        -- Decrement stock immediately for COD and bank transfer
+        UPDATE product_variants
+        SET stock = stock - v_quantity,
+            updated_at = now()
+        WHERE id = v_variant_id;
+      END IF;
+      -- For PayHere, stock will be decremented in the webhook
+    END LOOP;
+
+    RETURN QUERY SELECT v_order_id, true, 'Order created successfully'::text, v_pricing;
+
+  EXCEPTION
+    WHEN OTHERS THEN
+      -- Rollback happens automatically
+      RETURN QUERY SELECT NULL::uuid, false, ('Order creation failed: ' || SQLERRM)::text, v_pricing;
+  END;
+END;
+$$;
+
+-- Grant permission to authenticated users
+GRANT EXECUTE ON FUNCTION create_order_with_stock_management TO authenticated;
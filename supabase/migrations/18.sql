@@ -0,0 +1,593 @@
+/*
+  # Shipping Zones and Rates
+
+  Replaces the hard-coded Rs 399 / Rs 699 shipping rule:
+  1. shipping_zones: Sri Lankan districts/provinces, a domestic catch-all and
+     an international fallback, each with its own free-shipping threshold
+  2. shipping_methods: per-zone methods with flat, weight- or quantity-based
+     rates and estimated delivery days
+  3. delivery_addresses gain province/district; products gain weight_kg
+  4. calculate_order_pricing resolves the zone from the shipping address and
+     returns the methods available there; create_order_with_stock_management
+     rejects methods the zone doesn't offer
+*/
+
+-- =====================================================
+-- ADDRESS AND WEIGHT COLUMNS
+-- =====================================================
+
+ALTER TABLE delivery_addresses
+ADD COLUMN IF NOT EXISTS province text,
+ADD COLUMN IF NOT EXISTS district text;
+
+-- Used by weight-based shipping methods
+ALTER TABLE products
+ADD COLUMN IF NOT EXISTS weight_kg decimal(8,3) NOT NULL DEFAULT 0 CHECK (weight_kg >= 0);
+
+-- =====================================================
+-- SHIPPING TABLES
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS shipping_zones (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  name text NOT NULL,
+  -- A zone matches by district first, then by province. A domestic zone
+  -- with neither set is the catch-all for the rest of Sri Lanka.
+  provinces text[] NOT NULL DEFAULT '{}',
+  districts text[] NOT NULL DEFAULT '{}',
+  is_international boolean NOT NULL DEFAULT false,
+  free_shipping_threshold decimal(10,2) CHECK (free_shipping_threshold >= 0), -- NULL = never free
+  sort_order integer DEFAULT 0,
+  is_active boolean DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CHECK (NOT is_international OR (provinces = '{}' AND districts = '{}'))
+);
+
+CREATE TABLE IF NOT EXISTS shipping_methods (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  zone_id uuid NOT NULL REFERENCES shipping_zones(id) ON DELETE CASCADE,
+  code text NOT NULL CHECK (code ~ '^[a-z0-9_]+$'), -- Stored on orders.shipping_method
+  name text NOT NULL,
+  description text,
+  -- flat: base_rate
+  -- weight: base_rate covers the first kg, unit_rate per additional kg (rounded up)
+  -- quantity: base_rate covers the first item, unit_rate per additional item
+  rate_type text NOT NULL DEFAULT 'flat' CHECK (rate_type IN ('flat', 'weight', 'quantity')),
+  base_rate decimal(10,2) NOT NULL DEFAULT 0 CHECK (base_rate >= 0),
+  unit_rate decimal(10,2) NOT NULL DEFAULT 0 CHECK (unit_rate >= 0),
+  min_days integer NOT NULL DEFAULT 1 CHECK (min_days >= 0),
+  max_days integer NOT NULL DEFAULT 1,
+  sort_order integer DEFAULT 0,
+  is_active boolean DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE(zone_id, code),
+  CHECK (max_days >= min_days)
+);
+
+CREATE INDEX IF NOT EXISTS idx_shipping_methods_zone ON shipping_methods(zone_id, sort_order);
+
+ALTER TABLE orders
+ADD COLUMN IF NOT EXISTS shipping_zone_id uuid REFERENCES shipping_zones(id) ON DELETE SET NULL;
+
+CREATE TRIGGER update_shipping_zones_updated_at
+  BEFORE UPDATE ON shipping_zones
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_shipping_methods_updated_at
+  BEFORE UPDATE ON shipping_methods
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER audit_shipping_zones_changes
+  AFTER INSERT OR UPDATE OR DELETE ON shipping_zones
+  FOR EACH ROW EXECUTE FUNCTION log_audit_changes();
+
+CREATE TRIGGER audit_shipping_methods_changes
+  AFTER INSERT OR UPDATE OR DELETE ON shipping_methods
+  FOR EACH ROW EXECUTE FUNCTION log_audit_changes();
+
+-- =====================================================
+-- SHIPPING POLICIES
+-- =====================================================
+
+ALTER TABLE shipping_zones ENABLE ROW LEVEL SECURITY;
+ALTER TABLE shipping_methods ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "shipping_zones_public_read" ON shipping_zones
+  FOR SELECT TO anon, authenticated
+  USING (is_active = true);
+
+CREATE POLICY "shipping_zones_admin_all" ON shipping_zones
+  FOR ALL TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+CREATE POLICY "shipping_methods_public_read" ON shipping_methods
+  FOR SELECT TO anon, authenticated
+  USING (is_active = true);
+
+CREATE POLICY "shipping_methods_admin_all" ON shipping_methods
+  FOR ALL TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+-- =====================================================
+-- DEFAULT ZONES
+-- =====================================================
+
+-- Mirrors the previous rule: standard everywhere, express only within
+-- Colombo, free over LKR 20,000
+DO $$
+DECLARE
+  v_colombo uuid;
+  v_domestic uuid;
+  v_international uuid;
+BEGIN
+  IF EXISTS (SELECT 1 FROM shipping_zones) THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO shipping_zones (name, districts, free_shipping_threshold, sort_order)
+  VALUES ('Colombo', ARRAY['Colombo'], 20000, 0)
+  RETURNING id INTO v_colombo;
+
+  INSERT INTO shipping_zones (name, free_shipping_threshold, sort_order)
+  VALUES ('Rest of Sri Lanka', 20000, 1)
+  RETURNING id INTO v_domestic;
+
+  INSERT INTO shipping_zones (name, is_international, sort_order)
+  VALUES ('International', true, 2)
+  RETURNING id INTO v_international;
+
+  INSERT INTO shipping_methods (zone_id, code, name, description, base_rate, min_days, max_days, sort_order)
+  VALUES
+    (v_colombo, 'standard', 'Standard', 'Island-wide courier', 399, 2, 4, 0),
+    (v_colombo, 'express', 'Express', 'Same or next day within Colombo', 699, 0, 1, 1),
+    (v_domestic, 'standard', 'Standard', 'Island-wide courier', 399, 2, 4, 0);
+
+  INSERT INTO shipping_methods (zone_id, code, name, description, rate_type, base_rate, unit_rate, min_days, max_days)
+  VALUES (v_international, 'standard', 'International', 'Tracked international post', 'weight', 4500, 1500, 7, 14);
+END $$;
+
+-- =====================================================
+-- SHIPPING RULES
+-- =====================================================
+
+-- Pick the zone for a shipping address ({country, province, district}).
+-- A NULL address resolves to the domestic catch-all.
+CREATE OR REPLACE FUNCTION resolve_shipping_zone(p_shipping_address jsonb)
+RETURNS shipping_zones
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_zone shipping_zones;
+  v_country text := COALESCE(NULLIF(trim(p_shipping_address->>'country'), ''), 'Sri Lanka');
+  v_province text := NULLIF(trim(p_shipping_address->>'province'), '');
+  v_district text := NULLIF(trim(p_shipping_address->>'district'), '');
+BEGIN
+  IF v_country <> 'Sri Lanka' THEN
+    SELECT * INTO v_zone FROM shipping_zones
+    WHERE is_active = true AND is_international = true
+    ORDER BY sort_order
+    LIMIT 1;
+  ELSE
+    SELECT * INTO v_zone FROM shipping_zones
+    WHERE is_active = true AND is_international = false
+      AND (
+        (v_district IS NOT NULL AND v_district = ANY(districts))
+        OR (v_province IS NOT NULL AND v_province = ANY(provinces))
+        OR (provinces = '{}' AND districts = '{}')
+      )
+    -- Most specific match wins
+    ORDER BY
+      (v_district IS NOT NULL AND v_district = ANY(districts)) DESC,
+      (v_province IS NOT NULL AND v_province = ANY(provinces)) DESC,
+      sort_order
+    LIMIT 1;
+  END IF;
+
+  IF v_zone.id IS NULL THEN
+    RAISE EXCEPTION 'We do not ship to % yet', COALESCE(v_district, v_country);
+  END IF;
+
+  RETURN v_zone;
+END;
+$$;
+
+-- The old rule took (method, subtotal) and hard-coded the rates
+DROP FUNCTION IF EXISTS calculate_shipping_cost(text, decimal);
+
+-- Shipping cost for one method given the order's subtotal, item count and weight
+CREATE OR REPLACE FUNCTION calculate_shipping_cost(
+  p_method_id uuid,
+  p_subtotal decimal,
+  p_quantity integer,
+  p_weight_kg decimal
+)
+RETURNS decimal
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_method shipping_methods;
+  v_threshold decimal(10,2);
+BEGIN
+  SELECT * INTO v_method FROM shipping_methods WHERE id = p_method_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Unknown shipping method: %', p_method_id;
+  END IF;
+
+  SELECT free_shipping_threshold INTO v_threshold
+  FROM shipping_zones
+  WHERE id = v_method.zone_id;
+
+  -- Free shipping for orders over the zone's threshold
+  IF v_threshold IS NOT NULL AND p_subtotal >= v_threshold THEN
+    RETURN 0;
+  END IF;
+
+  CASE v_method.rate_type
+    WHEN 'weight' THEN
+      RETURN v_method.base_rate + v_method.unit_rate * GREATEST(ceil(p_weight_kg) - 1, 0);
+    WHEN 'quantity' THEN
+      RETURN v_method.base_rate + v_method.unit_rate * GREATEST(p_quantity - 1, 0);
+    ELSE
+      RETURN v_method.base_rate;
+  END CASE;
+END;
+$$;
+
+-- =====================================================
+-- PRICE BREAKDOWN
+-- =====================================================
+
+-- Adding a parameter changes the signature, so drop the 17.sql version
+DROP FUNCTION IF EXISTS calculate_order_pricing(jsonb[], text, text);
+
+-- Build the authoritative price breakdown for a set of items
+CREATE OR REPLACE FUNCTION calculate_order_pricing(
+  p_order_items jsonb[], -- Array of {variant_id, quantity}
+  p_shipping_method text,
+  p_discount_code text DEFAULT NULL,
+  p_shipping_address jsonb DEFAULT NULL -- {country, province, district}
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_item jsonb;
+  v_variant_id uuid;
+  v_quantity integer;
+  v_line record;
+  v_lines jsonb := '[]'::jsonb;
+  v_subtotal decimal(10,2) := 0;
+  v_item_count integer := 0;
+  v_weight decimal(10,3) := 0;
+  v_zone shipping_zones;
+  v_method record;
+  v_selected_method jsonb;
+  v_shipping_options jsonb := '[]'::jsonb;
+  v_shipping decimal(10,2) := 0;
+  v_shipping_error text;
+  v_discount jsonb;
+  v_discounts jsonb := '[]'::jsonb;
+  v_discount_total decimal(10,2) := 0;
+  v_discount_error text;
+BEGIN
+  IF p_order_items IS NULL OR array_length(p_order_items, 1) IS NULL THEN
+    RAISE EXCEPTION 'Order must contain at least one item';
+  END IF;
+
+  FOREACH v_item IN ARRAY p_order_items
+  LOOP
+    v_variant_id := (v_item->>'variant_id')::uuid;
+    v_quantity := (v_item->>'quantity')::integer;
+
+    IF v_quantity IS NULL OR v_quantity <= 0 THEN
+      RAISE EXCEPTION 'Invalid quantity for variant %', v_variant_id;
+    END IF;
+
+    -- Variant price override wins over the product price
+    SELECT
+      p.id AS product_id,
+      p.title AS product_title,
+      pv.sku,
+      pv.size,
+      pv.color,
+      p.weight_kg,
+      COALESCE(pv.price_override, p.price) AS unit_price
+    INTO v_line
+    FROM product_variants pv
+    JOIN products p ON p.id = pv.product_id
+    WHERE pv.id = v_variant_id
+      AND pv.is_active = true
+      AND p.is_active = true
+      AND p.deleted_at IS NULL;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Product variant not found or unavailable: %', v_variant_id;
+    END IF;
+
+    v_lines := v_lines || jsonb_build_array(jsonb_build_object(
+      'variant_id', v_variant_id,
+      'product_id', v_line.product_id,
+      'product_title', v_line.product_title,
+      'sku', v_line.sku,
+      'size', v_line.size,
+      'color', v_line.color,
+      'quantity', v_quantity,
+      'unit_price', v_line.unit_price,
+      'line_total', v_line.unit_price * v_quantity
+    ));
+
+    v_subtotal := v_subtotal + (v_line.unit_price * v_quantity);
+    v_item_count := v_item_count + v_quantity;
+    v_weight := v_weight + (v_line.weight_kg * v_quantity);
+  END LOOP;
+
+  BEGIN
+    v_zone := resolve_shipping_zone(p_shipping_address);
+  EXCEPTION
+    WHEN OTHERS THEN
+      v_shipping_error := SQLERRM;
+  END;
+
+  -- Every method the zone offers, so checkout can list them with prices
+  FOR v_method IN
+    SELECT * FROM shipping_methods
+    WHERE zone_id = v_zone.id AND is_active = true
+    ORDER BY sort_order, base_rate
+  LOOP
+    v_shipping_options := v_shipping_options || jsonb_build_array(jsonb_build_object(
+      'code', v_method.code,
+      'name', v_method.name,
+      'description', v_method.description,
+      'cost', calculate_shipping_cost(v_method.id, v_subtotal, v_item_count, v_weight),
+      'min_days', v_method.min_days,
+      'max_days', v_method.max_days
+    ));
+  END LOOP;
+
+  SELECT value INTO v_selected_method
+  FROM jsonb_array_elements(v_shipping_options)
+  WHERE value->>'code' = p_shipping_method;
+
+  -- Like discount codes, an unshippable address or a method the zone
+  -- doesn't offer is reported rather than raised
+  IF v_selected_method IS NOT NULL THEN
+    v_shipping := (v_selected_method->>'cost')::decimal;
+  ELSIF v_shipping_error IS NULL THEN
+    v_shipping_error := 'This shipping method is not available for ' || v_zone.name;
+  END IF;
+
+  -- An unusable code doesn't fail pricing; the reason is returned instead
+  IF NULLIF(trim(p_discount_code), '') IS NOT NULL THEN
+    BEGIN
+      v_discount := evaluate_discount_code(p_discount_code, auth.uid(), v_lines, v_subtotal, v_shipping);
+      v_discounts := jsonb_build_array(v_discount);
+      v_discount_total := (v_discount->>'amount')::decimal;
+    EXCEPTION
+      WHEN OTHERS THEN
+        v_discount_error := SQLERRM;
+    END;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'lines', v_lines,
+    'subtotal', v_subtotal,
+    'shipping', v_shipping,
+    'shipping_zone', jsonb_build_object('id', v_zone.id, 'name', v_zone.name),
+    'shipping_method', v_selected_method,
+    'shipping_options', v_shipping_options,
+    'shipping_error', v_shipping_error,
+    'discounts', v_discounts,
+    'discount_total', v_discount_total,
+    'discount_code', v_discount->>'code',
+    'discount_error', v_discount_error,
+    'total', v_subtotal - v_discount_total + v_shipping,
+    'currency', 'LKR'
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION calculate_order_pricing(jsonb[], text, text, jsonb) TO anon, authenticated;
+
+-- =====================================================
+-- ORDER CREATION
+-- =====================================================
+
+-- Pricing's new address parameter doesn't change this signature
+
+-- Function to create order with automatic stock management.
+-- p_total and p_shipping_cost are what the shopper was shown; they are only
+-- compared against the server price and never written to the order.
+CREATE OR REPLACE FUNCTION create_order_with_stock_management(
+  p_user_id uuid,
+  p_total decimal,
+  p_currency text,
+  p_payment_method text,
+  p_shipping_method text,
+  p_shipping_cost decimal,
+  p_shipping_address jsonb,
+  p_billing_address jsonb,
+  p_order_items jsonb[], -- Array of {variant_id, quantity}
+  p_discount_code text DEFAULT NULL
+)
+RETURNS TABLE(order_id uuid, success boolean, error_message text, pricing jsonb)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_order_id uuid;
+  v_pricing jsonb;
+  v_total decimal(10,2);
+  v_discount jsonb;
+  v_line jsonb;
+  v_variant_id uuid;
+  v_quantity integer;
+  v_current_stock integer;
+BEGIN
+  IF p_payment_method NOT IN ('payhere', 'bank', 'cod') THEN
+    RETURN QUERY SELECT NULL::uuid, false, ('Unsupported payment method: ' || p_payment_method)::text, NULL::jsonb;
+    RETURN;
+  END IF;
+
+  -- Serialise redemptions of the same code so usage limits hold
+  IF NULLIF(trim(p_discount_code), '') IS NOT NULL THEN
+    PERFORM 1 FROM discount_codes
+    WHERE code = upper(trim(p_discount_code))
+    FOR UPDATE;
+  END IF;
+
+  -- Recalculate every price from the catalogue
+  BEGIN
+    v_pricing := calculate_order_pricing(p_order_items, p_shipping_method, p_discount_code, p_shipping_address);
+  EXCEPTION
+    WHEN OTHERS THEN
+      RETURN QUERY SELECT NULL::uuid, false, SQLERRM::text, NULL::jsonb;
+      RETURN;
+  END;
+
+  IF v_pricing->>'shipping_error' IS NOT NULL THEN
+    RETURN QUERY SELECT NULL::uuid, false, (v_pricing->>'shipping_error')::text, v_pricing;
+    RETURN;
+  END IF;
+
+  IF v_pricing->>'discount_error' IS NOT NULL THEN
+    RETURN QUERY SELECT NULL::uuid, false, (v_pricing->>'discount_error')::text, v_pricing;
+    RETURN;
+  END IF;
+
+  v_total := (v_pricing->>'total')::decimal;
+  v_discount := v_pricing->'discounts'->0;
+
+  -- Reject the order if the shopper was shown a different price
+  IF p_total IS DISTINCT FROM v_total
+     OR p_shipping_cost IS DISTINCT FROM (v_pricing->>'shipping')::decimal THEN
+    RETURN QUERY SELECT NULL::uuid, false,
+      ('Prices have changed. Order total is now ' || (v_pricing->>'currency') || ' ' || v_total)::text,
+      v_pricing;
+    RETURN;
+  END IF;
+
+  BEGIN
+    -- Validate stock for all items first
+    FOR v_line IN SELECT value FROM jsonb_array_elements(v_pricing->'lines')
+    LOOP
+      v_variant_id := (v_line->>'variant_id')::uuid;
+      v_quantity := (v_line->>'quantity')::integer;
+
+      SELECT stock INTO v_current_stock
+      FROM product_variants
+      WHERE id = v_variant_id
+      FOR UPDATE; -- Lock the row
+
+      IF v_current_stock < v_quantity THEN
+        RETURN QUERY SELECT NULL::uuid, false,
+          ('Insufficient stock for ' || (v_line->>'product_title') ||
+          '. Available: ' || v_current_stock || ', Requested: ' || v_quantity)::text,
+          v_pricing;
+        RETURN;
+      END IF;
+    END LOOP;
+
+    -- Create the order (order_number will be generated by trigger)
+    INSERT INTO orders (
+      user_id,
+      subtotal,
+      discount_amount,
+      discount_code,
+      total,
+      currency,
+      status,
+      payment_status,
+      payment_method,
+      shipping_method,
+      shipping_cost,
+      shipping_zone_id,
+      shipping_address,
+      billing_address
+    )
+    VALUES (
+      p_user_id,
+      (v_pricing->>'subtotal')::decimal,
+      (v_pricing->>'discount_total')::decimal,
+      v_pricing->>'discount_code',
+      v_total,
+      COALESCE(v_pricing->>'currency', p_currency),
+      'pending',
+      'pending',
+      p_payment_method,
+      p_shipping_method,
+      (v_pricing->>'shipping')::decimal,
+      (v_pricing->'shipping_zone'->>'id')::uuid,
+      p_shipping_address,
+      p_billing_address
+    )
+    RETURNING id INTO v_order_id;
+
+    -- Record the redemption against the code's usage limits
+    IF v_discount IS NOT NULL THEN
+      INSERT INTO discount_redemptions (discount_code_id, order_id, user_id, amount)
+      VALUES ((v_discount->>'id')::uuid, v_order_id, p_user_id, (v_discount->>'amount')::decimal);
+    END IF;
+
+    -- Create order items from the server-side breakdown and update stock
+    FOR v_line IN SELECT value FROM jsonb_array_elements(v_pricing->'lines')
+    LOOP
+      v_variant_id := (v_line->>'variant_id')::uuid;
+      v_quantity := (v_line->>'quantity')::integer;
+
+      INSERT INTO order_items (
+        order_id,
+        product_variant_id,
+        product_title,
+        variant_info,
+        quantity,
+        unit_price,
+        total_price
+      )
+      VALUES (
+        v_order_id,
+        v_variant_id,
+        v_line->>'product_title',
+        jsonb_build_object(
+          'size', v_line->>'size',
+          'color', v_line->>'color',
+          'sku', v_line->>'sku'
+        ),
+        v_quantity,
+        (v_line->>'unit_price')::decimal,
+        (v_line->>'line_total')::decimal
+      );
+
+      -- Update stock based on payment method
+      IF p_payment_method IN ('cod', 'bank') THEN
+        -- Decrement stock immediately for COD and bank transfer
+        UPDATE product_variants
+        SET stock = stock - v_quantity,
+            updated_at = now()
+        WHERE id = v_variant_id;
+      END IF;
+      -- For PayHere, stock will be decremented in the webhook
+    END LOOP;
+
+    RETURN QUERY SELECT v_order_id, true, 'Order created successfully'::text, v_pricing;
+
+  EXCEPTION
+    WHEN OTHERS THEN
+      -- Rollback happens automatically
+      RETURN QUERY SELECT NULL::uuid, false, ('Order creation failed: ' || SQLERRM)::text, v_pricing;
+  END;
+END;
+$$;
+
+-- Grant permission to authenticated users
+GRANT EXECUTE ON FUNCTION create_order_with_stock_management TO authenticated;
@@ -0,0 +1,443 @@
+/*
+  # Payment Reservations
+
+  PayHere orders now hold their stock for a limited window instead of
+  waiting for the webhook:
+  1. store_settings: key/value settings, starting with
+     payment_reservation_minutes (default 30)
+  2. orders.reserved_until / cancelled_at / cancellation_reason and an
+     'expired' payment status
+  3. create_order_with_stock_management reserves stock for every payment
+     method and stamps PayHere orders with reserved_until
+  4. expire_payment_reservations() releases stale reservations through
+     restore_order_stock; it runs every minute when pg_cron is available and
+     check_order_reservation() applies it lazily for a single order
+  5. revive_expired_order() re-reserves stock when a payment arrives late
+*/
+
+-- =====================================================
+-- STORE SETTINGS
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS store_settings (
+  key text PRIMARY KEY,
+  value jsonb NOT NULL,
+  description text,
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TRIGGER update_store_settings_updated_at
+  BEFORE UPDATE ON store_settings
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE store_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "store_settings_public_read" ON store_settings
+  FOR SELECT TO anon, authenticated
+  USING (true);
+
+CREATE POLICY "store_settings_admin_all" ON store_settings
+  FOR ALL TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+INSERT INTO store_settings (key, value, description)
+VALUES ('payment_reservation_minutes', '30', 'Minutes a PayHere order holds its stock while awaiting payment')
+ON CONFLICT (key) DO NOTHING;
+
+-- =====================================================
+-- RESERVATION COLUMNS
+-- =====================================================
+
+ALTER TABLE orders
+ADD COLUMN IF NOT EXISTS reserved_until timestamptz,
+ADD COLUMN IF NOT EXISTS cancelled_at timestamptz,
+ADD COLUMN IF NOT EXISTS cancellation_reason text;
+
+ALTER TABLE orders DROP CONSTRAINT IF EXISTS orders_payment_status_check;
+ALTER TABLE orders
+ADD CONSTRAINT orders_payment_status_check
+CHECK (payment_status IN ('pending', 'paid', 'failed', 'refunded', 'expired'));
+
+CREATE INDEX IF NOT EXISTS idx_orders_reserved_until ON orders(reserved_until)
+WHERE status = 'pending' AND payment_status = 'pending';
+
+-- Reservation window in minutes, falling back to 30 if the setting is missing
+CREATE OR REPLACE FUNCTION payment_reservation_minutes()
+RETURNS integer
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT COALESCE((SELECT (value #>> '{}')::integer FROM store_settings WHERE key = 'payment_reservation_minutes'), 30);
+$$;
+
+-- =====================================================
+-- RELEASING RESERVATIONS
+-- =====================================================
+
+-- Cancel a pending PayHere order and give its stock back.
+-- Returns false if the order is no longer awaiting payment.
+CREATE OR REPLACE FUNCTION release_order_reservation(
+  p_order_id uuid,
+  p_payment_status text,
+  p_reason text
+)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  PERFORM 1 FROM orders
+  WHERE id = p_order_id
+    AND status = 'pending'
+    AND payment_status = 'pending'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  IF NOT restore_order_stock(p_order_id) THEN
+    RAISE EXCEPTION 'Could not restore stock for order %', p_order_id;
+  END IF;
+
+  UPDATE orders
+  SET status = 'cancelled',
+      payment_status = p_payment_status,
+      cancelled_at = now(),
+      cancellation_reason = p_reason,
+      reserved_until = NULL,
+      updated_at = now()
+  WHERE id = p_order_id;
+
+  RETURN true;
+END;
+$$;
+
+-- Expire every PayHere order whose reservation window has passed
+CREATE OR REPLACE FUNCTION expire_payment_reservations()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_order_id uuid;
+  v_count integer := 0;
+BEGIN
+  FOR v_order_id IN
+    SELECT id FROM orders
+    WHERE status = 'pending'
+      AND payment_status = 'pending'
+      AND reserved_until < now()
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    IF release_order_reservation(v_order_id, 'expired', 'Payment was not completed in time') THEN
+      v_count := v_count + 1;
+    END IF;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$;
+
+-- Reservation state for one order, expiring it first if its window has passed
+CREATE OR REPLACE FUNCTION check_order_reservation(p_order_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_order orders;
+BEGIN
+  SELECT * INTO v_order FROM orders WHERE id = p_order_id;
+
+  IF NOT FOUND OR (v_order.user_id IS DISTINCT FROM auth.uid() AND NOT is_admin()) THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF v_order.status = 'pending'
+     AND v_order.payment_status = 'pending'
+     AND v_order.reserved_until < now() THEN
+    PERFORM release_order_reservation(p_order_id, 'expired', 'Payment was not completed in time');
+    SELECT * INTO v_order FROM orders WHERE id = p_order_id;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'status', v_order.status,
+    'payment_status', v_order.payment_status,
+    'reserved_until', v_order.reserved_until,
+    'cancellation_reason', v_order.cancellation_reason,
+    'can_retry', v_order.status = 'pending'
+      AND v_order.payment_status = 'pending'
+      AND v_order.reserved_until > now()
+  );
+END;
+$$;
+
+-- A payment that lands after its reservation expired takes the stock again
+-- if it is still there; otherwise the order stays cancelled and is flagged
+-- for a refund.
+CREATE OR REPLACE FUNCTION revive_expired_order(p_order_id uuid)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_item record;
+BEGIN
+  PERFORM 1 FROM orders
+  WHERE id = p_order_id AND payment_status = 'expired'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  BEGIN
+    FOR v_item IN
+      SELECT product_variant_id, quantity FROM order_items WHERE order_id = p_order_id
+    LOOP
+      UPDATE product_variants
+      SET stock = stock - v_item.quantity,
+          updated_at = now()
+      WHERE id = v_item.product_variant_id
+        AND stock >= v_item.quantity;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Insufficient stock';
+      END IF;
+    END LOOP;
+  EXCEPTION
+    WHEN OTHERS THEN
+      UPDATE orders
+      SET payment_status = 'paid',
+          cancellation_reason = 'Paid after the reservation expired and stock is no longer available. Refund required.',
+          updated_at = now()
+      WHERE id = p_order_id;
+      RETURN false;
+  END;
+
+  UPDATE orders
+  SET status = 'pending',
+      payment_status = 'paid',
+      cancelled_at = NULL,
+      cancellation_reason = NULL,
+      updated_at = now()
+  WHERE id = p_order_id;
+
+  RETURN true;
+END;
+$$;
+
+-- Only the webhook (service role) and the functions above release or revive
+REVOKE EXECUTE ON FUNCTION release_order_reservation(uuid, text, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION expire_payment_reservations() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION revive_expired_order(uuid) FROM PUBLIC, anon, authenticated;
+-- Stock is now held by every order, so shoppers must not restore it directly
+REVOKE EXECUTE ON FUNCTION restore_order_stock(uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION check_order_reservation(uuid) TO authenticated;
+
+-- Sweep every minute where pg_cron is installed
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule('expire-payment-reservations', '* * * * *', 'SELECT expire_payment_reservations()');
+  END IF;
+END $$;
+
+-- =====================================================
+-- ORDER CREATION
+-- =====================================================
+
+-- Function to create order with automatic stock management.
+-- p_total and p_shipping_cost are what the shopper was shown; they are only
+-- compared against the server price and never written to the order.
+CREATE OR REPLACE FUNCTION create_order_with_stock_management(
+  p_user_id uuid,
+  p_total decimal,
+  p_currency text,
+  p_payment_method text,
+  p_shipping_method text,
+  p_shipping_cost decimal,
+  p_shipping_address jsonb,
+  p_billing_address jsonb,
+  p_order_items jsonb[], -- Array of {variant_id, quantity}
+  p_discount_code text DEFAULT NULL
+)
+RETURNS TABLE(order_id uuid, success boolean, error_message text, pricing jsonb)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_order_id uuid;
+  v_pricing jsonb;
+  v_total decimal(10,2);
+  v_discount jsonb;
+  v_line jsonb;
+  v_variant_id uuid;
+  v_quantity integer;
+  v_current_stock integer;
+  v_reserved_until timestamptz;
+BEGIN
+  IF p_payment_method NOT IN ('payhere', 'bank', 'cod') THEN
+    RETURN QUERY SELECT NULL::uuid, false, ('Unsupported payment method: ' || p_payment_method)::text, NULL::jsonb;
+    RETURN;
+  END IF;
+
+  -- Serialise redemptions of the same code so usage limits hold
+  IF NULLIF(trim(p_discount_code), '') IS NOT NULL THEN
+    PERFORM 1 FROM discount_codes
+    WHERE code = upper(trim(p_discount_code))
+    FOR UPDATE;
+  END IF;
+
+  -- Recalculate every price from the catalogue
+  BEGIN
+    v_pricing := calculate_order_pricing(p_order_items, p_shipping_method, p_discount_code, p_shipping_address);
+  EXCEPTION
+    WHEN OTHERS THEN
+      RETURN QUERY SELECT NULL::uuid, false, SQLERRM::text, NULL::jsonb;
+      RETURN;
+  END;
+
+  IF v_pricing->>'shipping_error' IS NOT NULL THEN
+    RETURN QUERY SELECT NULL::uuid, false, (v_pricing->>'shipping_error')::text, v_pricing;
+    RETURN;
+  END IF;
+
+  IF v_pricing->>'discount_error' IS NOT NULL THEN
+    RETURN QUERY SELECT NULL::uuid, false, (v_pricing->>'discount_error')::text, v_pricing;
+    RETURN;
+  END IF;
+
+  v_total := (v_pricing->>'total')::decimal;
+  v_discount := v_pricing->'discounts'->0;
+
+  -- Reject the order if the shopper was shown a different price
+  IF p_total IS DISTINCT FROM v_total
+     OR p_shipping_cost IS DISTINCT FROM (v_pricing->>'shipping')::decimal THEN
+    RETURN QUERY SELECT NULL::uuid, false,
+      ('Prices have changed. Order total is now ' || (v_pricing->>'currency') || ' ' || v_total)::text,
+      v_pricing;
+    RETURN;
+  END IF;
+
+  BEGIN
+    -- Validate stock for all items first
+    FOR v_line IN SELECT value FROM jsonb_array_elements(v_pricing->'lines')
+    LOOP
+      v_variant_id := (v_line->>'variant_id')::uuid;
+      v_quantity := (v_line->>'quantity')::integer;
+
+      SELECT stock INTO v_current_stock
+      FROM product_variants
+      WHERE id = v_variant_id
+      FOR UPDATE; -- Lock the row
+
+      IF v_current_stock < v_quantity THEN
+        RETURN QUERY SELECT NULL::uuid, false,
+          ('Insufficient stock for ' || (v_line->>'product_title') ||
+          '. Available: ' || v_current_stock || ', Requested: ' || v_quantity)::text,
+          v_pricing;
+        RETURN;
+      END IF;
+    END LOOP;
+
+    -- Online payments hold their stock only until the window runs out
+    IF p_payment_method = 'payhere' THEN
+      v_reserved_until := now() + make_interval(mins => payment_reservation_minutes());
+    END IF;
+
+    -- Create the order (order_number will be generated by trigger)
+    INSERT INTO orders (
+      user_id,
+      subtotal,
+      discount_amount,
+      discount_code,
+      total,
+      currency,
+      status,
+      payment_status,
+      payment_method,
+      shipping_method,
+      shipping_cost,
+      shipping_zone_id,
+      shipping_address,
+      billing_address,
+      reserved_until
+    )
+    VALUES (
+      p_user_id,
+      (v_pricing->>'subtotal')::decimal,
+      (v_pricing->>'discount_total')::decimal,
+      v_pricing->>'discount_code',
+      v_total,
+      COALESCE(v_pricing->>'currency', p_currency),
+      'pending',
+      'pending',
+      p_payment_method,
+      p_shipping_method,
+      (v_pricing->>'shipping')::decimal,
+      (v_pricing->'shipping_zone'->>'id')::uuid,
+      p_shipping_address,
+      p_billing_address,
+      v_reserved_until
+    )
+    RETURNING id INTO v_order_id;
+
+    -- Record the redemption against the code's usage limits
+    IF v_discount IS NOT NULL THEN
+      INSERT INTO discount_redemptions (discount_code_id, order_id, user_id, amount)
+      VALUES ((v_discount->>'id')::uuid, v_order_id, p_user_id, (v_discount->>'amount')::decimal);
+    END IF;
+
+    -- Create order items from the server-side breakdown and update stock
+    FOR v_line IN SELECT value FROM jsonb_array_elements(v_pricing->'lines')
+    LOOP
+      v_variant_id := (v_line->>'variant_id')::uuid;
+      v_quantity := (v_line->>'quantity')::integer;
+
+      INSERT INTO order_items (
+        order_id,
+        product_variant_id,
+        product_title,
+        variant_info,
+        quantity,
+        unit_price,
+        total_price
+      )
+      VALUES (
+        v_order_id,
+        v_variant_id,
+        v_line->>'product_title',
+        jsonb_build_object(
+          'size', v_line->>'size',
+          'color', v_line->>'color',
+          'sku', v_line->>'sku'
+        ),
+        v_quantity,
+        (v_line->>'unit_price')::decimal,
+        (v_line->>'line_total')::decimal
+      );
+
+      -- Reserve stock for every payment method; abandoned PayHere orders
+      -- give it back through expire_payment_reservations
+      UPDATE product_variants
+      SET stock = stock - v_quantity,
+          updated_at = now()
+      WHERE id = v_variant_id;
+    END LOOP;
+
+    RETURN QUERY SELECT v_order_id, true, 'Order created successfully'::text, v_pricing;
+
+  EXCEPTION
+    WHEN OTHERS THEN
+      -- Rollback happens automatically
+      RETURN QUERY SELECT NULL::uuid, false, ('Order creation failed: ' || SQLERRM)::text, v_pricing;
+  END;
+END;
+$$;
+
+-- Grant permission to authenticated users
+GRANT EXECUTE ON FUNCTION create_order_with_stock_management TO authenticated;
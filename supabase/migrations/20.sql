@@ -0,0 +1,260 @@
+/*
+  # Payment Events Ledger
+
+  Every PayHere notification is now recorded before it touches an order:
+  1. payment_events: raw payload, signature validity, status code and the
+     outcome of applying it (applied, duplicate, ignored, rejected)
+  2. orders.payment_status only moves forward
+     (pending -> paid/failed/expired, failed/expired -> paid, paid -> refunded),
+     enforced by a trigger for webhooks and admin edits alike
+  3. apply_payment_event() applies one recorded notification under a row lock
+     on the order, skipping repeats of the same payment_id/status_code and
+     late notifications that would move the payment backwards
+  4. revive_expired_order() also revives failed payments that later succeed
+*/
+
+-- =====================================================
+-- PAYMENT EVENTS
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS payment_events (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  order_id uuid REFERENCES orders(id) ON DELETE SET NULL,
+  order_reference text,
+  provider text NOT NULL DEFAULT 'payhere',
+  provider_payment_id text,
+  status_code integer,
+  status_message text,
+  payment_status text,
+  amount decimal(10,2),
+  currency text,
+  payment_method text,
+  signature_valid boolean NOT NULL DEFAULT false,
+  outcome text NOT NULL DEFAULT 'received' CHECK (outcome IN ('received', 'applied', 'duplicate', 'ignored', 'rejected')),
+  outcome_detail text,
+  raw_payload jsonb NOT NULL DEFAULT '{}'::jsonb,
+  received_at timestamptz DEFAULT now(),
+  processed_at timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS idx_payment_events_order ON payment_events(order_id, received_at);
+CREATE INDEX IF NOT EXISTS idx_payment_events_provider_payment ON payment_events(provider, provider_payment_id, status_code);
+
+ALTER TABLE payment_events ENABLE ROW LEVEL SECURITY;
+
+-- Written by the webhook with the service role; admins can only read
+CREATE POLICY "payment_events_admin_read" ON payment_events
+  FOR SELECT TO authenticated
+  USING (is_admin());
+
+-- =====================================================
+-- PAYMENT STATUS STATE MACHINE
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION is_valid_payment_status_transition(p_from text, p_to text)
+RETURNS boolean
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT COALESCE(p_from, 'pending') = p_to
+    OR (COALESCE(p_from, 'pending'), p_to) IN (
+      VALUES
+        ('pending', 'paid'),
+        ('pending', 'failed'),
+        ('pending', 'expired'),
+        ('failed', 'paid'),
+        ('expired', 'paid'),
+        ('paid', 'refunded')
+    );
+$$;
+
+CREATE OR REPLACE FUNCTION enforce_payment_status_transition()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NOT is_valid_payment_status_transition(OLD.payment_status, NEW.payment_status) THEN
+    RAISE EXCEPTION 'Payment status cannot change from % to %', OLD.payment_status, NEW.payment_status;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS enforce_orders_payment_status_transition ON orders;
+CREATE TRIGGER enforce_orders_payment_status_transition
+  BEFORE UPDATE OF payment_status ON orders
+  FOR EACH ROW EXECUTE FUNCTION enforce_payment_status_transition();
+
+-- =====================================================
+-- LATE PAYMENTS
+-- =====================================================
+
+-- A payment that lands after its order was expired or failed takes the stock
+-- again if it is still there; otherwise the order stays cancelled and is
+-- flagged for a refund.
+CREATE OR REPLACE FUNCTION revive_expired_order(p_order_id uuid)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_item record;
+BEGIN
+  PERFORM 1 FROM orders
+  WHERE id = p_order_id AND payment_status IN ('expired', 'failed')
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  BEGIN
+    FOR v_item IN
+      SELECT product_variant_id, quantity FROM order_items WHERE order_id = p_order_id
+    LOOP
+      UPDATE product_variants
+      SET stock = stock - v_item.quantity,
+          updated_at = now()
+      WHERE id = v_item.product_variant_id
+        AND stock >= v_item.quantity;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Insufficient stock';
+      END IF;
+    END LOOP;
+  EXCEPTION
+    WHEN OTHERS THEN
+      UPDATE orders
+      SET payment_status = 'paid',
+          cancellation_reason = 'Paid after the order was cancelled and stock is no longer available. Refund required.',
+          updated_at = now()
+      WHERE id = p_order_id;
+      RETURN false;
+  END;
+
+  UPDATE orders
+  SET status = 'pending',
+      payment_status = 'paid',
+      cancelled_at = NULL,
+      cancellation_reason = NULL,
+      updated_at = now()
+  WHERE id = p_order_id;
+
+  RETURN true;
+END;
+$$;
+
+-- =====================================================
+-- APPLYING EVENTS
+-- =====================================================
+
+-- Apply a recorded notification to its order. Safe to call more than once
+-- for the same event; returns the outcome and the order's payment status.
+CREATE OR REPLACE FUNCTION apply_payment_event(p_event_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_event payment_events%ROWTYPE;
+  v_order orders%ROWTYPE;
+  v_outcome text;
+  v_detail text;
+BEGIN
+  SELECT * INTO v_event FROM payment_events WHERE id = p_event_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Payment event % not found', p_event_id;
+  END IF;
+
+  IF v_event.outcome <> 'received' THEN
+    RETURN jsonb_build_object(
+      'outcome', v_event.outcome,
+      'detail', v_event.outcome_detail,
+      'payment_status', (SELECT payment_status FROM orders WHERE id = v_event.order_id)
+    );
+  END IF;
+
+  -- Lock the order so notifications for it are applied one at a time
+  SELECT * INTO v_order FROM orders WHERE id = v_event.order_id FOR UPDATE;
+
+  IF NOT v_event.signature_valid THEN
+    v_outcome := 'rejected';
+    v_detail := 'Invalid signature';
+  ELSIF v_order.id IS NULL THEN
+    v_outcome := 'rejected';
+    v_detail := 'Order not found';
+  ELSIF EXISTS (
+    SELECT 1 FROM payment_events
+    WHERE order_id = v_event.order_id
+      AND id <> v_event.id
+      AND outcome IN ('applied', 'ignored')
+      AND provider = v_event.provider
+      AND provider_payment_id IS NOT DISTINCT FROM v_event.provider_payment_id
+      AND status_code IS NOT DISTINCT FROM v_event.status_code
+  ) THEN
+    v_outcome := 'duplicate';
+    v_detail := 'Notification already processed';
+  ELSIF COALESCE(v_order.payment_status, 'pending') = v_event.payment_status THEN
+    v_outcome := 'ignored';
+    v_detail := format('Payment is already %s', v_event.payment_status);
+  ELSIF NOT is_valid_payment_status_transition(v_order.payment_status, v_event.payment_status) THEN
+    v_outcome := 'ignored';
+    v_detail := format('Payment cannot move from %s to %s', v_order.payment_status, v_event.payment_status);
+  ELSE
+    v_outcome := 'applied';
+
+    IF v_event.payment_status = 'paid' AND v_order.payment_status IN ('expired', 'failed') THEN
+      IF NOT revive_expired_order(v_order.id) THEN
+        v_detail := 'Paid after cancellation; stock no longer available, refund required';
+      END IF;
+    ELSIF v_event.payment_status = 'paid' THEN
+      UPDATE orders
+      SET payment_status = 'paid',
+          reserved_until = NULL,
+          updated_at = now()
+      WHERE id = v_order.id;
+    ELSIF v_event.payment_status = 'failed' THEN
+      -- Give the reserved stock back; fall back to a plain status change if
+      -- the order has already left the pending state
+      IF NOT release_order_reservation(
+        v_order.id,
+        'failed',
+        'Payment ' || COALESCE(NULLIF(v_event.status_message, ''), 'failed')
+      ) THEN
+        UPDATE orders
+        SET payment_status = 'failed',
+            updated_at = now()
+        WHERE id = v_order.id;
+      END IF;
+    ELSE
+      UPDATE orders
+      SET payment_status = v_event.payment_status,
+          updated_at = now()
+      WHERE id = v_order.id;
+    END IF;
+
+    IF v_event.provider_payment_id IS NOT NULL THEN
+      UPDATE orders
+      SET payment_provider_id = v_event.provider_payment_id
+      WHERE id = v_order.id;
+    END IF;
+  END IF;
+
+  UPDATE payment_events
+  SET outcome = v_outcome,
+      outcome_detail = v_detail,
+      processed_at = now()
+  WHERE id = p_event_id;
+
+  RETURN jsonb_build_object(
+    'outcome', v_outcome,
+    'detail', v_detail,
+    'payment_status', (SELECT payment_status FROM orders WHERE id = v_event.order_id)
+  );
+END;
+$$;
+
+-- Only the webhook (service role) applies payment events
+REVOKE EXECUTE ON FUNCTION apply_payment_event(uuid) FROM PUBLIC, anon, authenticated;
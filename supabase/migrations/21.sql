@@ -0,0 +1,545 @@
+/*
+  # Refunds and Chargebacks
+
+  Refunds are now recorded per order line and go through the payment provider:
+  1. refunds / refund_items: one row per refund or chargeback and the order
+     lines it covers
+  2. 'partially_refunded' and 'chargedback' payment statuses
+     (paid -> partially_refunded -> refunded, paid/partially_refunded -> chargedback)
+  3. create_refund() prices a refund from the order lines server-side;
+     complete_refund() records the provider's answer, restocks the returned
+     lines through restore_order_stock and moves the payment status forward
+  4. restore_order_stock(order, lines) restores only the given lines
+  5. apply_payment_event() records PayHere chargebacks (-3) against the order
+*/
+
+-- =====================================================
+-- PAYMENT STATUSES
+-- =====================================================
+
+ALTER TABLE orders DROP CONSTRAINT IF EXISTS orders_payment_status_check;
+ALTER TABLE orders
+ADD CONSTRAINT orders_payment_status_check
+CHECK (payment_status IN ('pending', 'paid', 'failed', 'refunded', 'expired', 'partially_refunded', 'chargedback'));
+
+CREATE OR REPLACE FUNCTION is_valid_payment_status_transition(p_from text, p_to text)
+RETURNS boolean
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT COALESCE(p_from, 'pending') = p_to
+    OR (COALESCE(p_from, 'pending'), p_to) IN (
+      VALUES
+        ('pending', 'paid'),
+        ('pending', 'failed'),
+        ('pending', 'expired'),
+        ('failed', 'paid'),
+        ('expired', 'paid'),
+        ('paid', 'refunded'),
+        ('paid', 'partially_refunded'),
+        ('partially_refunded', 'refunded'),
+        ('paid', 'chargedback'),
+        ('partially_refunded', 'chargedback')
+    );
+$$;
+
+-- =====================================================
+-- REFUNDS
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS refunds (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  order_id uuid NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  kind text NOT NULL DEFAULT 'refund' CHECK (kind IN ('refund', 'chargeback')),
+  method text NOT NULL DEFAULT 'provider' CHECK (method IN ('provider', 'manual')),
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'succeeded', 'failed')),
+  amount decimal(10,2) NOT NULL CHECK (amount > 0),
+  currency text NOT NULL DEFAULT 'LKR',
+  reason text,
+  restock boolean NOT NULL DEFAULT true,
+  provider text,
+  provider_refund_id text,
+  error_message text,
+  created_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  completed_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS refund_items (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  refund_id uuid NOT NULL REFERENCES refunds(id) ON DELETE CASCADE,
+  order_item_id uuid NOT NULL REFERENCES order_items(id) ON DELETE CASCADE,
+  quantity integer NOT NULL CHECK (quantity > 0),
+  amount decimal(10,2) NOT NULL,
+  UNIQUE(refund_id, order_item_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_refunds_order ON refunds(order_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_refund_items_order_item ON refund_items(order_item_id);
+
+CREATE TRIGGER update_refunds_updated_at
+  BEFORE UPDATE ON refunds
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER audit_refunds_changes
+  AFTER INSERT OR UPDATE OR DELETE ON refunds
+  FOR EACH ROW EXECUTE FUNCTION log_audit_changes();
+
+ALTER TABLE refunds ENABLE ROW LEVEL SECURITY;
+ALTER TABLE refund_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "refunds_own_read" ON refunds
+  FOR SELECT TO authenticated
+  USING (EXISTS (SELECT 1 FROM orders WHERE orders.id = refunds.order_id AND orders.user_id = auth.uid()));
+
+CREATE POLICY "refunds_admin_all" ON refunds
+  FOR ALL TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+CREATE POLICY "refund_items_own_read" ON refund_items
+  FOR SELECT TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM refunds
+    JOIN orders ON orders.id = refunds.order_id
+    WHERE refunds.id = refund_items.refund_id AND orders.user_id = auth.uid()
+  ));
+
+CREATE POLICY "refund_items_admin_all" ON refund_items
+  FOR ALL TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+-- =====================================================
+-- RESTOCKING
+-- =====================================================
+
+-- Restore stock for part of an order.
+-- p_lines: [{"order_item_id": uuid, "quantity": int}, ...]
+CREATE OR REPLACE FUNCTION restore_order_stock(
+  p_order_id uuid,
+  p_lines jsonb
+)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_line record;
+BEGIN
+  FOR v_line IN
+    SELECT oi.product_variant_id, (l->>'quantity')::integer AS quantity
+    FROM jsonb_array_elements(p_lines) l
+    JOIN order_items oi ON oi.id = (l->>'order_item_id')::uuid
+    WHERE oi.order_id = p_order_id
+  LOOP
+    UPDATE product_variants
+    SET stock = stock + v_line.quantity,
+        updated_at = now()
+    WHERE id = v_line.product_variant_id;
+  END LOOP;
+
+  RETURN true;
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN false;
+END;
+$$;
+
+-- Units of an order line already refunded or being refunded
+CREATE OR REPLACE FUNCTION refunded_item_quantity(p_order_item_id uuid)
+RETURNS integer
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT COALESCE(SUM(ri.quantity), 0)::integer
+  FROM refund_items ri
+  JOIN refunds r ON r.id = ri.refund_id
+  WHERE ri.order_item_id = p_order_item_id
+    AND r.kind = 'refund'
+    AND r.status <> 'failed';
+$$;
+
+-- =====================================================
+-- REFUND WORKFLOW
+-- =====================================================
+
+-- Open a refund for some or all of an order's lines (admin only).
+-- The amount is priced from the order lines; the last refund on an order
+-- takes whatever is left of the order total, including shipping.
+-- p_lines: [{"order_item_id": uuid, "quantity": int}, ...]
+CREATE OR REPLACE FUNCTION create_refund(
+  p_order_id uuid,
+  p_lines jsonb,
+  p_reason text DEFAULT NULL,
+  p_restock boolean DEFAULT true,
+  p_method text DEFAULT 'provider'
+)
+RETURNS refunds
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_order orders%ROWTYPE;
+  v_line record;
+  v_refund refunds%ROWTYPE;
+  v_amount decimal(10,2) := 0;
+  v_already_refunded decimal(10,2);
+  v_units_left integer;
+BEGIN
+  PERFORM require_admin();
+
+  IF p_method NOT IN ('provider', 'manual') THEN
+    RAISE EXCEPTION 'Unsupported refund method: %', p_method;
+  END IF;
+
+  IF p_lines IS NULL OR jsonb_array_length(p_lines) = 0 THEN
+    RAISE EXCEPTION 'Select at least one item to refund';
+  END IF;
+
+  SELECT * INTO v_order FROM orders WHERE id = p_order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF v_order.payment_status NOT IN ('paid', 'partially_refunded') THEN
+    RAISE EXCEPTION 'Only paid orders can be refunded';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM refunds WHERE order_id = p_order_id AND status = 'pending') THEN
+    RAISE EXCEPTION 'This order already has a refund in progress';
+  END IF;
+
+  -- Validate the requested lines, merging repeats of the same line
+  FOR v_line IN
+    SELECT oi.id, oi.product_title, oi.quantity AS ordered, oi.unit_price, requested.quantity
+    FROM (
+      SELECT (l->>'order_item_id')::uuid AS order_item_id, SUM((l->>'quantity')::integer) AS quantity
+      FROM jsonb_array_elements(p_lines) l
+      GROUP BY 1
+    ) requested
+    LEFT JOIN order_items oi ON oi.id = requested.order_item_id AND oi.order_id = p_order_id
+  LOOP
+    IF v_line.id IS NULL THEN
+      RAISE EXCEPTION 'Refund lines must belong to this order';
+    END IF;
+
+    IF v_line.quantity IS NULL OR v_line.quantity <= 0 THEN
+      RAISE EXCEPTION 'Refund quantity for % must be positive', v_line.product_title;
+    END IF;
+
+    IF refunded_item_quantity(v_line.id) + v_line.quantity > v_line.ordered THEN
+      RAISE EXCEPTION 'Only % of % can still be refunded',
+        v_line.ordered - refunded_item_quantity(v_line.id), v_line.product_title;
+    END IF;
+
+    v_amount := v_amount + v_line.unit_price * v_line.quantity;
+  END LOOP;
+
+  SELECT COALESCE(SUM(amount), 0) INTO v_already_refunded
+  FROM refunds
+  WHERE order_id = p_order_id AND status <> 'failed';
+
+  SELECT SUM(oi.quantity - refunded_item_quantity(oi.id)) INTO v_units_left
+  FROM order_items oi
+  WHERE oi.order_id = p_order_id;
+
+  v_units_left := v_units_left - (
+    SELECT SUM((l->>'quantity')::integer) FROM jsonb_array_elements(p_lines) l
+  );
+
+  IF v_units_left = 0 THEN
+    v_amount := v_order.total - v_already_refunded;
+  ELSE
+    v_amount := LEAST(v_amount, v_order.total - v_already_refunded);
+  END IF;
+
+  IF v_amount <= 0 THEN
+    RAISE EXCEPTION 'Nothing left to refund on this order';
+  END IF;
+
+  INSERT INTO refunds (
+    order_id,
+    kind,
+    method,
+    status,
+    amount,
+    currency,
+    reason,
+    restock,
+    provider,
+    created_by
+  ) VALUES (
+    p_order_id,
+    'refund',
+    p_method,
+    'pending',
+    v_amount,
+    v_order.currency,
+    NULLIF(trim(p_reason), ''),
+    p_restock,
+    v_order.payment_method,
+    auth.uid()
+  )
+  RETURNING * INTO v_refund;
+
+  INSERT INTO refund_items (refund_id, order_item_id, quantity, amount)
+  SELECT v_refund.id, oi.id, requested.quantity, oi.unit_price * requested.quantity
+  FROM (
+    SELECT (l->>'order_item_id')::uuid AS order_item_id, SUM((l->>'quantity')::integer) AS quantity
+    FROM jsonb_array_elements(p_lines) l
+    GROUP BY 1
+  ) requested
+  JOIN order_items oi ON oi.id = requested.order_item_id;
+
+  RETURN v_refund;
+END;
+$$;
+
+-- Record the provider's answer for a pending refund (admin only). A
+-- successful refund restocks its lines and moves the order's payment status
+-- to partially_refunded or refunded.
+CREATE OR REPLACE FUNCTION complete_refund(
+  p_refund_id uuid,
+  p_succeeded boolean,
+  p_provider_refund_id text DEFAULT NULL,
+  p_error text DEFAULT NULL
+)
+RETURNS refunds
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_refund refunds%ROWTYPE;
+  v_lines jsonb;
+  v_units_left integer;
+BEGIN
+  PERFORM require_admin();
+
+  SELECT * INTO v_refund FROM refunds WHERE id = p_refund_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Refund not found';
+  END IF;
+
+  IF v_refund.status <> 'pending' THEN
+    RAISE EXCEPTION 'Refund has already been completed';
+  END IF;
+
+  IF NOT p_succeeded THEN
+    UPDATE refunds
+    SET status = 'failed',
+        error_message = p_error,
+        completed_at = now()
+    WHERE id = p_refund_id
+    RETURNING * INTO v_refund;
+
+    RETURN v_refund;
+  END IF;
+
+  IF v_refund.restock THEN
+    SELECT jsonb_agg(jsonb_build_object('order_item_id', order_item_id, 'quantity', quantity))
+    INTO v_lines
+    FROM refund_items
+    WHERE refund_id = p_refund_id;
+
+    IF NOT restore_order_stock(v_refund.order_id, COALESCE(v_lines, '[]'::jsonb)) THEN
+      RAISE EXCEPTION 'Could not restore stock for refund %', p_refund_id;
+    END IF;
+  END IF;
+
+  UPDATE refunds
+  SET status = 'succeeded',
+      provider_refund_id = p_provider_refund_id,
+      error_message = NULL,
+      completed_at = now()
+  WHERE id = p_refund_id
+  RETURNING * INTO v_refund;
+
+  SELECT SUM(oi.quantity - refunded_item_quantity(oi.id)) INTO v_units_left
+  FROM order_items oi
+  WHERE oi.order_id = v_refund.order_id;
+
+  UPDATE orders
+  SET payment_status = CASE WHEN v_units_left = 0 THEN 'refunded' ELSE 'partially_refunded' END,
+      status = CASE WHEN v_units_left = 0 THEN 'refunded' ELSE status END,
+      updated_at = now()
+  WHERE id = v_refund.order_id;
+
+  RETURN v_refund;
+END;
+$$;
+
+-- Record a chargeback for whatever has not been refunded yet. Stock is not
+-- restored because the goods were not returned.
+CREATE OR REPLACE FUNCTION record_chargeback(p_order_id uuid, p_reason text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_order orders%ROWTYPE;
+  v_amount decimal(10,2);
+BEGIN
+  SELECT * INTO v_order FROM orders WHERE id = p_order_id FOR UPDATE;
+
+  SELECT v_order.total - COALESCE(SUM(amount), 0) INTO v_amount
+  FROM refunds
+  WHERE order_id = p_order_id AND status = 'succeeded';
+
+  IF v_amount > 0 THEN
+    INSERT INTO refunds (
+      order_id,
+      kind,
+      method,
+      status,
+      amount,
+      currency,
+      reason,
+      restock,
+      provider,
+      completed_at
+    ) VALUES (
+      p_order_id,
+      'chargeback',
+      'provider',
+      'succeeded',
+      v_amount,
+      v_order.currency,
+      p_reason,
+      false,
+      v_order.payment_method,
+      now()
+    );
+  END IF;
+
+  UPDATE orders
+  SET payment_status = 'chargedback',
+      updated_at = now()
+  WHERE id = p_order_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION create_refund(uuid, jsonb, text, boolean, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION complete_refund(uuid, boolean, text, text) TO authenticated;
+REVOKE EXECUTE ON FUNCTION restore_order_stock(uuid, jsonb) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION record_chargeback(uuid, text) FROM PUBLIC, anon, authenticated;
+
+-- =====================================================
+-- CHARGEBACK NOTIFICATIONS
+-- =====================================================
+
+-- Apply a recorded notification to its order. Safe to call more than once
+-- for the same event; returns the outcome and the order's payment status.
+CREATE OR REPLACE FUNCTION apply_payment_event(p_event_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_event payment_events%ROWTYPE;
+  v_order orders%ROWTYPE;
+  v_outcome text;
+  v_detail text;
+BEGIN
+  SELECT * INTO v_event FROM payment_events WHERE id = p_event_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Payment event % not found', p_event_id;
+  END IF;
+
+  IF v_event.outcome <> 'received' THEN
+    RETURN jsonb_build_object(
+      'outcome', v_event.outcome,
+      'detail', v_event.outcome_detail,
+      'payment_status', (SELECT payment_status FROM orders WHERE id = v_event.order_id)
+    );
+  END IF;
+
+  -- Lock the order so notifications for it are applied one at a time
+  SELECT * INTO v_order FROM orders WHERE id = v_event.order_id FOR UPDATE;
+
+  IF NOT v_event.signature_valid THEN
+    v_outcome := 'rejected';
+    v_detail := 'Invalid signature';
+  ELSIF v_order.id IS NULL THEN
+    v_outcome := 'rejected';
+    v_detail := 'Order not found';
+  ELSIF EXISTS (
+    SELECT 1 FROM payment_events
+    WHERE order_id = v_event.order_id
+      AND id <> v_event.id
+      AND outcome IN ('applied', 'ignored')
+      AND provider = v_event.provider
+      AND provider_payment_id IS NOT DISTINCT FROM v_event.provider_payment_id
+      AND status_code IS NOT DISTINCT FROM v_event.status_code
+  ) THEN
+    v_outcome := 'duplicate';
+    v_detail := 'Notification already processed';
+  ELSIF COALESCE(v_order.payment_status, 'pending') = v_event.payment_status THEN
+    v_outcome := 'ignored';
+    v_detail := format('Payment is already %s', v_event.payment_status);
+  ELSIF NOT is_valid_payment_status_transition(v_order.payment_status, v_event.payment_status) THEN
+    v_outcome := 'ignored';
+    v_detail := format('Payment cannot move from %s to %s', v_order.payment_status, v_event.payment_status);
+  ELSE
+    v_outcome := 'applied';
+
+    IF v_event.payment_status = 'paid' AND v_order.payment_status IN ('expired', 'failed') THEN
+      IF NOT revive_expired_order(v_order.id) THEN
+        v_detail := 'Paid after cancellation; stock no longer available, refund required';
+      END IF;
+    ELSIF v_event.payment_status = 'paid' THEN
+      UPDATE orders
+      SET payment_status = 'paid',
+          reserved_until = NULL,
+          updated_at = now()
+      WHERE id = v_order.id;
+    ELSIF v_event.payment_status = 'chargedback' THEN
+      PERFORM record_chargeback(
+        v_order.id,
+        'Chargeback: ' || COALESCE(NULLIF(v_event.status_message, ''), 'disputed by the cardholder')
+      );
+    ELSIF v_event.payment_status = 'failed' THEN
+      -- Give the reserved stock back; fall back to a plain status change if
+      -- the order has already left the pending state
+      IF NOT release_order_reservation(
+        v_order.id,
+        'failed',
+        'Payment ' || COALESCE(NULLIF(v_event.status_message, ''), 'failed')
+      ) THEN
+        UPDATE orders
+        SET payment_status = 'failed',
+            updated_at = now()
+        WHERE id = v_order.id;
+      END IF;
+    ELSE
+      UPDATE orders
+      SET payment_status = v_event.payment_status,
+          updated_at = now()
+      WHERE id = v_order.id;
+    END IF;
+
+    IF v_event.provider_payment_id IS NOT NULL THEN
+      UPDATE orders
+      SET payment_provider_id = v_event.provider_payment_id
+      WHERE id = v_order.id;
+    END IF;
+  END IF;
+
+  UPDATE payment_events
+  SET outcome = v_outcome,
+      outcome_detail = v_detail,
+      processed_at = now()
+  WHERE id = p_event_id;
+
+  RETURN jsonb_build_object(
+    'outcome', v_outcome,
+    'detail', v_detail,
+    'payment_status', (SELECT payment_status FROM orders WHERE id = v_event.order_id)
+  );
+END;
+$$;
@@ -0,0 +1,374 @@
+/*
+  # Payment Provider Registry
+
+  Payment gateways are now pluggable; the edge functions pick one from the
+  order's payment_method:
+  1. store_settings.enabled_payment_methods lists the methods offered at
+     checkout (default payhere, bank, cod); stripe and fake are available
+  2. is_online_payment_method() / is_payment_method_enabled()
+  3. payment_events.provider_event_id for gateways that send event ids
+  4. apply_payment_event() treats a redelivered event id as a duplicate and
+     no longer confuses notifications that have no status code
+  5. create_order_with_stock_management validates against the enabled
+     methods and reserves stock for every online method
+*/
+
+-- =====================================================
+-- PAYMENT METHODS
+-- =====================================================
+
+INSERT INTO store_settings (key, value, description)
+VALUES ('enabled_payment_methods', '["payhere", "bank", "cod"]', 'Payment methods offered at checkout (payhere, stripe, fake, bank, cod)')
+ON CONFLICT (key) DO NOTHING;
+
+-- Methods paid through a gateway at checkout; keep in sync with
+-- supabase/functions/_shared/payments/methods.ts
+CREATE OR REPLACE FUNCTION is_online_payment_method(p_payment_method text)
+RETURNS boolean
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT COALESCE(p_payment_method IN ('payhere', 'stripe', 'fake'), false);
+$$;
+
+-- Falls back to payhere, bank and cod if the setting is missing
+CREATE OR REPLACE FUNCTION is_payment_method_enabled(p_payment_method text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT p_payment_method IS NOT NULL AND COALESCE(
+    (SELECT value ? p_payment_method FROM store_settings WHERE key = 'enabled_payment_methods'),
+    p_payment_method IN ('payhere', 'bank', 'cod')
+  );
+$$;
+
+-- =====================================================
+-- PAYMENT EVENTS
+-- =====================================================
+
+ALTER TABLE payment_events
+ADD COLUMN IF NOT EXISTS provider_event_id text;
+
+CREATE INDEX IF NOT EXISTS idx_payment_events_provider_event ON payment_events(provider, provider_event_id)
+WHERE provider_event_id IS NOT NULL;
+
+-- Apply a recorded notification to its order. Safe to call more than once
+-- for the same event; returns the outcome and the order's payment status.
+CREATE OR REPLACE FUNCTION apply_payment_event(p_event_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_event payment_events%ROWTYPE;
+  v_order orders%ROWTYPE;
+  v_outcome text;
+  v_detail text;
+BEGIN
+  SELECT * INTO v_event FROM payment_events WHERE id = p_event_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Payment event % not found', p_event_id;
+  END IF;
+
+  IF v_event.outcome <> 'received' THEN
+    RETURN jsonb_build_object(
+      'outcome', v_event.outcome,
+      'detail', v_event.outcome_detail,
+      'payment_status', (SELECT payment_status FROM orders WHERE id = v_event.order_id)
+    );
+  END IF;
+
+  -- Lock the order so notifications for it are applied one at a time
+  SELECT * INTO v_order FROM orders WHERE id = v_event.order_id FOR UPDATE;
+
+  IF NOT v_event.signature_valid THEN
+    v_outcome := 'rejected';
+    v_detail := 'Invalid signature';
+  ELSIF v_order.id IS NULL THEN
+    v_outcome := 'rejected';
+    v_detail := 'Order not found';
+  ELSIF EXISTS (
+    SELECT 1 FROM payment_events
+    WHERE order_id = v_event.order_id
+      AND id <> v_event.id
+      AND outcome IN ('applied', 'ignored')
+      AND provider = v_event.provider
+      AND CASE
+        -- Gateways with event ids (Stripe) redeliver the same event
+        WHEN v_event.provider_event_id IS NOT NULL THEN
+          provider_event_id = v_event.provider_event_id
+        ELSE
+          provider_payment_id IS NOT DISTINCT FROM v_event.provider_payment_id
+          AND status_code IS NOT DISTINCT FROM v_event.status_code
+          AND payment_status IS NOT DISTINCT FROM v_event.payment_status
+      END
+  ) THEN
+    v_outcome := 'duplicate';
+    v_detail := 'Notification already processed';
+  ELSIF COALESCE(v_order.payment_status, 'pending') = v_event.payment_status THEN
+    v_outcome := 'ignored';
+    v_detail := format('Payment is already %s', v_event.payment_status);
+  ELSIF NOT is_valid_payment_status_transition(v_order.payment_status, v_event.payment_status) THEN
+    v_outcome := 'ignored';
+    v_detail := format('Payment cannot move from %s to %s', v_order.payment_status, v_event.payment_status);
+  ELSE
+    v_outcome := 'applied';
+
+    IF v_event.payment_status = 'paid' AND v_order.payment_status IN ('expired', 'failed') THEN
+      IF NOT revive_expired_order(v_order.id) THEN
+        v_detail := 'Paid after cancellation; stock no longer available, refund required';
+      END IF;
+    ELSIF v_event.payment_status = 'paid' THEN
+      UPDATE orders
+      SET payment_status = 'paid',
+          reserved_until = NULL,
+          updated_at = now()
+      WHERE id = v_order.id;
+    ELSIF v_event.payment_status = 'chargedback' THEN
+      PERFORM record_chargeback(
+        v_order.id,
+        'Chargeback: ' || COALESCE(NULLIF(v_event.status_message, ''), 'disputed by the cardholder')
+      );
+    ELSIF v_event.payment_status = 'failed' THEN
+      -- Give the reserved stock back; fall back to a plain status change if
+      -- the order has already left the pending state
+      IF NOT release_order_reservation(
+        v_order.id,
+        'failed',
+        'Payment ' || COALESCE(NULLIF(v_event.status_message, ''), 'failed')
+      ) THEN
+        UPDATE orders
+        SET payment_status = 'failed',
+            updated_at = now()
+        WHERE id = v_order.id;
+      END IF;
+    ELSE
+      UPDATE orders
+      SET payment_status = v_event.payment_status,
+          updated_at = now()
+      WHERE id = v_order.id;
+    END IF;
+
+    IF v_event.provider_payment_id IS NOT NULL THEN
+      UPDATE orders
+      SET payment_provider_id = v_event.provider_payment_id
+      WHERE id = v_order.id;
+    END IF;
+  END IF;
+
+  UPDATE payment_events
+  SET outcome = v_outcome,
+      outcome_detail = v_detail,
+      processed_at = now()
+  WHERE id = p_event_id;
+
+  RETURN jsonb_build_object(
+    'outcome', v_outcome,
+    'detail', v_detail,
+    'payment_status', (SELECT payment_status FROM orders WHERE id = v_event.order_id)
+  );
+END;
+$$;
+
+
+-- Only the webhook (service role) applies payment events
+REVOKE EXECUTE ON FUNCTION apply_payment_event(uuid) FROM PUBLIC, anon, authenticated;
+
+-- =====================================================
+-- ORDER CREATION
+-- =====================================================
+
+-- Function to create order with automatic stock management.
+-- p_total and p_shipping_cost are what the shopper was shown; they are only
+-- compared against the server price and never written to the order.
+CREATE OR REPLACE FUNCTION create_order_with_stock_management(
+  p_user_id uuid,
+  p_total decimal,
+  p_currency text,
+  p_payment_method text,
+  p_shipping_method text,
+  p_shipping_cost decimal,
+  p_shipping_address jsonb,
+  p_billing_address jsonb,
+  p_order_items jsonb[], -- Array of {variant_id, quantity}
+  p_discount_code text DEFAULT NULL
+)
+RETURNS TABLE(order_id uuid, success boolean, error_message text, pricing jsonb)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_order_id uuid;
+  v_pricing jsonb;
+  v_total decimal(10,2);
+  v_discount jsonb;
+  v_line jsonb;
+  v_variant_id uuid;
+  v_quantity integer;
+  v_current_stock integer;
+  v_reserved_until timestamptz;
+BEGIN
+  IF NOT is_payment_method_enabled(p_payment_method) THEN
+    RETURN QUERY SELECT NULL::uuid, false, ('Unsupported payment method: ' || p_payment_method)::text, NULL::jsonb;
+    RETURN;
+  END IF;
+
+  -- Serialise redemptions of the same code so usage limits hold
+  IF NULLIF(trim(p_discount_code), '') IS NOT NULL THEN
+    PERFORM 1 FROM discount_codes
+    WHERE code = upper(trim(p_discount_code))
+    FOR UPDATE;
+  END IF;
+
+  -- Recalculate every price from the catalogue
+  BEGIN
+    v_pricing := calculate_order_pricing(p_order_items, p_shipping_method, p_discount_code, p_shipping_address);
+  EXCEPTION
+    WHEN OTHERS THEN
+      RETURN QUERY SELECT NULL::uuid, false, SQLERRM::text, NULL::jsonb;
+      RETURN;
+  END;
+
+  IF v_pricing->>'shipping_error' IS NOT NULL THEN
+    RETURN QUERY SELECT NULL::uuid, false, (v_pricing->>'shipping_error')::text, v_pricing;
+    RETURN;
+  END IF;
+
+  IF v_pricing->>'discount_error' IS NOT NULL THEN
+    RETURN QUERY SELECT NULL::uuid, false, (v_pricing->>'discount_error')::text, v_pricing;
+    RETURN;
+  END IF;
+
+  v_total := (v_pricing->>'total')::decimal;
+  v_discount := v_pricing->'discounts'->0;
+
+  -- Reject the order if the shopper was shown a different price
+  IF p_total IS DISTINCT FROM v_total
+     OR p_shipping_cost IS DISTINCT FROM (v_pricing->>'shipping')::decimal THEN
+    RETURN QUERY SELECT NULL::uuid, false,
+      ('Prices have changed. Order total is now ' || (v_pricing->>'currency') || ' ' || v_total)::text,
+      v_pricing;
+    RETURN;
+  END IF;
+
+  BEGIN
+    -- Validate stock for all items first
+    FOR v_line IN SELECT value FROM jsonb_array_elements(v_pricing->'lines')
+    LOOP
+      v_variant_id := (v_line->>'variant_id')::uuid;
+      v_quantity := (v_line->>'quantity')::integer;
+
+      SELECT stock INTO v_current_stock
+      FROM product_variants
+      WHERE id = v_variant_id
+      FOR UPDATE; -- Lock the row
+
+      IF v_current_stock < v_quantity THEN
+        RETURN QUERY SELECT NULL::uuid, false,
+          ('Insufficient stock for ' || (v_line->>'product_title') ||
+          '. Available: ' || v_current_stock || ', Requested: ' || v_quantity)::text,
+          v_pricing;
+        RETURN;
+      END IF;
+    END LOOP;
+
+    -- Online payments hold their stock only until the window runs out
+    IF is_online_payment_method(p_payment_method) THEN
+      v_reserved_until := now() + make_interval(mins => payment_reservation_minutes());
+    END IF;
+
+    -- Create the order (order_number will be generated by trigger)
+    INSERT INTO orders (
+      user_id,
+      subtotal,
+      discount_amount,
+      discount_code,
+      total,
+      currency,
+      status,
+      payment_status,
+      payment_method,
+      shipping_method,
+      shipping_cost,
+      shipping_zone_id,
+      shipping_address,
+      billing_address,
+      reserved_until
+    )
+    VALUES (
+      p_user_id,
+      (v_pricing->>'subtotal')::decimal,
+      (v_pricing->>'discount_total')::decimal,
+      v_pricing->>'discount_code',
+      v_total,
+      COALESCE(v_pricing->>'currency', p_currency),
+      'pending',
+      'pending',
+      p_payment_method,
+      p_shipping_method,
+      (v_pricing->>'shipping')::decimal,
+      (v_pricing->'shipping_zone'->>'id')::uuid,
+      p_shipping_address,
+      p_billing_address,
+      v_reserved_until
+    )
+    RETURNING id INTO v_order_id;
+
+    -- Record the redemption against the code's usage limits
+    IF v_discount IS NOT NULL THEN
+      INSERT INTO discount_redemptions (discount_code_id, order_id, user_id, amount)
+      VALUES ((v_discount->>'id')::uuid, v_order_id, p_user_id, (v_discount->>'amount')::decimal);
+    END IF;
+
+    -- Create order items from the server-side breakdown and update stock
+    FOR v_line IN SELECT value FROM jsonb_array_elements(v_pricing->'lines')
+    LOOP
+      v_variant_id := (v_line->>'variant_id')::uuid;
+      v_quantity := (v_line->>'quantity')::integer;
+
+      INSERT INTO order_items (
+        order_id,
+        product_variant_id,
+        product_title,
+        variant_info,
+        quantity,
+        unit_price,
+        total_price
+      )
+      VALUES (
+        v_order_id,
+        v_variant_id,
+        v_line->>'product_title',
+        jsonb_build_object(
+          'size', v_line->>'size',
+          'color', v_line->>'color',
+          'sku', v_line->>'sku'
+        ),
+        v_quantity,
+        (v_line->>'unit_price')::decimal,
+        (v_line->>'line_total')::decimal
+      );
+
+      -- Reserve stock for every payment method; abandoned online payments
+      -- give it back through expire_payment_reservations
+      UPDATE product_variants
+      SET stock = stock - v_quantity,
+          updated_at = now()
+      WHERE id = v_variant_id;
+    END LOOP;
+
+    RETURN QUERY SELECT v_order_id, true, 'Order created successfully'::text, v_pricing;
+
+  EXCEPTION
+    WHEN OTHERS THEN
+      -- Rollback happens automatically
+      RETURN QUERY SELECT NULL::uuid, false, ('Order creation failed: ' || SQLERRM)::text, v_pricing;
+  END;
+END;
+$$;
+
+-- Grant permission to authenticated users
+GRANT EXECUTE ON FUNCTION create_order_with_stock_management TO authenticated;
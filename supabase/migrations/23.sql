@@ -0,0 +1,606 @@
+/*
+  # Order Cancellations and Returns
+
+  Customers can cancel orders and request returns from their order page:
+  1. cancel_order() cancels an order that has not shipped, gives its stock
+     back through restore_order_stock and opens a refund for whatever was
+     paid; the cancel-order edge function then pays it out through the gateway
+  2. complete_refund() also accepts the service role and leaves cancelled
+     orders cancelled
+  3. orders.delivered_at, stamped when an order is marked delivered
+  4. return_requests (RMAs) with per-line items, reason codes and photos
+  5. store_settings.return_window_days (14, as on the refund policy page)
+  6. create_return_request() and update_return_status(), which enforces the
+     RMA lifecycle:
+     requested -> approved/rejected/cancelled, approved -> received/cancelled,
+     received -> completed/rejected
+  7. Storage policies for return photos under returns/<user id>/ in kixora
+*/
+
+-- =====================================================
+-- CANCELLATION
+-- =====================================================
+
+-- Cancel an order that has not shipped (owner or admin). Unpaid orders just
+-- give their stock back; paid orders also get a pending refund for the
+-- amount not yet refunded. Returns the order's new state and the refund id.
+CREATE OR REPLACE FUNCTION cancel_order(p_order_id uuid, p_reason text DEFAULT NULL)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_order orders%ROWTYPE;
+  v_reason text;
+  v_lines jsonb;
+  v_amount decimal(10,2);
+  v_refund_id uuid;
+BEGIN
+  SELECT * INTO v_order FROM orders WHERE id = p_order_id FOR UPDATE;
+
+  IF NOT FOUND OR (v_order.user_id IS DISTINCT FROM auth.uid() AND NOT is_admin()) THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF v_order.status NOT IN ('pending', 'confirmed', 'processing') THEN
+    RAISE EXCEPTION 'Only orders that have not shipped can be cancelled';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM refunds WHERE order_id = p_order_id AND status = 'pending') THEN
+    RAISE EXCEPTION 'This order already has a refund in progress';
+  END IF;
+
+  v_reason := COALESCE(NULLIF(trim(p_reason), ''), 'Cancelled by customer');
+
+  IF v_order.payment_status IN ('paid', 'partially_refunded') THEN
+    -- Units not refunded yet; refunded ones were restocked (or not) by their refund
+    SELECT jsonb_agg(jsonb_build_object(
+      'order_item_id', oi.id,
+      'quantity', oi.quantity - refunded_item_quantity(oi.id)
+    ))
+    INTO v_lines
+    FROM order_items oi
+    WHERE oi.order_id = p_order_id
+      AND oi.quantity > refunded_item_quantity(oi.id);
+
+    IF NOT restore_order_stock(p_order_id, COALESCE(v_lines, '[]'::jsonb)) THEN
+      RAISE EXCEPTION 'Could not restore stock for order %', p_order_id;
+    END IF;
+
+    SELECT v_order.total - COALESCE(SUM(amount), 0) INTO v_amount
+    FROM refunds
+    WHERE order_id = p_order_id AND status <> 'failed';
+
+    IF v_amount > 0 THEN
+      -- Stock is already back, so the refund itself must not restock
+      INSERT INTO refunds (
+        order_id,
+        kind,
+        method,
+        status,
+        amount,
+        currency,
+        reason,
+        restock,
+        provider,
+        created_by
+      ) VALUES (
+        p_order_id,
+        'refund',
+        CASE WHEN is_online_payment_method(v_order.payment_method) THEN 'provider' ELSE 'manual' END,
+        'pending',
+        v_amount,
+        v_order.currency,
+        'Order cancelled: ' || v_reason,
+        false,
+        v_order.payment_method,
+        auth.uid()
+      )
+      RETURNING id INTO v_refund_id;
+
+      INSERT INTO refund_items (refund_id, order_item_id, quantity, amount)
+      SELECT v_refund_id, oi.id, (l->>'quantity')::integer, oi.unit_price * (l->>'quantity')::integer
+      FROM jsonb_array_elements(COALESCE(v_lines, '[]'::jsonb)) l
+      JOIN order_items oi ON oi.id = (l->>'order_item_id')::uuid;
+    END IF;
+
+    UPDATE orders
+    SET status = 'cancelled',
+        cancelled_at = now(),
+        cancellation_reason = v_reason,
+        updated_at = now()
+    WHERE id = p_order_id;
+  ELSIF v_order.payment_status = 'pending' THEN
+    IF NOT restore_order_stock(p_order_id) THEN
+      RAISE EXCEPTION 'Could not restore stock for order %', p_order_id;
+    END IF;
+
+    -- An online payment can no longer complete; a late one is treated like
+    -- any other failed payment that arrives afterwards
+    UPDATE orders
+    SET status = 'cancelled',
+        payment_status = CASE WHEN is_online_payment_method(payment_method) THEN 'failed' ELSE 'pending' END,
+        cancelled_at = now(),
+        cancellation_reason = v_reason,
+        reserved_until = NULL,
+        updated_at = now()
+    WHERE id = p_order_id;
+  ELSE
+    RAISE EXCEPTION 'This order cannot be cancelled';
+  END IF;
+
+  RETURN jsonb_build_object(
+    'status', 'cancelled',
+    'payment_status', (SELECT payment_status FROM orders WHERE id = p_order_id),
+    'refund_id', v_refund_id
+  );
+END;
+$$;
+
+-- Record the provider's answer for a pending refund (admin, or the
+-- cancel-order edge function with the service role). A successful refund
+-- restocks its lines and moves the order's payment status to
+-- partially_refunded or refunded; cancelled orders stay cancelled.
+CREATE OR REPLACE FUNCTION complete_refund(
+  p_refund_id uuid,
+  p_succeeded boolean,
+  p_provider_refund_id text DEFAULT NULL,
+  p_error text DEFAULT NULL
+)
+RETURNS refunds
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_refund refunds%ROWTYPE;
+  v_lines jsonb;
+  v_units_left integer;
+BEGIN
+  -- Requests without a JWT come from the service role
+  IF auth.uid() IS NOT NULL THEN
+    PERFORM require_admin();
+  END IF;
+
+  SELECT * INTO v_refund FROM refunds WHERE id = p_refund_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Refund not found';
+  END IF;
+
+  IF v_refund.status <> 'pending' THEN
+    RAISE EXCEPTION 'Refund has already been completed';
+  END IF;
+
+  IF NOT p_succeeded THEN
+    UPDATE refunds
+    SET status = 'failed',
+        error_message = p_error,
+        completed_at = now()
+    WHERE id = p_refund_id
+    RETURNING * INTO v_refund;
+
+    RETURN v_refund;
+  END IF;
+
+  IF v_refund.restock THEN
+    SELECT jsonb_agg(jsonb_build_object('order_item_id', order_item_id, 'quantity', quantity))
+    INTO v_lines
+    FROM refund_items
+    WHERE refund_id = p_refund_id;
+
+    IF NOT restore_order_stock(v_refund.order_id, COALESCE(v_lines, '[]'::jsonb)) THEN
+      RAISE EXCEPTION 'Could not restore stock for refund %', p_refund_id;
+    END IF;
+  END IF;
+
+  UPDATE refunds
+  SET status = 'succeeded',
+      provider_refund_id = p_provider_refund_id,
+      error_message = NULL,
+      completed_at = now()
+  WHERE id = p_refund_id
+  RETURNING * INTO v_refund;
+
+  SELECT SUM(oi.quantity - refunded_item_quantity(oi.id)) INTO v_units_left
+  FROM order_items oi
+  WHERE oi.order_id = v_refund.order_id;
+
+  UPDATE orders
+  SET payment_status = CASE WHEN v_units_left = 0 THEN 'refunded' ELSE 'partially_refunded' END,
+      status = CASE WHEN v_units_left = 0 AND status <> 'cancelled' THEN 'refunded' ELSE status END,
+      updated_at = now()
+  WHERE id = v_refund.order_id;
+
+  RETURN v_refund;
+END;
+$$;
+
+-- =====================================================
+-- DELIVERY DATE
+-- =====================================================
+
+ALTER TABLE orders
+ADD COLUMN IF NOT EXISTS delivered_at timestamptz;
+
+-- Best guess for orders delivered before the column existed
+UPDATE orders
+SET delivered_at = updated_at
+WHERE status = 'delivered' AND delivered_at IS NULL;
+
+CREATE OR REPLACE FUNCTION stamp_order_delivered_at()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.status = 'delivered' AND OLD.status IS DISTINCT FROM 'delivered' THEN
+    NEW.delivered_at := now();
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS stamp_orders_delivered_at ON orders;
+CREATE TRIGGER stamp_orders_delivered_at
+  BEFORE UPDATE OF status ON orders
+  FOR EACH ROW EXECUTE FUNCTION stamp_order_delivered_at();
+
+-- =====================================================
+-- RETURN REQUESTS
+-- =====================================================
+
+INSERT INTO store_settings (key, value, description)
+VALUES ('return_window_days', '14', 'Days after delivery a customer can request a return or exchange')
+ON CONFLICT (key) DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS return_requests (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  rma_number text UNIQUE NOT NULL,
+  order_id uuid NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  user_id uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  type text NOT NULL DEFAULT 'return' CHECK (type IN ('return', 'exchange')),
+  status text NOT NULL DEFAULT 'requested'
+    CHECK (status IN ('requested', 'approved', 'rejected', 'received', 'completed', 'cancelled')),
+  customer_note text,
+  admin_note text,
+  refund_id uuid REFERENCES refunds(id) ON DELETE SET NULL,
+  resolved_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS return_request_items (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  return_request_id uuid NOT NULL REFERENCES return_requests(id) ON DELETE CASCADE,
+  order_item_id uuid NOT NULL REFERENCES order_items(id) ON DELETE CASCADE,
+  quantity integer NOT NULL CHECK (quantity > 0),
+  reason_code text NOT NULL
+    CHECK (reason_code IN ('wrong_size', 'defective', 'not_as_described', 'wrong_item', 'changed_mind', 'other')),
+  -- Size/colour wanted instead, for exchanges
+  exchange_variant_id uuid REFERENCES product_variants(id) ON DELETE SET NULL,
+  note text,
+  UNIQUE(return_request_id, order_item_id)
+);
+
+CREATE TABLE IF NOT EXISTS return_request_photos (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  return_request_id uuid NOT NULL REFERENCES return_requests(id) ON DELETE CASCADE,
+  file_path text NOT NULL,
+  file_name text,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_return_requests_order ON return_requests(order_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_return_requests_status ON return_requests(status, created_at);
+CREATE INDEX IF NOT EXISTS idx_return_request_items_order_item ON return_request_items(order_item_id);
+
+-- RMA numbers: RMA-YYYYMMDD-XXX, like order numbers
+CREATE OR REPLACE FUNCTION generate_rma_number()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_count integer;
+BEGIN
+  SELECT COUNT(*) + 1 INTO v_count
+  FROM return_requests
+  WHERE DATE(created_at) = CURRENT_DATE;
+
+  NEW.rma_number := 'RMA-' || TO_CHAR(CURRENT_DATE, 'YYYYMMDD') || '-' || LPAD(v_count::text, 3, '0');
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER generate_rma_number_trigger
+  BEFORE INSERT ON return_requests
+  FOR EACH ROW EXECUTE FUNCTION generate_rma_number();
+
+CREATE TRIGGER update_return_requests_updated_at
+  BEFORE UPDATE ON return_requests
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER audit_return_requests_changes
+  AFTER INSERT OR UPDATE OR DELETE ON return_requests
+  FOR EACH ROW EXECUTE FUNCTION log_audit_changes();
+
+ALTER TABLE return_requests ENABLE ROW LEVEL SECURITY;
+ALTER TABLE return_request_items ENABLE ROW LEVEL SECURITY;
+ALTER TABLE return_request_photos ENABLE ROW LEVEL SECURITY;
+
+-- Requests are created and moved through their lifecycle by the functions
+-- below; customers only read theirs and attach photos
+CREATE POLICY "return_requests_own_read" ON return_requests
+  FOR SELECT TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "return_requests_admin_all" ON return_requests
+  FOR ALL TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+CREATE POLICY "return_request_items_own_read" ON return_request_items
+  FOR SELECT TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM return_requests
+    WHERE return_requests.id = return_request_items.return_request_id
+      AND return_requests.user_id = auth.uid()
+  ));
+
+CREATE POLICY "return_request_items_admin_all" ON return_request_items
+  FOR ALL TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+CREATE POLICY "return_request_photos_own_read" ON return_request_photos
+  FOR SELECT TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM return_requests
+    WHERE return_requests.id = return_request_photos.return_request_id
+      AND return_requests.user_id = auth.uid()
+  ));
+
+CREATE POLICY "return_request_photos_own_insert" ON return_request_photos
+  FOR INSERT TO authenticated
+  WITH CHECK (
+    file_path LIKE 'returns/' || auth.uid()::text || '/%'
+    AND EXISTS (
+      SELECT 1 FROM return_requests
+      WHERE return_requests.id = return_request_photos.return_request_id
+        AND return_requests.user_id = auth.uid()
+        AND return_requests.status = 'requested'
+    )
+  );
+
+CREATE POLICY "return_request_photos_admin_all" ON return_request_photos
+  FOR ALL TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+-- Customers upload return photos to returns/<their user id>/ in the kixora bucket
+DO $$
+BEGIN
+  DROP POLICY IF EXISTS "kixora_return_photos_own_insert" ON storage.objects;
+  DROP POLICY IF EXISTS "kixora_return_photos_own_read" ON storage.objects;
+EXCEPTION
+  WHEN undefined_object THEN NULL;
+END $$;
+
+CREATE POLICY "kixora_return_photos_own_insert" ON storage.objects
+  FOR INSERT TO authenticated
+  WITH CHECK (
+    bucket_id = 'kixora'
+    AND (storage.foldername(name))[1] = 'returns'
+    AND (storage.foldername(name))[2] = auth.uid()::text
+  );
+
+CREATE POLICY "kixora_return_photos_own_read" ON storage.objects
+  FOR SELECT TO authenticated
+  USING (
+    bucket_id = 'kixora'
+    AND (storage.foldername(name))[1] = 'returns'
+    AND (storage.foldername(name))[2] = auth.uid()::text
+  );
+
+-- =====================================================
+-- RMA LIFECYCLE
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION is_valid_return_status_transition(p_from text, p_to text)
+RETURNS boolean
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT (p_from, p_to) IN (
+    VALUES
+      ('requested', 'approved'),
+      ('requested', 'rejected'),
+      ('requested', 'cancelled'),
+      ('approved', 'received'),
+      ('approved', 'cancelled'),
+      ('received', 'completed'),
+      ('received', 'rejected')
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION return_window_days()
+RETURNS integer
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT COALESCE((SELECT (value #>> '{}')::integer FROM store_settings WHERE key = 'return_window_days'), 14);
+$$;
+
+-- Open a return or exchange for some of a delivered order's lines (owner only).
+-- p_items: [{"order_item_id": uuid, "quantity": int, "reason_code": text,
+--            "exchange_variant_id": uuid|null, "note": text|null}, ...]
+CREATE OR REPLACE FUNCTION create_return_request(
+  p_order_id uuid,
+  p_type text,
+  p_items jsonb,
+  p_note text DEFAULT NULL
+)
+RETURNS return_requests
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_order orders%ROWTYPE;
+  v_line record;
+  v_request return_requests%ROWTYPE;
+  v_open_quantity integer;
+BEGIN
+  SELECT * INTO v_order FROM orders WHERE id = p_order_id FOR UPDATE;
+
+  IF NOT FOUND OR v_order.user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF p_type NOT IN ('return', 'exchange') THEN
+    RAISE EXCEPTION 'Unsupported request type: %', p_type;
+  END IF;
+
+  IF v_order.status <> 'delivered' THEN
+    RAISE EXCEPTION 'Returns can only be requested for delivered orders';
+  END IF;
+
+  IF COALESCE(v_order.delivered_at, v_order.updated_at) + make_interval(days => return_window_days()) < now() THEN
+    RAISE EXCEPTION 'The % day return window for this order has closed', return_window_days();
+  END IF;
+
+  IF p_items IS NULL OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Select at least one item to return';
+  END IF;
+
+  FOR v_line IN
+    SELECT
+      oi.id,
+      oi.product_title,
+      oi.quantity AS ordered,
+      oi.product_variant_id,
+      (l->>'quantity')::integer AS quantity,
+      l->>'reason_code' AS reason_code,
+      NULLIF(l->>'exchange_variant_id', '')::uuid AS exchange_variant_id
+    FROM jsonb_array_elements(p_items) l
+    LEFT JOIN order_items oi ON oi.id = (l->>'order_item_id')::uuid AND oi.order_id = p_order_id
+  LOOP
+    IF v_line.id IS NULL THEN
+      RAISE EXCEPTION 'Returned items must belong to this order';
+    END IF;
+
+    IF v_line.quantity IS NULL OR v_line.quantity <= 0 THEN
+      RAISE EXCEPTION 'Return quantity for % must be positive', v_line.product_title;
+    END IF;
+
+    -- Units already refunded or in another open request can't be returned again
+    SELECT COALESCE(SUM(rri.quantity), 0) INTO v_open_quantity
+    FROM return_request_items rri
+    JOIN return_requests rr ON rr.id = rri.return_request_id
+    WHERE rri.order_item_id = v_line.id
+      AND rr.status IN ('requested', 'approved', 'received');
+
+    IF refunded_item_quantity(v_line.id) + v_open_quantity + v_line.quantity > v_line.ordered THEN
+      RAISE EXCEPTION 'Only % of % can still be returned',
+        v_line.ordered - refunded_item_quantity(v_line.id) - v_open_quantity, v_line.product_title;
+    END IF;
+
+    IF p_type = 'exchange' AND v_line.exchange_variant_id IS NULL THEN
+      RAISE EXCEPTION 'Choose the size you want instead of %', v_line.product_title;
+    END IF;
+
+    IF v_line.exchange_variant_id IS NOT NULL AND NOT EXISTS (
+      SELECT 1 FROM product_variants pv
+      JOIN product_variants ordered_variant ON ordered_variant.id = v_line.product_variant_id
+      WHERE pv.id = v_line.exchange_variant_id
+        AND pv.product_id = ordered_variant.product_id
+        AND pv.is_active
+    ) THEN
+      RAISE EXCEPTION 'Exchanges must be for another size or colour of %', v_line.product_title;
+    END IF;
+  END LOOP;
+
+  INSERT INTO return_requests (order_id, user_id, type, customer_note)
+  VALUES (p_order_id, auth.uid(), p_type, NULLIF(trim(p_note), ''))
+  RETURNING * INTO v_request;
+
+  -- The reason_code CHECK rejects unknown reasons
+  INSERT INTO return_request_items (
+    return_request_id,
+    order_item_id,
+    quantity,
+    reason_code,
+    exchange_variant_id,
+    note
+  )
+  SELECT
+    v_request.id,
+    (l->>'order_item_id')::uuid,
+    (l->>'quantity')::integer,
+    l->>'reason_code',
+    CASE WHEN p_type = 'exchange' THEN NULLIF(l->>'exchange_variant_id', '')::uuid END,
+    NULLIF(trim(l->>'note'), '')
+  FROM jsonb_array_elements(p_items) l;
+
+  RETURN v_request;
+END;
+$$;
+
+-- Move a return request through its lifecycle. Admins make every change;
+-- customers can only cancel their own request before it is received.
+-- p_refund_id links the refund issued when a return is completed.
+CREATE OR REPLACE FUNCTION update_return_status(
+  p_return_id uuid,
+  p_status text,
+  p_admin_note text DEFAULT NULL,
+  p_refund_id uuid DEFAULT NULL
+)
+RETURNS return_requests
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_request return_requests%ROWTYPE;
+BEGIN
+  SELECT * INTO v_request FROM return_requests WHERE id = p_return_id FOR UPDATE;
+
+  IF NOT FOUND OR (v_request.user_id IS DISTINCT FROM auth.uid() AND NOT is_admin()) THEN
+    RAISE EXCEPTION 'Return request not found';
+  END IF;
+
+  IF NOT is_admin() AND p_status <> 'cancelled' THEN
+    RAISE EXCEPTION 'Access denied: Admin privileges required'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF NOT is_valid_return_status_transition(v_request.status, p_status) THEN
+    RAISE EXCEPTION 'Return request cannot move from % to %', v_request.status, p_status;
+  END IF;
+
+  IF p_refund_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM refunds WHERE id = p_refund_id AND order_id = v_request.order_id
+  ) THEN
+    RAISE EXCEPTION 'Refund does not belong to this order';
+  END IF;
+
+  UPDATE return_requests
+  SET status = p_status,
+      admin_note = CASE WHEN is_admin() THEN COALESCE(NULLIF(trim(p_admin_note), ''), admin_note) ELSE admin_note END,
+      refund_id = COALESCE(p_refund_id, refund_id),
+      resolved_at = CASE WHEN p_status IN ('rejected', 'completed', 'cancelled') THEN now() ELSE NULL END
+  WHERE id = p_return_id
+  RETURNING * INTO v_request;
+
+  RETURN v_request;
+END;
+$$;
+
+-- =====================================================
+-- PERMISSIONS
+-- =====================================================
+
+GRANT EXECUTE ON FUNCTION cancel_order(uuid, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION create_return_request(uuid, text, jsonb, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION update_return_status(uuid, text, text, uuid) TO authenticated;
+-- complete_refund trusts calls without a JWT, so anon must not reach it
+REVOKE EXECUTE ON FUNCTION complete_refund(uuid, boolean, text, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION complete_refund(uuid, boolean, text, text) TO authenticated;
@@ -0,0 +1,430 @@
+/*
+  # Sales Analytics
+
+  Admin reporting is aggregated in the database instead of summing every
+  order in the browser:
+  1. store_date() buckets timestamps by the store's calendar day (Asia/Colombo)
+  2. is_paid_payment_status(): orders whose payment was collected, including
+     ones later refunded or charged back (refunds are reported separately)
+  3. sales_summary(): revenue, orders, AOV, units, refunds, cancellation and
+     refund rates and new vs returning customers for a date range
+  4. sales_timeseries(): the same figures by day, week or month
+  5. sales_breakdown(): sales by category, collection, size, colour,
+     payment method or shipping method
+  6. product_sales_ranking(): top sellers and slowest-moving products
+  7. customer_cohorts(): repeat purchases by month of first order
+
+  Date ranges are inclusive store dates; NULL means unbounded. All functions
+  are admin only.
+*/
+
+-- =====================================================
+-- HELPERS
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION store_date(p_at timestamptz)
+RETURNS date
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT (p_at AT TIME ZONE 'Asia/Colombo')::date;
+$$;
+
+CREATE OR REPLACE FUNCTION is_paid_payment_status(p_status text)
+RETURNS boolean
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT COALESCE(p_status IN ('paid', 'partially_refunded', 'refunded', 'chargedback'), false);
+$$;
+
+CREATE INDEX IF NOT EXISTS idx_orders_store_date ON orders (store_date(created_at));
+CREATE INDEX IF NOT EXISTS idx_refunds_completed ON refunds (completed_at) WHERE status = 'succeeded';
+
+-- =====================================================
+-- SUMMARY AND TIME SERIES
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION sales_summary(p_from date DEFAULT NULL, p_to date DEFAULT NULL)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_from date := COALESCE(p_from, '-infinity'::date);
+  v_to date := COALESCE(p_to, 'infinity'::date);
+  v_result jsonb;
+BEGIN
+  PERFORM require_admin();
+
+  WITH placed AS (
+    SELECT o.id, o.user_id, o.total, o.status, o.payment_status, o.created_at
+    FROM orders o
+    WHERE store_date(o.created_at) BETWEEN v_from AND v_to
+  ),
+  paid AS (
+    SELECT * FROM placed WHERE is_paid_payment_status(payment_status)
+  ),
+  first_orders AS (
+    SELECT o.user_id, MIN(o.created_at) AS first_at
+    FROM orders o
+    WHERE is_paid_payment_status(o.payment_status) AND o.user_id IS NOT NULL
+    GROUP BY o.user_id
+  ),
+  customers AS (
+    SELECT DISTINCT paid.user_id, store_date(f.first_at) BETWEEN v_from AND v_to AS is_new
+    FROM paid
+    JOIN first_orders f ON f.user_id = paid.user_id
+  )
+  SELECT jsonb_build_object(
+    'revenue', COALESCE((SELECT SUM(total) FROM paid), 0),
+    'order_count', (SELECT COUNT(*) FROM paid),
+    'unit_count', COALESCE((
+      SELECT SUM(oi.quantity) FROM order_items oi JOIN paid ON paid.id = oi.order_id
+    ), 0),
+    'average_order_value', COALESCE((SELECT ROUND(AVG(total), 2) FROM paid), 0),
+    'refunded', COALESCE((
+      SELECT SUM(r.amount) FROM refunds r
+      WHERE r.status = 'succeeded' AND store_date(r.completed_at) BETWEEN v_from AND v_to
+    ), 0),
+    'placed_orders', (SELECT COUNT(*) FROM placed),
+    'cancelled_orders', (SELECT COUNT(*) FROM placed WHERE status = 'cancelled'),
+    'refunded_orders', (
+      SELECT COUNT(*) FROM paid
+      WHERE EXISTS (SELECT 1 FROM refunds r WHERE r.order_id = paid.id AND r.status = 'succeeded')
+    ),
+    'new_customers', (SELECT COUNT(*) FROM customers WHERE is_new),
+    'returning_customers', (SELECT COUNT(*) FROM customers WHERE NOT is_new)
+  )
+  INTO v_result;
+
+  RETURN v_result || jsonb_build_object(
+    'net_revenue', (v_result->>'revenue')::numeric - (v_result->>'refunded')::numeric,
+    'cancellation_rate', CASE WHEN (v_result->>'placed_orders')::integer > 0
+      THEN ROUND((v_result->>'cancelled_orders')::numeric / (v_result->>'placed_orders')::numeric, 4)
+      ELSE 0 END,
+    'refund_rate', CASE WHEN (v_result->>'order_count')::integer > 0
+      THEN ROUND((v_result->>'refunded_orders')::numeric / (v_result->>'order_count')::numeric, 4)
+      ELSE 0 END
+  );
+END;
+$$;
+
+-- Paid orders by day, week or month, with empty periods filled in. Refunds
+-- fall in the period they were paid out.
+CREATE OR REPLACE FUNCTION sales_timeseries(
+  p_from date,
+  p_to date,
+  p_interval text DEFAULT 'day'
+)
+RETURNS TABLE(
+  period date,
+  order_count bigint,
+  unit_count bigint,
+  revenue numeric,
+  refunded numeric,
+  net_revenue numeric,
+  average_order_value numeric,
+  new_customers bigint,
+  returning_customers bigint
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+#variable_conflict use_column
+BEGIN
+  PERFORM require_admin();
+
+  IF p_interval NOT IN ('day', 'week', 'month') THEN
+    RAISE EXCEPTION 'Unsupported interval: %', p_interval;
+  END IF;
+
+  IF p_from IS NULL OR p_to IS NULL OR p_from > p_to THEN
+    RAISE EXCEPTION 'A valid date range is required';
+  END IF;
+
+  RETURN QUERY
+  WITH periods AS (
+    SELECT generate_series(
+      date_trunc(p_interval, p_from::timestamp),
+      date_trunc(p_interval, p_to::timestamp),
+      ('1 ' || p_interval)::interval
+    )::date AS period
+  ),
+  first_orders AS (
+    SELECT o.user_id, MIN(o.created_at) AS first_at
+    FROM orders o
+    WHERE is_paid_payment_status(o.payment_status) AND o.user_id IS NOT NULL
+    GROUP BY o.user_id
+  ),
+  paid AS (
+    SELECT
+      o.id,
+      o.total,
+      o.user_id,
+      date_trunc(p_interval, store_date(o.created_at)::timestamp)::date AS period,
+      o.created_at = f.first_at AS is_first
+    FROM orders o
+    LEFT JOIN first_orders f ON f.user_id = o.user_id
+    WHERE is_paid_payment_status(o.payment_status)
+      AND store_date(o.created_at) BETWEEN p_from AND p_to
+  ),
+  order_stats AS (
+    SELECT
+      paid.period,
+      COUNT(*) AS order_count,
+      SUM(paid.total) AS revenue,
+      COUNT(DISTINCT paid.user_id) FILTER (WHERE paid.is_first) AS new_customers,
+      COUNT(DISTINCT paid.user_id) AS customers
+    FROM paid
+    GROUP BY paid.period
+  ),
+  unit_stats AS (
+    SELECT paid.period, SUM(oi.quantity) AS unit_count
+    FROM paid
+    JOIN order_items oi ON oi.order_id = paid.id
+    GROUP BY paid.period
+  ),
+  refund_stats AS (
+    SELECT
+      date_trunc(p_interval, store_date(r.completed_at)::timestamp)::date AS period,
+      SUM(r.amount) AS refunded
+    FROM refunds r
+    WHERE r.status = 'succeeded'
+      AND store_date(r.completed_at) BETWEEN p_from AND p_to
+    GROUP BY 1
+  )
+  SELECT
+    periods.period,
+    COALESCE(os.order_count, 0),
+    COALESCE(us.unit_count, 0)::bigint,
+    COALESCE(os.revenue, 0),
+    COALESCE(rs.refunded, 0),
+    COALESCE(os.revenue, 0) - COALESCE(rs.refunded, 0),
+    CASE WHEN os.order_count > 0 THEN ROUND(os.revenue / os.order_count, 2) ELSE 0 END,
+    COALESCE(os.new_customers, 0),
+    COALESCE(os.customers - os.new_customers, 0)
+  FROM periods
+  LEFT JOIN order_stats os ON os.period = periods.period
+  LEFT JOIN unit_stats us ON us.period = periods.period
+  LEFT JOIN refund_stats rs ON rs.period = periods.period
+  ORDER BY periods.period;
+END;
+$$;
+
+-- =====================================================
+-- BREAKDOWNS
+-- =====================================================
+
+-- Paid sales grouped by one dimension. Product dimensions use line totals
+-- before order discounts; a product in several collections counts in each.
+CREATE OR REPLACE FUNCTION sales_breakdown(
+  p_from date,
+  p_to date,
+  p_dimension text
+)
+RETURNS TABLE(label text, order_count bigint, unit_count bigint, revenue numeric)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_from date := COALESCE(p_from, '-infinity'::date);
+  v_to date := COALESCE(p_to, 'infinity'::date);
+BEGIN
+  PERFORM require_admin();
+
+  IF p_dimension IN ('payment_method', 'shipping_method') THEN
+    RETURN QUERY
+    SELECT
+      COALESCE(CASE WHEN p_dimension = 'payment_method' THEN o.payment_method ELSE o.shipping_method END, 'unknown'),
+      COUNT(*),
+      COALESCE(SUM((SELECT SUM(oi.quantity) FROM order_items oi WHERE oi.order_id = o.id)), 0)::bigint,
+      SUM(o.total)
+    FROM orders o
+    WHERE is_paid_payment_status(o.payment_status)
+      AND store_date(o.created_at) BETWEEN v_from AND v_to
+    GROUP BY 1
+    ORDER BY 4 DESC;
+  ELSIF p_dimension IN ('category', 'collection', 'size', 'color') THEN
+    RETURN QUERY
+    WITH lines AS (
+      SELECT oi.order_id, oi.quantity, oi.total_price, oi.variant_info, p.id AS product_id, c.name AS category
+      FROM order_items oi
+      JOIN orders o ON o.id = oi.order_id
+      LEFT JOIN product_variants pv ON pv.id = oi.product_variant_id
+      LEFT JOIN products p ON p.id = pv.product_id
+      LEFT JOIN categories c ON c.id = p.category_id
+      WHERE is_paid_payment_status(o.payment_status)
+        AND store_date(o.created_at) BETWEEN v_from AND v_to
+    ),
+    labelled AS (
+      SELECT lines.*, COALESCE(col.name, 'No collection') AS label
+      FROM lines
+      LEFT JOIN collection_products cp ON cp.product_id = lines.product_id
+      LEFT JOIN collections col ON col.id = cp.collection_id
+      WHERE p_dimension = 'collection'
+      UNION ALL
+      SELECT lines.*, COALESCE(
+        CASE p_dimension
+          WHEN 'category' THEN lines.category
+          WHEN 'size' THEN NULLIF(lines.variant_info->>'size', '')
+          ELSE NULLIF(lines.variant_info->>'color', '')
+        END,
+        'Unspecified'
+      )
+      FROM lines
+      WHERE p_dimension <> 'collection'
+    )
+    SELECT
+      labelled.label,
+      COUNT(DISTINCT labelled.order_id),
+      SUM(labelled.quantity)::bigint,
+      SUM(labelled.total_price)
+    FROM labelled
+    GROUP BY labelled.label
+    ORDER BY 4 DESC;
+  ELSE
+    RAISE EXCEPTION 'Unsupported breakdown: %', p_dimension;
+  END IF;
+END;
+$$;
+
+-- Best sellers ('top') or active products that sell least ('slowest'),
+-- with current stock so slow movers can be spotted
+CREATE OR REPLACE FUNCTION product_sales_ranking(
+  p_from date,
+  p_to date,
+  p_order text DEFAULT 'top',
+  p_limit integer DEFAULT 10
+)
+RETURNS TABLE(
+  product_id uuid,
+  title text,
+  unit_count bigint,
+  revenue numeric,
+  stock bigint,
+  last_sold_at timestamptz
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_from date := COALESCE(p_from, '-infinity'::date);
+  v_to date := COALESCE(p_to, 'infinity'::date);
+BEGIN
+  PERFORM require_admin();
+
+  IF p_order NOT IN ('top', 'slowest') THEN
+    RAISE EXCEPTION 'Unsupported ranking: %', p_order;
+  END IF;
+
+  RETURN QUERY
+  WITH sales AS (
+    SELECT pv.product_id, SUM(oi.quantity) AS unit_count, SUM(oi.total_price) AS revenue
+    FROM order_items oi
+    JOIN orders o ON o.id = oi.order_id
+    JOIN product_variants pv ON pv.id = oi.product_variant_id
+    WHERE is_paid_payment_status(o.payment_status)
+      AND store_date(o.created_at) BETWEEN v_from AND v_to
+    GROUP BY pv.product_id
+  ),
+  last_sales AS (
+    SELECT pv.product_id, MAX(o.created_at) AS last_sold_at
+    FROM order_items oi
+    JOIN orders o ON o.id = oi.order_id
+    JOIN product_variants pv ON pv.id = oi.product_variant_id
+    WHERE is_paid_payment_status(o.payment_status)
+    GROUP BY pv.product_id
+  ),
+  stock AS (
+    SELECT pv.product_id, SUM(pv.stock) AS stock
+    FROM product_variants pv
+    WHERE pv.is_active
+    GROUP BY pv.product_id
+  )
+  SELECT
+    p.id,
+    p.title,
+    COALESCE(s.unit_count, 0)::bigint,
+    COALESCE(s.revenue, 0),
+    COALESCE(st.stock, 0)::bigint,
+    ls.last_sold_at
+  FROM products p
+  LEFT JOIN sales s ON s.product_id = p.id
+  LEFT JOIN last_sales ls ON ls.product_id = p.id
+  LEFT JOIN stock st ON st.product_id = p.id
+  WHERE p.deleted_at IS NULL
+    AND (p_order = 'top' AND s.unit_count > 0 OR p_order = 'slowest' AND p.is_active)
+  ORDER BY
+    CASE WHEN p_order = 'top' THEN -COALESCE(s.unit_count, 0) ELSE COALESCE(s.unit_count, 0) END,
+    CASE WHEN p_order = 'top' THEN -COALESCE(s.revenue, 0) ELSE -COALESCE(st.stock, 0) END
+  LIMIT GREATEST(p_limit, 1);
+END;
+$$;
+
+-- =====================================================
+-- COHORTS
+-- =====================================================
+
+-- Customers grouped by the month of their first paid order (within the
+-- range), counting how many bought again N months later
+CREATE OR REPLACE FUNCTION customer_cohorts(p_from date, p_to date)
+RETURNS TABLE(cohort date, months_since integer, customers bigint)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_from date := COALESCE(p_from, '-infinity'::date);
+  v_to date := COALESCE(p_to, 'infinity'::date);
+BEGIN
+  PERFORM require_admin();
+
+  RETURN QUERY
+  WITH activity AS (
+    SELECT DISTINCT o.user_id, date_trunc('month', store_date(o.created_at)::timestamp)::date AS month
+    FROM orders o
+    WHERE is_paid_payment_status(o.payment_status)
+      AND o.user_id IS NOT NULL
+      AND store_date(o.created_at) <= v_to
+  ),
+  cohorts AS (
+    SELECT activity.user_id, MIN(activity.month) AS cohort
+    FROM activity
+    GROUP BY activity.user_id
+  )
+  SELECT
+    c.cohort,
+    ((EXTRACT(YEAR FROM a.month) - EXTRACT(YEAR FROM c.cohort)) * 12
+      + EXTRACT(MONTH FROM a.month) - EXTRACT(MONTH FROM c.cohort))::integer,
+    COUNT(*)
+  FROM cohorts c
+  JOIN activity a ON a.user_id = c.user_id
+  WHERE c.cohort BETWEEN date_trunc('month', v_from::timestamp)::date AND v_to
+  GROUP BY 1, 2
+  ORDER BY 1, 2;
+END;
+$$;
+
+-- =====================================================
+-- PERMISSIONS
+-- =====================================================
+
+REVOKE EXECUTE ON FUNCTION sales_summary(date, date) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION sales_timeseries(date, date, text) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION sales_breakdown(date, date, text) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION product_sales_ranking(date, date, text, integer) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION customer_cohorts(date, date) FROM PUBLIC, anon;
+
+GRANT EXECUTE ON FUNCTION sales_summary(date, date) TO authenticated;
+GRANT EXECUTE ON FUNCTION sales_timeseries(date, date, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION sales_breakdown(date, date, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION product_sales_ranking(date, date, text, integer) TO authenticated;
+GRANT EXECUTE ON FUNCTION customer_cohorts(date, date) TO authenticated;
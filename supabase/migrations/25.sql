@@ -0,0 +1,698 @@
+/*
+  # Inventory Console and Stock Ledger
+
+  Stock can now be managed per variant outside the product form:
+  1. stock_movements: append-only ledger of every stock change, written by a
+     trigger on product_variants. Functions that move stock say why through
+     set_stock_movement_context(); anything else (the product form) is logged
+     as a manual edit
+  2. decrement_variant_stock, restore_order_stock, revive_expired_order and
+     create_order_with_stock_management record their movements against the
+     order
+  3. product_variants.low_stock_threshold overrides the store-wide
+     low_stock_threshold setting (5)
+  4. adjust_variant_stock(): bulk adjustments with a reason (received,
+     damaged, recount)
+  5. inventory_overview(): stock, units reserved by pending orders, 30-day
+     sales and sell-through per variant
+  6. low_stock_variants(): variants at or below their threshold, emailed to
+     admins by the low-stock-digest edge function (schedule it once a day)
+*/
+
+-- =====================================================
+-- STOCK LEDGER
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS stock_movements (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  variant_id uuid NOT NULL REFERENCES product_variants(id) ON DELETE CASCADE,
+  change integer NOT NULL,
+  stock_after integer NOT NULL,
+  reason text NOT NULL
+    CHECK (reason IN ('initial', 'order', 'order_restock', 'received', 'damaged', 'recount', 'manual')),
+  order_id uuid REFERENCES orders(id) ON DELETE SET NULL,
+  note text,
+  created_by uuid REFERENCES profiles(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_stock_movements_variant ON stock_movements(variant_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_stock_movements_order ON stock_movements(order_id) WHERE order_id IS NOT NULL;
+
+ALTER TABLE stock_movements ENABLE ROW LEVEL SECURITY;
+
+-- Written only by the trigger below; nobody edits or deletes history
+CREATE POLICY "stock_movements_admin_read" ON stock_movements
+  FOR SELECT TO authenticated
+  USING (is_admin());
+
+-- Deleting an order or profile still clears the references to it
+CREATE OR REPLACE FUNCTION prevent_stock_movement_update()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF (NEW.variant_id, NEW.change, NEW.stock_after, NEW.reason, NEW.note, NEW.created_at)
+     IS DISTINCT FROM (OLD.variant_id, OLD.change, OLD.stock_after, OLD.reason, OLD.note, OLD.created_at) THEN
+    RAISE EXCEPTION 'Stock movements are append-only';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER prevent_stock_movements_update
+  BEFORE UPDATE ON stock_movements
+  FOR EACH ROW EXECUTE FUNCTION prevent_stock_movement_update();
+
+-- Tell the ledger why the next stock changes in this transaction happen.
+-- Lasts until the transaction ends or the context is set again.
+CREATE OR REPLACE FUNCTION set_stock_movement_context(
+  p_reason text,
+  p_order_id uuid DEFAULT NULL,
+  p_note text DEFAULT NULL
+)
+RETURNS void
+LANGUAGE sql
+AS $$
+  SELECT
+    set_config('kixora.stock_reason', p_reason, true),
+    set_config('kixora.stock_order_id', COALESCE(p_order_id::text, ''), true),
+    set_config('kixora.stock_note', COALESCE(p_note, ''), true);
+$$;
+
+CREATE OR REPLACE FUNCTION record_stock_movement()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_change integer := COALESCE(NEW.stock, 0) - CASE WHEN TG_OP = 'INSERT' THEN 0 ELSE COALESCE(OLD.stock, 0) END;
+BEGIN
+  IF v_change = 0 THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO stock_movements (variant_id, change, stock_after, reason, order_id, note)
+  VALUES (
+    NEW.id,
+    v_change,
+    COALESCE(NEW.stock, 0),
+    CASE
+      WHEN TG_OP = 'INSERT' THEN 'initial'
+      ELSE COALESCE(NULLIF(current_setting('kixora.stock_reason', true), ''), 'manual')
+    END,
+    NULLIF(current_setting('kixora.stock_order_id', true), '')::uuid,
+    NULLIF(current_setting('kixora.stock_note', true), '')
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER record_product_variant_stock_movement
+  AFTER INSERT OR UPDATE OF stock ON product_variants
+  FOR EACH ROW EXECUTE FUNCTION record_stock_movement();
+
+-- Opening balance so the ledger adds up to today's stock
+INSERT INTO stock_movements (variant_id, change, stock_after, reason, note, created_by)
+SELECT id, COALESCE(stock, 0), COALESCE(stock, 0), 'initial', 'Opening balance', NULL
+FROM product_variants
+WHERE NOT EXISTS (SELECT 1 FROM stock_movements sm WHERE sm.variant_id = product_variants.id);
+
+-- =====================================================
+-- STOCK MOVERS
+-- =====================================================
+
+-- Function to safely decrement product variant stock
+CREATE OR REPLACE FUNCTION decrement_variant_stock(
+  variant_id uuid,
+  quantity integer
+)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  current_stock integer;
+BEGIN
+  -- Get current stock with row lock to prevent race conditions
+  SELECT stock INTO current_stock
+  FROM product_variants
+  WHERE id = variant_id AND is_active = true
+  FOR UPDATE;
+
+  -- Check if variant exists and is active
+  IF current_stock IS NULL THEN
+    RAISE EXCEPTION 'Product variant not found or inactive: %', variant_id;
+  END IF;
+
+  -- Check if sufficient stock available
+  IF current_stock < quantity THEN
+    RAISE EXCEPTION 'Insufficient stock. Available: %, Requested: %', current_stock, quantity;
+  END IF;
+
+  -- Update stock
+  PERFORM set_stock_movement_context('order');
+
+  UPDATE product_variants
+  SET
+    stock = stock - quantity,
+    updated_at = now()
+  WHERE id = variant_id;
+
+  RETURN true;
+
+EXCEPTION
+  WHEN OTHERS THEN
+    RAISE EXCEPTION 'Failed to update stock for variant %: %', variant_id, SQLERRM;
+END;
+$$;
+
+-- Function to restore stock (for cancelled orders)
+CREATE OR REPLACE FUNCTION restore_order_stock(
+  p_order_id uuid
+)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_item record;
+BEGIN
+  PERFORM set_stock_movement_context('order_restock', p_order_id);
+
+  -- Get all order items and restore their stock
+  FOR v_item IN
+    SELECT product_variant_id, quantity
+    FROM order_items
+    WHERE order_id = p_order_id
+  LOOP
+    UPDATE product_variants
+    SET stock = stock + v_item.quantity,
+        updated_at = now()
+    WHERE id = v_item.product_variant_id;
+  END LOOP;
+
+  RETURN true;
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN false;
+END;
+$$;
+
+-- Restore stock for part of an order.
+-- p_lines: [{"order_item_id": uuid, "quantity": int}, ...]
+CREATE OR REPLACE FUNCTION restore_order_stock(
+  p_order_id uuid,
+  p_lines jsonb
+)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_line record;
+BEGIN
+  PERFORM set_stock_movement_context('order_restock', p_order_id);
+
+  FOR v_line IN
+    SELECT oi.product_variant_id, (l->>'quantity')::integer AS quantity
+    FROM jsonb_array_elements(p_lines) l
+    JOIN order_items oi ON oi.id = (l->>'order_item_id')::uuid
+    WHERE oi.order_id = p_order_id
+  LOOP
+    UPDATE product_variants
+    SET stock = stock + v_line.quantity,
+        updated_at = now()
+    WHERE id = v_line.product_variant_id;
+  END LOOP;
+
+  RETURN true;
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN false;
+END;
+$$;
+
+-- A payment that lands after its reservation expired takes the stock again
+-- if it is still there; otherwise the order stays cancelled and is flagged
+-- for a refund.
+CREATE OR REPLACE FUNCTION revive_expired_order(p_order_id uuid)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_item record;
+BEGIN
+  PERFORM 1 FROM orders
+  WHERE id = p_order_id AND payment_status = 'expired'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  PERFORM set_stock_movement_context('order', p_order_id);
+
+  BEGIN
+    FOR v_item IN
+      SELECT product_variant_id, quantity FROM order_items WHERE order_id = p_order_id
+    LOOP
+      UPDATE product_variants
+      SET stock = stock - v_item.quantity,
+          updated_at = now()
+      WHERE id = v_item.product_variant_id
+        AND stock >= v_item.quantity;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Insufficient stock';
+      END IF;
+    END LOOP;
+  EXCEPTION
+    WHEN OTHERS THEN
+      UPDATE orders
+      SET payment_status = 'paid',
+          cancellation_reason = 'Paid after the reservation expired and stock is no longer available. Refund required.',
+          updated_at = now()
+      WHERE id = p_order_id;
+      RETURN false;
+  END;
+
+  UPDATE orders
+  SET status = 'pending',
+      payment_status = 'paid',
+      cancelled_at = NULL,
+      cancellation_reason = NULL,
+      updated_at = now()
+  WHERE id = p_order_id;
+
+  RETURN true;
+END;
+$$;
+
+-- Function to create order with automatic stock management.
+-- p_total and p_shipping_cost are what the shopper was shown; they are only
+-- compared against the server price and never written to the order.
+CREATE OR REPLACE FUNCTION create_order_with_stock_management(
+  p_user_id uuid,
+  p_total decimal,
+  p_currency text,
+  p_payment_method text,
+  p_shipping_method text,
+  p_shipping_cost decimal,
+  p_shipping_address jsonb,
+  p_billing_address jsonb,
+  p_order_items jsonb[], -- Array of {variant_id, quantity}
+  p_discount_code text DEFAULT NULL
+)
+RETURNS TABLE(order_id uuid, success boolean, error_message text, pricing jsonb)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_order_id uuid;
+  v_pricing jsonb;
+  v_total decimal(10,2);
+  v_discount jsonb;
+  v_line jsonb;
+  v_variant_id uuid;
+  v_quantity integer;
+  v_current_stock integer;
+  v_reserved_until timestamptz;
+BEGIN
+  IF NOT is_payment_method_enabled(p_payment_method) THEN
+    RETURN QUERY SELECT NULL::uuid, false, ('Unsupported payment method: ' || p_payment_method)::text, NULL::jsonb;
+    RETURN;
+  END IF;
+
+  -- Serialise redemptions of the same code so usage limits hold
+  IF NULLIF(trim(p_discount_code), '') IS NOT NULL THEN
+    PERFORM 1 FROM discount_codes
+    WHERE code = upper(trim(p_discount_code))
+    FOR UPDATE;
+  END IF;
+
+  -- Recalculate every price from the catalogue
+  BEGIN
+    v_pricing := calculate_order_pricing(p_order_items, p_shipping_method, p_discount_code, p_shipping_address);
+  EXCEPTION
+    WHEN OTHERS THEN
+      RETURN QUERY SELECT NULL::uuid, false, SQLERRM::text, NULL::jsonb;
+      RETURN;
+  END;
+
+  IF v_pricing->>'shipping_error' IS NOT NULL THEN
+    RETURN QUERY SELECT NULL::uuid, false, (v_pricing->>'shipping_error')::text, v_pricing;
+    RETURN;
+  END IF;
+
+  IF v_pricing->>'discount_error' IS NOT NULL THEN
+    RETURN QUERY SELECT NULL::uuid, false, (v_pricing->>'discount_error')::text, v_pricing;
+    RETURN;
+  END IF;
+
+  v_total := (v_pricing->>'total')::decimal;
+  v_discount := v_pricing->'discounts'->0;
+
+  -- Reject the order if the shopper was shown a different price
+  IF p_total IS DISTINCT FROM v_total
+     OR p_shipping_cost IS DISTINCT FROM (v_pricing->>'shipping')::decimal THEN
+    RETURN QUERY SELECT NULL::uuid, false,
+      ('Prices have changed. Order total is now ' || (v_pricing->>'currency') || ' ' || v_total)::text,
+      v_pricing;
+    RETURN;
+  END IF;
+
+  BEGIN
+    -- Validate stock for all items first
+    FOR v_line IN SELECT value FROM jsonb_array_elements(v_pricing->'lines')
+    LOOP
+      v_variant_id := (v_line->>'variant_id')::uuid;
+      v_quantity := (v_line->>'quantity')::integer;
+
+      SELECT stock INTO v_current_stock
+      FROM product_variants
+      WHERE id = v_variant_id
+      FOR UPDATE; -- Lock the row
+
+      IF v_current_stock < v_quantity THEN
+        RETURN QUERY SELECT NULL::uuid, false,
+          ('Insufficient stock for ' || (v_line->>'product_title') ||
+          '. Available: ' || v_current_stock || ', Requested: ' || v_quantity)::text,
+          v_pricing;
+        RETURN;
+      END IF;
+    END LOOP;
+
+    -- Online payments hold their stock only until the window runs out
+    IF is_online_payment_method(p_payment_method) THEN
+      v_reserved_until := now() + make_interval(mins => payment_reservation_minutes());
+    END IF;
+
+    -- Create the order (order_number will be generated by trigger)
+    INSERT INTO orders (
+      user_id,
+      subtotal,
+      discount_amount,
+      discount_code,
+      total,
+      currency,
+      status,
+      payment_status,
+      payment_method,
+      shipping_method,
+      shipping_cost,
+      shipping_zone_id,
+      shipping_address,
+      billing_address,
+      reserved_until
+    )
+    VALUES (
+      p_user_id,
+      (v_pricing->>'subtotal')::decimal,
+      (v_pricing->>'discount_total')::decimal,
+      v_pricing->>'discount_code',
+      v_total,
+      COALESCE(v_pricing->>'currency', p_currency),
+      'pending',
+      'pending',
+      p_payment_method,
+      p_shipping_method,
+      (v_pricing->>'shipping')::decimal,
+      (v_pricing->'shipping_zone'->>'id')::uuid,
+      p_shipping_address,
+      p_billing_address,
+      v_reserved_until
+    )
+    RETURNING id INTO v_order_id;
+
+    -- Record the redemption against the code's usage limits
+    IF v_discount IS NOT NULL THEN
+      INSERT INTO discount_redemptions (discount_code_id, order_id, user_id, amount)
+      VALUES ((v_discount->>'id')::uuid, v_order_id, p_user_id, (v_discount->>'amount')::decimal);
+    END IF;
+
+    PERFORM set_stock_movement_context('order', v_order_id);
+
+    -- Create order items from the server-side breakdown and update stock
+    FOR v_line IN SELECT value FROM jsonb_array_elements(v_pricing->'lines')
+    LOOP
+      v_variant_id := (v_line->>'variant_id')::uuid;
+      v_quantity := (v_line->>'quantity')::integer;
+
+      INSERT INTO order_items (
+        order_id,
+        product_variant_id,
+        product_title,
+        variant_info,
+        quantity,
+        unit_price,
+        total_price
+      )
+      VALUES (
+        v_order_id,
+        v_variant_id,
+        v_line->>'product_title',
+        jsonb_build_object(
+          'size', v_line->>'size',
+          'color', v_line->>'color',
+          'sku', v_line->>'sku'
+        ),
+        v_quantity,
+        (v_line->>'unit_price')::decimal,
+        (v_line->>'line_total')::decimal
+      );
+
+      -- Reserve stock for every payment method; abandoned online payments
+      -- give it back through expire_payment_reservations
+      UPDATE product_variants
+      SET stock = stock - v_quantity,
+          updated_at = now()
+      WHERE id = v_variant_id;
+    END LOOP;
+
+    RETURN QUERY SELECT v_order_id, true, 'Order created successfully'::text, v_pricing;
+
+  EXCEPTION
+    WHEN OTHERS THEN
+      -- Rollback happens automatically
+      RETURN QUERY SELECT NULL::uuid, false, ('Order creation failed: ' || SQLERRM)::text, v_pricing;
+  END;
+END;
+$$;
+
+-- =====================================================
+-- THRESHOLDS AND ADJUSTMENTS
+-- =====================================================
+
+ALTER TABLE product_variants
+ADD COLUMN IF NOT EXISTS low_stock_threshold integer CHECK (low_stock_threshold >= 0);
+
+INSERT INTO store_settings (key, value, description)
+VALUES ('low_stock_threshold', '5', 'Default units at or below which a variant counts as low on stock')
+ON CONFLICT (key) DO NOTHING;
+
+CREATE OR REPLACE FUNCTION default_low_stock_threshold()
+RETURNS integer
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT COALESCE((SELECT (value #>> '{}')::integer FROM store_settings WHERE key = 'low_stock_threshold'), 5);
+$$;
+
+-- Adjust stock for several variants at once (admin only).
+-- p_adjustments: [{"variant_id": uuid, "change": int}, ...] for received and
+-- damaged stock, or [{"variant_id": uuid, "stock": int}, ...] for a recount.
+CREATE OR REPLACE FUNCTION adjust_variant_stock(
+  p_adjustments jsonb,
+  p_reason text,
+  p_note text DEFAULT NULL
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_adjustment jsonb;
+  v_variant product_variants%ROWTYPE;
+  v_new_stock integer;
+  v_count integer := 0;
+BEGIN
+  PERFORM require_admin();
+
+  IF p_reason NOT IN ('received', 'damaged', 'recount') THEN
+    RAISE EXCEPTION 'Stock adjustments need a reason: received, damaged or recount';
+  END IF;
+
+  IF p_adjustments IS NULL OR jsonb_array_length(p_adjustments) = 0 THEN
+    RAISE EXCEPTION 'No stock adjustments given';
+  END IF;
+
+  PERFORM set_stock_movement_context(p_reason, NULL, NULLIF(trim(p_note), ''));
+
+  FOR v_adjustment IN SELECT value FROM jsonb_array_elements(p_adjustments)
+  LOOP
+    SELECT * INTO v_variant
+    FROM product_variants
+    WHERE id = (v_adjustment->>'variant_id')::uuid
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Product variant not found: %', v_adjustment->>'variant_id';
+    END IF;
+
+    IF p_reason = 'recount' THEN
+      v_new_stock := (v_adjustment->>'stock')::integer;
+    ELSIF p_reason = 'damaged' THEN
+      v_new_stock := v_variant.stock - abs((v_adjustment->>'change')::integer);
+    ELSE
+      v_new_stock := v_variant.stock + abs((v_adjustment->>'change')::integer);
+    END IF;
+
+    IF v_new_stock IS NULL OR v_new_stock < 0 THEN
+      RAISE EXCEPTION 'Stock for % cannot go below zero', v_variant.sku;
+    END IF;
+
+    UPDATE product_variants
+    SET stock = v_new_stock,
+        updated_at = now()
+    WHERE id = v_variant.id;
+
+    v_count := v_count + 1;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$;
+
+-- =====================================================
+-- REPORTING
+-- =====================================================
+
+-- Every variant with its stock position (admin only). Reserved units are
+-- held by pending orders and already taken out of stock.
+CREATE OR REPLACE FUNCTION inventory_overview()
+RETURNS TABLE(
+  variant_id uuid,
+  product_id uuid,
+  product_title text,
+  sku text,
+  size text,
+  color text,
+  is_active boolean,
+  stock integer,
+  reserved integer,
+  sold_30d integer,
+  sell_through_30d numeric,
+  low_stock_threshold integer,
+  threshold_override integer,
+  is_low boolean
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+#variable_conflict use_column
+BEGIN
+  PERFORM require_admin();
+
+  RETURN QUERY
+  WITH reserved AS (
+    SELECT oi.product_variant_id, SUM(oi.quantity)::integer AS units
+    FROM order_items oi
+    JOIN orders o ON o.id = oi.order_id
+    WHERE o.status = 'pending'
+    GROUP BY oi.product_variant_id
+  ),
+  sold AS (
+    SELECT oi.product_variant_id, SUM(oi.quantity)::integer AS units
+    FROM order_items oi
+    JOIN orders o ON o.id = oi.order_id
+    WHERE is_paid_payment_status(o.payment_status)
+      AND o.created_at >= now() - interval '30 days'
+    GROUP BY oi.product_variant_id
+  )
+  SELECT
+    pv.id,
+    p.id,
+    p.title,
+    pv.sku,
+    pv.size,
+    pv.color,
+    pv.is_active AND p.is_active,
+    COALESCE(pv.stock, 0),
+    COALESCE(r.units, 0),
+    COALESCE(s.units, 0),
+    CASE WHEN COALESCE(s.units, 0) + COALESCE(pv.stock, 0) > 0
+      THEN ROUND(COALESCE(s.units, 0)::numeric / (COALESCE(s.units, 0) + COALESCE(pv.stock, 0)), 4)
+      ELSE 0 END,
+    COALESCE(pv.low_stock_threshold, default_low_stock_threshold()),
+    pv.low_stock_threshold,
+    COALESCE(pv.stock, 0) <= COALESCE(pv.low_stock_threshold, default_low_stock_threshold())
+  FROM product_variants pv
+  JOIN products p ON p.id = pv.product_id
+  LEFT JOIN reserved r ON r.product_variant_id = pv.id
+  LEFT JOIN sold s ON s.product_variant_id = pv.id
+  WHERE p.deleted_at IS NULL
+  ORDER BY p.title, pv.size, pv.color;
+END;
+$$;
+
+-- Active variants at or below their threshold, emptiest first. Used by the
+-- low-stock-digest edge function, which calls it with the service role.
+CREATE OR REPLACE FUNCTION low_stock_variants()
+RETURNS TABLE(
+  variant_id uuid,
+  product_title text,
+  sku text,
+  size text,
+  color text,
+  stock integer,
+  low_stock_threshold integer
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+#variable_conflict use_column
+BEGIN
+  -- Requests without a JWT come from the service role
+  IF auth.uid() IS NOT NULL THEN
+    PERFORM require_admin();
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    pv.id,
+    p.title,
+    pv.sku,
+    pv.size,
+    pv.color,
+    COALESCE(pv.stock, 0),
+    COALESCE(pv.low_stock_threshold, default_low_stock_threshold())
+  FROM product_variants pv
+  JOIN products p ON p.id = pv.product_id
+  WHERE p.deleted_at IS NULL
+    AND p.is_active
+    AND pv.is_active
+    AND COALESCE(pv.stock, 0) <= COALESCE(pv.low_stock_threshold, default_low_stock_threshold())
+  ORDER BY COALESCE(pv.stock, 0), p.title;
+END;
+$$;
+
+-- =====================================================
+-- PERMISSIONS
+-- =====================================================
+
+GRANT EXECUTE ON FUNCTION create_order_with_stock_management TO authenticated;
+GRANT EXECUTE ON FUNCTION decrement_variant_stock(uuid, integer) TO authenticated;
+REVOKE EXECUTE ON FUNCTION set_stock_movement_context(text, uuid, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION adjust_variant_stock(jsonb, text, text) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION inventory_overview() FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION low_stock_variants() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION adjust_variant_stock(jsonb, text, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION inventory_overview() TO authenticated;
+GRANT EXECUTE ON FUNCTION low_stock_variants() TO authenticated;
@@ -0,0 +1,235 @@
+/*
+  # Back-in-Stock Notifications
+
+  Shoppers can ask to be told when a sold-out size or colour returns:
+  1. stock_notifications: one row per shopper and variant, keyed by email so
+     guests can subscribe too. A row is waiting until it has been emailed
+     (notified_at) or cancelled (unsubscribed_at)
+  2. request_stock_notification(): subscribe the signed-in user or a guest
+     email to an out-of-stock variant
+  3. unsubscribe_stock_notifications(): one-click unsubscribe from the link
+     in the email; cancels every alert still waiting for that address
+  4. due_stock_notifications(): waiting alerts whose variant is back in
+     stock, sent by the back-in-stock-notify edge function. The admin
+     screens call it after stock edits; schedule it every few minutes to
+     pick up order restocks too
+  5. stock_notification_demand(): waiting and sent alerts per variant for
+     the inventory console
+*/
+
+-- =====================================================
+-- SUBSCRIPTIONS
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS stock_notifications (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  variant_id uuid NOT NULL REFERENCES product_variants(id) ON DELETE CASCADE,
+  user_id uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  email text NOT NULL,
+  unsubscribe_token text UNIQUE NOT NULL DEFAULT encode(gen_random_bytes(32), 'hex'),
+  notified_at timestamptz,
+  unsubscribed_at timestamptz,
+  created_at timestamptz DEFAULT now()
+);
+
+-- One waiting alert per address and variant
+CREATE UNIQUE INDEX IF NOT EXISTS idx_stock_notifications_waiting
+  ON stock_notifications(variant_id, lower(email))
+  WHERE notified_at IS NULL AND unsubscribed_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_stock_notifications_email ON stock_notifications(lower(email));
+CREATE INDEX IF NOT EXISTS idx_stock_notifications_user ON stock_notifications(user_id) WHERE user_id IS NOT NULL;
+
+ALTER TABLE stock_notifications ENABLE ROW LEVEL SECURITY;
+
+-- Subscriptions are created and cancelled through the functions below
+CREATE POLICY "stock_notifications_own_read" ON stock_notifications
+  FOR SELECT TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "stock_notifications_admin_all" ON stock_notifications
+  FOR ALL TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+-- Signed-in shoppers subscribe with their account email; guests give one
+CREATE OR REPLACE FUNCTION request_stock_notification(
+  p_variant_id uuid,
+  p_email text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_email text;
+  v_stock integer;
+BEGIN
+  IF auth.uid() IS NOT NULL THEN
+    SELECT email INTO v_email FROM profiles WHERE id = auth.uid();
+  END IF;
+
+  v_email := lower(trim(COALESCE(v_email, p_email, '')));
+
+  IF v_email !~ '^[^@\s]+@[^@\s]+\.[^@\s]+$' THEN
+    RAISE EXCEPTION 'A valid email address is required';
+  END IF;
+
+  SELECT COALESCE(pv.stock, 0) INTO v_stock
+  FROM product_variants pv
+  JOIN products p ON p.id = pv.product_id
+  WHERE pv.id = p_variant_id
+    AND pv.is_active
+    AND p.is_active
+    AND p.deleted_at IS NULL;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Product variant not found';
+  END IF;
+
+  IF v_stock > 0 THEN
+    RAISE EXCEPTION 'This item is in stock';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM stock_notifications
+    WHERE variant_id = p_variant_id
+      AND lower(email) = v_email
+      AND notified_at IS NULL
+      AND unsubscribed_at IS NULL
+  ) THEN
+    RETURN jsonb_build_object('action', 'already_subscribed', 'email', v_email);
+  END IF;
+
+  INSERT INTO stock_notifications (variant_id, user_id, email)
+  VALUES (p_variant_id, auth.uid(), v_email);
+
+  RETURN jsonb_build_object('action', 'subscribed', 'email', v_email);
+END;
+$$;
+
+-- The token identifies the address; cancelling one alert cancels them all so
+-- a single click stops every back-in-stock email
+CREATE OR REPLACE FUNCTION unsubscribe_stock_notifications(p_token text)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_email text;
+  v_count integer;
+BEGIN
+  SELECT lower(email) INTO v_email
+  FROM stock_notifications
+  WHERE unsubscribe_token = p_token;
+
+  IF v_email IS NULL THEN
+    RAISE EXCEPTION 'Unsubscribe link is invalid';
+  END IF;
+
+  UPDATE stock_notifications
+  SET unsubscribed_at = now()
+  WHERE lower(email) = v_email
+    AND notified_at IS NULL
+    AND unsubscribed_at IS NULL;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+
+  RETURN jsonb_build_object('email', v_email, 'cancelled', v_count);
+END;
+$$;
+
+-- =====================================================
+-- SENDING
+-- =====================================================
+
+-- Waiting alerts whose variant can be bought again, oldest first
+CREATE OR REPLACE FUNCTION due_stock_notifications(p_limit integer DEFAULT 100)
+RETURNS TABLE(
+  id uuid,
+  email text,
+  unsubscribe_token text,
+  variant_id uuid,
+  product_title text,
+  product_slug text,
+  size text,
+  color text,
+  price numeric,
+  stock integer
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+#variable_conflict use_column
+BEGIN
+  -- Requests without a JWT come from the service role
+  IF auth.uid() IS NOT NULL THEN
+    PERFORM require_admin();
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    sn.id,
+    sn.email,
+    sn.unsubscribe_token,
+    pv.id,
+    p.title,
+    COALESCE(p.slug, p.id::text),
+    pv.size,
+    pv.color,
+    COALESCE(pv.price_override, p.price),
+    COALESCE(pv.stock, 0)
+  FROM stock_notifications sn
+  JOIN product_variants pv ON pv.id = sn.variant_id
+  JOIN products p ON p.id = pv.product_id
+  WHERE sn.notified_at IS NULL
+    AND sn.unsubscribed_at IS NULL
+    AND COALESCE(pv.stock, 0) > 0
+    AND pv.is_active
+    AND p.is_active
+    AND p.deleted_at IS NULL
+  ORDER BY sn.created_at
+  LIMIT p_limit;
+END;
+$$;
+
+-- =====================================================
+-- DEMAND
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION stock_notification_demand()
+RETURNS TABLE(
+  variant_id uuid,
+  waiting integer,
+  notified integer,
+  last_requested_at timestamptz
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+#variable_conflict use_column
+BEGIN
+  PERFORM require_admin();
+
+  RETURN QUERY
+  SELECT
+    sn.variant_id,
+    (COUNT(*) FILTER (WHERE sn.notified_at IS NULL AND sn.unsubscribed_at IS NULL))::integer,
+    (COUNT(*) FILTER (WHERE sn.notified_at IS NOT NULL))::integer,
+    MAX(sn.created_at)
+  FROM stock_notifications sn
+  GROUP BY sn.variant_id;
+END;
+$$;
+
+-- =====================================================
+-- PERMISSIONS
+-- =====================================================
+
+REVOKE EXECUTE ON FUNCTION due_stock_notifications(integer) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION stock_notification_demand() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION request_stock_notification(uuid, text) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION unsubscribe_stock_notifications(text) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION due_stock_notifications(integer) TO authenticated;
+GRANT EXECUTE ON FUNCTION stock_notification_demand() TO authenticated;
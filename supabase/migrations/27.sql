@@ -0,0 +1,296 @@
+/*
+  # Product CSV Import
+
+  Products and their variants can be created and updated in bulk from a CSV
+  the admin screen parses into one JSON object per product:
+  1. import_products(p_products, p_dry_run): upserts products by SKU and
+     variants by variant SKU in one transaction. Every product is checked
+     first; when any check fails, or on a dry run, nothing is written and the
+     errors come back keyed by CSV row
+  2. Categories and brands are resolved by slug
+  3. A non-empty image list replaces the product's images in order. Storage
+     paths must exist in the kixora bucket; the paths no longer used are
+     returned so the caller can delete the files
+  4. Stock changes are logged in the stock ledger as manual edits noted
+     "CSV import"
+
+  Blank product cells keep the current value on update. Variant cells
+  describe the whole variant, so a blank size, colour or price override
+  clears it; blank stock and active flags are kept.
+*/
+
+CREATE OR REPLACE FUNCTION import_products(
+  p_products jsonb,
+  p_dry_run boolean DEFAULT true
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_product jsonb;
+  v_variant jsonb;
+  v_image jsonb;
+  v_row integer;
+  v_existing products%ROWTYPE;
+  v_product_id uuid;
+  v_category_id uuid;
+  v_brand_id uuid;
+  v_owner_id uuid;
+  v_slug text;
+  v_errors jsonb := '[]'::jsonb;
+  v_removed_images text[] := '{}';
+  v_products_created integer := 0;
+  v_products_updated integer := 0;
+  v_variants_created integer := 0;
+  v_variants_updated integer := 0;
+BEGIN
+  PERFORM require_admin();
+
+  IF p_products IS NULL OR jsonb_typeof(p_products) <> 'array' OR jsonb_array_length(p_products) = 0 THEN
+    RAISE EXCEPTION 'Nothing to import';
+  END IF;
+
+  -- =====================================================
+  -- VALIDATE
+  -- =====================================================
+
+  -- The same SKU twice in one file is ambiguous
+  FOR v_row, v_product IN
+    SELECT (p->>'row')::integer, p
+    FROM jsonb_array_elements(p_products) p
+    WHERE p->>'sku' IN (
+      SELECT x->>'sku' FROM jsonb_array_elements(p_products) x
+      GROUP BY x->>'sku' HAVING COUNT(*) > 1
+    )
+  LOOP
+    v_errors := v_errors || jsonb_build_object('row', v_row, 'field', 'product_sku',
+      'message', format('Product SKU "%s" appears in more than one product block', v_product->>'sku'));
+  END LOOP;
+
+  FOR v_row, v_variant IN
+    SELECT (v->>'row')::integer, v
+    FROM jsonb_array_elements(p_products) p,
+      jsonb_array_elements(p->'variants') v
+    WHERE v->>'sku' IN (
+      SELECT y->>'sku'
+      FROM jsonb_array_elements(p_products) x, jsonb_array_elements(x->'variants') y
+      GROUP BY y->>'sku' HAVING COUNT(*) > 1
+    )
+  LOOP
+    v_errors := v_errors || jsonb_build_object('row', v_row, 'field', 'variant_sku',
+      'message', format('Variant SKU "%s" appears more than once', v_variant->>'sku'));
+  END LOOP;
+
+  FOR v_product IN SELECT value FROM jsonb_array_elements(p_products)
+  LOOP
+    v_row := (v_product->>'row')::integer;
+
+    SELECT * INTO v_existing FROM products WHERE sku = v_product->>'sku';
+
+    IF FOUND AND v_existing.deleted_at IS NOT NULL THEN
+      v_errors := v_errors || jsonb_build_object('row', v_row, 'field', 'product_sku',
+        'message', format('Product SKU "%s" belongs to a deleted product; restore it first', v_product->>'sku'));
+    END IF;
+
+    IF v_existing.id IS NULL THEN
+      v_products_created := v_products_created + 1;
+    ELSE
+      v_products_updated := v_products_updated + 1;
+    END IF;
+
+    IF v_existing.id IS NULL AND (NULLIF(v_product->>'title', '') IS NULL OR NULLIF(v_product->>'price', '') IS NULL) THEN
+      v_errors := v_errors || jsonb_build_object('row', v_row, 'field', 'title',
+        'message', 'New products need a title and a price');
+    END IF;
+
+    IF NULLIF(v_product->>'category_slug', '') IS NOT NULL
+      AND NOT EXISTS (SELECT 1 FROM categories WHERE slug = v_product->>'category_slug') THEN
+      v_errors := v_errors || jsonb_build_object('row', v_row, 'field', 'category',
+        'message', format('Unknown category "%s"', v_product->>'category_slug'));
+    END IF;
+
+    IF NULLIF(v_product->>'brand_slug', '') IS NOT NULL
+      AND NOT EXISTS (SELECT 1 FROM brands WHERE slug = v_product->>'brand_slug') THEN
+      v_errors := v_errors || jsonb_build_object('row', v_row, 'field', 'brand',
+        'message', format('Unknown brand "%s"', v_product->>'brand_slug'));
+    END IF;
+
+    -- New products without a slug get one from the title
+    v_slug := COALESCE(
+      NULLIF(v_product->>'slug', ''),
+      CASE WHEN v_existing.id IS NULL
+        THEN trim(BOTH '-' FROM regexp_replace(lower(v_product->>'title'), '[^a-z0-9]+', '-', 'g'))
+      END
+    );
+
+    IF v_slug IS NOT NULL AND EXISTS (
+      SELECT 1 FROM products
+      WHERE slug = v_slug
+        AND id IS DISTINCT FROM v_existing.id
+    ) THEN
+      v_errors := v_errors || jsonb_build_object('row', v_row, 'field', 'slug',
+        'message', format('Slug "%s" is already used by another product', v_slug));
+    END IF;
+
+    IF v_existing.id IS NULL AND jsonb_array_length(COALESCE(v_product->'variants', '[]'::jsonb)) = 0 THEN
+      v_errors := v_errors || jsonb_build_object('row', v_row, 'field', 'variant_sku',
+        'message', 'New products need at least one variant');
+    END IF;
+
+    -- Outside URLs are copied into storage by the caller on commit
+    FOR v_image IN SELECT value FROM jsonb_array_elements(COALESCE(v_product->'images', '[]'::jsonb))
+    LOOP
+      IF v_image->>'storage_path' !~* '^https?://' AND NOT EXISTS (
+        SELECT 1 FROM storage.objects
+        WHERE bucket_id = 'kixora' AND name = v_image->>'storage_path'
+      ) THEN
+        v_errors := v_errors || jsonb_build_object('row', v_row, 'field', 'images',
+          'message', format('Image "%s" was not found in storage', v_image->>'storage_path'));
+      END IF;
+    END LOOP;
+
+    FOR v_variant IN SELECT value FROM jsonb_array_elements(COALESCE(v_product->'variants', '[]'::jsonb))
+    LOOP
+      SELECT product_id INTO v_owner_id FROM product_variants WHERE sku = v_variant->>'sku';
+
+      IF NOT FOUND THEN
+        v_variants_created := v_variants_created + 1;
+      ELSIF v_owner_id IS DISTINCT FROM v_existing.id THEN
+        v_errors := v_errors || jsonb_build_object('row', (v_variant->>'row')::integer, 'field', 'variant_sku',
+          'message', format('Variant SKU "%s" belongs to another product', v_variant->>'sku'));
+      ELSE
+        v_variants_updated := v_variants_updated + 1;
+      END IF;
+    END LOOP;
+  END LOOP;
+
+  IF p_dry_run OR jsonb_array_length(v_errors) > 0 THEN
+    RETURN jsonb_build_object(
+      'committed', false,
+      'errors', v_errors,
+      'products_created', v_products_created,
+      'products_updated', v_products_updated,
+      'variants_created', v_variants_created,
+      'variants_updated', v_variants_updated,
+      'removed_images', '[]'::jsonb
+    );
+  END IF;
+
+  -- =====================================================
+  -- WRITE
+  -- =====================================================
+
+  PERFORM set_stock_movement_context('manual', NULL, 'CSV import');
+
+  FOR v_product IN SELECT value FROM jsonb_array_elements(p_products)
+  LOOP
+    SELECT id INTO v_category_id FROM categories WHERE slug = NULLIF(v_product->>'category_slug', '');
+    SELECT id INTO v_brand_id FROM brands WHERE slug = NULLIF(v_product->>'brand_slug', '');
+    SELECT id INTO v_product_id FROM products WHERE sku = v_product->>'sku';
+
+    IF v_product_id IS NULL THEN
+      INSERT INTO products (
+        sku, title, slug, description, price, weight_kg,
+        category_id, brand_id, is_active, featured
+      )
+      VALUES (
+        v_product->>'sku',
+        v_product->>'title',
+        COALESCE(
+          NULLIF(v_product->>'slug', ''),
+          trim(BOTH '-' FROM regexp_replace(lower(v_product->>'title'), '[^a-z0-9]+', '-', 'g'))
+        ),
+        NULLIF(v_product->>'description', ''),
+        (v_product->>'price')::numeric,
+        COALESCE(NULLIF(v_product->>'weight_kg', '')::numeric, 0),
+        v_category_id,
+        v_brand_id,
+        COALESCE((v_product->>'is_active')::boolean, true),
+        COALESCE((v_product->>'featured')::boolean, false)
+      )
+      RETURNING id INTO v_product_id;
+    ELSE
+      UPDATE products
+      SET
+        title = COALESCE(NULLIF(v_product->>'title', ''), title),
+        slug = COALESCE(NULLIF(v_product->>'slug', ''), slug),
+        description = COALESCE(NULLIF(v_product->>'description', ''), description),
+        price = COALESCE(NULLIF(v_product->>'price', '')::numeric, price),
+        weight_kg = COALESCE(NULLIF(v_product->>'weight_kg', '')::numeric, weight_kg),
+        category_id = COALESCE(v_category_id, category_id),
+        brand_id = COALESCE(v_brand_id, brand_id),
+        is_active = COALESCE((v_product->>'is_active')::boolean, is_active),
+        featured = COALESCE((v_product->>'featured')::boolean, featured),
+        updated_at = now()
+      WHERE id = v_product_id;
+    END IF;
+
+    FOR v_variant IN SELECT value FROM jsonb_array_elements(COALESCE(v_product->'variants', '[]'::jsonb))
+    LOOP
+      INSERT INTO product_variants (product_id, sku, size, color, price_override, stock, is_active)
+      VALUES (
+        v_product_id,
+        v_variant->>'sku',
+        NULLIF(v_variant->>'size', ''),
+        NULLIF(v_variant->>'color', ''),
+        NULLIF(v_variant->>'price_override', '')::numeric,
+        COALESCE((v_variant->>'stock')::integer, 0),
+        COALESCE((v_variant->>'is_active')::boolean, true)
+      )
+      ON CONFLICT (sku) DO UPDATE
+      SET
+        size = EXCLUDED.size,
+        color = EXCLUDED.color,
+        price_override = EXCLUDED.price_override,
+        stock = COALESCE((v_variant->>'stock')::integer, product_variants.stock),
+        is_active = COALESCE((v_variant->>'is_active')::boolean, product_variants.is_active),
+        updated_at = now();
+    END LOOP;
+
+    IF jsonb_array_length(COALESCE(v_product->'images', '[]'::jsonb)) > 0 THEN
+      v_removed_images := v_removed_images || ARRAY(
+        SELECT pi.storage_path
+        FROM product_images pi
+        WHERE pi.product_id = v_product_id
+          AND pi.storage_path NOT IN (
+            SELECT i->>'storage_path' FROM jsonb_array_elements(v_product->'images') i
+          )
+      );
+
+      DELETE FROM product_images WHERE product_id = v_product_id;
+
+      FOR v_image IN SELECT value FROM jsonb_array_elements(v_product->'images')
+      LOOP
+        INSERT INTO product_images (
+          product_id, storage_path, image_url, file_name, file_size,
+          alt_text, display_order, is_primary
+        )
+        VALUES (
+          v_product_id,
+          v_image->>'storage_path',
+          v_image->>'image_url',
+          v_image->>'file_name',
+          COALESCE(v_image->>'file_size', '0'),
+          v_product->>'title',
+          (v_image->>'display_order')::integer,
+          (v_image->>'display_order')::integer = 0
+        );
+      END LOOP;
+    END IF;
+  END LOOP;
+
+  RETURN jsonb_build_object(
+    'committed', true,
+    'errors', '[]'::jsonb,
+    'products_created', v_products_created,
+    'products_updated', v_products_updated,
+    'variants_created', v_variants_created,
+    'variants_updated', v_variants_updated,
+    'removed_images', to_jsonb(v_removed_images)
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION import_products(jsonb, boolean) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION import_products(jsonb, boolean) TO authenticated;
@@ -0,0 +1,475 @@
+/*
+  # Guest Checkout
+
+  Shoppers can order without creating an account:
+  1. orders.guest_email and orders.guest_phone: the contact for an order
+     placed without signing in
+  2. orders.access_token: a random secret sent in the order link; anyone
+     holding it can view the order and retry its payment
+  3. create_order_with_stock_management(): signed-in shoppers can only order
+     for themselves; guests must give an email and phone. The order's
+     access token is returned with it
+  4. get_guest_order(): the order page for a holder of the access token
+  5. find_guest_order(): order number and email lead back to the order link
+  6. check_order_reservation() accepts the access token so guests can retry
+     an abandoned payment
+  7. Guest orders move to the account registered with the same email once
+     that address is confirmed
+*/
+
+-- =====================================================
+-- GUEST ORDERS
+-- =====================================================
+
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS guest_email text;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS guest_phone text;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS access_token text UNIQUE NOT NULL DEFAULT encode(gen_random_bytes(32), 'hex');
+
+CREATE INDEX IF NOT EXISTS idx_orders_guest_email ON orders(guest_email) WHERE guest_email IS NOT NULL;
+
+-- The order view a guest gets from their link, shaped like the select the
+-- order page makes for signed-in shoppers
+CREATE OR REPLACE FUNCTION get_guest_order(p_order_id uuid, p_access_token text)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_order orders;
+BEGIN
+  SELECT * INTO v_order
+  FROM orders
+  WHERE id = p_order_id
+    AND access_token = p_access_token;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  RETURN (to_jsonb(v_order) - 'access_token') || jsonb_build_object(
+    'order_items', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'id', oi.id,
+        'product_title', oi.product_title,
+        'variant_info', oi.variant_info,
+        'quantity', oi.quantity,
+        'unit_price', oi.unit_price,
+        'total_price', oi.total_price,
+        'product_variant_id', oi.product_variant_id,
+        'product_variants', CASE WHEN pv.id IS NOT NULL THEN jsonb_build_object(
+          'product_id', pv.product_id,
+          'products', jsonb_build_object(
+            'product_images', COALESCE((
+              SELECT jsonb_agg(jsonb_build_object('storage_path', pi.storage_path)
+                ORDER BY pi.is_primary DESC, pi.display_order)
+              FROM product_images pi
+              WHERE pi.product_id = pv.product_id
+            ), '[]'::jsonb)
+          )
+        ) END
+      ) ORDER BY oi.created_at)
+      FROM order_items oi
+      LEFT JOIN product_variants pv ON pv.id = oi.product_variant_id
+      WHERE oi.order_id = v_order.id
+    ), '[]'::jsonb),
+    'profiles', NULL
+  );
+END;
+$$;
+
+-- Both the order number and the email it was placed with must match
+CREATE OR REPLACE FUNCTION find_guest_order(p_order_number text, p_email text)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_order orders;
+BEGIN
+  SELECT * INTO v_order
+  FROM orders
+  WHERE order_number = upper(trim(p_order_number))
+    AND guest_email = lower(trim(p_email));
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No order matches that order number and email';
+  END IF;
+
+  RETURN jsonb_build_object(
+    'order_id', v_order.id,
+    'access_token', v_order.access_token
+  );
+END;
+$$;
+
+-- =====================================================
+-- ORDER CREATION
+-- =====================================================
+
+DROP FUNCTION IF EXISTS create_order_with_stock_management(uuid, decimal, text, text, text, decimal, jsonb, jsonb, jsonb[], text);
+
+-- Function to create order with automatic stock management.
+-- p_total and p_shipping_cost are what the shopper was shown; they are only
+-- compared against the server price and never written to the order.
+CREATE OR REPLACE FUNCTION create_order_with_stock_management(
+  p_user_id uuid,
+  p_total decimal,
+  p_currency text,
+  p_payment_method text,
+  p_shipping_method text,
+  p_shipping_cost decimal,
+  p_shipping_address jsonb,
+  p_billing_address jsonb,
+  p_order_items jsonb[], -- Array of {variant_id, quantity}
+  p_discount_code text DEFAULT NULL,
+  p_guest_email text DEFAULT NULL,
+  p_guest_phone text DEFAULT NULL
+)
+RETURNS TABLE(order_id uuid, success boolean, error_message text, pricing jsonb, access_token text)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_order_id uuid;
+  v_access_token text;
+  v_guest_email text;
+  v_guest_phone text;
+  v_pricing jsonb;
+  v_total decimal(10,2);
+  v_discount jsonb;
+  v_line jsonb;
+  v_variant_id uuid;
+  v_quantity integer;
+  v_current_stock integer;
+  v_reserved_until timestamptz;
+BEGIN
+  -- Signed-in shoppers order for themselves; guests leave a contact instead
+  IF auth.uid() IS NOT NULL THEN
+    IF p_user_id IS DISTINCT FROM auth.uid() THEN
+      RETURN QUERY SELECT NULL::uuid, false, 'Orders can only be placed for your own account'::text, NULL::jsonb, NULL::text;
+      RETURN;
+    END IF;
+  ELSE
+    v_guest_email := lower(trim(COALESCE(p_guest_email, '')));
+    v_guest_phone := NULLIF(trim(COALESCE(p_guest_phone, '')), '');
+
+    IF p_user_id IS NOT NULL THEN
+      RETURN QUERY SELECT NULL::uuid, false, 'Please sign in again to place this order'::text, NULL::jsonb, NULL::text;
+      RETURN;
+    END IF;
+
+    IF v_guest_email !~ '^[^@\s]+@[^@\s]+\.[^@\s]+$' OR v_guest_phone IS NULL THEN
+      RETURN QUERY SELECT NULL::uuid, false, 'An email address and phone number are required to check out as a guest'::text, NULL::jsonb, NULL::text;
+      RETURN;
+    END IF;
+  END IF;
+
+  IF NOT is_payment_method_enabled(p_payment_method) THEN
+    RETURN QUERY SELECT NULL::uuid, false, ('Unsupported payment method: ' || p_payment_method)::text, NULL::jsonb, NULL::text;
+    RETURN;
+  END IF;
+
+  -- Serialise redemptions of the same code so usage limits hold
+  IF NULLIF(trim(p_discount_code), '') IS NOT NULL THEN
+    PERFORM 1 FROM discount_codes
+    WHERE code = upper(trim(p_discount_code))
+    FOR UPDATE;
+  END IF;
+
+  -- Recalculate every price from the catalogue
+  BEGIN
+    v_pricing := calculate_order_pricing(p_order_items, p_shipping_method, p_discount_code, p_shipping_address);
+  EXCEPTION
+    WHEN OTHERS THEN
+      RETURN QUERY SELECT NULL::uuid, false, SQLERRM::text, NULL::jsonb, NULL::text;
+      RETURN;
+  END;
+
+  IF v_pricing->>'shipping_error' IS NOT NULL THEN
+    RETURN QUERY SELECT NULL::uuid, false, (v_pricing->>'shipping_error')::text, v_pricing, NULL::text;
+    RETURN;
+  END IF;
+
+  IF v_pricing->>'discount_error' IS NOT NULL THEN
+    RETURN QUERY SELECT NULL::uuid, false, (v_pricing->>'discount_error')::text, v_pricing, NULL::text;
+    RETURN;
+  END IF;
+
+  v_total := (v_pricing->>'total')::decimal;
+  v_discount := v_pricing->'discounts'->0;
+
+  -- Reject the order if the shopper was shown a different price
+  IF p_total IS DISTINCT FROM v_total
+     OR p_shipping_cost IS DISTINCT FROM (v_pricing->>'shipping')::decimal THEN
+    RETURN QUERY SELECT NULL::uuid, false,
+      ('Prices have changed. Order total is now ' || (v_pricing->>'currency') || ' ' || v_total)::text,
+      v_pricing, NULL::text;
+    RETURN;
+  END IF;
+
+  BEGIN
+    -- Validate stock for all items first
+    FOR v_line IN SELECT value FROM jsonb_array_elements(v_pricing->'lines')
+    LOOP
+      v_variant_id := (v_line->>'variant_id')::uuid;
+      v_quantity := (v_line->>'quantity')::integer;
+
+      SELECT stock INTO v_current_stock
+      FROM product_variants
+      WHERE id = v_variant_id
+      FOR UPDATE; -- Lock the row
+
+      IF v_current_stock < v_quantity THEN
+        RETURN QUERY SELECT NULL::uuid, false,
+          ('Insufficient stock for ' || (v_line->>'product_title') ||
+          '. Available: ' || v_current_stock || ', Requested: ' || v_quantity)::text,
+          v_pricing, NULL::text;
+        RETURN;
+      END IF;
+    END LOOP;
+
+    -- Online payments hold their stock only until the window runs out
+    IF is_online_payment_method(p_payment_method) THEN
+      v_reserved_until := now() + make_interval(mins => payment_reservation_minutes());
+    END IF;
+
+    -- Create the order (order_number will be generated by trigger)
+    INSERT INTO orders (
+      user_id,
+      guest_email,
+      guest_phone,
+      subtotal,
+      discount_amount,
+      discount_code,
+      total,
+      currency,
+      status,
+      payment_status,
+      payment_method,
+      shipping_method,
+      shipping_cost,
+      shipping_zone_id,
+      shipping_address,
+      billing_address,
+      reserved_until
+    )
+    VALUES (
+      p_user_id,
+      v_guest_email,
+      v_guest_phone,
+      (v_pricing->>'subtotal')::decimal,
+      (v_pricing->>'discount_total')::decimal,
+      v_pricing->>'discount_code',
+      v_total,
+      COALESCE(v_pricing->>'currency', p_currency),
+      'pending',
+      'pending',
+      p_payment_method,
+      p_shipping_method,
+      (v_pricing->>'shipping')::decimal,
+      (v_pricing->'shipping_zone'->>'id')::uuid,
+      p_shipping_address,
+      p_billing_address,
+      v_reserved_until
+    )
+    RETURNING id, orders.access_token INTO v_order_id, v_access_token;
+
+    -- Record the redemption against the code's usage limits
+    IF v_discount IS NOT NULL THEN
+      INSERT INTO discount_redemptions (discount_code_id, order_id, user_id, amount)
+      VALUES ((v_discount->>'id')::uuid, v_order_id, p_user_id, (v_discount->>'amount')::decimal);
+    END IF;
+
+    PERFORM set_stock_movement_context('order', v_order_id);
+
+    -- Create order items from the server-side breakdown and update stock
+    FOR v_line IN SELECT value FROM jsonb_array_elements(v_pricing->'lines')
+    LOOP
+      v_variant_id := (v_line->>'variant_id')::uuid;
+      v_quantity := (v_line->>'quantity')::integer;
+
+      INSERT INTO order_items (
+        order_id,
+        product_variant_id,
+        product_title,
+        variant_info,
+        quantity,
+        unit_price,
+        total_price
+      )
+      VALUES (
+        v_order_id,
+        v_variant_id,
+        v_line->>'product_title',
+        jsonb_build_object(
+          'size', v_line->>'size',
+          'color', v_line->>'color',
+          'sku', v_line->>'sku'
+        ),
+        v_quantity,
+        (v_line->>'unit_price')::decimal,
+        (v_line->>'line_total')::decimal
+      );
+
+      -- Reserve stock for every payment method; abandoned online payments
+      -- give it back through expire_payment_reservations
+      UPDATE product_variants
+      SET stock = stock - v_quantity,
+          updated_at = now()
+      WHERE id = v_variant_id;
+    END LOOP;
+
+    RETURN QUERY SELECT v_order_id, true, 'Order created successfully'::text, v_pricing, v_access_token;
+
+  EXCEPTION
+    WHEN OTHERS THEN
+      -- Rollback happens automatically
+      RETURN QUERY SELECT NULL::uuid, false, ('Order creation failed: ' || SQLERRM)::text, v_pricing, NULL::text;
+  END;
+END;
+$$;
+
+-- =====================================================
+-- PAYMENT RETRIES
+-- =====================================================
+
+DROP FUNCTION IF EXISTS check_order_reservation(uuid);
+
+CREATE OR REPLACE FUNCTION check_order_reservation(
+  p_order_id uuid,
+  p_access_token text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_order orders;
+BEGIN
+  SELECT * INTO v_order FROM orders WHERE id = p_order_id;
+
+  IF NOT FOUND OR (
+    v_order.user_id IS DISTINCT FROM auth.uid()
+    AND v_order.access_token IS DISTINCT FROM p_access_token
+    AND NOT is_admin()
+  ) THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF v_order.status = 'pending'
+     AND v_order.payment_status = 'pending'
+     AND v_order.reserved_until < now() THEN
+    PERFORM release_order_reservation(p_order_id, 'expired', 'Payment was not completed in time');
+    SELECT * INTO v_order FROM orders WHERE id = p_order_id;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'status', v_order.status,
+    'payment_status', v_order.payment_status,
+    'reserved_until', v_order.reserved_until,
+    'cancellation_reason', v_order.cancellation_reason,
+    'can_retry', v_order.status = 'pending'
+      AND v_order.payment_status = 'pending'
+      AND v_order.reserved_until > now()
+  );
+END;
+$$;
+
+-- =====================================================
+-- ACCOUNT LINKING
+-- =====================================================
+
+-- Only called once the address is confirmed, so nobody can claim another
+-- shopper's orders by signing up with their email
+CREATE OR REPLACE FUNCTION attach_guest_orders(p_user_id uuid, p_email text)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_count integer;
+BEGIN
+  WITH attached AS (
+    UPDATE orders
+    SET user_id = p_user_id,
+        updated_at = now()
+    WHERE user_id IS NULL
+      AND guest_email = lower(trim(p_email))
+    RETURNING id
+  )
+  UPDATE discount_redemptions
+  SET user_id = p_user_id
+  WHERE order_id IN (SELECT id FROM attached);
+
+  SELECT COUNT(*) INTO v_count
+  FROM orders
+  WHERE user_id = p_user_id
+    AND guest_email = lower(trim(p_email));
+
+  RETURN v_count;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  INSERT INTO public.profiles (id, email, full_name, avatar_url)
+  VALUES (
+    new.id,
+    new.email,
+    COALESCE(new.raw_user_meta_data->>'full_name', ''),
+    new.raw_user_meta_data->>'avatar_url'
+  )
+  ON CONFLICT (id) DO UPDATE SET
+    email = EXCLUDED.email,
+    full_name = COALESCE(EXCLUDED.full_name, profiles.full_name),
+    avatar_url = COALESCE(EXCLUDED.avatar_url, profiles.avatar_url),
+    updated_at = now();
+
+  -- OAuth sign-ups arrive with the address already confirmed
+  IF new.email_confirmed_at IS NOT NULL THEN
+    PERFORM public.attach_guest_orders(new.id, new.email);
+  END IF;
+
+  RETURN new;
+EXCEPTION WHEN OTHERS THEN
+  -- Log error but don't fail the signup
+  RAISE WARNING 'Failed to create user profile: %', SQLERRM;
+  RETURN new;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.handle_user_email_confirmed()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  PERFORM public.attach_guest_orders(new.id, new.email);
+  RETURN new;
+EXCEPTION WHEN OTHERS THEN
+  -- Log error but don't fail the confirmation
+  RAISE WARNING 'Failed to attach guest orders: %', SQLERRM;
+  RETURN new;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_auth_user_email_confirmed ON auth.users;
+CREATE TRIGGER on_auth_user_email_confirmed
+  AFTER UPDATE OF email_confirmed_at ON auth.users
+  FOR EACH ROW
+  WHEN (old.email_confirmed_at IS NULL AND new.email_confirmed_at IS NOT NULL)
+  EXECUTE FUNCTION public.handle_user_email_confirmed();
+
+-- =====================================================
+-- PERMISSIONS
+-- =====================================================
+
+REVOKE EXECUTE ON FUNCTION attach_guest_orders(uuid, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION create_order_with_stock_management TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION check_order_reservation(uuid, text) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION get_guest_order(uuid, text) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION find_guest_order(text, text) TO anon, authenticated;
@@ -0,0 +1,575 @@
+/*
+  # Transactional Email
+
+  Order and support emails are queued in the database and sent by the
+  send-emails edge function:
+  1. email_templates: one admin-editable subject and HTML body per email,
+     with {{placeholders}} filled in when the email is sent
+  2. email_outbox: the queue and the per-order log. Rows are written by
+     triggers, so every path that changes an order (checkout, the payment
+     webhook, the admin screens, cancellations, refunds) sends the same
+     emails. dedupe_key stops the same event being emailed twice
+  3. Triggers on orders (placed, bank transfer instructions, payment
+     confirmed, shipped, delivered, cancelled), refunds (refunded) and
+     support requests (received, reply)
+  4. support_request_replies: staff replies to a support request, emailed
+     to the requester
+  5. orders.tracking_number and orders.tracking_url for the shipped email
+  6. claim_due_emails() hands the sender a batch with the order data it
+     needs; complete_email() records the result and retries failures with
+     backoff, up to 5 attempts. retry_email() lets an admin send a failed
+     email again
+  7. store_settings.bank_transfer_details for the bank transfer email
+
+  Templates are rendered when the email is sent, from the order as it is at
+  that point, so the items inserted after the order row are included.
+*/
+
+-- =====================================================
+-- TRACKING
+-- =====================================================
+
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS tracking_number text;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS tracking_url text;
+
+-- =====================================================
+-- TEMPLATES
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS email_templates (
+  key text PRIMARY KEY,
+  name text NOT NULL,
+  description text,
+  subject text NOT NULL,
+  body_html text NOT NULL,
+  is_active boolean NOT NULL DEFAULT true,
+  updated_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TRIGGER update_email_templates_updated_at
+  BEFORE UPDATE ON email_templates
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE email_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "email_templates_admin_all" ON email_templates
+  FOR ALL TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+INSERT INTO email_templates (key, name, description, subject, body_html) VALUES
+  ('order_placed', 'Order placed', 'Cash on delivery and bank transfer orders, when they are placed',
+   'We''ve received your order {{order_number}}',
+   '<h1>Thanks for your order, {{customer_name}}</h1>
+<p>We''ve received order <strong>{{order_number}}</strong> and will let you know when it ships.</p>
+{{items_html}}
+{{shipping_address_html}}
+<p><a class="button" href="{{order_url}}">View your order</a></p>'),
+  ('bank_transfer_instructions', 'Bank transfer instructions', 'Bank transfer orders, when they are placed',
+   'How to pay for order {{order_number}}',
+   '<h1>Complete your payment</h1>
+<p>Please transfer <strong>{{order_total}}</strong> to the account below, using <strong>{{order_number}}</strong> as the reference.</p>
+{{bank_details_html}}
+<p>We''ll confirm your order as soon as the payment reaches us.</p>
+<p><a class="button" href="{{order_url}}">View your order</a></p>'),
+  ('payment_confirmed', 'Payment confirmed', 'When an order is marked paid, by the payment gateway or by staff',
+   'Payment received for order {{order_number}}',
+   '<h1>Payment received</h1>
+<p>Hi {{customer_name}}, we''ve received your payment of <strong>{{order_total}}</strong> for order <strong>{{order_number}}</strong>.</p>
+{{items_html}}
+<p><a class="button" href="{{order_url}}">View your order</a></p>'),
+  ('order_shipped', 'Order shipped', 'When an order is marked shipped',
+   'Your order {{order_number}} is on its way',
+   '<h1>Your order is on its way</h1>
+<p>Hi {{customer_name}}, order <strong>{{order_number}}</strong> has been dispatched.</p>
+{{tracking_html}}
+{{shipping_address_html}}
+<p><a class="button" href="{{order_url}}">View your order</a></p>'),
+  ('order_delivered', 'Order delivered', 'When an order is marked delivered',
+   'Your order {{order_number}} has been delivered',
+   '<h1>Delivered</h1>
+<p>Hi {{customer_name}}, order <strong>{{order_number}}</strong> has been delivered. We hope you love it.</p>
+<p>Something not right? You can request a return from your order page.</p>
+<p><a class="button" href="{{order_url}}">View your order</a></p>'),
+  ('order_cancelled', 'Order cancelled', 'When an order is cancelled, by the shopper or by staff',
+   'Your order {{order_number}} has been cancelled',
+   '<h1>Order cancelled</h1>
+<p>Hi {{customer_name}}, order <strong>{{order_number}}</strong> has been cancelled.</p>
+<p>Reason: {{cancellation_reason}}</p>
+<p>If you paid online, your refund is on its way and we''ll email you when it has been processed.</p>'),
+  ('order_refunded', 'Order refunded', 'When a refund on an order succeeds',
+   'Refund of {{refund_amount}} for order {{order_number}}',
+   '<h1>Your refund has been processed</h1>
+<p>Hi {{customer_name}}, we''ve refunded <strong>{{refund_amount}}</strong> for order <strong>{{order_number}}</strong>.</p>
+<p>Reason: {{refund_reason}}</p>
+<p>Card refunds can take 5-10 working days to appear on your statement.</p>'),
+  ('support_request_received', 'Support request received', 'When a support request is submitted',
+   'We''ve received your request: {{support_subject}}',
+   '<h1>We''re on it</h1>
+<p>Hi {{customer_name}}, thanks for getting in touch. Your request <strong>#{{support_reference}}</strong> has been received and our team will reply soon.</p>
+<p><strong>{{support_subject}}</strong></p>
+<p>{{support_description}}</p>'),
+  ('support_request_reply', 'Support request reply', 'When staff reply to a support request',
+   'Re: {{support_subject}}',
+   '<h1>We''ve replied to your request</h1>
+<p>Hi {{customer_name}},</p>
+<p>{{reply_message}}</p>
+<p>Request <strong>#{{support_reference}}</strong>. Reply to this email or submit another request if you need anything else.</p>')
+ON CONFLICT (key) DO NOTHING;
+
+INSERT INTO store_settings (key, value, description)
+VALUES (
+  'bank_transfer_details',
+  '{"bank": "", "account_name": "", "account_number": "", "branch": ""}'::jsonb,
+  'Account shoppers pay into for bank transfer orders, shown in the bank transfer email'
+)
+ON CONFLICT (key) DO NOTHING;
+
+-- =====================================================
+-- OUTBOX
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS email_outbox (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  template_key text NOT NULL REFERENCES email_templates(key) ON DELETE CASCADE,
+  recipient text NOT NULL,
+  order_id uuid REFERENCES orders(id) ON DELETE CASCADE,
+  support_request_id uuid REFERENCES support_requests(id) ON DELETE CASCADE,
+  data jsonb NOT NULL DEFAULT '{}'::jsonb,
+  dedupe_key text UNIQUE,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sending', 'sent', 'failed')),
+  attempts integer NOT NULL DEFAULT 0,
+  -- When a pending row is due; while sending, when the claim lapses
+  next_attempt_at timestamptz NOT NULL DEFAULT now(),
+  subject text,
+  last_error text,
+  provider_message_id text,
+  sent_at timestamptz,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_email_outbox_due ON email_outbox(next_attempt_at) WHERE status IN ('pending', 'sending');
+CREATE INDEX IF NOT EXISTS idx_email_outbox_order ON email_outbox(order_id, created_at) WHERE order_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_email_outbox_created ON email_outbox(created_at DESC);
+
+ALTER TABLE email_outbox ENABLE ROW LEVEL SECURITY;
+
+-- Written by the triggers below and read by staff only
+CREATE POLICY "email_outbox_admin_all" ON email_outbox
+  FOR ALL TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+-- Queue an email unless its template is switched off or it was already queued
+CREATE OR REPLACE FUNCTION enqueue_email(
+  p_template_key text,
+  p_recipient text,
+  p_data jsonb DEFAULT '{}'::jsonb,
+  p_dedupe_key text DEFAULT NULL,
+  p_order_id uuid DEFAULT NULL,
+  p_support_request_id uuid DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_id uuid;
+BEGIN
+  IF p_recipient IS NULL OR btrim(p_recipient) = '' THEN
+    RETURN NULL;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM email_templates WHERE key = p_template_key AND is_active) THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO email_outbox (template_key, recipient, data, dedupe_key, order_id, support_request_id)
+  VALUES (p_template_key, lower(btrim(p_recipient)), COALESCE(p_data, '{}'::jsonb), p_dedupe_key, p_order_id, p_support_request_id)
+  ON CONFLICT (dedupe_key) DO NOTHING
+  RETURNING id INTO v_id;
+
+  RETURN v_id;
+END;
+$$;
+
+-- Order emails go to the account's address, or the guest's
+CREATE OR REPLACE FUNCTION enqueue_order_email(
+  p_template_key text,
+  p_order_id uuid,
+  p_data jsonb DEFAULT '{}'::jsonb,
+  p_dedupe_key text DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_recipient text;
+BEGIN
+  SELECT COALESCE(p.email, o.guest_email)
+  INTO v_recipient
+  FROM orders o
+  LEFT JOIN profiles p ON p.id = o.user_id
+  WHERE o.id = p_order_id;
+
+  RETURN enqueue_email(
+    p_template_key,
+    v_recipient,
+    p_data,
+    COALESCE(p_dedupe_key, p_template_key || ':' || p_order_id),
+    p_order_id,
+    NULL
+  );
+END;
+$$;
+
+-- =====================================================
+-- ORDER EVENTS
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION queue_order_emails()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    -- Online orders are confirmed by the payment email instead
+    IF NOT is_online_payment_method(NEW.payment_method) THEN
+      PERFORM enqueue_order_email('order_placed', NEW.id);
+
+      IF NEW.payment_method = 'bank' THEN
+        PERFORM enqueue_order_email('bank_transfer_instructions', NEW.id);
+      END IF;
+    END IF;
+
+    RETURN NEW;
+  END IF;
+
+  IF NEW.payment_status = 'paid' AND OLD.payment_status IS DISTINCT FROM 'paid' THEN
+    PERFORM enqueue_order_email('payment_confirmed', NEW.id);
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    IF NEW.status = 'shipped' THEN
+      PERFORM enqueue_order_email('order_shipped', NEW.id);
+    ELSIF NEW.status = 'delivered' THEN
+      PERFORM enqueue_order_email('order_delivered', NEW.id);
+    -- An online order that was never paid was never confirmed to the shopper
+    ELSIF NEW.status = 'cancelled'
+      AND NOT (is_online_payment_method(NEW.payment_method)
+               AND OLD.payment_status NOT IN ('paid', 'partially_refunded')) THEN
+      PERFORM enqueue_order_email('order_cancelled', NEW.id);
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS queue_order_emails ON orders;
+CREATE TRIGGER queue_order_emails
+  AFTER INSERT OR UPDATE OF status, payment_status ON orders
+  FOR EACH ROW EXECUTE FUNCTION queue_order_emails();
+
+CREATE OR REPLACE FUNCTION queue_refund_email()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  -- Chargebacks are the customer's bank's doing; they aren't announced
+  IF NEW.kind = 'refund' AND NEW.status = 'succeeded'
+     AND (TG_OP = 'INSERT' OR OLD.status IS DISTINCT FROM 'succeeded') THEN
+    PERFORM enqueue_order_email(
+      'order_refunded',
+      NEW.order_id,
+      jsonb_build_object(
+        'refund_amount', NEW.amount,
+        'refund_currency', NEW.currency,
+        'refund_reason', COALESCE(NULLIF(NEW.reason, ''), 'Refund issued by the store')
+      ),
+      'order_refunded:' || NEW.id
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS queue_refund_email ON refunds;
+CREATE TRIGGER queue_refund_email
+  AFTER INSERT OR UPDATE OF status ON refunds
+  FOR EACH ROW EXECUTE FUNCTION queue_refund_email();
+
+-- =====================================================
+-- SUPPORT REQUESTS
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS support_request_replies (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  support_request_id uuid NOT NULL REFERENCES support_requests(id) ON DELETE CASCADE,
+  author_id uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  message text NOT NULL CHECK (btrim(message) <> ''),
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_support_request_replies_request
+  ON support_request_replies(support_request_id, created_at);
+
+ALTER TABLE support_request_replies ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "support_request_replies_own_read" ON support_request_replies
+  FOR SELECT TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM support_requests sr
+    WHERE sr.id = support_request_replies.support_request_id
+      AND sr.user_id = auth.uid()
+  ));
+
+CREATE POLICY "support_request_replies_admin_all" ON support_request_replies
+  FOR ALL TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+CREATE OR REPLACE FUNCTION support_email_data(p_request support_requests)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT jsonb_build_object(
+    'customer_name', p_request.name,
+    'support_subject', p_request.subject,
+    'support_description', p_request.description,
+    'support_reference', upper(left(p_request.id::text, 8)),
+    'order_number', p_request.order_number
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION queue_support_request_email()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  PERFORM enqueue_email(
+    'support_request_received',
+    NEW.email,
+    support_email_data(NEW),
+    'support_request_received:' || NEW.id,
+    NULL,
+    NEW.id
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS queue_support_request_email ON support_requests;
+CREATE TRIGGER queue_support_request_email
+  AFTER INSERT ON support_requests
+  FOR EACH ROW EXECUTE FUNCTION queue_support_request_email();
+
+CREATE OR REPLACE FUNCTION queue_support_reply_email()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_request support_requests%ROWTYPE;
+BEGIN
+  SELECT * INTO v_request FROM support_requests WHERE id = NEW.support_request_id;
+
+  PERFORM enqueue_email(
+    'support_request_reply',
+    v_request.email,
+    support_email_data(v_request) || jsonb_build_object('reply_message', NEW.message),
+    'support_request_reply:' || NEW.id,
+    NULL,
+    v_request.id
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS queue_support_reply_email ON support_request_replies;
+CREATE TRIGGER queue_support_reply_email
+  AFTER INSERT ON support_request_replies
+  FOR EACH ROW EXECUTE FUNCTION queue_support_reply_email();
+
+-- =====================================================
+-- SENDING
+-- =====================================================
+
+-- Everything the order templates can show, read when the email is sent
+CREATE OR REPLACE FUNCTION email_order_context(p_order_id uuid)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT jsonb_build_object(
+    'order_id', o.id,
+    'order_number', o.order_number,
+    'order_date', o.created_at,
+    'customer_name', COALESCE(
+      NULLIF(btrim(concat_ws(' ', o.shipping_address->>'firstName', o.shipping_address->>'lastName')), ''),
+      p.full_name,
+      'there'
+    ),
+    'status', o.status,
+    'payment_method', o.payment_method,
+    'payment_status', o.payment_status,
+    'currency', COALESCE(o.currency, 'LKR'),
+    'subtotal', o.subtotal,
+    'discount_amount', COALESCE(o.discount_amount, 0),
+    'shipping_cost', COALESCE(o.shipping_cost, 0),
+    'total', o.total,
+    'shipping_address', o.shipping_address,
+    'tracking_number', o.tracking_number,
+    'tracking_url', o.tracking_url,
+    'cancellation_reason', COALESCE(NULLIF(o.cancellation_reason, ''), 'Cancelled'),
+    -- Guests have no account to sign in to, so their links carry the token
+    'access_token', CASE WHEN o.user_id IS NULL THEN o.access_token END,
+    'bank_transfer_details', CASE WHEN o.payment_method = 'bank'
+      THEN (SELECT value FROM store_settings WHERE key = 'bank_transfer_details') END,
+    'items', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'title', oi.product_title,
+        'size', oi.variant_info->>'size',
+        'color', oi.variant_info->>'color',
+        'quantity', oi.quantity,
+        'unit_price', oi.unit_price,
+        'total_price', oi.total_price
+      ) ORDER BY oi.created_at)
+      FROM order_items oi
+      WHERE oi.order_id = o.id
+    ), '[]'::jsonb)
+  )
+  FROM orders o
+  LEFT JOIN profiles p ON p.id = o.user_id
+  WHERE o.id = p_order_id;
+$$;
+
+-- Hand out due emails, with their template and order data. A claim lapses
+-- after ten minutes so a sender that died mid-batch doesn't strand its rows.
+CREATE OR REPLACE FUNCTION claim_due_emails(p_limit integer DEFAULT 20)
+RETURNS TABLE(
+  id uuid,
+  template_key text,
+  recipient text,
+  subject_template text,
+  body_template text,
+  context jsonb
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+#variable_conflict use_column
+BEGIN
+  RETURN QUERY
+  WITH due AS (
+    SELECT eo.id
+    FROM email_outbox eo
+    WHERE eo.status IN ('pending', 'sending')
+      AND eo.next_attempt_at <= now()
+    ORDER BY eo.next_attempt_at
+    LIMIT GREATEST(p_limit, 1)
+    FOR UPDATE SKIP LOCKED
+  ),
+  claimed AS (
+    UPDATE email_outbox eo
+    SET status = 'sending',
+        attempts = eo.attempts + 1,
+        next_attempt_at = now() + interval '10 minutes'
+    FROM due
+    WHERE eo.id = due.id
+    RETURNING eo.*
+  )
+  SELECT
+    c.id,
+    c.template_key,
+    c.recipient,
+    t.subject,
+    t.body_html,
+    CASE WHEN c.order_id IS NOT NULL
+      THEN COALESCE(email_order_context(c.order_id), '{}'::jsonb)
+      ELSE '{}'::jsonb
+    END || c.data
+  FROM claimed c
+  JOIN email_templates t ON t.key = c.template_key;
+END;
+$$;
+
+-- Record a send. Failures wait 2, 4, 8 and 16 minutes between attempts and
+-- stay failed after the fifth.
+CREATE OR REPLACE FUNCTION complete_email(
+  p_id uuid,
+  p_subject text DEFAULT NULL,
+  p_error text DEFAULT NULL,
+  p_provider_message_id text DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF p_error IS NULL THEN
+    UPDATE email_outbox
+    SET status = 'sent',
+        subject = COALESCE(p_subject, subject),
+        provider_message_id = p_provider_message_id,
+        last_error = NULL,
+        sent_at = now()
+    WHERE id = p_id;
+  ELSE
+    UPDATE email_outbox
+    SET status = CASE WHEN attempts >= 5 THEN 'failed' ELSE 'pending' END,
+        subject = COALESCE(p_subject, subject),
+        last_error = p_error,
+        next_attempt_at = now() + make_interval(mins => power(2, LEAST(attempts, 5))::integer)
+    WHERE id = p_id;
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION retry_email(p_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  PERFORM require_admin();
+
+  UPDATE email_outbox
+  SET status = 'pending',
+      attempts = 0,
+      next_attempt_at = now(),
+      last_error = NULL
+  WHERE id = p_id AND status IN ('failed', 'sent');
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Only sent or failed emails can be sent again';
+  END IF;
+END;
+$$;
+
+-- Sending is done by the send-emails edge function; the storefront and
+-- admin screens call it after each change, and where pg_cron is installed
+-- it should also be scheduled every minute to pick up retries.
+
+-- =====================================================
+-- PERMISSIONS
+-- =====================================================
+
+REVOKE EXECUTE ON FUNCTION enqueue_email(text, text, jsonb, text, uuid, uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION enqueue_order_email(text, uuid, jsonb, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION email_order_context(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION claim_due_emails(integer) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION complete_email(uuid, text, text, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION retry_email(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION retry_email(uuid) TO authenticated;
@@ -0,0 +1,566 @@
+/*
+  # SMS Notifications
+
+  Order texts for customers who opt in, sent through a local SMS gateway by
+  the send-sms edge function:
+  1. profiles.sms_phone, sms_opt_in and sms_opt_in_at. A number is only
+     saved once the customer has typed back a one-time code sent to it, so
+     the columns can't be changed directly
+  2. sms_otps: one-time codes, stored hashed. request_sms_otp() texts a code
+     (at most one a minute and five an hour per customer) and
+     verify_sms_otp() checks it and turns notifications on
+  3. sms_templates: admin-editable message text with {{placeholders}}
+  4. sms_messages: the queue and the per-order delivery log, filled by a
+     trigger on orders:
+       - order_confirmed: offline orders when placed, online orders when paid
+       - order_dispatched: when an order is marked shipped
+       - cod_delivery_reminder: cash on delivery orders, a set time after
+         dispatch (store_settings.cod_sms_reminder_hours); skipped if the
+         order is delivered or cancelled by then
+  5. claim_due_sms(), complete_sms() and retry_sms() work like their email
+     counterparts. Codes are dropped from the log once sent
+*/
+
+-- =====================================================
+-- PHONE NUMBERS
+-- =====================================================
+
+-- Sri Lankan mobiles in +947XXXXXXXX form; NULL for anything else
+CREATE OR REPLACE FUNCTION normalize_lk_mobile(p_phone text)
+RETURNS text
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  v_digits text := regexp_replace(COALESCE(p_phone, ''), '[^0-9]', '', 'g');
+BEGIN
+  IF length(v_digits) = 10 AND v_digits LIKE '0%' THEN
+    v_digits := '94' || substr(v_digits, 2);
+  ELSIF length(v_digits) = 9 THEN
+    v_digits := '94' || v_digits;
+  END IF;
+
+  IF v_digits !~ '^947[0-9]{8}$' THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN '+' || v_digits;
+END;
+$$;
+
+-- =====================================================
+-- OPT-IN
+-- =====================================================
+
+ALTER TABLE profiles ADD COLUMN IF NOT EXISTS sms_phone text;
+ALTER TABLE profiles ADD COLUMN IF NOT EXISTS sms_opt_in boolean NOT NULL DEFAULT false;
+ALTER TABLE profiles ADD COLUMN IF NOT EXISTS sms_opt_in_at timestamptz;
+
+-- profiles_own_access lets users update their own row; the number may only
+-- be set by verify_sms_otp(), which flags the change for this transaction
+CREATE OR REPLACE FUNCTION protect_profile_sms()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL OR is_admin() THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.sms_phone IS DISTINCT FROM OLD.sms_phone
+     AND COALESCE(current_setting('kixora.sms_phone_verified', true), '') <> 'true' THEN
+    RAISE EXCEPTION 'Verify the mobile number with the code we send it'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF NEW.sms_opt_in AND NEW.sms_phone IS NULL THEN
+    RAISE EXCEPTION 'Add a mobile number before turning on SMS notifications';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS protect_profile_sms_trigger ON profiles;
+CREATE TRIGGER protect_profile_sms_trigger
+  BEFORE UPDATE ON profiles
+  FOR EACH ROW EXECUTE FUNCTION protect_profile_sms();
+
+CREATE TABLE IF NOT EXISTS sms_otps (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  phone text NOT NULL,
+  code_hash text NOT NULL,
+  attempts integer NOT NULL DEFAULT 0,
+  expires_at timestamptz NOT NULL,
+  consumed_at timestamptz,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_sms_otps_user ON sms_otps(user_id, created_at DESC);
+
+-- Only reachable through the functions below
+ALTER TABLE sms_otps ENABLE ROW LEVEL SECURITY;
+
+-- =====================================================
+-- TEMPLATES
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS sms_templates (
+  key text PRIMARY KEY,
+  name text NOT NULL,
+  description text,
+  body text NOT NULL,
+  is_active boolean NOT NULL DEFAULT true,
+  updated_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TRIGGER update_sms_templates_updated_at
+  BEFORE UPDATE ON sms_templates
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE sms_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "sms_templates_admin_all" ON sms_templates
+  FOR ALL TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+INSERT INTO sms_templates (key, name, description, body) VALUES
+  ('order_confirmed', 'Order confirmed', 'Offline orders when placed, online orders when paid',
+   'Kixora: Thanks {{customer_first_name}}! Order {{order_number}} for {{order_total}} is confirmed. {{order_url}}'),
+  ('order_dispatched', 'Order dispatched', 'When an order is marked shipped',
+   'Kixora: Order {{order_number}} is on its way.{{tracking_note}} {{order_url}}'),
+  ('cod_delivery_reminder', 'Cash on delivery reminder', 'Cash on delivery orders, a set time after dispatch',
+   'Kixora: Order {{order_number}} arrives soon. Please keep {{order_total}} ready for the courier.'),
+  ('otp', 'Verification code', 'When a customer adds a mobile number for notifications',
+   'Kixora: Your verification code is {{code}}. It expires in 10 minutes. Never share it with anyone.')
+ON CONFLICT (key) DO NOTHING;
+
+INSERT INTO store_settings (key, value, description)
+VALUES (
+  'cod_sms_reminder_hours',
+  '24'::jsonb,
+  'Hours after dispatch to text cash on delivery customers to have the amount ready'
+)
+ON CONFLICT (key) DO NOTHING;
+
+-- =====================================================
+-- QUEUE
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS sms_messages (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  template_key text NOT NULL REFERENCES sms_templates(key) ON DELETE CASCADE,
+  phone text NOT NULL,
+  user_id uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  order_id uuid REFERENCES orders(id) ON DELETE CASCADE,
+  data jsonb NOT NULL DEFAULT '{}'::jsonb,
+  dedupe_key text UNIQUE,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sending', 'sent', 'failed', 'skipped')),
+  attempts integer NOT NULL DEFAULT 0,
+  -- When a pending row is due; while sending, when the claim lapses
+  next_attempt_at timestamptz NOT NULL DEFAULT now(),
+  body text,
+  provider text,
+  provider_message_id text,
+  last_error text,
+  sent_at timestamptz,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_sms_messages_due ON sms_messages(next_attempt_at) WHERE status IN ('pending', 'sending');
+CREATE INDEX IF NOT EXISTS idx_sms_messages_order ON sms_messages(order_id, created_at) WHERE order_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_sms_messages_created ON sms_messages(created_at DESC);
+
+ALTER TABLE sms_messages ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "sms_messages_admin_all" ON sms_messages
+  FOR ALL TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+CREATE OR REPLACE FUNCTION enqueue_sms(
+  p_template_key text,
+  p_phone text,
+  p_data jsonb DEFAULT '{}'::jsonb,
+  p_dedupe_key text DEFAULT NULL,
+  p_user_id uuid DEFAULT NULL,
+  p_order_id uuid DEFAULT NULL,
+  p_send_at timestamptz DEFAULT now()
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_id uuid;
+BEGIN
+  IF p_phone IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM sms_templates WHERE key = p_template_key AND is_active) THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO sms_messages (template_key, phone, data, dedupe_key, user_id, order_id, next_attempt_at)
+  VALUES (p_template_key, p_phone, COALESCE(p_data, '{}'::jsonb), p_dedupe_key, p_user_id, p_order_id, COALESCE(p_send_at, now()))
+  ON CONFLICT (dedupe_key) DO NOTHING
+  RETURNING id INTO v_id;
+
+  RETURN v_id;
+END;
+$$;
+
+-- Order texts only go to signed-in customers who opted in
+CREATE OR REPLACE FUNCTION enqueue_order_sms(
+  p_template_key text,
+  p_order_id uuid,
+  p_send_at timestamptz DEFAULT now()
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_user_id uuid;
+  v_phone text;
+BEGIN
+  SELECT p.id, p.sms_phone
+  INTO v_user_id, v_phone
+  FROM orders o
+  JOIN profiles p ON p.id = o.user_id
+  WHERE o.id = p_order_id
+    AND p.sms_opt_in;
+
+  IF v_phone IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN enqueue_sms(
+    p_template_key,
+    v_phone,
+    '{}'::jsonb,
+    p_template_key || ':' || p_order_id,
+    v_user_id,
+    p_order_id,
+    p_send_at
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION queue_order_sms()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_reminder_hours integer;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF NOT is_online_payment_method(NEW.payment_method) THEN
+      PERFORM enqueue_order_sms('order_confirmed', NEW.id);
+    END IF;
+
+    RETURN NEW;
+  END IF;
+
+  -- Offline orders were confirmed when placed; the dedupe key keeps it to one
+  IF NEW.payment_status = 'paid' AND OLD.payment_status IS DISTINCT FROM 'paid' THEN
+    PERFORM enqueue_order_sms('order_confirmed', NEW.id);
+  END IF;
+
+  IF NEW.status = 'shipped' AND OLD.status IS DISTINCT FROM 'shipped' THEN
+    PERFORM enqueue_order_sms('order_dispatched', NEW.id);
+
+    IF NEW.payment_method = 'cod' THEN
+      SELECT COALESCE((SELECT (value #>> '{}')::integer FROM store_settings WHERE key = 'cod_sms_reminder_hours'), 24)
+      INTO v_reminder_hours;
+
+      PERFORM enqueue_order_sms('cod_delivery_reminder', NEW.id, now() + make_interval(hours => v_reminder_hours));
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS queue_order_sms ON orders;
+CREATE TRIGGER queue_order_sms
+  AFTER INSERT OR UPDATE OF status, payment_status ON orders
+  FOR EACH ROW EXECUTE FUNCTION queue_order_sms();
+
+-- =====================================================
+-- VERIFICATION CODES
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION request_sms_otp(p_phone text)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_phone text := normalize_lk_mobile(p_phone);
+  v_code text;
+  v_otp_id uuid;
+  v_expires_at timestamptz := now() + interval '10 minutes';
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Sign in to add a mobile number';
+  END IF;
+
+  IF v_phone IS NULL THEN
+    RAISE EXCEPTION 'Enter a Sri Lankan mobile number, e.g. 077 123 4567';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM sms_otps
+    WHERE user_id = v_user_id AND created_at > now() - interval '1 minute'
+  ) THEN
+    RAISE EXCEPTION 'Please wait a minute before asking for another code';
+  END IF;
+
+  IF (SELECT COUNT(*) FROM sms_otps WHERE user_id = v_user_id AND created_at > now() - interval '1 hour') >= 5 THEN
+    RAISE EXCEPTION 'Too many codes requested. Try again in an hour';
+  END IF;
+
+  -- Earlier codes stop working once a new one is sent
+  UPDATE sms_otps
+  SET consumed_at = now()
+  WHERE user_id = v_user_id AND consumed_at IS NULL;
+
+  v_code := lpad(((('x' || encode(gen_random_bytes(4), 'hex'))::bit(32)::bigint) % 1000000)::text, 6, '0');
+  v_otp_id := uuid_generate_v4();
+
+  INSERT INTO sms_otps (id, user_id, phone, code_hash, expires_at)
+  VALUES (v_otp_id, v_user_id, v_phone, encode(digest(v_otp_id::text || v_code, 'sha256'), 'hex'), v_expires_at);
+
+  -- Sent even when the otp template is switched off
+  INSERT INTO sms_messages (template_key, phone, user_id, data, dedupe_key)
+  VALUES ('otp', v_phone, v_user_id, jsonb_build_object('code', v_code), 'otp:' || v_otp_id);
+
+  RETURN jsonb_build_object('phone', v_phone, 'expires_at', v_expires_at);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION verify_sms_otp(p_code text)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_otp sms_otps%ROWTYPE;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Sign in to add a mobile number';
+  END IF;
+
+  SELECT * INTO v_otp
+  FROM sms_otps
+  WHERE user_id = v_user_id AND consumed_at IS NULL
+  ORDER BY created_at DESC
+  LIMIT 1
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_otp.expires_at < now() THEN
+    RAISE EXCEPTION 'This code has expired. Ask for a new one';
+  END IF;
+
+  IF v_otp.attempts >= 5 THEN
+    RAISE EXCEPTION 'Too many wrong codes. Ask for a new one';
+  END IF;
+
+  IF encode(digest(v_otp.id::text || btrim(COALESCE(p_code, '')), 'sha256'), 'hex') <> v_otp.code_hash THEN
+    UPDATE sms_otps SET attempts = attempts + 1 WHERE id = v_otp.id;
+    RETURN jsonb_build_object('verified', false, 'attempts_left', 4 - v_otp.attempts);
+  END IF;
+
+  UPDATE sms_otps SET consumed_at = now() WHERE id = v_otp.id;
+
+  PERFORM set_config('kixora.sms_phone_verified', 'true', true);
+
+  UPDATE profiles
+  SET sms_phone = v_otp.phone,
+      sms_opt_in = true,
+      sms_opt_in_at = now(),
+      updated_at = now()
+  WHERE id = v_user_id;
+
+  PERFORM set_config('kixora.sms_phone_verified', '', true);
+
+  RETURN jsonb_build_object('verified', true, 'phone', v_otp.phone);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION set_sms_opt_in(p_opt_in boolean)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Sign in to change notification settings';
+  END IF;
+
+  UPDATE profiles
+  SET sms_opt_in = p_opt_in,
+      sms_opt_in_at = CASE WHEN p_opt_in THEN now() ELSE sms_opt_in_at END,
+      updated_at = now()
+  WHERE id = auth.uid();
+END;
+$$;
+
+-- =====================================================
+-- SENDING
+-- =====================================================
+
+-- Hand out due texts with their template and order data. Texts to customers
+-- who have since opted out, and delivery reminders for orders that are no
+-- longer out for delivery, are skipped rather than sent.
+CREATE OR REPLACE FUNCTION claim_due_sms(p_limit integer DEFAULT 20)
+RETURNS TABLE(
+  id uuid,
+  template_key text,
+  phone text,
+  body_template text,
+  context jsonb
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+#variable_conflict use_column
+BEGIN
+  UPDATE sms_messages sm
+  SET status = 'skipped',
+      last_error = CASE WHEN sm.template_key = 'cod_delivery_reminder' AND o.status <> 'shipped'
+        THEN 'Order is ' || o.status
+        ELSE 'Customer opted out'
+      END
+  FROM orders o, profiles p
+  WHERE sm.order_id = o.id
+    AND p.id = sm.user_id
+    AND sm.status = 'pending'
+    AND sm.next_attempt_at <= now()
+    AND (NOT p.sms_opt_in OR (sm.template_key = 'cod_delivery_reminder' AND o.status <> 'shipped'));
+
+  RETURN QUERY
+  WITH due AS (
+    SELECT sm.id
+    FROM sms_messages sm
+    WHERE sm.status IN ('pending', 'sending')
+      AND sm.next_attempt_at <= now()
+    ORDER BY sm.next_attempt_at
+    LIMIT GREATEST(p_limit, 1)
+    FOR UPDATE SKIP LOCKED
+  ),
+  claimed AS (
+    UPDATE sms_messages sm
+    SET status = 'sending',
+        attempts = sm.attempts + 1,
+        next_attempt_at = now() + interval '10 minutes'
+    FROM due
+    WHERE sm.id = due.id
+    RETURNING sm.*
+  )
+  SELECT
+    c.id,
+    c.template_key,
+    c.phone,
+    t.body,
+    CASE WHEN c.order_id IS NOT NULL
+      THEN COALESCE(email_order_context(c.order_id), '{}'::jsonb)
+      ELSE '{}'::jsonb
+    END || c.data
+  FROM claimed c
+  JOIN sms_templates t ON t.key = c.template_key;
+END;
+$$;
+
+-- Record a send. Failures wait 2, 4, 8 and 16 minutes between attempts and
+-- stay failed after the fifth; codes never stay in the log.
+CREATE OR REPLACE FUNCTION complete_sms(
+  p_id uuid,
+  p_provider text,
+  p_body text DEFAULT NULL,
+  p_error text DEFAULT NULL,
+  p_provider_message_id text DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF p_error IS NULL THEN
+    UPDATE sms_messages
+    SET status = 'sent',
+        provider = p_provider,
+        body = CASE WHEN template_key = 'otp' THEN NULL ELSE p_body END,
+        data = data - 'code',
+        provider_message_id = p_provider_message_id,
+        last_error = NULL,
+        sent_at = now()
+    WHERE id = p_id;
+  ELSE
+    UPDATE sms_messages
+    SET status = CASE WHEN attempts >= 5 THEN 'failed' ELSE 'pending' END,
+        provider = p_provider,
+        body = CASE WHEN template_key = 'otp' THEN NULL ELSE p_body END,
+        -- A code nobody received is useless after its ten minutes
+        data = CASE WHEN attempts >= 5 THEN data - 'code' ELSE data END,
+        last_error = p_error,
+        next_attempt_at = now() + make_interval(mins => power(2, LEAST(attempts, 5))::integer)
+    WHERE id = p_id;
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION retry_sms(p_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  PERFORM require_admin();
+
+  UPDATE sms_messages
+  SET status = 'pending',
+      attempts = 0,
+      next_attempt_at = now(),
+      last_error = NULL
+  WHERE id = p_id
+    AND status IN ('failed', 'sent', 'skipped')
+    AND template_key <> 'otp';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Only sent, failed or skipped order texts can be sent again';
+  END IF;
+END;
+$$;
+
+-- Sending is done by the send-sms edge function; the storefront and admin
+-- screens call it after each change. Schedule it every few minutes as well,
+-- since delivery reminders and retries only become due later.
+
+-- =====================================================
+-- PERMISSIONS
+-- =====================================================
+
+REVOKE EXECUTE ON FUNCTION enqueue_sms(text, text, jsonb, text, uuid, uuid, timestamptz) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION enqueue_order_sms(text, uuid, timestamptz) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION claim_due_sms(integer) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION complete_sms(uuid, text, text, text, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION request_sms_otp(text) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION verify_sms_otp(text) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION set_sms_opt_in(boolean) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION retry_sms(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION request_sms_otp(text) TO authenticated;
+GRANT EXECUTE ON FUNCTION verify_sms_otp(text) TO authenticated;
+GRANT EXECUTE ON FUNCTION set_sms_opt_in(boolean) TO authenticated;
+GRANT EXECUTE ON FUNCTION retry_sms(uuid) TO authenticated;
@@ -0,0 +1,533 @@
+/*
+  # Shipments
+
+  Orders leave the warehouse as one or more shipments, each with its own
+  courier, tracking number and timeline:
+  1. couriers: who can carry a parcel, with a tracking link template.
+     Couriers with an adapter in the sync-shipments edge function (the mock
+     one for now) have their tracking pulled automatically
+  2. shipments and shipment_items: which units of which order lines went in
+     each parcel. An order can be split over several shipments
+  3. shipment_events: the tracking timeline, entered by the store or pulled
+     from the courier. The newest event sets the shipment's status
+  4. create_shipment(): checks the units are still to be shipped, records
+     the dispatch and copies the tracking onto the order for the shipped
+     email and text
+  5. The order follows its shipments: shipped once every unit is in a
+     shipment, delivered once every shipment is. Marking the order
+     delivered by hand closes its open shipments
+  6. get_order_shipments(): the timeline for the order page, for the owner,
+     a guest holding the order link or an admin
+*/
+
+-- =====================================================
+-- COURIERS
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS couriers (
+  code text PRIMARY KEY,
+  name text NOT NULL,
+  -- {{tracking_number}} is replaced with the shipment's tracking number
+  tracking_url_template text,
+  is_active boolean NOT NULL DEFAULT true,
+  sort_order integer NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TRIGGER update_couriers_updated_at
+  BEFORE UPDATE ON couriers
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE couriers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "couriers_public_read" ON couriers
+  FOR SELECT TO anon, authenticated
+  USING (true);
+
+CREATE POLICY "couriers_admin_all" ON couriers
+  FOR ALL TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+INSERT INTO couriers (code, name, tracking_url_template, sort_order) VALUES
+  ('domex', 'Domex', NULL, 1),
+  ('pronto', 'Pronto Lanka', NULL, 2),
+  ('koombiyo', 'Koombiyo Delivery', NULL, 3),
+  ('store', 'Store delivery', NULL, 4),
+  ('mock', 'Mock courier (testing)', NULL, 99)
+ON CONFLICT (code) DO NOTHING;
+
+-- Only for development and test projects
+UPDATE couriers SET is_active = false WHERE code = 'mock';
+
+-- =====================================================
+-- SHIPMENTS
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS shipments (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  shipment_number text UNIQUE NOT NULL,
+  order_id uuid NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  courier_code text NOT NULL REFERENCES couriers(code),
+  tracking_number text,
+  tracking_url text,
+  status text NOT NULL DEFAULT 'dispatched' CHECK (status IN (
+    'dispatched', 'in_transit', 'out_for_delivery', 'failed_attempt', 'delivered', 'returned', 'cancelled'
+  )),
+  notes text,
+  dispatched_at timestamptz NOT NULL DEFAULT now(),
+  delivered_at timestamptz,
+  -- When tracking was last pulled from the courier
+  last_synced_at timestamptz,
+  created_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS shipment_items (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  shipment_id uuid NOT NULL REFERENCES shipments(id) ON DELETE CASCADE,
+  order_item_id uuid NOT NULL REFERENCES order_items(id) ON DELETE CASCADE,
+  quantity integer NOT NULL CHECK (quantity > 0),
+  UNIQUE(shipment_id, order_item_id)
+);
+
+CREATE TABLE IF NOT EXISTS shipment_events (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  shipment_id uuid NOT NULL REFERENCES shipments(id) ON DELETE CASCADE,
+  status text NOT NULL CHECK (status IN (
+    'dispatched', 'in_transit', 'out_for_delivery', 'failed_attempt', 'delivered', 'returned', 'cancelled'
+  )),
+  description text NOT NULL,
+  location text,
+  occurred_at timestamptz NOT NULL DEFAULT now(),
+  source text NOT NULL DEFAULT 'store' CHECK (source IN ('store', 'courier')),
+  -- The courier's own id for the event, so repeated pulls add it once
+  external_id text,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE(shipment_id, external_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_shipments_order ON shipments(order_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_shipments_open ON shipments(last_synced_at NULLS FIRST)
+  WHERE status IN ('dispatched', 'in_transit', 'out_for_delivery', 'failed_attempt');
+CREATE INDEX IF NOT EXISTS idx_shipment_items_order_item ON shipment_items(order_item_id);
+CREATE INDEX IF NOT EXISTS idx_shipment_events_shipment ON shipment_events(shipment_id, occurred_at);
+
+CREATE TRIGGER update_shipments_updated_at
+  BEFORE UPDATE ON shipments
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER audit_shipments_changes
+  AFTER INSERT OR UPDATE OR DELETE ON shipments
+  FOR EACH ROW EXECUTE FUNCTION log_audit_changes();
+
+ALTER TABLE shipments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE shipment_items ENABLE ROW LEVEL SECURITY;
+ALTER TABLE shipment_events ENABLE ROW LEVEL SECURITY;
+
+-- Shipments are created and moved on by the functions below; customers only
+-- read their own
+CREATE POLICY "shipments_own_read" ON shipments
+  FOR SELECT TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM orders
+    WHERE orders.id = shipments.order_id
+      AND orders.user_id = auth.uid()
+  ));
+
+CREATE POLICY "shipments_admin_all" ON shipments
+  FOR ALL TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+CREATE POLICY "shipment_items_own_read" ON shipment_items
+  FOR SELECT TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM shipments
+    JOIN orders ON orders.id = shipments.order_id
+    WHERE shipments.id = shipment_items.shipment_id
+      AND orders.user_id = auth.uid()
+  ));
+
+CREATE POLICY "shipment_items_admin_all" ON shipment_items
+  FOR ALL TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+CREATE POLICY "shipment_events_own_read" ON shipment_events
+  FOR SELECT TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM shipments
+    JOIN orders ON orders.id = shipments.order_id
+    WHERE shipments.id = shipment_events.shipment_id
+      AND orders.user_id = auth.uid()
+  ));
+
+CREATE POLICY "shipment_events_admin_all" ON shipment_events
+  FOR ALL TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+-- =====================================================
+-- ORDER STATUS
+-- =====================================================
+
+-- Units of an order line already in a shipment that wasn't cancelled
+CREATE OR REPLACE FUNCTION shipped_item_quantity(p_order_item_id uuid)
+RETURNS integer
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT COALESCE(SUM(si.quantity), 0)::integer
+  FROM shipment_items si
+  JOIN shipments s ON s.id = si.shipment_id
+  WHERE si.order_item_id = p_order_item_id
+    AND s.status <> 'cancelled';
+$$;
+
+-- Move the order on once all of it has shipped, or all of it has arrived
+CREATE OR REPLACE FUNCTION sync_order_shipping_status(p_order_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_status text;
+  v_fully_shipped boolean;
+  v_all_delivered boolean;
+BEGIN
+  SELECT status INTO v_status FROM orders WHERE id = p_order_id;
+
+  IF v_status IS NULL OR v_status IN ('cancelled', 'refunded') THEN
+    RETURN;
+  END IF;
+
+  SELECT bool_and(shipped_item_quantity(oi.id) >= oi.quantity)
+  INTO v_fully_shipped
+  FROM order_items oi
+  WHERE oi.order_id = p_order_id;
+
+  IF NOT COALESCE(v_fully_shipped, false) THEN
+    RETURN;
+  END IF;
+
+  SELECT bool_and(status IN ('delivered', 'returned'))
+  INTO v_all_delivered
+  FROM shipments
+  WHERE order_id = p_order_id AND status <> 'cancelled';
+
+  IF v_all_delivered AND EXISTS (
+    SELECT 1 FROM shipments WHERE order_id = p_order_id AND status = 'delivered'
+  ) THEN
+    IF v_status <> 'delivered' THEN
+      UPDATE orders SET status = 'delivered', updated_at = now() WHERE id = p_order_id;
+    END IF;
+  ELSIF v_status NOT IN ('shipped', 'delivered') THEN
+    UPDATE orders SET status = 'shipped', updated_at = now() WHERE id = p_order_id;
+  END IF;
+END;
+$$;
+
+-- =====================================================
+-- SHIPPING AN ORDER
+-- =====================================================
+
+-- p_items: [{ "order_item_id": uuid, "quantity": int }]
+CREATE OR REPLACE FUNCTION create_shipment(
+  p_order_id uuid,
+  p_courier_code text,
+  p_items jsonb,
+  p_tracking_number text DEFAULT NULL,
+  p_tracking_url text DEFAULT NULL,
+  p_notes text DEFAULT NULL
+)
+RETURNS shipments
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_order orders;
+  v_courier couriers;
+  v_shipment shipments;
+  v_item record;
+  v_tracking_number text := NULLIF(btrim(p_tracking_number), '');
+  v_tracking_url text := NULLIF(btrim(p_tracking_url), '');
+  v_count integer;
+BEGIN
+  PERFORM require_admin();
+
+  SELECT * INTO v_order FROM orders WHERE id = p_order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF v_order.status IN ('cancelled', 'refunded') THEN
+    RAISE EXCEPTION 'Order % is %', v_order.order_number, v_order.status;
+  END IF;
+
+  IF is_online_payment_method(v_order.payment_method)
+     AND v_order.payment_status NOT IN ('paid', 'partially_refunded') THEN
+    RAISE EXCEPTION 'Order % has not been paid', v_order.order_number;
+  END IF;
+
+  SELECT * INTO v_courier FROM couriers WHERE code = p_courier_code;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Unknown courier: %', p_courier_code;
+  END IF;
+
+  IF jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Choose the items in this shipment';
+  END IF;
+
+  FOR v_item IN
+    SELECT oi.id, oi.product_title, oi.quantity AS ordered, (line->>'quantity')::integer AS quantity
+    FROM jsonb_array_elements(p_items) line
+    LEFT JOIN order_items oi
+      ON oi.id = (line->>'order_item_id')::uuid
+     AND oi.order_id = p_order_id
+  LOOP
+    IF v_item.id IS NULL THEN
+      RAISE EXCEPTION 'Item is not part of order %', v_order.order_number;
+    END IF;
+
+    IF v_item.quantity IS NULL OR v_item.quantity <= 0 THEN
+      RAISE EXCEPTION 'Quantity for % must be at least 1', v_item.product_title;
+    END IF;
+
+    IF shipped_item_quantity(v_item.id) + v_item.quantity > v_item.ordered THEN
+      RAISE EXCEPTION 'Only % of % left to ship',
+        v_item.ordered - shipped_item_quantity(v_item.id), v_item.product_title;
+    END IF;
+  END LOOP;
+
+  IF v_tracking_url IS NULL AND v_tracking_number IS NOT NULL AND v_courier.tracking_url_template IS NOT NULL THEN
+    v_tracking_url := replace(v_courier.tracking_url_template, '{{tracking_number}}', v_tracking_number);
+  END IF;
+
+  SELECT COUNT(*) INTO v_count FROM shipments WHERE order_id = p_order_id;
+
+  INSERT INTO shipments (
+    shipment_number, order_id, courier_code, tracking_number, tracking_url, notes, created_by
+  ) VALUES (
+    v_order.order_number || '-S' || (v_count + 1),
+    p_order_id,
+    p_courier_code,
+    v_tracking_number,
+    v_tracking_url,
+    NULLIF(btrim(p_notes), ''),
+    auth.uid()
+  )
+  RETURNING * INTO v_shipment;
+
+  INSERT INTO shipment_items (shipment_id, order_item_id, quantity)
+  SELECT v_shipment.id, (line->>'order_item_id')::uuid, SUM((line->>'quantity')::integer)
+  FROM jsonb_array_elements(p_items) line
+  GROUP BY (line->>'order_item_id')::uuid;
+
+  INSERT INTO shipment_events (shipment_id, status, description, occurred_at)
+  VALUES (v_shipment.id, 'dispatched', 'Handed to ' || v_courier.name, v_shipment.dispatched_at);
+
+  -- The shipped email and text show the order's tracking, so it follows the
+  -- latest shipment
+  IF v_tracking_number IS NOT NULL OR v_tracking_url IS NOT NULL THEN
+    UPDATE orders
+    SET tracking_number = v_tracking_number,
+        tracking_url = v_tracking_url
+    WHERE id = p_order_id;
+  END IF;
+
+  PERFORM sync_order_shipping_status(p_order_id);
+
+  RETURN v_shipment;
+END;
+$$;
+
+-- Add a step to a shipment's timeline. Called by the store and, with the
+-- service role, by the courier sync. Events older than the latest one are
+-- kept for the timeline but don't change the status.
+CREATE OR REPLACE FUNCTION record_shipment_event(
+  p_shipment_id uuid,
+  p_status text,
+  p_description text,
+  p_location text DEFAULT NULL,
+  p_occurred_at timestamptz DEFAULT now(),
+  p_source text DEFAULT 'store',
+  p_external_id text DEFAULT NULL
+)
+RETURNS shipment_events
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_shipment shipments;
+  v_event shipment_events;
+  v_latest timestamptz;
+BEGIN
+  IF auth.uid() IS NOT NULL THEN
+    PERFORM require_admin();
+  END IF;
+
+  SELECT * INTO v_shipment FROM shipments WHERE id = p_shipment_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Shipment not found';
+  END IF;
+
+  IF v_shipment.status = 'cancelled' THEN
+    RAISE EXCEPTION 'Shipment % was cancelled', v_shipment.shipment_number;
+  END IF;
+
+  IF p_status = 'cancelled' THEN
+    RAISE EXCEPTION 'Use cancel_shipment() to cancel a shipment';
+  END IF;
+
+  SELECT MAX(occurred_at) INTO v_latest FROM shipment_events WHERE shipment_id = p_shipment_id;
+
+  INSERT INTO shipment_events (shipment_id, status, description, location, occurred_at, source, external_id)
+  VALUES (
+    p_shipment_id,
+    p_status,
+    COALESCE(NULLIF(btrim(p_description), ''), initcap(replace(p_status, '_', ' '))),
+    NULLIF(btrim(p_location), ''),
+    COALESCE(p_occurred_at, now()),
+    COALESCE(p_source, 'store'),
+    p_external_id
+  )
+  ON CONFLICT (shipment_id, external_id) DO NOTHING
+  RETURNING * INTO v_event;
+
+  -- Already recorded on an earlier pull
+  IF v_event.id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  IF v_latest IS NULL OR v_event.occurred_at >= v_latest THEN
+    UPDATE shipments
+    SET status = p_status,
+        delivered_at = CASE WHEN p_status = 'delivered' THEN v_event.occurred_at ELSE delivered_at END
+    WHERE id = p_shipment_id;
+
+    PERFORM sync_order_shipping_status(v_shipment.order_id);
+  END IF;
+
+  RETURN v_event;
+END;
+$$;
+
+-- A parcel that never left; its units can be shipped again
+CREATE OR REPLACE FUNCTION cancel_shipment(p_shipment_id uuid, p_reason text DEFAULT NULL)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_shipment shipments;
+BEGIN
+  PERFORM require_admin();
+
+  SELECT * INTO v_shipment FROM shipments WHERE id = p_shipment_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Shipment not found';
+  END IF;
+
+  IF v_shipment.status IN ('delivered', 'returned', 'cancelled') THEN
+    RAISE EXCEPTION 'Shipment % is already %', v_shipment.shipment_number, v_shipment.status;
+  END IF;
+
+  UPDATE shipments SET status = 'cancelled' WHERE id = p_shipment_id;
+
+  INSERT INTO shipment_events (shipment_id, status, description)
+  VALUES (p_shipment_id, 'cancelled', COALESCE(NULLIF(btrim(p_reason), ''), 'Shipment cancelled'));
+END;
+$$;
+
+-- Orders marked delivered by hand close their open shipments
+CREATE OR REPLACE FUNCTION close_shipments_on_delivery()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF NEW.status = 'delivered' AND OLD.status IS DISTINCT FROM 'delivered' THEN
+    INSERT INTO shipment_events (shipment_id, status, description)
+    SELECT id, 'delivered', 'Marked delivered by the store'
+    FROM shipments
+    WHERE order_id = NEW.id
+      AND status IN ('dispatched', 'in_transit', 'out_for_delivery', 'failed_attempt');
+
+    UPDATE shipments
+    SET status = 'delivered',
+        delivered_at = now()
+    WHERE order_id = NEW.id
+      AND status IN ('dispatched', 'in_transit', 'out_for_delivery', 'failed_attempt');
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS close_shipments_on_delivery ON orders;
+CREATE TRIGGER close_shipments_on_delivery
+  AFTER UPDATE OF status ON orders
+  FOR EACH ROW EXECUTE FUNCTION close_shipments_on_delivery();
+
+-- =====================================================
+-- TRACKING FOR CUSTOMERS
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION get_order_shipments(p_order_id uuid, p_access_token text DEFAULT NULL)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM orders
+    WHERE id = p_order_id
+      AND (
+        (auth.uid() IS NOT NULL AND user_id = auth.uid())
+        OR (p_access_token IS NOT NULL AND access_token = p_access_token)
+        OR is_admin()
+      )
+  ) THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  RETURN COALESCE((
+    SELECT jsonb_agg(to_jsonb(s) || jsonb_build_object(
+      'couriers', jsonb_build_object('name', c.name),
+      'shipment_items', COALESCE((
+        SELECT jsonb_agg(to_jsonb(si))
+        FROM shipment_items si
+        WHERE si.shipment_id = s.id
+      ), '[]'::jsonb),
+      'shipment_events', COALESCE((
+        SELECT jsonb_agg(to_jsonb(se) ORDER BY se.occurred_at, se.created_at)
+        FROM shipment_events se
+        WHERE se.shipment_id = s.id
+      ), '[]'::jsonb)
+    ) ORDER BY s.created_at)
+    FROM shipments s
+    JOIN couriers c ON c.code = s.courier_code
+    WHERE s.order_id = p_order_id
+  ), '[]'::jsonb);
+END;
+$$;
+
+-- =====================================================
+-- PERMISSIONS
+-- =====================================================
+
+REVOKE EXECUTE ON FUNCTION sync_order_shipping_status(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION create_shipment(uuid, text, jsonb, text, text, text) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION record_shipment_event(uuid, text, text, text, timestamptz, text, text) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION cancel_shipment(uuid, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION create_shipment(uuid, text, jsonb, text, text, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION record_shipment_event(uuid, text, text, text, timestamptz, text, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION cancel_shipment(uuid, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_order_shipments(uuid, text) TO anon, authenticated;
@@ -0,0 +1,133 @@
+/*
+  # Order Documents
+
+  Invoices, packing slips and address labels are printed from the same
+  order snapshot:
+  1. store_settings.invoice_details: the seller block printed on every
+     document (name, address, contact, tax registration and rate, footer)
+  2. get_order_documents(): orders with their lines, the SKU/size/colour for
+     the warehouse and the tracking for the label. Admins can fetch a batch
+     for bulk printing; a customer, or a guest holding the order link, only
+     their own order
+*/
+
+-- =====================================================
+-- SETTINGS
+-- =====================================================
+
+INSERT INTO store_settings (key, value, description)
+VALUES (
+  'invoice_details',
+  jsonb_build_object(
+    'business_name', 'Kixora',
+    'address', '',
+    'phone', '',
+    'email', '',
+    'tax_number', '',
+    'tax_rate', 0,
+    'footer', 'Thank you for shopping with Kixora.'
+  ),
+  'Seller details printed on invoices, packing slips and labels. Prices include tax at tax_rate percent'
+)
+ON CONFLICT (key) DO NOTHING;
+
+-- =====================================================
+-- DOCUMENT DATA
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION get_order_documents(p_order_ids uuid[], p_access_token text DEFAULT NULL)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_is_admin boolean := is_admin();
+  v_allowed integer;
+BEGIN
+  IF p_order_ids IS NULL OR cardinality(p_order_ids) = 0 THEN
+    RETURN '[]'::jsonb;
+  END IF;
+
+  IF cardinality(p_order_ids) > 200 THEN
+    RAISE EXCEPTION 'Print at most 200 orders at a time';
+  END IF;
+
+  IF NOT v_is_admin THEN
+    IF cardinality(p_order_ids) > 1 THEN
+      RAISE EXCEPTION 'Order not found';
+    END IF;
+
+    SELECT count(*) INTO v_allowed
+    FROM orders
+    WHERE id = p_order_ids[1]
+      AND (
+        (auth.uid() IS NOT NULL AND user_id = auth.uid())
+        OR (p_access_token IS NOT NULL AND access_token = p_access_token)
+      );
+
+    IF v_allowed = 0 THEN
+      RAISE EXCEPTION 'Order not found';
+    END IF;
+  END IF;
+
+  RETURN COALESCE((
+    SELECT jsonb_agg(
+      jsonb_build_object(
+        'id', o.id,
+        'order_number', o.order_number,
+        'created_at', o.created_at,
+        'status', o.status,
+        'payment_status', o.payment_status,
+        'payment_method', o.payment_method,
+        'shipping_method', o.shipping_method,
+        'currency', o.currency,
+        'subtotal', COALESCE(o.subtotal, o.total - COALESCE(o.shipping_cost, 0) + COALESCE(o.discount_amount, 0)),
+        'discount_amount', COALESCE(o.discount_amount, 0),
+        'discount_code', o.discount_code,
+        'shipping_cost', COALESCE(o.shipping_cost, 0),
+        'total', o.total,
+        'shipping_address', o.shipping_address,
+        'billing_address', COALESCE(o.billing_address, o.shipping_address),
+        'notes', o.notes,
+        'customer_name', p.full_name,
+        'customer_email', COALESCE(p.email, o.guest_email),
+        'customer_phone', COALESCE(o.billing_address->>'phone', o.guest_phone),
+        'tracking_number', o.tracking_number,
+        'courier_name', (
+          SELECT c.name
+          FROM shipments s
+          JOIN couriers c ON c.code = s.courier_code
+          WHERE s.order_id = o.id AND s.status <> 'cancelled'
+          ORDER BY s.created_at DESC
+          LIMIT 1
+        ),
+        'items', COALESCE((
+          SELECT jsonb_agg(jsonb_build_object(
+            'id', oi.id,
+            'product_title', oi.product_title,
+            'sku', COALESCE(oi.variant_info->>'sku', pv.sku),
+            'size', COALESCE(oi.variant_info->>'size', pv.size),
+            'color', COALESCE(oi.variant_info->>'color', pv.color),
+            'quantity', oi.quantity,
+            'unit_price', oi.unit_price,
+            'total_price', oi.total_price
+          ) ORDER BY oi.created_at, oi.product_title)
+          FROM order_items oi
+          LEFT JOIN product_variants pv ON pv.id = oi.product_variant_id
+          WHERE oi.order_id = o.id
+        ), '[]'::jsonb)
+      )
+      ORDER BY array_position(p_order_ids, o.id)
+    )
+    FROM orders o
+    LEFT JOIN profiles p ON p.id = o.user_id
+    WHERE o.id = ANY(p_order_ids)
+  ), '[]'::jsonb);
+END;
+$$;
+
+-- =====================================================
+-- PERMISSIONS
+-- =====================================================
+
+GRANT EXECUTE ON FUNCTION get_order_documents(uuid[], text) TO anon, authenticated;
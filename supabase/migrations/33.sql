@@ -0,0 +1,1171 @@
+/*
+  # Offline Payments
+
+  Bank transfer and cash on delivery get workflows of their own instead of
+  sitting in 'pending' until someone edits the order by hand:
+  1. store_settings: bank_transfer_days (3), how long a bank order waits for
+     its money, and cod_rules (order total limits, fee, blocked districts)
+  2. calculate_order_pricing takes the payment method. COD adds its fee to
+     the total, kept in orders.payment_fee, and pricing says why COD is not
+     available for a cart or address
+  3. Bank orders hold their stock for bank_transfer_days through
+     reserved_until, so expire_payment_reservations() cancels the unpaid ones
+     and restores their stock. An order with a slip awaiting review is left
+     alone
+  4. payment_slips: customers upload their transfer slip to
+     payment-slips/<order id>/ in the kixora bucket; staff approve it, which
+     marks the order paid, or reject it with a reason
+  5. cod_collections and cod_remittances: what the courier collected for each
+     COD order and what it paid over to the store, so both sides of a
+     discrepancy are on record
+  6. The COD fee shows on emails and invoices, and the bank transfer email
+     asks for the slip
+*/
+
+-- =====================================================
+-- SETTINGS
+-- =====================================================
+
+INSERT INTO store_settings (key, value, description)
+VALUES
+  ('bank_transfer_days', '3', 'Days a bank transfer order waits for payment before it is cancelled and its stock released'),
+  ('cod_rules',
+   jsonb_build_object('min_order_total', 0, 'max_order_total', 50000, 'fee', 0, 'blocked_districts', '[]'::jsonb),
+   'Cash on delivery limits: order total range in LKR, flat fee and districts where COD is not offered')
+ON CONFLICT (key) DO NOTHING;
+
+CREATE OR REPLACE FUNCTION bank_transfer_days()
+RETURNS integer
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT COALESCE((SELECT (value #>> '{}')::integer FROM store_settings WHERE key = 'bank_transfer_days'), 3);
+$$;
+
+CREATE OR REPLACE FUNCTION cod_rules()
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT jsonb_build_object('min_order_total', 0, 'max_order_total', NULL, 'fee', 0, 'blocked_districts', '[]'::jsonb)
+    || COALESCE((SELECT value FROM store_settings WHERE key = 'cod_rules'), '{}'::jsonb);
+$$;
+
+-- NULL when COD can be offered for this amount and address, otherwise the
+-- reason shown at checkout
+CREATE OR REPLACE FUNCTION cod_unavailable_reason(p_amount decimal, p_shipping_address jsonb)
+RETURNS text
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_rules jsonb := cod_rules();
+  v_country text := COALESCE(NULLIF(trim(p_shipping_address->>'country'), ''), 'Sri Lanka');
+  v_district text := NULLIF(trim(p_shipping_address->>'district'), '');
+  v_min decimal := NULLIF(v_rules->>'min_order_total', '')::decimal;
+  v_max decimal := NULLIF(v_rules->>'max_order_total', '')::decimal;
+BEGIN
+  IF v_country <> 'Sri Lanka' THEN
+    RETURN 'Cash on delivery is only available in Sri Lanka';
+  END IF;
+
+  IF v_district IS NOT NULL AND EXISTS (
+    SELECT 1 FROM jsonb_array_elements_text(COALESCE(v_rules->'blocked_districts', '[]'::jsonb)) d
+    WHERE lower(d) = lower(v_district)
+  ) THEN
+    RETURN 'Cash on delivery is not available in ' || v_district;
+  END IF;
+
+  IF v_max IS NOT NULL AND p_amount > v_max THEN
+    RETURN 'Cash on delivery is only available for orders up to LKR ' || to_char(v_max, 'FM999,999,990');
+  END IF;
+
+  IF v_min IS NOT NULL AND v_min > 0 AND p_amount < v_min THEN
+    RETURN 'Cash on delivery is available for orders of LKR ' || to_char(v_min, 'FM999,999,990') || ' or more';
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+-- =====================================================
+-- PRICING
+-- =====================================================
+
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS payment_fee decimal(10,2) DEFAULT 0 CHECK (payment_fee >= 0);
+
+-- The new payment method parameter is optional, so the cart keeps calling
+-- it without one
+DROP FUNCTION IF EXISTS calculate_order_pricing(jsonb[], text, text, jsonb);
+
+CREATE OR REPLACE FUNCTION calculate_order_pricing(
+  p_order_items jsonb[], -- Array of {variant_id, quantity}
+  p_shipping_method text,
+  p_discount_code text DEFAULT NULL,
+  p_shipping_address jsonb DEFAULT NULL, -- {country, province, district}
+  p_payment_method text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_item jsonb;
+  v_variant_id uuid;
+  v_quantity integer;
+  v_line record;
+  v_lines jsonb := '[]'::jsonb;
+  v_subtotal decimal(10,2) := 0;
+  v_item_count integer := 0;
+  v_weight decimal(10,3) := 0;
+  v_zone shipping_zones;
+  v_method record;
+  v_selected_method jsonb;
+  v_shipping_options jsonb := '[]'::jsonb;
+  v_shipping decimal(10,2) := 0;
+  v_shipping_error text;
+  v_discount jsonb;
+  v_discounts jsonb := '[]'::jsonb;
+  v_discount_total decimal(10,2) := 0;
+  v_discount_error text;
+  v_cod_rules jsonb := cod_rules();
+  v_cod_error text;
+  v_payment_fee decimal(10,2) := 0;
+  v_payment_error text;
+BEGIN
+  IF p_order_items IS NULL OR array_length(p_order_items, 1) IS NULL THEN
+    RAISE EXCEPTION 'Order must contain at least one item';
+  END IF;
+
+  FOREACH v_item IN ARRAY p_order_items
+  LOOP
+    v_variant_id := (v_item->>'variant_id')::uuid;
+    v_quantity := (v_item->>'quantity')::integer;
+
+    IF v_quantity IS NULL OR v_quantity <= 0 THEN
+      RAISE EXCEPTION 'Invalid quantity for variant %', v_variant_id;
+    END IF;
+
+    -- Variant price override wins over the product price
+    SELECT
+      p.id AS product_id,
+      p.title AS product_title,
+      pv.sku,
+      pv.size,
+      pv.color,
+      p.weight_kg,
+      COALESCE(pv.price_override, p.price) AS unit_price
+    INTO v_line
+    FROM product_variants pv
+    JOIN products p ON p.id = pv.product_id
+    WHERE pv.id = v_variant_id
+      AND pv.is_active = true
+      AND p.is_active = true
+      AND p.deleted_at IS NULL;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Product variant not found or unavailable: %', v_variant_id;
+    END IF;
+
+    v_lines := v_lines || jsonb_build_array(jsonb_build_object(
+      'variant_id', v_variant_id,
+      'product_id', v_line.product_id,
+      'product_title', v_line.product_title,
+      'sku', v_line.sku,
+      'size', v_line.size,
+      'color', v_line.color,
+      'quantity', v_quantity,
+      'unit_price', v_line.unit_price,
+      'line_total', v_line.unit_price * v_quantity
+    ));
+
+    v_subtotal := v_subtotal + (v_line.unit_price * v_quantity);
+    v_item_count := v_item_count + v_quantity;
+    v_weight := v_weight + (v_line.weight_kg * v_quantity);
+  END LOOP;
+
+  BEGIN
+    v_zone := resolve_shipping_zone(p_shipping_address);
+  EXCEPTION
+    WHEN OTHERS THEN
+      v_shipping_error := SQLERRM;
+  END;
+
+  -- Every method the zone offers, so checkout can list them with prices
+  FOR v_method IN
+    SELECT * FROM shipping_methods
+    WHERE zone_id = v_zone.id AND is_active = true
+    ORDER BY sort_order, base_rate
+  LOOP
+    v_shipping_options := v_shipping_options || jsonb_build_array(jsonb_build_object(
+      'code', v_method.code,
+      'name', v_method.name,
+      'description', v_method.description,
+      'cost', calculate_shipping_cost(v_method.id, v_subtotal, v_item_count, v_weight),
+      'min_days', v_method.min_days,
+      'max_days', v_method.max_days
+    ));
+  END LOOP;
+
+  SELECT value INTO v_selected_method
+  FROM jsonb_array_elements(v_shipping_options)
+  WHERE value->>'code' = p_shipping_method;
+
+  -- Like discount codes, an unshippable address or a method the zone
+  -- doesn't offer is reported rather than raised
+  IF v_selected_method IS NOT NULL THEN
+    v_shipping := (v_selected_method->>'cost')::decimal;
+  ELSIF v_shipping_error IS NULL THEN
+    v_shipping_error := 'This shipping method is not available for ' || v_zone.name;
+  END IF;
+
+  -- An unusable code doesn't fail pricing; the reason is returned instead
+  IF NULLIF(trim(p_discount_code), '') IS NOT NULL THEN
+    BEGIN
+      v_discount := evaluate_discount_code(p_discount_code, auth.uid(), v_lines, v_subtotal, v_shipping);
+      v_discounts := jsonb_build_array(v_discount);
+      v_discount_total := (v_discount->>'amount')::decimal;
+    EXCEPTION
+      WHEN OTHERS THEN
+        v_discount_error := SQLERRM;
+    END;
+  END IF;
+
+  -- COD is judged on what the courier would collect before its own fee
+  v_cod_error := cod_unavailable_reason(v_subtotal - v_discount_total + v_shipping, p_shipping_address);
+
+  IF p_payment_method = 'cod' THEN
+    IF v_cod_error IS NULL THEN
+      v_payment_fee := COALESCE((v_cod_rules->>'fee')::decimal, 0);
+    ELSE
+      v_payment_error := v_cod_error;
+    END IF;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'lines', v_lines,
+    'subtotal', v_subtotal,
+    'shipping', v_shipping,
+    'shipping_zone', jsonb_build_object('id', v_zone.id, 'name', v_zone.name),
+    'shipping_method', v_selected_method,
+    'shipping_options', v_shipping_options,
+    'shipping_error', v_shipping_error,
+    'discounts', v_discounts,
+    'discount_total', v_discount_total,
+    'discount_code', v_discount->>'code',
+    'discount_error', v_discount_error,
+    'cod', jsonb_build_object(
+      'available', v_cod_error IS NULL,
+      'fee', COALESCE((v_cod_rules->>'fee')::decimal, 0),
+      'reason', v_cod_error
+    ),
+    'payment_fee', v_payment_fee,
+    'payment_error', v_payment_error,
+    'total', v_subtotal - v_discount_total + v_shipping + v_payment_fee,
+    'currency', 'LKR'
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION calculate_order_pricing(jsonb[], text, text, jsonb, text) TO anon, authenticated;
+
+-- =====================================================
+-- PAYMENT SLIPS
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS payment_slips (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  order_id uuid NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  file_path text NOT NULL,
+  file_name text,
+  amount decimal(10,2) CHECK (amount >= 0),
+  reference text,
+  status text NOT NULL DEFAULT 'submitted' CHECK (status IN ('submitted', 'approved', 'rejected')),
+  review_note text,
+  reviewed_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  reviewed_at timestamptz,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_payment_slips_order ON payment_slips(order_id);
+CREATE INDEX IF NOT EXISTS idx_payment_slips_submitted ON payment_slips(created_at) WHERE status = 'submitted';
+
+CREATE TRIGGER audit_payment_slips
+  AFTER INSERT OR UPDATE OR DELETE ON payment_slips
+  FOR EACH ROW EXECUTE FUNCTION log_audit_changes();
+
+ALTER TABLE payment_slips ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "payment_slips_own_read" ON payment_slips
+  FOR SELECT TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM orders
+      WHERE orders.id = payment_slips.order_id
+        AND orders.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "payment_slips_admin_all" ON payment_slips
+  FOR ALL TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+CREATE OR REPLACE FUNCTION has_slip_in_review(p_order_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT EXISTS (SELECT 1 FROM payment_slips WHERE order_id = p_order_id AND status = 'submitted');
+$$;
+
+-- Slips can come in until the order is paid, including after an unpaid
+-- order was cancelled; approving one then revives the order
+CREATE OR REPLACE FUNCTION can_upload_payment_slip(p_order_id text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM orders
+    WHERE id::text = p_order_id
+      AND payment_method = 'bank'
+      AND payment_status IN ('pending', 'expired')
+  );
+$$;
+
+-- Guests upload too, so the order id in the path is what's checked; the
+-- slip only counts once submit_payment_slip() verifies the order link
+DO $$
+BEGIN
+  DROP POLICY IF EXISTS "kixora_payment_slips_insert" ON storage.objects;
+EXCEPTION
+  WHEN undefined_object THEN NULL;
+END $$;
+
+CREATE POLICY "kixora_payment_slips_insert" ON storage.objects
+  FOR INSERT TO anon, authenticated
+  WITH CHECK (
+    bucket_id = 'kixora'
+    AND (storage.foldername(name))[1] = 'payment-slips'
+    AND can_upload_payment_slip((storage.foldername(name))[2])
+  );
+
+CREATE OR REPLACE FUNCTION submit_payment_slip(
+  p_order_id uuid,
+  p_file_path text,
+  p_file_name text DEFAULT NULL,
+  p_amount decimal DEFAULT NULL,
+  p_reference text DEFAULT NULL,
+  p_access_token text DEFAULT NULL
+)
+RETURNS payment_slips
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_order orders;
+  v_slip payment_slips;
+BEGIN
+  SELECT * INTO v_order FROM orders WHERE id = p_order_id FOR UPDATE;
+
+  IF NOT FOUND OR (
+    v_order.user_id IS DISTINCT FROM auth.uid()
+    AND v_order.access_token IS DISTINCT FROM p_access_token
+    AND NOT is_admin()
+  ) THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF v_order.payment_method <> 'bank' THEN
+    RAISE EXCEPTION 'Payment slips are only for bank transfer orders';
+  END IF;
+
+  IF v_order.payment_status NOT IN ('pending', 'expired') THEN
+    RAISE EXCEPTION 'This order has already been paid';
+  END IF;
+
+  IF p_file_path IS NULL OR p_file_path NOT LIKE 'payment-slips/' || p_order_id || '/%' THEN
+    RAISE EXCEPTION 'Invalid slip file';
+  END IF;
+
+  IF p_amount IS NOT NULL AND p_amount < 0 THEN
+    RAISE EXCEPTION 'Amount cannot be negative';
+  END IF;
+
+  INSERT INTO payment_slips (order_id, file_path, file_name, amount, reference)
+  VALUES (p_order_id, p_file_path, NULLIF(trim(p_file_name), ''), p_amount, NULLIF(trim(p_reference), ''))
+  RETURNING * INTO v_slip;
+
+  RETURN v_slip;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION review_payment_slip(
+  p_slip_id uuid,
+  p_approve boolean,
+  p_note text DEFAULT NULL
+)
+RETURNS payment_slips
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_slip payment_slips;
+  v_order orders;
+BEGIN
+  PERFORM require_admin();
+
+  SELECT * INTO v_slip FROM payment_slips WHERE id = p_slip_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Payment slip not found';
+  END IF;
+
+  IF v_slip.status <> 'submitted' THEN
+    RAISE EXCEPTION 'This slip has already been %', v_slip.status;
+  END IF;
+
+  IF NOT p_approve AND NULLIF(trim(p_note), '') IS NULL THEN
+    RAISE EXCEPTION 'Give the customer a reason for rejecting the slip';
+  END IF;
+
+  SELECT * INTO v_order FROM orders WHERE id = v_slip.order_id FOR UPDATE;
+
+  UPDATE payment_slips
+  SET status = CASE WHEN p_approve THEN 'approved' ELSE 'rejected' END,
+      review_note = NULLIF(trim(p_note), ''),
+      reviewed_by = auth.uid(),
+      reviewed_at = now()
+  WHERE id = p_slip_id
+  RETURNING * INTO v_slip;
+
+  IF p_approve THEN
+    IF v_order.payment_status = 'expired' THEN
+      -- Takes the stock again if it is still there; otherwise the order is
+      -- flagged for a refund
+      PERFORM revive_expired_order(v_order.id);
+    ELSIF v_order.payment_status = 'pending' THEN
+      UPDATE orders
+      SET payment_status = 'paid',
+          updated_at = now()
+      WHERE id = v_order.id;
+    END IF;
+  ELSIF v_order.status = 'pending' AND v_order.payment_status = 'pending' THEN
+    -- Leave the customer a day to send a corrected slip
+    UPDATE orders
+    SET reserved_until = GREATEST(reserved_until, now() + interval '1 day'),
+        updated_at = now()
+    WHERE id = v_order.id;
+  END IF;
+
+  RETURN v_slip;
+END;
+$$;
+
+-- Slips for the order page, for the owner, a guest holding the order link
+-- or an admin
+CREATE OR REPLACE FUNCTION get_order_payment_slips(p_order_id uuid, p_access_token text DEFAULT NULL)
+RETURNS SETOF payment_slips
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM orders
+    WHERE id = p_order_id
+      AND (
+        (auth.uid() IS NOT NULL AND user_id = auth.uid())
+        OR (p_access_token IS NOT NULL AND access_token = p_access_token)
+        OR is_admin()
+      )
+  ) THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  RETURN QUERY
+  SELECT * FROM payment_slips
+  WHERE order_id = p_order_id
+  ORDER BY created_at DESC;
+END;
+$$;
+
+-- =====================================================
+-- EXPIRING UNPAID ORDERS
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION payment_expiry_reason(p_payment_method text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN p_payment_method = 'bank' THEN 'The bank transfer was not received in time'
+    ELSE 'Payment was not completed in time'
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION expire_payment_reservations()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_order record;
+  v_count integer := 0;
+BEGIN
+  FOR v_order IN
+    SELECT id, payment_method FROM orders
+    WHERE status = 'pending'
+      AND payment_status = 'pending'
+      AND reserved_until < now()
+      AND NOT has_slip_in_review(id)
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    IF release_order_reservation(v_order.id, 'expired', payment_expiry_reason(v_order.payment_method)) THEN
+      v_count := v_count + 1;
+    END IF;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION check_order_reservation(
+  p_order_id uuid,
+  p_access_token text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_order orders;
+BEGIN
+  SELECT * INTO v_order FROM orders WHERE id = p_order_id;
+
+  IF NOT FOUND OR (
+    v_order.user_id IS DISTINCT FROM auth.uid()
+    AND v_order.access_token IS DISTINCT FROM p_access_token
+    AND NOT is_admin()
+  ) THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF v_order.status = 'pending'
+     AND v_order.payment_status = 'pending'
+     AND v_order.reserved_until < now()
+     AND NOT has_slip_in_review(p_order_id) THEN
+    PERFORM release_order_reservation(p_order_id, 'expired', payment_expiry_reason(v_order.payment_method));
+    SELECT * INTO v_order FROM orders WHERE id = p_order_id;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'status', v_order.status,
+    'payment_status', v_order.payment_status,
+    'reserved_until', v_order.reserved_until,
+    'cancellation_reason', v_order.cancellation_reason,
+    'can_retry', v_order.status = 'pending'
+      AND v_order.payment_status = 'pending'
+      AND v_order.reserved_until > now()
+      AND is_online_payment_method(v_order.payment_method)
+  );
+END;
+$$;
+
+-- =====================================================
+-- ORDER CREATION
+-- =====================================================
+
+-- Passes the payment method to pricing for the COD fee and rules, and gives
+-- bank orders their payment window
+CREATE OR REPLACE FUNCTION create_order_with_stock_management(
+  p_user_id uuid,
+  p_total decimal,
+  p_currency text,
+  p_payment_method text,
+  p_shipping_method text,
+  p_shipping_cost decimal,
+  p_shipping_address jsonb,
+  p_billing_address jsonb,
+  p_order_items jsonb[], -- Array of {variant_id, quantity}
+  p_discount_code text DEFAULT NULL,
+  p_guest_email text DEFAULT NULL,
+  p_guest_phone text DEFAULT NULL
+)
+RETURNS TABLE(order_id uuid, success boolean, error_message text, pricing jsonb, access_token text)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_order_id uuid;
+  v_access_token text;
+  v_guest_email text;
+  v_guest_phone text;
+  v_pricing jsonb;
+  v_total decimal(10,2);
+  v_discount jsonb;
+  v_line jsonb;
+  v_variant_id uuid;
+  v_quantity integer;
+  v_current_stock integer;
+  v_reserved_until timestamptz;
+BEGIN
+  -- Signed-in shoppers order for themselves; guests leave a contact instead
+  IF auth.uid() IS NOT NULL THEN
+    IF p_user_id IS DISTINCT FROM auth.uid() THEN
+      RETURN QUERY SELECT NULL::uuid, false, 'Orders can only be placed for your own account'::text, NULL::jsonb, NULL::text;
+      RETURN;
+    END IF;
+  ELSE
+    v_guest_email := lower(trim(COALESCE(p_guest_email, '')));
+    v_guest_phone := NULLIF(trim(COALESCE(p_guest_phone, '')), '');
+
+    IF p_user_id IS NOT NULL THEN
+      RETURN QUERY SELECT NULL::uuid, false, 'Please sign in again to place this order'::text, NULL::jsonb, NULL::text;
+      RETURN;
+    END IF;
+
+    IF v_guest_email !~ '^[^@\s]+@[^@\s]+\.[^@\s]+$' OR v_guest_phone IS NULL THEN
+      RETURN QUERY SELECT NULL::uuid, false, 'An email address and phone number are required to check out as a guest'::text, NULL::jsonb, NULL::text;
+      RETURN;
+    END IF;
+  END IF;
+
+  IF NOT is_payment_method_enabled(p_payment_method) THEN
+    RETURN QUERY SELECT NULL::uuid, false, ('Unsupported payment method: ' || p_payment_method)::text, NULL::jsonb, NULL::text;
+    RETURN;
+  END IF;
+
+  -- Serialise redemptions of the same code so usage limits hold
+  IF NULLIF(trim(p_discount_code), '') IS NOT NULL THEN
+    PERFORM 1 FROM discount_codes
+    WHERE code = upper(trim(p_discount_code))
+    FOR UPDATE;
+  END IF;
+
+  -- Recalculate every price from the catalogue
+  BEGIN
+    v_pricing := calculate_order_pricing(p_order_items, p_shipping_method, p_discount_code, p_shipping_address, p_payment_method);
+  EXCEPTION
+    WHEN OTHERS THEN
+      RETURN QUERY SELECT NULL::uuid, false, SQLERRM::text, NULL::jsonb, NULL::text;
+      RETURN;
+  END;
+
+  IF v_pricing->>'shipping_error' IS NOT NULL THEN
+    RETURN QUERY SELECT NULL::uuid, false, (v_pricing->>'shipping_error')::text, v_pricing, NULL::text;
+    RETURN;
+  END IF;
+
+  IF v_pricing->>'discount_error' IS NOT NULL THEN
+    RETURN QUERY SELECT NULL::uuid, false, (v_pricing->>'discount_error')::text, v_pricing, NULL::text;
+    RETURN;
+  END IF;
+
+  IF v_pricing->>'payment_error' IS NOT NULL THEN
+    RETURN QUERY SELECT NULL::uuid, false, (v_pricing->>'payment_error')::text, v_pricing, NULL::text;
+    RETURN;
+  END IF;
+
+  v_total := (v_pricing->>'total')::decimal;
+  v_discount := v_pricing->'discounts'->0;
+
+  -- Reject the order if the shopper was shown a different price
+  IF p_total IS DISTINCT FROM v_total
+     OR p_shipping_cost IS DISTINCT FROM (v_pricing->>'shipping')::decimal THEN
+    RETURN QUERY SELECT NULL::uuid, false,
+      ('Prices have changed. Order total is now ' || (v_pricing->>'currency') || ' ' || v_total)::text,
+      v_pricing, NULL::text;
+    RETURN;
+  END IF;
+
+  BEGIN
+    -- Validate stock for all items first
+    FOR v_line IN SELECT value FROM jsonb_array_elements(v_pricing->'lines')
+    LOOP
+      v_variant_id := (v_line->>'variant_id')::uuid;
+      v_quantity := (v_line->>'quantity')::integer;
+
+      SELECT stock INTO v_current_stock
+      FROM product_variants
+      WHERE id = v_variant_id
+      FOR UPDATE; -- Lock the row
+
+      IF v_current_stock < v_quantity THEN
+        RETURN QUERY SELECT NULL::uuid, false,
+          ('Insufficient stock for ' || (v_line->>'product_title') ||
+          '. Available: ' || v_current_stock || ', Requested: ' || v_quantity)::text,
+          v_pricing, NULL::text;
+        RETURN;
+      END IF;
+    END LOOP;
+
+    -- Online payments hold their stock only until the window runs out;
+    -- bank transfers get a few days for the money to arrive
+    IF is_online_payment_method(p_payment_method) THEN
+      v_reserved_until := now() + make_interval(mins => payment_reservation_minutes());
+    ELSIF p_payment_method = 'bank' THEN
+      v_reserved_until := now() + make_interval(days => bank_transfer_days());
+    END IF;
+
+    -- Create the order (order_number will be generated by trigger)
+    INSERT INTO orders (
+      user_id,
+      guest_email,
+      guest_phone,
+      subtotal,
+      discount_amount,
+      discount_code,
+      total,
+      currency,
+      status,
+      payment_status,
+      payment_method,
+      shipping_method,
+      shipping_cost,
+      payment_fee,
+      shipping_zone_id,
+      shipping_address,
+      billing_address,
+      reserved_until
+    )
+    VALUES (
+      p_user_id,
+      v_guest_email,
+      v_guest_phone,
+      (v_pricing->>'subtotal')::decimal,
+      (v_pricing->>'discount_total')::decimal,
+      v_pricing->>'discount_code',
+      v_total,
+      COALESCE(v_pricing->>'currency', p_currency),
+      'pending',
+      'pending',
+      p_payment_method,
+      p_shipping_method,
+      (v_pricing->>'shipping')::decimal,
+      (v_pricing->>'payment_fee')::decimal,
+      (v_pricing->'shipping_zone'->>'id')::uuid,
+      p_shipping_address,
+      p_billing_address,
+      v_reserved_until
+    )
+    RETURNING id, orders.access_token INTO v_order_id, v_access_token;
+
+    -- Record the redemption against the code's usage limits
+    IF v_discount IS NOT NULL THEN
+      INSERT INTO discount_redemptions (discount_code_id, order_id, user_id, amount)
+      VALUES ((v_discount->>'id')::uuid, v_order_id, p_user_id, (v_discount->>'amount')::decimal);
+    END IF;
+
+    PERFORM set_stock_movement_context('order', v_order_id);
+
+    -- Create order items from the server-side breakdown and update stock
+    FOR v_line IN SELECT value FROM jsonb_array_elements(v_pricing->'lines')
+    LOOP
+      v_variant_id := (v_line->>'variant_id')::uuid;
+      v_quantity := (v_line->>'quantity')::integer;
+
+      INSERT INTO order_items (
+        order_id,
+        product_variant_id,
+        product_title,
+        variant_info,
+        quantity,
+        unit_price,
+        total_price
+      )
+      VALUES (
+        v_order_id,
+        v_variant_id,
+        v_line->>'product_title',
+        jsonb_build_object(
+          'size', v_line->>'size',
+          'color', v_line->>'color',
+          'sku', v_line->>'sku'
+        ),
+        v_quantity,
+        (v_line->>'unit_price')::decimal,
+        (v_line->>'line_total')::decimal
+      );
+
+      -- Reserve stock for every payment method; abandoned online payments
+      -- give it back through expire_payment_reservations
+      UPDATE product_variants
+      SET stock = stock - v_quantity,
+          updated_at = now()
+      WHERE id = v_variant_id;
+    END LOOP;
+
+    RETURN QUERY SELECT v_order_id, true, 'Order created successfully'::text, v_pricing, v_access_token;
+
+  EXCEPTION
+    WHEN OTHERS THEN
+      -- Rollback happens automatically
+      RETURN QUERY SELECT NULL::uuid, false, ('Order creation failed: ' || SQLERRM)::text, v_pricing, NULL::text;
+  END;
+END;
+$$;
+
+-- =====================================================
+-- COD RECONCILIATION
+-- =====================================================
+
+-- One payout from a courier, covering any number of collections
+CREATE TABLE IF NOT EXISTS cod_remittances (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  courier_code text REFERENCES couriers(code),
+  reference text NOT NULL,
+  amount decimal(10,2) NOT NULL CHECK (amount >= 0),
+  remitted_on date NOT NULL DEFAULT current_date,
+  note text,
+  created_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+-- Cash the courier collected for one COD order
+CREATE TABLE IF NOT EXISTS cod_collections (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  order_id uuid NOT NULL UNIQUE REFERENCES orders(id) ON DELETE CASCADE,
+  courier_code text REFERENCES couriers(code),
+  expected_amount decimal(10,2) NOT NULL CHECK (expected_amount >= 0),
+  collected_amount decimal(10,2) NOT NULL CHECK (collected_amount >= 0),
+  collected_at timestamptz NOT NULL DEFAULT now(),
+  remittance_id uuid REFERENCES cod_remittances(id) ON DELETE SET NULL,
+  note text,
+  created_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_cod_collections_unremitted ON cod_collections(collected_at) WHERE remittance_id IS NULL;
+CREATE INDEX IF NOT EXISTS idx_cod_collections_remittance ON cod_collections(remittance_id);
+
+CREATE TRIGGER update_cod_collections_updated_at
+  BEFORE UPDATE ON cod_collections
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER audit_cod_collections
+  AFTER INSERT OR UPDATE OR DELETE ON cod_collections
+  FOR EACH ROW EXECUTE FUNCTION log_audit_changes();
+
+CREATE TRIGGER audit_cod_remittances
+  AFTER INSERT OR UPDATE OR DELETE ON cod_remittances
+  FOR EACH ROW EXECUTE FUNCTION log_audit_changes();
+
+ALTER TABLE cod_remittances ENABLE ROW LEVEL SECURITY;
+ALTER TABLE cod_collections ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "cod_remittances_admin_all" ON cod_remittances
+  FOR ALL TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+CREATE POLICY "cod_collections_admin_all" ON cod_collections
+  FOR ALL TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+-- Records (or corrects, until it is remitted) what the courier collected.
+-- Cash in the courier's hands counts as the customer having paid.
+CREATE OR REPLACE FUNCTION record_cod_collection(
+  p_order_id uuid,
+  p_collected_amount decimal,
+  p_note text DEFAULT NULL
+)
+RETURNS cod_collections
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_order orders;
+  v_courier text;
+  v_collection cod_collections;
+BEGIN
+  PERFORM require_admin();
+
+  SELECT * INTO v_order FROM orders WHERE id = p_order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF v_order.payment_method <> 'cod' THEN
+    RAISE EXCEPTION 'Only cash on delivery orders are collected by the courier';
+  END IF;
+
+  IF v_order.status = 'cancelled' THEN
+    RAISE EXCEPTION 'This order was cancelled';
+  END IF;
+
+  IF p_collected_amount IS NULL OR p_collected_amount < 0 THEN
+    RAISE EXCEPTION 'Enter the amount the courier collected';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM cod_collections WHERE order_id = p_order_id AND remittance_id IS NOT NULL) THEN
+    RAISE EXCEPTION 'This collection has already been remitted';
+  END IF;
+
+  SELECT courier_code INTO v_courier
+  FROM shipments
+  WHERE order_id = p_order_id AND status <> 'cancelled'
+  ORDER BY created_at DESC
+  LIMIT 1;
+
+  INSERT INTO cod_collections (order_id, courier_code, expected_amount, collected_amount, note, created_by)
+  VALUES (p_order_id, v_courier, v_order.total, p_collected_amount, NULLIF(trim(p_note), ''), auth.uid())
+  ON CONFLICT (order_id) DO UPDATE
+  SET collected_amount = EXCLUDED.collected_amount,
+      note = EXCLUDED.note,
+      courier_code = COALESCE(EXCLUDED.courier_code, cod_collections.courier_code)
+  RETURNING * INTO v_collection;
+
+  IF p_collected_amount > 0 AND v_order.payment_status = 'pending' THEN
+    UPDATE orders
+    SET payment_status = 'paid',
+        updated_at = now()
+    WHERE id = p_order_id;
+  END IF;
+
+  RETURN v_collection;
+END;
+$$;
+
+-- Settles a set of collections against one courier payout
+CREATE OR REPLACE FUNCTION record_cod_remittance(
+  p_collection_ids uuid[],
+  p_reference text,
+  p_amount decimal,
+  p_remitted_on date DEFAULT current_date,
+  p_note text DEFAULT NULL
+)
+RETURNS cod_remittances
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_couriers text[];
+  v_found integer;
+  v_remittance cod_remittances;
+BEGIN
+  PERFORM require_admin();
+
+  IF p_collection_ids IS NULL OR cardinality(p_collection_ids) = 0 THEN
+    RAISE EXCEPTION 'Select the collections this payout covers';
+  END IF;
+
+  IF NULLIF(trim(p_reference), '') IS NULL THEN
+    RAISE EXCEPTION 'Enter the payout reference';
+  END IF;
+
+  IF p_amount IS NULL OR p_amount < 0 THEN
+    RAISE EXCEPTION 'Enter the amount remitted';
+  END IF;
+
+  SELECT count(*), array_agg(DISTINCT COALESCE(courier_code, ''))
+  INTO v_found, v_couriers
+  FROM cod_collections
+  WHERE id = ANY(p_collection_ids) AND remittance_id IS NULL;
+
+  IF v_found <> cardinality(p_collection_ids) THEN
+    RAISE EXCEPTION 'Some of these collections are missing or already remitted';
+  END IF;
+
+  IF cardinality(v_couriers) > 1 THEN
+    RAISE EXCEPTION 'A payout can only cover collections from one courier';
+  END IF;
+
+  INSERT INTO cod_remittances (courier_code, reference, amount, remitted_on, note, created_by)
+  VALUES (NULLIF(v_couriers[1], ''), trim(p_reference), p_amount, COALESCE(p_remitted_on, current_date), NULLIF(trim(p_note), ''), auth.uid())
+  RETURNING * INTO v_remittance;
+
+  UPDATE cod_collections
+  SET remittance_id = v_remittance.id
+  WHERE id = ANY(p_collection_ids);
+
+  RETURN v_remittance;
+END;
+$$;
+
+-- =====================================================
+-- FEE ON EMAILS AND DOCUMENTS
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION email_order_context(p_order_id uuid)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT jsonb_build_object(
+    'order_id', o.id,
+    'order_number', o.order_number,
+    'order_date', o.created_at,
+    'customer_name', COALESCE(
+      NULLIF(btrim(concat_ws(' ', o.shipping_address->>'firstName', o.shipping_address->>'lastName')), ''),
+      p.full_name,
+      'there'
+    ),
+    'status', o.status,
+    'payment_method', o.payment_method,
+    'payment_status', o.payment_status,
+    'currency', COALESCE(o.currency, 'LKR'),
+    'subtotal', o.subtotal,
+    'discount_amount', COALESCE(o.discount_amount, 0),
+    'shipping_cost', COALESCE(o.shipping_cost, 0),
+    'payment_fee', COALESCE(o.payment_fee, 0),
+    'total', o.total,
+    'shipping_address', o.shipping_address,
+    'tracking_number', o.tracking_number,
+    'tracking_url', o.tracking_url,
+    'cancellation_reason', COALESCE(NULLIF(o.cancellation_reason, ''), 'Cancelled'),
+    -- Guests have no account to sign in to, so their links carry the token
+    'access_token', CASE WHEN o.user_id IS NULL THEN o.access_token END,
+    'bank_transfer_details', CASE WHEN o.payment_method = 'bank'
+      THEN (SELECT value FROM store_settings WHERE key = 'bank_transfer_details') END,
+    'items', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'title', oi.product_title,
+        'size', oi.variant_info->>'size',
+        'color', oi.variant_info->>'color',
+        'quantity', oi.quantity,
+        'unit_price', oi.unit_price,
+        'total_price', oi.total_price
+      ) ORDER BY oi.created_at)
+      FROM order_items oi
+      WHERE oi.order_id = o.id
+    ), '[]'::jsonb)
+  )
+  FROM orders o
+  LEFT JOIN profiles p ON p.id = o.user_id
+  WHERE o.id = p_order_id;
+$$;
+
+CREATE OR REPLACE FUNCTION get_order_documents(p_order_ids uuid[], p_access_token text DEFAULT NULL)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_is_admin boolean := is_admin();
+  v_allowed integer;
+BEGIN
+  IF p_order_ids IS NULL OR cardinality(p_order_ids) = 0 THEN
+    RETURN '[]'::jsonb;
+  END IF;
+
+  IF cardinality(p_order_ids) > 200 THEN
+    RAISE EXCEPTION 'Print at most 200 orders at a time';
+  END IF;
+
+  IF NOT v_is_admin THEN
+    IF cardinality(p_order_ids) > 1 THEN
+      RAISE EXCEPTION 'Order not found';
+    END IF;
+
+    SELECT count(*) INTO v_allowed
+    FROM orders
+    WHERE id = p_order_ids[1]
+      AND (
+        (auth.uid() IS NOT NULL AND user_id = auth.uid())
+        OR (p_access_token IS NOT NULL AND access_token = p_access_token)
+      );
+
+    IF v_allowed = 0 THEN
+      RAISE EXCEPTION 'Order not found';
+    END IF;
+  END IF;
+
+  RETURN COALESCE((
+    SELECT jsonb_agg(
+      jsonb_build_object(
+        'id', o.id,
+        'order_number', o.order_number,
+        'created_at', o.created_at,
+        'status', o.status,
+        'payment_status', o.payment_status,
+        'payment_method', o.payment_method,
+        'shipping_method', o.shipping_method,
+        'currency', o.currency,
+        'subtotal', COALESCE(o.subtotal, o.total - COALESCE(o.shipping_cost, 0) - COALESCE(o.payment_fee, 0) + COALESCE(o.discount_amount, 0)),
+        'discount_amount', COALESCE(o.discount_amount, 0),
+        'discount_code', o.discount_code,
+        'shipping_cost', COALESCE(o.shipping_cost, 0),
+        'payment_fee', COALESCE(o.payment_fee, 0),
+        'total', o.total,
+        'shipping_address', o.shipping_address,
+        'billing_address', COALESCE(o.billing_address, o.shipping_address),
+        'notes', o.notes,
+        'customer_name', p.full_name,
+        'customer_email', COALESCE(p.email, o.guest_email),
+        'customer_phone', COALESCE(o.billing_address->>'phone', o.guest_phone),
+        'tracking_number', o.tracking_number,
+        'courier_name', (
+          SELECT c.name
+          FROM shipments s
+          JOIN couriers c ON c.code = s.courier_code
+          WHERE s.order_id = o.id AND s.status <> 'cancelled'
+          ORDER BY s.created_at DESC
+          LIMIT 1
+        ),
+        'items', COALESCE((
+          SELECT jsonb_agg(jsonb_build_object(
+            'id', oi.id,
+            'product_title', oi.product_title,
+            'sku', COALESCE(oi.variant_info->>'sku', pv.sku),
+            'size', COALESCE(oi.variant_info->>'size', pv.size),
+            'color', COALESCE(oi.variant_info->>'color', pv.color),
+            'quantity', oi.quantity,
+            'unit_price', oi.unit_price,
+            'total_price', oi.total_price
+          ) ORDER BY oi.created_at, oi.product_title)
+          FROM order_items oi
+          LEFT JOIN product_variants pv ON pv.id = oi.product_variant_id
+          WHERE oi.order_id = o.id
+        ), '[]'::jsonb)
+      )
+      ORDER BY array_position(p_order_ids, o.id)
+    )
+    FROM orders o
+    LEFT JOIN profiles p ON p.id = o.user_id
+    WHERE o.id = ANY(p_order_ids)
+  ), '[]'::jsonb);
+END;
+$$;
+
+-- Point bank transfer customers at the slip upload, unless the template
+-- has already been reworded
+UPDATE email_templates
+SET body_html = replace(
+      body_html,
+      '<p>We''ll confirm your order as soon as the payment reaches us.</p>',
+      '<p>Once you have paid, upload your payment slip on the order page and we''ll confirm your order as soon as we have checked it. Orders that are not paid in time are cancelled.</p>'
+    ),
+    updated_at = now()
+WHERE key = 'bank_transfer_instructions'
+  AND body_html LIKE '%We''ll confirm your order as soon as the payment reaches us.%';
+
+-- =====================================================
+-- PERMISSIONS
+-- =====================================================
+
+REVOKE EXECUTE ON FUNCTION email_order_context(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION expire_payment_reservations() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION review_payment_slip(uuid, boolean, text) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION record_cod_collection(uuid, decimal, text) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION record_cod_remittance(uuid[], text, decimal, date, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION create_order_with_stock_management TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION check_order_reservation(uuid, text) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION submit_payment_slip(uuid, text, text, decimal, text, text) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION get_order_payment_slips(uuid, text) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION can_upload_payment_slip(text) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION review_payment_slip(uuid, boolean, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION record_cod_collection(uuid, decimal, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION record_cod_remittance(uuid[], text, decimal, date, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_order_documents(uuid[], text) TO anon, authenticated;
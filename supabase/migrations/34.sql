@@ -0,0 +1,327 @@
+/*
+  # Product Search
+
+  Replaces the storefront's title ILIKE search:
+  1. pg_trgm for typo tolerant matching
+  2. product_search_index: one row per product with a weighted tsvector
+     (title and brand, then category, then SKUs and colours, then the
+     description) and a plain text copy for trigram matching. Kept in step by
+     triggers on products, product_variants, brands and categories
+  3. search_products(): ranked product ids for a query. Words are matched
+     stemmed and as prefixes, so half-typed words count, and near misses
+     ("nkie") fall back to trigram similarity
+  4. search_autocomplete(): products, categories and collections for the
+     header search box
+  5. search_suggestions(): "did you mean" phrases for a search with no results
+*/
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- =====================================================
+-- SEARCH INDEX
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS product_search_index (
+  product_id uuid PRIMARY KEY REFERENCES products(id) ON DELETE CASCADE,
+  document tsvector NOT NULL,
+  -- Title, brand, category, SKUs and colours, lower-cased
+  search_text text NOT NULL,
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_product_search_document ON product_search_index USING gin (document);
+CREATE INDEX IF NOT EXISTS idx_product_search_trgm ON product_search_index USING gin (search_text gin_trgm_ops);
+
+-- Only read through the search functions below
+ALTER TABLE product_search_index ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION refresh_product_search(p_product_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_product record;
+  v_variants text;
+BEGIN
+  SELECT p.title, p.description, p.sku, b.name AS brand, c.name AS category
+  INTO v_product
+  FROM products p
+  LEFT JOIN brands b ON b.id = p.brand_id
+  LEFT JOIN categories c ON c.id = p.category_id
+  WHERE p.id = p_product_id;
+
+  IF NOT FOUND THEN
+    DELETE FROM product_search_index WHERE product_id = p_product_id;
+    RETURN;
+  END IF;
+
+  SELECT string_agg(DISTINCT concat_ws(' ', v.sku, v.color), ' ')
+  INTO v_variants
+  FROM product_variants v
+  WHERE v.product_id = p_product_id AND v.is_active;
+
+  INSERT INTO product_search_index (product_id, document, search_text, updated_at)
+  VALUES (
+    p_product_id,
+    setweight(to_tsvector('english', COALESCE(v_product.title, '')), 'A')
+      || setweight(to_tsvector('simple', COALESCE(v_product.brand, '')), 'A')
+      || setweight(to_tsvector('english', COALESCE(v_product.category, '')), 'B')
+      || setweight(to_tsvector('simple', concat_ws(' ', v_product.sku, v_variants)), 'C')
+      || setweight(to_tsvector('english', COALESCE(v_product.description, '')), 'D'),
+    lower(concat_ws(' ', v_product.title, v_product.brand, v_product.category, v_product.sku, v_variants)),
+    now()
+  )
+  ON CONFLICT (product_id) DO UPDATE
+  SET document = EXCLUDED.document,
+      search_text = EXCLUDED.search_text,
+      updated_at = EXCLUDED.updated_at;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION sync_product_search()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_product_id uuid;
+BEGIN
+  IF TG_TABLE_NAME = 'products' THEN
+    PERFORM refresh_product_search(NEW.id);
+  ELSIF TG_TABLE_NAME = 'product_variants' THEN
+    IF TG_OP IN ('UPDATE', 'DELETE') AND OLD.product_id IS NOT NULL THEN
+      PERFORM refresh_product_search(OLD.product_id);
+    END IF;
+    IF TG_OP = 'INSERT' OR (TG_OP = 'UPDATE' AND NEW.product_id IS DISTINCT FROM OLD.product_id) THEN
+      PERFORM refresh_product_search(NEW.product_id);
+    END IF;
+  ELSIF TG_TABLE_NAME = 'brands' THEN
+    FOR v_product_id IN SELECT id FROM products WHERE brand_id = NEW.id LOOP
+      PERFORM refresh_product_search(v_product_id);
+    END LOOP;
+  ELSIF TG_TABLE_NAME = 'categories' THEN
+    FOR v_product_id IN SELECT id FROM products WHERE category_id = NEW.id LOOP
+      PERFORM refresh_product_search(v_product_id);
+    END LOOP;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS sync_product_search ON products;
+CREATE TRIGGER sync_product_search
+  AFTER INSERT OR UPDATE OF title, description, sku, brand_id, category_id ON products
+  FOR EACH ROW EXECUTE FUNCTION sync_product_search();
+
+DROP TRIGGER IF EXISTS sync_product_search ON product_variants;
+CREATE TRIGGER sync_product_search
+  AFTER INSERT OR UPDATE OF product_id, sku, color, is_active OR DELETE ON product_variants
+  FOR EACH ROW EXECUTE FUNCTION sync_product_search();
+
+DROP TRIGGER IF EXISTS sync_product_search ON brands;
+CREATE TRIGGER sync_product_search
+  AFTER UPDATE OF name ON brands
+  FOR EACH ROW EXECUTE FUNCTION sync_product_search();
+
+DROP TRIGGER IF EXISTS sync_product_search ON categories;
+CREATE TRIGGER sync_product_search
+  AFTER UPDATE OF name ON categories
+  FOR EACH ROW EXECUTE FUNCTION sync_product_search();
+
+SELECT refresh_product_search(id) FROM products;
+
+-- =====================================================
+-- SEARCH
+-- =====================================================
+
+-- Lower-cased words of a query, punctuation dropped
+CREATE OR REPLACE FUNCTION search_words(p_query text)
+RETURNS text[]
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT COALESCE(array_agg(word), '{}')
+  FROM regexp_split_to_table(lower(COALESCE(p_query, '')), '[^[:alnum:]]+') AS word
+  WHERE word <> '';
+$$;
+
+CREATE OR REPLACE FUNCTION search_products(p_query text, p_limit integer DEFAULT 500)
+RETURNS TABLE (product_id uuid, rank real)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_words text[] := search_words(p_query);
+  v_text text := array_to_string(search_words(p_query), ' ');
+  v_stemmed tsquery;
+  v_prefix tsquery;
+BEGIN
+  IF cardinality(v_words) = 0 THEN
+    RETURN;
+  END IF;
+
+  v_stemmed := websearch_to_tsquery('english', p_query);
+  -- Every word as a prefix, so "air ma" already finds "Air Max"
+  v_prefix := to_tsquery('simple', array_to_string(
+    ARRAY(SELECT quote_literal(word) || ':*' FROM unnest(v_words) AS word),
+    ' & '
+  ));
+
+  PERFORM set_config('pg_trgm.word_similarity_threshold', '0.45', true);
+
+  RETURN QUERY
+  SELECT s.product_id,
+         (ts_rank_cd(s.document, v_stemmed) * 2
+           + ts_rank_cd(s.document, v_prefix)
+           + word_similarity(v_text, s.search_text)
+           + CASE WHEN lower(p.title) = v_text THEN 1 ELSE 0 END)::real AS rank
+  FROM product_search_index s
+  JOIN products p ON p.id = s.product_id
+  WHERE p.is_active
+    AND p.deleted_at IS NULL
+    AND (
+      s.document @@ v_stemmed
+      OR s.document @@ v_prefix
+      OR v_text <% s.search_text
+    )
+  -- By position, since rank is also the name of an output column
+  ORDER BY 2 DESC, p.created_at DESC
+  LIMIT LEAST(GREATEST(COALESCE(p_limit, 500), 1), 1000);
+END;
+$$;
+
+-- Up to p_limit of each: matching products, categories and collections
+CREATE OR REPLACE FUNCTION search_autocomplete(p_query text, p_limit integer DEFAULT 6)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_text text := array_to_string(search_words(p_query), ' ');
+  v_limit integer := LEAST(GREATEST(COALESCE(p_limit, 6), 1), 20);
+BEGIN
+  IF length(v_text) < 2 THEN
+    RETURN jsonb_build_object('products', '[]'::jsonb, 'categories', '[]'::jsonb, 'collections', '[]'::jsonb);
+  END IF;
+
+  RETURN jsonb_build_object(
+    'products', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'id', p.id,
+        'slug', p.slug,
+        'title', p.title,
+        'price', p.price,
+        'brand', b.name,
+        'image', (
+          SELECT pi.storage_path FROM product_images pi
+          WHERE pi.product_id = p.id
+          ORDER BY pi.is_primary DESC, pi.display_order
+          LIMIT 1
+        )
+      ) ORDER BY hit.rank DESC)
+      FROM search_products(p_query, v_limit) hit
+      JOIN products p ON p.id = hit.product_id
+      LEFT JOIN brands b ON b.id = p.brand_id
+    ), '[]'::jsonb),
+    'categories', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('slug', c.slug, 'name', c.name) ORDER BY c.score DESC, c.name)
+      FROM (
+        SELECT slug, name, word_similarity(v_text, lower(name)) AS score
+        FROM categories
+        WHERE strpos(lower(name), v_text) > 0 OR word_similarity(v_text, lower(name)) >= 0.5
+        ORDER BY score DESC, name
+        LIMIT v_limit
+      ) c
+    ), '[]'::jsonb),
+    'collections', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('slug', c.slug, 'name', c.name) ORDER BY c.score DESC, c.name)
+      FROM (
+        SELECT slug, name, word_similarity(v_text, lower(name)) AS score
+        FROM collections
+        WHERE is_active
+          AND (strpos(lower(name), v_text) > 0 OR word_similarity(v_text, lower(name)) >= 0.5)
+        ORDER BY score DESC, name
+        LIMIT v_limit
+      ) c
+    ), '[]'::jsonb)
+  );
+END;
+$$;
+
+-- Corrected spellings of a query, built from the words the catalog actually
+-- uses, followed by the closest product titles
+CREATE OR REPLACE FUNCTION search_suggestions(p_query text, p_limit integer DEFAULT 3)
+RETURNS text[]
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_words text[] := search_words(p_query);
+  v_text text := array_to_string(search_words(p_query), ' ');
+  v_lexicon text[];
+  v_word text;
+  v_match text;
+  v_corrected text[] := '{}';
+  v_suggestions text[] := '{}';
+BEGIN
+  IF cardinality(v_words) = 0 THEN
+    RETURN v_suggestions;
+  END IF;
+
+  SELECT array_agg(DISTINCT word)
+  INTO v_lexicon
+  FROM (
+    SELECT regexp_split_to_table(s.search_text, '[^[:alnum:]]+') AS word
+    FROM product_search_index s
+    JOIN products p ON p.id = s.product_id
+    WHERE p.is_active AND p.deleted_at IS NULL
+    UNION ALL
+    SELECT regexp_split_to_table(lower(name), '[^[:alnum:]]+') FROM categories
+    UNION ALL
+    SELECT regexp_split_to_table(lower(name), '[^[:alnum:]]+') FROM collections WHERE is_active
+  ) words
+  WHERE length(word) > 1;
+
+  FOREACH v_word IN ARRAY v_words LOOP
+    IF v_word = ANY(COALESCE(v_lexicon, '{}')) THEN
+      v_match := v_word;
+    ELSE
+      SELECT candidate INTO v_match
+      FROM unnest(COALESCE(v_lexicon, '{}')) AS candidate
+      WHERE similarity(candidate, v_word) >= 0.3
+      ORDER BY similarity(candidate, v_word) DESC, length(candidate)
+      LIMIT 1;
+    END IF;
+
+    v_corrected := v_corrected || COALESCE(v_match, v_word);
+  END LOOP;
+
+  IF array_to_string(v_corrected, ' ') <> v_text THEN
+    v_suggestions := v_suggestions || array_to_string(v_corrected, ' ');
+  END IF;
+
+  SELECT v_suggestions || COALESCE(array_agg(title), '{}')
+  INTO v_suggestions
+  FROM (
+    SELECT p.title
+    FROM products p
+    WHERE p.is_active AND p.deleted_at IS NULL
+      AND similarity(lower(p.title), v_text) >= 0.2
+    ORDER BY similarity(lower(p.title), v_text) DESC
+    LIMIT GREATEST(COALESCE(p_limit, 3), 1)
+  ) closest;
+
+  RETURN v_suggestions[1:GREATEST(COALESCE(p_limit, 3), 1)];
+END;
+$$;
+
+-- =====================================================
+-- PERMISSIONS
+-- =====================================================
+
+REVOKE EXECUTE ON FUNCTION refresh_product_search(uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION search_products(text, integer) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION search_autocomplete(text, integer) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION search_suggestions(text, integer) TO anon, authenticated;
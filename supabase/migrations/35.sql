@@ -0,0 +1,324 @@
+/*
+  # Catalogue Query
+
+  Moves product listing filters and paging into the database so counts stay
+  right as the catalogue grows:
+  1. catalog_product_card(): a product in the shape ProductsPage renders
+     (category, brand, images and active variants)
+  2. catalog_products(): one page of products matching category, brands,
+     collection, price range, minimum rating, sizes, colours, in-stock-only
+     and search, with the total and facet counts for the filter sidebar.
+     Each facet is counted with every other filter applied but not its own,
+     so picking a brand still shows what the other brands would give.
+     Sizes, colours and in-stock-only have to hold for the same variant
+  3. Indexes for the variant and collection lookups
+*/
+
+-- =====================================================
+-- INDEXES
+-- =====================================================
+
+CREATE INDEX IF NOT EXISTS idx_product_variants_product_active
+  ON product_variants(product_id) WHERE is_active IS NOT FALSE;
+
+CREATE INDEX IF NOT EXISTS idx_collection_products_product
+  ON collection_products(product_id);
+
+CREATE INDEX IF NOT EXISTS idx_products_listing
+  ON products(created_at DESC, id) WHERE is_active AND deleted_at IS NULL;
+
+-- =====================================================
+-- HELPERS
+-- =====================================================
+
+-- Values of a jsonb array filter, or NULL when the filter is not set
+CREATE OR REPLACE FUNCTION catalog_filter_values(p_values jsonb, p_lower boolean DEFAULT false)
+RETURNS text[]
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT NULLIF(
+    ARRAY(
+      SELECT CASE WHEN p_lower THEN lower(btrim(value)) ELSE btrim(value) END
+      FROM jsonb_array_elements_text(
+        CASE WHEN jsonb_typeof(p_values) = 'array' THEN p_values ELSE '[]'::jsonb END
+      ) AS value
+      WHERE btrim(value) <> ''
+    ),
+    '{}'::text[]
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION catalog_product_card(p_product_id uuid)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT jsonb_build_object(
+    'id', p.id,
+    'title', p.title,
+    'slug', p.slug,
+    'price', p.price,
+    'featured', p.is_featured,
+    'rating_average', p.rating_average,
+    'review_count', p.review_count,
+    'created_at', p.created_at,
+    'categories', CASE WHEN c.id IS NULL THEN NULL
+      ELSE jsonb_build_object('slug', c.slug, 'name', c.name) END,
+    'brands', CASE WHEN b.id IS NULL THEN NULL
+      ELSE jsonb_build_object('slug', b.slug, 'name', b.name) END,
+    'product_images', COALESCE((
+      SELECT jsonb_agg(
+        jsonb_build_object('storage_path', pi.storage_path)
+        ORDER BY pi.is_primary DESC NULLS LAST, pi.display_order, pi.created_at
+      )
+      FROM product_images pi
+      WHERE pi.product_id = p.id
+    ), '[]'::jsonb),
+    'product_variants', COALESCE((
+      SELECT jsonb_agg(
+        jsonb_build_object(
+          'id', pv.id,
+          'size', pv.size,
+          'color', pv.color,
+          'stock', pv.stock,
+          'is_active', pv.is_active
+        )
+        ORDER BY pv.size, pv.color
+      )
+      FROM product_variants pv
+      WHERE pv.product_id = p.id
+        AND pv.is_active IS NOT FALSE
+    ), '[]'::jsonb)
+  )
+  FROM products p
+  LEFT JOIN categories c ON c.id = p.category_id
+  LEFT JOIN brands b ON b.id = p.brand_id
+  WHERE p.id = p_product_id;
+$$;
+
+-- =====================================================
+-- CATALOGUE QUERY
+-- =====================================================
+
+/*
+  p_filters keys, all optional:
+    search, category, collection   text
+    brands, sizes, colors          text arrays (colours match case-insensitively)
+    min_price, max_price, min_rating  numbers
+    in_stock                       boolean
+  p_sort: relevance, newest, price_asc, price_desc, rating or name. Ties fall
+  back to newest then id so pages never overlap.
+*/
+CREATE OR REPLACE FUNCTION catalog_products(
+  p_filters jsonb DEFAULT '{}'::jsonb,
+  p_sort text DEFAULT 'newest',
+  p_limit integer DEFAULT 12,
+  p_offset integer DEFAULT 0
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_filters jsonb := COALESCE(p_filters, '{}'::jsonb);
+  v_search text := NULLIF(btrim(v_filters->>'search'), '');
+  v_category text := NULLIF(btrim(v_filters->>'category'), '');
+  v_collection text := NULLIF(btrim(v_filters->>'collection'), '');
+  v_brands text[] := catalog_filter_values(v_filters->'brands');
+  v_sizes text[] := catalog_filter_values(v_filters->'sizes');
+  v_colors text[] := catalog_filter_values(v_filters->'colors', true);
+  v_min_price numeric := NULLIF(v_filters->>'min_price', '')::numeric;
+  v_max_price numeric := NULLIF(v_filters->>'max_price', '')::numeric;
+  v_min_rating numeric := NULLIF(v_filters->>'min_rating', '')::numeric;
+  v_in_stock boolean := COALESCE((v_filters->>'in_stock')::boolean, false);
+  v_sort text := COALESCE(p_sort, 'newest');
+  v_limit integer := LEAST(GREATEST(COALESCE(p_limit, 12), 1), 100);
+  v_offset integer := GREATEST(COALESCE(p_offset, 0), 0);
+  v_result jsonb;
+BEGIN
+  IF v_search IS NULL AND v_sort = 'relevance' THEN
+    v_sort := 'newest';
+  END IF;
+
+  WITH hits AS (
+    SELECT hit.product_id, hit.rank FROM search_products(v_search) hit
+  ),
+  base AS (
+    SELECT
+      p.id,
+      p.title,
+      p.price,
+      p.rating_average,
+      p.review_count,
+      p.created_at,
+      p.category_id,
+      p.brand_id,
+      h.rank,
+      (v_category IS NULL OR c.slug = v_category) AS in_category,
+      (v_brands IS NULL OR b.slug = ANY(v_brands)) AS in_brand,
+      (v_collection IS NULL OR EXISTS (
+        SELECT 1
+        FROM collection_products cp
+        JOIN collections co ON co.id = cp.collection_id
+        WHERE cp.product_id = p.id
+          AND co.slug = v_collection
+          AND co.is_active
+      )) AS in_collection,
+      ((v_min_price IS NULL OR p.price >= v_min_price)
+        AND (v_max_price IS NULL OR p.price <= v_max_price)) AS in_price,
+      (v_min_rating IS NULL OR (p.rating_average >= v_min_rating AND p.review_count > 0)) AS in_rating
+    FROM products p
+    LEFT JOIN categories c ON c.id = p.category_id
+    LEFT JOIN brands b ON b.id = p.brand_id
+    LEFT JOIN hits h ON h.product_id = p.id
+    WHERE p.is_active
+      AND p.deleted_at IS NULL
+      AND (v_search IS NULL OR h.product_id IS NOT NULL)
+  ),
+  variants AS (
+    SELECT
+      pv.product_id,
+      pv.size,
+      lower(pv.color) AS color,
+      (v_sizes IS NULL OR pv.size = ANY(v_sizes)) AS in_size,
+      (v_colors IS NULL OR lower(pv.color) = ANY(v_colors)) AS in_color,
+      pv.stock > 0 AS has_stock,
+      (NOT v_in_stock OR pv.stock > 0) AS in_stock
+    FROM product_variants pv
+    JOIN base ON base.id = pv.product_id
+    WHERE pv.is_active IS NOT FALSE
+  ),
+  listed AS (
+    SELECT
+      base.*,
+      (v_sizes IS NULL AND v_colors IS NULL AND NOT v_in_stock) OR EXISTS (
+        SELECT 1 FROM variants v
+        WHERE v.product_id = base.id AND v.in_size AND v.in_color AND v.in_stock
+      ) AS in_variant
+    FROM base
+  ),
+  matched AS (
+    SELECT *
+    FROM listed
+    WHERE in_category AND in_brand AND in_collection AND in_price AND in_rating AND in_variant
+  ),
+  page AS (
+    SELECT
+      matched.id,
+      row_number() OVER (
+        ORDER BY
+          CASE WHEN v_sort = 'relevance' THEN matched.rank END DESC NULLS LAST,
+          CASE WHEN v_sort = 'price_asc' THEN matched.price END ASC,
+          CASE WHEN v_sort = 'price_desc' THEN matched.price END DESC,
+          CASE WHEN v_sort = 'rating' THEN matched.rating_average END DESC,
+          CASE WHEN v_sort = 'rating' THEN matched.review_count END DESC,
+          CASE WHEN v_sort = 'name' THEN lower(matched.title) END ASC,
+          matched.created_at DESC,
+          matched.id
+      ) AS position
+    FROM matched
+  ),
+  -- Products that pass every filter except variant ones, for size, colour
+  -- and stock counts
+  variant_scope AS (
+    SELECT id FROM listed
+    WHERE in_category AND in_brand AND in_collection AND in_price AND in_rating
+  )
+  SELECT jsonb_build_object(
+    'total', (SELECT count(*) FROM matched),
+    'products', COALESCE((
+      SELECT jsonb_agg(catalog_product_card(paged.id) ORDER BY paged.position)
+      FROM (
+        SELECT id, position FROM page
+        ORDER BY position
+        LIMIT v_limit OFFSET v_offset
+      ) paged
+    ), '[]'::jsonb),
+    'facets', jsonb_build_object(
+      'categories', COALESCE((
+        SELECT jsonb_agg(jsonb_build_object('value', counted.slug, 'label', counted.name, 'count', counted.total) ORDER BY counted.name)
+        FROM (
+          SELECT c.slug, c.name, count(*) AS total
+          FROM listed l
+          JOIN categories c ON c.id = l.category_id
+          WHERE l.in_brand AND l.in_collection AND l.in_price AND l.in_rating AND l.in_variant
+          GROUP BY c.slug, c.name
+        ) counted
+      ), '[]'::jsonb),
+      'brands', COALESCE((
+        SELECT jsonb_agg(jsonb_build_object('value', counted.slug, 'label', counted.name, 'count', counted.total) ORDER BY counted.name)
+        FROM (
+          SELECT b.slug, b.name, count(*) AS total
+          FROM listed l
+          JOIN brands b ON b.id = l.brand_id
+          WHERE l.in_category AND l.in_collection AND l.in_price AND l.in_rating AND l.in_variant
+          GROUP BY b.slug, b.name
+        ) counted
+      ), '[]'::jsonb),
+      'collections', COALESCE((
+        SELECT jsonb_agg(jsonb_build_object('value', counted.slug, 'label', counted.name, 'count', counted.total) ORDER BY counted.display_order, counted.name)
+        FROM (
+          SELECT co.slug, co.name, co.display_order, count(DISTINCT l.id) AS total
+          FROM listed l
+          JOIN collection_products cp ON cp.product_id = l.id
+          JOIN collections co ON co.id = cp.collection_id AND co.is_active
+          WHERE l.in_category AND l.in_brand AND l.in_price AND l.in_rating AND l.in_variant
+          GROUP BY co.slug, co.name, co.display_order
+        ) counted
+      ), '[]'::jsonb),
+      'sizes', COALESCE((
+        SELECT jsonb_agg(jsonb_build_object('value', counted.size, 'label', counted.size, 'count', counted.total) ORDER BY counted.size)
+        FROM (
+          SELECT v.size, count(DISTINCT v.product_id) AS total
+          FROM variants v
+          JOIN variant_scope s ON s.id = v.product_id
+          WHERE v.size IS NOT NULL AND v.in_color AND v.in_stock
+          GROUP BY v.size
+        ) counted
+      ), '[]'::jsonb),
+      'colors', COALESCE((
+        SELECT jsonb_agg(jsonb_build_object('value', counted.color, 'label', counted.color, 'count', counted.total) ORDER BY counted.color)
+        FROM (
+          SELECT v.color, count(DISTINCT v.product_id) AS total
+          FROM variants v
+          JOIN variant_scope s ON s.id = v.product_id
+          WHERE v.color IS NOT NULL AND v.in_size AND v.in_stock
+          GROUP BY v.color
+        ) counted
+      ), '[]'::jsonb),
+      'ratings', (
+        SELECT jsonb_agg(jsonb_build_object('value', stars::text, 'label', stars::text, 'count', (
+          SELECT count(*)
+          FROM listed l
+          WHERE l.in_category AND l.in_brand AND l.in_collection AND l.in_price AND l.in_variant
+            AND l.review_count > 0 AND l.rating_average >= stars
+        )) ORDER BY stars DESC)
+        FROM generate_series(1, 4) AS stars
+      ),
+      'in_stock', (
+        SELECT count(DISTINCT v.product_id)
+        FROM variants v
+        JOIN variant_scope s ON s.id = v.product_id
+        WHERE v.in_size AND v.in_color AND v.has_stock
+      ),
+      'price', (
+        SELECT jsonb_build_object('min', min(l.price), 'max', max(l.price))
+        FROM listed l
+        WHERE l.in_category AND l.in_brand AND l.in_collection AND l.in_rating AND l.in_variant
+      )
+    )
+  )
+  INTO v_result;
+
+  RETURN v_result;
+END;
+$$;
+
+-- =====================================================
+-- PERMISSIONS
+-- =====================================================
+
+GRANT EXECUTE ON FUNCTION catalog_products(jsonb, text, integer, integer) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION catalog_product_card(uuid) TO anon, authenticated;
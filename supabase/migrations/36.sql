@@ -0,0 +1,32 @@
+/*
+  # Size Preferences
+
+  Lets shoppers save the shoe size the catalogue pre-filters on:
+  1. profiles.preferred_size: {chart, system, size}, e.g.
+     {"chart": "men", "system": "uk", "size": "8"}. Guests keep the same
+     value in local storage and it is copied here when they sign in
+  2. Index on variant sizes for the size filter
+*/
+
+-- =====================================================
+-- PROFILES
+-- =====================================================
+
+ALTER TABLE profiles ADD COLUMN IF NOT EXISTS preferred_size jsonb;
+
+ALTER TABLE profiles DROP CONSTRAINT IF EXISTS profiles_preferred_size_check;
+ALTER TABLE profiles ADD CONSTRAINT profiles_preferred_size_check CHECK (
+  preferred_size IS NULL OR (
+    jsonb_typeof(preferred_size) = 'object'
+    AND preferred_size->>'chart' IN ('men', 'women', 'kids')
+    AND preferred_size->>'system' IN ('eu', 'uk', 'us')
+    AND COALESCE(preferred_size->>'size', '') <> ''
+  )
+);
+
+-- =====================================================
+-- INDEXES
+-- =====================================================
+
+CREATE INDEX IF NOT EXISTS idx_product_variants_size
+  ON product_variants(size) WHERE is_active IS NOT FALSE;
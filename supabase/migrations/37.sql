@@ -0,0 +1,393 @@
+/*
+  # Category Hierarchy
+
+  Lets categories nest to any depth, e.g. Men > Running > Trail:
+  1. categories.parent_id, with display_order now ordering siblings
+  2. Triggers that stop a category being moved under itself and lift a
+     deleted category's subcategories up to its parent
+  3. category_lineage() and category_descendant_ids() for walking the tree
+  4. move_category(): drag-and-drop moves from the admin tree, renumbering
+     the new siblings in one go
+  5. catalog_products(): a category filter now matches products in its
+     subcategories too, and each category's facet count includes them
+*/
+
+-- =====================================================
+-- CATEGORIES
+-- =====================================================
+
+ALTER TABLE categories
+  ADD COLUMN IF NOT EXISTS parent_id uuid REFERENCES categories(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_categories_parent
+  ON categories(parent_id, display_order);
+
+-- =====================================================
+-- TREE HELPERS
+-- =====================================================
+
+-- Every category paired with itself (depth 0) and each of its ancestors
+CREATE OR REPLACE FUNCTION category_lineage()
+RETURNS TABLE (category_id uuid, ancestor_id uuid, depth integer)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH RECURSIVE lineage AS (
+    SELECT c.id AS category_id, c.id AS ancestor_id, 0 AS depth
+    FROM categories c
+    UNION ALL
+    SELECT lineage.category_id, c.parent_id, lineage.depth + 1
+    FROM lineage
+    JOIN categories c ON c.id = lineage.ancestor_id
+    WHERE c.parent_id IS NOT NULL
+  )
+  SELECT category_id, ancestor_id, depth FROM lineage;
+$$;
+
+-- A category and everything under it, or NULL when no slug is given
+CREATE OR REPLACE FUNCTION category_descendant_ids(p_slug text)
+RETURNS uuid[]
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT CASE WHEN p_slug IS NULL THEN NULL ELSE ARRAY(
+    SELECT lineage.category_id
+    FROM category_lineage() lineage
+    JOIN categories c ON c.id = lineage.ancestor_id
+    WHERE c.slug = p_slug
+  ) END;
+$$;
+
+-- =====================================================
+-- TREE TRIGGERS
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION check_category_parent()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.parent_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.parent_id = NEW.id THEN
+    RAISE EXCEPTION 'A category cannot be its own parent';
+  END IF;
+
+  -- Two moves checked side by side could each pass and still make a loop
+  PERFORM pg_advisory_xact_lock(hashtext('categories_tree'));
+
+  IF EXISTS (
+    SELECT 1 FROM category_lineage()
+    WHERE category_id = NEW.parent_id AND ancestor_id = NEW.id
+  ) THEN
+    RAISE EXCEPTION 'A category cannot be moved under one of its own subcategories';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS check_category_parent ON categories;
+CREATE TRIGGER check_category_parent
+  BEFORE INSERT OR UPDATE OF parent_id ON categories
+  FOR EACH ROW EXECUTE FUNCTION check_category_parent();
+
+CREATE OR REPLACE FUNCTION lift_category_children()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  UPDATE categories
+  SET parent_id = OLD.parent_id
+  WHERE parent_id = OLD.id;
+
+  RETURN OLD;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS lift_category_children ON categories;
+CREATE TRIGGER lift_category_children
+  BEFORE DELETE ON categories
+  FOR EACH ROW EXECUTE FUNCTION lift_category_children();
+
+-- =====================================================
+-- MOVING CATEGORIES
+-- =====================================================
+
+-- Put a category under p_parent_id (NULL for the top level) at p_position
+-- among its new siblings, counting from 0
+CREATE OR REPLACE FUNCTION move_category(
+  p_category_id uuid,
+  p_parent_id uuid,
+  p_position integer
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_position integer := GREATEST(COALESCE(p_position, 0), 0);
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Access denied: Admin privileges required'
+      USING ERRCODE = '42501';
+  END IF;
+
+  PERFORM 1 FROM categories WHERE id = p_category_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Category not found';
+  END IF;
+
+  UPDATE categories
+  SET parent_id = p_parent_id
+  WHERE id = p_category_id
+    AND parent_id IS DISTINCT FROM p_parent_id;
+
+  WITH siblings AS (
+    SELECT id, row_number() OVER (ORDER BY display_order, name) - 1 AS position
+    FROM categories
+    WHERE parent_id IS NOT DISTINCT FROM p_parent_id
+      AND id <> p_category_id
+  )
+  UPDATE categories c
+  SET display_order = CASE WHEN s.position < v_position THEN s.position ELSE s.position + 1 END
+  FROM siblings s
+  WHERE c.id = s.id
+    AND c.display_order IS DISTINCT FROM CASE WHEN s.position < v_position THEN s.position ELSE s.position + 1 END;
+
+  UPDATE categories
+  SET display_order = v_position
+  WHERE id = p_category_id;
+END;
+$$;
+
+-- =====================================================
+-- CATALOGUE QUERY
+-- =====================================================
+
+/*
+  p_filters keys, all optional:
+    search, category, collection   text (a category also matches its
+                                   subcategories)
+    brands, sizes, colors          text arrays (colours match case-insensitively)
+    min_price, max_price, min_rating  numbers
+    in_stock                       boolean
+  p_sort: relevance, newest, price_asc, price_desc, rating or name. Ties fall
+  back to newest then id so pages never overlap.
+*/
+CREATE OR REPLACE FUNCTION catalog_products(
+  p_filters jsonb DEFAULT '{}'::jsonb,
+  p_sort text DEFAULT 'newest',
+  p_limit integer DEFAULT 12,
+  p_offset integer DEFAULT 0
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_filters jsonb := COALESCE(p_filters, '{}'::jsonb);
+  v_search text := NULLIF(btrim(v_filters->>'search'), '');
+  v_category text := NULLIF(btrim(v_filters->>'category'), '');
+  v_category_ids uuid[] := category_descendant_ids(v_category);
+  v_collection text := NULLIF(btrim(v_filters->>'collection'), '');
+  v_brands text[] := catalog_filter_values(v_filters->'brands');
+  v_sizes text[] := catalog_filter_values(v_filters->'sizes');
+  v_colors text[] := catalog_filter_values(v_filters->'colors', true);
+  v_min_price numeric := NULLIF(v_filters->>'min_price', '')::numeric;
+  v_max_price numeric := NULLIF(v_filters->>'max_price', '')::numeric;
+  v_min_rating numeric := NULLIF(v_filters->>'min_rating', '')::numeric;
+  v_in_stock boolean := COALESCE((v_filters->>'in_stock')::boolean, false);
+  v_sort text := COALESCE(p_sort, 'newest');
+  v_limit integer := LEAST(GREATEST(COALESCE(p_limit, 12), 1), 100);
+  v_offset integer := GREATEST(COALESCE(p_offset, 0), 0);
+  v_result jsonb;
+BEGIN
+  IF v_search IS NULL AND v_sort = 'relevance' THEN
+    v_sort := 'newest';
+  END IF;
+
+  WITH hits AS (
+    SELECT hit.product_id, hit.rank FROM search_products(v_search) hit
+  ),
+  base AS (
+    SELECT
+      p.id,
+      p.title,
+      p.price,
+      p.rating_average,
+      p.review_count,
+      p.created_at,
+      p.category_id,
+      p.brand_id,
+      h.rank,
+      (v_category IS NULL OR p.category_id = ANY(v_category_ids)) AS in_category,
+      (v_brands IS NULL OR b.slug = ANY(v_brands)) AS in_brand,
+      (v_collection IS NULL OR EXISTS (
+        SELECT 1
+        FROM collection_products cp
+        JOIN collections co ON co.id = cp.collection_id
+        WHERE cp.product_id = p.id
+          AND co.slug = v_collection
+          AND co.is_active
+      )) AS in_collection,
+      ((v_min_price IS NULL OR p.price >= v_min_price)
+        AND (v_max_price IS NULL OR p.price <= v_max_price)) AS in_price,
+      (v_min_rating IS NULL OR (p.rating_average >= v_min_rating AND p.review_count > 0)) AS in_rating
+    FROM products p
+    LEFT JOIN brands b ON b.id = p.brand_id
+    LEFT JOIN hits h ON h.product_id = p.id
+    WHERE p.is_active
+      AND p.deleted_at IS NULL
+      AND (v_search IS NULL OR h.product_id IS NOT NULL)
+  ),
+  variants AS (
+    SELECT
+      pv.product_id,
+      pv.size,
+      lower(pv.color) AS color,
+      (v_sizes IS NULL OR pv.size = ANY(v_sizes)) AS in_size,
+      (v_colors IS NULL OR lower(pv.color) = ANY(v_colors)) AS in_color,
+      pv.stock > 0 AS has_stock,
+      (NOT v_in_stock OR pv.stock > 0) AS in_stock
+    FROM product_variants pv
+    JOIN base ON base.id = pv.product_id
+    WHERE pv.is_active IS NOT FALSE
+  ),
+  listed AS (
+    SELECT
+      base.*,
+      (v_sizes IS NULL AND v_colors IS NULL AND NOT v_in_stock) OR EXISTS (
+        SELECT 1 FROM variants v
+        WHERE v.product_id = base.id AND v.in_size AND v.in_color AND v.in_stock
+      ) AS in_variant
+    FROM base
+  ),
+  matched AS (
+    SELECT *
+    FROM listed
+    WHERE in_category AND in_brand AND in_collection AND in_price AND in_rating AND in_variant
+  ),
+  page AS (
+    SELECT
+      matched.id,
+      row_number() OVER (
+        ORDER BY
+          CASE WHEN v_sort = 'relevance' THEN matched.rank END DESC NULLS LAST,
+          CASE WHEN v_sort = 'price_asc' THEN matched.price END ASC,
+          CASE WHEN v_sort = 'price_desc' THEN matched.price END DESC,
+          CASE WHEN v_sort = 'rating' THEN matched.rating_average END DESC,
+          CASE WHEN v_sort = 'rating' THEN matched.review_count END DESC,
+          CASE WHEN v_sort = 'name' THEN lower(matched.title) END ASC,
+          matched.created_at DESC,
+          matched.id
+      ) AS position
+    FROM matched
+  ),
+  -- Products that pass every filter except variant ones, for size, colour
+  -- and stock counts
+  variant_scope AS (
+    SELECT id FROM listed
+    WHERE in_category AND in_brand AND in_collection AND in_price AND in_rating
+  )
+  SELECT jsonb_build_object(
+    'total', (SELECT count(*) FROM matched),
+    'products', COALESCE((
+      SELECT jsonb_agg(catalog_product_card(paged.id) ORDER BY paged.position)
+      FROM (
+        SELECT id, position FROM page
+        ORDER BY position
+        LIMIT v_limit OFFSET v_offset
+      ) paged
+    ), '[]'::jsonb),
+    'facets', jsonb_build_object(
+      'categories', COALESCE((
+        SELECT jsonb_agg(jsonb_build_object('value', counted.slug, 'label', counted.name, 'count', counted.total) ORDER BY counted.name)
+        FROM (
+          SELECT c.slug, c.name, count(DISTINCT l.id) AS total
+          FROM listed l
+          JOIN category_lineage() lin ON lin.category_id = l.category_id
+          JOIN categories c ON c.id = lin.ancestor_id
+          WHERE l.in_brand AND l.in_collection AND l.in_price AND l.in_rating AND l.in_variant
+          GROUP BY c.slug, c.name
+        ) counted
+      ), '[]'::jsonb),
+      'brands', COALESCE((
+        SELECT jsonb_agg(jsonb_build_object('value', counted.slug, 'label', counted.name, 'count', counted.total) ORDER BY counted.name)
+        FROM (
+          SELECT b.slug, b.name, count(*) AS total
+          FROM listed l
+          JOIN brands b ON b.id = l.brand_id
+          WHERE l.in_category AND l.in_collection AND l.in_price AND l.in_rating AND l.in_variant
+          GROUP BY b.slug, b.name
+        ) counted
+      ), '[]'::jsonb),
+      'collections', COALESCE((
+        SELECT jsonb_agg(jsonb_build_object('value', counted.slug, 'label', counted.name, 'count', counted.total) ORDER BY counted.display_order, counted.name)
+        FROM (
+          SELECT co.slug, co.name, co.display_order, count(DISTINCT l.id) AS total
+          FROM listed l
+          JOIN collection_products cp ON cp.product_id = l.id
+          JOIN collections co ON co.id = cp.collection_id AND co.is_active
+          WHERE l.in_category AND l.in_brand AND l.in_price AND l.in_rating AND l.in_variant
+          GROUP BY co.slug, co.name, co.display_order
+        ) counted
+      ), '[]'::jsonb),
+      'sizes', COALESCE((
+        SELECT jsonb_agg(jsonb_build_object('value', counted.size, 'label', counted.size, 'count', counted.total) ORDER BY counted.size)
+        FROM (
+          SELECT v.size, count(DISTINCT v.product_id) AS total
+          FROM variants v
+          JOIN variant_scope s ON s.id = v.product_id
+          WHERE v.size IS NOT NULL AND v.in_color AND v.in_stock
+          GROUP BY v.size
+        ) counted
+      ), '[]'::jsonb),
+      'colors', COALESCE((
+        SELECT jsonb_agg(jsonb_build_object('value', counted.color, 'label', counted.color, 'count', counted.total) ORDER BY counted.color)
+        FROM (
+          SELECT v.color, count(DISTINCT v.product_id) AS total
+          FROM variants v
+          JOIN variant_scope s ON s.id = v.product_id
+          WHERE v.color IS NOT NULL AND v.in_size AND v.in_stock
+          GROUP BY v.color
+        ) counted
+      ), '[]'::jsonb),
+      'ratings', (
+        SELECT jsonb_agg(jsonb_build_object('value', stars::text, 'label', stars::text, 'count', (
+          SELECT count(*)
+          FROM listed l
+          WHERE l.in_category AND l.in_brand AND l.in_collection AND l.in_price AND l.in_variant
+            AND l.review_count > 0 AND l.rating_average >= stars
+        )) ORDER BY stars DESC)
+        FROM generate_series(1, 4) AS stars
+      ),
+      'in_stock', (
+        SELECT count(DISTINCT v.product_id)
+        FROM variants v
+        JOIN variant_scope s ON s.id = v.product_id
+        WHERE v.in_size AND v.in_color AND v.has_stock
+      ),
+      'price', (
+        SELECT jsonb_build_object('min', min(l.price), 'max', max(l.price))
+        FROM listed l
+        WHERE l.in_category AND l.in_brand AND l.in_collection AND l.in_rating AND l.in_variant
+      )
+    )
+  )
+  INTO v_result;
+
+  RETURN v_result;
+END;
+$$;
+
+-- =====================================================
+-- PERMISSIONS
+-- =====================================================
+
+GRANT EXECUTE ON FUNCTION category_lineage() TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION category_descendant_ids(text) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION move_category(uuid, uuid, integer) TO authenticated;
@@ -0,0 +1,96 @@
+/*
+  # Read-Only Orders
+
+  Orders are priced on the server, but customers could still rewrite their
+  own rows through the API and pay whatever orders.total said. Orders and
+  their items are now written only by SECURITY DEFINER functions and the
+  edge functions' service role:
+  1. Customers can read their own orders and order items, nothing more
+  2. INSERT, UPDATE and DELETE on orders and order_items are revoked from
+     anon and authenticated, admins included
+  3. set_order_status() and set_order_payment_status(): the admin order
+     screen's status changes. Cancelling still goes through cancel-order
+*/
+
+-- =====================================================
+-- POLICIES
+-- =====================================================
+
+DROP POLICY IF EXISTS "orders_own_access" ON orders;
+CREATE POLICY "orders_own_access" ON orders
+  FOR SELECT TO authenticated
+  USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "order_items_own_access" ON order_items;
+CREATE POLICY "order_items_own_access" ON order_items
+  FOR SELECT TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM orders
+      WHERE id = order_id AND user_id = auth.uid()
+    )
+  );
+
+REVOKE INSERT, UPDATE, DELETE, TRUNCATE ON orders FROM anon, authenticated;
+REVOKE INSERT, UPDATE, DELETE, TRUNCATE ON order_items FROM anon, authenticated;
+
+-- =====================================================
+-- ADMIN STATUS CHANGES
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION set_order_status(p_order_id uuid, p_status text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Access denied: Admin privileges required'
+      USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE orders
+  SET status = p_status,
+      updated_at = now()
+  WHERE id = p_order_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+END;
+$$;
+
+-- Backwards moves are still refused by enforce_payment_status_transition
+CREATE OR REPLACE FUNCTION set_order_payment_status(p_order_id uuid, p_payment_status text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Access denied: Admin privileges required'
+      USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE orders
+  SET payment_status = p_payment_status,
+      reserved_until = CASE WHEN p_payment_status = 'paid' THEN NULL ELSE reserved_until END,
+      updated_at = now()
+  WHERE id = p_order_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+END;
+$$;
+
+-- =====================================================
+-- PERMISSIONS
+-- =====================================================
+
+REVOKE EXECUTE ON FUNCTION set_order_status(uuid, text) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION set_order_payment_status(uuid, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION set_order_status(uuid, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION set_order_payment_status(uuid, text) TO authenticated;
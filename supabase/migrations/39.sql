@@ -0,0 +1,173 @@
+/*
+  # Payment Amount Checks
+
+  A gateway notification could mark an order paid without anyone checking
+  what was actually paid, and nothing but table grants stopped a signed-in
+  client from setting payment_status itself:
+  1. apply_payment_event() rejects a "paid" notification whose amount or
+     currency differs from the order; the mismatch is kept on the event
+  2. enforce_payment_status_transition() refuses payment status changes made
+     directly by anon or authenticated. Payment notifications, the edge
+     functions and the admin RPCs run as the service role or the function
+     owner and are unaffected
+*/
+
+-- =====================================================
+-- PAYMENT STATUS TRANSITIONS
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION enforce_payment_status_transition()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF current_user IN ('anon', 'authenticated') THEN
+    RAISE EXCEPTION 'Payment status can only be changed by the payment service'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF NOT is_valid_payment_status_transition(OLD.payment_status, NEW.payment_status) THEN
+    RAISE EXCEPTION 'Payment status cannot change from % to %', OLD.payment_status, NEW.payment_status;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- =====================================================
+-- PAYMENT EVENTS
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION apply_payment_event(p_event_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_event payment_events%ROWTYPE;
+  v_order orders%ROWTYPE;
+  v_outcome text;
+  v_detail text;
+BEGIN
+  SELECT * INTO v_event FROM payment_events WHERE id = p_event_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Payment event % not found', p_event_id;
+  END IF;
+
+  IF v_event.outcome <> 'received' THEN
+    RETURN jsonb_build_object(
+      'outcome', v_event.outcome,
+      'detail', v_event.outcome_detail,
+      'payment_status', (SELECT payment_status FROM orders WHERE id = v_event.order_id)
+    );
+  END IF;
+
+  -- Lock the order so notifications for it are applied one at a time
+  SELECT * INTO v_order FROM orders WHERE id = v_event.order_id FOR UPDATE;
+
+  IF NOT v_event.signature_valid THEN
+    v_outcome := 'rejected';
+    v_detail := 'Invalid signature';
+  ELSIF v_order.id IS NULL THEN
+    v_outcome := 'rejected';
+    v_detail := 'Order not found';
+  ELSIF EXISTS (
+    SELECT 1 FROM payment_events
+    WHERE order_id = v_event.order_id
+      AND id <> v_event.id
+      AND outcome IN ('applied', 'ignored')
+      AND provider = v_event.provider
+      AND CASE
+        -- Gateways with event ids (Stripe) redeliver the same event
+        WHEN v_event.provider_event_id IS NOT NULL THEN
+          provider_event_id = v_event.provider_event_id
+        ELSE
+          provider_payment_id IS NOT DISTINCT FROM v_event.provider_payment_id
+          AND status_code IS NOT DISTINCT FROM v_event.status_code
+          AND payment_status IS NOT DISTINCT FROM v_event.payment_status
+      END
+  ) THEN
+    v_outcome := 'duplicate';
+    v_detail := 'Notification already processed';
+  ELSIF v_event.payment_status = 'paid'
+    AND (v_event.amount IS DISTINCT FROM v_order.total
+      OR upper(v_event.currency) IS DISTINCT FROM upper(v_order.currency)) THEN
+    -- Never mark an order paid for a different sum than it was priced at
+    v_outcome := 'rejected';
+    v_detail := format(
+      'Paid %s %s but the order total is %s %s',
+      COALESCE(upper(v_event.currency), '?'), COALESCE(v_event.amount::text, '?'),
+      v_order.currency, v_order.total
+    );
+  ELSIF COALESCE(v_order.payment_status, 'pending') = v_event.payment_status THEN
+    v_outcome := 'ignored';
+    v_detail := format('Payment is already %s', v_event.payment_status);
+  ELSIF NOT is_valid_payment_status_transition(v_order.payment_status, v_event.payment_status) THEN
+    v_outcome := 'ignored';
+    v_detail := format('Payment cannot move from %s to %s', v_order.payment_status, v_event.payment_status);
+  ELSE
+    v_outcome := 'applied';
+
+    IF v_event.payment_status = 'paid' AND v_order.payment_status IN ('expired', 'failed') THEN
+      IF NOT revive_expired_order(v_order.id) THEN
+        v_detail := 'Paid after cancellation; stock no longer available, refund required';
+      END IF;
+    ELSIF v_event.payment_status = 'paid' THEN
+      UPDATE orders
+      SET payment_status = 'paid',
+          reserved_until = NULL,
+          updated_at = now()
+      WHERE id = v_order.id;
+    ELSIF v_event.payment_status = 'chargedback' THEN
+      PERFORM record_chargeback(
+        v_order.id,
+        'Chargeback: ' || COALESCE(NULLIF(v_event.status_message, ''), 'disputed by the cardholder')
+      );
+    ELSIF v_event.payment_status = 'failed' THEN
+      -- Give the reserved stock back; fall back to a plain status change if
+      -- the order has already left the pending state
+      IF NOT release_order_reservation(
+        v_order.id,
+        'failed',
+        'Payment ' || COALESCE(NULLIF(v_event.status_message, ''), 'failed')
+      ) THEN
+        UPDATE orders
+        SET payment_status = 'failed',
+            updated_at = now()
+        WHERE id = v_order.id;
+      END IF;
+    ELSE
+      UPDATE orders
+      SET payment_status = v_event.payment_status,
+          updated_at = now()
+      WHERE id = v_order.id;
+    END IF;
+
+    IF v_event.provider_payment_id IS NOT NULL THEN
+      UPDATE orders
+      SET payment_provider_id = v_event.provider_payment_id
+      WHERE id = v_order.id;
+    END IF;
+  END IF;
+
+  UPDATE payment_events
+  SET outcome = v_outcome,
+      outcome_detail = v_detail,
+      processed_at = now()
+  WHERE id = p_event_id;
+
+  RETURN jsonb_build_object(
+    'outcome', v_outcome,
+    'detail', v_detail,
+    'payment_status', (SELECT payment_status FROM orders WHERE id = v_event.order_id)
+  );
+END;
+$$;
+
+-- =====================================================
+-- PERMISSIONS
+-- =====================================================
+
+REVOKE EXECUTE ON FUNCTION apply_payment_event(uuid) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,500 @@
+/*
+  # Late Payments On Cancelled Orders
+
+  An order cancelled while its online payment was still open could be paid
+  anyway, and the payment was either lost or revived the order:
+  1. orders.cancelled_by records whether cancel_order() was called by the
+     customer or an admin; revive_expired_order() only revives orders that
+     lapsed on their own
+  2. refund_late_payment() marks a payment that can't be honoured as paid
+     and opens a pending refund for it, without restocking
+  3. apply_payment_event() opens that refund instead of reviving the order
+     and returns its id so the webhook can pay it out straight away
+  4. A payment on a cancelled order no longer sends the payment confirmed
+     email and text
+*/
+
+-- =====================================================
+-- ORDERS
+-- =====================================================
+
+ALTER TABLE orders
+ADD COLUMN IF NOT EXISTS cancelled_by text CHECK (cancelled_by IN ('customer', 'admin'));
+
+-- =====================================================
+-- CANCELLATION
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION cancel_order(p_order_id uuid, p_reason text DEFAULT NULL)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order orders%ROWTYPE;
+  v_reason text;
+  v_lines jsonb;
+  v_amount decimal(10,2);
+  v_refund_id uuid;
+  v_cancelled_by text;
+BEGIN
+  SELECT * INTO v_order FROM orders WHERE id = p_order_id FOR UPDATE;
+
+  IF NOT FOUND OR (v_order.user_id IS DISTINCT FROM auth.uid() AND NOT is_admin()) THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF v_order.status NOT IN ('pending', 'confirmed', 'processing') THEN
+    RAISE EXCEPTION 'Only orders that have not shipped can be cancelled';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM refunds WHERE order_id = p_order_id AND status = 'pending') THEN
+    RAISE EXCEPTION 'This order already has a refund in progress';
+  END IF;
+
+  v_reason := COALESCE(NULLIF(trim(p_reason), ''), 'Cancelled by customer');
+  v_cancelled_by := CASE WHEN v_order.user_id = auth.uid() THEN 'customer' ELSE 'admin' END;
+
+  IF v_order.payment_status IN ('paid', 'partially_refunded') THEN
+    -- Units not refunded yet; refunded ones were restocked (or not) by their refund
+    SELECT jsonb_agg(jsonb_build_object(
+      'order_item_id', oi.id,
+      'quantity', oi.quantity - refunded_item_quantity(oi.id)
+    ))
+    INTO v_lines
+    FROM order_items oi
+    WHERE oi.order_id = p_order_id
+      AND oi.quantity > refunded_item_quantity(oi.id);
+
+    IF NOT restore_order_stock(p_order_id, COALESCE(v_lines, '[]'::jsonb)) THEN
+      RAISE EXCEPTION 'Could not restore stock for order %', p_order_id;
+    END IF;
+
+    SELECT v_order.total - COALESCE(SUM(amount), 0) INTO v_amount
+    FROM refunds
+    WHERE order_id = p_order_id AND status <> 'failed';
+
+    IF v_amount > 0 THEN
+      -- Stock is already back, so the refund itself must not restock
+      INSERT INTO refunds (
+        order_id,
+        kind,
+        method,
+        status,
+        amount,
+        currency,
+        reason,
+        restock,
+        provider,
+        created_by
+      ) VALUES (
+        p_order_id,
+        'refund',
+        CASE WHEN is_online_payment_method(v_order.payment_method) THEN 'provider' ELSE 'manual' END,
+        'pending',
+        v_amount,
+        v_order.currency,
+        'Order cancelled: ' || v_reason,
+        false,
+        v_order.payment_method,
+        auth.uid()
+      )
+      RETURNING id INTO v_refund_id;
+
+      INSERT INTO refund_items (refund_id, order_item_id, quantity, amount)
+      SELECT v_refund_id, oi.id, (l->>'quantity')::integer, oi.unit_price * (l->>'quantity')::integer
+      FROM jsonb_array_elements(COALESCE(v_lines, '[]'::jsonb)) l
+      JOIN order_items oi ON oi.id = (l->>'order_item_id')::uuid;
+    END IF;
+
+    UPDATE orders
+    SET status = 'cancelled',
+        cancelled_at = now(),
+        cancelled_by = v_cancelled_by,
+        cancellation_reason = v_reason,
+        updated_at = now()
+    WHERE id = p_order_id;
+  ELSIF v_order.payment_status = 'pending' THEN
+    IF NOT restore_order_stock(p_order_id) THEN
+      RAISE EXCEPTION 'Could not restore stock for order %', p_order_id;
+    END IF;
+
+    -- An online payment can no longer complete; apply_payment_event refunds
+    -- one that arrives anyway
+    UPDATE orders
+    SET status = 'cancelled',
+        payment_status = CASE WHEN is_online_payment_method(payment_method) THEN 'failed' ELSE 'pending' END,
+        cancelled_at = now(),
+        cancelled_by = v_cancelled_by,
+        cancellation_reason = v_reason,
+        reserved_until = NULL,
+        updated_at = now()
+    WHERE id = p_order_id;
+  ELSE
+    RAISE EXCEPTION 'This order cannot be cancelled';
+  END IF;
+
+  RETURN jsonb_build_object(
+    'status', 'cancelled',
+    'payment_status', (SELECT payment_status FROM orders WHERE id = p_order_id),
+    'refund_id', v_refund_id
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION revive_expired_order(p_order_id uuid)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_item record;
+BEGIN
+  -- Only orders the system let lapse; a cancelled one stays cancelled
+  PERFORM 1 FROM orders
+  WHERE id = p_order_id
+    AND payment_status = 'expired'
+    AND cancelled_by IS NULL
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  PERFORM set_stock_movement_context('order', p_order_id);
+
+  BEGIN
+    FOR v_item IN
+      SELECT product_variant_id, quantity FROM order_items WHERE order_id = p_order_id
+    LOOP
+      UPDATE product_variants
+      SET stock = stock - v_item.quantity,
+          updated_at = now()
+      WHERE id = v_item.product_variant_id
+        AND stock >= v_item.quantity;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Insufficient stock';
+      END IF;
+    END LOOP;
+  EXCEPTION
+    WHEN OTHERS THEN
+      UPDATE orders
+      SET payment_status = 'paid',
+          cancellation_reason = 'Paid after the reservation expired and stock is no longer available. Refund required.',
+          updated_at = now()
+      WHERE id = p_order_id;
+      RETURN false;
+  END;
+
+  UPDATE orders
+  SET status = 'pending',
+      payment_status = 'paid',
+      cancelled_at = NULL,
+      cancellation_reason = NULL,
+      updated_at = now()
+  WHERE id = p_order_id;
+
+  RETURN true;
+END;
+$$;
+
+-- =====================================================
+-- LATE PAYMENTS
+-- =====================================================
+
+-- The order's stock was given back when it was cancelled, so the refund
+-- covers every line without restocking. Returns NULL if the order has
+-- already been refunded in full.
+CREATE OR REPLACE FUNCTION refund_late_payment(p_order_id uuid)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order orders%ROWTYPE;
+  v_amount decimal(10,2);
+  v_refund_id uuid;
+BEGIN
+  SELECT * INTO v_order FROM orders WHERE id = p_order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF v_order.payment_status <> 'paid' THEN
+    UPDATE orders
+    SET payment_status = 'paid',
+        reserved_until = NULL,
+        updated_at = now()
+    WHERE id = p_order_id;
+  END IF;
+
+  SELECT v_order.total - COALESCE(SUM(amount), 0) INTO v_amount
+  FROM refunds
+  WHERE order_id = p_order_id AND status <> 'failed';
+
+  IF v_amount <= 0 THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO refunds (
+    order_id,
+    kind,
+    method,
+    status,
+    amount,
+    currency,
+    reason,
+    restock,
+    provider
+  ) VALUES (
+    p_order_id,
+    'refund',
+    CASE WHEN is_online_payment_method(v_order.payment_method) THEN 'provider' ELSE 'manual' END,
+    'pending',
+    v_amount,
+    v_order.currency,
+    'Paid after the order was cancelled',
+    false,
+    v_order.payment_method
+  )
+  RETURNING id INTO v_refund_id;
+
+  INSERT INTO refund_items (refund_id, order_item_id, quantity, amount)
+  SELECT v_refund_id, oi.id, oi.quantity - refunded_item_quantity(oi.id),
+    oi.unit_price * (oi.quantity - refunded_item_quantity(oi.id))
+  FROM order_items oi
+  WHERE oi.order_id = p_order_id
+    AND oi.quantity > refunded_item_quantity(oi.id);
+
+  RETURN v_refund_id;
+END;
+$$;
+
+-- Triggers are unchanged; only the functions are replaced
+CREATE OR REPLACE FUNCTION queue_order_emails()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    -- Online orders are confirmed by the payment email instead
+    IF NOT is_online_payment_method(NEW.payment_method) THEN
+      PERFORM enqueue_order_email('order_placed', NEW.id);
+
+      IF NEW.payment_method = 'bank' THEN
+        PERFORM enqueue_order_email('bank_transfer_instructions', NEW.id);
+      END IF;
+    END IF;
+
+    RETURN NEW;
+  END IF;
+
+  -- A payment on a cancelled order is refunded, not confirmed
+  IF NEW.payment_status = 'paid' AND OLD.payment_status IS DISTINCT FROM 'paid'
+     AND NEW.status <> 'cancelled' THEN
+    PERFORM enqueue_order_email('payment_confirmed', NEW.id);
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    IF NEW.status = 'shipped' THEN
+      PERFORM enqueue_order_email('order_shipped', NEW.id);
+    ELSIF NEW.status = 'delivered' THEN
+      PERFORM enqueue_order_email('order_delivered', NEW.id);
+    -- An online order that was never paid was never confirmed to the shopper
+    ELSIF NEW.status = 'cancelled'
+      AND NOT (is_online_payment_method(NEW.payment_method)
+               AND OLD.payment_status NOT IN ('paid', 'partially_refunded')) THEN
+      PERFORM enqueue_order_email('order_cancelled', NEW.id);
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION queue_order_sms()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_reminder_hours integer;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF NOT is_online_payment_method(NEW.payment_method) THEN
+      PERFORM enqueue_order_sms('order_confirmed', NEW.id);
+    END IF;
+
+    RETURN NEW;
+  END IF;
+
+  -- Offline orders were confirmed when placed; the dedupe key keeps it to one
+  IF NEW.payment_status = 'paid' AND OLD.payment_status IS DISTINCT FROM 'paid'
+     AND NEW.status <> 'cancelled' THEN
+    PERFORM enqueue_order_sms('order_confirmed', NEW.id);
+  END IF;
+
+  IF NEW.status = 'shipped' AND OLD.status IS DISTINCT FROM 'shipped' THEN
+    PERFORM enqueue_order_sms('order_dispatched', NEW.id);
+
+    IF NEW.payment_method = 'cod' THEN
+      SELECT COALESCE((SELECT (value #>> '{}')::integer FROM store_settings WHERE key = 'cod_sms_reminder_hours'), 24)
+      INTO v_reminder_hours;
+
+      PERFORM enqueue_order_sms('cod_delivery_reminder', NEW.id, now() + make_interval(hours => v_reminder_hours));
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- =====================================================
+-- PAYMENT EVENTS
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION apply_payment_event(p_event_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_event payment_events%ROWTYPE;
+  v_order orders%ROWTYPE;
+  v_outcome text;
+  v_detail text;
+  v_refund_id uuid;
+BEGIN
+  SELECT * INTO v_event FROM payment_events WHERE id = p_event_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Payment event % not found', p_event_id;
+  END IF;
+
+  IF v_event.outcome <> 'received' THEN
+    RETURN jsonb_build_object(
+      'outcome', v_event.outcome,
+      'detail', v_event.outcome_detail,
+      'payment_status', (SELECT payment_status FROM orders WHERE id = v_event.order_id)
+    );
+  END IF;
+
+  -- Lock the order so notifications for it are applied one at a time
+  SELECT * INTO v_order FROM orders WHERE id = v_event.order_id FOR UPDATE;
+
+  IF NOT v_event.signature_valid THEN
+    v_outcome := 'rejected';
+    v_detail := 'Invalid signature';
+  ELSIF v_order.id IS NULL THEN
+    v_outcome := 'rejected';
+    v_detail := 'Order not found';
+  ELSIF EXISTS (
+    SELECT 1 FROM payment_events
+    WHERE order_id = v_event.order_id
+      AND id <> v_event.id
+      AND outcome IN ('applied', 'ignored')
+      AND provider = v_event.provider
+      AND CASE
+        -- Gateways with event ids (Stripe) redeliver the same event
+        WHEN v_event.provider_event_id IS NOT NULL THEN
+          provider_event_id = v_event.provider_event_id
+        ELSE
+          provider_payment_id IS NOT DISTINCT FROM v_event.provider_payment_id
+          AND status_code IS NOT DISTINCT FROM v_event.status_code
+          AND payment_status IS NOT DISTINCT FROM v_event.payment_status
+      END
+  ) THEN
+    v_outcome := 'duplicate';
+    v_detail := 'Notification already processed';
+  ELSIF v_event.payment_status = 'paid'
+    AND (v_event.amount IS DISTINCT FROM v_order.total
+      OR upper(v_event.currency) IS DISTINCT FROM upper(v_order.currency)) THEN
+    -- Never mark an order paid for a different sum than it was priced at
+    v_outcome := 'rejected';
+    v_detail := format(
+      'Paid %s %s but the order total is %s %s',
+      COALESCE(upper(v_event.currency), '?'), COALESCE(v_event.amount::text, '?'),
+      v_order.currency, v_order.total
+    );
+  ELSIF COALESCE(v_order.payment_status, 'pending') = v_event.payment_status THEN
+    v_outcome := 'ignored';
+    v_detail := format('Payment is already %s', v_event.payment_status);
+  ELSIF NOT is_valid_payment_status_transition(v_order.payment_status, v_event.payment_status) THEN
+    v_outcome := 'ignored';
+    v_detail := format('Payment cannot move from %s to %s', v_order.payment_status, v_event.payment_status);
+  ELSE
+    v_outcome := 'applied';
+
+    IF v_event.payment_status = 'paid' AND v_order.payment_status IN ('expired', 'failed') THEN
+      IF NOT revive_expired_order(v_order.id) THEN
+        v_refund_id := refund_late_payment(v_order.id);
+        v_detail := 'Paid after the order was cancelled; refund opened';
+      END IF;
+    ELSIF v_event.payment_status = 'paid' THEN
+      UPDATE orders
+      SET payment_status = 'paid',
+          reserved_until = NULL,
+          updated_at = now()
+      WHERE id = v_order.id;
+    ELSIF v_event.payment_status = 'chargedback' THEN
+      PERFORM record_chargeback(
+        v_order.id,
+        'Chargeback: ' || COALESCE(NULLIF(v_event.status_message, ''), 'disputed by the cardholder')
+      );
+    ELSIF v_event.payment_status = 'failed' THEN
+      -- Give the reserved stock back; fall back to a plain status change if
+      -- the order has already left the pending state
+      IF NOT release_order_reservation(
+        v_order.id,
+        'failed',
+        'Payment ' || COALESCE(NULLIF(v_event.status_message, ''), 'failed')
+      ) THEN
+        UPDATE orders
+        SET payment_status = 'failed',
+            updated_at = now()
+        WHERE id = v_order.id;
+      END IF;
+    ELSE
+      UPDATE orders
+      SET payment_status = v_event.payment_status,
+          updated_at = now()
+      WHERE id = v_order.id;
+    END IF;
+
+    IF v_event.provider_payment_id IS NOT NULL THEN
+      UPDATE orders
+      SET payment_provider_id = v_event.provider_payment_id
+      WHERE id = v_order.id;
+    END IF;
+  END IF;
+
+  UPDATE payment_events
+  SET outcome = v_outcome,
+      outcome_detail = v_detail,
+      processed_at = now()
+  WHERE id = p_event_id;
+
+  RETURN jsonb_build_object(
+    'outcome', v_outcome,
+    'detail', v_detail,
+    'payment_status', (SELECT payment_status FROM orders WHERE id = v_event.order_id),
+    'refund_id', v_refund_id
+  );
+END;
+$$;
+
+-- =====================================================
+-- PERMISSIONS
+-- =====================================================
+
+GRANT EXECUTE ON FUNCTION cancel_order(uuid, text) TO authenticated;
+REVOKE EXECUTE ON FUNCTION revive_expired_order(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION refund_late_payment(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION apply_payment_event(uuid) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,54 @@
+/*
+  # Release Discount Redemptions With Cancelled Orders
+
+  Cancelling an order gave its stock back but kept its discount redemption,
+  so an abandoned or expired checkout still used up the code's limits:
+  1. An order moving to cancelled deletes its discount_redemptions row in
+     the same transaction. This covers cancel_order(), failed payments,
+     expired reservations, rejected payment slips and admin status changes
+  2. An expired order revived by a late payment records its redemption again
+*/
+
+-- =====================================================
+-- DISCOUNT REDEMPTIONS
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION sync_discount_redemption()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'cancelled' THEN
+    DELETE FROM discount_redemptions WHERE order_id = NEW.id;
+  ELSIF OLD.status = 'cancelled' AND NEW.discount_code IS NOT NULL THEN
+    INSERT INTO discount_redemptions (discount_code_id, order_id, user_id, amount)
+    SELECT id, NEW.id, NEW.user_id, COALESCE(NEW.discount_amount, 0)
+    FROM discount_codes
+    WHERE code = NEW.discount_code
+    ON CONFLICT (discount_code_id, order_id) DO NOTHING;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS sync_discount_redemption ON orders;
+CREATE TRIGGER sync_discount_redemption
+  AFTER UPDATE OF status ON orders
+  FOR EACH ROW
+  WHEN (OLD.status IS DISTINCT FROM NEW.status)
+  EXECUTE FUNCTION sync_discount_redemption();
+
+-- Orders cancelled before this migration
+DELETE FROM discount_redemptions dr
+USING orders o
+WHERE o.id = dr.order_id
+  AND o.status = 'cancelled';
+
+-- =====================================================
+-- PERMISSIONS
+-- =====================================================
+
+REVOKE EXECUTE ON FUNCTION sync_discount_redemption() FROM PUBLIC, anon, authenticated;
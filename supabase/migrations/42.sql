@@ -0,0 +1,14 @@
+/*
+  # Private Discount Evaluation
+
+  evaluate_discount_code() takes the shopper's id as an argument and runs as
+  its owner, so anyone calling it through the API could probe codes and
+  another customer's per-user limits. Only calculate_order_pricing(), which
+  passes auth.uid(), needs it.
+*/
+
+-- =====================================================
+-- PERMISSIONS
+-- =====================================================
+
+REVOKE EXECUTE ON FUNCTION evaluate_discount_code(text, uuid, jsonb, decimal, decimal) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,33 @@
+/*
+  # Own Profile Access
+
+  profiles_own_access allowed every command on the caller's own row, while
+  the role and SMS guards only fire on UPDATE. A signed-in user could delete
+  their profile and insert it again as an admin, or with an unverified SMS
+  number:
+  1. profiles_own_access is split into SELECT and UPDATE policies
+  2. INSERT, DELETE and TRUNCATE on profiles are revoked from anon and
+     authenticated. Profiles are created by handle_new_user() and removed
+     with their auth user
+*/
+
+-- =====================================================
+-- POLICIES
+-- =====================================================
+
+DROP POLICY IF EXISTS "profiles_own_access" ON profiles;
+
+CREATE POLICY "profiles_own_read" ON profiles
+  FOR SELECT TO authenticated
+  USING (auth.uid() = id);
+
+CREATE POLICY "profiles_own_update" ON profiles
+  FOR UPDATE TO authenticated
+  USING (auth.uid() = id)
+  WITH CHECK (auth.uid() = id);
+
+-- =====================================================
+-- PERMISSIONS
+-- =====================================================
+
+REVOKE INSERT, DELETE, TRUNCATE ON profiles FROM anon, authenticated;
@@ -0,0 +1,92 @@
+/*
+  # Revive Failed Orders
+
+  revive_expired_order() was redefined for stock movements (25.sql) from an
+  older body that only revived expired orders, dropping the 'failed' case
+  added in 20.sql. A late successful payment on an order whose earlier
+  payment attempt failed takes its stock again if it is still there, as it
+  did before; otherwise apply_payment_event() opens a refund for it. An
+  order that was no longer pending when its payment failed never gave its
+  stock back, so it is only marked paid.
+*/
+
+-- =====================================================
+-- LATE PAYMENTS
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION revive_expired_order(p_order_id uuid)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_item record;
+  v_status text;
+BEGIN
+  -- Only orders the system let lapse or the gateway failed; one cancelled
+  -- by the customer or an admin stays cancelled
+  SELECT status INTO v_status FROM orders
+  WHERE id = p_order_id
+    AND payment_status IN ('expired', 'failed')
+    AND cancelled_by IS NULL
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  -- A payment that failed after the order left pending kept its stock
+  IF v_status <> 'cancelled' THEN
+    UPDATE orders
+    SET payment_status = 'paid',
+        reserved_until = NULL,
+        updated_at = now()
+    WHERE id = p_order_id;
+
+    RETURN true;
+  END IF;
+
+  PERFORM set_stock_movement_context('order', p_order_id);
+
+  BEGIN
+    FOR v_item IN
+      SELECT product_variant_id, quantity FROM order_items WHERE order_id = p_order_id
+    LOOP
+      UPDATE product_variants
+      SET stock = stock - v_item.quantity,
+          updated_at = now()
+      WHERE id = v_item.product_variant_id
+        AND stock >= v_item.quantity;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Insufficient stock';
+      END IF;
+    END LOOP;
+  EXCEPTION
+    WHEN OTHERS THEN
+      UPDATE orders
+      SET payment_status = 'paid',
+          cancellation_reason = 'Paid after the order was cancelled and stock is no longer available. Refund required.',
+          updated_at = now()
+      WHERE id = p_order_id;
+      RETURN false;
+  END;
+
+  UPDATE orders
+  SET status = 'pending',
+      payment_status = 'paid',
+      cancelled_at = NULL,
+      cancellation_reason = NULL,
+      updated_at = now()
+  WHERE id = p_order_id;
+
+  RETURN true;
+END;
+$$;
+
+-- =====================================================
+-- PERMISSIONS
+-- =====================================================
+
+REVOKE EXECUTE ON FUNCTION revive_expired_order(uuid) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,181 @@
+/*
+  # Payment Slip Review Fixes
+
+  Approving a bank transfer slip ignored the order's state, and a slip in
+  review held the order's stock for as long as nobody looked at it:
+  1. Approving a slip for a cancelled order revives it only if it lapsed on
+     its own and the stock is still there. Otherwise the order is marked
+     paid and refund_late_payment() opens a refund for the transfer, as
+     apply_payment_event() does for late gateway payments
+  2. A slip in review keeps an unpaid order's reservation for at most
+     another bank_transfer_days() past reserved_until. After that the order
+     expires as usual, and approving the slip later revives or refunds it
+*/
+
+-- =====================================================
+-- SLIP REVIEW
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION review_payment_slip(
+  p_slip_id uuid,
+  p_approve boolean,
+  p_note text DEFAULT NULL
+)
+RETURNS payment_slips
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_slip payment_slips;
+  v_order orders;
+BEGIN
+  PERFORM require_admin();
+
+  SELECT * INTO v_slip FROM payment_slips WHERE id = p_slip_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Payment slip not found';
+  END IF;
+
+  IF v_slip.status <> 'submitted' THEN
+    RAISE EXCEPTION 'This slip has already been %', v_slip.status;
+  END IF;
+
+  IF NOT p_approve AND NULLIF(trim(p_note), '') IS NULL THEN
+    RAISE EXCEPTION 'Give the customer a reason for rejecting the slip';
+  END IF;
+
+  SELECT * INTO v_order FROM orders WHERE id = v_slip.order_id FOR UPDATE;
+
+  UPDATE payment_slips
+  SET status = CASE WHEN p_approve THEN 'approved' ELSE 'rejected' END,
+      review_note = NULLIF(trim(p_note), ''),
+      reviewed_by = auth.uid(),
+      reviewed_at = now()
+  WHERE id = p_slip_id
+  RETURNING * INTO v_slip;
+
+  IF p_approve THEN
+    IF v_order.status = 'cancelled' THEN
+      -- Takes the stock again if the order lapsed and it is still there;
+      -- otherwise the money is recorded and refunded
+      IF NOT revive_expired_order(v_order.id) THEN
+        PERFORM refund_late_payment(v_order.id);
+
+        UPDATE payment_slips
+        SET review_note = COALESCE(review_note, 'The order was cancelled, so this payment will be refunded')
+        WHERE id = p_slip_id
+        RETURNING * INTO v_slip;
+      END IF;
+    ELSIF v_order.payment_status = 'pending' THEN
+      UPDATE orders
+      SET payment_status = 'paid',
+          reserved_until = NULL,
+          updated_at = now()
+      WHERE id = v_order.id;
+    END IF;
+  ELSIF v_order.status = 'pending' AND v_order.payment_status = 'pending' THEN
+    -- Leave the customer a day to send a corrected slip
+    UPDATE orders
+    SET reserved_until = GREATEST(reserved_until, now() + interval '1 day'),
+        updated_at = now()
+    WHERE id = v_order.id;
+  END IF;
+
+  RETURN v_slip;
+END;
+$$;
+
+-- =====================================================
+-- EXPIRING UNPAID ORDERS
+-- =====================================================
+
+-- A slip waiting for review keeps the stock reserved, but not indefinitely
+CREATE OR REPLACE FUNCTION slip_holds_reservation(p_order_id uuid, p_reserved_until timestamptz)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT has_slip_in_review(p_order_id)
+    AND p_reserved_until + make_interval(days => bank_transfer_days()) > now();
+$$;
+
+CREATE OR REPLACE FUNCTION expire_payment_reservations()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_order record;
+  v_count integer := 0;
+BEGIN
+  FOR v_order IN
+    SELECT id, payment_method FROM orders
+    WHERE status = 'pending'
+      AND payment_status = 'pending'
+      AND reserved_until < now()
+      AND NOT slip_holds_reservation(id, reserved_until)
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    IF release_order_reservation(v_order.id, 'expired', payment_expiry_reason(v_order.payment_method)) THEN
+      v_count := v_count + 1;
+    END IF;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION check_order_reservation(
+  p_order_id uuid,
+  p_access_token text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_order orders;
+BEGIN
+  SELECT * INTO v_order FROM orders WHERE id = p_order_id;
+
+  IF NOT FOUND OR (
+    v_order.user_id IS DISTINCT FROM auth.uid()
+    AND v_order.access_token IS DISTINCT FROM p_access_token
+    AND NOT is_admin()
+  ) THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF v_order.status = 'pending'
+     AND v_order.payment_status = 'pending'
+     AND v_order.reserved_until < now()
+     AND NOT slip_holds_reservation(p_order_id, v_order.reserved_until) THEN
+    PERFORM release_order_reservation(p_order_id, 'expired', payment_expiry_reason(v_order.payment_method));
+    SELECT * INTO v_order FROM orders WHERE id = p_order_id;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'status', v_order.status,
+    'payment_status', v_order.payment_status,
+    'reserved_until', v_order.reserved_until,
+    'cancellation_reason', v_order.cancellation_reason,
+    'can_retry', v_order.status = 'pending'
+      AND v_order.payment_status = 'pending'
+      AND v_order.reserved_until > now()
+      AND is_online_payment_method(v_order.payment_method)
+  );
+END;
+$$;
+
+-- =====================================================
+-- PERMISSIONS
+-- =====================================================
+
+REVOKE EXECUTE ON FUNCTION slip_holds_reservation(uuid, timestamptz) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION expire_payment_reservations() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION review_payment_slip(uuid, boolean, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION review_payment_slip(uuid, boolean, text) TO authenticated;
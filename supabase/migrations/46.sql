@@ -0,0 +1,81 @@
+/*
+  # Admin Order Status Transitions
+
+  set_order_status() wrote whatever status the admin picked, so a shipped
+  order could be marked cancelled or refunded without restocking anything
+  or opening a refund:
+  1. is_valid_order_status_transition(): orders move forward through
+     pending, confirmed and processing (or back, before anything ships),
+     then to shipped and delivered
+  2. set_order_status() refuses cancelled and refunded, which only
+     cancel_order() and the refund workflow may set, and any other move the
+     state machine does not allow
+*/
+
+-- =====================================================
+-- ORDER STATUS STATE MACHINE
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION is_valid_order_status_transition(p_from text, p_to text)
+RETURNS boolean
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT COALESCE(p_from, 'pending') = p_to
+    OR (COALESCE(p_from, 'pending') IN ('pending', 'confirmed', 'processing')
+        AND p_to IN ('pending', 'confirmed', 'processing', 'shipped'))
+    OR (COALESCE(p_from, 'pending'), p_to) IN (
+      VALUES
+        ('shipped', 'delivered')
+    );
+$$;
+
+-- =====================================================
+-- ADMIN STATUS CHANGES
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION set_order_status(p_order_id uuid, p_status text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_current text;
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Access denied: Admin privileges required'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF p_status = 'cancelled' THEN
+    RAISE EXCEPTION 'Cancel the order instead so its stock and payment are handled';
+  END IF;
+
+  IF p_status = 'refunded' THEN
+    RAISE EXCEPTION 'Refund the order from its refunds panel instead';
+  END IF;
+
+  SELECT status INTO v_current FROM orders WHERE id = p_order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF NOT is_valid_order_status_transition(v_current, p_status) THEN
+    RAISE EXCEPTION 'Order status cannot change from % to %', v_current, p_status;
+  END IF;
+
+  UPDATE orders
+  SET status = p_status,
+      updated_at = now()
+  WHERE id = p_order_id;
+END;
+$$;
+
+-- =====================================================
+-- PERMISSIONS
+-- =====================================================
+
+REVOKE EXECUTE ON FUNCTION set_order_status(uuid, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION set_order_status(uuid, text) TO authenticated;
@@ -0,0 +1,61 @@
+/*
+  # Manual Payment Status Changes
+
+  The admin payment status dropdown could mark an order paid or refunded
+  with no money received or returned and no refunds row behind it:
+  1. set_order_payment_status() only sets failed or expired. Paid comes
+     from gateway notifications, approved bank slips and COD collections;
+     refunded and partially_refunded only from create_refund() and
+     complete_refund(); chargedback only from the gateway
+  2. Failing or expiring an order that is still awaiting payment gives its
+     stock back, as a failed gateway notification does
+*/
+
+-- =====================================================
+-- ADMIN STATUS CHANGES
+-- =====================================================
+
+-- Backwards moves are still refused by enforce_payment_status_transition
+CREATE OR REPLACE FUNCTION set_order_payment_status(p_order_id uuid, p_payment_status text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_payment_method text;
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Access denied: Admin privileges required'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF p_payment_status NOT IN ('failed', 'expired') THEN
+    RAISE EXCEPTION 'Payment status % is set by the payment or refund workflow', p_payment_status;
+  END IF;
+
+  SELECT payment_method INTO v_payment_method FROM orders WHERE id = p_order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF NOT release_order_reservation(
+    p_order_id,
+    p_payment_status,
+    CASE WHEN p_payment_status = 'failed' THEN 'Payment failed' ELSE payment_expiry_reason(v_payment_method) END
+  ) THEN
+    UPDATE orders
+    SET payment_status = p_payment_status,
+        updated_at = now()
+    WHERE id = p_order_id;
+  END IF;
+END;
+$$;
+
+-- =====================================================
+-- PERMISSIONS
+-- =====================================================
+
+REVOKE EXECUTE ON FUNCTION set_order_payment_status(uuid, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION set_order_payment_status(uuid, text) TO authenticated;
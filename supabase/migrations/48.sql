@@ -0,0 +1,375 @@
+/*
+  # Product Import Cell Checks
+
+  import_products() only cast prices, stock and flags while writing, so a
+  malformed cell passed the dry run and then aborted the whole commit with
+  a raw cast error:
+  1. is_valid_import_number() and is_valid_import_boolean() apply the CSV
+     parser's rules (productImportService.ts): blank is allowed, numbers
+     are finite and not negative, stock is whole, flags are
+     true/false/yes/no/y/n/1/0. Numbers must also fit their columns
+  2. import_products() checks every price, weight, stock and flag in the
+     validation pass and reports them by CSV row and column
+*/
+
+-- =====================================================
+-- CELL CHECKS
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION is_valid_import_number(
+  p_value text,
+  p_max numeric,
+  p_integer boolean DEFAULT false
+)
+RETURNS boolean
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  v_number numeric;
+BEGIN
+  IF NULLIF(trim(p_value), '') IS NULL THEN
+    RETURN true;
+  END IF;
+
+  v_number := trim(p_value)::numeric;
+
+  -- NaN sorts above every number, so rule it out by name
+  RETURN v_number::text NOT IN ('NaN', 'Infinity', '-Infinity')
+    AND v_number >= 0
+    AND v_number <= p_max
+    AND (NOT p_integer OR v_number = trunc(v_number));
+EXCEPTION
+  WHEN invalid_text_representation OR numeric_value_out_of_range THEN
+    RETURN false;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION is_valid_import_boolean(p_value text)
+RETURNS boolean
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT NULLIF(trim(p_value), '') IS NULL
+    OR lower(trim(p_value)) IN ('true', 'yes', 'y', '1', 'false', 'no', 'n', '0');
+$$;
+
+-- =====================================================
+-- IMPORT
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION import_products(
+  p_products jsonb,
+  p_dry_run boolean DEFAULT true
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_product jsonb;
+  v_variant jsonb;
+  v_image jsonb;
+  v_row integer;
+  v_existing products%ROWTYPE;
+  v_product_id uuid;
+  v_category_id uuid;
+  v_brand_id uuid;
+  v_owner_id uuid;
+  v_slug text;
+  v_errors jsonb := '[]'::jsonb;
+  v_removed_images text[] := '{}';
+  v_products_created integer := 0;
+  v_products_updated integer := 0;
+  v_variants_created integer := 0;
+  v_variants_updated integer := 0;
+BEGIN
+  PERFORM require_admin();
+
+  IF p_products IS NULL OR jsonb_typeof(p_products) <> 'array' OR jsonb_array_length(p_products) = 0 THEN
+    RAISE EXCEPTION 'Nothing to import';
+  END IF;
+
+  -- =====================================================
+  -- VALIDATE
+  -- =====================================================
+
+  -- The same SKU twice in one file is ambiguous
+  FOR v_row, v_product IN
+    SELECT (p->>'row')::integer, p
+    FROM jsonb_array_elements(p_products) p
+    WHERE p->>'sku' IN (
+      SELECT x->>'sku' FROM jsonb_array_elements(p_products) x
+      GROUP BY x->>'sku' HAVING COUNT(*) > 1
+    )
+  LOOP
+    v_errors := v_errors || jsonb_build_object('row', v_row, 'field', 'product_sku',
+      'message', format('Product SKU "%s" appears in more than one product block', v_product->>'sku'));
+  END LOOP;
+
+  FOR v_row, v_variant IN
+    SELECT (v->>'row')::integer, v
+    FROM jsonb_array_elements(p_products) p,
+      jsonb_array_elements(p->'variants') v
+    WHERE v->>'sku' IN (
+      SELECT y->>'sku'
+      FROM jsonb_array_elements(p_products) x, jsonb_array_elements(x->'variants') y
+      GROUP BY y->>'sku' HAVING COUNT(*) > 1
+    )
+  LOOP
+    v_errors := v_errors || jsonb_build_object('row', v_row, 'field', 'variant_sku',
+      'message', format('Variant SKU "%s" appears more than once', v_variant->>'sku'));
+  END LOOP;
+
+  FOR v_product IN SELECT value FROM jsonb_array_elements(p_products)
+  LOOP
+    v_row := (v_product->>'row')::integer;
+
+    SELECT * INTO v_existing FROM products WHERE sku = v_product->>'sku';
+
+    IF FOUND AND v_existing.deleted_at IS NOT NULL THEN
+      v_errors := v_errors || jsonb_build_object('row', v_row, 'field', 'product_sku',
+        'message', format('Product SKU "%s" belongs to a deleted product; restore it first', v_product->>'sku'));
+    END IF;
+
+    IF v_existing.id IS NULL THEN
+      v_products_created := v_products_created + 1;
+    ELSE
+      v_products_updated := v_products_updated + 1;
+    END IF;
+
+    IF v_existing.id IS NULL AND (NULLIF(v_product->>'title', '') IS NULL OR NULLIF(trim(v_product->>'price'), '') IS NULL) THEN
+      v_errors := v_errors || jsonb_build_object('row', v_row, 'field', 'title',
+        'message', 'New products need a title and a price');
+    END IF;
+
+    IF NULLIF(v_product->>'category_slug', '') IS NOT NULL
+      AND NOT EXISTS (SELECT 1 FROM categories WHERE slug = v_product->>'category_slug') THEN
+      v_errors := v_errors || jsonb_build_object('row', v_row, 'field', 'category',
+        'message', format('Unknown category "%s"', v_product->>'category_slug'));
+    END IF;
+
+    IF NULLIF(v_product->>'brand_slug', '') IS NOT NULL
+      AND NOT EXISTS (SELECT 1 FROM brands WHERE slug = v_product->>'brand_slug') THEN
+      v_errors := v_errors || jsonb_build_object('row', v_row, 'field', 'brand',
+        'message', format('Unknown brand "%s"', v_product->>'brand_slug'));
+    END IF;
+
+    IF NOT is_valid_import_number(v_product->>'price', 99999999.99) THEN
+      v_errors := v_errors || jsonb_build_object('row', v_row, 'field', 'price',
+        'message', format('Price "%s" is not a valid amount', v_product->>'price'));
+    END IF;
+
+    IF NOT is_valid_import_number(v_product->>'weight_kg', 99999.999) THEN
+      v_errors := v_errors || jsonb_build_object('row', v_row, 'field', 'weight_kg',
+        'message', format('Weight "%s" is not a valid number', v_product->>'weight_kg'));
+    END IF;
+
+    IF NOT is_valid_import_boolean(v_product->>'is_active') THEN
+      v_errors := v_errors || jsonb_build_object('row', v_row, 'field', 'is_active',
+        'message', format('"%s" is not true or false', v_product->>'is_active'));
+    END IF;
+
+    IF NOT is_valid_import_boolean(v_product->>'featured') THEN
+      v_errors := v_errors || jsonb_build_object('row', v_row, 'field', 'featured',
+        'message', format('"%s" is not true or false', v_product->>'featured'));
+    END IF;
+
+    -- New products without a slug get one from the title
+    v_slug := COALESCE(
+      NULLIF(v_product->>'slug', ''),
+      CASE WHEN v_existing.id IS NULL
+        THEN trim(BOTH '-' FROM regexp_replace(lower(v_product->>'title'), '[^a-z0-9]+', '-', 'g'))
+      END
+    );
+
+    IF v_slug IS NOT NULL AND EXISTS (
+      SELECT 1 FROM products
+      WHERE slug = v_slug
+        AND id IS DISTINCT FROM v_existing.id
+    ) THEN
+      v_errors := v_errors || jsonb_build_object('row', v_row, 'field', 'slug',
+        'message', format('Slug "%s" is already used by another product', v_slug));
+    END IF;
+
+    IF v_existing.id IS NULL AND jsonb_array_length(COALESCE(v_product->'variants', '[]'::jsonb)) = 0 THEN
+      v_errors := v_errors || jsonb_build_object('row', v_row, 'field', 'variant_sku',
+        'message', 'New products need at least one variant');
+    END IF;
+
+    -- Outside URLs are copied into storage by the caller on commit
+    FOR v_image IN SELECT value FROM jsonb_array_elements(COALESCE(v_product->'images', '[]'::jsonb))
+    LOOP
+      IF v_image->>'storage_path' !~* '^https?://' AND NOT EXISTS (
+        SELECT 1 FROM storage.objects
+        WHERE bucket_id = 'kixora' AND name = v_image->>'storage_path'
+      ) THEN
+        v_errors := v_errors || jsonb_build_object('row', v_row, 'field', 'images',
+          'message', format('Image "%s" was not found in storage', v_image->>'storage_path'));
+      END IF;
+    END LOOP;
+
+    FOR v_variant IN SELECT value FROM jsonb_array_elements(COALESCE(v_product->'variants', '[]'::jsonb))
+    LOOP
+      SELECT product_id INTO v_owner_id FROM product_variants WHERE sku = v_variant->>'sku';
+
+      IF NOT FOUND THEN
+        v_variants_created := v_variants_created + 1;
+      ELSIF v_owner_id IS DISTINCT FROM v_existing.id THEN
+        v_errors := v_errors || jsonb_build_object('row', (v_variant->>'row')::integer, 'field', 'variant_sku',
+          'message', format('Variant SKU "%s" belongs to another product', v_variant->>'sku'));
+      ELSE
+        v_variants_updated := v_variants_updated + 1;
+      END IF;
+
+      IF NOT is_valid_import_number(v_variant->>'price_override', 99999999.99) THEN
+        v_errors := v_errors || jsonb_build_object('row', (v_variant->>'row')::integer, 'field', 'price_override',
+          'message', format('Price override "%s" is not a valid amount', v_variant->>'price_override'));
+      END IF;
+
+      IF NOT is_valid_import_number(v_variant->>'stock', 2147483647, true) THEN
+        v_errors := v_errors || jsonb_build_object('row', (v_variant->>'row')::integer, 'field', 'stock',
+          'message', format('Stock "%s" must be a whole number of 0 or more', v_variant->>'stock'));
+      END IF;
+
+      IF NOT is_valid_import_boolean(v_variant->>'is_active') THEN
+        v_errors := v_errors || jsonb_build_object('row', (v_variant->>'row')::integer, 'field', 'variant_active',
+          'message', format('"%s" is not true or false', v_variant->>'is_active'));
+      END IF;
+    END LOOP;
+  END LOOP;
+
+  IF p_dry_run OR jsonb_array_length(v_errors) > 0 THEN
+    RETURN jsonb_build_object(
+      'committed', false,
+      'errors', v_errors,
+      'products_created', v_products_created,
+      'products_updated', v_products_updated,
+      'variants_created', v_variants_created,
+      'variants_updated', v_variants_updated,
+      'removed_images', '[]'::jsonb
+    );
+  END IF;
+
+  -- =====================================================
+  -- WRITE
+  -- =====================================================
+
+  PERFORM set_stock_movement_context('manual', NULL, 'CSV import');
+
+  FOR v_product IN SELECT value FROM jsonb_array_elements(p_products)
+  LOOP
+    SELECT id INTO v_category_id FROM categories WHERE slug = NULLIF(v_product->>'category_slug', '');
+    SELECT id INTO v_brand_id FROM brands WHERE slug = NULLIF(v_product->>'brand_slug', '');
+    SELECT id INTO v_product_id FROM products WHERE sku = v_product->>'sku';
+
+    IF v_product_id IS NULL THEN
+      INSERT INTO products (
+        sku, title, slug, description, price, weight_kg,
+        category_id, brand_id, is_active, featured
+      )
+      VALUES (
+        v_product->>'sku',
+        v_product->>'title',
+        COALESCE(
+          NULLIF(v_product->>'slug', ''),
+          trim(BOTH '-' FROM regexp_replace(lower(v_product->>'title'), '[^a-z0-9]+', '-', 'g'))
+        ),
+        NULLIF(v_product->>'description', ''),
+        trim(v_product->>'price')::numeric,
+        COALESCE(NULLIF(trim(v_product->>'weight_kg'), '')::numeric, 0),
+        v_category_id,
+        v_brand_id,
+        COALESCE(NULLIF(trim(v_product->>'is_active'), '')::boolean, true),
+        COALESCE(NULLIF(trim(v_product->>'featured'), '')::boolean, false)
+      )
+      RETURNING id INTO v_product_id;
+    ELSE
+      UPDATE products
+      SET
+        title = COALESCE(NULLIF(v_product->>'title', ''), title),
+        slug = COALESCE(NULLIF(v_product->>'slug', ''), slug),
+        description = COALESCE(NULLIF(v_product->>'description', ''), description),
+        price = COALESCE(NULLIF(trim(v_product->>'price'), '')::numeric, price),
+        weight_kg = COALESCE(NULLIF(trim(v_product->>'weight_kg'), '')::numeric, weight_kg),
+        category_id = COALESCE(v_category_id, category_id),
+        brand_id = COALESCE(v_brand_id, brand_id),
+        is_active = COALESCE(NULLIF(trim(v_product->>'is_active'), '')::boolean, is_active),
+        featured = COALESCE(NULLIF(trim(v_product->>'featured'), '')::boolean, featured),
+        updated_at = now()
+      WHERE id = v_product_id;
+    END IF;
+
+    FOR v_variant IN SELECT value FROM jsonb_array_elements(COALESCE(v_product->'variants', '[]'::jsonb))
+    LOOP
+      INSERT INTO product_variants (product_id, sku, size, color, price_override, stock, is_active)
+      VALUES (
+        v_product_id,
+        v_variant->>'sku',
+        NULLIF(v_variant->>'size', ''),
+        NULLIF(v_variant->>'color', ''),
+        NULLIF(trim(v_variant->>'price_override'), '')::numeric,
+        COALESCE(NULLIF(trim(v_variant->>'stock'), '')::numeric::integer, 0),
+        COALESCE(NULLIF(trim(v_variant->>'is_active'), '')::boolean, true)
+      )
+      ON CONFLICT (sku) DO UPDATE
+      SET
+        size = EXCLUDED.size,
+        color = EXCLUDED.color,
+        price_override = EXCLUDED.price_override,
+        stock = COALESCE(NULLIF(trim(v_variant->>'stock'), '')::numeric::integer, product_variants.stock),
+        is_active = COALESCE(NULLIF(trim(v_variant->>'is_active'), '')::boolean, product_variants.is_active),
+        updated_at = now();
+    END LOOP;
+
+    IF jsonb_array_length(COALESCE(v_product->'images', '[]'::jsonb)) > 0 THEN
+      v_removed_images := v_removed_images || ARRAY(
+        SELECT pi.storage_path
+        FROM product_images pi
+        WHERE pi.product_id = v_product_id
+          AND pi.storage_path NOT IN (
+            SELECT i->>'storage_path' FROM jsonb_array_elements(v_product->'images') i
+          )
+      );
+
+      DELETE FROM product_images WHERE product_id = v_product_id;
+
+      FOR v_image IN SELECT value FROM jsonb_array_elements(v_product->'images')
+      LOOP
+        INSERT INTO product_images (
+          product_id, storage_path, image_url, file_name, file_size,
+          alt_text, display_order, is_primary
+        )
+        VALUES (
+          v_product_id,
+          v_image->>'storage_path',
+          v_image->>'image_url',
+          v_image->>'file_name',
+          COALESCE(v_image->>'file_size', '0'),
+          v_product->>'title',
+          (v_image->>'display_order')::integer,
+          (v_image->>'display_order')::integer = 0
+        );
+      END LOOP;
+    END IF;
+  END LOOP;
+
+  RETURN jsonb_build_object(
+    'committed', true,
+    'errors', '[]'::jsonb,
+    'products_created', v_products_created,
+    'products_updated', v_products_updated,
+    'variants_created', v_variants_created,
+    'variants_updated', v_variants_updated,
+    'removed_images', to_jsonb(v_removed_images)
+  );
+END;
+$$;
+
+-- =====================================================
+-- PERMISSIONS
+-- =====================================================
+
+REVOKE EXECUTE ON FUNCTION import_products(jsonb, boolean) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION import_products(jsonb, boolean) TO authenticated;
@@ -0,0 +1,39 @@
+// Copies the payment method list the edge functions use into the storefront,
+// which can't import from supabase/functions. Run this with:
+// node sync-payment-methods.js
+//
+// With --check nothing is written; it exits with an error when the
+// storefront copy is out of date. npm run lint runs the check first.
+
+import { readFileSync, writeFileSync } from 'fs';
+
+const source = 'supabase/functions/_shared/payments/methods.ts';
+const target = 'src/paymentProviders/methods.ts';
+const checkOnly = process.argv.includes('--check');
+
+const header = `// Generated from ${source} by
+// sync-payment-methods.js. Edit that file and run node sync-payment-methods.js.
+`;
+
+// The source's own header comment describes the source, so it is replaced
+const body = readFileSync(source, 'utf8').replace(/^(\/\/.*\n)+/, '');
+const generated = header + body;
+
+let current = null;
+try {
+  current = readFileSync(target, 'utf8');
+} catch {
+  // Written below
+}
+
+if (current === generated) {
+  process.exit(0);
+}
+
+if (checkOnly) {
+  console.error(`${target} is out of date with ${source}. Run: node sync-payment-methods.js`);
+  process.exit(1);
+}
+
+writeFileSync(target, generated);
+console.log(`Updated ${target}`);